@@ -93,7 +93,8 @@ export const onRequest: PagesFunction<Env> = async (context) => {
         if (pathSegments[1] === 'settings') {
           return await handleVoiceSettings(request, env, pathSegments.slice(2))
         }
-        return await handleVoice(request, env, pathSegments.slice(1))
+        // Streamed speech is cached after the response has been sent
+        return await handleVoice(request, env, pathSegments.slice(1), promise => context.waitUntil(promise))
 
       case 'children':
         return await handleChildren(request, env, pathSegments.slice(1))
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { handleLessons } from './lessons'
+import { generateToken } from './utils/auth'
 import type { Env, D1Database } from '../../types'
 
 // Mock D1 database
@@ -14,7 +15,7 @@ function createMockDB(): D1Database {
         results: mockResults[sql] || [],
         success: true,
       }),
-      first: vi.fn().mockResolvedValue(mockFirst[sql] || null),
+      first: vi.fn().mockResolvedValue(mockFirst[sql] || (sql.includes('COUNT(*)') ? { count: 0 } : null)),
       run: vi.fn().mockResolvedValue({
         success: true,
         meta: { changes: 1, duration: 0, last_row_id: 0, served_by: 'test' }
@@ -104,6 +105,43 @@ describe('handleLessons', () => {
       expect(selectCall?.[0]).toContain('difficulty = ?')
     })
 
+    it('returns 404 when the child is not in the family', async () => {
+      const request = createMockRequest('GET', 'http://localhost/api/lessons?childId=child-1')
+
+      const response = await handleLessons(request, env, [])
+
+      expect(response.status).toBe(404)
+    })
+
+    it('marks lessons locked until their prerequisites are completed', async () => {
+      const lessons = [
+        { id: 'lesson-a', title: 'A', subject: 'phonics', prerequisites: null },
+        { id: 'lesson-b', title: 'B', subject: 'phonics', prerequisites: '["lesson-a"]' },
+        { id: 'lesson-c', title: 'C', subject: 'phonics', prerequisites: '["lesson-b"]' },
+      ]
+      mockDB.prepare = vi.fn((sql: string) => ({
+        bind: vi.fn().mockReturnThis(),
+        all: vi.fn().mockResolvedValue({
+          results: sql.includes('FROM progress') ? [{ lesson_id: 'lesson-a' }] : lessons,
+          success: true,
+        }),
+        first: vi.fn().mockResolvedValue(sql.includes('FROM children') ? { id: 'child-1' } : { total: 3 }),
+        run: vi.fn(),
+        raw: vi.fn().mockResolvedValue([]),
+      }))
+      const request = createMockRequest('GET', 'http://localhost/api/lessons?childId=child-1')
+
+      const response = await handleLessons(request, env, [])
+
+      expect(response.status).toBe(200)
+      const data = await response.json() as { lessons: { id: string; availability: string }[] }
+      expect(data.lessons.map(l => [l.id, l.availability])).toEqual([
+        ['lesson-a', 'completed'],
+        ['lesson-b', 'unlocked'],
+        ['lesson-c', 'locked'],
+      ])
+    })
+
     it('applies pagination with limit and offset', async () => {
       const request = createMockRequest(
         'GET',
@@ -201,6 +239,62 @@ describe('handleLessons', () => {
       const data = await response.json() as { error: string }
       expect(data.error).toContain('required')
     })
+
+    it('returns 400 with field errors for invalid activities', async () => {
+      const request = createMockRequest(
+        'POST',
+        'http://localhost/api/lessons',
+        {
+          title: 'Test Lesson',
+          subject: 'phonics',
+          activities: [{ id: 'a1', type: 'dance', order: 0, instructions: 'Dance!' }],
+        }
+      )
+
+      const response = await handleLessons(request, env, [])
+
+      expect(response.status).toBe(400)
+      const data = await response.json() as { error: string; validationErrors: { field: string }[] }
+      expect(data.error).toBe('Invalid lesson activities')
+      expect(data.validationErrors.map(e => e.field)).toEqual(['activities[0].type'])
+      expect(mockDB.prepare).not.toHaveBeenCalled()
+    })
+
+    it('returns 400 when branching rules refer to unknown activities', async () => {
+      const request = createMockRequest(
+        'POST',
+        'http://localhost/api/lessons',
+        {
+          title: 'Test Lesson',
+          subject: 'phonics',
+          activities: [{ id: 'a1', type: 'spelling', order: 0, instructions: 'Spell it', word: 'cat' }],
+          branching: { fastStreak: { streak: 2, maxSecondsPerActivity: 10, skippableActivityIds: ['a2'] } },
+        }
+      )
+
+      const response = await handleLessons(request, env, [])
+
+      expect(response.status).toBe(400)
+      const data = await response.json() as { error: string; validationErrors: { field: string }[] }
+      expect(data.error).toBe('Invalid lesson branching')
+      expect(data.validationErrors.map(e => e.field)).toEqual(['branching.fastStreak.skippableActivityIds[0]'])
+      expect(mockDB.prepare).not.toHaveBeenCalled()
+    })
+
+    it('returns 400 when prerequisites name unknown lessons', async () => {
+      const request = createMockRequest(
+        'POST',
+        'http://localhost/api/lessons',
+        { title: 'Test Lesson', subject: 'phonics', prerequisites: ['missing-lesson'] }
+      )
+
+      const response = await handleLessons(request, env, [])
+
+      expect(response.status).toBe(400)
+      const data = await response.json() as { error: string; validationErrors: { field: string; message: string }[] }
+      expect(data.error).toBe('Invalid lesson prerequisites')
+      expect(data.validationErrors).toEqual([{ field: 'prerequisites[0]', message: 'no lesson with id "missing-lesson"' }])
+    })
   })
 
   describe('PUT /api/lessons/:id', () => {
@@ -283,7 +377,7 @@ describe('handleLessons', () => {
       mockDB.prepare = vi.fn(() => ({
         bind: vi.fn().mockReturnThis(),
         all: vi.fn().mockResolvedValue({ results: [], success: true }),
-        first: vi.fn().mockResolvedValue(null),
+        first: vi.fn().mockResolvedValue({ id: 'lesson-1', owner_id: null }),
         run: vi.fn().mockResolvedValue({
           success: true,
           meta: { changes: 1, duration: 0, last_row_id: 0, served_by: 'test' }
@@ -303,6 +397,282 @@ describe('handleLessons', () => {
     })
   })
 
+  describe('family-owned lessons', () => {
+    function authedRequest(method: string, url: string, body?: unknown): Request {
+      const request = createMockRequest(method, url, body)
+      const token = generateToken({ userId: 'user-1', email: 'parent@example.com' }, env)
+      request.headers.set('Authorization', `Bearer ${token}`)
+      return request
+    }
+
+    it('creates lessons owned by the signed-in parent and private by default', async () => {
+      const bind = vi.fn().mockReturnThis()
+      mockDB.prepare = vi.fn(() => ({
+        bind,
+        all: vi.fn().mockResolvedValue({ results: [], success: true }),
+        first: vi.fn().mockResolvedValue({ id: 'new', title: 'Ours', subject: 'phonics', owner_id: 'user-1', visibility: 'private', is_published: 1 }),
+        run: vi.fn().mockResolvedValue({
+          success: true,
+          meta: { changes: 1, duration: 0, last_row_id: 0, served_by: 'test' }
+        }),
+        raw: vi.fn().mockResolvedValue([]),
+      }))
+
+      const response = await handleLessons(
+        authedRequest('POST', 'http://localhost/api/lessons', { title: 'Ours', subject: 'phonics' }),
+        env,
+        []
+      )
+
+      expect(response.status).toBe(201)
+      const insertArgs = bind.mock.calls[0]
+      expect(insertArgs.slice(-4)).toEqual(['user-1', 'private', null, null])
+      const data = await response.json() as { lesson: { owner_id: string; visibility: string } }
+      expect(data.lesson).toMatchObject({ owner_id: 'user-1', visibility: 'private' })
+    })
+
+    it('returns 403 when another family owns the lesson', async () => {
+      mockDB.prepare = vi.fn(() => ({
+        bind: vi.fn().mockReturnThis(),
+        all: vi.fn().mockResolvedValue({ results: [], success: true }),
+        first: vi.fn().mockResolvedValue({ id: 'lesson-1', owner_id: 'someone-else' }),
+        run: vi.fn(),
+        raw: vi.fn().mockResolvedValue([]),
+      }))
+
+      const response = await handleLessons(
+        authedRequest('PUT', 'http://localhost/api/lessons/lesson-1', { title: 'Mine now' }),
+        env,
+        ['lesson-1']
+      )
+
+      expect(response.status).toBe(403)
+    })
+
+    it('requires sign-in to list your own lessons', async () => {
+      const response = await handleLessons(
+        createMockRequest('GET', 'http://localhost/api/lessons/mine'),
+        env,
+        ['mine']
+      )
+
+      expect(response.status).toBe(401)
+    })
+
+    it('lists lessons by owner', async () => {
+      const bind = vi.fn().mockReturnThis()
+      mockDB.prepare = vi.fn(() => ({
+        bind,
+        all: vi.fn().mockResolvedValue({
+          results: [{ id: 'l1', title: 'Ours', owner_id: 'user-1', visibility: 'private' }],
+          success: true,
+        }),
+        first: vi.fn().mockResolvedValue(null),
+        run: vi.fn(),
+        raw: vi.fn().mockResolvedValue([]),
+      }))
+
+      const response = await handleLessons(authedRequest('GET', 'http://localhost/api/lessons/mine'), env, ['mine'])
+
+      expect(response.status).toBe(200)
+      expect(bind).toHaveBeenCalledWith('user-1')
+      const data = await response.json() as { lessons: { id: string }[] }
+      expect(data.lessons.map(l => l.id)).toEqual(['l1'])
+    })
+  })
+
+  describe('POST /api/lessons/generate', () => {
+    function authedRequest(method: string, url: string, body?: unknown): Request {
+      const request = createMockRequest(method, url, body)
+      const token = generateToken({ userId: 'user-1', email: 'parent@example.com' }, env)
+      request.headers.set('Authorization', `Bearer ${token}`)
+      return request
+    }
+
+    it('requires sign-in', async () => {
+      const response = await handleLessons(
+        createMockRequest('POST', 'http://localhost/api/lessons/generate', { childId: 'child-1', subject: 'word-families' }),
+        env,
+        ['generate']
+      )
+
+      expect(response.status).toBe(401)
+    })
+
+    it('generates with the offline provider and records usage', async () => {
+      const bind = vi.fn().mockReturnThis()
+      mockDB.prepare = vi.fn(() => ({
+        bind,
+        all: vi.fn().mockResolvedValue({ results: [], success: true }),
+        first: vi.fn().mockResolvedValue({ name: 'Emma', age: 5, grade_level: 'kindergarten', learning_style: null, interests: '["space"]' }),
+        run: vi.fn().mockResolvedValue({
+          success: true,
+          meta: { changes: 1, duration: 0, last_row_id: 0, served_by: 'test' }
+        }),
+        raw: vi.fn().mockResolvedValue([]),
+      }))
+      env.AI_PROVIDER = 'offline'
+
+      const response = await handleLessons(
+        authedRequest('POST', 'http://localhost/api/lessons/generate', { childId: 'child-1', subject: 'word-families', topic: '-ug words' }),
+        env,
+        ['generate']
+      )
+
+      expect(response.status).toBe(201)
+      const data = await response.json() as { lesson: { title: string; activities: unknown[] }; usage: { provider: string } }
+      expect(data.lesson.title).toBe('Space and -UG Words')
+      expect(data.lesson.activities.length).toBeGreaterThan(0)
+      expect(data.usage.provider).toBe('offline')
+      expect(bind).toHaveBeenCalledWith('child-1', 'user-1')
+      expect(bind).toHaveBeenCalledWith(expect.any(String), 'user-1', 'offline', 'offline-templates', 0, 0, 0)
+    })
+
+    it('returns 404 for another family\'s child', async () => {
+      const response = await handleLessons(
+        authedRequest('POST', 'http://localhost/api/lessons/generate', { childId: 'child-2', subject: 'word-families' }),
+        env,
+        ['generate']
+      )
+
+      expect(response.status).toBe(404)
+    })
+
+    it('summarizes usage for the signed-in parent', async () => {
+      mockDB.prepare = vi.fn(() => ({
+        bind: vi.fn().mockReturnThis(),
+        all: vi.fn().mockResolvedValue({
+          results: [{ provider: 'grok', model: 'grok-2-latest', requests: 2, input_tokens: 100, output_tokens: 40, cost_usd: 0.0006 }],
+          success: true,
+        }),
+        first: vi.fn().mockResolvedValue(null),
+        run: vi.fn(),
+        raw: vi.fn().mockResolvedValue([]),
+      }))
+
+      const response = await handleLessons(
+        authedRequest('GET', 'http://localhost/api/lessons/generate/usage'),
+        env,
+        ['generate', 'usage']
+      )
+
+      expect(response.status).toBe(200)
+      const data = await response.json() as { usage: { requests: number; inputTokens: number } }
+      expect(data.usage).toMatchObject({ requests: 2, inputTokens: 100 })
+    })
+  })
+
+  describe('safety review', () => {
+    function requestAs(email: string, method: string, url: string, body?: unknown): Request {
+      const request = createMockRequest(method, url, body)
+      const token = generateToken({ userId: `user-${email}`, email }, env)
+      request.headers.set('Authorization', `Bearer ${token}`)
+      return request
+    }
+
+    beforeEach(() => {
+      env.ADMIN_EMAILS = 'reviewer@example.com'
+    })
+
+    it('holds flagged lessons unpublished with the reasons', async () => {
+      const bind = vi.fn().mockReturnThis()
+      mockDB.prepare = vi.fn(() => ({
+        bind,
+        all: vi.fn().mockResolvedValue({ results: [], success: true }),
+        first: vi.fn().mockResolvedValue({ id: 'new', title: 'Beer Time', subject: 'reading', is_published: 0 }),
+        run: vi.fn().mockResolvedValue({
+          success: true,
+          meta: { changes: 1, duration: 0, last_row_id: 0, served_by: 'test' }
+        }),
+        raw: vi.fn().mockResolvedValue([]),
+      }))
+
+      const response = await handleLessons(
+        requestAs('parent@example.com', 'POST', 'http://localhost/api/lessons', { title: 'Beer Time', subject: 'reading' }),
+        env,
+        []
+      )
+
+      expect(response.status).toBe(201)
+      const insertArgs = bind.mock.calls[0]
+      expect(insertArgs[insertArgs.length - 5]).toBe(0)
+      expect(JSON.parse(insertArgs[insertArgs.length - 2])).toEqual([
+        { field: 'title', rule: 'blocklist', message: '"beer" is not suitable for young children' },
+      ])
+      expect(insertArgs[insertArgs.length - 1]).toBe('pending')
+    })
+
+    it('only shows the queue to admins', async () => {
+      const response = await handleLessons(
+        requestAs('parent@example.com', 'GET', 'http://localhost/api/lessons/review'),
+        env,
+        ['review']
+      )
+
+      expect(response.status).toBe(403)
+    })
+
+    it('lists flagged lessons by status', async () => {
+      const bind = vi.fn().mockReturnThis()
+      mockDB.prepare = vi.fn(() => ({
+        bind,
+        all: vi.fn().mockResolvedValue({
+          results: [{ id: 'l1', title: 'Beer Time', review_status: 'rejected', safety_flags: '[{"field":"title"}]' }],
+          success: true,
+        }),
+        first: vi.fn().mockResolvedValue(null),
+        run: vi.fn(),
+        raw: vi.fn().mockResolvedValue([]),
+      }))
+
+      const response = await handleLessons(
+        requestAs('reviewer@example.com', 'GET', 'http://localhost/api/lessons/review?status=rejected'),
+        env,
+        ['review']
+      )
+
+      expect(response.status).toBe(200)
+      expect(bind).toHaveBeenCalledWith('rejected')
+      const data = await response.json() as { lessons: { review_status: string; safety_flags: unknown[] }[] }
+      expect(data.lessons[0]).toMatchObject({ review_status: 'rejected', safety_flags: [{ field: 'title' }] })
+    })
+
+    it('approves a flagged lesson', async () => {
+      const bind = vi.fn().mockReturnThis()
+      mockDB.prepare = vi.fn(() => ({
+        bind,
+        all: vi.fn().mockResolvedValue({ results: [], success: true }),
+        first: vi.fn().mockResolvedValue({ id: 'l1', title: 'Beer Time', review_status: 'approved', is_published: 1 }),
+        run: vi.fn().mockResolvedValue({
+          success: true,
+          meta: { changes: 1, duration: 0, last_row_id: 0, served_by: 'test' }
+        }),
+        raw: vi.fn().mockResolvedValue([]),
+      }))
+
+      const response = await handleLessons(
+        requestAs('reviewer@example.com', 'POST', 'http://localhost/api/lessons/review/l1/approve', { note: 'Root beer' }),
+        env,
+        ['review', 'l1', 'approve']
+      )
+
+      expect(response.status).toBe(200)
+      expect(bind).toHaveBeenCalledWith('approved', 1, 'Root beer', 'user-reviewer@example.com', 'l1')
+      const data = await response.json() as { lesson: { is_published: boolean } }
+      expect(data.lesson.is_published).toBe(true)
+    })
+
+    it('returns 404 for lessons that were never flagged', async () => {
+      const response = await handleLessons(
+        requestAs('reviewer@example.com', 'POST', 'http://localhost/api/lessons/review/l1/reject'),
+        env,
+        ['review', 'l1', 'reject']
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+
   describe('GET /api/lessons/subjects', () => {
     it('returns list of distinct subjects', async () => {
       mockDB.prepare = vi.fn(() => ({
@@ -76,3 +76,31 @@ export function requireAuth(
 
   return { user }
 }
+
+/**
+ * Require an admin, listed by email in ADMIN_EMAILS (comma separated)
+ */
+export function requireAdmin(
+  request: Request,
+  env: Env
+): { user: JwtPayload } | { error: Response } {
+  const authResult = requireAuth(request, env)
+  if ('error' in authResult) {
+    return authResult
+  }
+
+  const admins = (env.ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase())
+  if (!admins.includes(authResult.user.email.toLowerCase())) {
+    return {
+      error: new Response(
+        JSON.stringify({ error: 'Admin access required' }),
+        {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      ),
+    }
+  }
+
+  return authResult
+}
@@ -0,0 +1,87 @@
+/**
+ * Serve shared API core routes from Cloudflare Functions
+ */
+
+import bcrypt from 'bcryptjs'
+import type { Env, WaitUntil } from '../../../types'
+import { jsonResponse } from '../../[[path]]'
+import { handleApiRequest, type ApiContext, type ApiResponse, type ApiRoute } from '../../../../server/api/core'
+import { VoiceService } from '../../../../server/services/voice'
+import { createD1Database } from './d1Database'
+import { generateToken, verifyToken } from './auth'
+import { getTtsCache } from './ttsCache'
+
+function createContext(env: Env, waitUntil?: WaitUntil): ApiContext {
+  return {
+    db: createD1Database(env.DB),
+    env,
+    signToken: payload => generateToken(payload, env),
+    verifyToken: token => verifyToken(token, env),
+    hashPassword: password => bcrypt.hash(password, 10),
+    checkPassword: (password, hash) => bcrypt.compare(password, hash),
+    voice: () => new VoiceService(env.ELEVENLABS_API_KEY, env.SPEECH_PROVIDER, getTtsCache(env, waitUntil)),
+  }
+}
+
+/**
+ * The JSON body, or the text fields and files of a multipart form
+ */
+async function readBody(request: Request): Promise<{ body: unknown; files: Record<string, File[]> }> {
+  if (request.method === 'GET' || request.method === 'DELETE') {
+    return { body: {}, files: {} }
+  }
+  if (!request.headers.get('Content-Type')?.startsWith('multipart/form-data')) {
+    return { body: (await request.json().catch(() => ({}))) ?? {}, files: {} }
+  }
+
+  const body: Record<string, string> = {}
+  const files: Record<string, File[]> = {}
+  for (const [name, value] of await request.formData()) {
+    if (typeof value === 'string') {
+      body[name] = value
+    } else {
+      files[name] = [...(files[name] ?? []), value]
+    }
+  }
+  return { body, files }
+}
+
+function toResponse(response: ApiResponse): Response {
+  if (response.body === undefined) {
+    return new Response(null, { status: response.status, headers: response.headers })
+  }
+  if (response.body instanceof Uint8Array || response.body instanceof ReadableStream) {
+    return new Response(response.body, { status: response.status, headers: response.headers })
+  }
+
+  const json = jsonResponse(response.body, response.status)
+  for (const [name, value] of Object.entries(response.headers ?? {})) {
+    json.headers.set(name, value)
+  }
+  return json
+}
+
+/**
+ * Run the core route matching pathSegments, which are relative to where the
+ * routes are mounted
+ */
+export async function handleCoreRoutes(
+  routes: ApiRoute[],
+  request: Request,
+  env: Env,
+  pathSegments: string[],
+  waitUntil?: WaitUntil
+): Promise<Response> {
+  const { body, files } = await readBody(request)
+
+  const response = await handleApiRequest(routes, {
+    method: request.method,
+    path: pathSegments,
+    query: new URL(request.url).searchParams,
+    header: name => request.headers.get(name) ?? undefined,
+    body,
+    files,
+  }, createContext(env, waitUntil))
+
+  return toResponse(response)
+}
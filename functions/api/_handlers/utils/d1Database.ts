@@ -0,0 +1,30 @@
+/**
+ * ApiDatabase over Cloudflare D1
+ */
+
+import type { D1Database } from '../../../types'
+import type { ApiDatabase } from '../../../../server/api/core'
+
+export function createD1Database(db: D1Database): ApiDatabase {
+  return {
+    async first<T>(sql: string, ...params: unknown[]) {
+      return await db.prepare(sql).bind(...params).first<T>()
+    },
+
+    async all<T>(sql: string, ...params: unknown[]) {
+      const result = await db.prepare(sql).bind(...params).all<T>()
+      return result.results || []
+    },
+
+    async run(sql: string, ...params: unknown[]) {
+      const result = await db.prepare(sql).bind(...params).run()
+      return { changes: result.meta?.changes ?? 0 }
+    },
+
+    async batch(statements) {
+      if (statements.length === 0) return
+      // D1 runs a batch as a single transaction
+      await db.batch(statements.map(({ sql, params }) => db.prepare(sql).bind(...params)))
+    },
+  }
+}
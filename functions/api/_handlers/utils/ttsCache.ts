@@ -0,0 +1,47 @@
+/**
+ * TTS audio cache for Cloudflare Functions, backed by the TTS_CACHE KV namespace
+ */
+
+import {
+  createTtsCache,
+  createKvTtsCacheBackend,
+  DEFAULT_TTS_CACHE_MAX_BYTES,
+  type TtsCache,
+  type TtsKvNamespace,
+} from '../../../../server/services/ttsCache'
+import type { WaitUntil } from '../../../types'
+
+interface TtsCacheEnv {
+  TTS_CACHE?: TtsKvNamespace
+  TTS_CACHE_MAX_MB?: string
+}
+
+/**
+ * The configured cache, or null when no KV namespace is bound. Writes are
+ * handed to waitUntil, so one that finishes after the response is sent (as
+ * when streamed speech is stored) still completes.
+ */
+export function getTtsCache(
+  env: TtsCacheEnv,
+  waitUntil?: WaitUntil
+): TtsCache | null {
+  if (!env.TTS_CACHE) {
+    return null
+  }
+  const maxMb = Number(env.TTS_CACHE_MAX_MB)
+  const maxBytes = Number.isFinite(maxMb) && maxMb > 0 ? maxMb * 1024 * 1024 : DEFAULT_TTS_CACHE_MAX_BYTES
+  const cache = createTtsCache(createKvTtsCacheBackend(env.TTS_CACHE), { maxBytes })
+  if (!waitUntil) {
+    return cache
+  }
+
+  return {
+    get: key => cache.get(key),
+    put(key, entry) {
+      const write = cache.put(key, entry)
+      // The caller logs failures
+      waitUntil(write.catch(() => {}))
+      return write
+    },
+  }
+}
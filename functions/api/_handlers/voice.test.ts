@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { handleVoice } from './voice'
+import { generateToken } from './utils/auth'
+import type { Env, D1Database } from '../../types'
+
+// Mock D1 database; rows for SELECTs are keyed by SQL prefix
+function createMockDB(rows: Record<string, unknown[]> = {}): D1Database {
+  const resultsFor = (sql: string) =>
+    Object.entries(rows).find(([prefix]) => sql.trim().startsWith(prefix))?.[1] ?? []
+
+  return {
+    prepare: vi.fn((sql: string) => ({
+      bind: vi.fn().mockReturnThis(),
+      all: vi.fn().mockResolvedValue({ results: resultsFor(sql), success: true }),
+      first: vi.fn().mockResolvedValue(resultsFor(sql)[0] ?? null),
+      run: vi.fn().mockResolvedValue({
+        success: true,
+        meta: { changes: 1, duration: 0, last_row_id: 0, served_by: 'test' }
+      }),
+      raw: vi.fn().mockResolvedValue([]),
+    })),
+    dump: vi.fn().mockResolvedValue(new ArrayBuffer(0)),
+    batch: vi.fn().mockResolvedValue([]),
+    exec: vi.fn().mockResolvedValue({ count: 0, duration: 0 }),
+  } as unknown as D1Database
+}
+
+// Mock D1 database where `owner` is the family that cloned every voice
+function createOwnedVoiceDB(owner: string): D1Database {
+  return {
+    prepare: vi.fn((sql: string) => {
+      let params: unknown[] = []
+      const matches = () => (sql.includes('user_id != ?') ? params[1] !== owner : params[1] === owner)
+      const statement = {
+        bind: vi.fn((...values: unknown[]) => {
+          params = values
+          return statement
+        }),
+        first: vi.fn(async () => (matches() ? { 1: 1 } : null)),
+      }
+      return statement
+    }),
+  } as unknown as D1Database
+}
+
+function createMockEnv(db = createMockDB()): Env {
+  return {
+    DB: db,
+    SPEECH_PROVIDER: 'local',
+    JWT_SECRET: 'test-secret',
+    ENVIRONMENT: 'test',
+  }
+}
+
+function createTtsRequest(env: Env, body: Record<string, unknown>, userId?: string) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (userId) {
+    headers.Authorization = `Bearer ${generateToken({ userId, email: `${userId}@example.com` }, env)}`
+  }
+  return new Request('http://localhost/api/voice/tts', { method: 'POST', headers, body: JSON.stringify(body) })
+}
+
+function createCloneRequest(env: Env, fields: { consent?: string; samples?: number; signedIn?: boolean } = {}) {
+  const { consent = 'true', samples = 3, signedIn = true } = fields
+  const formData = new FormData()
+  formData.append('name', 'Mom')
+  formData.append('consent', consent)
+  for (let i = 0; i < samples; i++) {
+    formData.append('samples', new File([`sample ${i}`], `sample-${i + 1}.webm`, { type: 'audio/webm' }))
+  }
+
+  const headers: Record<string, string> = {}
+  if (signedIn) {
+    headers.Authorization = `Bearer ${generateToken({ userId: 'user-1', email: 'parent@example.com' }, env)}`
+  }
+  return new Request('http://localhost/api/voice/voices/clone', { method: 'POST', headers, body: formData })
+}
+
+describe('handleVoice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('POST /api/voice/voices/clone', () => {
+    it('requires authentication', async () => {
+      const env = createMockEnv()
+
+      const response = await handleVoice(createCloneRequest(env, { signedIn: false }), env, ['voices', 'clone'])
+
+      expect(response.status).toBe(401)
+    })
+
+    it('rejects requests without consent or enough recordings', async () => {
+      const env = createMockEnv()
+
+      const response = await handleVoice(createCloneRequest(env, { consent: 'false', samples: 2 }), env, ['voices', 'clone'])
+
+      expect(response.status).toBe(400)
+      const data = await response.json() as { validationErrors: Array<{ field: string }> }
+      expect(data.validationErrors.map(e => e.field)).toEqual(['consent', 'samples'])
+    })
+
+    it('clones the voice and records the owning parent', async () => {
+      const db = createMockDB()
+      const env = createMockEnv(db)
+
+      const response = await handleVoice(createCloneRequest(env), env, ['voices', 'clone'])
+
+      expect(response.status).toBe(201)
+      const data = await response.json() as { voice: { voiceId: string; name: string } }
+      expect(data.voice).toEqual({ voiceId: 'local-clone-1', name: 'Mom', category: 'cloned' })
+
+      const prepare = db.prepare as ReturnType<typeof vi.fn>
+      const insertIndex = prepare.mock.calls.findIndex(([sql]) => String(sql).includes('INSERT INTO cloned_voices'))
+      expect(insertIndex).toBeGreaterThanOrEqual(0)
+      const bind = prepare.mock.results[insertIndex].value.bind
+      expect(bind).toHaveBeenCalledWith(expect.any(String), 'user-1', 'local-clone-1', 'Mom')
+    })
+  })
+
+  describe('GET /api/voice/voices', () => {
+    it("hides voices cloned by other families", async () => {
+      const env = createMockEnv(createMockDB({
+        'SELECT voice_id FROM cloned_voices': [{ voice_id: 'local-narrator' }],
+      }))
+
+      const response = await handleVoice(new Request('http://localhost/api/voice/voices'), env, ['voices'])
+
+      expect(response.status).toBe(200)
+      const data = await response.json() as { voices: Array<{ voiceId: string }> }
+      expect(data.voices.length).toBeGreaterThan(0)
+      expect(data.voices.map(v => v.voiceId)).not.toContain('local-narrator')
+    })
+  })
+
+  describe('GET /api/voice/voices/:voiceId', () => {
+    it("hides another family's voice", async () => {
+      const env = createMockEnv(createMockDB({
+        'SELECT 1 FROM cloned_voices': [{ 1: 1 }],
+      }))
+
+      const response = await handleVoice(
+        new Request('http://localhost/api/voice/voices/local-clone-1'),
+        env,
+        ['voices', 'local-clone-1']
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('POST /api/voice/tts', () => {
+    it('returns a JSON 503 for an unknown speech provider', async () => {
+      const env = { ...createMockEnv(), SPEECH_PROVIDER: 'nonsense' }
+
+      const response = await handleVoice(createTtsRequest(env, { text: 'Hello', voiceId: 'local-narrator' }), env, ['tts'])
+
+      expect(response.status).toBe(503)
+      const data = await response.json() as { error: string; details: string }
+      expect(data.error).toEqual(expect.any(String))
+      expect(data.details).toContain('Unknown speech provider')
+    })
+
+    it('synthesizes speech with the local provider', async () => {
+      const env = createMockEnv()
+
+      const response = await handleVoice(createTtsRequest(env, { text: 'Hello', voiceId: 'local-narrator' }), env, ['tts'])
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Content-Type')).toMatch(/^audio\//)
+    })
+
+    it("refuses to speak in another family's cloned voice", async () => {
+      const env = createMockEnv(createOwnedVoiceDB('user-1'))
+      const speak = (userId?: string) =>
+        handleVoice(createTtsRequest(env, { text: 'Hello', voiceId: 'local-clone-1' }, userId), env, ['tts'])
+
+      expect((await speak('user-1')).status).toBe(200)
+      expect((await speak('user-2')).status).toBe(403)
+      expect((await speak()).status).toBe(403)
+    })
+
+    it("refuses to speak in another family's voice", async () => {
+      const env = createMockEnv(createMockDB({
+        'SELECT 1 FROM cloned_voices': [{ 1: 1 }],
+      }))
+      const request = new Request('http://localhost/api/voice/tts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ voiceId: 'local-clone-1', text: 'Hello' }),
+      })
+
+      const response = await handleVoice(request, env, ['tts'])
+
+      expect(response.status).toBe(403)
+    })
+
+    it('hands the cache write for streamed speech to waitUntil', async () => {
+      const kv = {
+        get: vi.fn().mockResolvedValue(null),
+        getWithMetadata: vi.fn().mockResolvedValue({ value: null, metadata: null }),
+        put: vi.fn().mockResolvedValue(undefined),
+        delete: vi.fn().mockResolvedValue(undefined),
+        list: vi.fn().mockResolvedValue({ keys: [], list_complete: true }),
+      }
+      const env = { ...createMockEnv(), TTS_CACHE: kv }
+      const waitUntil = vi.fn()
+      const request = new Request('http://localhost/api/voice/tts/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ voiceId: 'local-narrator', text: 'Hello' }),
+      })
+
+      const response = await handleVoice(request, env, ['tts', 'stream'], waitUntil)
+      expect(waitUntil).not.toHaveBeenCalled()
+
+      // The audio is stored once the stream has been read to the end
+      await response.arrayBuffer()
+      expect(waitUntil).toHaveBeenCalledTimes(1)
+      await waitUntil.mock.calls[0][0]
+      expect(kv.put).toHaveBeenCalledWith(expect.stringMatching(/^tts:/), expect.anything(), expect.anything())
+    })
+
+    it('speaks in voices no other family owns', async () => {
+      const request = new Request('http://localhost/api/voice/tts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ voiceId: 'local-narrator', text: 'Hello' }),
+      })
+
+      const response = await handleVoice(request, createMockEnv(), ['tts'])
+
+      expect(response.status).toBe(200)
+    })
+  })
+
+  describe('DELETE /api/voice/voices/:voiceId', () => {
+    it('requires authentication', async () => {
+      const request = new Request('http://localhost/api/voice/voices/local-clone-1', { method: 'DELETE' })
+
+      const response = await handleVoice(request, createMockEnv(), ['voices', 'local-clone-1'])
+
+      expect(response.status).toBe(401)
+    })
+
+    it("refuses to delete another family's voice", async () => {
+      // The clone belongs to another parent, so none matches this one
+      const env = createMockEnv(createOwnedVoiceDB('someone-else'))
+      const token = generateToken({ userId: 'user-1', email: 'parent@example.com' }, env)
+      const request = new Request('http://localhost/api/voice/voices/local-clone-1', {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      const response = await handleVoice(request, env, ['voices', 'local-clone-1'])
+
+      expect(response.status).toBe(404)
+    })
+
+    it('refuses to delete voices no parent cloned', async () => {
+      const env = createMockEnv()
+      const token = generateToken({ userId: 'user-1', email: 'parent@example.com' }, env)
+      const request = new Request('http://localhost/api/voice/voices/local-narrator', {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      const response = await handleVoice(request, env, ['voices', 'local-narrator'])
+
+      expect(response.status).toBe(404)
+    })
+  })
+})
@@ -2,13 +2,32 @@
  * Cloudflare Pages Functions environment types
  */
 
+import type { TtsKvNamespace } from '../server/services/ttsCache'
+
 export interface Env {
   DB: D1Database
   ELEVENLABS_API_KEY?: string
+  /** 'elevenlabs' (default) or 'local' for the offline stand-in */
+  SPEECH_PROVIDER?: string
+  /** KV namespace for synthesized speech; caching is off when unbound */
+  TTS_CACHE?: TtsKvNamespace
+  TTS_CACHE_MAX_MB?: string
   JWT_SECRET?: string
   ENVIRONMENT?: string
+  /** Comma-separated emails of accounts that can review flagged lessons */
+  ADMIN_EMAILS?: string
+  /** 'grok', 'claude' or 'offline'; defaults to the first provider with a key */
+  AI_PROVIDER?: string
+  AI_TIMEOUT_MS?: string
+  AI_MAX_RETRIES?: string
+  XAI_API_KEY?: string
+  GROK_API_KEY?: string
+  ANTHROPIC_API_KEY?: string
 }
 
+/** Keeps the Worker running until the promise settles, even after the response is sent */
+export type WaitUntil = (promise: Promise<unknown>) => void
+
 export interface D1Database {
   prepare(query: string): D1PreparedStatement
   dump(): Promise<ArrayBuffer>
@@ -0,0 +1,22 @@
+-- Spaced-repetition review schedule for word mastery
+-- One row per (child, word); every game feeds correct/incorrect events into it
+
+CREATE TABLE IF NOT EXISTS word_reviews (
+  id TEXT PRIMARY KEY,
+  child_id TEXT NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  word TEXT NOT NULL,
+  ease_factor REAL DEFAULT 2.5,
+  interval_days INTEGER DEFAULT 0,
+  repetitions INTEGER DEFAULT 0,
+  lapses INTEGER DEFAULT 0,
+  correct_count INTEGER DEFAULT 0,
+  incorrect_count INTEGER DEFAULT 0,
+  last_game TEXT,
+  last_reviewed_at TEXT,
+  due_at TEXT NOT NULL, -- ISO timestamp of the next review
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now')),
+  UNIQUE(child_id, word)
+);
+
+CREATE INDEX IF NOT EXISTS idx_word_reviews_due ON word_reviews(child_id, due_at);
@@ -0,0 +1,33 @@
+-- Game session telemetry for the standalone games
+-- A session is one play-through of a game; events are per-item answers within it
+
+CREATE TABLE IF NOT EXISTS game_sessions (
+  id TEXT PRIMARY KEY,
+  child_id TEXT NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  game TEXT NOT NULL CHECK(game IN ('spelling', 'memory', 'rhyme', 'builder', 'phonics', 'readaloud')),
+  started_at TEXT NOT NULL,
+  ended_at TEXT,
+  duration_seconds INTEGER DEFAULT 0,
+  score INTEGER,
+  max_streak INTEGER DEFAULT 0,
+  items_attempted INTEGER DEFAULT 0,
+  items_correct INTEGER DEFAULT 0,
+  completed INTEGER DEFAULT 0, -- 0 when the child left before finishing
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS game_events (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+  child_id TEXT NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  item TEXT NOT NULL, -- word, sound or puzzle the child answered
+  outcome TEXT NOT NULL CHECK(outcome IN ('correct', 'incorrect', 'skipped')),
+  attempts INTEGER DEFAULT 1,
+  latency_ms INTEGER, -- time from the item being shown to the answer
+  hints_used INTEGER DEFAULT 0,
+  occurred_at TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_sessions_child ON game_sessions(child_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_game_events_session ON game_events(session_id);
@@ -0,0 +1,15 @@
+-- Offline progress sync
+-- Clients replay queued writes with an Idempotency-Key header; the first
+-- response for each key is stored so a replay returns it without reapplying
+
+CREATE TABLE IF NOT EXISTS sync_mutations (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  status_code INTEGER NOT NULL,
+  response TEXT NOT NULL, -- JSON body returned for the original request
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, idempotency_key)
+);
+
+-- Client timestamp of the last applied write, for last-writer-wins merges
+ALTER TABLE progress ADD COLUMN client_updated_at TEXT;
@@ -0,0 +1,9 @@
+-- Family-authored lessons
+-- Lessons created in the lesson builder belong to the parent account that
+-- wrote them and are only visible to that family unless shared. Curated and
+-- seeded lessons have no owner and stay public.
+
+ALTER TABLE lessons ADD COLUMN owner_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE lessons ADD COLUMN visibility TEXT NOT NULL DEFAULT 'public' CHECK(visibility IN ('private', 'public'));
+
+CREATE INDEX IF NOT EXISTS idx_lessons_owner ON lessons(owner_id);
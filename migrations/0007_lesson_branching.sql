@@ -0,0 +1,6 @@
+-- Adaptive lesson branching
+-- Per-lesson rules the player uses to insert remedial activities after
+-- repeated misses and to skip practice after a fast streak. Stored as JSON
+-- matching the LessonBranching type.
+
+ALTER TABLE lessons ADD COLUMN branching TEXT;
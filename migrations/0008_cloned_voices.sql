@@ -0,0 +1,14 @@
+-- Parent-cloned voices
+-- Voices a parent records in Settings belong to that parent's account. Other
+-- families never see them in the voice list and cannot delete or select them.
+
+CREATE TABLE IF NOT EXISTS cloned_voices (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  voice_id TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  consented_at TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_cloned_voices_user ON cloned_voices(user_id);
@@ -0,0 +1,12 @@
+-- Lesson safety review
+-- Lesson text that trips the child-safety checks is stored unpublished with
+-- the reasons in safety_flags (JSON) and waits in the admin review queue.
+-- review_status is NULL for lessons that were never flagged.
+
+ALTER TABLE lessons ADD COLUMN safety_flags TEXT;
+ALTER TABLE lessons ADD COLUMN review_status TEXT CHECK(review_status IN ('pending', 'approved', 'rejected'));
+ALTER TABLE lessons ADD COLUMN review_note TEXT;
+ALTER TABLE lessons ADD COLUMN reviewed_by TEXT REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE lessons ADD COLUMN reviewed_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_lessons_review ON lessons(review_status);
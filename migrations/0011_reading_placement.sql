@@ -0,0 +1,8 @@
+-- Reading placement
+-- The level a child placed at in the reading challenge, with the per-level
+-- results it was based on (JSON). Lesson matching uses reading_level in
+-- place of the parent-entered grade level.
+
+ALTER TABLE children ADD COLUMN reading_level TEXT CHECK(reading_level IN ('pre_reader', 'emerging', 'early', 'developing'));
+ALTER TABLE children ADD COLUMN reading_assessment TEXT;
+ALTER TABLE children ADD COLUMN reading_assessed_at TEXT;
@@ -0,0 +1,6 @@
+-- Learning profiles
+-- Results of the parent-guided Superpower Discovery quiz (JSON): modality
+-- percentages behind children.learning_style, and the personality profile.
+
+ALTER TABLE children ADD COLUMN learning_style_profile TEXT;
+ALTER TABLE children ADD COLUMN personality_profile TEXT;
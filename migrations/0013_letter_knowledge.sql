@@ -0,0 +1,17 @@
+-- Letter knowledge from the letter hunt
+-- One row per (child, letter); uppercase and lowercase are separate letters.
+-- Counts letter-name and letter-sound answers so accuracy can be shown per letter.
+
+CREATE TABLE IF NOT EXISTS letter_knowledge (
+  id TEXT PRIMARY KEY,
+  child_id TEXT NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  letter TEXT NOT NULL,
+  name_correct INTEGER DEFAULT 0,
+  name_attempts INTEGER DEFAULT 0,
+  sound_correct INTEGER DEFAULT 0,
+  sound_attempts INTEGER DEFAULT 0,
+  last_assessed_at TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now')),
+  UNIQUE(child_id, letter)
+);
@@ -0,0 +1,37 @@
+-- Activity progress without foreign keys to lessons and lesson_activities
+-- Activity ids come from the activities JSON on each lesson, and lesson_activities
+-- is never filled, so the old foreign keys rejected every activity save. The
+-- same ids repeat across lessons, so a row is keyed by child, lesson and
+-- activity. The table is rebuilt to match the Express schema.
+
+CREATE TABLE activity_progress_new (
+  id TEXT PRIMARY KEY,
+  child_id TEXT NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+  lesson_id TEXT NOT NULL,
+  activity_id TEXT NOT NULL,
+  completed INTEGER DEFAULT 0,
+  score INTEGER,
+  attempts INTEGER DEFAULT 0,
+  time_spent_seconds INTEGER DEFAULT 0,
+  completed_at TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now')),
+  UNIQUE(child_id, lesson_id, activity_id)
+);
+
+INSERT INTO activity_progress_new (
+  id, child_id, lesson_id, activity_id, completed, score, attempts, time_spent_seconds,
+  completed_at, created_at, updated_at
+)
+SELECT
+  id, child_id, lesson_id, activity_id, completed, score, attempts, time_spent_seconds,
+  completed_at, created_at, updated_at
+FROM activity_progress;
+
+DROP TABLE activity_progress;
+ALTER TABLE activity_progress_new RENAME TO activity_progress;
+
+CREATE INDEX IF NOT EXISTS idx_activity_progress_child ON activity_progress(child_id);
+CREATE INDEX IF NOT EXISTS idx_activity_progress_lesson ON activity_progress(lesson_id);
+CREATE INDEX IF NOT EXISTS idx_activity_progress_activity ON activity_progress(activity_id);
+CREATE INDEX IF NOT EXISTS idx_activity_progress_child_lesson ON activity_progress(child_id, lesson_id);
@@ -0,0 +1,5 @@
+-- Accessibility settings
+-- How a child moves tiles in the drag-and-drop games (drag, tap or switch
+-- scanning) and whether placements are announced (JSON).
+
+ALTER TABLE children ADD COLUMN accessibility_settings TEXT;
@@ -0,0 +1,5 @@
+-- Display profiles
+-- How reading text is shown to a child (JSON): dyslexia-friendly font, letter
+-- and word spacing, line ruler, b/d/p/q colors and reduced motion.
+
+ALTER TABLE children ADD COLUMN display_profile TEXT;
@@ -0,0 +1,32 @@
+-- Lesson search
+-- Full-text index over lesson titles, subjects, descriptions and tags, kept in
+-- sync by triggers, so /api/lessons search ranks matches on D1 as on SQLite.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS lessons_fts USING fts5(
+  title,
+  subject,
+  description,
+  tags,
+  content='lessons',
+  content_rowid='rowid'
+);
+
+CREATE TRIGGER IF NOT EXISTS lessons_fts_insert AFTER INSERT ON lessons BEGIN
+  INSERT INTO lessons_fts(rowid, title, subject, description, tags)
+  VALUES (NEW.rowid, NEW.title, NEW.subject, NEW.description, NEW.tags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS lessons_fts_delete AFTER DELETE ON lessons BEGIN
+  INSERT INTO lessons_fts(lessons_fts, rowid, title, subject, description, tags)
+  VALUES ('delete', OLD.rowid, OLD.title, OLD.subject, OLD.description, OLD.tags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS lessons_fts_update AFTER UPDATE ON lessons BEGIN
+  INSERT INTO lessons_fts(lessons_fts, rowid, title, subject, description, tags)
+  VALUES ('delete', OLD.rowid, OLD.title, OLD.subject, OLD.description, OLD.tags);
+  INSERT INTO lessons_fts(rowid, title, subject, description, tags)
+  VALUES (NEW.rowid, NEW.title, NEW.subject, NEW.description, NEW.tags);
+END;
+
+-- Index the lessons that already exist
+INSERT INTO lessons_fts(lessons_fts) VALUES ('rebuild');
@@ -0,0 +1,97 @@
+/**
+ * /api/auth routes
+ */
+
+import { json, apiError, bodyFields, type ApiRoute } from './core.js'
+
+interface UserRow {
+  id: string
+  email: string
+  password_hash: string
+  name: string
+  created_at: string
+  updated_at: string
+}
+
+export const authRoutes: ApiRoute[] = [
+  {
+    method: 'POST',
+    path: 'register',
+    public: true,
+    async handler(req, ctx) {
+      const { email, password, name } = bodyFields(req)
+
+      if (typeof email !== 'string' || typeof password !== 'string' || typeof name !== 'string' ||
+          !email || !password || !name) {
+        return apiError('Email, password, and name are required', 400)
+      }
+
+      const existing = await ctx.db.first<{ id: string }>('SELECT id FROM users WHERE email = ?', email)
+      if (existing) {
+        return apiError('Email already registered', 409)
+      }
+
+      const id = crypto.randomUUID()
+      const passwordHash = await ctx.hashPassword(password)
+
+      await ctx.db.run(
+        'INSERT INTO users (id, email, password_hash, name) VALUES (?, ?, ?, ?)',
+        id, email, passwordHash, name
+      )
+
+      const token = ctx.signToken({ userId: id, email })
+
+      return json({
+        user: { id, email, name },
+        token,
+      }, 201)
+    },
+  },
+
+  {
+    method: 'POST',
+    path: 'login',
+    public: true,
+    async handler(req, ctx) {
+      const { email, password } = bodyFields(req)
+
+      if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+        return apiError('Email and password are required', 400)
+      }
+
+      const user = await ctx.db.first<UserRow>('SELECT * FROM users WHERE email = ?', email)
+      if (!user) {
+        return apiError('Invalid credentials', 401)
+      }
+
+      const validPassword = await ctx.checkPassword(password, user.password_hash)
+      if (!validPassword) {
+        return apiError('Invalid credentials', 401)
+      }
+
+      const token = ctx.signToken({ userId: user.id, email: user.email })
+
+      return json({
+        user: { id: user.id, email: user.email, name: user.name },
+        token,
+      })
+    },
+  },
+
+  {
+    method: 'GET',
+    path: 'me',
+    async handler(req, ctx) {
+      const user = await ctx.db.first<Omit<UserRow, 'password_hash' | 'updated_at'>>(
+        'SELECT id, email, name, created_at FROM users WHERE id = ?',
+        req.user!.userId
+      )
+
+      if (!user) {
+        return apiError('User not found', 404)
+      }
+
+      return json({ user })
+    },
+  },
+]
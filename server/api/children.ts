@@ -0,0 +1,306 @@
+/**
+ * /api/children routes
+ */
+
+import { json, apiError, bodyFields, type ApiContext, type ApiRoute } from './core.js'
+import { isReadingLevel, parseLevelResults } from '../../src/game-data/reading-assessment-types.js'
+import {
+  parseLearningStyleAnswers,
+  parsePersonalityAnswers,
+  scoreLearningStyle,
+  scorePersonality,
+} from '../../src/game-data/learning-profile.js'
+import { parseAccessibilitySettings, parseDisplayProfile } from '../../src/types/accessibility.js'
+
+interface ChildRow {
+  id: string
+  user_id: string
+  name: string
+  age: number | null
+  sex: string | null
+  avatar: string | null
+  grade_level: string | null
+  learning_style: string | null
+  interests: string | null
+  reading_level: string | null
+  reading_assessment: string | null
+  reading_assessed_at: string | null
+  learning_style_profile: string | null
+  personality_profile: string | null
+  accessibility_settings: string | null
+  display_profile: string | null
+  created_at: string
+  updated_at: string
+}
+
+function parseChild(row: ChildRow) {
+  return {
+    ...row,
+    interests: row.interests ? JSON.parse(row.interests) : [],
+    reading_assessment: row.reading_assessment ? JSON.parse(row.reading_assessment) : null,
+    learning_style_profile: row.learning_style_profile ? JSON.parse(row.learning_style_profile) : null,
+    personality_profile: row.personality_profile ? JSON.parse(row.personality_profile) : null,
+    accessibility_settings: row.accessibility_settings ? JSON.parse(row.accessibility_settings) : null,
+    display_profile: row.display_profile ? JSON.parse(row.display_profile) : null,
+  }
+}
+
+async function findOwnChild(ctx: ApiContext, childId: string, userId: string) {
+  return await ctx.db.first<{ id: string }>(
+    'SELECT id FROM children WHERE id = ? AND user_id = ?',
+    childId,
+    userId
+  )
+}
+
+async function childResponse(ctx: ApiContext, childId: string, status = 200) {
+  const child = await ctx.db.first<ChildRow>('SELECT * FROM children WHERE id = ?', childId)
+  return json({ child: parseChild(child!) }, status)
+}
+
+// Profile fields a parent can set, by request field
+const PROFILE_COLUMNS = {
+  name: 'name',
+  age: 'age',
+  sex: 'sex',
+  avatar: 'avatar',
+  gradeLevel: 'grade_level',
+  learningStyle: 'learning_style',
+} as const
+
+export const childrenRoutes: ApiRoute[] = [
+  {
+    method: 'GET',
+    path: '',
+    async handler(req, ctx) {
+      const children = await ctx.db.all<ChildRow>('SELECT * FROM children WHERE user_id = ?', req.user!.userId)
+      return json({ children: children.map(parseChild) })
+    },
+  },
+
+  {
+    method: 'POST',
+    path: '',
+    async handler(req, ctx) {
+      const { name, age, sex, avatar, gradeLevel, learningStyle, interests } = bodyFields(req)
+
+      if (!name) {
+        return apiError('Name is required', 400)
+      }
+
+      const id = crypto.randomUUID()
+      const interestsJson = interests ? JSON.stringify(interests) : null
+
+      await ctx.db.run(`
+        INSERT INTO children (id, user_id, name, age, sex, avatar, grade_level, learning_style, interests)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+        id,
+        req.user!.userId,
+        name,
+        age || null,
+        sex || null,
+        avatar || null,
+        gradeLevel || null,
+        learningStyle || null,
+        interestsJson
+      )
+
+      return await childResponse(ctx, id, 201)
+    },
+  },
+
+  {
+    method: 'GET',
+    path: ':id',
+    async handler(req, ctx) {
+      const child = await ctx.db.first<ChildRow>(
+        'SELECT * FROM children WHERE id = ? AND user_id = ?',
+        req.params.id,
+        req.user!.userId
+      )
+
+      if (!child) {
+        return apiError('Child not found', 404)
+      }
+
+      return json({ child: parseChild(child) })
+    },
+  },
+
+  {
+    method: 'PUT',
+    path: ':id',
+    async handler(req, ctx) {
+      const existing = await findOwnChild(ctx, req.params.id, req.user!.userId)
+      if (!existing) {
+        return apiError('Child not found', 404)
+      }
+
+      const body = bodyFields(req)
+      const updates: string[] = []
+      const values: unknown[] = []
+
+      for (const [field, column] of Object.entries(PROFILE_COLUMNS)) {
+        if (body[field] !== undefined) {
+          updates.push(`${column} = ?`)
+          values.push(body[field])
+        }
+      }
+      if (body.interests !== undefined) {
+        updates.push('interests = ?')
+        values.push(JSON.stringify(body.interests))
+      }
+
+      if (updates.length > 0) {
+        updates.push("updated_at = datetime('now')")
+        await ctx.db.run(`UPDATE children SET ${updates.join(', ')} WHERE id = ?`, ...values, existing.id)
+      }
+
+      return await childResponse(ctx, existing.id)
+    },
+  },
+
+  /**
+   * Save the level a child placed at in the reading challenge
+   */
+  {
+    method: 'PUT',
+    path: ':id/reading-level',
+    async handler(req, ctx) {
+      const existing = await findOwnChild(ctx, req.params.id, req.user!.userId)
+      if (!existing) {
+        return apiError('Child not found', 404)
+      }
+
+      const { level, results } = bodyFields(req)
+      if (!isReadingLevel(level)) {
+        return apiError('Invalid reading level', 400)
+      }
+
+      const levelResults = results === undefined ? [] : parseLevelResults(results)
+      if (!levelResults) {
+        return apiError('Invalid assessment results', 400)
+      }
+
+      await ctx.db.run(`
+        UPDATE children
+        SET reading_level = ?, reading_assessment = ?, reading_assessed_at = datetime('now'), updated_at = datetime('now')
+        WHERE id = ?
+      `, level, JSON.stringify(levelResults), existing.id)
+
+      return await childResponse(ctx, existing.id)
+    },
+  },
+
+  /**
+   * Score a parent's Superpower Discovery answers and save the child's
+   * learning style and personality profile
+   */
+  {
+    method: 'PUT',
+    path: ':id/learning-profile',
+    async handler(req, ctx) {
+      const existing = await findOwnChild(ctx, req.params.id, req.user!.userId)
+      if (!existing) {
+        return apiError('Child not found', 404)
+      }
+
+      const body = bodyFields(req)
+      const learningStyleAnswers = parseLearningStyleAnswers(body.learningStyleAnswers)
+      if (!learningStyleAnswers) {
+        return apiError('Every learning style question needs a valid answer', 400)
+      }
+
+      const personalityAnswers = parsePersonalityAnswers(body.personalityAnswers)
+      if (!personalityAnswers) {
+        return apiError('Invalid personality answers', 400)
+      }
+
+      const learningStyle = scoreLearningStyle(learningStyleAnswers)
+      const personality = scorePersonality(personalityAnswers)
+
+      await ctx.db.run(`
+        UPDATE children
+        SET learning_style = ?, learning_style_profile = ?, personality_profile = ?, updated_at = datetime('now')
+        WHERE id = ?
+      `, learningStyle.primaryStyle, JSON.stringify(learningStyle), JSON.stringify(personality), existing.id)
+
+      return await childResponse(ctx, existing.id)
+    },
+  },
+
+  /**
+   * Save how a child moves tiles in the drag-and-drop games, and whether
+   * placements are announced
+   */
+  {
+    method: 'PUT',
+    path: ':id/accessibility',
+    async handler(req, ctx) {
+      const existing = await findOwnChild(ctx, req.params.id, req.user!.userId)
+      if (!existing) {
+        return apiError('Child not found', 404)
+      }
+
+      const settings = parseAccessibilitySettings(bodyFields(req))
+      if (!settings) {
+        return apiError('Invalid accessibility settings', 400)
+      }
+
+      await ctx.db.run(`
+        UPDATE children
+        SET accessibility_settings = ?, updated_at = datetime('now')
+        WHERE id = ?
+      `, JSON.stringify(settings), existing.id)
+
+      return await childResponse(ctx, existing.id)
+    },
+  },
+
+  /**
+   * Save how reading text is shown to a child: font, spacing, line ruler,
+   * letter colors and reduced motion
+   */
+  {
+    method: 'PUT',
+    path: ':id/display-profile',
+    async handler(req, ctx) {
+      const existing = await findOwnChild(ctx, req.params.id, req.user!.userId)
+      if (!existing) {
+        return apiError('Child not found', 404)
+      }
+
+      const profile = parseDisplayProfile(bodyFields(req))
+      if (!profile) {
+        return apiError('Invalid display profile', 400)
+      }
+
+      await ctx.db.run(`
+        UPDATE children
+        SET display_profile = ?, updated_at = datetime('now')
+        WHERE id = ?
+      `, JSON.stringify(profile), existing.id)
+
+      return await childResponse(ctx, existing.id)
+    },
+  },
+
+  {
+    method: 'DELETE',
+    path: ':id',
+    async handler(req, ctx) {
+      const result = await ctx.db.run(
+        'DELETE FROM children WHERE id = ? AND user_id = ?',
+        req.params.id,
+        req.user!.userId
+      )
+
+      if (result.changes === 0) {
+        return apiError('Child not found', 404)
+      }
+
+      return { status: 204 }
+    },
+  },
+]
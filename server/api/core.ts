@@ -0,0 +1,240 @@
+/**
+ * Transport-agnostic API core shared by the Express server and the Cloudflare
+ * Pages Functions.
+ *
+ * Routes are plain objects whose handlers take an ApiRequest and return an
+ * ApiResponse. They reach the database only through ApiDatabase, so each
+ * backend has to supply a database adapter and convert its own request and
+ * response types (see server/api/express.ts and
+ * functions/api/_handlers/utils/core.ts).
+ */
+
+import { IDEMPOTENCY_KEY_HEADER, parseIdempotencyKey } from '../services/progressSync.js'
+import type { AIEnv } from '../services/aiProvider.js'
+import type { VoiceService } from '../services/voice.js'
+
+export interface SqlStatement {
+  sql: string
+  params: unknown[]
+}
+
+/**
+ * Async database access with the same results on better-sqlite3 and D1
+ */
+export interface ApiDatabase {
+  /** The first row, or null when there is none */
+  first<T>(sql: string, ...params: unknown[]): Promise<T | null>
+  all<T>(sql: string, ...params: unknown[]): Promise<T[]>
+  run(sql: string, ...params: unknown[]): Promise<{ changes: number }>
+  /** Run the statements in a single transaction */
+  batch(statements: SqlStatement[]): Promise<void>
+}
+
+export function statement(sql: string, ...params: unknown[]): SqlStatement {
+  return { sql, params }
+}
+
+export interface TokenPayload {
+  userId: string
+  email: string
+}
+
+/**
+ * Settings the handlers read from the backend's environment
+ */
+export interface ApiEnv extends AIEnv {
+  /** Admin emails, separated by commas */
+  ADMIN_EMAILS?: string
+}
+
+/**
+ * What a backend provides to the handlers besides the request
+ */
+export interface ApiContext {
+  db: ApiDatabase
+  env: ApiEnv
+  signToken(payload: TokenPayload): string
+  /** Throws when the token is invalid or expired */
+  verifyToken(token: string): TokenPayload
+  hashPassword(password: string): Promise<string>
+  checkPassword(password: string, hash: string): Promise<boolean>
+  /** Throws when the configured speech provider is unknown */
+  voice(): VoiceService
+}
+
+export interface ApiRequest {
+  method: string
+  /** Path segments below the mount point, e.g. ['child', 'abc', 'summary'] */
+  path: string[]
+  query: URLSearchParams
+  header(name: string): string | undefined
+  /**
+   * Parsed JSON body, or the text fields of a multipart form; an empty
+   * object when the request had none
+   */
+  body: unknown
+  /** Files uploaded with a multipart form, by field name */
+  files: Record<string, File[]>
+}
+
+export interface RouteRequest extends ApiRequest {
+  params: Record<string, string>
+  /** Set on every route that is not public; optional on optionalAuth routes */
+  user: TokenPayload | null
+}
+
+/**
+ * A response with no body is sent empty, e.g. 204 after a delete. A
+ * Uint8Array or ReadableStream body is sent as is, with its Content-Type in
+ * headers; any other body is sent as JSON.
+ */
+export interface ApiResponse {
+  status: number
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+export type RouteHandler = (req: RouteRequest, ctx: ApiContext) => Promise<ApiResponse>
+
+export interface ApiRoute {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE'
+  /** Relative to the mount point; segments starting with ':' are params */
+  path: string
+  handler: RouteHandler
+  /** Skip authentication */
+  public?: boolean
+  /** Let signed-out requests through; a valid token still sets the user */
+  optionalAuth?: boolean
+  /** Only for admins, listed in ADMIN_EMAILS */
+  admin?: boolean
+  /** Replay the stored response for a repeated Idempotency-Key */
+  idempotent?: boolean
+}
+
+export function json(body: unknown, status = 200): ApiResponse {
+  return { status, body }
+}
+
+export function apiError(error: string, status: number): ApiResponse {
+  return { status, body: { error } }
+}
+
+/** The request body as an object, so handlers can read fields from it */
+export function bodyFields(req: ApiRequest): Record<string, unknown> {
+  return req.body !== null && typeof req.body === 'object' ? req.body as Record<string, unknown> : {}
+}
+
+function matchPath(pattern: string, path: string[]): Record<string, string> | null {
+  const segments = pattern.split('/').filter(Boolean)
+  if (segments.length !== path.length) return null
+
+  const params: Record<string, string> = {}
+  for (const [i, segment] of segments.entries()) {
+    if (segment.startsWith(':')) {
+      params[segment.slice(1)] = path[i]
+    } else if (segment !== path[i]) {
+      return null
+    }
+  }
+  return params
+}
+
+function authenticate(req: ApiRequest, ctx: ApiContext): { user: TokenPayload } | { error: ApiResponse } {
+  const authHeader = req.header('Authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return { error: apiError('Authorization required', 401) }
+  }
+
+  try {
+    return { user: ctx.verifyToken(authHeader.slice(7)) }
+  } catch {
+    return { error: apiError('Invalid or expired token', 401) }
+  }
+}
+
+function isAdmin(user: TokenPayload | null, env: ApiEnv): boolean {
+  if (!user) return false
+  const admins = (env.ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase())
+  return admins.includes(user.email.toLowerCase())
+}
+
+/**
+ * Run a write at most once per Idempotency-Key for a user. The first
+ * successful response is stored and returned again for any replay.
+ */
+async function withIdempotency(
+  req: ApiRequest,
+  ctx: ApiContext,
+  userId: string,
+  run: () => Promise<ApiResponse>
+): Promise<ApiResponse> {
+  const parsed = parseIdempotencyKey(req.header(IDEMPOTENCY_KEY_HEADER))
+  if ('error' in parsed) {
+    return apiError(parsed.error, 400)
+  }
+  if (!parsed.key) {
+    return await run()
+  }
+
+  const stored = await ctx.db.first<{ status_code: number; response: string }>(
+    'SELECT status_code, response FROM sync_mutations WHERE user_id = ? AND idempotency_key = ?',
+    userId,
+    parsed.key
+  )
+  if (stored) {
+    return json(JSON.parse(stored.response), stored.status_code)
+  }
+
+  const response = await run()
+  if (response.status >= 200 && response.status < 300) {
+    await ctx.db.run(`
+      INSERT OR IGNORE INTO sync_mutations (user_id, idempotency_key, status_code, response)
+      VALUES (?, ?, ?, ?)
+    `, userId, parsed.key, response.status, JSON.stringify(response.body ?? null))
+  }
+  return response
+}
+
+/**
+ * Find the route for a request and run it. Unknown paths are 404 and known
+ * paths with another method are 405, on every backend.
+ */
+export async function handleApiRequest(
+  routes: ApiRoute[],
+  req: ApiRequest,
+  ctx: ApiContext
+): Promise<ApiResponse> {
+  let pathMatched = false
+
+  for (const route of routes) {
+    const params = matchPath(route.path, req.path)
+    if (!params) continue
+    pathMatched = true
+    if (route.method !== req.method) continue
+
+    let user: TokenPayload | null = null
+    if (!route.public) {
+      const authResult = authenticate(req, ctx)
+      if ('user' in authResult) {
+        user = authResult.user
+      } else if (!route.optionalAuth) {
+        return authResult.error
+      }
+    }
+    if (route.admin && !isAdmin(user, ctx.env)) {
+      return apiError('Admin access required', 403)
+    }
+
+    const run = () => route.handler({ ...req, params, user }, ctx)
+    try {
+      return route.idempotent && user
+        ? await withIdempotency(req, ctx, user.userId, run)
+        : await run()
+    } catch (error) {
+      console.error('API error:', error)
+      return apiError('Internal server error', 500)
+    }
+  }
+
+  return pathMatched ? apiError('Method not allowed', 405) : apiError('Not found', 404)
+}
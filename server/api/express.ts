@@ -0,0 +1,88 @@
+import { Router, type Response } from 'express'
+import bcrypt from 'bcrypt'
+import multer from 'multer'
+// Node's own File, which jsdom in the tests does not replace
+import { File } from 'node:buffer'
+import { db } from '../db/index.js'
+import { generateToken, verifyToken } from '../middleware/auth.js'
+import { getVoiceService } from '../services/voiceInstance.js'
+import { createSqliteDatabase } from './sqliteDatabase.js'
+import { handleApiRequest, type ApiContext, type ApiEnv, type ApiResponse, type ApiRoute } from './core.js'
+
+// Uploads are kept in memory, e.g. audio for speech recognition
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+})
+
+const context: ApiContext = {
+  db: createSqliteDatabase(db),
+  // Read on each request, so settings changed at runtime apply
+  get env() {
+    return process.env as ApiEnv
+  },
+  signToken: generateToken,
+  verifyToken,
+  hashPassword: password => bcrypt.hash(password, 10),
+  checkPassword: (password, hash) => bcrypt.compare(password, hash),
+  voice: getVoiceService,
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+function uploadedFiles(files: Express.Multer.File[] | undefined): Record<string, File[]> {
+  const byField: Record<string, File[]> = {}
+  for (const file of files ?? []) {
+    byField[file.fieldname] ??= []
+    byField[file.fieldname].push(new File([file.buffer], file.originalname, { type: file.mimetype }))
+  }
+  return byField
+}
+
+async function sendResponse(res: Response, response: ApiResponse) {
+  res.status(response.status).set(response.headers ?? {})
+
+  if (response.body === undefined) {
+    res.send()
+  } else if (response.body instanceof Uint8Array) {
+    res.send(Buffer.from(response.body))
+  } else if (response.body instanceof ReadableStream) {
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader()
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      res.write(Buffer.from(chunk.value))
+    }
+    res.end()
+  } else {
+    res.json(response.body)
+  }
+}
+
+/**
+ * An Express router that serves core routes relative to where it is mounted
+ */
+export function createCoreRouter(routes: ApiRoute[]): Router {
+  const router = Router()
+
+  router.use(upload.any(), async (req, res) => {
+    const response = await handleApiRequest(routes, {
+      method: req.method,
+      path: req.path.split('/').filter(Boolean).map(decodeSegment),
+      query: new URL(req.originalUrl, 'http://localhost').searchParams,
+      header: name => req.get(name),
+      body: req.body ?? {},
+      files: uploadedFiles(req.files as Express.Multer.File[] | undefined),
+    }, context)
+
+    await sendResponse(res, response)
+  })
+
+  return router
+}
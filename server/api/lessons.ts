@@ -0,0 +1,880 @@
+/**
+ * /api/lessons routes. Browsing works signed out; signed-in families also
+ * see and change their own private lessons.
+ */
+
+import {
+  json,
+  apiError,
+  bodyFields,
+  type ApiContext,
+  type ApiResponse,
+  type ApiRoute,
+  type RouteHandler,
+  type RouteRequest,
+} from './core.js'
+import { generateLesson, getSupportedSubjects, type ChildProfile } from '../services/ai.js'
+import {
+  createAIProvider,
+  aiProviderConfigFromEnv,
+  summarizeAIUsage,
+  AI_USAGE_SUMMARY_SQL,
+  type AIUsageRow,
+} from '../services/aiProvider.js'
+import { matchLessonsForChild, getQuickRecommendations } from '../services/lessonMatcher.js'
+import { validateLessonActivities, validateLessonBranching } from '../services/lessonValidation.js'
+import {
+  validateLessonPrerequisites,
+  getLessonAvailability,
+  parsePrerequisites,
+  type PrerequisiteNode,
+} from '../services/lessonPrerequisites.js'
+import {
+  checkLessonSafety,
+  reviewLessonEdit,
+  reviewLessonSafety,
+  REVIEW_STATUSES,
+  type LessonReviewStatus,
+} from '../services/contentSafety.js'
+import {
+  parseLesson,
+  type LessonRow,
+  type CreateLessonInput,
+  type LessonDifficulty,
+  type LessonSource,
+  type LearningStyle,
+  type LessonVisibility,
+} from '../types/lesson.js'
+
+// Shared lessons plus the signed-in family's private ones; bind the viewer's user id
+const VISIBLE_LESSON = "(l.visibility = 'public' OR l.owner_id = ?)"
+
+const VISIBILITIES: LessonVisibility[] = ['private', 'public']
+
+// Ratings and completions, for queries over lessons l grouped by l.id
+const LESSON_METRICS = `
+  COALESCE(AVG(r.rating), 0) as avg_rating,
+  COUNT(DISTINCT r.id) as rating_count,
+  COALESCE(SUM(e.completion_count), 0) as total_completions
+`
+const METRICS_JOINS = `
+  LEFT JOIN lesson_ratings r ON l.id = r.lesson_id
+  LEFT JOIN lesson_engagement e ON l.id = e.lesson_id
+`
+
+type LessonWithMetricsRow = LessonRow & {
+  avg_rating: number
+  rating_count: number
+  total_completions: number
+}
+
+interface ChildRow {
+  id: string
+  name: string
+  age: number | null
+  grade_level: string | null
+  learning_style: string | null
+  interests: string | null
+}
+
+function viewerId(req: RouteRequest): string | null {
+  return req.user?.userId ?? null
+}
+
+function withMetrics(row: LessonWithMetricsRow) {
+  return {
+    ...parseLesson(row),
+    avg_rating: row.avg_rating || null,
+    rating_count: row.rating_count,
+    total_completions: row.total_completions,
+  }
+}
+
+/**
+ * Turn what a parent typed into an FTS5 prefix query, or '' when nothing
+ * searchable is left
+ */
+function ftsQuery(text: string): string {
+  return text
+    .replace(/[^\w\s]/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(term => term.length > 0)
+    .map(term => `${term}*`)
+    .join(' ')
+}
+
+async function lessonResponse(ctx: ApiContext, lessonId: string, status = 200): Promise<ApiResponse> {
+  const lesson = await ctx.db.first<LessonRow>('SELECT * FROM lessons WHERE id = ?', lessonId)
+  return json({ lesson: parseLesson(lesson!) }, status)
+}
+
+/**
+ * Look up a lesson the request is allowed to change: 404 for lessons the
+ * user cannot see and 403 for shared lessons owned by someone else
+ */
+async function findEditableLesson(
+  req: RouteRequest,
+  ctx: ApiContext
+): Promise<{ lesson: LessonRow } | { error: ApiResponse }> {
+  const lesson = await ctx.db.first<LessonRow>(
+    `SELECT * FROM lessons l WHERE id = ? AND ${VISIBLE_LESSON}`,
+    req.params.id,
+    viewerId(req)
+  )
+
+  if (!lesson) {
+    return { error: apiError('Lesson not found', 404) }
+  }
+  if (lesson.owner_id && lesson.owner_id !== viewerId(req)) {
+    return { error: apiError('Only the family that created this lesson can change it', 403) }
+  }
+  return { lesson }
+}
+
+/**
+ * Prerequisite graph of every lesson the viewer can see
+ */
+async function loadPrerequisiteGraph(
+  req: RouteRequest,
+  ctx: ApiContext,
+  publishedOnly = false
+): Promise<PrerequisiteNode[]> {
+  const rows = await ctx.db.all<{ id: string; prerequisites: string | null }>(`
+    SELECT id, prerequisites FROM lessons l
+    WHERE ${VISIBLE_LESSON}${publishedOnly ? ' AND is_published = 1' : ''}
+  `, viewerId(req))
+
+  return rows.map(row => ({ id: row.id, prerequisites: parsePrerequisites(row.prerequisites) }))
+}
+
+/**
+ * Check activities, branching rules and prerequisites from a create or
+ * update. `storedActivities` are used for branching rules sent on their own.
+ */
+async function validateLessonInput(
+  req: RouteRequest,
+  ctx: ApiContext,
+  lessonId: string,
+  input: Partial<CreateLessonInput>,
+  storedActivities: unknown = []
+): Promise<ApiResponse | null> {
+  if (input.visibility !== undefined && !VISIBILITIES.includes(input.visibility)) {
+    return apiError('Visibility must be private or public', 400)
+  }
+
+  if (input.activities !== undefined) {
+    const validationErrors = validateLessonActivities(input.activities)
+    if (validationErrors.length > 0) {
+      return json({ error: 'Invalid lesson activities', validationErrors }, 400)
+    }
+  }
+
+  if (input.branching) {
+    const validationErrors = validateLessonBranching(input.branching, input.activities ?? storedActivities)
+    if (validationErrors.length > 0) {
+      return json({ error: 'Invalid lesson branching', validationErrors }, 400)
+    }
+  }
+
+  if (input.prerequisites !== undefined) {
+    const validationErrors = validateLessonPrerequisites(lessonId, input.prerequisites, await loadPrerequisiteGraph(req, ctx))
+    if (validationErrors.length > 0) {
+      return json({ error: 'Invalid lesson prerequisites', validationErrors }, 400)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Re-check a lesson after an edit, given the row from before it. Flagged
+ * lessons are unpublished and go back to the review queue; held lessons
+ * edited clean are published again unless the edit itself unpublished them.
+ */
+async function recheckLessonSafety(ctx: ApiContext, before: LessonRow, isPublished: boolean | undefined): Promise<void> {
+  const row = await ctx.db.first<LessonRow>('SELECT * FROM lessons WHERE id = ?', before.id)
+  const review = reviewLessonEdit(before, row!)
+  const published = review.held ? 0 : review.released && isPublished === undefined ? 1 : row!.is_published
+
+  await ctx.db.run(
+    'UPDATE lessons SET safety_flags = ?, review_status = ?, is_published = ? WHERE id = ?',
+    review.flags.length > 0 ? JSON.stringify(review.flags) : null,
+    review.status,
+    published,
+    before.id
+  )
+}
+
+function reviewLesson(decision: 'approved' | 'rejected'): RouteHandler {
+  return async (req, ctx) => {
+    const lesson = await ctx.db.first<{ id: string }>(
+      'SELECT id FROM lessons WHERE id = ? AND review_status IS NOT NULL',
+      req.params.id
+    )
+    if (!lesson) {
+      return apiError('No flagged lesson with that id', 404)
+    }
+
+    await ctx.db.run(`
+      UPDATE lessons
+      SET review_status = ?, is_published = ?, review_note = ?, reviewed_by = ?, reviewed_at = datetime('now')
+      WHERE id = ?
+    `, decision, decision === 'approved' ? 1 : 0, bodyFields(req).note || null, req.user!.userId, lesson.id)
+
+    return await lessonResponse(ctx, lesson.id)
+  }
+}
+
+// Request fields an update can change, by column; JSON columns are stringified
+const UPDATE_COLUMNS: [keyof CreateLessonInput, string, 'json'?][] = [
+  ['title', 'title'],
+  ['subject', 'subject'],
+  ['description', 'description'],
+  ['gradeLevel', 'grade_level'],
+  ['difficulty', 'difficulty'],
+  ['durationMinutes', 'duration_minutes'],
+  ['ageMin', 'age_min'],
+  ['ageMax', 'age_max'],
+  ['learningStyles', 'learning_styles', 'json'],
+  ['interests', 'interests', 'json'],
+  ['objectives', 'objectives', 'json'],
+  ['activities', 'activities', 'json'],
+  ['materials', 'materials', 'json'],
+  ['assessmentCriteria', 'assessment_criteria', 'json'],
+  ['source', 'source'],
+  ['tags', 'tags', 'json'],
+  ['visibility', 'visibility'],
+]
+
+export const lessonsRoutes: ApiRoute[] = [
+  {
+    method: 'GET',
+    path: '',
+    optionalAuth: true,
+    async handler(req, ctx) {
+      const childId = req.query.get('childId')
+      const limit = parseInt(req.query.get('limit') ?? '20', 10)
+      const offset = parseInt(req.query.get('offset') ?? '0', 10)
+
+      // With a child, each lesson also says whether it is locked on their learning path
+      let availability: ReturnType<typeof getLessonAvailability> | null = null
+      if (childId) {
+        const child = await ctx.db.first('SELECT id FROM children WHERE id = ? AND user_id = ?', childId, viewerId(req))
+        if (!child) {
+          return apiError('Child not found', 404)
+        }
+        const completed = await ctx.db.all<{ lesson_id: string }>(
+          "SELECT lesson_id FROM progress WHERE child_id = ? AND status = 'completed'",
+          childId
+        )
+        availability = getLessonAvailability(await loadPrerequisiteGraph(req, ctx, true), completed.map(p => p.lesson_id))
+      }
+
+      let where = `WHERE l.is_published = 1 AND ${VISIBLE_LESSON}`
+      const params: unknown[] = [viewerId(req)]
+
+      for (const [name, column] of [
+        ['subject', 'subject'],
+        ['gradeLevel', 'grade_level'],
+        ['difficulty', 'difficulty'],
+        ['source', 'source'],
+      ]) {
+        const value = req.query.get(name)
+        if (value) {
+          where += ` AND l.${column} = ?`
+          params.push(value)
+        }
+      }
+
+      const ageMin = req.query.get('ageMin')
+      if (ageMin) {
+        where += ' AND (l.age_max IS NULL OR l.age_max >= ?)'
+        params.push(parseInt(ageMin, 10))
+      }
+      const ageMax = req.query.get('ageMax')
+      if (ageMax) {
+        where += ' AND (l.age_min IS NULL OR l.age_min <= ?)'
+        params.push(parseInt(ageMax, 10))
+      }
+
+      // Lessons matching any of the listed values of a JSON array column
+      for (const [name, column] of [
+        ['learningStyles', 'learning_styles'],
+        ['interests', 'interests'],
+        ['tags', 'tags'],
+      ]) {
+        const values = req.query.getAll(name)
+        if (values.length > 0) {
+          where += ` AND (${values.map(() => `l.${column} LIKE ?`).join(' OR ')})`
+          values.forEach(value => params.push(`%"${value}"%`))
+        }
+      }
+
+      const searchQuery = ftsQuery(req.query.get('query') ?? '')
+      if (searchQuery) {
+        where += ' AND l.rowid IN (SELECT rowid FROM lessons_fts WHERE lessons_fts MATCH ?)'
+        params.push(searchQuery)
+      }
+
+      const lessons = await ctx.db.all<LessonWithMetricsRow>(`
+        SELECT l.*, ${LESSON_METRICS}
+        FROM lessons l
+        ${METRICS_JOINS}
+        ${where}
+        GROUP BY l.id ORDER BY l.created_at DESC LIMIT ? OFFSET ?
+      `, ...params, limit, offset)
+
+      const count = await ctx.db.first<{ count: number }>(
+        `SELECT COUNT(*) as count FROM lessons l ${where}`,
+        ...params
+      )
+
+      return json({
+        lessons: lessons.map(l => ({
+          ...withMetrics(l),
+          ...(availability && { availability: availability[l.id] }),
+        })),
+        total: count!.count,
+        limit,
+        offset,
+      })
+    },
+  },
+
+  {
+    method: 'GET',
+    path: 'subjects',
+    optionalAuth: true,
+    async handler(req, ctx) {
+      const subjects = await ctx.db.all<{ subject: string }>(
+        `SELECT DISTINCT subject FROM lessons l WHERE is_published = 1 AND ${VISIBLE_LESSON} ORDER BY subject`,
+        viewerId(req)
+      )
+      return json({ subjects: subjects.map(s => s.subject) })
+    },
+  },
+
+  {
+    method: 'GET',
+    path: 'supported-subjects',
+    public: true,
+    async handler() {
+      return json({ subjects: getSupportedSubjects() })
+    },
+  },
+
+  {
+    method: 'GET',
+    path: 'search',
+    optionalAuth: true,
+    async handler(req, ctx) {
+      const q = req.query.get('q')
+      const limit = parseInt(req.query.get('limit') ?? '20', 10)
+      const offset = parseInt(req.query.get('offset') ?? '0', 10)
+
+      if (!q || q.trim().length === 0) {
+        return apiError('Search query is required', 400)
+      }
+
+      const searchQuery = ftsQuery(q)
+      if (!searchQuery) {
+        return json({ lessons: [], total: 0 })
+      }
+
+      // Best matches first, by FTS5 relevance. bm25() only works in the
+      // full-text query itself, so the ranks are computed before the joins.
+      const lessons = await ctx.db.all<LessonWithMetricsRow>(`
+        WITH matches AS MATERIALIZED (
+          SELECT rowid, bm25(lessons_fts) as rank FROM lessons_fts WHERE lessons_fts MATCH ?
+        )
+        SELECT l.*, ${LESSON_METRICS}
+        FROM matches
+        INNER JOIN lessons l ON l.rowid = matches.rowid
+        ${METRICS_JOINS}
+        WHERE l.is_published = 1 AND ${VISIBLE_LESSON}
+        GROUP BY l.id
+        ORDER BY matches.rank
+        LIMIT ? OFFSET ?
+      `, searchQuery, viewerId(req), limit, offset)
+
+      const count = await ctx.db.first<{ count: number }>(`
+        SELECT COUNT(*) as count
+        FROM lessons_fts
+        INNER JOIN lessons l ON l.rowid = lessons_fts.rowid
+        WHERE lessons_fts MATCH ? AND l.is_published = 1 AND ${VISIBLE_LESSON}
+      `, searchQuery, viewerId(req))
+
+      return json({ lessons: lessons.map(withMetrics), total: count!.count, limit, offset })
+    },
+  },
+
+  {
+    method: 'GET',
+    path: 'filters',
+    optionalAuth: true,
+    async handler(req, ctx) {
+      const subjects = await ctx.db.all<{ subject: string }>(
+        `SELECT DISTINCT subject FROM lessons l WHERE is_published = 1 AND ${VISIBLE_LESSON} ORDER BY subject`,
+        viewerId(req)
+      )
+      const gradeLevels = await ctx.db.all<{ grade_level: string }>(`
+        SELECT DISTINCT grade_level FROM lessons l
+        WHERE is_published = 1 AND ${VISIBLE_LESSON} AND grade_level IS NOT NULL
+        ORDER BY grade_level
+      `, viewerId(req))
+      const ageRange = await ctx.db.first<{ min_age: number | null; max_age: number | null }>(`
+        SELECT MIN(age_min) as min_age, MAX(age_max) as max_age
+        FROM lessons l WHERE is_published = 1 AND ${VISIBLE_LESSON}
+      `, viewerId(req))
+
+      const difficulties: LessonDifficulty[] = ['beginner', 'easy', 'medium', 'hard', 'advanced']
+      const sources: LessonSource[] = ['ai_generated', 'curated']
+      const learningStyles: LearningStyle[] = ['visual', 'auditory', 'kinesthetic']
+
+      return json({
+        subjects: subjects.map(s => s.subject),
+        gradeLevels: gradeLevels.map(g => g.grade_level),
+        difficulties,
+        sources,
+        learningStyles,
+        ageRange: {
+          min: ageRange?.min_age ?? 3,
+          max: ageRange?.max_age ?? 12,
+        },
+      })
+    },
+  },
+
+  {
+    method: 'POST',
+    path: 'generate',
+    async handler(req, ctx) {
+      const { childId, subject, topic, preferredDuration, provider, saveToLibrary = false } = bodyFields(req)
+
+      if (!childId || !subject) {
+        return apiError('childId and subject are required', 400)
+      }
+
+      const child = await ctx.db.first<ChildRow>(
+        'SELECT * FROM children WHERE id = ? AND user_id = ?',
+        childId,
+        req.user!.userId
+      )
+      if (!child) {
+        return apiError('Child not found', 404)
+      }
+
+      const childProfile: ChildProfile = {
+        name: child.name,
+        age: child.age,
+        gradeLevel: child.grade_level,
+        learningStyle: child.learning_style,
+        interests: child.interests ? JSON.parse(child.interests) : null,
+      }
+
+      try {
+        const { lesson, usage } = await generateLesson(
+          {
+            childProfile,
+            subject: subject as string,
+            topic: topic as string | undefined,
+            preferredDuration: preferredDuration as number | undefined,
+          },
+          createAIProvider(aiProviderConfigFromEnv(ctx.env, provider as string | undefined))
+        )
+        const safety = reviewLessonSafety(checkLessonSafety(lesson))
+
+        await ctx.db.run(`
+          INSERT INTO ai_usage (id, user_id, provider, model, input_tokens, output_tokens, cost_usd)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `, crypto.randomUUID(), req.user!.userId, usage.provider, usage.model, usage.inputTokens, usage.outputTokens, usage.costUsd)
+
+        // Saved like a parent-built lesson, so it stays private to the family
+        if (saveToLibrary) {
+          await ctx.db.run(`
+            INSERT INTO lessons (
+              id, title, subject, grade_level, difficulty, duration_minutes,
+              objectives, activities, materials, assessment_criteria, source, tags,
+              is_published, owner_id, visibility, safety_flags, review_status
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'private', ?, ?)
+          `,
+            lesson.id,
+            lesson.title,
+            lesson.subject,
+            lesson.gradeLevel,
+            lesson.difficulty,
+            lesson.durationMinutes,
+            JSON.stringify(lesson.objectives.map(o => ({ description: o }))),
+            JSON.stringify(lesson.activities),
+            JSON.stringify(lesson.materials),
+            JSON.stringify(lesson.assessmentCriteria.map(c => ({
+              type: 'observation',
+              description: c,
+              success_indicators: [],
+            }))),
+            'ai_generated',
+            JSON.stringify(lesson.tags),
+            safety.held ? 0 : 1,
+            req.user!.userId,
+            safety.held ? JSON.stringify(safety.flags) : null,
+            safety.status
+          )
+        }
+
+        return json({ lesson, usage, safetyFlags: safety.flags }, 201)
+      } catch (error) {
+        return apiError(error instanceof Error ? error.message : 'Failed to generate lesson', 500)
+      }
+    },
+  },
+
+  // Tokens and cost of the signed-in parent's lesson generation
+  {
+    method: 'GET',
+    path: 'generate/usage',
+    async handler(req, ctx) {
+      const rows = await ctx.db.all<AIUsageRow>(AI_USAGE_SUMMARY_SQL, req.user!.userId)
+      return json({ usage: summarizeAIUsage(rows) })
+    },
+  },
+
+  // Lessons held back by the safety checks, oldest first
+  {
+    method: 'GET',
+    path: 'review',
+    admin: true,
+    async handler(req, ctx) {
+      const status = (req.query.get('status') || 'pending') as LessonReviewStatus
+      if (!REVIEW_STATUSES.includes(status)) {
+        return apiError('Status must be pending, approved or rejected', 400)
+      }
+
+      const lessons = await ctx.db.all<LessonRow>(
+        'SELECT * FROM lessons WHERE review_status = ? ORDER BY updated_at ASC',
+        status
+      )
+      return json({ lessons: lessons.map(parseLesson) })
+    },
+  },
+
+  { method: 'POST', path: 'review/:id/approve', admin: true, handler: reviewLesson('approved') },
+  { method: 'POST', path: 'review/:id/reject', admin: true, handler: reviewLesson('rejected') },
+
+  // Personalized lesson matching for a child
+  {
+    method: 'GET',
+    path: 'match/:childId',
+    async handler(req, ctx) {
+      const { childId } = req.params
+      const limit = req.query.get('limit')
+      const minScore = req.query.get('minScore')
+
+      const child = await ctx.db.first('SELECT id FROM children WHERE id = ? AND user_id = ?', childId, req.user!.userId)
+      if (!child) {
+        return apiError('Child not found', 404)
+      }
+
+      try {
+        const matches = await matchLessonsForChild(ctx.db, childId, {
+          limit: limit ? parseInt(limit, 10) : 20,
+          excludeCompleted: req.query.get('excludeCompleted') !== 'false',
+          subjectFilter: req.query.get('subject') ?? undefined,
+          minScore: minScore ? parseInt(minScore, 10) : 0,
+        })
+
+        return json({ matches, total: matches.length, childId })
+      } catch (error) {
+        return apiError(error instanceof Error ? error.message : 'Failed to match lessons', 500)
+      }
+    },
+  },
+
+  // Lessons written by the signed-in family, for the lesson builder
+  {
+    method: 'GET',
+    path: 'mine',
+    async handler(req, ctx) {
+      const lessons = await ctx.db.all<LessonRow>(
+        'SELECT * FROM lessons WHERE owner_id = ? ORDER BY updated_at DESC',
+        req.user!.userId
+      )
+      return json({ lessons: lessons.map(parseLesson) })
+    },
+  },
+
+  {
+    method: 'GET',
+    path: ':id',
+    optionalAuth: true,
+    async handler(req, ctx) {
+      const lesson = await ctx.db.first<LessonWithMetricsRow>(`
+        SELECT l.*, ${LESSON_METRICS}
+        FROM lessons l
+        ${METRICS_JOINS}
+        WHERE l.id = ? AND ${VISIBLE_LESSON}
+        GROUP BY l.id
+      `, req.params.id, viewerId(req))
+
+      if (!lesson) {
+        return apiError('Lesson not found', 404)
+      }
+
+      return json({ lesson: withMetrics(lesson) })
+    },
+  },
+
+  {
+    method: 'GET',
+    path: ':id/recommendations',
+    optionalAuth: true,
+    async handler(req, ctx) {
+      const lesson = await ctx.db.first<LessonRow>(
+        `SELECT * FROM lessons l WHERE id = ? AND ${VISIBLE_LESSON}`,
+        req.params.id,
+        viewerId(req)
+      )
+      if (!lesson) {
+        return apiError('Lesson not found', 404)
+      }
+
+      // Use smart matching when childId is provided
+      const childId = req.query.get('childId')
+      if (childId) {
+        // The child's family may have private lessons, so only their parent can ask
+        const child = await ctx.db.first('SELECT id FROM children WHERE id = ? AND user_id = ?', childId, viewerId(req))
+        if (!child) {
+          return apiError('Child not found', 404)
+        }
+        return json({ recommendations: await getQuickRecommendations(ctx.db, childId, lesson.id, 5) })
+      }
+
+      // Fallback to basic matching without child context
+      const recommendations = await ctx.db.all<LessonRow>(`
+        SELECT * FROM lessons l
+        WHERE id != ? AND is_published = 1 AND ${VISIBLE_LESSON} AND (subject = ? OR grade_level = ?)
+        ORDER BY RANDOM()
+        LIMIT 5
+      `, lesson.id, viewerId(req), lesson.subject, lesson.grade_level)
+
+      return json({ recommendations: recommendations.map(parseLesson) })
+    },
+  },
+
+  {
+    method: 'POST',
+    path: '',
+    optionalAuth: true,
+    async handler(req, ctx) {
+      const input = bodyFields(req) as Partial<CreateLessonInput>
+
+      if (!input.title || !input.subject) {
+        return apiError('Title and subject are required', 400)
+      }
+
+      const id = crypto.randomUUID()
+      const invalid = await validateLessonInput(req, ctx, id, input)
+      if (invalid) return invalid
+
+      // Lessons written by a parent belong to their family and start private.
+      // Anonymous writes are curated content and are always shared.
+      const ownerId = viewerId(req)
+      const visibility: LessonVisibility = ownerId ? input.visibility ?? 'private' : 'public'
+
+      const safety = reviewLessonSafety(checkLessonSafety(input))
+
+      await ctx.db.run(`
+        INSERT INTO lessons (
+          id, title, subject, description, grade_level, difficulty,
+          duration_minutes, age_min, age_max, learning_styles, interests,
+          objectives, activities, branching, prerequisites, materials, assessment_criteria,
+          source, tags, is_published, owner_id, visibility, safety_flags, review_status
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+        id,
+        input.title,
+        input.subject,
+        input.description || null,
+        input.gradeLevel || null,
+        input.difficulty || null,
+        input.durationMinutes || null,
+        input.ageMin || null,
+        input.ageMax || null,
+        input.learningStyles ? JSON.stringify(input.learningStyles) : null,
+        input.interests ? JSON.stringify(input.interests) : null,
+        input.objectives ? JSON.stringify(input.objectives) : null,
+        input.activities ? JSON.stringify(input.activities) : null,
+        input.branching ? JSON.stringify(input.branching) : null,
+        input.prerequisites?.length ? JSON.stringify(input.prerequisites) : null,
+        input.materials ? JSON.stringify(input.materials) : null,
+        input.assessmentCriteria ? JSON.stringify(input.assessmentCriteria) : null,
+        input.source || 'curated',
+        input.tags ? JSON.stringify(input.tags) : null,
+        input.isPublished !== false && !safety.held ? 1 : 0,
+        ownerId,
+        visibility,
+        safety.held ? JSON.stringify(safety.flags) : null,
+        safety.status
+      )
+
+      return await lessonResponse(ctx, id, 201)
+    },
+  },
+
+  {
+    method: 'PUT',
+    path: ':id',
+    optionalAuth: true,
+    async handler(req, ctx) {
+      const input = bodyFields(req) as Partial<CreateLessonInput>
+
+      const editable = await findEditableLesson(req, ctx)
+      if ('error' in editable) return editable.error
+      const before = editable.lesson
+
+      // Rules may refer to activities stored earlier when only the rules change
+      const invalid = await validateLessonInput(
+        req,
+        ctx,
+        before.id,
+        input,
+        before.activities ? JSON.parse(before.activities) : []
+      )
+      if (invalid) return invalid
+
+      const updates: string[] = []
+      const values: unknown[] = []
+
+      for (const [field, column, encoding] of UPDATE_COLUMNS) {
+        if (input[field] !== undefined) {
+          updates.push(`${column} = ?`)
+          values.push(encoding === 'json' ? JSON.stringify(input[field]) : input[field])
+        }
+      }
+      if (input.branching !== undefined) {
+        updates.push('branching = ?')
+        values.push(input.branching ? JSON.stringify(input.branching) : null)
+      }
+      if (input.prerequisites !== undefined) {
+        updates.push('prerequisites = ?')
+        values.push(input.prerequisites.length > 0 ? JSON.stringify(input.prerequisites) : null)
+      }
+      if (input.isPublished !== undefined) {
+        updates.push('is_published = ?')
+        values.push(input.isPublished ? 1 : 0)
+      }
+
+      if (updates.length > 0) {
+        updates.push("updated_at = datetime('now')")
+        await ctx.db.run(`UPDATE lessons SET ${updates.join(', ')} WHERE id = ?`, ...values, before.id)
+        await recheckLessonSafety(ctx, before, input.isPublished)
+      }
+
+      return await lessonResponse(ctx, before.id)
+    },
+  },
+
+  {
+    method: 'DELETE',
+    path: ':id',
+    optionalAuth: true,
+    async handler(req, ctx) {
+      const editable = await findEditableLesson(req, ctx)
+      if ('error' in editable) return editable.error
+
+      await ctx.db.run('DELETE FROM lessons WHERE id = ?', editable.lesson.id)
+      return { status: 204 }
+    },
+  },
+
+  {
+    method: 'POST',
+    path: ':id/rate',
+    async handler(req, ctx) {
+      const { rating, feedback, childId } = bodyFields(req)
+
+      if (!rating || Number(rating) < 1 || Number(rating) > 5) {
+        return apiError('Rating must be between 1 and 5', 400)
+      }
+
+      const lesson = await ctx.db.first<{ id: string }>('SELECT id FROM lessons WHERE id = ?', req.params.id)
+      if (!lesson) {
+        return apiError('Lesson not found', 404)
+      }
+
+      await ctx.db.run(`
+        INSERT INTO lesson_ratings (id, lesson_id, user_id, child_id, rating, feedback)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(lesson_id, user_id, child_id) DO UPDATE SET
+          rating = excluded.rating,
+          feedback = excluded.feedback
+      `, crypto.randomUUID(), lesson.id, req.user!.userId, childId || null, rating, feedback || null)
+
+      const stats = await ctx.db.first<{ avg_rating: number; rating_count: number }>(`
+        SELECT AVG(rating) as avg_rating, COUNT(*) as rating_count
+        FROM lesson_ratings WHERE lesson_id = ?
+      `, lesson.id)
+
+      return json({ success: true, avg_rating: stats!.avg_rating, rating_count: stats!.rating_count })
+    },
+  },
+
+  {
+    method: 'POST',
+    path: ':id/engagement',
+    idempotent: true,
+    async handler(req, ctx) {
+      const { childId, action, timeSeconds } = bodyFields(req)
+
+      if (!childId || !action) {
+        return apiError('childId and action are required', 400)
+      }
+      if (action !== 'view' && action !== 'start' && action !== 'complete') {
+        return apiError('Invalid action', 400)
+      }
+
+      const lesson = await ctx.db.first<{ id: string }>('SELECT id FROM lessons WHERE id = ?', req.params.id)
+      if (!lesson) {
+        return apiError('Lesson not found', 404)
+      }
+
+      const existing = await ctx.db.first(
+        'SELECT id FROM lesson_engagement WHERE lesson_id = ? AND child_id = ?',
+        lesson.id,
+        childId
+      )
+
+      if (existing) {
+        const countColumn = action === 'view' ? 'view_count' : action === 'start' ? 'start_count' : 'completion_count'
+        await ctx.db.run(`
+          UPDATE lesson_engagement
+          SET ${countColumn} = ${countColumn} + 1,
+              total_time_seconds = total_time_seconds + ?,
+              last_accessed_at = datetime('now'),
+              updated_at = datetime('now')
+          WHERE lesson_id = ? AND child_id = ?
+        `, Number(timeSeconds) || 0, lesson.id, childId)
+      } else {
+        await ctx.db.run(`
+          INSERT INTO lesson_engagement (
+            id, lesson_id, child_id, view_count, start_count, completion_count,
+            total_time_seconds, last_accessed_at
+          )
+          VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+        `,
+          crypto.randomUUID(),
+          lesson.id,
+          childId,
+          action === 'view' ? 1 : 0,
+          action === 'start' ? 1 : 0,
+          action === 'complete' ? 1 : 0,
+          Number(timeSeconds) || 0
+        )
+      }
+
+      return json({ success: true })
+    },
+  },
+]
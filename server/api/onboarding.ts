@@ -0,0 +1,119 @@
+/**
+ * /api/onboarding routes
+ */
+
+import { json, bodyFields, type ApiContext, type ApiRoute } from './core.js'
+
+interface OnboardingRow {
+  id: string
+  user_id: string
+  completed: number
+  step: number
+  data: string | null
+  created_at: string
+  updated_at: string
+}
+
+function parseOnboarding(row: OnboardingRow) {
+  return {
+    id: row.id,
+    completed: Boolean(row.completed),
+    step: row.step,
+    data: row.data ? JSON.parse(row.data) : {},
+  }
+}
+
+async function findOnboarding(ctx: ApiContext, userId: string) {
+  return await ctx.db.first<OnboardingRow>('SELECT * FROM onboarding WHERE user_id = ?', userId)
+}
+
+export const onboardingRoutes: ApiRoute[] = [
+  {
+    method: 'GET',
+    path: '',
+    async handler(req, ctx) {
+      const onboarding = await findOnboarding(ctx, req.user!.userId)
+
+      if (!onboarding) {
+        return json({
+          onboarding: {
+            completed: false,
+            step: 0,
+            data: {},
+          },
+        })
+      }
+
+      return json({ onboarding: parseOnboarding(onboarding) })
+    },
+  },
+
+  /**
+   * Save progress; `data` is merged into what was saved before
+   */
+  {
+    method: 'PUT',
+    path: '',
+    async handler(req, ctx) {
+      const userId = req.user!.userId
+      const { step, data, completed } = bodyFields(req)
+      const existing = await findOnboarding(ctx, userId)
+
+      if (!existing) {
+        await ctx.db.run(`
+          INSERT INTO onboarding (id, user_id, step, data, completed)
+          VALUES (?, ?, ?, ?, ?)
+        `, crypto.randomUUID(), userId, step ?? 0, data ? JSON.stringify(data) : null, completed ? 1 : 0)
+
+        return json({ onboarding: parseOnboarding((await findOnboarding(ctx, userId))!) })
+      }
+
+      const updates: string[] = []
+      const values: unknown[] = []
+
+      if (step !== undefined) {
+        updates.push('step = ?')
+        values.push(step)
+      }
+      if (data !== undefined) {
+        const existingData = existing.data ? JSON.parse(existing.data) : {}
+        updates.push('data = ?')
+        values.push(JSON.stringify({ ...existingData, ...data as object }))
+      }
+      if (completed !== undefined) {
+        updates.push('completed = ?')
+        values.push(completed ? 1 : 0)
+      }
+
+      if (updates.length > 0) {
+        updates.push("updated_at = datetime('now')")
+        await ctx.db.run(`UPDATE onboarding SET ${updates.join(', ')} WHERE user_id = ?`, ...values, userId)
+      }
+
+      return json({ onboarding: parseOnboarding((await findOnboarding(ctx, userId))!) })
+    },
+  },
+
+  {
+    method: 'POST',
+    path: 'complete',
+    async handler(req, ctx) {
+      const userId = req.user!.userId
+      const existing = await findOnboarding(ctx, userId)
+
+      if (!existing) {
+        await ctx.db.run(`
+          INSERT INTO onboarding (id, user_id, completed, step)
+          VALUES (?, ?, 1, -1)
+        `, crypto.randomUUID(), userId)
+      } else {
+        await ctx.db.run(`
+          UPDATE onboarding SET completed = 1, updated_at = datetime('now')
+          WHERE user_id = ?
+        `, userId)
+      }
+
+      return json({ completed: true })
+    },
+  },
+]
@@ -0,0 +1,530 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest'
+import request from 'supertest'
+import Database from 'better-sqlite3'
+import { readdirSync, readFileSync } from 'fs'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { db, initializeDb } from '../db/index.js'
+import { createApp } from '../app.js'
+import { onRequest } from '../../functions/api/[[path]].js'
+import type { D1Database, D1PreparedStatement, Env } from '../../functions/types.js'
+
+/**
+ * Runs the same request fixtures against the Express server on better-sqlite3
+ * and the Cloudflare Functions on D1 (simulated with SQLite and the schema
+ * from migrations/), and expects the same statuses and bodies from both.
+ */
+
+const migrationsDir = join(dirname(fileURLToPath(import.meta.url)), '../../migrations')
+
+const PARITY_LESSON_ID = 'parity-lesson'
+// Unlocks once the parity lesson is completed
+const PARITY_LOCKED_LESSON_ID = 'parity-next-lesson'
+
+interface FixtureStep {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE'
+  /** `{name}` here and in body strings is replaced with a value captured by an earlier step */
+  path: string
+  body?: unknown
+  /** Whose token to send; the parent by default */
+  as?: 'parent' | 'stranger' | 'nobody' | 'forged'
+  headers?: Record<string, string>
+  status: number
+  /** Values to keep from the response body, by dotted path */
+  capture?: Record<string, string>
+}
+
+interface ApiClient {
+  send(step: FixtureStep, path: string, token: string | null): Promise<{ status: number; body: unknown }>
+}
+
+// Every fixture starts with two families, and a child for the first one
+const setup: FixtureStep[] = [
+  {
+    method: 'POST',
+    path: '/api/auth/register',
+    as: 'nobody',
+    body: { email: 'parent@example.com', password: 'password123', name: 'Parent' },
+    status: 201,
+    capture: { parentToken: 'token' },
+  },
+  {
+    method: 'POST',
+    path: '/api/auth/register',
+    as: 'nobody',
+    body: { email: 'stranger@example.com', password: 'password123', name: 'Stranger' },
+    status: 201,
+    capture: { strangerToken: 'token' },
+  },
+  {
+    method: 'POST',
+    path: '/api/children',
+    body: { name: 'Mia', age: 5, avatar: 'owl', interests: ['dinosaurs'] },
+    status: 201,
+    capture: { childId: 'child.id' },
+  },
+]
+
+// Nine visual, three auditory and three kinesthetic answers
+const learningStyleAnswers = Object.fromEntries(
+  Array.from({ length: 15 }, (_, i) => {
+    const id = `vak-${String(i + 1).padStart(3, '0')}`
+    return [id, `${id}-${i < 9 ? 'v' : i < 12 ? 'a' : 'k'}`]
+  })
+)
+
+const fixtures: Record<string, FixtureStep[]> = {
+  auth: [
+    { method: 'POST', path: '/api/auth/register', as: 'nobody', body: { email: 'parent@example.com', password: 'x', name: 'Again' }, status: 409 },
+    { method: 'POST', path: '/api/auth/register', as: 'nobody', body: { email: 'new@example.com' }, status: 400 },
+    { method: 'POST', path: '/api/auth/login', as: 'nobody', body: { email: 'parent@example.com', password: 'wrong' }, status: 401 },
+    { method: 'POST', path: '/api/auth/login', as: 'nobody', body: { email: 'parent@example.com', password: 'password123' }, status: 200 },
+    { method: 'GET', path: '/api/auth/me', status: 200 },
+    { method: 'GET', path: '/api/auth/me', as: 'nobody', status: 401 },
+    { method: 'GET', path: '/api/auth/me', as: 'forged', status: 401 },
+    { method: 'GET', path: '/api/auth/unknown', as: 'nobody', status: 404 },
+  ],
+
+  children: [
+    { method: 'GET', path: '/api/children', status: 200 },
+    { method: 'GET', path: '/api/children', as: 'stranger', status: 200 },
+    { method: 'POST', path: '/api/children', body: { age: 4 }, status: 400 },
+    { method: 'GET', path: '/api/children/{childId}', status: 200 },
+    { method: 'GET', path: '/api/children/{childId}', as: 'stranger', status: 404 },
+    { method: 'PUT', path: '/api/children/{childId}', body: { name: 'Mia Rose', gradeLevel: 'K', interests: ['space'] }, status: 200 },
+    { method: 'PUT', path: '/api/children/{childId}/reading-level', body: { level: 'expert' }, status: 400 },
+    {
+      method: 'PUT',
+      path: '/api/children/{childId}/reading-level',
+      body: { level: 'emerging', results: [{ level: 'pre_reader', correct: 5, total: 5 }] },
+      status: 200,
+    },
+    { method: 'PUT', path: '/api/children/{childId}/learning-profile', body: { learningStyleAnswers: {} }, status: 400 },
+    {
+      method: 'PUT',
+      path: '/api/children/{childId}/learning-profile',
+      body: { learningStyleAnswers, personalityAnswers: { 'pers-001': 'pers-001-b' } },
+      status: 200,
+    },
+    { method: 'PUT', path: '/api/children/{childId}/accessibility', body: { inputMode: 'point' }, status: 400 },
+    {
+      method: 'PUT',
+      path: '/api/children/{childId}/accessibility',
+      body: { inputMode: 'tap', scanIntervalMs: 1500, announcePlacements: false },
+      status: 200,
+    },
+    { method: 'PUT', path: '/api/children/{childId}/display-profile', body: { dyslexiaFont: 'yes' }, status: 400 },
+    {
+      method: 'PUT',
+      path: '/api/children/{childId}/display-profile',
+      body: {
+        dyslexiaFont: true,
+        letterSpacing: 'wide',
+        wordSpacing: 'normal',
+        lineRuler: false,
+        colorCodeLetters: true,
+        reducedMotion: true,
+      },
+      status: 200,
+    },
+    { method: 'DELETE', path: '/api/children/{childId}', as: 'stranger', status: 404 },
+    { method: 'DELETE', path: '/api/children/{childId}', status: 204 },
+    { method: 'GET', path: '/api/children/{childId}', status: 404 },
+  ],
+
+  onboarding: [
+    { method: 'GET', path: '/api/onboarding', status: 200 },
+    { method: 'PUT', path: '/api/onboarding', body: { step: 2, data: { child: { name: 'Leo' } } }, status: 200 },
+    { method: 'PUT', path: '/api/onboarding', body: { data: { discovery: { step: 3 } } }, status: 200 },
+    { method: 'POST', path: '/api/onboarding/complete', status: 200 },
+    { method: 'GET', path: '/api/onboarding', status: 200 },
+    { method: 'GET', path: '/api/onboarding', as: 'stranger', status: 200 },
+    { method: 'DELETE', path: '/api/onboarding', status: 405 },
+  ],
+
+  lessons: [
+    { method: 'GET', path: '/api/lessons', as: 'nobody', status: 200 },
+    { method: 'GET', path: '/api/lessons?childId={childId}&subject=phonics', status: 200 },
+    { method: 'GET', path: '/api/lessons?childId={childId}', as: 'stranger', status: 404 },
+    { method: 'GET', path: '/api/lessons/subjects', as: 'nobody', status: 200 },
+    { method: 'GET', path: '/api/lessons/filters', as: 'nobody', status: 200 },
+    { method: 'GET', path: '/api/lessons/supported-subjects', as: 'nobody', status: 200 },
+    { method: 'GET', path: '/api/lessons/search?q=short', as: 'nobody', status: 200 },
+    { method: 'GET', path: '/api/lessons/search', as: 'nobody', status: 400 },
+    { method: 'POST', path: '/api/lessons', body: { subject: 'reading' }, status: 400 },
+    {
+      method: 'POST',
+      path: '/api/lessons',
+      body: { title: 'Pig Can Dig', subject: 'reading', description: 'Words that end in -ig' },
+      status: 201,
+      capture: { ownLessonId: 'lesson.id' },
+    },
+    { method: 'GET', path: '/api/lessons/{ownLessonId}', status: 200 },
+    { method: 'GET', path: '/api/lessons/{ownLessonId}', as: 'stranger', status: 404 },
+    { method: 'GET', path: '/api/lessons/search?q=pig', status: 200 },
+    { method: 'GET', path: '/api/lessons/search?q=pig', as: 'nobody', status: 200 },
+    { method: 'GET', path: '/api/lessons/mine', status: 200 },
+    { method: 'GET', path: '/api/lessons/mine', as: 'nobody', status: 401 },
+    { method: 'PUT', path: '/api/lessons/{ownLessonId}', body: { visibility: 'family' }, status: 400 },
+    { method: 'PUT', path: '/api/lessons/{ownLessonId}', body: { visibility: 'public', description: 'Call 555-123-4567' }, status: 200 },
+    { method: 'PUT', path: '/api/lessons/{ownLessonId}', as: 'stranger', body: { title: 'Mine now' }, status: 403 },
+    { method: 'PUT', path: '/api/lessons/{ownLessonId}', body: { description: 'Dig, pig, dig' }, status: 200 },
+    { method: 'GET', path: '/api/lessons/{lessonId}/recommendations', as: 'nobody', status: 200 },
+    { method: 'GET', path: '/api/lessons/match/{childId}', status: 200 },
+    { method: 'GET', path: '/api/lessons/match/{childId}', as: 'stranger', status: 404 },
+    { method: 'POST', path: '/api/lessons/{lessonId}/rate', body: { rating: 9 }, status: 400 },
+    { method: 'POST', path: '/api/lessons/{lessonId}/rate', body: { rating: 4, childId: '{childId}' }, status: 200 },
+    {
+      method: 'POST',
+      path: '/api/lessons/{lessonId}/engagement',
+      headers: { 'Idempotency-Key': 'engagement-0001' },
+      body: { childId: '{childId}', action: 'complete', timeSeconds: 60 },
+      status: 200,
+    },
+    {
+      method: 'POST',
+      path: '/api/lessons/{lessonId}/engagement',
+      headers: { 'Idempotency-Key': 'engagement-0001' },
+      body: { childId: '{childId}', action: 'complete', timeSeconds: 60 },
+      status: 200,
+    },
+    { method: 'POST', path: '/api/lessons/{lessonId}/engagement', body: { childId: '{childId}', action: 'skip' }, status: 400 },
+    { method: 'GET', path: '/api/lessons/{lessonId}', as: 'nobody', status: 200 },
+    { method: 'POST', path: '/api/lessons/generate', body: { childId: '{childId}', subject: 'word-families', provider: 'offline' }, status: 201 },
+    { method: 'POST', path: '/api/lessons/generate', as: 'nobody', body: { subject: 'word-families' }, status: 401 },
+    { method: 'GET', path: '/api/lessons/generate/usage', status: 200 },
+    { method: 'GET', path: '/api/lessons/review', status: 403 },
+    { method: 'GET', path: '/api/lessons/review', as: 'nobody', status: 401 },
+    { method: 'DELETE', path: '/api/lessons/{ownLessonId}', as: 'stranger', status: 403 },
+    { method: 'DELETE', path: '/api/lessons/{ownLessonId}', status: 204 },
+    { method: 'DELETE', path: '/api/lessons', status: 405 },
+  ],
+
+  voiceSettings: [
+    { method: 'GET', path: '/api/voice/settings/{childId}', as: 'nobody', status: 200 },
+    { method: 'PUT', path: '/api/voice/settings/{childId}', body: { speed: 3, stability: -1 }, status: 400 },
+    { method: 'PUT', path: '/api/voice/settings/{childId}', body: { speed: 1.25, useSpeakerBoost: false }, status: 200 },
+    { method: 'PUT', path: '/api/voice/settings/{childId}', body: { stability: 0.3, voiceId: 'local-narrator' }, status: 200 },
+    { method: 'GET', path: '/api/voice/settings/{childId}', as: 'nobody', status: 200 },
+    { method: 'DELETE', path: '/api/voice/settings/{childId}', status: 405 },
+  ],
+
+  voice: [
+    { method: 'GET', path: '/api/voice/voices', as: 'nobody', status: 200 },
+    { method: 'GET', path: '/api/voice/voices', status: 200 },
+    { method: 'GET', path: '/api/voice/voices/local-narrator', status: 200 },
+    { method: 'GET', path: '/api/voice/voices/missing', status: 404 },
+    { method: 'POST', path: '/api/voice/voices/clone', as: 'nobody', body: { name: 'Mom', consent: 'true' }, status: 401 },
+    { method: 'POST', path: '/api/voice/voices/clone', body: { name: 'Mom', consent: 'true' }, status: 400 },
+    { method: 'POST', path: '/api/voice/tts', body: {}, status: 400 },
+    { method: 'POST', path: '/api/voice/tts', body: { text: 'cat', voiceSettings: { speed: 5 } }, status: 400 },
+    {
+      method: 'POST',
+      path: '/api/voice/tts',
+      as: 'nobody',
+      body: { text: 'The big dog', voiceId: 'local-narrator', timestamps: true },
+      status: 200,
+    },
+    { method: 'GET', path: '/api/voice/tts', status: 405 },
+    { method: 'POST', path: '/api/voice/stt', as: 'nobody', body: {}, status: 400 },
+    { method: 'POST', path: '/api/voice/pronunciation-check', as: 'nobody', body: { expectedWord: 'cat' }, status: 400 },
+    { method: 'DELETE', path: '/api/voice/voices/local-narrator', as: 'nobody', status: 401 },
+    { method: 'DELETE', path: '/api/voice/voices/local-narrator', status: 404 },
+    { method: 'GET', path: '/api/voice/unknown', status: 404 },
+  ],
+
+  progress: [
+    { method: 'POST', path: '/api/progress/child/{childId}/lesson/{lockedLessonId}/start', status: 409 },
+    { method: 'POST', path: '/api/progress/child/{childId}/lesson/{lockedLessonId}/complete', body: { score: 90 }, status: 409 },
+    { method: 'GET', path: '/api/progress/child/{childId}/lesson/{lessonId}', status: 200 },
+    { method: 'PUT', path: '/api/progress/child/{childId}/lesson/{lessonId}', body: { score: 10 }, status: 404 },
+    { method: 'POST', path: '/api/progress/child/{childId}/lesson/{lessonId}/start', status: 200 },
+    {
+      method: 'POST',
+      path: '/api/progress/child/{childId}/lesson/{lessonId}/activity',
+      headers: { 'Idempotency-Key': 'activity-0001' },
+      body: { activityId: 'act-1', completed: true, score: 80, attempts: 2, timeSpentSeconds: 30, currentActivityIndex: 1 },
+      status: 200,
+    },
+    {
+      method: 'POST',
+      path: '/api/progress/child/{childId}/lesson/{lessonId}/activity',
+      headers: { 'Idempotency-Key': 'activity-0001' },
+      body: { activityId: 'act-1', completed: true, score: 80, attempts: 2, timeSpentSeconds: 30, currentActivityIndex: 1 },
+      status: 200,
+    },
+    { method: 'POST', path: '/api/progress/child/{childId}/lesson/{lessonId}/activity', body: {}, status: 400 },
+    { method: 'GET', path: '/api/progress/child/{childId}/lesson/{lessonId}/activities', status: 200 },
+    {
+      method: 'POST',
+      path: '/api/progress/child/{childId}/lesson/{lessonId}/complete',
+      body: { score: 95, timeSpent: 3700, occurredAt: '2026-01-05T10:00:00.000Z' },
+      status: 200,
+    },
+    { method: 'POST', path: '/api/progress/child/{childId}/lesson/{lockedLessonId}/start', status: 200 },
+    { method: 'PUT', path: '/api/progress/child/{childId}/lesson/{lessonId}', body: { occurredAt: 'yesterday' }, status: 400 },
+    {
+      method: 'PUT',
+      path: '/api/progress/child/{childId}/lesson/{lessonId}',
+      body: { score: 10, occurredAt: '2026-01-01T10:00:00.000Z' },
+      status: 200,
+    },
+    { method: 'GET', path: '/api/progress/child/{childId}', status: 200 },
+    { method: 'GET', path: '/api/progress/child/{childId}/summary', status: 200 },
+    { method: 'GET', path: '/api/progress/child/{childId}/stats', status: 200 },
+    { method: 'GET', path: '/api/progress/child/{childId}/recent', status: 200 },
+    { method: 'GET', path: '/api/progress/child/{childId}/summary', as: 'stranger', status: 404 },
+    { method: 'GET', path: '/api/progress/child/{childId}/summary', as: 'nobody', status: 401 },
+    { method: 'GET', path: '/api/progress/child/{childId}/unknown', status: 404 },
+  ],
+
+  // Generated lessons reuse activity ids such as `listen`, so progress is kept per lesson
+  activities: [
+    { method: 'POST', path: '/api/progress/child/{childId}/lesson/{lessonId}/start', status: 200 },
+    {
+      method: 'POST',
+      path: '/api/progress/child/{childId}/lesson/{lessonId}/activity',
+      body: { activityId: 'listen', completed: true, score: 90, attempts: 1 },
+      status: 200,
+    },
+    {
+      method: 'POST',
+      path: '/api/progress/child/{childId}/lesson/{lockedLessonId}/activity',
+      body: { activityId: 'listen', completed: false, score: 40, attempts: 1 },
+      status: 200,
+    },
+    { method: 'GET', path: '/api/progress/child/{childId}/lesson/{lessonId}/activities', status: 200 },
+    { method: 'GET', path: '/api/progress/child/{childId}/lesson/{lockedLessonId}/activities', status: 200 },
+  ],
+
+  practice: [
+    { method: 'POST', path: '/api/progress/child/{childId}/review', body: { word: 'Cat' }, status: 400 },
+    { method: 'POST', path: '/api/progress/child/{childId}/review', body: { word: 'Cat', correct: false, game: 'spelling' }, status: 200 },
+    { method: 'POST', path: '/api/progress/child/{childId}/review', body: { word: 'cat', correct: true }, status: 200 },
+    { method: 'GET', path: '/api/progress/child/{childId}/review-queue?limit=5', status: 200 },
+    { method: 'POST', path: '/api/progress/child/{childId}/letter-knowledge', body: { attempts: [] }, status: 400 },
+    {
+      method: 'POST',
+      path: '/api/progress/child/{childId}/letter-knowledge',
+      body: {
+        attempts: [
+          { letter: 'b', skill: 'sound', correct: true },
+          { letter: 'b', skill: 'name', correct: false },
+          { letter: 'M', skill: 'name', correct: true },
+        ],
+      },
+      status: 200,
+    },
+    { method: 'GET', path: '/api/progress/child/{childId}/letter-knowledge', status: 200 },
+    { method: 'POST', path: '/api/progress/child/{childId}/game-session', body: { game: 'chess' }, status: 400 },
+    {
+      method: 'POST',
+      path: '/api/progress/child/{childId}/game-session',
+      body: {
+        game: 'rhyme',
+        startedAt: '2026-01-05T10:00:00.000Z',
+        endedAt: '2026-01-05T10:02:00.000Z',
+        score: 2,
+        completed: true,
+        events: [
+          { item: 'cat', outcome: 'correct', attempts: 1 },
+          { item: 'dog', outcome: 'incorrect', attempts: 2, hintsUsed: 1 },
+        ],
+      },
+      status: 201,
+      capture: { sessionId: 'session.id' },
+    },
+    { method: 'GET', path: '/api/progress/child/{childId}/game-sessions?game=rhyme', status: 200 },
+    { method: 'GET', path: '/api/progress/child/{childId}/game-sessions?game=chess', status: 400 },
+    { method: 'GET', path: '/api/progress/child/{childId}/game-session/{sessionId}', status: 200 },
+    { method: 'GET', path: '/api/progress/child/{childId}/game-session/missing', status: 404 },
+  ],
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}/
+const JWT = /^eyJ[\w-]+\.[\w-]+\.[\w-]+$/
+
+/** Replace generated ids, tokens and server clock times, which differ between runs */
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    if (UUID.test(value)) return '<id>'
+    if (JWT.test(value)) return '<token>'
+    if (TIMESTAMP.test(value) && !value.startsWith('2026-01-05')) return '<time>'
+    return value
+  }
+  if (Array.isArray(value)) return value.map(normalize)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, normalize(v)]))
+  }
+  return value
+}
+
+function pick(body: unknown, path: string): string {
+  const value = path.split('.').reduce<unknown>((obj, key) => (obj as Record<string, unknown>)?.[key], body)
+  if (typeof value !== 'string') throw new Error(`Nothing to capture at ${path}`)
+  return value
+}
+
+async function runFixture(client: ApiClient, steps: FixtureStep[]) {
+  const vars: Record<string, string> = { lessonId: PARITY_LESSON_ID, lockedLessonId: PARITY_LOCKED_LESSON_ID }
+  const transcript = []
+
+  for (const step of [...setup, ...steps]) {
+    const fill = (text: string) => text.replace(/\{(\w+)\}/g, (_, name: string) => vars[name])
+    const path = fill(step.path)
+    const body = step.body === undefined ? undefined : JSON.parse(fill(JSON.stringify(step.body)))
+    const as = step.as ?? 'parent'
+    const token = as === 'parent' ? vars.parentToken
+      : as === 'stranger' ? vars.strangerToken
+      : as === 'forged' ? 'not-a-real-token'
+      : null
+
+    const response = await client.send({ ...step, body }, path, token)
+    for (const [name, bodyPath] of Object.entries(step.capture ?? {})) {
+      vars[name] = pick(response.body, bodyPath)
+    }
+    transcript.push({ request: `${step.method} ${step.path}`, status: response.status, body: normalize(response.body) })
+  }
+
+  return transcript
+}
+
+function insertParityLessons(sqlite: Database.Database) {
+  const insert = sqlite.prepare('INSERT INTO lessons (id, title, subject, prerequisites) VALUES (?, ?, ?, ?)')
+  insert.run(PARITY_LESSON_ID, 'Short A', 'phonics', null)
+  insert.run(PARITY_LOCKED_LESSON_ID, 'Short E', 'phonics', JSON.stringify([PARITY_LESSON_ID]))
+}
+
+const app = createApp()
+
+const expressClient: ApiClient = {
+  async send(step, path, token) {
+    let req = request(app)[step.method === 'DELETE' ? 'delete' : step.method.toLowerCase() as 'get' | 'post' | 'put'](path)
+    if (token) req = req.set('Authorization', `Bearer ${token}`)
+    for (const [name, value] of Object.entries(step.headers ?? {})) {
+      req = req.set(name, value)
+    }
+    const res = step.body === undefined ? await req : await req.send(step.body as object)
+    return { status: res.status, body: res.status === 204 ? undefined : res.body }
+  },
+}
+
+/**
+ * A D1 binding backed by SQLite, enough for the handlers: bound statements,
+ * first/all/run, and batches run in a transaction
+ */
+function createSqliteD1(sqlite: Database.Database): D1Database {
+  const bound = new WeakMap<D1PreparedStatement, { sql: string; params: unknown[] }>()
+
+  function prepare(sql: string, params: unknown[] = []): D1PreparedStatement {
+    const stmt: D1PreparedStatement = {
+      bind: (...values) => prepare(sql, values),
+      first: async <T>() => (sqlite.prepare(sql).get(...params) as T | undefined) ?? null,
+      all: async <T>() => ({ results: sqlite.prepare(sql).all(...params) as T[], success: true }),
+      raw: async <T>() => sqlite.prepare(sql).raw().all(...params) as T[],
+      run: async () => {
+        const result = sqlite.prepare(sql).run(...params)
+        return {
+          success: true,
+          meta: { changes: result.changes, duration: 0, last_row_id: Number(result.lastInsertRowid), served_by: 'sqlite' },
+        }
+      },
+    }
+    bound.set(stmt, { sql, params })
+    return stmt
+  }
+
+  return {
+    prepare: sql => prepare(sql),
+    dump: async () => new ArrayBuffer(0),
+    exec: async query => {
+      sqlite.exec(query)
+      return { count: 0, duration: 0 }
+    },
+    batch: async statements => {
+      sqlite.transaction(() => {
+        for (const stmt of statements) {
+          const { sql, params } = bound.get(stmt)!
+          sqlite.prepare(sql).run(...params)
+        }
+      })()
+      return statements.map(() => ({ success: true }))
+    },
+  }
+}
+
+function createPagesClient(): ApiClient {
+  const sqlite = new Database(':memory:')
+  // D1 enforces foreign keys
+  sqlite.pragma('foreign_keys = ON')
+  for (const file of readdirSync(migrationsDir).filter(name => name.endsWith('.sql')).sort()) {
+    sqlite.exec(readFileSync(join(migrationsDir, file), 'utf8'))
+  }
+  insertParityLessons(sqlite)
+
+  const env: Env = { DB: createSqliteD1(sqlite), JWT_SECRET: process.env.JWT_SECRET, SPEECH_PROVIDER: 'local' }
+
+  return {
+    async send(step, path, token) {
+      const url = new URL(path, 'http://localhost')
+      const headers: Record<string, string> = { 'Content-Type': 'application/json', ...step.headers }
+      if (token) headers.Authorization = `Bearer ${token}`
+
+      const response = await onRequest({
+        request: new Request(url, {
+          method: step.method,
+          headers,
+          body: step.body === undefined ? undefined : JSON.stringify(step.body),
+        }),
+        env,
+        params: { path: url.pathname.split('/').filter(Boolean).slice(1) },
+      } as unknown as Parameters<typeof onRequest>[0])
+
+      return { status: response.status, body: response.status === 204 ? undefined : await response.json() }
+    },
+  }
+}
+
+describe('API parity between Express and Cloudflare Functions', () => {
+  beforeAll(() => {
+    // Both backends speak with the offline provider
+    vi.stubEnv('SPEECH_PROVIDER', 'local')
+    initializeDb()
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+  })
+
+  afterEach(() => {
+    db.exec('DELETE FROM sync_mutations')
+    db.exec('DELETE FROM ai_usage')
+    db.exec('DELETE FROM lesson_engagement')
+    db.exec('DELETE FROM lesson_ratings')
+    db.exec('DELETE FROM voice_settings')
+    db.exec('DELETE FROM activity_progress')
+    db.exec('DELETE FROM progress')
+    db.exec('DELETE FROM game_events')
+    db.exec('DELETE FROM game_sessions')
+    db.exec('DELETE FROM word_reviews')
+    db.exec('DELETE FROM letter_knowledge')
+    db.exec('DELETE FROM onboarding')
+    db.exec('DELETE FROM children')
+    db.exec('DELETE FROM users')
+    db.exec('DELETE FROM lessons')
+  })
+
+  for (const [name, steps] of Object.entries(fixtures)) {
+    it(`answers the ${name} fixture the same way`, async () => {
+      insertParityLessons(db)
+
+      const fromExpress = await runFixture(expressClient, steps)
+      const fromPages = await runFixture(createPagesClient(), steps)
+
+      expect(fromExpress.map(step => [step.request, step.status]))
+        .toEqual([...setup, ...steps].map(step => [`${step.method} ${step.path}`, step.status]))
+      expect(fromPages).toEqual(fromExpress)
+    })
+  }
+})
@@ -0,0 +1,827 @@
+/**
+ * /api/progress routes. Every route is under /child/:childId and only
+ * answers for the signed-in parent's own children.
+ */
+
+import {
+  json,
+  apiError,
+  bodyFields,
+  statement,
+  type ApiContext,
+  type ApiRoute,
+  type RouteHandler,
+} from './core.js'
+import {
+  scheduleReview,
+  isReviewRecalled,
+  isReviewMastered,
+  normalizeReviewWord,
+  type ReviewState,
+} from '../services/reviewScheduler.js'
+import { parseGameSessionInput, GAME_TYPES, type GameType } from '../services/gameSession.js'
+import { getLessonAvailability, parsePrerequisites } from '../services/lessonPrerequisites.js'
+import { parseLetterAttempts, tallyLetterAttempts } from '../services/letterKnowledge.js'
+import {
+  mergeLessonProgress,
+  mergeActivityProgress,
+  isStaleUpdate,
+  parseOccurredAt,
+  type LessonProgressState,
+  type LessonProgressUpdate,
+  type ActivityProgressState,
+} from '../services/progressSync.js'
+
+interface ProgressRow {
+  id: string
+  child_id: string
+  lesson_id: string
+  status: string
+  score: number | null
+  time_spent: number
+  current_activity_index: number
+  overall_score: number | null
+  client_updated_at: string | null
+  started_at: string | null
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface ActivityProgressRow {
+  id: string
+  child_id: string
+  lesson_id: string
+  activity_id: string
+  completed: number
+  score: number | null
+  attempts: number
+  time_spent_seconds: number
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface WordReviewRow {
+  id: string
+  child_id: string
+  word: string
+  ease_factor: number
+  interval_days: number
+  repetitions: number
+  lapses: number
+  correct_count: number
+  incorrect_count: number
+  last_game: string | null
+  last_reviewed_at: string | null
+  due_at: string
+  created_at: string
+  updated_at: string
+}
+
+interface GameSessionRow {
+  id: string
+  child_id: string
+  game: string
+  started_at: string
+  ended_at: string | null
+  duration_seconds: number
+  score: number | null
+  max_streak: number
+  items_attempted: number
+  items_correct: number
+  completed: number
+  created_at: string
+}
+
+interface GameEventRow {
+  id: string
+  session_id: string
+  child_id: string
+  item: string
+  outcome: string
+  attempts: number
+  latency_ms: number | null
+  hints_used: number
+  occurred_at: string | null
+  created_at: string
+}
+
+interface LetterKnowledgeRow {
+  id: string
+  child_id: string
+  letter: string
+  name_correct: number
+  name_attempts: number
+  sound_correct: number
+  sound_attempts: number
+  last_assessed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A route under child/:childId that answers 404 unless the child belongs to
+ * the signed-in parent
+ */
+function childRoute(
+  method: ApiRoute['method'],
+  path: string,
+  handler: RouteHandler,
+  options: { idempotent?: boolean } = {}
+): ApiRoute {
+  return {
+    method,
+    path: `child/:childId${path}`,
+    idempotent: options.idempotent,
+    async handler(req, ctx) {
+      const child = await ctx.db.first<{ id: string }>(
+        'SELECT id FROM children WHERE id = ? AND user_id = ?',
+        req.params.childId,
+        req.user!.userId
+      )
+      if (!child) {
+        return apiError('Child not found', 404)
+      }
+      return await handler(req, ctx)
+    },
+  }
+}
+
+/** A positive whole number from the query string, capped at 100 */
+function parseLimit(value: string | null): number {
+  return Math.min(Math.max(parseInt(value || '') || 20, 1), 100)
+}
+
+function toLessonProgressState(row: ProgressRow): LessonProgressState {
+  return {
+    status: row.status,
+    score: row.score,
+    timeSpent: row.time_spent,
+    currentActivityIndex: row.current_activity_index,
+    clientUpdatedAt: row.client_updated_at,
+  }
+}
+
+function toActivityProgressState(row: ActivityProgressRow): ActivityProgressState {
+  return {
+    completed: row.completed === 1,
+    score: row.score,
+    attempts: row.attempts,
+    timeSpentSeconds: row.time_spent_seconds,
+    completedAt: row.completed_at,
+  }
+}
+
+function toReviewState(row: WordReviewRow): ReviewState {
+  return {
+    easeFactor: row.ease_factor,
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueAt: row.due_at,
+  }
+}
+
+async function findLessonProgress(ctx: ApiContext, childId: string, lessonId: string) {
+  return await ctx.db.first<ProgressRow>(
+    'SELECT * FROM progress WHERE child_id = ? AND lesson_id = ?',
+    childId,
+    lessonId
+  )
+}
+
+/**
+ * Merge an update into a child's lesson progress, creating the row if needed.
+ * Updates older than the last applied client write are ignored.
+ */
+async function saveLessonProgress(
+  ctx: ApiContext,
+  childId: string,
+  lessonId: string,
+  update: LessonProgressUpdate
+): Promise<ProgressRow> {
+  const existing = await findLessonProgress(ctx, childId, lessonId)
+
+  if (existing && isStaleUpdate(existing.client_updated_at, update.occurredAt)) {
+    return existing
+  }
+
+  const merged = mergeLessonProgress(existing ? toLessonProgressState(existing) : null, update)
+  const completing = update.status === 'completed' ? 1 : 0
+
+  if (existing) {
+    await ctx.db.run(`
+      UPDATE progress
+      SET status = ?,
+          score = ?,
+          time_spent = ?,
+          current_activity_index = ?,
+          client_updated_at = ?,
+          started_at = COALESCE(started_at, datetime('now')),
+          completed_at = CASE WHEN ? = 1 THEN datetime('now') ELSE completed_at END,
+          updated_at = datetime('now')
+      WHERE id = ?
+    `,
+      merged.status,
+      merged.score,
+      merged.timeSpent,
+      merged.currentActivityIndex,
+      merged.clientUpdatedAt,
+      completing,
+      existing.id
+    )
+  } else {
+    await ctx.db.run(`
+      INSERT INTO progress (
+        id, child_id, lesson_id, status, score, time_spent, current_activity_index,
+        client_updated_at, started_at, completed_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), CASE WHEN ? = 1 THEN datetime('now') END)
+    `,
+      crypto.randomUUID(),
+      childId,
+      lessonId,
+      merged.status,
+      merged.score,
+      merged.timeSpent,
+      merged.currentActivityIndex,
+      merged.clientUpdatedAt,
+      completing
+    )
+  }
+
+  return (await findLessonProgress(ctx, childId, lessonId))!
+}
+
+/**
+ * Whether a lesson is still locked for a child. The graph is the one the
+ * learning path is drawn from: published lessons the parent can see.
+ */
+async function isLessonLocked(ctx: ApiContext, userId: string, childId: string, lessonId: string): Promise<boolean> {
+  const lessons = await ctx.db.all<{ id: string; prerequisites: string | null }>(`
+    SELECT id, prerequisites FROM lessons
+    WHERE is_published = 1 AND (visibility = 'public' OR owner_id = ?)
+  `, userId)
+  const completed = await ctx.db.all<{ lesson_id: string }>(
+    "SELECT lesson_id FROM progress WHERE child_id = ? AND status = 'completed'",
+    childId
+  )
+
+  const availability = getLessonAvailability(
+    lessons.map(row => ({ id: row.id, prerequisites: parsePrerequisites(row.prerequisites) })),
+    completed.map(row => row.lesson_id)
+  )
+  return availability[lessonId] === 'locked'
+}
+
+async function listLetterKnowledge(ctx: ApiContext, childId: string) {
+  return await ctx.db.all<LetterKnowledgeRow>(
+    'SELECT * FROM letter_knowledge WHERE child_id = ? ORDER BY letter',
+    childId
+  )
+}
+
+const LESSON = '/lesson/:lessonId'
+
+export const progressRoutes: ApiRoute[] = [
+  childRoute('GET', '', async (req, ctx) => {
+    const progress = await ctx.db.all<ProgressRow & { lesson_title?: string; subject?: string }>(`
+      SELECT p.*, l.title as lesson_title, l.subject
+      FROM progress p
+      LEFT JOIN lessons l ON p.lesson_id = l.id
+      WHERE p.child_id = ?
+      ORDER BY p.updated_at DESC
+    `, req.params.childId)
+
+    return json({ progress })
+  }),
+
+  childRoute('GET', LESSON, async (req, ctx) => {
+    const { childId, lessonId } = req.params
+    const progress = await findLessonProgress(ctx, childId, lessonId)
+
+    if (!progress) {
+      return json({
+        progress: {
+          childId,
+          lessonId,
+          status: 'not_started',
+          score: null,
+          timeSpent: 0,
+        },
+      })
+    }
+
+    return json({ progress })
+  }),
+
+  childRoute('POST', `${LESSON}/start`, async (req, ctx) => {
+    const parsed = parseOccurredAt(bodyFields(req).occurredAt)
+    if ('error' in parsed) {
+      return apiError(parsed.error, 400)
+    }
+    if (await isLessonLocked(ctx, req.user!.userId, req.params.childId, req.params.lessonId)) {
+      return apiError('Lesson is locked until its prerequisites are completed', 409)
+    }
+
+    const progress = await saveLessonProgress(ctx, req.params.childId, req.params.lessonId, {
+      status: 'in_progress',
+      occurredAt: parsed.occurredAt,
+    })
+
+    return json({ progress })
+  }, { idempotent: true }),
+
+  childRoute('POST', `${LESSON}/complete`, async (req, ctx) => {
+    const { score, timeSpent, occurredAt } = bodyFields(req) as { score?: number; timeSpent?: number; occurredAt?: unknown }
+
+    const parsed = parseOccurredAt(occurredAt)
+    if ('error' in parsed) {
+      return apiError(parsed.error, 400)
+    }
+    if (await isLessonLocked(ctx, req.user!.userId, req.params.childId, req.params.lessonId)) {
+      return apiError('Lesson is locked until its prerequisites are completed', 409)
+    }
+
+    const progress = await saveLessonProgress(ctx, req.params.childId, req.params.lessonId, {
+      status: 'completed',
+      score: score ?? undefined,
+      timeSpent: timeSpent ?? undefined,
+      occurredAt: parsed.occurredAt,
+    })
+
+    return json({ progress })
+  }, { idempotent: true }),
+
+  childRoute('PUT', LESSON, async (req, ctx) => {
+    const { status, score, timeSpent, currentActivityIndex, occurredAt } = bodyFields(req) as {
+      status?: string
+      score?: number
+      timeSpent?: number
+      currentActivityIndex?: number
+      occurredAt?: unknown
+    }
+
+    const existing = await findLessonProgress(ctx, req.params.childId, req.params.lessonId)
+    if (!existing) {
+      return apiError('Progress record not found', 404)
+    }
+
+    const parsed = parseOccurredAt(occurredAt)
+    if ('error' in parsed) {
+      return apiError(parsed.error, 400)
+    }
+
+    const progress = await saveLessonProgress(ctx, req.params.childId, req.params.lessonId, {
+      status,
+      score,
+      timeSpent,
+      currentActivityIndex,
+      occurredAt: parsed.occurredAt,
+    })
+
+    return json({ progress })
+  }, { idempotent: true }),
+
+  childRoute('POST', `${LESSON}/activity`, async (req, ctx) => {
+    const { activityId, completed, score, attempts, timeSpentSeconds, currentActivityIndex, occurredAt } =
+      bodyFields(req) as {
+        activityId?: unknown
+        completed?: unknown
+        score?: number
+        attempts?: number
+        timeSpentSeconds?: number
+        currentActivityIndex?: unknown
+        occurredAt?: unknown
+      }
+    const { childId, lessonId } = req.params
+
+    if (!activityId || typeof activityId !== 'string') {
+      return apiError('activityId is required', 400)
+    }
+
+    const parsed = parseOccurredAt(occurredAt)
+    if ('error' in parsed) {
+      return apiError(parsed.error, 400)
+    }
+
+    const existing = await ctx.db.first<ActivityProgressRow>(
+      'SELECT * FROM activity_progress WHERE child_id = ? AND lesson_id = ? AND activity_id = ?',
+      childId,
+      lessonId,
+      activityId
+    )
+
+    const merged = mergeActivityProgress(existing ? toActivityProgressState(existing) : null, {
+      completed: completed === true,
+      score,
+      attempts,
+      timeSpentSeconds,
+      occurredAt: parsed.occurredAt,
+    })
+
+    if (existing) {
+      await ctx.db.run(`
+        UPDATE activity_progress
+        SET completed = ?, score = ?, attempts = ?, time_spent_seconds = ?, completed_at = ?,
+            updated_at = datetime('now')
+        WHERE child_id = ? AND lesson_id = ? AND activity_id = ?
+      `,
+        merged.completed ? 1 : 0,
+        merged.score,
+        merged.attempts,
+        merged.timeSpentSeconds,
+        merged.completedAt,
+        childId,
+        lessonId,
+        activityId
+      )
+    } else {
+      await ctx.db.run(`
+        INSERT INTO activity_progress (
+          id, child_id, lesson_id, activity_id, completed, score, attempts, time_spent_seconds, completed_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+        crypto.randomUUID(),
+        childId,
+        lessonId,
+        activityId,
+        merged.completed ? 1 : 0,
+        merged.score,
+        merged.attempts,
+        merged.timeSpentSeconds,
+        merged.completedAt
+      )
+    }
+
+    // Remember where to resume the lesson
+    if (typeof currentActivityIndex === 'number') {
+      await saveLessonProgress(ctx, childId, lessonId, {
+        status: 'in_progress',
+        currentActivityIndex,
+        occurredAt: parsed.occurredAt,
+      })
+    }
+
+    const activity = (await ctx.db.first<ActivityProgressRow>(
+      'SELECT * FROM activity_progress WHERE child_id = ? AND lesson_id = ? AND activity_id = ?',
+      childId,
+      lessonId,
+      activityId
+    ))!
+
+    return json({ activity: { ...activity, completed: activity.completed === 1 } })
+  }, { idempotent: true }),
+
+  childRoute('GET', `${LESSON}/activities`, async (req, ctx) => {
+    const activities = await ctx.db.all<ActivityProgressRow>(`
+      SELECT * FROM activity_progress
+      WHERE child_id = ? AND lesson_id = ?
+      ORDER BY created_at ASC, rowid ASC
+    `, req.params.childId, req.params.lessonId)
+
+    return json({ activities })
+  }),
+
+  childRoute('GET', '/summary', async (req, ctx) => {
+    const summary = await ctx.db.first<{
+      total_lessons: number
+      completed_lessons: number
+      in_progress_lessons: number
+      average_score: number | null
+      total_time_spent: number
+    }>(`
+      SELECT
+        COUNT(*) as total_lessons,
+        SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed_lessons,
+        SUM(CASE WHEN status = 'in_progress' THEN 1 ELSE 0 END) as in_progress_lessons,
+        AVG(CASE WHEN score IS NOT NULL THEN score END) as average_score,
+        SUM(time_spent) as total_time_spent
+      FROM progress WHERE child_id = ?
+    `, req.params.childId)
+
+    return json({ summary })
+  }),
+
+  /**
+   * Totals, per-subject results and badges for the progress dashboard
+   */
+  childRoute('GET', '/stats', async (req, ctx) => {
+    const overall = await ctx.db.first<{
+      total_lessons: number
+      completed_lessons: number
+      in_progress_lessons: number
+      average_score: number | null
+      total_time_seconds: number
+    }>(`
+      SELECT
+        COUNT(*) as total_lessons,
+        SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed_lessons,
+        SUM(CASE WHEN status = 'in_progress' THEN 1 ELSE 0 END) as in_progress_lessons,
+        AVG(CASE WHEN overall_score IS NOT NULL THEN overall_score END) as average_score,
+        SUM(time_spent) as total_time_seconds
+      FROM progress WHERE child_id = ?
+    `, req.params.childId)
+
+    const bySubject = await ctx.db.all<{
+      subject: string
+      lessons_started: number
+      lessons_completed: number
+      average_score: number | null
+    }>(`
+      SELECT
+        l.subject,
+        COUNT(*) as lessons_started,
+        SUM(CASE WHEN p.status = 'completed' THEN 1 ELSE 0 END) as lessons_completed,
+        AVG(CASE WHEN p.overall_score IS NOT NULL THEN p.overall_score END) as average_score
+      FROM progress p
+      JOIN lessons l ON p.lesson_id = l.id
+      WHERE p.child_id = ?
+      GROUP BY l.subject
+    `, req.params.childId)
+
+    const badges = []
+    if (overall && overall.completed_lessons >= 1) {
+      badges.push({ id: 'first-lesson', name: 'First Steps', description: 'Completed your first lesson!' })
+    }
+    if (overall && overall.completed_lessons >= 5) {
+      badges.push({ id: 'five-lessons', name: 'Getting Started', description: 'Completed 5 lessons!' })
+    }
+    if (overall && overall.completed_lessons >= 10) {
+      badges.push({ id: 'ten-lessons', name: 'Star Student', description: 'Completed 10 lessons!' })
+    }
+    if (overall && overall.average_score && overall.average_score >= 90) {
+      badges.push({ id: 'high-achiever', name: 'High Achiever', description: 'Average score of 90% or higher!' })
+    }
+    if (overall && overall.total_time_seconds >= 3600) {
+      badges.push({ id: 'dedicated', name: 'Dedicated Learner', description: 'Spent 1 hour learning!' })
+    }
+
+    return json({
+      stats: {
+        overall: overall || {
+          total_lessons: 0,
+          completed_lessons: 0,
+          in_progress_lessons: 0,
+          average_score: null,
+          total_time_seconds: 0,
+        },
+        bySubject,
+        badges,
+      },
+    })
+  }),
+
+  childRoute('GET', '/recent', async (req, ctx) => {
+    const recent = await ctx.db.all<ProgressRow & {
+      lesson_title: string
+      subject: string
+      thumbnail_url: string | null
+    }>(`
+      SELECT p.*, l.title as lesson_title, l.subject, l.thumbnail_url
+      FROM progress p
+      JOIN lessons l ON p.lesson_id = l.id
+      WHERE p.child_id = ?
+      ORDER BY p.updated_at DESC
+      LIMIT 10
+    `, req.params.childId)
+
+    return json({ recent })
+  }),
+
+  childRoute('GET', '/review-queue', async (req, ctx) => {
+    const limit = parseLimit(req.query.get('limit'))
+    const now = new Date().toISOString()
+
+    const queue = await ctx.db.all<WordReviewRow>(`
+      SELECT * FROM word_reviews
+      WHERE child_id = ? AND due_at <= ?
+      ORDER BY due_at ASC
+      LIMIT ?
+    `, req.params.childId, now, limit)
+
+    const due = await ctx.db.first<{ count: number }>(
+      'SELECT COUNT(*) as count FROM word_reviews WHERE child_id = ? AND due_at <= ?',
+      req.params.childId,
+      now
+    )
+
+    return json({ queue, dueCount: due?.count ?? 0 })
+  }),
+
+  childRoute('POST', '/review', async (req, ctx) => {
+    const { word, correct, quality, game } = bodyFields(req) as {
+      word?: unknown
+      correct?: unknown
+      quality?: number
+      game?: string
+    }
+    const { childId } = req.params
+
+    if (typeof word !== 'string' || !word.trim() || typeof correct !== 'boolean') {
+      return apiError('word and correct are required', 400)
+    }
+
+    const normalizedWord = normalizeReviewWord(word)
+    const existing = await ctx.db.first<WordReviewRow>(
+      'SELECT * FROM word_reviews WHERE child_id = ? AND word = ?',
+      childId,
+      normalizedWord
+    )
+
+    const outcome = { correct, quality }
+    const next = scheduleReview(existing ? toReviewState(existing) : null, outcome)
+    const recalled = isReviewRecalled(outcome)
+
+    if (existing) {
+      await ctx.db.run(`
+        UPDATE word_reviews
+        SET ease_factor = ?,
+            interval_days = ?,
+            repetitions = ?,
+            lapses = ?,
+            correct_count = correct_count + ?,
+            incorrect_count = incorrect_count + ?,
+            last_game = COALESCE(?, last_game),
+            last_reviewed_at = datetime('now'),
+            due_at = ?,
+            updated_at = datetime('now')
+        WHERE id = ?
+      `,
+        next.easeFactor,
+        next.intervalDays,
+        next.repetitions,
+        next.lapses,
+        recalled ? 1 : 0,
+        recalled ? 0 : 1,
+        game ?? null,
+        next.dueAt,
+        existing.id
+      )
+    } else {
+      await ctx.db.run(`
+        INSERT INTO word_reviews (
+          id, child_id, word, ease_factor, interval_days, repetitions, lapses,
+          correct_count, incorrect_count, last_game, last_reviewed_at, due_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), ?)
+      `,
+        crypto.randomUUID(),
+        childId,
+        normalizedWord,
+        next.easeFactor,
+        next.intervalDays,
+        next.repetitions,
+        next.lapses,
+        recalled ? 1 : 0,
+        recalled ? 0 : 1,
+        game ?? null,
+        next.dueAt
+      )
+    }
+
+    const review = await ctx.db.first<WordReviewRow>(
+      'SELECT * FROM word_reviews WHERE child_id = ? AND word = ?',
+      childId,
+      normalizedWord
+    )
+
+    return json({ review, mastered: isReviewMastered(next) })
+  }),
+
+  childRoute('GET', '/letter-knowledge', async (req, ctx) => {
+    return json({ letters: await listLetterKnowledge(ctx, req.params.childId) })
+  }),
+
+  /**
+   * Add letter hunt answers to the per-letter counts
+   */
+  childRoute('POST', '/letter-knowledge', async (req, ctx) => {
+    const parsed = parseLetterAttempts(req.body)
+    if ('error' in parsed) {
+      return apiError(parsed.error, 400)
+    }
+
+    await ctx.db.batch(tallyLetterAttempts(parsed.attempts).map(tally => statement(`
+      INSERT INTO letter_knowledge (
+        id, child_id, letter, name_correct, name_attempts, sound_correct, sound_attempts, last_assessed_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      ON CONFLICT(child_id, letter) DO UPDATE SET
+        name_correct = name_correct + excluded.name_correct,
+        name_attempts = name_attempts + excluded.name_attempts,
+        sound_correct = sound_correct + excluded.sound_correct,
+        sound_attempts = sound_attempts + excluded.sound_attempts,
+        last_assessed_at = excluded.last_assessed_at,
+        updated_at = datetime('now')
+    `,
+      crypto.randomUUID(),
+      req.params.childId,
+      tally.letter,
+      tally.nameCorrect,
+      tally.nameAttempts,
+      tally.soundCorrect,
+      tally.soundAttempts
+    )))
+
+    return json({ letters: await listLetterKnowledge(ctx, req.params.childId) })
+  }),
+
+  /**
+   * Record a finished (or abandoned) game session with its events
+   */
+  childRoute('POST', '/game-session', async (req, ctx) => {
+    const parsed = parseGameSessionInput(req.body)
+    if ('error' in parsed) {
+      return apiError(parsed.error, 400)
+    }
+
+    const { session } = parsed
+    const { childId } = req.params
+    const sessionId = crypto.randomUUID()
+
+    await ctx.db.batch([
+      statement(`
+        INSERT INTO game_sessions (
+          id, child_id, game, started_at, ended_at, duration_seconds, score,
+          max_streak, items_attempted, items_correct, completed
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+        sessionId,
+        childId,
+        session.game,
+        session.startedAt,
+        session.endedAt,
+        session.durationSeconds,
+        session.score,
+        session.maxStreak,
+        session.itemsAttempted,
+        session.itemsCorrect,
+        session.completed ? 1 : 0
+      ),
+      ...session.events.map(event => statement(`
+        INSERT INTO game_events (
+          id, session_id, child_id, item, outcome, attempts, latency_ms, hints_used, occurred_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+        crypto.randomUUID(),
+        sessionId,
+        childId,
+        event.item,
+        event.outcome,
+        event.attempts,
+        event.latencyMs,
+        event.hintsUsed,
+        event.occurredAt
+      )),
+    ])
+
+    const created = (await ctx.db.first<GameSessionRow>('SELECT * FROM game_sessions WHERE id = ?', sessionId))!
+
+    return json({ session: { ...created, completed: Boolean(created.completed) } }, 201)
+  }),
+
+  childRoute('GET', '/game-sessions', async (req, ctx) => {
+    const game = req.query.get('game')
+    if (game !== null && !GAME_TYPES.includes(game as GameType)) {
+      return apiError(`game must be one of ${GAME_TYPES.join(', ')}`, 400)
+    }
+
+    const limit = parseLimit(req.query.get('limit'))
+
+    const sessions = game
+      ? await ctx.db.all<GameSessionRow>(`
+          SELECT * FROM game_sessions WHERE child_id = ? AND game = ?
+          ORDER BY started_at DESC LIMIT ?
+        `, req.params.childId, game, limit)
+      : await ctx.db.all<GameSessionRow>(`
+          SELECT * FROM game_sessions WHERE child_id = ?
+          ORDER BY started_at DESC LIMIT ?
+        `, req.params.childId, limit)
+
+    return json({ sessions: sessions.map(s => ({ ...s, completed: Boolean(s.completed) })) })
+  }),
+
+  childRoute('GET', '/game-session/:sessionId', async (req, ctx) => {
+    const session = await ctx.db.first<GameSessionRow>(
+      'SELECT * FROM game_sessions WHERE id = ? AND child_id = ?',
+      req.params.sessionId,
+      req.params.childId
+    )
+
+    if (!session) {
+      return apiError('Game session not found', 404)
+    }
+
+    const events = await ctx.db.all<GameEventRow>(
+      'SELECT * FROM game_events WHERE session_id = ? ORDER BY rowid ASC',
+      session.id
+    )
+
+    return json({ session: { ...session, completed: Boolean(session.completed) }, events })
+  }),
+]
@@ -0,0 +1,31 @@
+import type Database from 'better-sqlite3'
+import type { ApiDatabase } from './core.js'
+
+/**
+ * ApiDatabase over better-sqlite3. The calls are synchronous underneath;
+ * batches run inside a better-sqlite3 transaction.
+ */
+export function createSqliteDatabase(db: Database.Database): ApiDatabase {
+  return {
+    async first<T>(sql: string, ...params: unknown[]) {
+      return (db.prepare(sql).get(...params) as T | undefined) ?? null
+    },
+
+    async all<T>(sql: string, ...params: unknown[]) {
+      return db.prepare(sql).all(...params) as T[]
+    },
+
+    async run(sql: string, ...params: unknown[]) {
+      const result = db.prepare(sql).run(...params)
+      return { changes: result.changes }
+    },
+
+    async batch(statements) {
+      db.transaction(() => {
+        for (const { sql, params } of statements) {
+          db.prepare(sql).run(...params)
+        }
+      })()
+    },
+  }
+}
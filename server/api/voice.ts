@@ -0,0 +1,344 @@
+/**
+ * /api/voice routes: voices, parent voice cloning, text to speech, speech to
+ * text and pronunciation checks. Settings are in voiceSettings.ts.
+ */
+
+import {
+  json,
+  apiError,
+  bodyFields,
+  type ApiContext,
+  type ApiResponse,
+  type ApiRoute,
+  type RouteHandler,
+  type RouteRequest,
+} from './core.js'
+import {
+  VoiceServiceUnavailableError,
+  VoiceSettingsValidationFailedError,
+  type TextToSpeechOptions,
+  type VoiceService,
+} from '../services/voice.js'
+import { scorePronunciation, getPhonemeHint, parsePhonemes } from '../services/pronunciationScoring.js'
+import { TTS_CACHE_STATUS_HEADER, TTS_CACHE_KEY_HEADER } from '../services/ttsCache.js'
+import { encodeBase64 } from '../services/speechProvider.js'
+import { toSpokenWords } from '../services/speechAlignment.js'
+import { validateVoiceClone } from '../services/voiceCloning.js'
+import { PARENT_CLONE_LABELS } from '../../src/types/voiceCloning.js'
+
+type VoiceHandler = (req: RouteRequest, ctx: ApiContext, voice: VoiceService) => Promise<ApiResponse>
+
+interface SpeechInput extends Partial<TextToSpeechOptions> {
+  timestamps?: boolean
+}
+
+function voiceUnavailable(details?: string): ApiResponse {
+  return json({
+    error: 'Voice service unavailable',
+    message: 'Voice features are not configured. Please set ELEVENLABS_API_KEY or SPEECH_PROVIDER=local.',
+    ...(details && { details }),
+  }, 503)
+}
+
+/**
+ * A handler that is given the speech service and answers its errors: 503
+ * when it is not configured, 400 for invalid voice settings, otherwise 500
+ */
+function withVoice(action: string, handler: VoiceHandler): RouteHandler {
+  return async (req, ctx) => {
+    let voice: VoiceService
+    try {
+      voice = ctx.voice()
+    } catch (error) {
+      // e.g. an unknown SPEECH_PROVIDER
+      return voiceUnavailable(error instanceof Error ? error.message : String(error))
+    }
+
+    try {
+      return await handler(req, ctx, voice)
+    } catch (error) {
+      if (error instanceof VoiceServiceUnavailableError) {
+        return voiceUnavailable()
+      }
+      if (error instanceof VoiceSettingsValidationFailedError) {
+        return json({ error: 'Invalid voice settings', validationErrors: error.errors }, 400)
+      }
+      console.error(`Failed to ${action}:`, error)
+      return apiError(`Failed to ${action}`, 500)
+    }
+  }
+}
+
+/**
+ * Voice ids cloned by other families, which this user must not see or use
+ */
+async function getOtherFamiliesVoiceIds(ctx: ApiContext, userId: string | undefined): Promise<Set<string>> {
+  const rows = await ctx.db.all<{ voice_id: string }>(
+    'SELECT voice_id FROM cloned_voices WHERE user_id != ?',
+    userId ?? ''
+  )
+  return new Set(rows.map(row => row.voice_id))
+}
+
+/**
+ * Whether a voice was cloned by another family. Their voices are private, so
+ * this user can neither look them up nor speak with them.
+ */
+async function isOtherFamiliesVoice(ctx: ApiContext, voiceId: string, userId: string | undefined): Promise<boolean> {
+  const row = await ctx.db.first('SELECT 1 FROM cloned_voices WHERE voice_id = ? AND user_id != ?', voiceId, userId ?? '')
+  return Boolean(row)
+}
+
+/** The text to speak, or the reply when it is missing or in another family's voice */
+async function speechRequest(
+  req: RouteRequest,
+  ctx: ApiContext
+): Promise<{ options: TextToSpeechOptions; timestamps: boolean } | { error: ApiResponse }> {
+  const { voiceId, text, modelId, voiceSettings, outputFormat, timestamps } = bodyFields(req) as SpeechInput
+
+  if (!text) {
+    return { error: apiError('text is required', 400) }
+  }
+  if (voiceId && await isOtherFamiliesVoice(ctx, voiceId, req.user?.userId)) {
+    return { error: apiError('Not allowed to use this voice', 403) }
+  }
+
+  return {
+    options: { voiceId: voiceId ?? '', text, modelId, voiceSettings, outputFormat },
+    timestamps: Boolean(timestamps),
+  }
+}
+
+function cacheHeaders(speech: { cacheHit: boolean; cacheKey: string }): Record<string, string> {
+  return {
+    [TTS_CACHE_STATUS_HEADER]: speech.cacheHit ? 'HIT' : 'MISS',
+    [TTS_CACHE_KEY_HEADER]: speech.cacheKey,
+  }
+}
+
+// Positive feedback messages for correct pronunciation
+function getPositiveFeedback(): string {
+  const messages = [
+    'Great job!',
+    'Perfect!',
+    'You said it!',
+    'Excellent!',
+    'Wonderful!',
+    'Amazing!',
+  ]
+  return messages[Math.floor(Math.random() * messages.length)]
+}
+
+// Encouraging feedback for incorrect pronunciation
+function getEncouragingFeedback(word: string): string {
+  const messages = [
+    `Try again! Say "${word}"`,
+    `Almost! Try saying "${word}" again`,
+    `Good try! Can you say "${word}"?`,
+    `Let's try "${word}" one more time!`,
+  ]
+  return messages[Math.floor(Math.random() * messages.length)]
+}
+
+export const voiceRoutes: ApiRoute[] = [
+  {
+    method: 'GET',
+    path: 'voices',
+    optionalAuth: true,
+    handler: withVoice('list voices', async (req, ctx, voice) => {
+      const voices = await voice.listVoices()
+      const hidden = await getOtherFamiliesVoiceIds(ctx, req.user?.userId)
+      return json({ voices: voices.filter(v => !hidden.has(v.voiceId)) })
+    }),
+  },
+
+  // Clone a parent's voice from recorded sample sentences
+  {
+    method: 'POST',
+    path: 'voices/clone',
+    handler: withVoice('clone voice', async (req, ctx, voice) => {
+      const samples = req.files.samples ?? []
+      const { name, consent } = bodyFields(req)
+
+      const errors = validateVoiceClone({ name, consent, sampleCount: samples.length })
+      if (errors.length > 0) {
+        return json({ error: 'Invalid voice clone request', validationErrors: errors }, 400)
+      }
+
+      const voiceName = (name as string).trim()
+      const { voiceId } = await voice.cloneVoice({
+        name: voiceName,
+        files: samples,
+        description: 'Recorded by a parent in Settings',
+        labels: PARENT_CLONE_LABELS,
+      })
+
+      await ctx.db.run(`
+        INSERT INTO cloned_voices (id, user_id, voice_id, name, consented_at)
+        VALUES (?, ?, ?, ?, datetime('now'))
+      `, crypto.randomUUID(), req.user!.userId, voiceId, voiceName)
+
+      return json({ voice: { voiceId, name: voiceName, category: 'cloned' } }, 201)
+    }),
+  },
+
+  {
+    method: 'GET',
+    path: 'voices/:voiceId',
+    optionalAuth: true,
+    handler: withVoice('get voice', async (req, ctx, voice) => {
+      if (await isOtherFamiliesVoice(ctx, req.params.voiceId, req.user?.userId)) {
+        return apiError('Voice not found', 404)
+      }
+
+      const found = await voice.getVoice(req.params.voiceId)
+      return found ? json(found) : apiError('Voice not found', 404)
+    }),
+  },
+
+  {
+    method: 'DELETE',
+    path: 'voices/:voiceId',
+    handler: withVoice('delete voice', async (req, ctx, voice) => {
+      const { voiceId } = req.params
+
+      // Parents can only remove voices they cloned themselves, never the
+      // account's premade voices or another family's
+      const ownClone = await ctx.db.first(
+        'SELECT 1 FROM cloned_voices WHERE voice_id = ? AND user_id = ?',
+        voiceId,
+        req.user!.userId
+      )
+      if (!ownClone) {
+        return apiError('Voice not found', 404)
+      }
+
+      const success = await voice.deleteVoice(voiceId)
+      if (!success) {
+        return apiError('Voice not found or could not be deleted', 404)
+      }
+      await ctx.db.run('DELETE FROM cloned_voices WHERE voice_id = ?', voiceId)
+      return json({ success: true })
+    }),
+  },
+
+  // With `timestamps: true` the reply is JSON holding the base64 audio, the
+  // character alignment and the spoken words' times
+  {
+    method: 'POST',
+    path: 'tts',
+    optionalAuth: true,
+    handler: withVoice('convert text to speech', async (req, ctx, voice) => {
+      const speech = await speechRequest(req, ctx)
+      if ('error' in speech) {
+        return speech.error
+      }
+
+      if (speech.timestamps) {
+        const timed = await voice.synthesizeSpeechWithTimestamps(speech.options)
+        return {
+          status: 200,
+          headers: cacheHeaders(timed),
+          body: {
+            audio: encodeBase64(timed.audio),
+            contentType: timed.contentType,
+            alignment: timed.alignment,
+            words: toSpokenWords(timed.alignment),
+          },
+        }
+      }
+
+      const synthesized = await voice.synthesizeSpeech(speech.options)
+      return {
+        status: 200,
+        headers: { 'Content-Type': synthesized.contentType, ...cacheHeaders(synthesized) },
+        body: synthesized.audio,
+      }
+    }),
+  },
+
+  {
+    method: 'POST',
+    path: 'tts/stream',
+    optionalAuth: true,
+    handler: withVoice('stream text to speech', async (req, ctx, voice) => {
+      const speech = await speechRequest(req, ctx)
+      if ('error' in speech) {
+        return speech.error
+      }
+
+      const streamed = await voice.streamSpeech(speech.options)
+      return {
+        status: 200,
+        headers: { 'Content-Type': streamed.contentType, ...cacheHeaders(streamed) },
+        body: streamed.stream,
+      }
+    }),
+  },
+
+  {
+    method: 'POST',
+    path: 'stt',
+    public: true,
+    handler: withVoice('transcribe speech', async (req, _ctx, voice) => {
+      const [audio] = req.files.audio ?? []
+      if (!audio) {
+        return apiError('audio file is required', 400)
+      }
+
+      const result = await voice.speechToText({ file: audio, timestampsGranularity: 'word' })
+      return json({
+        text: result.text,
+        words: result.words,
+        languageCode: result.languageCode,
+        languageConfidence: result.languageConfidence,
+      })
+    }),
+  },
+
+  // An optional `phonemes` field (JSON array) supplies the word's known phonemes
+  {
+    method: 'POST',
+    path: 'pronunciation-check',
+    public: true,
+    handler: withVoice('check pronunciation', async (req, _ctx, voice) => {
+      const [audio] = req.files.audio ?? []
+      if (!audio) {
+        return apiError('audio file is required', 400)
+      }
+
+      const { expectedWord, phonemes } = bodyFields(req)
+      if (!expectedWord || typeof expectedWord !== 'string') {
+        return apiError('expectedWord is required', 400)
+      }
+
+      const result = await voice.speechToText({ file: audio, timestampsGranularity: 'word' })
+
+      // Align the transcript against the word's phonemes so feedback can name the missed sound
+      const score = scorePronunciation(result.text, expectedWord, { phonemes: parsePhonemes(phonemes) })
+      const { isCorrect } = score
+
+      // Calculate confidence based on word-level confidences
+      const wordConfidences = result.words
+        .filter((w) => w.type === 'word')
+        .map((w) => w.confidence)
+      const avgConfidence =
+        wordConfidences.length > 0
+          ? wordConfidences.reduce((a, b) => a + b, 0) / wordConfidences.length
+          : 0
+
+      return json({
+        isCorrect,
+        transcribed: result.text,
+        expected: expectedWord,
+        confidence: avgConfidence,
+        phonemes: score.phonemes,
+        insertedPhonemes: score.insertedPhonemes,
+        accuracy: score.accuracy,
+        feedback: isCorrect
+          ? getPositiveFeedback()
+          : getPhonemeHint(expectedWord, score) ?? getEncouragingFeedback(expectedWord),
+      })
+    }),
+  },
+]
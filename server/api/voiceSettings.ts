@@ -0,0 +1,143 @@
+/**
+ * /api/voice/settings routes: the voice and speech settings each child hears
+ */
+
+import { json, bodyFields, type ApiContext, type ApiRoute } from './core.js'
+
+interface VoiceSettingsRow {
+  id: string
+  child_id: string
+  voice_id: string
+  stability: number
+  similarity_boost: number
+  style: number
+  speed: number
+  use_speaker_boost: number
+  created_at: string
+  updated_at: string
+}
+
+interface VoiceSettingsInput {
+  voiceId?: string
+  stability?: number
+  similarityBoost?: number
+  style?: number
+  speed?: number
+  useSpeakerBoost?: boolean
+}
+
+// For children whose settings were never saved
+const DEFAULT_SETTINGS = {
+  voiceId: 'pMsXgVXv3BLzUgSXRplE',
+  stability: 0.5,
+  similarityBoost: 0.75,
+  style: 0,
+  speed: 1.0,
+  useSpeakerBoost: true,
+}
+
+async function settingsResponse(ctx: ApiContext, childId: string) {
+  const row = await ctx.db.first<VoiceSettingsRow>('SELECT * FROM voice_settings WHERE child_id = ?', childId)
+  if (!row) {
+    return json(DEFAULT_SETTINGS)
+  }
+
+  return json({
+    voiceId: row.voice_id,
+    stability: row.stability,
+    similarityBoost: row.similarity_boost,
+    style: row.style,
+    speed: row.speed,
+    useSpeakerBoost: row.use_speaker_boost === 1,
+  })
+}
+
+export const voiceSettingsRoutes: ApiRoute[] = [
+  {
+    method: 'GET',
+    path: ':childId',
+    public: true,
+    async handler(req, ctx) {
+      return await settingsResponse(ctx, req.params.childId)
+    },
+  },
+
+  {
+    method: 'PUT',
+    path: ':childId',
+    public: true,
+    async handler(req, ctx) {
+      const { childId } = req.params
+      const { voiceId, stability, similarityBoost, style, speed, useSpeakerBoost } = bodyFields(req) as VoiceSettingsInput
+
+      const errors: Array<{ field: string; message: string }> = []
+
+      if (stability !== undefined && (stability < 0 || stability > 1)) {
+        errors.push({ field: 'stability', message: 'stability must be between 0 and 1' })
+      }
+      if (similarityBoost !== undefined && (similarityBoost < 0 || similarityBoost > 1)) {
+        errors.push({ field: 'similarityBoost', message: 'similarityBoost must be between 0 and 1' })
+      }
+      if (style !== undefined && (style < 0 || style > 1)) {
+        errors.push({ field: 'style', message: 'style must be between 0 and 1' })
+      }
+      if (speed !== undefined && (speed < 0.5 || speed > 2.0)) {
+        errors.push({ field: 'speed', message: 'speed must be between 0.5 and 2.0' })
+      }
+      if (voiceId !== undefined) {
+        const otherFamilyClone = await ctx.db.first(`
+          SELECT 1 FROM cloned_voices
+          WHERE voice_id = ? AND user_id != COALESCE((SELECT user_id FROM children WHERE id = ?), '')
+        `, voiceId, childId)
+        if (otherFamilyClone) {
+          errors.push({ field: 'voiceId', message: 'voiceId belongs to another family' })
+        }
+      }
+
+      if (errors.length > 0) {
+        return json({ error: 'Invalid voice settings', validationErrors: errors }, 400)
+      }
+
+      const speakerBoost = useSpeakerBoost !== undefined ? (useSpeakerBoost ? 1 : 0) : null
+      const existing = await ctx.db.first('SELECT id FROM voice_settings WHERE child_id = ?', childId)
+
+      if (existing) {
+        await ctx.db.run(`
+          UPDATE voice_settings SET
+            voice_id = COALESCE(?, voice_id),
+            stability = COALESCE(?, stability),
+            similarity_boost = COALESCE(?, similarity_boost),
+            style = COALESCE(?, style),
+            speed = COALESCE(?, speed),
+            use_speaker_boost = COALESCE(?, use_speaker_boost),
+            updated_at = datetime('now')
+          WHERE child_id = ?
+        `,
+          voiceId ?? null,
+          stability ?? null,
+          similarityBoost ?? null,
+          style ?? null,
+          speed ?? null,
+          speakerBoost,
+          childId
+        )
+      } else {
+        await ctx.db.run(`
+          INSERT INTO voice_settings (id, child_id, voice_id, stability, similarity_boost, style, speed, use_speaker_boost)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+          crypto.randomUUID(),
+          childId,
+          voiceId ?? DEFAULT_SETTINGS.voiceId,
+          stability ?? DEFAULT_SETTINGS.stability,
+          similarityBoost ?? DEFAULT_SETTINGS.similarityBoost,
+          style ?? DEFAULT_SETTINGS.style,
+          speed ?? DEFAULT_SETTINGS.speed,
+          speakerBoost ?? 1
+        )
+      }
+
+      return await settingsResponse(ctx, childId)
+    },
+  },
+]
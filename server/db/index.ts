@@ -2,6 +2,7 @@ import Database from 'better-sqlite3'
 import { join, dirname } from 'path'
 import { fileURLToPath } from 'url'
 import { mkdirSync, existsSync, readFileSync, readdirSync } from 'fs'
+import { validateLessonContent, formatLessonValidationErrors } from '../services/lessonValidation.js'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 const dbDir = join(__dirname, '../../data')
@@ -20,7 +21,46 @@ export const db = new Database(dbPath)
 db.pragma('journal_mode = WAL')
 db.pragma('foreign_keys = ON')
 
+/**
+ * Add columns introduced after a table was first created. CREATE TABLE IF NOT
+ * EXISTS leaves existing databases untouched, so these are applied by hand.
+ */
+function addMissingColumns(table: string, columns: Record<string, string>) {
+  const existing = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]
+  if (existing.length === 0) return // New database; the table is created with every column
+
+  const names = new Set(existing.map(c => c.name))
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!names.has(name)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`)
+    }
+  }
+}
+
 export function initializeDb() {
+  addMissingColumns('children', {
+    reading_level: "TEXT CHECK(reading_level IN ('pre_reader', 'emerging', 'early', 'developing'))",
+    reading_assessment: 'TEXT',
+    reading_assessed_at: 'TEXT',
+    learning_style_profile: 'TEXT',
+    personality_profile: 'TEXT',
+    accessibility_settings: 'TEXT',
+    display_profile: 'TEXT',
+  })
+  addMissingColumns('lessons', {
+    owner_id: 'TEXT REFERENCES users(id) ON DELETE CASCADE',
+    visibility: "TEXT NOT NULL DEFAULT 'public' CHECK(visibility IN ('private', 'public'))",
+    branching: 'TEXT',
+    prerequisites: 'TEXT',
+    safety_flags: 'TEXT',
+    review_status: "TEXT CHECK(review_status IN ('pending', 'approved', 'rejected'))",
+    review_note: 'TEXT',
+    reviewed_by: 'TEXT REFERENCES users(id) ON DELETE SET NULL',
+    reviewed_at: 'TEXT',
+    // Already in the D1 schema (migrations/0002); the shared progress routes read it
+    thumbnail_url: 'TEXT',
+  })
+
   db.exec(`
     CREATE TABLE IF NOT EXISTS users (
       id TEXT PRIMARY KEY,
@@ -41,6 +81,13 @@ export function initializeDb() {
       grade_level TEXT,
       learning_style TEXT,
       interests TEXT,
+      reading_level TEXT CHECK(reading_level IN ('pre_reader', 'emerging', 'early', 'developing')),
+      reading_assessment TEXT,
+      reading_assessed_at TEXT,
+      learning_style_profile TEXT,
+      personality_profile TEXT,
+      accessibility_settings TEXT,
+      display_profile TEXT,
       created_at TEXT DEFAULT (datetime('now')),
       updated_at TEXT DEFAULT (datetime('now'))
     );
@@ -62,6 +109,9 @@ export function initializeDb() {
       status TEXT DEFAULT 'not_started',
       score INTEGER,
       time_spent INTEGER DEFAULT 0,
+      current_activity_index INTEGER DEFAULT 0,
+      overall_score REAL,
+      client_updated_at TEXT,
       started_at TEXT,
       completed_at TEXT,
       created_at TEXT DEFAULT (datetime('now')),
@@ -69,6 +119,30 @@ export function initializeDb() {
       UNIQUE(child_id, lesson_id)
     );
 
+    CREATE TABLE IF NOT EXISTS activity_progress (
+      id TEXT PRIMARY KEY,
+      child_id TEXT NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+      lesson_id TEXT NOT NULL,
+      activity_id TEXT NOT NULL,
+      completed INTEGER DEFAULT 0,
+      score INTEGER,
+      attempts INTEGER DEFAULT 0,
+      time_spent_seconds INTEGER DEFAULT 0,
+      completed_at TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(child_id, lesson_id, activity_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_mutations (
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      idempotency_key TEXT NOT NULL,
+      status_code INTEGER NOT NULL,
+      response TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (user_id, idempotency_key)
+    );
+
     CREATE TABLE IF NOT EXISTS lessons (
       id TEXT PRIMARY KEY,
       title TEXT NOT NULL,
@@ -83,11 +157,21 @@ export function initializeDb() {
       interests TEXT,
       objectives TEXT,
       activities TEXT,
+      branching TEXT,
+      prerequisites TEXT,
       materials TEXT,
       assessment_criteria TEXT,
       source TEXT DEFAULT 'curated' CHECK(source IN ('ai_generated', 'curated')),
       tags TEXT,
       is_published INTEGER DEFAULT 1,
+      owner_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+      visibility TEXT NOT NULL DEFAULT 'public' CHECK(visibility IN ('private', 'public')),
+      safety_flags TEXT,
+      review_status TEXT CHECK(review_status IN ('pending', 'approved', 'rejected')),
+      review_note TEXT,
+      reviewed_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+      reviewed_at TEXT,
+      thumbnail_url TEXT,
       created_at TEXT DEFAULT (datetime('now')),
       updated_at TEXT DEFAULT (datetime('now'))
     );
@@ -130,17 +214,105 @@ export function initializeDb() {
       updated_at TEXT DEFAULT (datetime('now'))
     );
 
+    CREATE TABLE IF NOT EXISTS cloned_voices (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      voice_id TEXT UNIQUE NOT NULL,
+      name TEXT NOT NULL,
+      consented_at TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS ai_usage (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL NOT NULL DEFAULT 0,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS word_reviews (
+      id TEXT PRIMARY KEY,
+      child_id TEXT NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+      word TEXT NOT NULL,
+      ease_factor REAL DEFAULT 2.5,
+      interval_days INTEGER DEFAULT 0,
+      repetitions INTEGER DEFAULT 0,
+      lapses INTEGER DEFAULT 0,
+      correct_count INTEGER DEFAULT 0,
+      incorrect_count INTEGER DEFAULT 0,
+      last_game TEXT,
+      last_reviewed_at TEXT,
+      due_at TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(child_id, word)
+    );
+
+    CREATE TABLE IF NOT EXISTS letter_knowledge (
+      id TEXT PRIMARY KEY,
+      child_id TEXT NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+      letter TEXT NOT NULL,
+      name_correct INTEGER DEFAULT 0,
+      name_attempts INTEGER DEFAULT 0,
+      sound_correct INTEGER DEFAULT 0,
+      sound_attempts INTEGER DEFAULT 0,
+      last_assessed_at TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(child_id, letter)
+    );
+
+    CREATE TABLE IF NOT EXISTS game_sessions (
+      id TEXT PRIMARY KEY,
+      child_id TEXT NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+      game TEXT NOT NULL CHECK(game IN ('spelling', 'memory', 'rhyme', 'builder', 'phonics', 'readaloud')),
+      started_at TEXT NOT NULL,
+      ended_at TEXT,
+      duration_seconds INTEGER DEFAULT 0,
+      score INTEGER,
+      max_streak INTEGER DEFAULT 0,
+      items_attempted INTEGER DEFAULT 0,
+      items_correct INTEGER DEFAULT 0,
+      completed INTEGER DEFAULT 0,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS game_events (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL REFERENCES game_sessions(id) ON DELETE CASCADE,
+      child_id TEXT NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+      item TEXT NOT NULL,
+      outcome TEXT NOT NULL CHECK(outcome IN ('correct', 'incorrect', 'skipped')),
+      attempts INTEGER DEFAULT 1,
+      latency_ms INTEGER,
+      hints_used INTEGER DEFAULT 0,
+      occurred_at TEXT,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
     CREATE INDEX IF NOT EXISTS idx_children_user ON children(user_id);
     CREATE INDEX IF NOT EXISTS idx_progress_child ON progress(child_id);
     CREATE INDEX IF NOT EXISTS idx_progress_lesson ON progress(lesson_id);
+    CREATE INDEX IF NOT EXISTS idx_activity_progress_child_lesson ON activity_progress(child_id, lesson_id);
     CREATE INDEX IF NOT EXISTS idx_lessons_subject ON lessons(subject);
     CREATE INDEX IF NOT EXISTS idx_lessons_difficulty ON lessons(difficulty);
     CREATE INDEX IF NOT EXISTS idx_lessons_age ON lessons(age_min, age_max);
     CREATE INDEX IF NOT EXISTS idx_lessons_source ON lessons(source);
+    CREATE INDEX IF NOT EXISTS idx_lessons_owner ON lessons(owner_id);
+    CREATE INDEX IF NOT EXISTS idx_lessons_review ON lessons(review_status);
     CREATE INDEX IF NOT EXISTS idx_lesson_ratings_lesson ON lesson_ratings(lesson_id);
     CREATE INDEX IF NOT EXISTS idx_lesson_engagement_lesson ON lesson_engagement(lesson_id);
     CREATE INDEX IF NOT EXISTS idx_lesson_engagement_child ON lesson_engagement(child_id);
     CREATE INDEX IF NOT EXISTS idx_voice_settings_child ON voice_settings(child_id);
+    CREATE INDEX IF NOT EXISTS idx_cloned_voices_user ON cloned_voices(user_id);
+    CREATE INDEX IF NOT EXISTS idx_ai_usage_user ON ai_usage(user_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_word_reviews_due ON word_reviews(child_id, due_at);
+    CREATE INDEX IF NOT EXISTS idx_game_sessions_child ON game_sessions(child_id, started_at);
+    CREATE INDEX IF NOT EXISTS idx_game_events_session ON game_events(session_id);
 
     -- Full-text search virtual table for lessons
     CREATE VIRTUAL TABLE IF NOT EXISTS lessons_fts USING fts5(
@@ -193,6 +365,8 @@ interface SeedLesson {
   durationMinutes?: number
   objectives?: string[]
   activities?: unknown[]
+  branching?: unknown
+  prerequisites?: string[]
   tags?: string[]
   ageRange?: { min: number; max: number }
 }
@@ -216,9 +390,9 @@ export function seedLessons() {
     INSERT INTO lessons (
       id, title, subject, description, difficulty,
       duration_minutes, age_min, age_max, objectives,
-      activities, tags, source, is_published
+      activities, branching, prerequisites, tags, source, is_published
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'curated', 1)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'curated', 1)
   `)
 
   // Map frontend difficulty values to database values
@@ -235,6 +409,11 @@ export function seedLessons() {
     try {
       const content = readFileSync(join(lessonsDir, file), 'utf-8')
       const lesson: SeedLesson = JSON.parse(content)
+      const validationErrors = validateLessonContent(lesson)
+      if (validationErrors.length > 0) {
+        console.error(`Skipping invalid lesson ${file}:\n${formatLessonValidationErrors(validationErrors)}`)
+        continue
+      }
       const difficulty = lesson.difficulty ? difficultyMap[lesson.difficulty] || lesson.difficulty : null
 
       insertStmt.run(
@@ -248,6 +427,8 @@ export function seedLessons() {
         lesson.ageRange?.max || null,
         lesson.objectives ? JSON.stringify(lesson.objectives.map(o => ({ description: o }))) : null,
         lesson.activities ? JSON.stringify(lesson.activities) : null,
+        lesson.branching ? JSON.stringify(lesson.branching) : null,
+        lesson.prerequisites ? JSON.stringify(lesson.prerequisites) : null,
         lesson.tags ? JSON.stringify(lesson.tags) : null
       )
       console.log(`Seeded lesson: ${lesson.title}`)
@@ -62,3 +62,26 @@ export function optionalAuthMiddleware(
 
   next()
 }
+
+/**
+ * Admins are listed by email in ADMIN_EMAILS, separated by commas
+ */
+export function isAdmin(user: JwtPayload | undefined): boolean {
+  if (!user) return false
+  const admins = (process.env.ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase())
+  return admins.includes(user.email.toLowerCase())
+}
+
+export function adminMiddleware(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) {
+  authMiddleware(req, res, () => {
+    if (!isAdmin(req.user)) {
+      res.status(403).json({ error: 'Admin access required' })
+      return
+    }
+    next()
+  })
+}
@@ -100,6 +100,218 @@ describe('Children Routes', () => {
     })
   })
 
+  describe('PUT /children/:id/reading-level', () => {
+    let childId: string
+
+    beforeEach(async () => {
+      const res = await request(app)
+        .post('/children')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Reader', age: 5 })
+      childId = res.body.child.id
+    })
+
+    it('should save the placement and its results', async () => {
+      const results = [
+        { level: 'pre_reader', correct: 5, total: 5 },
+        { level: 'emerging', correct: 2, total: 5 },
+      ]
+      const res = await request(app)
+        .put(`/children/${childId}/reading-level`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ level: 'pre_reader', results })
+
+      expect(res.status).toBe(200)
+      expect(res.body.child.reading_level).toBe('pre_reader')
+      expect(res.body.child.reading_assessment).toEqual(results)
+      expect(res.body.child.reading_assessed_at).toBeTruthy()
+
+      const listRes = await request(app)
+        .get('/children')
+        .set('Authorization', `Bearer ${token}`)
+      expect(listRes.body.children[0].reading_level).toBe('pre_reader')
+    })
+
+    it('should reject unknown levels and malformed results', async () => {
+      const badLevel = await request(app)
+        .put(`/children/${childId}/reading-level`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ level: 'grade_3' })
+      expect(badLevel.status).toBe(400)
+
+      const badResults = await request(app)
+        .put(`/children/${childId}/reading-level`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ level: 'early', results: [{ level: 'early', correct: 9, total: 5 }] })
+      expect(badResults.status).toBe(400)
+    })
+
+    it('should not save another family\'s child', async () => {
+      const other = await request(app)
+        .post('/auth/register')
+        .send({ email: 'other@example.com', password: 'password123', name: 'Other Parent' })
+
+      const res = await request(app)
+        .put(`/children/${childId}/reading-level`)
+        .set('Authorization', `Bearer ${other.body.token}`)
+        .send({ level: 'early' })
+
+      expect(res.status).toBe(404)
+    })
+  })
+
+  describe('PUT /children/:id/learning-profile', () => {
+    let childId: string
+
+    // Nine visual, three auditory and three kinesthetic answers
+    const learningStyleAnswers = Object.fromEntries(
+      Array.from({ length: 15 }, (_, i) => {
+        const id = `vak-${String(i + 1).padStart(3, '0')}`
+        return [id, `${id}-${i < 9 ? 'v' : i < 12 ? 'a' : 'k'}`]
+      })
+    )
+    const personalityAnswers = { 'pers-001': 'pers-001-b', 'pers-002': 'pers-002-a' }
+
+    beforeEach(async () => {
+      const res = await request(app)
+        .post('/children')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Mia', age: 5 })
+      childId = res.body.child.id
+    })
+
+    it('should score the answers and save the profiles', async () => {
+      const res = await request(app)
+        .put(`/children/${childId}/learning-profile`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ learningStyleAnswers, personalityAnswers })
+
+      expect(res.status).toBe(200)
+      expect(res.body.child.learning_style).toBe('visual')
+      expect(res.body.child.learning_style_profile).toMatchObject({
+        visual: 60,
+        auditory: 20,
+        kinesthetic: 20,
+        profileLabel: 'Visual Learner',
+      })
+      expect(res.body.child.personality_profile).toMatchObject({ learning_approach: 0.5, persistence: 0.75 })
+    })
+
+    it('should reject unanswered learning style questions', async () => {
+      const unfinished = { ...learningStyleAnswers }
+      delete unfinished['vak-015']
+      const res = await request(app)
+        .put(`/children/${childId}/learning-profile`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ learningStyleAnswers: unfinished, personalityAnswers })
+
+      expect(res.status).toBe(400)
+    })
+
+    it('should reject unknown personality answers', async () => {
+      const res = await request(app)
+        .put(`/children/${childId}/learning-profile`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ learningStyleAnswers, personalityAnswers: { 'pers-001': 'nope' } })
+
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('PUT /children/:id/accessibility', () => {
+    let childId: string
+
+    beforeEach(async () => {
+      const res = await request(app)
+        .post('/children')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Sam', age: 6 })
+      childId = res.body.child.id
+    })
+
+    it('should save the settings', async () => {
+      const res = await request(app)
+        .put(`/children/${childId}/accessibility`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ inputMode: 'scan', scanIntervalMs: 2000, announcePlacements: true })
+
+      expect(res.status).toBe(200)
+      expect(res.body.child.accessibility_settings).toEqual({
+        inputMode: 'scan',
+        scanIntervalMs: 2000,
+        announcePlacements: true,
+      })
+    })
+
+    it('should reject an unknown input mode', async () => {
+      const res = await request(app)
+        .put(`/children/${childId}/accessibility`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ inputMode: 'voice', scanIntervalMs: 2000, announcePlacements: true })
+
+      expect(res.status).toBe(400)
+    })
+
+    it('should reject a scan speed out of range', async () => {
+      const res = await request(app)
+        .put(`/children/${childId}/accessibility`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ inputMode: 'scan', scanIntervalMs: 100, announcePlacements: true })
+
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('PUT /children/:id/display-profile', () => {
+    let childId: string
+    const profile = {
+      dyslexiaFont: true,
+      letterSpacing: 'wide',
+      wordSpacing: 'wider',
+      lineRuler: true,
+      colorCodeLetters: true,
+      reducedMotion: false,
+    }
+
+    beforeEach(async () => {
+      const res = await request(app)
+        .post('/children')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Noah', age: 7 })
+      childId = res.body.child.id
+    })
+
+    it('should save the profile', async () => {
+      const res = await request(app)
+        .put(`/children/${childId}/display-profile`)
+        .set('Authorization', `Bearer ${token}`)
+        .send(profile)
+
+      expect(res.status).toBe(200)
+      expect(res.body.child.display_profile).toEqual(profile)
+    })
+
+    it('should reject an unknown spacing', async () => {
+      const res = await request(app)
+        .put(`/children/${childId}/display-profile`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ ...profile, letterSpacing: 'huge' })
+
+      expect(res.status).toBe(400)
+    })
+
+    it('should reject a missing switch', async () => {
+      const partial: Partial<typeof profile> = { ...profile }
+      delete partial.reducedMotion
+      const res = await request(app)
+        .put(`/children/${childId}/display-profile`)
+        .set('Authorization', `Bearer ${token}`)
+        .send(partial)
+
+      expect(res.status).toBe(400)
+    })
+  })
+
   describe('DELETE /children/:id', () => {
     let childId: string
 
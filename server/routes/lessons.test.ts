@@ -38,7 +38,7 @@ describe('Lessons Routes', () => {
           interests: ['numbers', 'puzzles'],
           objectives: [{ description: 'Understand addition', measurable: true }],
           activities: [
-            { order: 1, title: 'Counting blocks', instructions: 'Use blocks to count', duration_minutes: 10 }
+            { id: 'count-blocks', type: 'reading', order: 0, instructions: 'Use blocks to count', content: 'One, two, three' }
           ],
           materials: ['blocks', 'worksheet'],
           assessmentCriteria: [
@@ -82,6 +82,25 @@ describe('Lessons Routes', () => {
 
       expect(res.status).toBe(400)
     })
+
+    it('should reject invalid activities with per-field errors', async () => {
+      const res = await request(app)
+        .post('/lessons')
+        .send({
+          title: 'Broken Quiz',
+          subject: 'reading',
+          activities: [
+            { id: 'q1', type: 'quiz', order: 0, instructions: 'Pick one', question: 'Which rhymes with cat?', options: ['hat', 'dog'], correctIndex: 2 }
+          ]
+        })
+
+      expect(res.status).toBe(400)
+      expect(res.body.error).toBe('Invalid lesson activities')
+      expect(res.body.validationErrors).toEqual([
+        { field: 'activities[0].correctIndex', message: 'correctIndex must be between 0 and 1' }
+      ])
+      expect((db.prepare('SELECT COUNT(*) as count FROM lessons').get() as { count: number }).count).toBe(0)
+    })
   })
 
   describe('GET /lessons', () => {
@@ -305,7 +324,7 @@ describe('Lessons Routes', () => {
           title: 'Test Lesson',
           subject: 'Math',
           learningStyles: ['visual'],
-          activities: [{ order: 1, title: 'Activity 1', instructions: 'Do something' }]
+          activities: [{ id: 'activity-1', type: 'listen-repeat', order: 0, instructions: 'Say it with me', phrase: 'cat' }]
         })
       lessonId = res.body.lesson.id
     })
@@ -349,8 +368,8 @@ describe('Lessons Routes', () => {
 
       expect(res.status).toBe(200)
       expect(res.body.subjects).toContain('reading')
-      expect(res.body.subjects).toContain('math')
-      expect(res.body.subjects).toContain('science')
+      expect(res.body.subjects).toContain('word-families')
+      expect(res.body.subjects).not.toContain('math')
     })
   })
 
@@ -361,21 +380,24 @@ describe('Lessons Routes', () => {
     const originalEnv = process.env
 
     const mockLessonResponse = {
-      title: 'Fun with Numbers',
-      subject: 'math',
-      gradeLevel: '1st grade',
+      title: 'Pig Can Dig',
+      subject: 'word-families',
+      gradeLevel: 'kindergarten',
       difficulty: 'easy',
-      durationMinutes: 30,
-      objectives: ['Count to 10', 'Recognize numbers'],
+      durationMinutes: 15,
+      objectives: ['Read -ig words', 'Build -ig words'],
+      tags: ['word-families'],
       activities: [{
-        step: 1,
-        title: 'Counting Game',
-        instructions: 'Count objects together',
-        durationMinutes: 10,
-        type: 'practice'
+        id: 'build',
+        type: 'word-building',
+        order: 0,
+        instructions: 'Build -ig words!',
+        pattern: 'ig',
+        onsets: ['p', 'd'],
+        words: ['pig', 'dig']
       }],
       materials: ['Blocks'],
-      assessmentCriteria: ['Can count to 10']
+      assessmentCriteria: ['Can read pig and dig']
     }
 
     beforeEach(async () => {
@@ -409,6 +431,7 @@ describe('Lessons Routes', () => {
     afterEach(() => {
       global.fetch = originalFetch
       process.env = originalEnv
+      db.exec('DELETE FROM ai_usage')
       db.exec('DELETE FROM children')
       db.exec('DELETE FROM users')
     })
@@ -416,7 +439,7 @@ describe('Lessons Routes', () => {
     it('should require authentication', async () => {
       const res = await request(app)
         .post('/lessons/generate')
-        .send({ childId: 'child-1', subject: 'math' })
+        .send({ childId: 'child-1', subject: 'word-families' })
 
       expect(res.status).toBe(401)
     })
@@ -425,7 +448,7 @@ describe('Lessons Routes', () => {
       const res = await request(app)
         .post('/lessons/generate')
         .set('Authorization', `Bearer ${token}`)
-        .send({ subject: 'math' })
+        .send({ subject: 'word-families' })
 
       expect(res.status).toBe(400)
       expect(res.body.error).toContain('childId')
@@ -435,7 +458,7 @@ describe('Lessons Routes', () => {
       const res = await request(app)
         .post('/lessons/generate')
         .set('Authorization', `Bearer ${token}`)
-        .send({ childId: 'non-existent', subject: 'math' })
+        .send({ childId: 'non-existent', subject: 'word-families' })
 
       expect(res.status).toBe(404)
       expect(res.body.error).toBe('Child not found')
@@ -445,29 +468,44 @@ describe('Lessons Routes', () => {
       const res = await request(app)
         .post('/lessons/generate')
         .set('Authorization', `Bearer ${token}`)
-        .send({ childId, subject: 'math' })
+        .send({ childId, subject: 'word-families' })
 
       expect(res.status).toBe(201)
-      expect(res.body.lesson.title).toBe('Fun with Numbers')
-      expect(res.body.lesson.subject).toBe('math')
+      expect(res.body.lesson.title).toBe('Pig Can Dig')
+      expect(res.body.lesson.subject).toBe('word-families')
       expect(res.body.lesson.source).toBe('ai-generated')
       expect(res.body.lesson.objectives).toHaveLength(2)
-      expect(res.body.lesson.activities).toHaveLength(1)
+      expect(res.body.lesson.activities).toEqual([mockLessonResponse.activities[0]])
     })
 
     it('should save lesson to library when requested', async () => {
       const res = await request(app)
         .post('/lessons/generate')
         .set('Authorization', `Bearer ${token}`)
-        .send({ childId, subject: 'math', saveToLibrary: true })
+        .send({ childId, subject: 'word-families', saveToLibrary: true })
 
       expect(res.status).toBe(201)
 
       const savedLesson = db.prepare('SELECT * FROM lessons WHERE id = ?')
-        .get(res.body.lesson.id) as { title: string } | undefined
+        .get(res.body.lesson.id) as { title: string; source: string; activities: string; visibility: string; owner_id: string } | undefined
 
       expect(savedLesson).toBeDefined()
-      expect(savedLesson?.title).toBe('Fun with Numbers')
+      expect(savedLesson?.title).toBe('Pig Can Dig')
+      expect(savedLesson?.source).toBe('ai_generated')
+      expect(JSON.parse(savedLesson!.activities)).toEqual(mockLessonResponse.activities)
+      expect(savedLesson?.visibility).toBe('private')
+      expect(savedLesson?.owner_id).toBeTruthy()
+    })
+
+    it('should reject subjects without playable activities', async () => {
+      const res = await request(app)
+        .post('/lessons/generate')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ childId, subject: 'math' })
+
+      expect(res.status).toBe(500)
+      expect(res.body.error).toContain('Unsupported subject: math')
+      expect(global.fetch).not.toHaveBeenCalled()
     })
 
     it('should not save lesson to library by default', async () => {
@@ -476,7 +514,7 @@ describe('Lessons Routes', () => {
       await request(app)
         .post('/lessons/generate')
         .set('Authorization', `Bearer ${token}`)
-        .send({ childId, subject: 'math' })
+        .send({ childId, subject: 'word-families' })
 
       const finalCount = (db.prepare('SELECT COUNT(*) as count FROM lessons').get() as { count: number }).count
 
@@ -487,7 +525,7 @@ describe('Lessons Routes', () => {
       await request(app)
         .post('/lessons/generate')
         .set('Authorization', `Bearer ${token}`)
-        .send({ childId, subject: 'math', topic: 'multiplication', preferredDuration: 45 })
+        .send({ childId, subject: 'word-families', topic: 'multiplication', preferredDuration: 45 })
 
       expect(global.fetch).toHaveBeenCalled()
       const fetchCall = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0]
@@ -495,6 +533,63 @@ describe('Lessons Routes', () => {
       expect(body.messages[1].content).toContain('multiplication')
       expect(body.messages[1].content).toContain('45 minutes')
     })
+
+    it('should generate offline without network access', async () => {
+      process.env.AI_PROVIDER = 'offline'
+
+      const res = await request(app)
+        .post('/lessons/generate')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ childId, subject: 'word-families', topic: '-ig words' })
+
+      expect(res.status).toBe(201)
+      expect(global.fetch).not.toHaveBeenCalled()
+      expect(res.body.lesson.title).toBe('Dinosaurs and -IG Words')
+      expect(res.body.lesson.activities.length).toBeGreaterThan(0)
+      expect(res.body.usage).toMatchObject({ provider: 'offline', costUsd: 0 })
+    })
+
+    it('should let the request pick the provider', async () => {
+      const res = await request(app)
+        .post('/lessons/generate')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ childId, subject: 'word-families', provider: 'offline' })
+
+      expect(res.status).toBe(201)
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should record usage per parent', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: JSON.stringify(mockLessonResponse) } }],
+          usage: { prompt_tokens: 1200, completion_tokens: 800 }
+        })
+      })
+
+      const generated = await request(app)
+        .post('/lessons/generate')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ childId, subject: 'word-families' })
+
+      expect(generated.body.usage).toMatchObject({ provider: 'grok', inputTokens: 1200, outputTokens: 800 })
+
+      const res = await request(app)
+        .get('/lessons/generate/usage')
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(res.status).toBe(200)
+      expect(res.body.usage).toMatchObject({ requests: 1, inputTokens: 1200, outputTokens: 800 })
+      expect(res.body.usage.costUsd).toBeCloseTo(generated.body.usage.costUsd)
+      expect(res.body.usage.byModel).toHaveLength(1)
+    })
+
+    it('should require authentication for usage', async () => {
+      const res = await request(app).get('/lessons/generate/usage')
+
+      expect(res.status).toBe(401)
+    })
   })
 
   describe('PUT /lessons/:id', () => {
@@ -523,6 +618,43 @@ describe('Lessons Routes', () => {
       expect(res.body.lesson.age_min).toBe(6)
       expect(res.body.lesson.age_max).toBe(9)
     })
+
+    it('should reject invalid activities', async () => {
+      const res = await request(app)
+        .put(`/lessons/${lessonId}`)
+        .send({
+          activities: [
+            { id: 'build', type: 'word-building', order: 0, instructions: 'Build words', pattern: 'at', onsets: ['c', 'b'], words: ['cat', 'bit'] }
+          ]
+        })
+
+      expect(res.status).toBe(400)
+      expect(res.body.validationErrors[0].field).toBe('activities[0].words[1]')
+    })
+
+    it('should check branching rules against the stored activities', async () => {
+      const spelling = { id: 'spell', type: 'spelling', order: 0, instructions: 'Spell it', word: 'cat' }
+      const remedial = { id: 'short-a', type: 'phonics', order: 0, instructions: 'Listen', sound: 'a', exampleWords: ['cat'] }
+      await request(app).put(`/lessons/${lessonId}`).send({ activities: [spelling] })
+
+      const res = await request(app)
+        .put(`/lessons/${lessonId}`)
+        .send({ branching: { remediation: [{ activityId: 'spell', remedial }] } })
+
+      expect(res.status).toBe(200)
+      expect(res.body.lesson.branching.remediation[0].remedial.id).toBe('short-a')
+
+      const invalid = await request(app)
+        .put(`/lessons/${lessonId}`)
+        .send({ branching: { remediation: [{ activityId: 'missing', remedial }] } })
+
+      expect(invalid.status).toBe(400)
+      expect(invalid.body.error).toBe('Invalid lesson branching')
+      expect(invalid.body.validationErrors[0].field).toBe('branching.remediation[0].activityId')
+
+      const cleared = await request(app).put(`/lessons/${lessonId}`).send({ branching: null })
+      expect(cleared.body.lesson.branching).toBeNull()
+    })
   })
 
   describe('DELETE /lessons/:id', () => {
@@ -544,4 +676,416 @@ describe('Lessons Routes', () => {
       expect(getRes.status).toBe(404)
     })
   })
+
+  describe('family-owned lessons', () => {
+    let ownerToken: string
+    let otherToken: string
+
+    const register = async (email: string) => {
+      const res = await request(app)
+        .post('/auth/register')
+        .send({ email, password: 'password123', name: 'Parent' })
+      return res.body.token as string
+    }
+
+    const createOwned = (body: Record<string, unknown> = {}) =>
+      request(app)
+        .post('/lessons')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ title: 'Our Cat Lesson', subject: 'phonics', ...body })
+
+    beforeEach(async () => {
+      ownerToken = await register('owner@example.com')
+      otherToken = await register('other@example.com')
+    })
+
+    afterEach(() => {
+      db.exec('DELETE FROM children')
+      db.exec('DELETE FROM users')
+    })
+
+    it('should make lessons created by a parent private to them', async () => {
+      const created = await createOwned()
+      const id = created.body.lesson.id
+
+      expect(created.status).toBe(201)
+      expect(created.body.lesson.visibility).toBe('private')
+      expect(created.body.lesson.owner_id).toBeTruthy()
+
+      expect((await request(app).get(`/lessons/${id}`)).status).toBe(404)
+      expect((await request(app).get(`/lessons/${id}`).set('Authorization', `Bearer ${otherToken}`)).status).toBe(404)
+      expect((await request(app).get(`/lessons/${id}`).set('Authorization', `Bearer ${ownerToken}`)).status).toBe(200)
+
+      const list = await request(app).get('/lessons')
+      expect(list.body.lessons).toHaveLength(0)
+      expect(list.body.total).toBe(0)
+
+      const ownList = await request(app).get('/lessons').set('Authorization', `Bearer ${ownerToken}`)
+      expect(ownList.body.lessons.map((l: { id: string }) => l.id)).toEqual([id])
+    })
+
+    it('should keep private lessons out of search', async () => {
+      await createOwned()
+
+      const res = await request(app).get('/lessons/search?q=cat')
+      expect(res.body.lessons).toHaveLength(0)
+
+      const ownRes = await request(app).get('/lessons/search?q=cat').set('Authorization', `Bearer ${ownerToken}`)
+      expect(ownRes.body.lessons).toHaveLength(1)
+      expect(ownRes.body.total).toBe(1)
+    })
+
+    it('should list only the signed-in family\'s lessons under /mine', async () => {
+      await createOwned()
+      await createOwned({ title: 'Shared Lesson', visibility: 'public' })
+      await request(app).post('/lessons').send({ title: 'Curated', subject: 'phonics' })
+
+      const res = await request(app).get('/lessons/mine').set('Authorization', `Bearer ${ownerToken}`)
+      expect(res.status).toBe(200)
+      expect(res.body.lessons.map((l: { title: string }) => l.title).sort()).toEqual(['Our Cat Lesson', 'Shared Lesson'])
+
+      const other = await request(app).get('/lessons/mine').set('Authorization', `Bearer ${otherToken}`)
+      expect(other.body.lessons).toHaveLength(0)
+
+      expect((await request(app).get('/lessons/mine')).status).toBe(401)
+    })
+
+    it('should only let the owner change or delete a lesson', async () => {
+      const id = (await createOwned({ visibility: 'public' })).body.lesson.id
+
+      const otherPut = await request(app)
+        .put(`/lessons/${id}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ title: 'Hijacked' })
+      expect(otherPut.status).toBe(403)
+
+      expect((await request(app).delete(`/lessons/${id}`)).status).toBe(403)
+
+      const ownerPut = await request(app)
+        .put(`/lessons/${id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ title: 'Renamed', visibility: 'private' })
+      expect(ownerPut.status).toBe(200)
+      expect(ownerPut.body.lesson.title).toBe('Renamed')
+      expect(ownerPut.body.lesson.visibility).toBe('private')
+
+      const ownerDelete = await request(app)
+        .delete(`/lessons/${id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+      expect(ownerDelete.status).toBe(204)
+    })
+
+    it("should only recommend for the signed-in family's own child", async () => {
+      await createOwned({ title: 'Secret family lesson' })
+      const publicId = (await createOwned({ title: 'Shared Lesson', visibility: 'public' })).body.lesson.id
+      const owner = db.prepare('SELECT id FROM users WHERE email = ?').get('owner@example.com') as { id: string }
+      db.prepare('INSERT INTO children (id, user_id, name) VALUES (?, ?, ?)').run('child-private', owner.id, 'Mia')
+
+      const path = `/lessons/${publicId}/recommendations?childId=child-private`
+      expect((await request(app).get(path)).status).toBe(404)
+      expect((await request(app).get(path).set('Authorization', `Bearer ${otherToken}`)).status).toBe(404)
+
+      const own = await request(app).get(path).set('Authorization', `Bearer ${ownerToken}`)
+      expect(own.status).toBe(200)
+      expect(own.body.recommendations.map((l: { title: string }) => l.title)).toEqual(['Secret family lesson'])
+    })
+
+    it('should reject unknown visibility values', async () => {
+      const res = await createOwned({ visibility: 'friends' })
+
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('prerequisites', () => {
+    let token: string
+
+    const create = (title: string, prerequisites?: string[]) =>
+      request(app).post('/lessons').send({ title, subject: 'phonics', prerequisites })
+
+    beforeEach(async () => {
+      const authRes = await request(app)
+        .post('/auth/register')
+        .send({ email: 'path@example.com', password: 'password123', name: 'Parent' })
+      token = authRes.body.token
+      db.prepare('INSERT INTO children (id, user_id, name) VALUES (?, ?, ?)')
+        .run('child-path', authRes.body.user.id, 'Sam')
+    })
+
+    afterEach(() => {
+      db.exec('DELETE FROM progress')
+      db.exec('DELETE FROM children')
+      db.exec('DELETE FROM users')
+    })
+
+    it('should store prerequisites on create', async () => {
+      const first = await create('Letter Sounds')
+      const second = await create('CVC Words', [first.body.lesson.id])
+
+      expect(second.status).toBe(201)
+      expect(second.body.lesson.prerequisites).toEqual([first.body.lesson.id])
+    })
+
+    it('should reject unknown prerequisites', async () => {
+      const res = await create('CVC Words', ['no-such-lesson'])
+
+      expect(res.status).toBe(400)
+      expect(res.body.validationErrors).toContainEqual({
+        field: 'prerequisites[0]',
+        message: 'no lesson with id "no-such-lesson"',
+      })
+    })
+
+    it('should reject an update that would form a cycle', async () => {
+      const a = (await create('Lesson A')).body.lesson.id
+      const b = (await create('Lesson B', [a])).body.lesson.id
+
+      const res = await request(app).put(`/lessons/${a}`).send({ prerequisites: [b] })
+
+      expect(res.status).toBe(400)
+      expect(res.body.validationErrors[0].message).toBe(`prerequisites form a cycle: ${a} → ${b} → ${a}`)
+    })
+
+    it('should report each lesson\'s state for a child', async () => {
+      const a = (await create('Lesson A')).body.lesson.id
+      const b = (await create('Lesson B', [a])).body.lesson.id
+      const c = (await create('Lesson C', [b])).body.lesson.id
+      db.prepare("INSERT INTO progress (id, child_id, lesson_id, status) VALUES ('p-1', 'child-path', ?, 'completed')").run(a)
+
+      const res = await request(app)
+        .get('/lessons?childId=child-path')
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(res.status).toBe(200)
+      const states = Object.fromEntries(res.body.lessons.map((l: { id: string; availability: string }) => [l.id, l.availability]))
+      expect(states).toEqual({ [a]: 'completed', [b]: 'unlocked', [c]: 'locked' })
+    })
+
+    it('should not report state for another family\'s child', async () => {
+      const res = await request(app).get('/lessons?childId=child-path')
+
+      expect(res.status).toBe(404)
+    })
+  })
+
+  describe('GET /lessons/match/:childId', () => {
+    let token: string
+
+    const difficultyScores = async () => {
+      const res = await request(app)
+        .get('/lessons/match/child-match')
+        .set('Authorization', `Bearer ${token}`)
+      expect(res.status).toBe(200)
+      return Object.fromEntries(res.body.matches.map((m: { difficulty: string; scoreBreakdown: { difficultyScore: number } }) =>
+        [m.difficulty, m.scoreBreakdown.difficultyScore]))
+    }
+
+    beforeEach(async () => {
+      const authRes = await request(app)
+        .post('/auth/register')
+        .send({ email: 'match@example.com', password: 'password123', name: 'Parent' })
+      token = authRes.body.token
+      db.prepare("INSERT INTO children (id, user_id, name, grade_level) VALUES ('child-match', ?, 'Mia', 'Pre-K')")
+        .run(authRes.body.user.id)
+      for (const difficulty of ['beginner', 'easy', 'medium']) {
+        await request(app).post('/lessons').send({ title: `A ${difficulty} lesson`, subject: 'phonics', difficulty })
+      }
+    })
+
+    afterEach(() => {
+      db.exec('DELETE FROM children')
+      db.exec('DELETE FROM users')
+    })
+
+    it('should start a new reader at beginner lessons', async () => {
+      expect(await difficultyScores()).toEqual({ beginner: 100, easy: 70, medium: 40 })
+    })
+
+    it('should start from the reading placement rather than the grade level', async () => {
+      db.prepare("UPDATE children SET reading_level = 'early' WHERE id = 'child-match'").run()
+
+      expect(await difficultyScores()).toEqual({ beginner: 60, easy: 80, medium: 100 })
+    })
+  })
+
+  describe('safety review', () => {
+    let parentToken: string
+    let adminToken: string
+    const originalAdmins = process.env.ADMIN_EMAILS
+
+    const register = async (email: string) => {
+      const res = await request(app)
+        .post('/auth/register')
+        .send({ email, password: 'password123', name: 'Someone' })
+      return res.body.token as string
+    }
+
+    const flaggedActivities = [
+      { id: 'read', type: 'reading', order: 0, instructions: 'Read!', content: 'Call me at 555-123-4567.' }
+    ]
+
+    beforeEach(async () => {
+      process.env.ADMIN_EMAILS = 'reviewer@example.com'
+      parentToken = await register('parent@example.com')
+      adminToken = await register('reviewer@example.com')
+    })
+
+    afterEach(() => {
+      process.env.ADMIN_EMAILS = originalAdmins
+      db.exec('DELETE FROM users')
+    })
+
+    const createFlagged = () =>
+      request(app)
+        .post('/lessons')
+        .set('Authorization', `Bearer ${parentToken}`)
+        .send({ title: 'Phone Time', subject: 'reading', visibility: 'public', activities: flaggedActivities })
+
+    it('should hold flagged lessons unpublished with the reasons', async () => {
+      const res = await createFlagged()
+
+      expect(res.status).toBe(201)
+      expect(res.body.lesson.is_published).toBe(false)
+      expect(res.body.lesson.review_status).toBe('pending')
+      expect(res.body.lesson.safety_flags).toEqual([
+        { field: 'activities[0].content', rule: 'pii', message: 'Looks like a phone number' }
+      ])
+
+      const list = await request(app).get('/lessons')
+      expect(list.body.lessons.map((l: { id: string }) => l.id)).not.toContain(res.body.lesson.id)
+    })
+
+    it('should publish clean lessons as before', async () => {
+      const res = await request(app)
+        .post('/lessons')
+        .set('Authorization', `Bearer ${parentToken}`)
+        .send({ title: 'Pig Time', subject: 'reading', activities: [{ ...flaggedActivities[0], content: 'The pig can dig.' }] })
+
+      expect(res.body.lesson.is_published).toBe(true)
+      expect(res.body.lesson.review_status).toBeNull()
+      expect(res.body.lesson.safety_flags).toEqual([])
+    })
+
+    it('should re-check edits, holding and releasing the lesson', async () => {
+      const created = await request(app)
+        .post('/lessons')
+        .set('Authorization', `Bearer ${parentToken}`)
+        .send({ title: 'Pig Time', subject: 'reading' })
+      const id = created.body.lesson.id
+
+      const flagged = await request(app)
+        .put(`/lessons/${id}`)
+        .set('Authorization', `Bearer ${parentToken}`)
+        .send({ title: 'Pig Time', description: 'The pig drinks beer', isPublished: true })
+
+      expect(flagged.body.lesson.is_published).toBe(false)
+      expect(flagged.body.lesson.review_status).toBe('pending')
+
+      const fixed = await request(app)
+        .put(`/lessons/${id}`)
+        .set('Authorization', `Bearer ${parentToken}`)
+        .send({ description: 'The pig drinks water' })
+
+      expect(fixed.body.lesson.is_published).toBe(true)
+      expect(fixed.body.lesson.review_status).toBeNull()
+    })
+
+    it('should flag generated lessons before saving them', async () => {
+      const parent = db.prepare('SELECT id FROM users WHERE email = ?').get('parent@example.com') as { id: string }
+      db.prepare('INSERT INTO children (id, user_id, name, age) VALUES (?, ?, ?, ?)').run('child-safe', parent.id, 'Emma', 5)
+      process.env.AI_PROVIDER = 'offline'
+
+      try {
+        const res = await request(app)
+          .post('/lessons/generate')
+          .set('Authorization', `Bearer ${parentToken}`)
+          .send({ childId: 'child-safe', subject: 'word-families', topic: 'guns', saveToLibrary: true })
+
+        expect(res.status).toBe(201)
+        expect(res.body.safetyFlags.length).toBeGreaterThan(0)
+        const saved = db.prepare('SELECT is_published, review_status FROM lessons WHERE id = ?').get(res.body.lesson.id)
+        expect(saved).toEqual({ is_published: 0, review_status: 'pending' })
+      } finally {
+        delete process.env.AI_PROVIDER
+        db.exec('DELETE FROM children')
+      }
+    })
+
+    it('should only show the review queue to admins', async () => {
+      await createFlagged()
+
+      const parentRes = await request(app)
+        .get('/lessons/review')
+        .set('Authorization', `Bearer ${parentToken}`)
+      expect(parentRes.status).toBe(403)
+
+      const adminRes = await request(app)
+        .get('/lessons/review')
+        .set('Authorization', `Bearer ${adminToken}`)
+      expect(adminRes.status).toBe(200)
+      expect(adminRes.body.lessons.map((l: { title: string }) => l.title)).toEqual(['Phone Time'])
+    })
+
+    it('should publish approved lessons', async () => {
+      const created = await createFlagged()
+
+      const res = await request(app)
+        .post(`/lessons/review/${created.body.lesson.id}/approve`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ note: 'Pretend phone number' })
+
+      expect(res.status).toBe(200)
+      expect(res.body.lesson).toMatchObject({ is_published: true, review_status: 'approved', review_note: 'Pretend phone number' })
+
+      // Unrelated edits keep the approval
+      const edited = await request(app)
+        .put(`/lessons/${created.body.lesson.id}`)
+        .set('Authorization', `Bearer ${parentToken}`)
+        .send({ title: 'Phone Fun' })
+      expect(edited.body.lesson).toMatchObject({ is_published: true, review_status: 'approved' })
+    })
+
+    it('should hold an approved lesson again when the flagged text is edited', async () => {
+      const created = await createFlagged()
+      await request(app)
+        .post(`/lessons/review/${created.body.lesson.id}/approve`)
+        .set('Authorization', `Bearer ${adminToken}`)
+
+      const edited = await request(app)
+        .put(`/lessons/${created.body.lesson.id}`)
+        .set('Authorization', `Bearer ${parentToken}`)
+        .send({ activities: [{ ...flaggedActivities[0], content: 'Call me at 555-987-6543.' }] })
+
+      expect(edited.body.lesson).toMatchObject({ is_published: false, review_status: 'pending' })
+    })
+
+    it('should keep rejected lessons unpublished', async () => {
+      const created = await createFlagged()
+
+      const res = await request(app)
+        .post(`/lessons/review/${created.body.lesson.id}/reject`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ note: 'Remove the phone number' })
+
+      expect(res.body.lesson).toMatchObject({ is_published: false, review_status: 'rejected', review_note: 'Remove the phone number' })
+
+      const queue = await request(app)
+        .get('/lessons/review?status=rejected')
+        .set('Authorization', `Bearer ${adminToken}`)
+      expect(queue.body.lessons).toHaveLength(1)
+    })
+
+    it('should return 404 when reviewing a lesson that was never flagged', async () => {
+      const created = await request(app)
+        .post('/lessons')
+        .set('Authorization', `Bearer ${parentToken}`)
+        .send({ title: 'Pig Time', subject: 'reading' })
+
+      const res = await request(app)
+        .post(`/lessons/review/${created.body.lesson.id}/approve`)
+        .set('Authorization', `Bearer ${adminToken}`)
+
+      expect(res.status).toBe(404)
+    })
+  })
 })
@@ -0,0 +1,421 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import express from 'express'
+import request from 'supertest'
+import { db, initializeDb } from '../db/index.js'
+import authRoutes from './auth.js'
+import childrenRoutes from './children.js'
+import progressRoutes from './progress.js'
+
+const app = express()
+app.use(express.json())
+app.use('/auth', authRoutes)
+app.use('/children', childrenRoutes)
+app.use('/progress', progressRoutes)
+
+describe('Progress Routes', () => {
+  let token: string
+  let childId: string
+
+  beforeEach(async () => {
+    initializeDb()
+    const res = await request(app)
+      .post('/auth/register')
+      .send({ email: 'parent@example.com', password: 'password123', name: 'Parent User' })
+    token = res.body.token
+
+    const childRes = await request(app)
+      .post('/children')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Reader', age: 6 })
+    childId = childRes.body.child.id
+  })
+
+  afterEach(() => {
+    db.exec('DELETE FROM sync_mutations')
+    db.exec('DELETE FROM activity_progress')
+    db.exec('DELETE FROM progress')
+    db.exec('DELETE FROM game_events')
+    db.exec('DELETE FROM game_sessions')
+    db.exec('DELETE FROM word_reviews')
+    db.exec('DELETE FROM letter_knowledge')
+    db.exec('DELETE FROM children')
+    db.exec('DELETE FROM users')
+  })
+
+  describe('POST /progress/child/:childId/review', () => {
+    it('should schedule a correctly answered word for later', async () => {
+      const res = await request(app)
+        .post(`/progress/child/${childId}/review`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ word: 'Cat', correct: true, game: 'spelling' })
+
+      expect(res.status).toBe(200)
+      expect(res.body.review.word).toBe('cat')
+      expect(res.body.review.repetitions).toBe(1)
+      expect(res.body.review.interval_days).toBe(1)
+      expect(res.body.review.correct_count).toBe(1)
+      expect(res.body.review.last_game).toBe('spelling')
+      expect(new Date(res.body.review.due_at).getTime()).toBeGreaterThan(Date.now())
+      expect(res.body.mastered).toBe(false)
+    })
+
+    it('should share one schedule for a word across games', async () => {
+      await request(app)
+        .post(`/progress/child/${childId}/review`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ word: 'cat', correct: true, game: 'spelling' })
+
+      const res = await request(app)
+        .post(`/progress/child/${childId}/review`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ word: 'cat', correct: false, game: 'readaloud' })
+
+      expect(res.status).toBe(200)
+      expect(res.body.review.repetitions).toBe(0)
+      expect(res.body.review.lapses).toBe(1)
+      expect(res.body.review.correct_count).toBe(1)
+      expect(res.body.review.incorrect_count).toBe(1)
+      expect(res.body.review.last_game).toBe('readaloud')
+    })
+
+    it('should count the outcome the same way it schedules it', async () => {
+      const res = await request(app)
+        .post(`/progress/child/${childId}/review`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ word: 'cat', correct: true, quality: 1 })
+
+      expect(res.status).toBe(200)
+      expect(res.body.review.lapses).toBe(1)
+      expect(res.body.review.correct_count).toBe(0)
+      expect(res.body.review.incorrect_count).toBe(1)
+    })
+
+    it('should reject a missing word or outcome', async () => {
+      const res = await request(app)
+        .post(`/progress/child/${childId}/review`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ word: 'cat' })
+
+      expect(res.status).toBe(400)
+    })
+
+    it('should return 404 for a child of another user', async () => {
+      const otherRes = await request(app)
+        .post('/auth/register')
+        .send({ email: 'other@example.com', password: 'password123', name: 'Other User' })
+
+      const res = await request(app)
+        .post(`/progress/child/${childId}/review`)
+        .set('Authorization', `Bearer ${otherRes.body.token}`)
+        .send({ word: 'cat', correct: true })
+
+      expect(res.status).toBe(404)
+    })
+  })
+
+  describe('GET /progress/child/:childId/review-queue', () => {
+    it('should return only words that are due, oldest first', async () => {
+      const insert = db.prepare(`
+        INSERT INTO word_reviews (id, child_id, word, due_at) VALUES (?, ?, ?, ?)
+      `)
+      insert.run('r1', childId, 'dog', new Date(Date.now() - 60_000).toISOString())
+      insert.run('r2', childId, 'sun', new Date(Date.now() - 3_600_000).toISOString())
+      insert.run('r3', childId, 'hat', new Date(Date.now() + 86_400_000).toISOString())
+
+      const res = await request(app)
+        .get(`/progress/child/${childId}/review-queue`)
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(res.status).toBe(200)
+      expect(res.body.queue.map((r: { word: string }) => r.word)).toEqual(['sun', 'dog'])
+      expect(res.body.dueCount).toBe(2)
+    })
+
+    it('should respect the limit parameter', async () => {
+      const insert = db.prepare(`
+        INSERT INTO word_reviews (id, child_id, word, due_at) VALUES (?, ?, ?, ?)
+      `)
+      insert.run('r1', childId, 'dog', new Date(Date.now() - 60_000).toISOString())
+      insert.run('r2', childId, 'sun', new Date(Date.now() - 120_000).toISOString())
+
+      const res = await request(app)
+        .get(`/progress/child/${childId}/review-queue?limit=1`)
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(res.body.queue).toHaveLength(1)
+      expect(res.body.dueCount).toBe(2)
+    })
+
+    it('should not include a word right after it was answered correctly', async () => {
+      await request(app)
+        .post(`/progress/child/${childId}/review`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ word: 'cat', correct: true })
+
+      const res = await request(app)
+        .get(`/progress/child/${childId}/review-queue`)
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(res.body.queue).toEqual([])
+    })
+  })
+
+  describe('/progress/child/:childId/letter-knowledge', () => {
+    it('should add letter hunt answers to each letter\'s counts', async () => {
+      await request(app)
+        .post(`/progress/child/${childId}/letter-knowledge`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          attempts: [
+            { letter: 'b', skill: 'name', correct: true },
+            { letter: 'b', skill: 'sound', correct: false },
+            { letter: 'B', skill: 'name', correct: false },
+          ],
+        })
+
+      const res = await request(app)
+        .post(`/progress/child/${childId}/letter-knowledge`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ attempts: [{ letter: 'b', skill: 'name', correct: true }] })
+
+      expect(res.status).toBe(200)
+      expect(res.body.letters).toHaveLength(2)
+      expect(res.body.letters[0]).toMatchObject({ letter: 'B', name_correct: 0, name_attempts: 1 })
+      expect(res.body.letters[1]).toMatchObject({
+        letter: 'b',
+        name_correct: 2,
+        name_attempts: 2,
+        sound_correct: 0,
+        sound_attempts: 1,
+      })
+
+      const listRes = await request(app)
+        .get(`/progress/child/${childId}/letter-knowledge`)
+        .set('Authorization', `Bearer ${token}`)
+      expect(listRes.body.letters.map((l: { letter: string }) => l.letter)).toEqual(['B', 'b'])
+    })
+
+    it('should reject answers that are not letters', async () => {
+      const res = await request(app)
+        .post(`/progress/child/${childId}/letter-knowledge`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ attempts: [{ letter: 'bb', skill: 'name', correct: true }] })
+
+      expect(res.status).toBe(400)
+      expect(res.body.error).toMatch(/attempts\[0\]\.letter/)
+    })
+  })
+
+  describe('POST /progress/child/:childId/game-session', () => {
+    const sessionBody = {
+      game: 'phonics',
+      startedAt: '2026-01-01T10:00:00.000Z',
+      endedAt: '2026-01-01T10:05:00.000Z',
+      score: 120,
+      maxStreak: 3,
+      completed: true,
+      events: [
+        { item: 'cat', outcome: 'correct', attempts: 1, latencyMs: 2400, hintsUsed: 0 },
+        { item: 'dog', outcome: 'incorrect', attempts: 1, latencyMs: 5100, hintsUsed: 2 },
+        { item: 'sun', outcome: 'skipped', attempts: 0, latencyMs: 800 },
+      ],
+    }
+
+    it('should record a session with its events', async () => {
+      const res = await request(app)
+        .post(`/progress/child/${childId}/game-session`)
+        .set('Authorization', `Bearer ${token}`)
+        .send(sessionBody)
+
+      expect(res.status).toBe(201)
+      expect(res.body.session.game).toBe('phonics')
+      expect(res.body.session.duration_seconds).toBe(300)
+      expect(res.body.session.items_attempted).toBe(2)
+      expect(res.body.session.items_correct).toBe(1)
+      expect(res.body.session.completed).toBe(true)
+
+      const detail = await request(app)
+        .get(`/progress/child/${childId}/game-session/${res.body.session.id}`)
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(detail.status).toBe(200)
+      expect(detail.body.events).toHaveLength(3)
+      expect(detail.body.events[1]).toMatchObject({
+        item: 'dog',
+        outcome: 'incorrect',
+        latency_ms: 5100,
+        hints_used: 2,
+      })
+    })
+
+    it('should reject an unknown game', async () => {
+      const res = await request(app)
+        .post(`/progress/child/${childId}/game-session`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ ...sessionBody, game: 'chess' })
+
+      expect(res.status).toBe(400)
+    })
+
+    it('should reject an event with an invalid outcome', async () => {
+      const res = await request(app)
+        .post(`/progress/child/${childId}/game-session`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ ...sessionBody, events: [{ item: 'cat', outcome: 'maybe' }] })
+
+      expect(res.status).toBe(400)
+      expect(res.body.error).toContain('events[0].outcome')
+    })
+
+    it('should list sessions filtered by game', async () => {
+      await request(app)
+        .post(`/progress/child/${childId}/game-session`)
+        .set('Authorization', `Bearer ${token}`)
+        .send(sessionBody)
+      await request(app)
+        .post(`/progress/child/${childId}/game-session`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ ...sessionBody, game: 'memory' })
+
+      const res = await request(app)
+        .get(`/progress/child/${childId}/game-sessions?game=memory`)
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(res.status).toBe(200)
+      expect(res.body.sessions).toHaveLength(1)
+      expect(res.body.sessions[0].game).toBe('memory')
+    })
+
+    it('should return 404 for a session of another child', async () => {
+      const res = await request(app)
+        .get(`/progress/child/${childId}/game-session/missing-session`)
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(res.status).toBe(404)
+    })
+  })
+
+  describe('lesson prerequisites', () => {
+    beforeEach(() => {
+      const insert = db.prepare('INSERT INTO lessons (id, title, subject, prerequisites) VALUES (?, ?, ?, ?)')
+      insert.run('prereq-first', 'First', 'phonics', null)
+      insert.run('prereq-second', 'Second', 'phonics', JSON.stringify(['prereq-first']))
+    })
+
+    afterEach(() => {
+      db.exec("DELETE FROM lessons WHERE id LIKE 'prereq-%'")
+    })
+
+    it('should refuse to start or complete a locked lesson', async () => {
+      const start = await request(app)
+        .post(`/progress/child/${childId}/lesson/prereq-second/start`)
+        .set('Authorization', `Bearer ${token}`)
+      expect(start.status).toBe(409)
+
+      const complete = await request(app)
+        .post(`/progress/child/${childId}/lesson/prereq-second/complete`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ score: 90 })
+      expect(complete.status).toBe(409)
+    })
+
+    it('should unlock a lesson once its prerequisites are completed', async () => {
+      await request(app)
+        .post(`/progress/child/${childId}/lesson/prereq-first/complete`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ score: 90 })
+
+      const res = await request(app)
+        .post(`/progress/child/${childId}/lesson/prereq-second/start`)
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(res.status).toBe(200)
+      expect(res.body.progress.status).toBe('in_progress')
+    })
+  })
+
+  describe('offline replay', () => {
+    it('should apply a replayed activity write only once', async () => {
+      const send = () => request(app)
+        .post(`/progress/child/${childId}/lesson/lesson-1/activity`)
+        .set('Authorization', `Bearer ${token}`)
+        .set('Idempotency-Key', 'mutation-0001')
+        .send({ activityId: 'act-1', completed: true, score: 80, timeSpentSeconds: 40, currentActivityIndex: 1 })
+
+      const first = await send()
+      const replay = await send()
+
+      expect(first.status).toBe(200)
+      expect(replay.status).toBe(200)
+      expect(replay.body).toEqual(first.body)
+
+      const res = await request(app)
+        .get(`/progress/child/${childId}/lesson/lesson-1/activities`)
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(res.body.activities).toHaveLength(1)
+      expect(res.body.activities[0]).toMatchObject({ attempts: 1, time_spent_seconds: 40, completed: 1 })
+    })
+
+    it('should accumulate distinct attempts at an activity', async () => {
+      for (const key of ['mutation-0001', 'mutation-0002']) {
+        await request(app)
+          .post(`/progress/child/${childId}/lesson/lesson-1/activity`)
+          .set('Authorization', `Bearer ${token}`)
+          .set('Idempotency-Key', key)
+          .send({ activityId: 'act-1', completed: true, score: 60, timeSpentSeconds: 30 })
+      }
+
+      const res = await request(app)
+        .get(`/progress/child/${childId}/lesson/lesson-1/activities`)
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(res.body.activities[0]).toMatchObject({ attempts: 2, time_spent_seconds: 60 })
+    })
+
+    it('should keep progress apart for lessons that share an activity id', async () => {
+      for (const [lessonId, score] of [['lesson-1', 90], ['lesson-2', 40]] as const) {
+        await request(app)
+          .post(`/progress/child/${childId}/lesson/${lessonId}/activity`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ activityId: 'listen', completed: true, score })
+      }
+
+      for (const [lessonId, score] of [['lesson-1', 90], ['lesson-2', 40]] as const) {
+        const res = await request(app)
+          .get(`/progress/child/${childId}/lesson/${lessonId}/activities`)
+          .set('Authorization', `Bearer ${token}`)
+
+        expect(res.body.activities).toHaveLength(1)
+        expect(res.body.activities[0]).toMatchObject({ lesson_id: lessonId, activity_id: 'listen', attempts: 1, score })
+      }
+    })
+
+    it('should not let a stale replay overwrite newer lesson progress', async () => {
+      await request(app)
+        .post(`/progress/child/${childId}/lesson/lesson-1/complete`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ score: 90, timeSpent: 300, occurredAt: '2026-01-01T11:00:00.000Z' })
+
+      const res = await request(app)
+        .post(`/progress/child/${childId}/lesson/lesson-1/start`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ occurredAt: '2026-01-01T10:00:00.000Z' })
+
+      expect(res.status).toBe(200)
+      expect(res.body.progress.status).toBe('completed')
+      expect(res.body.progress.score).toBe(90)
+      expect(res.body.progress.time_spent).toBe(300)
+    })
+
+    it('should reject a malformed idempotency key', async () => {
+      const res = await request(app)
+        .post(`/progress/child/${childId}/lesson/lesson-1/complete`)
+        .set('Authorization', `Bearer ${token}`)
+        .set('Idempotency-Key', 'bad key')
+        .send({ score: 90 })
+
+      expect(res.status).toBe(400)
+    })
+  })
+})
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import express from 'express'
+import request from 'supertest'
+import voiceRoutes from './voice.js'
+import authRoutes from './auth.js'
+import childrenRoutes from './children.js'
+import { initializeDb } from '../db/index.js'
+
+// End-to-end through the real VoiceService with the offline speech provider
+const app = express()
+app.use(express.json())
+app.use('/auth', authRoutes)
+app.use('/children', childrenRoutes)
+app.use('/voice', voiceRoutes)
+
+describe('Voice Routes (local speech provider)', () => {
+  beforeAll(() => {
+    vi.stubEnv('SPEECH_PROVIDER', 'local')
+    vi.stubEnv('ELEVENLABS_API_KEY', '')
+    initializeDb()
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should list the local voices', async () => {
+    const res = await request(app).get('/voice/voices')
+
+    expect(res.status).toBe(200)
+    expect(res.body.voices.map((v: { voiceId: string }) => v.voiceId)).toContain('local-narrator')
+  })
+
+  it('should synthesize WAV audio that transcribes back to the text', async () => {
+    const tts = await request(app)
+      .post('/voice/tts')
+      .send({ text: 'cat', voiceId: 'local-narrator' })
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = []
+        res.on('data', (chunk: Buffer) => chunks.push(chunk))
+        res.on('end', () => callback(null, Buffer.concat(chunks)))
+      })
+
+    expect(tts.status).toBe(200)
+    expect(tts.headers['content-type']).toBe('audio/wav')
+
+    const stt = await request(app)
+      .post('/voice/stt')
+      .attach('audio', tts.body as Buffer, 'speech.wav')
+
+    expect(stt.status).toBe(200)
+    expect(stt.body.text).toBe('cat')
+  })
+
+  it('should serve repeated requests from the TTS cache', async () => {
+    const first = await request(app).post('/voice/tts').send({ text: 'dog', voiceId: 'local-helper' })
+    const second = await request(app).post('/voice/tts').send({ text: ' dog ', voiceId: 'local-helper' })
+
+    expect(first.headers['x-tts-cache']).toBe('MISS')
+    expect(second.headers['x-tts-cache']).toBe('HIT')
+    expect(second.headers['x-tts-cache-key']).toBe(first.headers['x-tts-cache-key'])
+  })
+
+  it('should return word timings with the audio when asked', async () => {
+    const res = await request(app)
+      .post('/voice/tts')
+      .send({ text: 'The big  dog', voiceId: 'local-narrator', timestamps: true })
+
+    expect(res.status).toBe(200)
+    expect(res.body.contentType).toBe('audio/wav')
+    expect(res.body.alignment.characters.join('')).toBe('The big  dog')
+    expect(res.body.words.map((w: { text: string }) => w.text)).toEqual(['The', 'big', 'dog'])
+    expect(res.body.words[1].start).toBeGreaterThan(res.body.words[0].end - 0.001)
+
+    const audio = Buffer.from(res.body.audio, 'base64')
+    const stt = await request(app).post('/voice/stt').attach('audio', audio, 'speech.wav')
+    expect(stt.body.text).toBe('The big  dog')
+  })
+
+  it('should check pronunciation from a text fixture', async () => {
+    const res = await request(app)
+      .post('/voice/pronunciation-check')
+      .attach('audio', Buffer.from('pat'), 'recording.txt')
+      .field('expectedWord', 'bat')
+
+    expect(res.status).toBe(200)
+    expect(res.body.isCorrect).toBe(false)
+    expect(res.body.confidence).toBe(1)
+    expect(res.body.feedback).toBe('Listen to the first sound in "bat": /b/')
+  })
+
+  it('should still validate voice settings', async () => {
+    const res = await request(app)
+      .post('/voice/tts')
+      .send({ text: 'cat', voiceSettings: { speed: 5 } })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('Invalid voice settings')
+  })
+
+  describe('parent voice cloning', () => {
+    async function registerParent(email: string) {
+      const res = await request(app)
+        .post('/auth/register')
+        .send({ email, password: 'password123', name: 'Parent' })
+      return res.body.token as string
+    }
+
+    function cloneRequest(token: string, sampleCount = 3) {
+      let req = request(app)
+        .post('/voice/voices/clone')
+        .set('Authorization', `Bearer ${token}`)
+        .field('name', 'Mom')
+        .field('consent', 'true')
+      for (let i = 0; i < sampleCount; i++) {
+        req = req.attach('samples', Buffer.from(`sample ${i}`), `sample-${i + 1}.webm`)
+      }
+      return req
+    }
+
+    it('should require sign-in, consent and enough recordings', async () => {
+      const token = await registerParent('clone-rules@example.com')
+
+      const anonymous = await request(app).post('/voice/voices/clone').field('name', 'Mom')
+      expect(anonymous.status).toBe(401)
+
+      const noConsent = await request(app)
+        .post('/voice/voices/clone')
+        .set('Authorization', `Bearer ${token}`)
+        .field('name', 'Mom')
+        .attach('samples', Buffer.from('one'), 'sample-1.webm')
+
+      expect(noConsent.status).toBe(400)
+      expect(noConsent.body.validationErrors.map((e: { field: string }) => e.field)).toEqual(['consent', 'samples'])
+    })
+
+    it('should keep a cloned voice private to the family that recorded it', async () => {
+      const owner = await registerParent('clone-owner@example.com')
+      const neighbour = await registerParent('clone-neighbour@example.com')
+
+      const created = await cloneRequest(owner)
+      expect(created.status).toBe(201)
+      const { voiceId } = created.body.voice
+
+      const ownList = await request(app).get('/voice/voices').set('Authorization', `Bearer ${owner}`)
+      expect(ownList.body.voices).toContainEqual(expect.objectContaining({ voiceId, name: 'Mom', category: 'cloned' }))
+
+      const otherList = await request(app).get('/voice/voices').set('Authorization', `Bearer ${neighbour}`)
+      expect(otherList.body.voices.map((v: { voiceId: string }) => v.voiceId)).not.toContain(voiceId)
+
+      const ownLookup = await request(app).get(`/voice/voices/${voiceId}`).set('Authorization', `Bearer ${owner}`)
+      expect(ownLookup.status).toBe(200)
+      const otherLookup = await request(app).get(`/voice/voices/${voiceId}`).set('Authorization', `Bearer ${neighbour}`)
+      expect(otherLookup.status).toBe(404)
+
+      const ownSpeech = await request(app)
+        .post('/voice/tts')
+        .set('Authorization', `Bearer ${owner}`)
+        .send({ voiceId, text: 'Hello' })
+      expect(ownSpeech.status).toBe(200)
+      for (const path of ['/voice/tts', '/voice/tts/stream']) {
+        const otherSpeech = await request(app)
+          .post(path)
+          .set('Authorization', `Bearer ${neighbour}`)
+          .send({ voiceId, text: 'Hello' })
+        expect(otherSpeech.status).toBe(403)
+        const anonymousSpeech = await request(app).post(path).send({ voiceId, text: 'Hello' })
+        expect(anonymousSpeech.status).toBe(403)
+      }
+
+      const anonymousDelete = await request(app).delete(`/voice/voices/${voiceId}`)
+      expect(anonymousDelete.status).toBe(401)
+
+      const otherDelete = await request(app)
+        .delete(`/voice/voices/${voiceId}`)
+        .set('Authorization', `Bearer ${neighbour}`)
+      expect(otherDelete.status).toBe(404)
+
+      const ownDelete = await request(app)
+        .delete(`/voice/voices/${voiceId}`)
+        .set('Authorization', `Bearer ${owner}`)
+      expect(ownDelete.status).toBe(200)
+    })
+
+    it('should not delete voices that no parent cloned', async () => {
+      const token = await registerParent('clone-premade@example.com')
+
+      const res = await request(app)
+        .delete('/voice/voices/local-narrator')
+        .set('Authorization', `Bearer ${token}`)
+
+      expect(res.status).toBe(404)
+      const voices = await request(app).get('/voice/voices')
+      expect(voices.body.voices.map((v: { voiceId: string }) => v.voiceId)).toContain('local-narrator')
+    })
+
+    it('should only let the owning family select a cloned voice for a child', async () => {
+      const owner = await registerParent('clone-settings@example.com')
+      const neighbour = await registerParent('clone-settings-other@example.com')
+      const { voiceId } = (await cloneRequest(owner)).body.voice
+
+      const ownChild = await request(app)
+        .post('/children')
+        .set('Authorization', `Bearer ${owner}`)
+        .send({ name: 'Sam', age: 5 })
+      const otherChild = await request(app)
+        .post('/children')
+        .set('Authorization', `Bearer ${neighbour}`)
+        .send({ name: 'Alex', age: 6 })
+
+      const own = await request(app).put(`/voice/settings/${ownChild.body.child.id}`).send({ voiceId })
+      expect(own.status).toBe(200)
+      expect(own.body.voiceId).toBe(voiceId)
+
+      const other = await request(app).put(`/voice/settings/${otherChild.body.child.id}`).send({ voiceId })
+      expect(other.status).toBe(400)
+      expect(other.body.validationErrors).toEqual([{ field: 'voiceId', message: 'voiceId belongs to another family' }])
+    })
+  })
+})
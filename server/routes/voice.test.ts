@@ -2,9 +2,10 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import express from 'express'
 import request from 'supertest'
 import voiceRoutes from './voice.js'
+import { initializeDb } from '../db/index.js'
 
 // Mock the voice service
-vi.mock('../services/voice.js', () => ({
+vi.mock('../services/voiceInstance.js', () => ({
   getVoiceService: () => ({
     isAvailable: () => true,
     listVoices: vi.fn().mockResolvedValue([
@@ -20,6 +21,12 @@ vi.mock('../services/voice.js', () => ({
       category: 'generated',
     }),
     textToSpeech: vi.fn().mockResolvedValue(Buffer.from([1, 2, 3])),
+    synthesizeSpeech: vi.fn().mockResolvedValue({
+      audio: new Uint8Array([1, 2, 3]),
+      contentType: 'audio/mpeg',
+      cacheKey: 'a'.repeat(64),
+      cacheHit: false,
+    }),
     speechToText: vi.fn().mockResolvedValue({
       text: 'cat',
       languageCode: 'eng',
@@ -35,19 +42,6 @@ vi.mock('../services/voice.js', () => ({
       ],
     }),
   }),
-  VoiceServiceUnavailableError: class extends Error {
-    constructor() {
-      super('Voice service unavailable')
-      this.name = 'VoiceServiceUnavailableError'
-    }
-  },
-  VoiceSettingsValidationFailedError: class extends Error {
-    constructor(errors: unknown[]) {
-      super('Validation failed')
-      this.name = 'VoiceSettingsValidationFailedError'
-      ;(this as { errors: unknown[] }).errors = errors
-    }
-  },
 }))
 
 const app = express()
@@ -57,6 +51,7 @@ app.use('/voice', voiceRoutes)
 describe('Voice Routes', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    initializeDb()
   })
 
   describe('POST /voice/stt', () => {
@@ -113,6 +108,38 @@ describe('Voice Routes', () => {
       expect(res.body.feedback).toContain('dog')
     })
 
+    it('should return per-phoneme results with a targeted hint', async () => {
+      const audioBuffer = Buffer.from([1, 2, 3, 4])
+
+      const res = await request(app)
+        .post('/voice/pronunciation-check')
+        .attach('audio', audioBuffer, 'test.webm')
+        .field('expectedWord', 'bat')
+        .field('phonemes', JSON.stringify(['b', 'æ', 't']))
+
+      expect(res.status).toBe(200)
+      expect(res.body.isCorrect).toBe(false)
+      expect(res.body.phonemes).toEqual([
+        { phoneme: 'b', status: 'substituted', heard: 'k' },
+        { phoneme: 'æ', status: 'correct' },
+        { phoneme: 't', status: 'correct' },
+      ])
+      expect(res.body.feedback).toBe('Listen to the first sound in "bat": /b/')
+    })
+
+    it('should not accept a word that only contains the expected word', async () => {
+      const audioBuffer = Buffer.from([1, 2, 3, 4])
+
+      const res = await request(app)
+        .post('/voice/pronunciation-check')
+        .attach('audio', audioBuffer, 'test.webm')
+        .field('expectedWord', 'at')
+
+      expect(res.status).toBe(200)
+      expect(res.body.isCorrect).toBe(false)
+      expect(res.body.phonemes.map((p: { status: string }) => p.status)).toEqual(['correct', 'correct'])
+    })
+
     it('should return 400 when no audio file provided', async () => {
       const res = await request(app)
         .post('/voice/pronunciation-check')
@@ -153,6 +180,7 @@ describe('Voice Routes', () => {
 
       expect(res.status).toBe(200)
       expect(res.headers['content-type']).toBe('audio/mpeg')
+      expect(res.headers['x-tts-cache']).toBe('MISS')
     })
 
     it('should return 400 when no text provided', async () => {
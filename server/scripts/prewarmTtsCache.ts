@@ -0,0 +1,88 @@
+/**
+ * Synthesize every word in src/game-data for one voice so the TTS cache
+ * already holds them when children start playing.
+ *
+ * Usage:
+ *   npm run tts:prewarm -- --voice <voiceId> [--speed 1] [--stability 0.5] [--similarity-boost 0.75]
+ *
+ * Uses the same speech provider and cache settings as the server
+ * (SPEECH_PROVIDER, ELEVENLABS_API_KEY, TTS_CACHE_DIR, TTS_CACHE_MAX_MB).
+ */
+
+import { parseArgs } from 'util'
+import { getAllSpeakableWords } from '../../src/game-data/index.js'
+import type { VoiceSettings } from '../services/voice.js'
+import { getVoiceService } from '../services/voiceInstance.js'
+
+function parseNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`--${name} must be a number`)
+  }
+  return parsed
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      voice: { type: 'string' },
+      speed: { type: 'string' },
+      stability: { type: 'string' },
+      'similarity-boost': { type: 'string' },
+    },
+  })
+
+  if (!values.voice) {
+    console.error('Usage: npm run tts:prewarm -- --voice <voiceId> [--speed 1] [--stability 0.5] [--similarity-boost 0.75]')
+    process.exit(1)
+  }
+
+  const voiceSettings: VoiceSettings = {
+    speed: parseNumber('speed', values.speed),
+    stability: parseNumber('stability', values.stability),
+    similarityBoost: parseNumber('similarity-boost', values['similarity-boost']),
+  }
+
+  const voiceService = getVoiceService()
+  if (!voiceService.isAvailable()) {
+    console.error('Voice service not configured. Set ELEVENLABS_API_KEY or SPEECH_PROVIDER=local.')
+    process.exit(1)
+  }
+
+  const words = getAllSpeakableWords()
+  let hits = 0
+  let failures = 0
+
+  console.log(`Prewarming ${words.length} words for voice ${values.voice}...`)
+
+  // One at a time to stay well under provider rate limits
+  for (const [index, word] of words.entries()) {
+    try {
+      const { cacheHit } = await voiceService.synthesizeSpeech({
+        voiceId: values.voice,
+        text: word,
+        voiceSettings,
+      })
+      if (cacheHit) hits++
+    } catch (error) {
+      failures++
+      console.error(`Failed to synthesize "${word}":`, error instanceof Error ? error.message : error)
+    }
+
+    if ((index + 1) % 50 === 0) {
+      console.log(`  ${index + 1}/${words.length}`)
+    }
+  }
+
+  const synthesized = words.length - hits - failures
+  console.log(`Done: ${synthesized} synthesized, ${hits} already cached, ${failures} failed`)
+  if (failures > 0) {
+    process.exitCode = 1
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
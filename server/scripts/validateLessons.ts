@@ -0,0 +1,74 @@
+/**
+ * Validate every lesson JSON file in src/lessons (or the files given).
+ *
+ * Usage:
+ *   npm run lessons:validate [-- path/to/lesson.json ...]
+ *
+ * Exits non-zero if any file fails, so it can run in CI. When checking the
+ * whole directory, prerequisites must also name seeded lessons and must not
+ * form a cycle.
+ */
+
+import { readdirSync, readFileSync } from 'fs'
+import { join, dirname, relative } from 'path'
+import { fileURLToPath } from 'url'
+import { validateLessonContent, formatLessonValidationErrors } from '../services/lessonValidation.js'
+import { findPrerequisiteCycle, PrerequisiteNode } from '../services/lessonPrerequisites.js'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+const lessonsDir = join(__dirname, '../../src/lessons')
+
+function lessonFiles(args: string[]): string[] {
+  if (args.length > 0) return args
+  return readdirSync(lessonsDir)
+    .filter(f => f.endsWith('.json'))
+    .sort()
+    .map(f => join(lessonsDir, f))
+}
+
+let failed = 0
+const args = process.argv.slice(2)
+const files = lessonFiles(args)
+const graph: PrerequisiteNode[] = []
+
+for (const file of files) {
+  const name = relative(process.cwd(), file)
+  let lesson: unknown
+  try {
+    lesson = JSON.parse(readFileSync(file, 'utf-8'))
+  } catch (err) {
+    failed++
+    console.error(`✗ ${name}\n  ${err instanceof Error ? err.message : err}`)
+    continue
+  }
+
+  const errors = validateLessonContent(lesson)
+  if (errors.length > 0) {
+    failed++
+    console.error(`✗ ${name}\n${formatLessonValidationErrors(errors).replace(/^/gm, '  ')}`)
+  } else {
+    console.log(`✓ ${name}`)
+    const { id, prerequisites } = lesson as { id: string; prerequisites?: string[] }
+    graph.push({ id, prerequisites: prerequisites ?? [] })
+  }
+}
+
+const graphErrors: string[] = []
+if (args.length === 0) {
+  const ids = new Set(graph.map(lesson => lesson.id))
+  for (const lesson of graph) {
+    for (const id of lesson.prerequisites.filter(prerequisite => !ids.has(prerequisite))) {
+      graphErrors.push(`${lesson.id}: prerequisite "${id}" is not a seeded lesson`)
+    }
+  }
+  const cycle = findPrerequisiteCycle(graph)
+  if (cycle) {
+    graphErrors.push(`prerequisites form a cycle: ${cycle.join(' → ')}`)
+  }
+  graphErrors.forEach(error => console.error(`✗ ${error}`))
+}
+
+console.log(`\n${files.length - failed}/${files.length} lesson files valid`)
+if (failed > 0 || graphErrors.length > 0) {
+  process.exitCode = 1
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { generateLesson, getSupportedSubjects, ChildProfile, LessonGenerationRequest } from './ai.js'
+import { createAIProvider, aiProviderConfigFromEnv } from './aiProvider.js'
 
 describe('AI Service', () => {
   const mockChildProfile: ChildProfile = {
@@ -11,51 +12,57 @@ describe('AI Service', () => {
   }
 
   const mockLessonResponse = {
-    title: 'Counting with Dinosaurs',
-    subject: 'math',
-    gradeLevel: '2nd grade',
+    title: 'Dinosaurs Dig -ig Words',
+    subject: 'word-families',
+    gradeLevel: 'kindergarten',
     difficulty: 'easy',
-    durationMinutes: 30,
+    durationMinutes: 15,
     objectives: [
-      'Count objects up to 100',
-      'Understand grouping by 10s',
-      'Apply counting to real-world scenarios'
+      'Read words in the -ig family',
+      'Build -ig words from beginning sounds',
+      'Read a short sentence with -ig words'
     ],
+    tags: ['word-families'],
     activities: [
       {
-        step: 1,
-        title: 'Dinosaur Counting Warm-up',
-        instructions: 'Show the child pictures of dinosaurs in groups. Ask them to count how many dinosaurs they see.',
-        durationMinutes: 5,
-        type: 'introduction'
+        id: 'intro',
+        type: 'phonics',
+        order: 0,
+        instructions: "Let's listen to the -ig sound!",
+        sound: 'ig',
+        exampleWords: ['dig', 'big']
       },
       {
-        step: 2,
-        title: 'Grouping Practice',
-        instructions: 'Using toy dinosaurs or drawings, have the child arrange them into groups of 10.',
-        durationMinutes: 15,
-        type: 'practice'
+        id: 'build',
+        type: 'word-building',
+        order: 1,
+        instructions: 'Help the dinosaur build -ig words!',
+        pattern: 'ig',
+        onsets: ['d', 'b', 'p'],
+        words: ['dig', 'big', 'pig']
       },
       {
-        step: 3,
-        title: 'Counting Challenge',
-        instructions: 'Present various groups of dinosaurs and ask the child to count them quickly.',
-        durationMinutes: 8,
-        type: 'assessment'
+        id: 'spell',
+        type: 'spelling',
+        order: 2,
+        instructions: 'Spell the word the dinosaur found!',
+        word: 'dig',
+        hint: '🦕'
       },
       {
-        step: 4,
-        title: 'Wrap-up',
-        instructions: 'Review what was learned and praise their efforts.',
-        durationMinutes: 2,
-        type: 'wrap-up'
+        id: 'check',
+        type: 'quiz',
+        order: 3,
+        instructions: 'Pick the -ig word!',
+        question: 'Which word rhymes with dig?',
+        options: ['big', 'dog', 'sun'],
+        correctIndex: 0
       }
     ],
-    materials: ['Dinosaur pictures or toys', 'Paper and crayons', 'Number chart 1-100'],
+    materials: ['Toy dinosaurs'],
     assessmentCriteria: [
-      'Child can count objects up to 50 without help',
-      'Child can group objects into 10s',
-      'Child shows enthusiasm during activities'
+      'Child can read dig, big and pig',
+      'Child can build a new -ig word'
     ]
   }
 
@@ -63,11 +70,10 @@ describe('AI Service', () => {
     it('returns list of supported subjects', () => {
       const subjects = getSupportedSubjects()
       expect(subjects).toContain('reading')
-      expect(subjects).toContain('math')
-      expect(subjects).toContain('science')
-      expect(subjects).toContain('writing')
-      expect(subjects).toContain('art')
-      expect(subjects.length).toBeGreaterThan(0)
+      expect(subjects).toContain('phonics')
+      expect(subjects).toContain('word-families')
+      expect(subjects).not.toContain('math')
+      expect(subjects).not.toContain('art')
     })
   })
 
@@ -84,6 +90,9 @@ describe('AI Service', () => {
       process.env = originalEnv
     })
 
+    const provider = (name: string) =>
+      createAIProvider({ ...aiProviderConfigFromEnv(process.env, name), retryDelayMs: 0 })
+
     it('rejects unsupported subjects', async () => {
       process.env.XAI_API_KEY = 'test-key'
 
@@ -92,30 +101,28 @@ describe('AI Service', () => {
         subject: 'underwater-basket-weaving'
       }
 
-      await expect(generateLesson(request)).rejects.toThrow('Unsupported subject')
+      await expect(generateLesson(request, provider('grok'))).rejects.toThrow('Unsupported subject')
     })
 
-    it('throws error when API key is missing for Grok', async () => {
+    it('rejects subjects the lesson player has no activities for', async () => {
+      process.env.XAI_API_KEY = 'test-key'
+      global.fetch = vi.fn()
+
+      await expect(generateLesson({ childProfile: mockChildProfile, subject: 'math' }, provider('grok'))).rejects.toThrow('Unsupported subject: math')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('throws error when API key is missing for Grok', () => {
       delete process.env.XAI_API_KEY
       delete process.env.GROK_API_KEY
 
-      const request: LessonGenerationRequest = {
-        childProfile: mockChildProfile,
-        subject: 'math'
-      }
-
-      await expect(generateLesson(request, 'grok')).rejects.toThrow('XAI_API_KEY or GROK_API_KEY environment variable is required')
+      expect(() => provider('grok')).toThrow('XAI_API_KEY or GROK_API_KEY environment variable is required')
     })
 
-    it('throws error when API key is missing for Claude', async () => {
+    it('throws error when API key is missing for Claude', () => {
       delete process.env.ANTHROPIC_API_KEY
 
-      const request: LessonGenerationRequest = {
-        childProfile: mockChildProfile,
-        subject: 'math'
-      }
-
-      await expect(generateLesson(request, 'claude')).rejects.toThrow('ANTHROPIC_API_KEY environment variable is required')
+      expect(() => provider('claude')).toThrow('ANTHROPIC_API_KEY environment variable is required')
     })
 
     it('generates lesson using Grok API', async () => {
@@ -134,19 +141,20 @@ describe('AI Service', () => {
 
       const request: LessonGenerationRequest = {
         childProfile: mockChildProfile,
-        subject: 'math',
-        topic: 'counting'
+        subject: 'word-families',
+        topic: 'dinosaurs with -ig words'
       }
 
-      const lesson = await generateLesson(request, 'grok')
+      const { lesson } = await generateLesson(request, provider('grok'))
 
-      expect(lesson.title).toBe('Counting with Dinosaurs')
-      expect(lesson.subject).toBe('math')
+      expect(lesson.title).toBe('Dinosaurs Dig -ig Words')
+      expect(lesson.subject).toBe('word-families')
       expect(lesson.id).toBeDefined()
       expect(lesson.source).toBe('ai-generated')
       expect(lesson.objectives).toHaveLength(3)
-      expect(lesson.activities).toHaveLength(4)
-      expect(lesson.materials).toContain('Dinosaur pictures or toys')
+      expect(lesson.activities.map(a => a.type)).toEqual(['phonics', 'word-building', 'spelling', 'quiz'])
+      expect(lesson.tags).toEqual(['word-families'])
+      expect(lesson.materials).toContain('Toy dinosaurs')
 
       expect(global.fetch).toHaveBeenCalledWith(
         'https://api.x.ai/v1/chat/completions',
@@ -177,9 +185,9 @@ describe('AI Service', () => {
         subject: 'reading'
       }
 
-      const lesson = await generateLesson(request, 'claude')
+      const { lesson } = await generateLesson(request, provider('claude'))
 
-      expect(lesson.title).toBe('Counting with Dinosaurs')
+      expect(lesson.title).toBe('Dinosaurs Dig -ig Words')
       expect(lesson.source).toBe('ai-generated')
 
       expect(global.fetch).toHaveBeenCalledWith(
@@ -209,11 +217,11 @@ describe('AI Service', () => {
 
       const request: LessonGenerationRequest = {
         childProfile: mockChildProfile,
-        subject: 'math'
+        subject: 'word-families'
       }
 
-      const lesson = await generateLesson(request, 'grok')
-      expect(lesson.title).toBe('Counting with Dinosaurs')
+      const { lesson } = await generateLesson(request, provider('grok'))
+      expect(lesson.title).toBe('Dinosaurs Dig -ig Words')
     })
 
     it('handles API errors gracefully', async () => {
@@ -227,10 +235,10 @@ describe('AI Service', () => {
 
       const request: LessonGenerationRequest = {
         childProfile: mockChildProfile,
-        subject: 'math'
+        subject: 'word-families'
       }
 
-      await expect(generateLesson(request, 'grok')).rejects.toThrow('Grok API error: 429')
+      await expect(generateLesson(request, provider('grok'))).rejects.toThrow('Grok API error: 429')
     })
 
     it('validates required fields in response', async () => {
@@ -249,10 +257,10 @@ describe('AI Service', () => {
 
       const request: LessonGenerationRequest = {
         childProfile: mockChildProfile,
-        subject: 'math'
+        subject: 'word-families'
       }
 
-      await expect(generateLesson(request, 'grok')).rejects.toThrow('Invalid lesson format')
+      await expect(generateLesson(request, provider('grok'))).rejects.toThrow('Invalid lesson format')
     })
 
     it('uses default duration when not specified', async () => {
@@ -275,10 +283,10 @@ describe('AI Service', () => {
 
       const request: LessonGenerationRequest = {
         childProfile: mockChildProfile,
-        subject: 'math'
+        subject: 'word-families'
       }
 
-      await generateLesson(request, 'grok')
+      await generateLesson(request, provider('grok'))
 
       expect(capturedBody).toContain('Target Duration: 30 minutes')
     })
@@ -303,14 +311,80 @@ describe('AI Service', () => {
 
       const request: LessonGenerationRequest = {
         childProfile: mockChildProfile,
-        subject: 'math'
+        subject: 'word-families'
       }
 
-      await generateLesson(request, 'grok')
+      await generateLesson(request, provider('grok'))
 
       expect(capturedBody).toContain('dinosaurs')
       expect(capturedBody).toContain('space')
       expect(capturedBody).toContain('art')
     })
+
+    it('asks for the playable activity types', async () => {
+      process.env.XAI_API_KEY = 'test-key'
+
+      let capturedBody: string = ''
+      global.fetch = vi.fn().mockImplementation(async (_url, options) => {
+        capturedBody = options?.body as string
+        return {
+          ok: true,
+          json: async () => ({ choices: [{ message: { content: JSON.stringify(mockLessonResponse) } }] })
+        }
+      })
+
+      await generateLesson({ childProfile: mockChildProfile, subject: 'word-families', topic: 'dinosaurs with -ig words' }, provider('grok'))
+
+      expect(capturedBody).toContain('dinosaurs with -ig words')
+      expect(capturedBody).toContain('\\"type\\": \\"word-building\\"')
+      expect(capturedBody).toContain('\\"correctIndex\\"')
+    })
+
+    it('repairs near-miss activities and drops unplayable ones', async () => {
+      process.env.XAI_API_KEY = 'test-key'
+
+      const response = {
+        ...mockLessonResponse,
+        subject: 'science',
+        activities: [
+          { type: 'Word_Family', instructions: 'Build words!', pattern: '-ig', onsets: ['W', 'f'], words: ['wag', 'fog'] },
+          { id: 'q', type: 'multiple choice', instructions: 'Pick one!', question: 'Which is big?', options: ['pig', 'ant'], answer: 'pig' },
+          { id: 'draw', type: 'drawing', instructions: 'Draw a dinosaur' },
+        ]
+      }
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: JSON.stringify(response) } }] })
+      })
+
+      const { lesson } = await generateLesson({ childProfile: mockChildProfile, subject: 'word-families' }, provider('grok'))
+
+      expect(lesson.subject).toBe('word-families')
+      expect(lesson.activities).toEqual([
+        { id: 'activity-1', type: 'word-building', order: 0, instructions: 'Build words!', pattern: 'ig', onsets: ['w', 'f'], words: ['wig', 'fig'] },
+        { id: 'q', type: 'quiz', order: 1, instructions: 'Pick one!', question: 'Which is big?', options: ['pig', 'ant'], correctIndex: 0 },
+      ])
+    })
+
+    it('rejects a lesson with no playable activities', async () => {
+      process.env.XAI_API_KEY = 'test-key'
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{
+            message: {
+              content: JSON.stringify({
+                ...mockLessonResponse,
+                activities: [{ step: 1, title: 'Warm-up', instructions: 'Talk about dinosaurs', type: 'introduction' }]
+              })
+            }
+          }]
+        })
+      })
+
+      await expect(generateLesson({ childProfile: mockChildProfile, subject: 'reading' }, provider('grok')))
+        .rejects.toThrow('Invalid lesson format: no playable activities')
+    })
   })
 })
@@ -1,4 +1,15 @@
-import { randomUUID } from 'crypto'
+/**
+ * AI lesson generation
+ *
+ * Builds the prompt for one child, sends it to an AI provider and turns the
+ * reply into a playable lesson. Free of Node and Workers specifics so the
+ * Express server and the Cloudflare handlers share it.
+ */
+
+import { LessonSubject, type LessonActivity } from '../../src/types/lesson.js'
+import { formatLessonValidationErrors } from './lessonValidation.js'
+import { repairLessonActivities } from './lessonRepair.js'
+import type { AIProvider, AIUsage } from './aiProvider.js'
 
 export interface ChildProfile {
   name: string
@@ -11,25 +22,19 @@ export interface ChildProfile {
 export interface GeneratedLesson {
   id: string
   title: string
-  subject: string
+  subject: LessonSubject
   gradeLevel: string
   difficulty: string
   durationMinutes: number
   objectives: string[]
-  activities: Activity[]
+  /** Playable activities, already repaired and validated */
+  activities: LessonActivity[]
+  tags: string[]
   materials: string[]
   assessmentCriteria: string[]
   source: 'ai-generated'
 }
 
-export interface Activity {
-  step: number
-  title: string
-  instructions: string
-  durationMinutes: number
-  type: 'introduction' | 'practice' | 'assessment' | 'wrap-up'
-}
-
 export interface LessonGenerationRequest {
   childProfile: ChildProfile
   subject: string
@@ -37,7 +42,8 @@ export interface LessonGenerationRequest {
   preferredDuration?: number
 }
 
-const SUPPORTED_SUBJECTS = ['reading', 'math', 'science', 'writing', 'art', 'music', 'social-studies']
+// Only subjects the lesson player has activities for
+const SUPPORTED_SUBJECTS: LessonSubject[] = Object.values(LessonSubject)
 
 function buildPrompt(request: LessonGenerationRequest): string {
   const { childProfile, subject, topic, preferredDuration } = request
@@ -63,7 +69,7 @@ function buildPrompt(request: LessonGenerationRequest): string {
     ? `The lesson should focus on: ${topic}`
     : `Generate an age-appropriate ${subject} lesson.`
 
-  return `You are an expert educational curriculum designer. Create a personalized lesson plan for a child.
+  return `You are an expert educational curriculum designer. Create a personalized reading lesson for a child.
 
 Child Profile:
 - Name: ${childProfile.name}
@@ -76,104 +82,43 @@ Subject: ${subject}
 ${topicContext}
 Target Duration: ${duration} minutes
 
-Please generate a complete lesson plan in the following JSON format:
+Please generate a lesson the child plays on screen, in the following JSON format:
 {
   "title": "Engaging lesson title",
   "subject": "${subject}",
   "gradeLevel": "appropriate grade level",
   "difficulty": "easy|medium|hard",
   "durationMinutes": ${duration},
-  "objectives": ["Learning objective 1", "Learning objective 2", "Learning objective 3"],
-  "activities": [
-    {
-      "step": 1,
-      "title": "Activity title",
-      "instructions": "Detailed instructions for the parent/teacher",
-      "durationMinutes": 5,
-      "type": "introduction|practice|assessment|wrap-up"
-    }
-  ],
-  "materials": ["Material 1", "Material 2"],
-  "assessmentCriteria": ["How to know the child understood concept 1", "Success indicator 2"]
+  "objectives": ["Learning objective 1", "Learning objective 2"],
+  "tags": ["word-families"],
+  "activities": [ ...5 to 8 activities, see below... ],
+  "materials": ["Material 1"],
+  "assessmentCriteria": ["How to know the child understood"]
 }
 
+Every activity has "id" (unique), "type", "order" (0, 1, 2...) and "instructions" (one short sentence read aloud to the child), plus the fields for its type:
+- {"type": "reading", "content": "A short decodable sentence or story"}
+- {"type": "spelling", "word": "pig", "hint": "🐷"} (word is letters only)
+- {"type": "phonics", "sound": "ig", "exampleWords": ["pig", "dig"], "soundPosition": "end"}
+- {"type": "sight-words", "words": ["the", "and"]}
+- {"type": "quiz", "question": "Which word rhymes with pig?", "options": ["big", "cat", "sun"], "correctIndex": 0}
+- {"type": "matching", "pairs": [["pig", "🐷"], ["dig", "⛏️"]], "matchType": "word-picture"}
+- {"type": "fill-in-blank", "sentence": "The ___ is pink.", "answer": "pig", "wordBank": ["pig", "big"]}
+- {"type": "listen-repeat", "phrase": "big pig"}
+- {"type": "word-building", "pattern": "ig", "onsets": ["p", "d", "w"], "words": ["pig", "dig", "wig"]}
+
 Requirements:
-- Make activities engaging and age-appropriate
-- Include a mix of activity types
-- Keep instructions clear for parents who may not be teachers
-- Ensure objectives are measurable
-- Materials should be commonly available at home
+- Use only the activity types above
+- Use simple, decodable words a beginning reader can sound out
+- If the topic names a word family or sound (like "-ig words"), build the activities around it
+- Weave the child's interests into sentences and examples
+- Start with a reading or phonics activity and mix practice with quiz or spelling activities
+- Tags may include: letter-sounds, cvc, word-families, beginning-blends, ending-blends, sight-words
 
 Return ONLY the JSON object, no additional text.`
 }
 
-async function callGrokAPI(prompt: string): Promise<string> {
-  const apiKey = process.env.XAI_API_KEY || process.env.GROK_API_KEY
-
-  if (!apiKey) {
-    throw new Error('XAI_API_KEY or GROK_API_KEY environment variable is required')
-  }
-
-  const response = await fetch('https://api.x.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: 'grok-2-latest',
-      messages: [
-        { role: 'system', content: 'You are an expert educational curriculum designer. Always respond with valid JSON only.' },
-        { role: 'user', content: prompt }
-      ],
-      temperature: 0.7,
-      max_tokens: 2000
-    })
-  })
-
-  if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Grok API error: ${response.status} - ${error}`)
-  }
-
-  const data = await response.json() as { choices: Array<{ message: { content: string } }> }
-  return data.choices[0]?.message?.content || ''
-}
-
-async function callClaudeAPI(prompt: string): Promise<string> {
-  const apiKey = process.env.ANTHROPIC_API_KEY
-
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY environment variable is required')
-  }
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 2000,
-      messages: [
-        { role: 'user', content: prompt }
-      ]
-    })
-  })
-
-  if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Claude API error: ${response.status} - ${error}`)
-  }
-
-  const data = await response.json() as { content: Array<{ type: string, text: string }> }
-  const textBlock = data.content.find(block => block.type === 'text')
-  return textBlock?.text || ''
-}
-
-function parseAIResponse(response: string): Omit<GeneratedLesson, 'id' | 'source'> {
+function parseAIResponse(response: string, subject: LessonSubject): Omit<GeneratedLesson, 'id' | 'source'> {
   // Extract JSON from response (handles markdown code blocks)
   let jsonStr = response.trim()
 
@@ -189,54 +134,64 @@ function parseAIResponse(response: string): Omit<GeneratedLesson, 'id' | 'source
     throw new Error('Invalid lesson format: missing required fields')
   }
 
+  const { activities, errors } = repairLessonActivities(parsed.activities)
+  if (activities.length === 0) {
+    throw new Error(`Invalid lesson format: no playable activities\n${formatLessonValidationErrors(errors)}`)
+  }
+
   return {
     title: parsed.title,
-    subject: parsed.subject,
+    // Models sometimes drift to a broader subject; keep the one asked for
+    subject,
     gradeLevel: parsed.gradeLevel || 'unspecified',
     difficulty: parsed.difficulty || 'medium',
     durationMinutes: parsed.durationMinutes || 30,
     objectives: parsed.objectives,
-    activities: parsed.activities.map((a: Activity, idx: number) => ({
-      step: a.step || idx + 1,
-      title: a.title,
-      instructions: a.instructions,
-      durationMinutes: a.durationMinutes || 5,
-      type: a.type || 'practice'
-    })),
+    activities,
+    tags: Array.isArray(parsed.tags) ? parsed.tags.filter((tag: unknown) => typeof tag === 'string') : [],
     materials: parsed.materials || [],
     assessmentCriteria: parsed.assessmentCriteria || []
   }
 }
 
-export type AIProvider = 'grok' | 'claude'
+const SYSTEM_PROMPT = 'You are an expert early reading curriculum designer. Always respond with valid JSON only.'
+
+export interface GeneratedLessonResult {
+  lesson: GeneratedLesson
+  /** Tokens and cost of the provider call, for per-user accounting */
+  usage: AIUsage
+}
 
 export async function generateLesson(
   request: LessonGenerationRequest,
-  provider: AIProvider = 'grok'
-): Promise<GeneratedLesson> {
+  provider: AIProvider
+): Promise<GeneratedLessonResult> {
   // Validate subject
-  if (!SUPPORTED_SUBJECTS.includes(request.subject.toLowerCase())) {
+  const subject = request.subject.toLowerCase() as LessonSubject
+  if (!SUPPORTED_SUBJECTS.includes(subject)) {
     throw new Error(`Unsupported subject: ${request.subject}. Supported: ${SUPPORTED_SUBJECTS.join(', ')}`)
   }
 
-  const prompt = buildPrompt(request)
-
-  let response: string
-  if (provider === 'claude') {
-    response = await callClaudeAPI(prompt)
-  } else {
-    response = await callGrokAPI(prompt)
-  }
+  const lessonRequest = { ...request, subject }
+  const completion = await provider.complete({
+    system: SYSTEM_PROMPT,
+    prompt: buildPrompt(lessonRequest),
+    maxTokens: 2000,
+    lesson: lessonRequest,
+  })
 
-  const lessonData = parseAIResponse(response)
+  const lessonData = parseAIResponse(completion.text, subject)
 
   return {
-    id: randomUUID(),
-    ...lessonData,
-    source: 'ai-generated'
+    lesson: {
+      id: crypto.randomUUID(),
+      ...lessonData,
+      source: 'ai-generated'
+    },
+    usage: completion.usage,
   }
 }
 
-export function getSupportedSubjects(): string[] {
+export function getSupportedSubjects(): LessonSubject[] {
   return [...SUPPORTED_SUBJECTS]
 }
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  createAIProvider,
+  createOfflineAIProvider,
+  aiProviderConfigFromEnv,
+  estimateCostUsd,
+  summarizeAIUsage,
+  type AICompletionRequest,
+} from './aiProvider.js'
+import { generateLesson, type LessonGenerationRequest } from './ai.js'
+
+const lesson: LessonGenerationRequest = {
+  childProfile: { name: 'Emma', age: 5, gradeLevel: 'kindergarten', learningStyle: 'visual', interests: ['Dinosaurs'] },
+  subject: 'word-families',
+}
+
+const request: AICompletionRequest = { system: 'Respond with JSON', prompt: 'Write a lesson', maxTokens: 100, lesson }
+
+function grokResponse(status = 200) {
+  return {
+    ok: status === 200,
+    status,
+    text: async () => 'upstream said no',
+    json: async () => ({
+      choices: [{ message: { content: '{"title":"Hi"}' } }],
+      usage: { prompt_tokens: 1000, completion_tokens: 500 },
+    }),
+  }
+}
+
+describe('AI Provider', () => {
+  const originalFetch = global.fetch
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('createAIProvider', () => {
+    it('should use the first provider with a key, then offline', () => {
+      expect(createAIProvider({ xaiApiKey: 'x', anthropicApiKey: 'a' }).name).toBe('grok')
+      expect(createAIProvider({ anthropicApiKey: 'a' }).name).toBe('claude')
+      expect(createAIProvider({}).name).toBe('offline')
+    })
+
+    it('should accept vendor names as aliases', () => {
+      expect(createAIProvider({ provider: 'xAI', xaiApiKey: 'x' }).name).toBe('grok')
+      expect(createAIProvider({ provider: 'anthropic', anthropicApiKey: 'a' }).name).toBe('claude')
+      expect(createAIProvider({ provider: ' mock ' }).name).toBe('offline')
+    })
+
+    it('should reject unknown providers', () => {
+      expect(() => createAIProvider({ provider: 'acme' })).toThrow('Unknown AI provider "acme"')
+    })
+
+    it('should read the environment, letting the request choose the provider', () => {
+      const env = { AI_PROVIDER: 'claude', GROK_API_KEY: 'g', AI_TIMEOUT_MS: '5000', AI_MAX_RETRIES: 'lots' }
+
+      expect(aiProviderConfigFromEnv(env)).toEqual({
+        provider: 'claude',
+        xaiApiKey: 'g',
+        anthropicApiKey: undefined,
+        timeoutMs: 5000,
+        maxRetries: undefined,
+      })
+      expect(aiProviderConfigFromEnv(env, 'offline').provider).toBe('offline')
+    })
+  })
+
+  describe('remote calls', () => {
+    it('should report tokens and cost', async () => {
+      global.fetch = vi.fn().mockResolvedValue(grokResponse())
+
+      const completion = await createAIProvider({ provider: 'grok', xaiApiKey: 'x' }).complete(request)
+
+      expect(completion.text).toBe('{"title":"Hi"}')
+      expect(completion.usage).toEqual({
+        provider: 'grok',
+        model: 'grok-2-latest',
+        inputTokens: 1000,
+        outputTokens: 500,
+        costUsd: estimateCostUsd('grok-2-latest', 1000, 500),
+      })
+    })
+
+    it('should retry rate limits and server errors', async () => {
+      global.fetch = vi.fn()
+        .mockResolvedValueOnce(grokResponse(429))
+        .mockResolvedValueOnce(grokResponse(503))
+        .mockResolvedValueOnce(grokResponse())
+
+      const provider = createAIProvider({ provider: 'grok', xaiApiKey: 'x', maxRetries: 2, retryDelayMs: 0 })
+
+      await expect(provider.complete(request)).resolves.toMatchObject({ text: '{"title":"Hi"}' })
+      expect(global.fetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('should give up after the retry limit', async () => {
+      global.fetch = vi.fn().mockResolvedValue(grokResponse(500))
+
+      const provider = createAIProvider({ provider: 'grok', xaiApiKey: 'x', maxRetries: 1, retryDelayMs: 0 })
+
+      await expect(provider.complete(request)).rejects.toThrow('Grok API error: 500 - upstream said no')
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry bad requests', async () => {
+      global.fetch = vi.fn().mockResolvedValue(grokResponse(400))
+
+      const provider = createAIProvider({ provider: 'grok', xaiApiKey: 'x', retryDelayMs: 0 })
+
+      await expect(provider.complete(request)).rejects.toThrow('Grok API error: 400')
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should time out a call that never answers', async () => {
+      global.fetch = vi.fn().mockImplementation((_url, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new Error('aborted')))
+      }))
+
+      const provider = createAIProvider({ provider: 'claude', anthropicApiKey: 'a', timeoutMs: 10, maxRetries: 0 })
+
+      await expect(provider.complete(request)).rejects.toThrow('Claude API timed out after 10ms')
+    })
+  })
+
+  describe('offline provider', () => {
+    it('should never touch the network', async () => {
+      global.fetch = vi.fn()
+
+      const completion = await createOfflineAIProvider().complete(request)
+
+      expect(global.fetch).not.toHaveBeenCalled()
+      expect(completion.usage).toEqual({ provider: 'offline', model: 'offline-templates', inputTokens: 0, outputTokens: 0, costUsd: 0 })
+    })
+
+    it('should generate the same playable lesson every time', async () => {
+      const first = await generateLesson({ ...lesson, topic: 'dinosaurs with -ig words' }, createOfflineAIProvider())
+      const second = await generateLesson({ ...lesson, topic: 'dinosaurs with -ig words' }, createOfflineAIProvider())
+
+      expect(first.lesson.title).toBe('Dinosaurs and -IG Words')
+      expect(first.lesson.activities).toHaveLength(6)
+      expect(first.lesson.activities.map(activity => activity.type)).toEqual(
+        ['phonics', 'word-building', 'reading', 'spelling', 'quiz', 'fill-in-blank']
+      )
+      expect({ ...second.lesson, id: first.lesson.id }).toEqual(first.lesson)
+    })
+
+    it('should theme the lesson on an interest when there is no topic', async () => {
+      const { lesson: generated } = await generateLesson(lesson, createOfflineAIProvider())
+
+      expect(generated.title).toBe('Dinosaurs and -AT Words')
+      expect(generated.tags).toEqual(['word-families'])
+    })
+
+    it('should write sight word lessons', async () => {
+      const { lesson: generated } = await generateLesson({ ...lesson, subject: 'sight-words' }, createOfflineAIProvider())
+
+      expect(generated.subject).toBe('sight-words')
+      expect(generated.activities).toHaveLength(4)
+    })
+  })
+
+  describe('summarizeAIUsage', () => {
+    it('should total usage across models', () => {
+      const summary = summarizeAIUsage([
+        { provider: 'claude', model: 'claude-sonnet-4-20250514', requests: 2, input_tokens: 300, output_tokens: 100, cost_usd: 0.0024 },
+        { provider: 'grok', model: 'grok-2-latest', requests: 1, input_tokens: 200, output_tokens: 50, cost_usd: 0.0009 },
+      ])
+
+      expect(summary).toMatchObject({ requests: 3, inputTokens: 500, outputTokens: 150 })
+      expect(summary.costUsd).toBeCloseTo(0.0033)
+      expect(summary.byModel[1]).toEqual({
+        provider: 'grok', model: 'grok-2-latest', requests: 1, inputTokens: 200, outputTokens: 50, costUsd: 0.0009,
+      })
+    })
+  })
+})
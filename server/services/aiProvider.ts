@@ -0,0 +1,359 @@
+/**
+ * AI providers behind lesson generation.
+ *
+ * `grok` calls the xAI chat completions API and `claude` the Anthropic
+ * messages API. `offline` is a deterministic template-based stand-in for
+ * development and CI that never touches the network (see
+ * offlineLessonGenerator.ts).
+ *
+ * Select one with `AI_PROVIDER`; without it the first provider with an API key
+ * is used, falling back to `offline`. Remote calls time out after
+ * `AI_TIMEOUT_MS` and rate limits, server errors and timeouts are retried up
+ * to `AI_MAX_RETRIES` times. Free of Node and Workers specifics so the Express
+ * server and the Cloudflare handlers share it.
+ */
+
+import type { LessonGenerationRequest } from './ai.js'
+import { generateOfflineLesson } from './offlineLessonGenerator.js'
+
+export type AIProviderName = 'grok' | 'claude' | 'offline'
+
+export const AI_PROVIDER_NAMES: AIProviderName[] = ['grok', 'claude', 'offline']
+
+/** Other names people use for the providers */
+const PROVIDER_ALIASES: Record<string, AIProviderName> = {
+  xai: 'grok',
+  anthropic: 'claude',
+  mock: 'offline',
+}
+
+/** US dollars per million tokens */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'grok-2-latest': { input: 2, output: 10 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000
+const DEFAULT_MAX_RETRIES = 2
+const DEFAULT_RETRY_DELAY_MS = 500
+
+export interface AICompletionRequest {
+  system: string
+  prompt: string
+  maxTokens: number
+  /** What the prompt asks for, so the offline provider can answer without a model */
+  lesson: LessonGenerationRequest
+}
+
+export interface AIUsage {
+  provider: AIProviderName
+  model: string
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+export interface AICompletion {
+  text: string
+  usage: AIUsage
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName
+  readonly model: string
+  complete(request: AICompletionRequest): Promise<AICompletion>
+}
+
+/** Environment variables read by aiProviderConfigFromEnv */
+export interface AIEnv {
+  AI_PROVIDER?: string
+  AI_TIMEOUT_MS?: string
+  AI_MAX_RETRIES?: string
+  XAI_API_KEY?: string
+  GROK_API_KEY?: string
+  ANTHROPIC_API_KEY?: string
+}
+
+export interface AIProviderConfig {
+  /** Provider name, usually from AI_PROVIDER or the request */
+  provider?: string
+  xaiApiKey?: string
+  anthropicApiKey?: string
+  timeoutMs?: number
+  maxRetries?: number
+  /** First retry waits this long, doubling after each attempt */
+  retryDelayMs?: number
+}
+
+/**
+ * Error from a provider API. Rate limits, server errors and timeouts are
+ * worth another try; anything else is not.
+ */
+export class AIProviderError extends Error {
+  readonly retryable: boolean
+
+  constructor(message: string, retryable: boolean) {
+    super(message)
+    this.name = 'AIProviderError'
+    this.retryable = retryable
+  }
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+/**
+ * Provider config from environment variables. `provider` (for example from a
+ * request body) takes precedence over AI_PROVIDER.
+ */
+export function aiProviderConfigFromEnv(env: AIEnv, provider?: string): AIProviderConfig {
+  return {
+    provider: provider || env.AI_PROVIDER,
+    xaiApiKey: env.XAI_API_KEY || env.GROK_API_KEY,
+    anthropicApiKey: env.ANTHROPIC_API_KEY,
+    timeoutMs: parseNumber(env.AI_TIMEOUT_MS),
+    maxRetries: parseNumber(env.AI_MAX_RETRIES),
+  }
+}
+
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = MODEL_PRICING[model]
+  if (!pricing) return 0
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000
+}
+
+/**
+ * Create the configured provider. Throws when a remote provider is selected
+ * without its API key.
+ */
+export function createAIProvider(config: AIProviderConfig = {}): AIProvider {
+  const requested = config.provider?.trim().toLowerCase()
+  const name = requested
+    ? PROVIDER_ALIASES[requested] ?? requested
+    : config.xaiApiKey ? 'grok' : config.anthropicApiKey ? 'claude' : 'offline'
+
+  const options: RemoteOptions = {
+    timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+    retryDelayMs: config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+  }
+
+  switch (name) {
+    case 'grok':
+      if (!config.xaiApiKey) {
+        throw new Error('XAI_API_KEY or GROK_API_KEY environment variable is required')
+      }
+      return createGrokProvider(config.xaiApiKey, options)
+    case 'claude':
+      if (!config.anthropicApiKey) {
+        throw new Error('ANTHROPIC_API_KEY environment variable is required')
+      }
+      return createClaudeProvider(config.anthropicApiKey, options)
+    case 'offline':
+      return createOfflineAIProvider()
+    default:
+      throw new Error(`Unknown AI provider "${config.provider}". Expected one of: ${AI_PROVIDER_NAMES.join(', ')}`)
+  }
+}
+
+// --- Remote providers ---
+
+interface RemoteOptions {
+  timeoutMs: number
+  maxRetries: number
+  retryDelayMs: number
+}
+
+/**
+ * POST JSON with a timeout, retrying failures that may go away
+ */
+async function postWithRetries<T>(
+  label: string,
+  url: string,
+  init: { headers: Record<string, string>; body: unknown },
+  options: RemoteOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await postOnce<T>(label, url, init, options.timeoutMs)
+    } catch (error) {
+      const retryable = error instanceof AIProviderError && error.retryable
+      if (!retryable || attempt >= options.maxRetries) throw error
+      const delay = options.retryDelayMs * 2 ** attempt
+      if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+}
+
+async function postOnce<T>(
+  label: string,
+  url: string,
+  init: { headers: Record<string, string>; body: unknown },
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+      body: JSON.stringify(init.body),
+      signal: controller.signal,
+    })
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new AIProviderError(`${label} API timed out after ${timeoutMs}ms`, true)
+    }
+    throw new AIProviderError(`${label} API request failed: ${error instanceof Error ? error.message : error}`, true)
+  } finally {
+    clearTimeout(timer)
+  }
+
+  if (!response.ok) {
+    const error = await response.text()
+    const retryable = response.status === 429 || response.status >= 500
+    throw new AIProviderError(`${label} API error: ${response.status} - ${error}`, retryable)
+  }
+  return await response.json() as T
+}
+
+function usageFor(provider: AIProviderName, model: string, inputTokens = 0, outputTokens = 0): AIUsage {
+  return { provider, model, inputTokens, outputTokens, costUsd: estimateCostUsd(model, inputTokens, outputTokens) }
+}
+
+function createGrokProvider(apiKey: string, options: RemoteOptions): AIProvider {
+  const model = 'grok-2-latest'
+
+  return {
+    name: 'grok',
+    model,
+    async complete(request) {
+      const data = await postWithRetries<{
+        choices: Array<{ message: { content: string } }>
+        usage?: { prompt_tokens?: number; completion_tokens?: number }
+      }>('Grok', 'https://api.x.ai/v1/chat/completions', {
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+        body: {
+          model,
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.prompt }
+          ],
+          temperature: 0.7,
+          max_tokens: request.maxTokens
+        }
+      }, options)
+
+      return {
+        text: data.choices[0]?.message?.content || '',
+        usage: usageFor('grok', model, data.usage?.prompt_tokens, data.usage?.completion_tokens),
+      }
+    },
+  }
+}
+
+function createClaudeProvider(apiKey: string, options: RemoteOptions): AIProvider {
+  const model = 'claude-sonnet-4-20250514'
+
+  return {
+    name: 'claude',
+    model,
+    async complete(request) {
+      const data = await postWithRetries<{
+        content: Array<{ type: string; text: string }>
+        usage?: { input_tokens?: number; output_tokens?: number }
+      }>('Claude', 'https://api.anthropic.com/v1/messages', {
+        headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+        body: {
+          model,
+          max_tokens: request.maxTokens,
+          system: request.system,
+          messages: [
+            { role: 'user', content: request.prompt }
+          ]
+        }
+      }, options)
+
+      const textBlock = data.content.find(block => block.type === 'text')
+      return {
+        text: textBlock?.text || '',
+        usage: usageFor('claude', model, data.usage?.input_tokens, data.usage?.output_tokens),
+      }
+    },
+  }
+}
+
+// --- Offline ---
+
+export function createOfflineAIProvider(): AIProvider {
+  const model = 'offline-templates'
+
+  return {
+    name: 'offline',
+    model,
+    async complete(request) {
+      return {
+        text: JSON.stringify(generateOfflineLesson(request.lesson)),
+        usage: usageFor('offline', model),
+      }
+    },
+  }
+}
+
+// --- Accounting ---
+
+/** One `ai_usage` row group, as both backends query it */
+export interface AIUsageRow {
+  provider: string
+  model: string
+  requests: number
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number
+}
+
+export interface AIUsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+export interface AIUsageSummary extends AIUsageTotals {
+  byModel: Array<AIUsageTotals & { provider: string; model: string }>
+}
+
+/** SQL that groups a user's `ai_usage` rows into AIUsageRow; bind the user id */
+export const AI_USAGE_SUMMARY_SQL = `
+  SELECT provider, model, COUNT(*) as requests,
+    COALESCE(SUM(input_tokens), 0) as input_tokens,
+    COALESCE(SUM(output_tokens), 0) as output_tokens,
+    COALESCE(SUM(cost_usd), 0) as cost_usd
+  FROM ai_usage
+  WHERE user_id = ?
+  GROUP BY provider, model
+  ORDER BY provider, model
+`
+
+export function summarizeAIUsage(rows: AIUsageRow[]): AIUsageSummary {
+  const byModel = rows.map(row => ({
+    provider: row.provider,
+    model: row.model,
+    requests: row.requests,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    costUsd: row.cost_usd,
+  }))
+  return {
+    requests: byModel.reduce((total, row) => total + row.requests, 0),
+    inputTokens: byModel.reduce((total, row) => total + row.inputTokens, 0),
+    outputTokens: byModel.reduce((total, row) => total + row.outputTokens, 0),
+    costUsd: byModel.reduce((total, row) => total + row.costUsd, 0),
+    byModel,
+  }
+}
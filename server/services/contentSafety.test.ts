@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import { checkLessonSafety, checkLessonRowSafety, reviewLessonSafety, reviewLessonEdit } from './contentSafety.js'
+
+const cleanActivities = [
+  { id: 'read', type: 'reading', order: 0, instructions: "Let's read together!", content: 'The pig can dig. The pig is big.' },
+  { id: 'spell', type: 'spelling', order: 1, instructions: 'Spell the word!', word: 'pig', audioUrl: 'https://example.com/pig.mp3' },
+]
+
+describe('Content Safety', () => {
+  describe('checkLessonSafety', () => {
+    it('should pass an ordinary lesson', () => {
+      expect(checkLessonSafety({
+        title: 'The Big Pig',
+        description: 'A short story about a pig that likes to dig',
+        objectives: [{ description: 'Read -ig words' }],
+        activities: cleanActivities,
+      })).toEqual([])
+    })
+
+    it('should flag blocklisted words anywhere, as whole words only', () => {
+      const flags = checkLessonSafety({
+        title: 'A Stupid Lesson',
+        activities: [{ id: 'r', type: 'reading', instructions: 'Read!', content: 'The class has skill. The hunter will kill the fox.' }],
+      })
+
+      expect(flags).toEqual([
+        { field: 'title', rule: 'blocklist', message: '"stupid" is not suitable for young children' },
+        { field: 'activities[0].content', rule: 'blocklist', message: '"kill" is not suitable for young children' },
+      ])
+    })
+
+    it('should flag personal details', () => {
+      const flags = checkLessonSafety({
+        objectives: ['Email mom@example.com'],
+        activities: [
+          { id: 'r', type: 'reading', instructions: 'Read!', content: 'Call 555-123-4567. I live at 42 Maple Street.' },
+        ],
+      })
+
+      expect(flags.map(flag => [flag.field, flag.message])).toEqual([
+        ['objectives[0]', 'Looks like an email address'],
+        ['activities[0].content', 'Looks like a phone number'],
+        ['activities[0].content', 'Looks like a street address'],
+      ])
+    })
+
+    it('should hold activities to the reading level of the age range', () => {
+      const content = 'The cat and the dog and the pig and the hen ran up the big hill to the top.'
+      const activities = [{ id: 'r', type: 'reading', instructions: 'Read!', content }]
+
+      expect(checkLessonSafety({ activities, ageMax: 5 })).toEqual([{
+        field: 'activities[0].content',
+        rule: 'sentence-length',
+        message: 'A sentence has 19 words; keep to 12 or fewer for ages up to 5',
+      }])
+      expect(checkLessonSafety({ activities, ageMax: 9 })).toEqual([])
+    })
+
+    it('should flag long words in activities but not in the title', () => {
+      const flags = checkLessonSafety({
+        title: 'Extraordinary Adventures',
+        activities: [{ id: 'q', type: 'quiz', instructions: 'Pick one!', question: 'Which is big?', options: ['pig', 'extraordinary'], correctIndex: 0 }],
+      })
+
+      expect(flags).toEqual([{
+        field: 'activities[0].options[1]',
+        rule: 'vocabulary',
+        message: '"extraordinary" is too long for ages up to 7',
+      }])
+    })
+
+    it('should check remedial activities in branching rules', () => {
+      const flags = checkLessonSafety({
+        branching: { remediation: [{ activityId: 'r', remedial: { id: 'x', type: 'spelling', instructions: 'Spell gun', word: 'gun' } }] },
+      })
+
+      expect(flags.map(flag => flag.field)).toEqual([
+        'branching.remediation[0].remedial.instructions',
+        'branching.remediation[0].remedial.word',
+      ])
+    })
+
+    it('should check stored rows', () => {
+      expect(checkLessonRowSafety({
+        title: 'Drunk Pig',
+        description: null,
+        objectives: null,
+        activities: JSON.stringify(cleanActivities),
+        branching: null,
+        age_max: null,
+      })).toHaveLength(1)
+    })
+  })
+
+  describe('reviewLessonSafety', () => {
+    const flags = checkLessonSafety({ title: 'Wine Time' })
+
+    it('should hold flagged lessons for review', () => {
+      expect(reviewLessonSafety(flags)).toEqual({ flags, status: 'pending', held: true, released: false })
+    })
+
+    it('should keep an approval while the flags are unchanged', () => {
+      const approved = { safety_flags: JSON.stringify(flags), review_status: 'approved' }
+
+      expect(reviewLessonSafety(flags, approved)).toMatchObject({ status: 'approved', held: false })
+      expect(reviewLessonSafety(checkLessonSafety({ title: 'Beer Time' }), approved)).toMatchObject({ status: 'pending', held: true })
+    })
+
+    it('should release held lessons once they are clean', () => {
+      expect(reviewLessonSafety([], { safety_flags: JSON.stringify(flags), review_status: 'rejected' }))
+        .toEqual({ flags: [], status: null, held: false, released: true })
+      expect(reviewLessonSafety([])).toMatchObject({ released: false })
+    })
+  })
+
+  describe('reviewLessonEdit', () => {
+    const row = (content: string, title = 'Phone Time') => ({
+      title,
+      description: null,
+      objectives: null,
+      activities: JSON.stringify([{ ...cleanActivities[0], content }]),
+      branching: null,
+      age_max: null,
+    })
+    const before = row('Call me at 555-123-4567.')
+    const approved = { ...before, safety_flags: JSON.stringify(checkLessonRowSafety(before)), review_status: 'approved' }
+
+    it('should keep an approval through unrelated edits', () => {
+      expect(reviewLessonEdit(approved, row('Call me at 555-123-4567.', 'Phone Fun'))).toMatchObject({ status: 'approved', held: false })
+    })
+
+    it('should hold an approved lesson again when flagged text changes', () => {
+      const swapped = row('Call me at 555-987-6543.')
+
+      expect(JSON.stringify(checkLessonRowSafety(swapped))).toBe(approved.safety_flags)
+      expect(reviewLessonEdit(approved, swapped)).toMatchObject({ status: 'pending', held: true })
+    })
+  })
+})
@@ -0,0 +1,256 @@
+/**
+ * Child-safety checks for lesson text
+ *
+ * Lessons are read aloud to children as young as four, whether a parent wrote
+ * them or an AI provider did. Before a lesson is saved its text is checked for
+ * blocklisted words, personal details (email addresses, phone numbers, street
+ * addresses) and, in the activities themselves, words and sentences too long
+ * for the lesson's age range. A flagged lesson is held unpublished until an
+ * admin reviews it.
+ *
+ * Free of Node and Workers specifics so the Express server and the Cloudflare
+ * handlers share it.
+ */
+
+export type SafetyRule = 'blocklist' | 'pii' | 'vocabulary' | 'sentence-length'
+
+export interface SafetyFlag {
+  /** Where the text came from, e.g. `title` or `activities[2].content` */
+  field: string
+  rule: SafetyRule
+  message: string
+}
+
+/** Null when nothing was flagged */
+export type LessonReviewStatus = 'pending' | 'approved' | 'rejected'
+
+export const REVIEW_STATUSES: LessonReviewStatus[] = ['pending', 'approved', 'rejected']
+
+/** Lesson text to check; JSON fields already parsed */
+export interface SafetyCheckInput {
+  title?: string | null
+  description?: string | null
+  objectives?: unknown
+  activities?: unknown
+  branching?: unknown
+  ageMax?: number | null
+}
+
+/** Whole words only, so "class" and "skill" are fine */
+const BLOCKED_WORDS = new Set([
+  'ass', 'bastard', 'beer', 'bitch', 'blood', 'bloody', 'booze', 'cigarette', 'cigarettes', 'crap',
+  'damn', 'drugs', 'drunk', 'fuck', 'fucking', 'gun', 'guns', 'hell', 'idiot', 'kill', 'killed',
+  'killing', 'murder', 'naked', 'porn', 'sex', 'sexy', 'shit', 'shoot', 'stupid', 'suicide',
+  'vodka', 'weapon', 'weapons', 'whiskey', 'wine',
+])
+
+const PII_PATTERNS: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /[\w.+-]+@[\w-]+\.[a-z]{2,}/i, label: 'an email address' },
+  { pattern: /\b\d{3}-\d{2}-\d{4}\b/, label: 'an ID number' },
+  { pattern: /(?:\+\d{1,2}[\s.-]?)?(?:\(\d{3}\)|\b\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b/, label: 'a phone number' },
+  {
+    pattern: /\b\d{1,5}(?: [A-Z][a-z]+){1,3} (?:Street|St|Avenue|Ave|Road|Rd|Lane|Ln|Drive|Dr|Court|Ct|Boulevard|Blvd|Way|Place|Pl)\b/,
+    label: 'a street address',
+  },
+]
+
+/** Longest sentence and word for children up to `maxAge` */
+const AGE_LIMITS = [
+  { maxAge: 5, sentenceWords: 12, wordLetters: 10 },
+  { maxAge: 7, sentenceWords: 16, wordLetters: 12 },
+  { maxAge: Infinity, sentenceWords: 20, wordLetters: 14 },
+]
+
+/** Lessons without an age range are for our youngest readers */
+const DEFAULT_AGE = 6
+
+/** Activity fields that are not shown or read to the child */
+const NON_TEXT_FIELDS = new Set(['id', 'type', 'activityId', 'matchType', 'soundPosition', 'imageUrl', 'audioUrl'])
+
+interface TextEntry {
+  field: string
+  text: string
+}
+
+/** Every string in an activity (or anything else), with its path */
+function collectText(value: unknown, field: string, entries: TextEntry[]): void {
+  if (typeof value === 'string') {
+    if (value.trim()) entries.push({ field, text: value })
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectText(item, `${field}[${index}]`, entries))
+  } else if (typeof value === 'object' && value !== null) {
+    for (const [key, item] of Object.entries(value)) {
+      if (!NON_TEXT_FIELDS.has(key)) collectText(item, `${field}.${key}`, entries)
+    }
+  }
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) ?? []
+}
+
+function sentences(text: string): string[] {
+  return text.split(/[.!?]+/).map(sentence => sentence.trim()).filter(Boolean)
+}
+
+function checkBlocklist({ field, text }: TextEntry, flags: SafetyFlag[]): void {
+  const blocked = [...new Set(words(text).filter(word => BLOCKED_WORDS.has(word)))]
+  if (blocked.length > 0) {
+    flags.push({
+      field,
+      rule: 'blocklist',
+      message: `${blocked.map(word => `"${word}"`).join(', ')} ${blocked.length === 1 ? 'is' : 'are'} not suitable for young children`,
+    })
+  }
+}
+
+function checkPii({ field, text }: TextEntry, flags: SafetyFlag[]): void {
+  for (const { pattern, label } of PII_PATTERNS) {
+    if (pattern.test(text)) {
+      flags.push({ field, rule: 'pii', message: `Looks like ${label}` })
+    }
+  }
+}
+
+function checkReadingLevel({ field, text }: TextEntry, age: number, flags: SafetyFlag[]): void {
+  const limits = AGE_LIMITS.find(limit => age <= limit.maxAge)!
+  const ages = Number.isFinite(limits.maxAge) ? `ages up to ${limits.maxAge}` : 'young readers'
+
+  const longest = Math.max(0, ...sentences(text).map(sentence => words(sentence).length))
+  if (longest > limits.sentenceWords) {
+    flags.push({
+      field,
+      rule: 'sentence-length',
+      message: `A sentence has ${longest} words; keep to ${limits.sentenceWords} or fewer for ${ages}`,
+    })
+  }
+
+  const longWords = [...new Set(words(text).filter(word => word.length > limits.wordLetters))]
+  if (longWords.length > 0) {
+    flags.push({
+      field,
+      rule: 'vocabulary',
+      message: `${longWords.map(word => `"${word}"`).join(', ')} ${longWords.length === 1 ? 'is' : 'are'} too long for ${ages}`,
+    })
+  }
+}
+
+function collectLessonText(lesson: SafetyCheckInput): { lessonText: TextEntry[]; activityText: TextEntry[] } {
+  const lessonText: TextEntry[] = []
+  collectText(lesson.title, 'title', lessonText)
+  collectText(lesson.description, 'description', lessonText)
+  collectText(lesson.objectives, 'objectives', lessonText)
+
+  const activityText: TextEntry[] = []
+  collectText(lesson.activities, 'activities', activityText)
+  collectText(lesson.branching, 'branching', activityText)
+
+  return { lessonText, activityText }
+}
+
+/**
+ * Flags for lesson text that should not reach a child without review. Empty
+ * when the lesson is fine.
+ */
+export function checkLessonSafety(lesson: SafetyCheckInput): SafetyFlag[] {
+  const age = lesson.ageMax ?? DEFAULT_AGE
+
+  // Titles, descriptions and objectives are shown to parents too, so only
+  // the activities have to read at the child's level
+  const { lessonText, activityText } = collectLessonText(lesson)
+
+  const flags: SafetyFlag[] = []
+  for (const entry of [...lessonText, ...activityText]) {
+    checkBlocklist(entry, flags)
+    checkPii(entry, flags)
+  }
+  for (const entry of activityText) {
+    checkReadingLevel(entry, age, flags)
+  }
+  return flags
+}
+
+function parseJson(value: string | null): unknown {
+  return value ? JSON.parse(value) : undefined
+}
+
+/** The columns of a stored lesson that the checks read */
+export interface SafetyCheckRow {
+  title: string
+  description: string | null
+  objectives: string | null
+  activities: string | null
+  branching: string | null
+  age_max: number | null
+}
+
+function rowToCheckInput(row: SafetyCheckRow): SafetyCheckInput {
+  return {
+    title: row.title,
+    description: row.description,
+    objectives: parseJson(row.objectives),
+    activities: parseJson(row.activities),
+    branching: parseJson(row.branching),
+    ageMax: row.age_max,
+  }
+}
+
+/**
+ * Check a stored lesson row
+ */
+export function checkLessonRowSafety(row: SafetyCheckRow): SafetyFlag[] {
+  return checkLessonSafety(rowToCheckInput(row))
+}
+
+export interface SafetyReview {
+  flags: SafetyFlag[]
+  status: LessonReviewStatus | null
+  /** The lesson must stay unpublished until an admin approves it */
+  held: boolean
+  /** A held lesson has been edited clean and can be published again */
+  released: boolean
+}
+
+/**
+ * Review state after saving a lesson with these flags. An approved lesson
+ * stays approved while its flags are the ones the admin saw.
+ */
+export function reviewLessonSafety(
+  flags: SafetyFlag[],
+  previous?: { safety_flags: string | null; review_status: string | null }
+): SafetyReview {
+  if (flags.length === 0) {
+    const wasHeld = previous?.review_status === 'pending' || previous?.review_status === 'rejected'
+    return { flags, status: null, held: false, released: wasHeld }
+  }
+  if (previous?.review_status === 'approved' && previous.safety_flags === JSON.stringify(flags)) {
+    return { flags, status: 'approved', held: false, released: false }
+  }
+  return { flags, status: 'pending', held: true, released: false }
+}
+
+function textByField(row: SafetyCheckRow): Map<string, string> {
+  const { lessonText, activityText } = collectLessonText(rowToCheckInput(row))
+  return new Map([...lessonText, ...activityText].map(({ field, text }) => [field, text]))
+}
+
+/**
+ * Review state after an edit, from the stored lesson before and after it.
+ * Flag messages do not quote what they matched (one phone number reads like
+ * any other), so an approved lesson also goes back for review when the text
+ * of a flagged field changes.
+ */
+export function reviewLessonEdit(
+  before: SafetyCheckRow & { safety_flags: string | null; review_status: string | null },
+  after: SafetyCheckRow
+): SafetyReview {
+  const review = reviewLessonSafety(checkLessonRowSafety(after), before)
+  if (review.status !== 'approved') {
+    return review
+  }
+
+  const beforeText = textByField(before)
+  const afterText = textByField(after)
+  const edited = review.flags.some(flag => beforeText.get(flag.field) !== afterText.get(flag.field))
+  return edited ? { flags: review.flags, status: 'pending', held: true, released: false } : review
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { parseGameSessionInput, MAX_GAME_EVENTS } from './gameSession.js'
+
+const NOW = new Date('2026-01-01T12:00:00.000Z')
+
+describe('Game Session', () => {
+  describe('parseGameSessionInput', () => {
+    it('should summarize events into the session', () => {
+      const result = parseGameSessionInput({
+        game: 'spelling',
+        startedAt: '2026-01-01T11:58:00.000Z',
+        endedAt: '2026-01-01T12:00:00.000Z',
+        events: [
+          { item: 'cat', outcome: 'correct', attempts: 2, latencyMs: 3000 },
+          { item: 'dog', outcome: 'correct' },
+          { item: 'sun', outcome: 'skipped' },
+        ],
+      }, NOW)
+
+      expect('session' in result).toBe(true)
+      if (!('session' in result)) return
+      expect(result.session.durationSeconds).toBe(120)
+      expect(result.session.itemsAttempted).toBe(2)
+      expect(result.session.itemsCorrect).toBe(2)
+      expect(result.session.completed).toBe(false)
+      expect(result.session.events[0]).toEqual({
+        item: 'cat',
+        outcome: 'correct',
+        attempts: 2,
+        latencyMs: 3000,
+        hintsUsed: 0,
+        occurredAt: null,
+      })
+      expect(result.session.events[1].latencyMs).toBeNull()
+    })
+
+    it('should default the session times to now', () => {
+      const result = parseGameSessionInput({ game: 'memory' }, NOW)
+
+      expect(result).toMatchObject({
+        session: {
+          startedAt: NOW.toISOString(),
+          endedAt: NOW.toISOString(),
+          durationSeconds: 0,
+          events: [],
+        },
+      })
+    })
+
+    it('should reject unknown games', () => {
+      expect(parseGameSessionInput({ game: 'chess' })).toHaveProperty('error')
+      expect(parseGameSessionInput(undefined)).toHaveProperty('error')
+    })
+
+    it('should reject invalid dates', () => {
+      const result = parseGameSessionInput({ game: 'rhyme', startedAt: 'yesterday' })
+      expect(result).toEqual({ error: 'startedAt must be a valid date' })
+    })
+
+    it('should point at the offending event', () => {
+      const result = parseGameSessionInput({
+        game: 'rhyme',
+        events: [{ item: 'cat', outcome: 'correct' }, { outcome: 'correct' }],
+      })
+      expect(result).toEqual({ error: 'events[1].item is required' })
+    })
+
+    it('should cap the number of events', () => {
+      const events = Array.from({ length: MAX_GAME_EVENTS + 1 }, () => ({ item: 'cat', outcome: 'correct' }))
+      expect(parseGameSessionInput({ game: 'phonics', events })).toHaveProperty('error')
+    })
+  })
+})
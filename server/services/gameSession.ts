@@ -0,0 +1,122 @@
+/**
+ * Validation and summarizing for game session telemetry.
+ *
+ * Pure helpers shared by the Express routes and the Cloudflare progress handler.
+ */
+
+export const GAME_TYPES = ['spelling', 'memory', 'rhyme', 'builder', 'phonics', 'readaloud'] as const
+export type GameType = typeof GAME_TYPES[number]
+
+export const GAME_EVENT_OUTCOMES = ['correct', 'incorrect', 'skipped'] as const
+export type GameEventOutcome = typeof GAME_EVENT_OUTCOMES[number]
+
+/** Upper bound on events accepted in a single session upload */
+export const MAX_GAME_EVENTS = 500
+
+export interface GameEventInput {
+  item: string
+  outcome: GameEventOutcome
+  attempts: number
+  latencyMs: number | null
+  hintsUsed: number
+  occurredAt: string | null
+}
+
+export interface GameSessionInput {
+  game: GameType
+  startedAt: string
+  endedAt: string
+  durationSeconds: number
+  score: number | null
+  maxStreak: number
+  completed: boolean
+  itemsAttempted: number
+  itemsCorrect: number
+  events: GameEventInput[]
+}
+
+export type GameSessionParseResult =
+  | { session: GameSessionInput }
+  | { error: string }
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(new Date(value).getTime())
+}
+
+function toNonNegativeInt(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? Math.round(value)
+    : fallback
+}
+
+/**
+ * Validate a game session request body and derive its summary fields
+ */
+export function parseGameSessionInput(body: unknown, now: Date = new Date()): GameSessionParseResult {
+  const input = (body ?? {}) as Record<string, unknown>
+
+  if (typeof input.game !== 'string' || !GAME_TYPES.includes(input.game as GameType)) {
+    return { error: `game must be one of ${GAME_TYPES.join(', ')}` }
+  }
+
+  if (input.startedAt !== undefined && !isValidDate(input.startedAt)) {
+    return { error: 'startedAt must be a valid date' }
+  }
+  if (input.endedAt !== undefined && !isValidDate(input.endedAt)) {
+    return { error: 'endedAt must be a valid date' }
+  }
+
+  const rawEvents = input.events ?? []
+  if (!Array.isArray(rawEvents)) {
+    return { error: 'events must be an array' }
+  }
+  if (rawEvents.length > MAX_GAME_EVENTS) {
+    return { error: `events cannot contain more than ${MAX_GAME_EVENTS} items` }
+  }
+
+  const events: GameEventInput[] = []
+  for (let i = 0; i < rawEvents.length; i++) {
+    const event = (rawEvents[i] ?? {}) as Record<string, unknown>
+
+    if (typeof event.item !== 'string' || !event.item.trim()) {
+      return { error: `events[${i}].item is required` }
+    }
+    if (!GAME_EVENT_OUTCOMES.includes(event.outcome as GameEventOutcome)) {
+      return { error: `events[${i}].outcome must be one of ${GAME_EVENT_OUTCOMES.join(', ')}` }
+    }
+    if (event.occurredAt !== undefined && !isValidDate(event.occurredAt)) {
+      return { error: `events[${i}].occurredAt must be a valid date` }
+    }
+
+    events.push({
+      item: event.item.trim(),
+      outcome: event.outcome as GameEventOutcome,
+      attempts: toNonNegativeInt(event.attempts, 1),
+      latencyMs: typeof event.latencyMs === 'number' ? toNonNegativeInt(event.latencyMs, 0) : null,
+      hintsUsed: toNonNegativeInt(event.hintsUsed, 0),
+      occurredAt: (event.occurredAt as string | undefined) ?? null,
+    })
+  }
+
+  const endedAt = (input.endedAt as string | undefined) ?? now.toISOString()
+  const startedAt = (input.startedAt as string | undefined) ?? endedAt
+  const durationSeconds = Math.max(
+    0,
+    Math.round((new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 1000)
+  )
+
+  return {
+    session: {
+      game: input.game as GameType,
+      startedAt,
+      endedAt,
+      durationSeconds,
+      score: typeof input.score === 'number' && Number.isFinite(input.score) ? Math.round(input.score) : null,
+      maxStreak: toNonNegativeInt(input.maxStreak, 0),
+      completed: input.completed === true,
+      itemsAttempted: events.filter(e => e.outcome !== 'skipped').length,
+      itemsCorrect: events.filter(e => e.outcome === 'correct').length,
+      events,
+    },
+  }
+}
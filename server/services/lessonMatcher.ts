@@ -1,10 +1,13 @@
-import { db } from '../db/index.js'
-import { Lesson, LessonRow, parseLesson, LessonDifficulty, LearningStyle } from '../types/lesson.js'
+import type { ApiDatabase } from '../api/core.js'
+import { parseLesson, type Lesson, type LessonRow, type LessonDifficulty, type LearningStyle } from '../types/lesson.js'
+import { getReadingLevelAgeRange, isReadingLevel, type ReadingLevel } from '../../src/game-data/reading-assessment.js'
 
 export interface ChildProfile {
   id: string
   age: number | null
   gradeLevel: string | null
+  /** Placement from the reading challenge, if the child has taken it */
+  readingLevel: ReadingLevel | null
   learningStyle: string | null
   interests: string[]
 }
@@ -38,16 +41,24 @@ const GRADE_TO_AGE: Record<string, { min: number; max: number }> = {
   '5th grade': { min: 10, max: 11 },
 }
 
+/** Lesson difficulty a child placed at each reading level starts from */
+const READING_LEVEL_DIFFICULTY: Record<ReadingLevel, LessonDifficulty> = {
+  pre_reader: 'beginner',
+  emerging: 'easy',
+  early: 'medium',
+  developing: 'hard',
+}
+
 /**
  * Get child's learning progress for difficulty progression calculation
  */
-function getChildProgress(childId: string): ChildProgressSummary {
-  const completedLessons = db.prepare(`
+async function getChildProgress(db: ApiDatabase, childId: string): Promise<ChildProgressSummary> {
+  const completedLessons = await db.all<{ lesson_id: string; score: number | null; difficulty: string | null; subject: string }>(`
     SELECT p.lesson_id, p.score, l.difficulty, l.subject
     FROM progress p
     JOIN lessons l ON p.lesson_id = l.id
     WHERE p.child_id = ? AND p.status = 'completed'
-  `).all(childId) as { lesson_id: string; score: number | null; difficulty: string | null; subject: string }[]
+  `, childId)
 
   const completedLessonIds = new Set(completedLessons.map(l => l.lesson_id))
   const completedDifficulties = [...new Set(
@@ -70,10 +81,19 @@ function getChildProgress(childId: string): ChildProgressSummary {
 /**
  * Calculate age appropriateness score (0-100)
  */
-function calculateAgeScore(lesson: Lesson, childAge: number | null, gradeLevel: string | null): number {
+function calculateAgeScore(
+  lesson: Lesson,
+  childAge: number | null,
+  gradeLevel: string | null,
+  readingLevel: ReadingLevel | null
+): number {
   let effectiveAge = childAge
 
-  // If no age but have grade level, estimate age
+  // If no age, estimate it from the reading placement, then the grade level
+  if (!effectiveAge && readingLevel) {
+    const range = getReadingLevelAgeRange(readingLevel)
+    effectiveAge = Math.round((range.min + range.max) / 2)
+  }
   if (!effectiveAge && gradeLevel && GRADE_TO_AGE[gradeLevel]) {
     effectiveAge = Math.round((GRADE_TO_AGE[gradeLevel].min + GRADE_TO_AGE[gradeLevel].max) / 2)
   }
@@ -168,11 +188,13 @@ function calculateLearningStyleScore(lesson: Lesson, childLearningStyle: string
 
 /**
  * Calculate difficulty progression score (0-100)
- * Favors lessons at appropriate difficulty based on completed lessons
+ * Favors lessons at appropriate difficulty based on the child's reading
+ * placement and completed lessons
  */
 function calculateDifficultyScore(
   lesson: Lesson,
-  progress: ChildProgressSummary
+  progress: ChildProgressSummary,
+  readingLevel: ReadingLevel | null
 ): number {
   const lessonDifficulty = lesson.difficulty
   if (!lessonDifficulty) return 50 // Neutral for lessons without difficulty
@@ -193,9 +215,11 @@ function calculateDifficultyScore(
     maxCompletedIndex = Math.min(maxCompletedIndex + 1, DIFFICULTY_ORDER.length - 1)
   }
 
-  // Ideal difficulty is one level above current or at current level
-  const idealIndex = Math.min(maxCompletedIndex + 1, DIFFICULTY_ORDER.length - 1)
-  const idealDifficulty = maxCompletedIndex >= 0 ? DIFFICULTY_ORDER[idealIndex] : 'beginner'
+  // Ideal difficulty is one level above current, and never below where the
+  // reading placement put the child
+  const placementIndex = readingLevel ? DIFFICULTY_ORDER.indexOf(READING_LEVEL_DIFFICULTY[readingLevel]) : 0
+  const idealIndex = Math.max(placementIndex, Math.min(maxCompletedIndex + 1, DIFFICULTY_ORDER.length - 1))
+  const idealDifficulty = DIFFICULTY_ORDER[idealIndex]
 
   if (lessonDifficulty === idealDifficulty) return 100
 
@@ -232,7 +256,8 @@ function calculatePopularityScore(avgRating: number | null, totalCompletions: nu
 /**
  * Main matching function - returns scored and ranked lessons for a child
  */
-export function matchLessonsForChild(
+export async function matchLessonsForChild(
+  db: ApiDatabase,
   childId: string,
   options: {
     limit?: number
@@ -240,20 +265,22 @@ export function matchLessonsForChild(
     subjectFilter?: string
     minScore?: number
   } = {}
-): ScoredLesson[] {
+): Promise<ScoredLesson[]> {
   const { limit = 20, excludeCompleted = true, subjectFilter, minScore = 0 } = options
 
   // Get child profile
-  const child = db.prepare(`
-    SELECT id, age, grade_level, learning_style, interests
-    FROM children WHERE id = ?
-  `).get(childId) as {
+  const child = await db.first<{
     id: string
+    user_id: string
     age: number | null
     grade_level: string | null
+    reading_level: string | null
     learning_style: string | null
     interests: string | null
-  } | undefined
+  }>(`
+    SELECT id, user_id, age, grade_level, reading_level, learning_style, interests
+    FROM children WHERE id = ?
+  `, childId)
 
   if (!child) {
     throw new Error('Child not found')
@@ -263,12 +290,13 @@ export function matchLessonsForChild(
     id: child.id,
     age: child.age,
     gradeLevel: child.grade_level,
+    readingLevel: isReadingLevel(child.reading_level) ? child.reading_level : null,
     learningStyle: child.learning_style,
     interests: child.interests ? JSON.parse(child.interests) : []
   }
 
   // Get child's progress
-  const progress = getChildProgress(childId)
+  const progress = await getChildProgress(db, childId)
 
   // Fetch all published lessons with metrics
   let sql = `
@@ -280,8 +308,9 @@ export function matchLessonsForChild(
     LEFT JOIN lesson_ratings r ON l.id = r.lesson_id
     LEFT JOIN lesson_engagement e ON l.id = e.lesson_id
     WHERE l.is_published = 1
+      AND (l.visibility = 'public' OR l.owner_id = ?)
   `
-  const params: (string | number)[] = []
+  const params: (string | number)[] = [child.user_id]
 
   if (subjectFilter) {
     sql += ' AND l.subject = ?'
@@ -290,11 +319,11 @@ export function matchLessonsForChild(
 
   sql += ' GROUP BY l.id'
 
-  const lessons = db.prepare(sql).all(...params) as (LessonRow & {
+  const lessons = await db.all<LessonRow & {
     avg_rating: number
     rating_count: number
     total_completions: number
-  })[]
+  }>(sql, ...params)
 
   // Score each lesson
   const scoredLessons: ScoredLesson[] = []
@@ -307,10 +336,10 @@ export function matchLessonsForChild(
 
     const lesson = parseLesson(row)
 
-    const ageScore = calculateAgeScore(lesson, childProfile.age, childProfile.gradeLevel)
+    const ageScore = calculateAgeScore(lesson, childProfile.age, childProfile.gradeLevel, childProfile.readingLevel)
     const interestScore = calculateInterestScore(lesson, childProfile.interests)
     const learningStyleScore = calculateLearningStyleScore(lesson, childProfile.learningStyle)
-    const difficultyScore = calculateDifficultyScore(lesson, progress)
+    const difficultyScore = calculateDifficultyScore(lesson, progress, childProfile.readingLevel)
     const popularityScore = calculatePopularityScore(
       row.avg_rating || null,
       row.total_completions
@@ -350,23 +379,27 @@ export function matchLessonsForChild(
 /**
  * Get quick recommendations without full scoring (for performance)
  */
-export function getQuickRecommendations(
+export async function getQuickRecommendations(
+  db: ApiDatabase,
   childId: string,
   currentLessonId: string,
   limit: number = 5
-): Lesson[] {
-  const child = db.prepare(`
-    SELECT age, learning_style, interests FROM children WHERE id = ?
-  `).get(childId) as {
+): Promise<Lesson[]> {
+  const child = await db.first<{
+    user_id: string
     age: number | null
     learning_style: string | null
     interests: string | null
-  } | undefined
+  }>(`
+    SELECT user_id, age, learning_style, interests FROM children WHERE id = ?
+  `, childId)
 
   if (!child) return []
 
-  const currentLesson = db.prepare('SELECT subject, grade_level FROM lessons WHERE id = ?')
-    .get(currentLessonId) as { subject: string; grade_level: string | null } | undefined
+  const currentLesson = await db.first<{ subject: string; grade_level: string | null }>(
+    'SELECT subject, grade_level FROM lessons WHERE id = ?',
+    currentLessonId
+  )
 
   if (!currentLesson) return []
 
@@ -374,9 +407,10 @@ export function getQuickRecommendations(
   let sql = `
     SELECT * FROM lessons
     WHERE id != ? AND is_published = 1
+    AND (visibility = 'public' OR owner_id = ?)
     AND (subject = ? OR grade_level = ?)
   `
-  const params: (string | number)[] = [currentLessonId, currentLesson.subject, currentLesson.grade_level || '']
+  const params: (string | number)[] = [currentLessonId, child.user_id, currentLesson.subject, currentLesson.grade_level || '']
 
   if (child.age) {
     sql += ' AND (age_min IS NULL OR age_min <= ?) AND (age_max IS NULL OR age_max >= ?)'
@@ -391,6 +425,6 @@ export function getQuickRecommendations(
   sql += ' ORDER BY RANDOM() LIMIT ?'
   params.push(limit)
 
-  const lessons = db.prepare(sql).all(...params) as LessonRow[]
+  const lessons = await db.all<LessonRow>(sql, ...params)
   return lessons.map(parseLesson)
 }
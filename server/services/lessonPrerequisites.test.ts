@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parsePrerequisites,
+  findPrerequisiteCycle,
+  validateLessonPrerequisites,
+  getLessonAvailability,
+} from './lessonPrerequisites.js'
+import { seedLessons } from '../../src/lessons/index.js'
+
+const chain = [
+  { id: 'letters', prerequisites: [] },
+  { id: 'cvc', prerequisites: ['letters'] },
+  { id: 'families', prerequisites: ['cvc'] },
+]
+
+describe('Lesson Prerequisites', () => {
+  it('should keep the bundled lessons acyclic', () => {
+    const graph = seedLessons.map(lesson => ({ id: lesson.id, prerequisites: lesson.prerequisites ?? [] }))
+    expect(findPrerequisiteCycle(graph)).toBeNull()
+  })
+
+  it('should parse the stored column leniently', () => {
+    expect(parsePrerequisites('["a","b"]')).toEqual(['a', 'b'])
+    expect(parsePrerequisites(null)).toEqual([])
+    expect(parsePrerequisites('not json')).toEqual([])
+    expect(parsePrerequisites('{"a":1}')).toEqual([])
+  })
+
+  it('should find a cycle as a closed path', () => {
+    expect(findPrerequisiteCycle(chain)).toBeNull()
+    expect(findPrerequisiteCycle([
+      ...chain.slice(1),
+      { id: 'letters', prerequisites: ['families'] },
+    ])).toEqual(['cvc', 'letters', 'families', 'cvc'])
+  })
+
+  it('should ignore prerequisites outside the graph when looking for cycles', () => {
+    expect(findPrerequisiteCycle([{ id: 'a', prerequisites: ['hidden'] }])).toBeNull()
+  })
+
+  it('should report bad prerequisite ids per field', () => {
+    expect(validateLessonPrerequisites('new', ['new', 'nope', 'cvc', 'cvc', 3], chain)).toEqual([
+      { field: 'prerequisites[0]', message: 'a lesson cannot be its own prerequisite' },
+      { field: 'prerequisites[1]', message: 'no lesson with id "nope"' },
+      { field: 'prerequisites[3]', message: '"cvc" is listed more than once' },
+      { field: 'prerequisites[4]', message: 'must be a lesson id' },
+    ])
+    expect(validateLessonPrerequisites('new', 'cvc', chain)).toEqual([
+      { field: 'prerequisites', message: 'prerequisites must be a list of lesson ids' },
+    ])
+  })
+
+  it('should reject a change that closes a cycle', () => {
+    expect(validateLessonPrerequisites('letters', ['families'], chain)).toEqual([
+      { field: 'prerequisites', message: 'prerequisites form a cycle: letters → families → cvc → letters' },
+    ])
+    expect(validateLessonPrerequisites('families', ['letters', 'cvc'], chain)).toEqual([])
+  })
+
+  it('should unlock lessons once every prerequisite is completed', () => {
+    expect(getLessonAvailability(chain, [])).toEqual({
+      letters: 'unlocked',
+      cvc: 'locked',
+      families: 'locked',
+    })
+    expect(getLessonAvailability(chain, ['letters'])).toEqual({
+      letters: 'completed',
+      cvc: 'unlocked',
+      families: 'locked',
+    })
+  })
+
+  it('should not hold lessons back on prerequisites the child cannot see', () => {
+    expect(getLessonAvailability([{ id: 'a', prerequisites: ['private-lesson'] }], [])).toEqual({ a: 'unlocked' })
+  })
+})
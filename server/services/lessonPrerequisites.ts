@@ -0,0 +1,130 @@
+/**
+ * Lesson prerequisites
+ *
+ * A lesson can list lessons a child must complete first. The lessons form a
+ * graph that has to stay acyclic, otherwise some lessons could never unlock.
+ * Shared by the Express routes, the Cloudflare handler and the
+ * `lessons:validate` CLI.
+ */
+
+import type { LessonAvailability } from '../../src/types/lesson.js'
+import type { LessonValidationError } from './lessonValidation.js'
+
+export interface PrerequisiteNode {
+  id: string
+  prerequisites: string[]
+}
+
+/**
+ * Parse the JSON prerequisites column; anything unreadable counts as none
+ */
+export function parsePrerequisites(value: string | null | undefined): string[] {
+  if (!value) return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * First prerequisite cycle in the graph as a list of lesson ids that starts
+ * and ends with the same id, or null when there is none. Prerequisites that
+ * are not in the graph are ignored.
+ */
+export function findPrerequisiteCycle(lessons: PrerequisiteNode[]): string[] | null {
+  const edges = new Map(lessons.map(lesson => [lesson.id, lesson.prerequisites]))
+  const done = new Set<string>()
+  const path: string[] = []
+
+  const visit = (id: string): string[] | null => {
+    const onPath = path.indexOf(id)
+    if (onPath !== -1) return [...path.slice(onPath), id]
+    if (done.has(id)) return null
+
+    path.push(id)
+    for (const next of edges.get(id) ?? []) {
+      if (!edges.has(next)) continue
+      const cycle = visit(next)
+      if (cycle) return cycle
+    }
+    path.pop()
+    done.add(id)
+    return null
+  }
+
+  for (const lesson of lessons) {
+    const cycle = visit(lesson.id)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * Check the prerequisites a lesson is being saved with against the other
+ * lessons the author can see
+ */
+export function validateLessonPrerequisites(
+  lessonId: string,
+  prerequisites: unknown,
+  otherLessons: PrerequisiteNode[]
+): LessonValidationError[] {
+  if (!Array.isArray(prerequisites)) {
+    return [{ field: 'prerequisites', message: 'prerequisites must be a list of lesson ids' }]
+  }
+
+  const errors: LessonValidationError[] = []
+  const known = new Set(otherLessons.map(lesson => lesson.id))
+  const seen = new Set<string>()
+
+  prerequisites.forEach((id, index) => {
+    const field = `prerequisites[${index}]`
+    if (typeof id !== 'string' || !id) {
+      errors.push({ field, message: 'must be a lesson id' })
+    } else if (id === lessonId) {
+      errors.push({ field, message: 'a lesson cannot be its own prerequisite' })
+    } else if (!known.has(id)) {
+      errors.push({ field, message: `no lesson with id "${id}"` })
+    } else if (seen.has(id)) {
+      errors.push({ field, message: `"${id}" is listed more than once` })
+    }
+    if (typeof id === 'string') seen.add(id)
+  })
+  if (errors.length > 0) return errors
+
+  // Start from the lesson being saved so a cycle reads from its point of view
+  const graph = [
+    { id: lessonId, prerequisites: prerequisites as string[] },
+    ...otherLessons.filter(lesson => lesson.id !== lessonId),
+  ]
+  const cycle = findPrerequisiteCycle(graph)
+  if (cycle) {
+    errors.push({ field: 'prerequisites', message: `prerequisites form a cycle: ${cycle.join(' → ')}` })
+  }
+  return errors
+}
+
+/**
+ * Completed lessons stay completed; the rest unlock once every prerequisite
+ * in the list is completed. Prerequisites outside the list (unpublished or
+ * another family's lessons) do not hold a lesson back.
+ */
+export function getLessonAvailability(
+  lessons: PrerequisiteNode[],
+  completedLessonIds: Iterable<string>
+): Record<string, LessonAvailability> {
+  const completed = new Set(completedLessonIds)
+  const listed = new Set(lessons.map(lesson => lesson.id))
+  const availability: Record<string, LessonAvailability> = {}
+
+  for (const lesson of lessons) {
+    if (completed.has(lesson.id)) {
+      availability[lesson.id] = 'completed'
+    } else {
+      const blocked = lesson.prerequisites.some(id => listed.has(id) && !completed.has(id))
+      availability[lesson.id] = blocked ? 'locked' : 'unlocked'
+    }
+  }
+  return availability
+}
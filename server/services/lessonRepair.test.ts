@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { repairLessonActivities } from './lessonRepair.js'
+
+describe('Lesson Repair', () => {
+  it('should keep valid activities as they are', () => {
+    const activity = { id: 'a1', type: 'spelling', order: 0, instructions: 'Spell it!', word: 'pig' }
+
+    expect(repairLessonActivities([activity])).toEqual({ activities: [activity], errors: [] })
+  })
+
+  it('should fill in missing ids, order and instructions', () => {
+    const { activities } = repairLessonActivities([
+      { type: 'sight-words', words: ['the', ' and ', ''] },
+      { id: 'x', type: 'listen-repeat', phrase: 'big pig' },
+      { id: 'x', type: 'listen-repeat', instructions: 'Say it!', phrase: 'fig' },
+    ])
+
+    expect(activities.map(a => [a.id, a.order])).toEqual([['activity-1', 0], ['x', 1], ['activity-3', 2]])
+    expect(activities[0]).toMatchObject({ instructions: "Let's practice these words!", words: ['the', 'and'] })
+  })
+
+  it('should blank out the answer in a fill-in-blank sentence', () => {
+    const { activities } = repairLessonActivities([
+      { id: 'f', type: 'fill_in_the_blank', order: 0, instructions: 'Fill it in!', sentence: 'The pig can dig.', answer: 'dig', wordBank: ['big'] },
+    ])
+
+    expect(activities[0]).toMatchObject({ type: 'fill-in-blank', sentence: 'The pig can ___.', wordBank: ['big', 'dig'] })
+  })
+
+  it('should use a numeric correctIndex given as text', () => {
+    const { activities } = repairLessonActivities([
+      { id: 'q', type: 'quiz', order: 0, instructions: 'Pick!', question: 'Which?', options: ['a', 'b'], correctIndex: '1' },
+    ])
+
+    expect(activities[0]).toMatchObject({ correctIndex: 1 })
+  })
+
+  it('should drop activities that cannot be repaired, with the reason', () => {
+    const { activities, errors } = repairLessonActivities([
+      { id: 's', type: 'spelling', instructions: 'Spell it!', word: 'ice cream' },
+      { id: 'ok', type: 'reading', instructions: 'Read!', content: 'A pig can dig.' },
+    ])
+
+    expect(activities.map(a => [a.id, a.order])).toEqual([['ok', 0]])
+    expect(errors).toEqual([{ field: 'activities[0].word', message: 'word must contain only letters' }])
+  })
+
+  it('should reject a non-list', () => {
+    expect(repairLessonActivities('lots of fun').errors).toEqual([{ field: 'activities', message: 'activities must be a list' }])
+  })
+})
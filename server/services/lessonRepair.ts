@@ -0,0 +1,187 @@
+/**
+ * Generated lesson repair
+ *
+ * AI models get the activity JSON nearly right: a `fill_in_blank` type, a
+ * quiz answer given as text instead of an index, word-building words that do
+ * not match their onsets. This fixes what can be fixed mechanically, then
+ * runs the normal activity validation and drops anything still unplayable.
+ */
+
+import type { ActivityType, LessonActivity } from '../../src/types/lesson.js'
+import { validateLessonActivity, type LessonValidationError } from './lessonValidation.js'
+
+type Fields = Record<string, unknown>
+
+/** Spellings models use for our activity types */
+const TYPE_ALIASES: Record<string, ActivityType> = {
+  'fill-in-the-blank': 'fill-in-blank',
+  'multiple-choice': 'quiz',
+  'listen-and-repeat': 'listen-repeat',
+  'word-family': 'word-building',
+  'sightwords': 'sight-words',
+  'sight-word': 'sight-words',
+}
+
+const DEFAULT_INSTRUCTIONS: Record<ActivityType, string> = {
+  'reading': "Let's read together!",
+  'spelling': 'Spell the word!',
+  'phonics': 'Listen to the sound!',
+  'sight-words': "Let's practice these words!",
+  'quiz': 'Choose the right answer!',
+  'matching': 'Match the pairs!',
+  'fill-in-blank': 'Fill in the missing word!',
+  'listen-repeat': 'Listen and say it back!',
+  'word-building': "Let's build some words!",
+}
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function cleanWord(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value
+}
+
+function cleanList(value: unknown, clean: (item: string) => string = item => item.trim()): unknown {
+  if (!Array.isArray(value)) return value
+  const items = value
+    .filter((item): item is string => typeof item === 'string')
+    .map(clean)
+    .filter(item => item.length > 0)
+  return [...new Set(items)]
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function repairFields(activity: Fields): void {
+  switch (activity.type) {
+    case 'spelling':
+      activity.word = cleanWord(activity.word)
+      break
+
+    case 'phonics':
+      activity.sound = cleanWord(activity.sound)
+      activity.exampleWords = cleanList(activity.exampleWords, item => item.trim().toLowerCase())
+      break
+
+    case 'sight-words':
+      activity.words = cleanList(activity.words)
+      break
+
+    case 'quiz': {
+      const options = cleanList(activity.options)
+      activity.options = options
+      if (typeof activity.correctIndex === 'string' && /^\d+$/.test(activity.correctIndex)) {
+        activity.correctIndex = Number(activity.correctIndex)
+      }
+      // Models often name the right option instead of pointing at it
+      const { answer } = activity
+      if (typeof answer === 'string' && Array.isArray(options)) {
+        const index = (options as string[]).findIndex(option => option.toLowerCase() === answer.trim().toLowerCase())
+        if (index !== -1) activity.correctIndex = index
+      }
+      delete activity.answer
+      break
+    }
+
+    case 'matching':
+      if (Array.isArray(activity.pairs)) {
+        activity.pairs = activity.pairs.filter(pair =>
+          Array.isArray(pair) && pair.length === 2 && pair.every(item => typeof item === 'string' && item.trim())
+        )
+      }
+      break
+
+    case 'fill-in-blank': {
+      if (typeof activity.answer === 'string') activity.answer = activity.answer.trim()
+      const { answer } = activity
+      if (typeof activity.sentence === 'string') {
+        let sentence = activity.sentence.replace(/_{2,}/g, '___')
+        // Blank out the answer if the model wrote the whole sentence
+        if (!sentence.includes('___') && typeof answer === 'string' && answer) {
+          sentence = sentence.replace(new RegExp(`\\b${escapeRegExp(answer)}\\b`, 'i'), '___')
+        }
+        activity.sentence = sentence
+      }
+      const wordBank = cleanList(activity.wordBank)
+      if (Array.isArray(wordBank) && typeof answer === 'string' && answer &&
+          !wordBank.some(word => word.toLowerCase() === answer.toLowerCase())) {
+        wordBank.push(answer)
+      }
+      if (wordBank !== undefined) activity.wordBank = wordBank
+      break
+    }
+
+    case 'word-building': {
+      // The player builds onsets[i] + pattern, so derive the words from those
+      const pattern = typeof activity.pattern === 'string' ? activity.pattern.trim().toLowerCase().replace(/^-/, '') : ''
+      const onsets = cleanList(activity.onsets, item => item.trim().toLowerCase())
+      activity.onsets = onsets
+      if (pattern && Array.isArray(onsets)) {
+        activity.pattern = pattern
+        activity.words = onsets.map(onset => onset + pattern)
+      }
+      break
+    }
+  }
+}
+
+export interface RepairedActivities {
+  /** Playable activities, renumbered from 0 */
+  activities: LessonActivity[]
+  /** Why each dropped activity could not be repaired */
+  errors: LessonValidationError[]
+}
+
+/**
+ * Repair generated activities and keep only those that pass validation
+ */
+export function repairLessonActivities(activities: unknown): RepairedActivities {
+  if (!Array.isArray(activities)) {
+    return { activities: [], errors: [{ field: 'activities', message: 'activities must be a list' }] }
+  }
+
+  const kept: LessonActivity[] = []
+  const errors: LessonValidationError[] = []
+  const usedIds = new Set<string>()
+
+  activities.forEach((raw, index) => {
+    if (!isObject(raw)) {
+      errors.push({ field: `activities[${index}]`, message: 'activity must be an object' })
+      return
+    }
+
+    const activity: Fields = { ...raw }
+    if (typeof activity.type === 'string') {
+      const type = activity.type.trim().toLowerCase().replace(/[_\s]+/g, '-')
+      activity.type = TYPE_ALIASES[type] ?? type
+    }
+
+    let id = typeof activity.id === 'string' ? activity.id.trim() : ''
+    if (!id || usedIds.has(id)) id = `activity-${index + 1}`
+    for (let n = 2; usedIds.has(id); n++) id = `activity-${index + 1}-${n}`
+    activity.id = id
+
+    const type = activity.type as ActivityType
+    if (typeof activity.instructions !== 'string' || !activity.instructions.trim()) {
+      if (type in DEFAULT_INSTRUCTIONS) activity.instructions = DEFAULT_INSTRUCTIONS[type]
+    }
+    if (activity.points !== undefined && (typeof activity.points !== 'number' || activity.points < 0)) {
+      delete activity.points
+    }
+    activity.order = kept.length
+    repairFields(activity)
+
+    const activityErrors = validateLessonActivity(activity, `activities[${index}]`)
+    if (activityErrors.length > 0) {
+      errors.push(...activityErrors)
+      return
+    }
+    usedIds.add(id)
+    kept.push(activity as unknown as LessonActivity)
+  })
+
+  return { activities: kept, errors }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import {
+  validateLessonActivity,
+  validateLessonActivities,
+  validateLessonContent,
+  validateLessonBranching,
+  formatLessonValidationErrors,
+} from './lessonValidation.js'
+import { seedLessons } from '../../src/lessons/index.js'
+
+const base = { id: 'a1', order: 0, instructions: 'Try this' }
+
+function fields(activity: unknown) {
+  return validateLessonActivity(activity).map(e => e.field)
+}
+
+describe('Lesson Validation', () => {
+  it('should accept every bundled lesson', () => {
+    for (const lesson of seedLessons) {
+      expect(validateLessonContent(lesson), lesson.id).toEqual([])
+    }
+  })
+
+  it('should require the base activity fields', () => {
+    expect(fields({ type: 'reading', content: 'Hi' })).toEqual(['activity.id', 'activity.instructions', 'activity.order'])
+    expect(fields('reading')).toEqual(['activity'])
+  })
+
+  it('should reject unknown activity types', () => {
+    expect(validateLessonActivity({ ...base, type: 'dance' })).toEqual([
+      { field: 'activity.type', message: expect.stringContaining('type must be one of: reading, spelling') },
+    ])
+  })
+
+  it('should check quiz answers are in range', () => {
+    const quiz = { ...base, type: 'quiz', question: 'Which?', options: ['a', 'b', 'c'] }
+
+    expect(fields({ ...quiz, correctIndex: 2 })).toEqual([])
+    expect(fields({ ...quiz, correctIndex: 3 })).toEqual(['activity.correctIndex'])
+    expect(fields({ ...quiz, correctIndex: -1 })).toEqual(['activity.correctIndex'])
+    expect(fields({ ...quiz, correctIndex: 0.5 })).toEqual(['activity.correctIndex'])
+    expect(fields({ ...quiz, options: ['a'], correctIndex: 0 })).toEqual(['activity.options'])
+  })
+
+  it('should check built words match onset + pattern', () => {
+    const building = { ...base, type: 'word-building', pattern: '-at', onsets: ['c', 'h'] }
+
+    expect(fields({ ...building, words: ['cat', 'Hat'] })).toEqual([])
+    expect(validateLessonActivity({ ...building, words: ['cat', 'hit'] })).toEqual([
+      { field: 'activity.words[1]', message: '"hit" does not match onset "h" + pattern "at" (expected "hat")' },
+    ])
+    expect(fields({ ...building, words: ['cat'] })).toEqual(['activity.words'])
+  })
+
+  it('should check fill-in-blank sentences and word banks', () => {
+    const blank = { ...base, type: 'fill-in-blank', answer: 'cat' }
+
+    expect(fields({ ...blank, sentence: 'The ___ sat.', wordBank: ['Cat', 'dog'] })).toEqual([])
+    expect(fields({ ...blank, sentence: 'The cat sat.' })).toEqual(['activity.sentence'])
+    expect(fields({ ...blank, sentence: 'The ___ sat.', wordBank: ['dog', 'pig'] })).toEqual(['activity.wordBank'])
+  })
+
+  it('should check matching pairs', () => {
+    const matching = { ...base, type: 'matching', matchType: 'rhyme' }
+
+    expect(fields({ ...matching, pairs: [['cat', 'hat']] })).toEqual([])
+    expect(fields({ ...matching, pairs: [['cat', 'hat'], ['dog']] })).toEqual(['activity.pairs[1]'])
+    expect(fields({ ...matching, matchType: 'color', pairs: [['cat', 'hat']] })).toEqual(['activity.matchType'])
+  })
+
+  it('should report paths and duplicate ids across a list', () => {
+    const errors = validateLessonActivities([
+      { ...base, type: 'listen-repeat', phrase: 'cat' },
+      { ...base, order: 1, type: 'sight-words', words: ['the', ''] },
+    ])
+
+    expect(errors.map(e => e.field)).toEqual(['activities[1].words[1]', 'activities[1].id'])
+    expect(validateLessonActivities({})).toEqual([{ field: 'activities', message: 'activities must be a list' }])
+  })
+
+  it('should check branching rules point at suitable activities', () => {
+    const activities = [
+      { ...base, id: 'spell', type: 'spelling', word: 'cat' },
+      { ...base, id: 'read', order: 1, type: 'reading', content: 'Hi' },
+    ]
+    const remedial = { ...base, id: 'help', type: 'phonics', sound: 'a', exampleWords: ['cat'] }
+    const branchingFields = (branching: unknown) => validateLessonBranching(branching, activities).map(e => e.field)
+
+    expect(branchingFields({
+      remediation: [{ activityId: 'spell', afterFailures: 2, remedial }],
+      fastStreak: { streak: 2, maxSecondsPerActivity: 15, skippableActivityIds: ['read'] },
+    })).toEqual([])
+    expect(branchingFields({ remediation: [{ activityId: 'read', remedial }] })).toEqual(['branching.remediation[0].activityId'])
+    expect(branchingFields({ remediation: [{ activityId: 'gone', afterFailures: 0, remedial: { ...remedial, exampleWords: [] } }] }))
+      .toEqual(['branching.remediation[0].activityId', 'branching.remediation[0].afterFailures', 'branching.remediation[0].remedial.exampleWords'])
+    expect(branchingFields({ remediation: [{ activityId: 'spell', remedial: { ...remedial, id: 'read' } }] }))
+      .toEqual(['branching.remediation[0].remedial.id'])
+    expect(branchingFields({ fastStreak: { streak: 0, maxSecondsPerActivity: 10, skippableActivityIds: ['nope'] } }))
+      .toEqual(['branching.fastStreak.streak', 'branching.fastStreak.skippableActivityIds[0]'])
+  })
+
+  it('should validate branching in lesson content', () => {
+    const lesson = { id: 'x', title: 'X', subject: 'phonics', activities: [], branching: [] }
+
+    expect(validateLessonContent(lesson)).toEqual([{ field: 'branching', message: 'branching must be an object' }])
+  })
+
+  it('should format one line per error', () => {
+    expect(formatLessonValidationErrors(validateLessonContent({ id: 'x', title: 'X', activities: [] })))
+      .toBe('subject: subject must be a non-empty string')
+  })
+})
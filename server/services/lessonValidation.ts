@@ -0,0 +1,389 @@
+/**
+ * Lesson activity validation
+ *
+ * Checks lesson activities against the `LessonActivity` union before they are
+ * stored, so malformed content is rejected at the API instead of crashing the
+ * player. Shared by the Express routes, the Cloudflare handler, the seed
+ * loader and the `lessons:validate` CLI.
+ *
+ * Branching rules are checked here too, since they point at activity ids.
+ */
+
+import type { ActivityType } from '../../src/types/lesson.js'
+
+export interface LessonValidationError {
+  /** Path to the offending value, e.g. `activities[2].correctIndex` */
+  field: string
+  message: string
+}
+
+const ACTIVITY_TYPES: readonly ActivityType[] = [
+  'reading',
+  'spelling',
+  'phonics',
+  'sight-words',
+  'quiz',
+  'matching',
+  'fill-in-blank',
+  'listen-repeat',
+  'word-building',
+]
+
+/** Activity types whose views report a failed attempt */
+const REMEDIABLE_TYPES: readonly ActivityType[] = ['spelling', 'quiz', 'fill-in-blank']
+
+const SOUND_POSITIONS = ['beginning', 'middle', 'end', 'any']
+const MATCH_TYPES = ['word-picture', 'word-word', 'word-definition', 'rhyme']
+
+type Fields = Record<string, unknown>
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+/**
+ * Small helper that records errors against a path prefix
+ */
+function createChecker(errors: LessonValidationError[], path: string, fields: Fields) {
+  const fail = (field: string, message: string) => {
+    errors.push({ field: `${path}.${field}`, message })
+  }
+
+  return {
+    fail,
+    requiredString(field: string) {
+      if (!isNonEmptyString(fields[field])) {
+        fail(field, `${field} must be a non-empty string`)
+        return false
+      }
+      return true
+    },
+    optionalString(field: string) {
+      if (fields[field] !== undefined && typeof fields[field] !== 'string') {
+        fail(field, `${field} must be a string`)
+      }
+    },
+    optionalBoolean(field: string) {
+      if (fields[field] !== undefined && typeof fields[field] !== 'boolean') {
+        fail(field, `${field} must be true or false`)
+      }
+    },
+    stringList(field: string, options: { optional?: boolean } = {}) {
+      const value = fields[field]
+      if (value === undefined && options.optional) return true
+      if (!Array.isArray(value) || value.length === 0) {
+        fail(field, `${field} must be a non-empty list`)
+        return false
+      }
+      const invalid = value.findIndex((item) => !isNonEmptyString(item))
+      if (invalid !== -1) {
+        errors.push({ field: `${path}.${field}[${invalid}]`, message: 'must be a non-empty string' })
+        return false
+      }
+      return true
+    },
+    oneOf(field: string, allowed: readonly string[], options: { optional?: boolean } = {}) {
+      const value = fields[field]
+      if (value === undefined && options.optional) return
+      if (typeof value !== 'string' || !allowed.includes(value)) {
+        fail(field, `${field} must be one of: ${allowed.join(', ')}`)
+      }
+    },
+  }
+}
+
+function validateActivityFields(
+  activity: Fields,
+  type: ActivityType,
+  check: ReturnType<typeof createChecker>,
+  errors: LessonValidationError[],
+  path: string
+) {
+  switch (type) {
+    case 'reading':
+      check.requiredString('content')
+      check.optionalString('imageUrl')
+      check.optionalBoolean('readAloud')
+      break
+
+    case 'spelling':
+      if (check.requiredString('word') && !/^[a-z]+$/i.test(activity.word as string)) {
+        check.fail('word', 'word must contain only letters')
+      }
+      check.optionalString('hint')
+      check.optionalString('audioUrl')
+      break
+
+    case 'phonics':
+      check.requiredString('sound')
+      check.stringList('exampleWords')
+      check.oneOf('soundPosition', SOUND_POSITIONS, { optional: true })
+      break
+
+    case 'sight-words':
+      check.stringList('words')
+      check.optionalBoolean('showInContext')
+      break
+
+    case 'quiz': {
+      check.requiredString('question')
+      check.optionalString('explanation')
+      const hasOptions = check.stringList('options')
+      const options = activity.options as string[]
+      if (hasOptions && options.length < 2) {
+        check.fail('options', 'options must offer at least 2 choices')
+      }
+      const { correctIndex } = activity
+      if (typeof correctIndex !== 'number' || !Number.isInteger(correctIndex)) {
+        check.fail('correctIndex', 'correctIndex must be a whole number')
+      } else if (hasOptions && (correctIndex < 0 || correctIndex >= options.length)) {
+        check.fail('correctIndex', `correctIndex must be between 0 and ${options.length - 1}`)
+      }
+      break
+    }
+
+    case 'matching': {
+      check.oneOf('matchType', MATCH_TYPES)
+      const { pairs } = activity
+      if (!Array.isArray(pairs) || pairs.length === 0) {
+        check.fail('pairs', 'pairs must be a non-empty list')
+        break
+      }
+      pairs.forEach((pair, index) => {
+        if (!Array.isArray(pair) || pair.length !== 2 || !pair.every(isNonEmptyString)) {
+          errors.push({ field: `${path}.pairs[${index}]`, message: 'each pair must be two non-empty strings' })
+        }
+      })
+      break
+    }
+
+    case 'fill-in-blank': {
+      if (check.requiredString('sentence') && !(activity.sentence as string).includes('___')) {
+        check.fail('sentence', 'sentence must contain a ___ blank')
+      }
+      const hasAnswer = check.requiredString('answer')
+      if (check.stringList('wordBank', { optional: true }) && hasAnswer && activity.wordBank) {
+        const answer = (activity.answer as string).toLowerCase()
+        if (!(activity.wordBank as string[]).some((word) => word.toLowerCase() === answer)) {
+          check.fail('wordBank', 'wordBank must include the answer')
+        }
+      }
+      break
+    }
+
+    case 'listen-repeat':
+      check.requiredString('phrase')
+      check.optionalBoolean('checkPronunciation')
+      break
+
+    case 'word-building': {
+      const hasPattern = check.requiredString('pattern')
+      const hasOnsets = check.stringList('onsets')
+      const hasWords = check.stringList('words')
+      if (!hasPattern || !hasOnsets || !hasWords) break
+
+      // The player shows onsets[i] + pattern and expects words[i]
+      const pattern = (activity.pattern as string).replace(/^-/, '').toLowerCase()
+      const onsets = activity.onsets as string[]
+      const words = activity.words as string[]
+      if (words.length !== onsets.length) {
+        check.fail('words', `words must have one entry per onset (expected ${onsets.length}, got ${words.length})`)
+        break
+      }
+      words.forEach((word, index) => {
+        const expected = onsets[index].toLowerCase() + pattern
+        if (word.toLowerCase() !== expected) {
+          errors.push({
+            field: `${path}.words[${index}]`,
+            message: `"${word}" does not match onset "${onsets[index]}" + pattern "${pattern}" (expected "${expected}")`,
+          })
+        }
+      })
+      break
+    }
+  }
+}
+
+/**
+ * Validate a single activity. `path` prefixes the field names in errors.
+ */
+export function validateLessonActivity(activity: unknown, path = 'activity'): LessonValidationError[] {
+  const errors: LessonValidationError[] = []
+
+  if (!isObject(activity)) {
+    return [{ field: path, message: 'activity must be an object' }]
+  }
+
+  const check = createChecker(errors, path, activity)
+  check.requiredString('id')
+  check.requiredString('instructions')
+  check.optionalString('spokenInstructions')
+
+  const { order, points, type } = activity
+  if (typeof order !== 'number' || !Number.isInteger(order) || order < 0) {
+    check.fail('order', 'order must be a whole number of 0 or more')
+  }
+  if (points !== undefined && (typeof points !== 'number' || points < 0)) {
+    check.fail('points', 'points must be a number of 0 or more')
+  }
+
+  if (typeof type !== 'string' || !ACTIVITY_TYPES.includes(type as ActivityType)) {
+    check.fail('type', `type must be one of: ${ACTIVITY_TYPES.join(', ')}`)
+    return errors
+  }
+
+  validateActivityFields(activity, type as ActivityType, check, errors, path)
+  return errors
+}
+
+/**
+ * Validate a lesson's activity list, including that activity ids are unique
+ */
+export function validateLessonActivities(activities: unknown, path = 'activities'): LessonValidationError[] {
+  if (!Array.isArray(activities)) {
+    return [{ field: path, message: 'activities must be a list' }]
+  }
+
+  const errors = activities.flatMap((activity, index) => validateLessonActivity(activity, `${path}[${index}]`))
+
+  const seen = new Set<string>()
+  activities.forEach((activity, index) => {
+    const id = isObject(activity) ? activity.id : undefined
+    if (typeof id !== 'string') return
+    if (seen.has(id)) {
+      errors.push({ field: `${path}[${index}].id`, message: `duplicate activity id "${id}"` })
+    }
+    seen.add(id)
+  })
+
+  return errors
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+/**
+ * Validate a lesson's branching rules against the activities they refer to
+ */
+export function validateLessonBranching(
+  branching: unknown,
+  activities: unknown,
+  path = 'branching'
+): LessonValidationError[] {
+  if (!isObject(branching)) {
+    return [{ field: path, message: 'branching must be an object' }]
+  }
+
+  const errors: LessonValidationError[] = []
+  const activityTypes = new Map<string, unknown>()
+  if (Array.isArray(activities)) {
+    for (const activity of activities) {
+      if (isObject(activity) && typeof activity.id === 'string') {
+        activityTypes.set(activity.id, activity.type)
+      }
+    }
+  }
+
+  const { remediation, fastStreak } = branching
+
+  if (remediation !== undefined) {
+    if (!Array.isArray(remediation)) {
+      errors.push({ field: `${path}.remediation`, message: 'remediation must be a list' })
+    } else {
+      const watched = new Set<string>()
+      remediation.forEach((rule, index) => {
+        const rulePath = `${path}.remediation[${index}]`
+        if (!isObject(rule)) {
+          errors.push({ field: rulePath, message: 'rule must be an object' })
+          return
+        }
+
+        const check = createChecker(errors, rulePath, rule)
+        if (check.requiredString('activityId')) {
+          const activityId = rule.activityId as string
+          const type = activityTypes.get(activityId)
+          if (type === undefined) {
+            check.fail('activityId', `no activity with id "${activityId}"`)
+          } else if (!REMEDIABLE_TYPES.includes(type as ActivityType)) {
+            check.fail('activityId', `remediation only applies to ${REMEDIABLE_TYPES.join(', ')} activities`)
+          } else if (watched.has(activityId)) {
+            check.fail('activityId', `activity "${activityId}" already has a remediation rule`)
+          }
+          watched.add(activityId)
+        }
+
+        if (rule.afterFailures !== undefined && !isPositiveInteger(rule.afterFailures)) {
+          check.fail('afterFailures', 'afterFailures must be a whole number of 1 or more')
+        }
+
+        const remedialErrors = validateLessonActivity(rule.remedial, `${rulePath}.remedial`)
+        errors.push(...remedialErrors)
+        if (remedialErrors.length === 0 && activityTypes.has((rule.remedial as Fields).id as string)) {
+          errors.push({ field: `${rulePath}.remedial.id`, message: 'remedial id must differ from the lesson\'s activity ids' })
+        }
+      })
+    }
+  }
+
+  if (fastStreak !== undefined) {
+    const streakPath = `${path}.fastStreak`
+    if (!isObject(fastStreak)) {
+      errors.push({ field: streakPath, message: 'fastStreak must be an object' })
+    } else {
+      const check = createChecker(errors, streakPath, fastStreak)
+      if (!isPositiveInteger(fastStreak.streak)) {
+        check.fail('streak', 'streak must be a whole number of 1 or more')
+      }
+      const { maxSecondsPerActivity } = fastStreak
+      if (typeof maxSecondsPerActivity !== 'number' || maxSecondsPerActivity <= 0) {
+        check.fail('maxSecondsPerActivity', 'maxSecondsPerActivity must be a number above 0')
+      }
+      if (check.stringList('skippableActivityIds')) {
+        (fastStreak.skippableActivityIds as string[]).forEach((activityId, index) => {
+          if (!activityTypes.has(activityId)) {
+            errors.push({ field: `${streakPath}.skippableActivityIds[${index}]`, message: `no activity with id "${activityId}"` })
+          }
+        })
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validate a lesson content file (the JSON format in src/lessons)
+ */
+export function validateLessonContent(lesson: unknown): LessonValidationError[] {
+  if (!isObject(lesson)) {
+    return [{ field: 'lesson', message: 'lesson must be an object' }]
+  }
+
+  const errors: LessonValidationError[] = []
+  for (const field of ['id', 'title', 'subject']) {
+    if (!isNonEmptyString(lesson[field])) {
+      errors.push({ field, message: `${field} must be a non-empty string` })
+    }
+  }
+  errors.push(...validateLessonActivities(lesson.activities))
+  if (lesson.branching !== undefined) {
+    errors.push(...validateLessonBranching(lesson.branching, lesson.activities))
+  }
+  const { prerequisites } = lesson
+  if (prerequisites !== undefined && (!Array.isArray(prerequisites) || !prerequisites.every(isNonEmptyString))) {
+    errors.push({ field: 'prerequisites', message: 'prerequisites must be a list of lesson ids' })
+  }
+  return errors
+}
+
+/**
+ * One line per error, for logs and the CLI
+ */
+export function formatLessonValidationErrors(errors: LessonValidationError[]): string {
+  return errors.map((error) => `${error.field}: ${error.message}`).join('\n')
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { parseLetterAttempts, tallyLetterAttempts, MAX_LETTER_ATTEMPTS } from './letterKnowledge.js'
+
+describe('Letter Knowledge', () => {
+  describe('parseLetterAttempts', () => {
+    it('should accept uppercase and lowercase letters', () => {
+      const attempts = [
+        { letter: 'Q', skill: 'name', correct: true },
+        { letter: 'q', skill: 'sound', correct: false },
+      ]
+
+      expect(parseLetterAttempts({ attempts })).toEqual({ attempts })
+    })
+
+    it('should reject bad attempts with the offending index', () => {
+      expect(parseLetterAttempts({})).toEqual({ error: 'attempts must be a non-empty array' })
+      expect(parseLetterAttempts({ attempts: [{ letter: '7', skill: 'name', correct: true }] }))
+        .toEqual({ error: 'attempts[0].letter must be a single letter A-Z or a-z' })
+      expect(parseLetterAttempts({ attempts: [{ letter: 'a', skill: 'shape', correct: true }] }))
+        .toEqual({ error: 'attempts[0].skill must be one of name, sound' })
+      expect(parseLetterAttempts({ attempts: [{ letter: 'a', skill: 'name', correct: 'yes' }] }))
+        .toEqual({ error: 'attempts[0].correct must be a boolean' })
+    })
+
+    it('should cap the number of attempts', () => {
+      const attempts = Array(MAX_LETTER_ATTEMPTS + 1).fill({ letter: 'a', skill: 'name', correct: true })
+
+      expect(parseLetterAttempts({ attempts })).toHaveProperty('error')
+    })
+  })
+
+  describe('tallyLetterAttempts', () => {
+    it('should sum answers per letter and skill', () => {
+      expect(tallyLetterAttempts([
+        { letter: 'm', skill: 'name', correct: true },
+        { letter: 'm', skill: 'name', correct: false },
+        { letter: 'm', skill: 'sound', correct: true },
+        { letter: 'M', skill: 'name', correct: true },
+      ])).toEqual([
+        { letter: 'm', nameCorrect: 1, nameAttempts: 2, soundCorrect: 1, soundAttempts: 1 },
+        { letter: 'M', nameCorrect: 1, nameAttempts: 1, soundCorrect: 0, soundAttempts: 0 },
+      ])
+    })
+  })
+})
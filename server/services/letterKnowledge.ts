@@ -0,0 +1,85 @@
+/**
+ * Validation and tallying for letter hunt answers.
+ *
+ * Pure helpers shared by the Express routes and the Cloudflare progress handler.
+ */
+
+import {
+  LETTER_SKILLS,
+  isHuntLetter,
+  type LetterSkill,
+} from '../../src/game-data/letter-hunt-types.js'
+
+/** Upper bound on answers accepted in a single upload */
+export const MAX_LETTER_ATTEMPTS = 200
+
+export interface LetterAttemptInput {
+  /** Case matters: "B" and "b" are separate cells */
+  letter: string
+  skill: LetterSkill
+  correct: boolean
+}
+
+/** Counts to add to one letter's row */
+export interface LetterTally {
+  letter: string
+  nameCorrect: number
+  nameAttempts: number
+  soundCorrect: number
+  soundAttempts: number
+}
+
+export type LetterAttemptsParseResult =
+  | { attempts: LetterAttemptInput[] }
+  | { error: string }
+
+/**
+ * Validate a letter hunt request body: { attempts: [{ letter, skill, correct }] }
+ */
+export function parseLetterAttempts(body: unknown): LetterAttemptsParseResult {
+  const input = (body ?? {}) as Record<string, unknown>
+
+  if (!Array.isArray(input.attempts) || input.attempts.length === 0) {
+    return { error: 'attempts must be a non-empty array' }
+  }
+  if (input.attempts.length > MAX_LETTER_ATTEMPTS) {
+    return { error: `attempts cannot contain more than ${MAX_LETTER_ATTEMPTS} items` }
+  }
+
+  const attempts: LetterAttemptInput[] = []
+  for (let i = 0; i < input.attempts.length; i++) {
+    const attempt = (input.attempts[i] ?? {}) as Record<string, unknown>
+    if (!isHuntLetter(attempt.letter)) {
+      return { error: `attempts[${i}].letter must be a single letter A-Z or a-z` }
+    }
+    if (!LETTER_SKILLS.includes(attempt.skill as LetterSkill)) {
+      return { error: `attempts[${i}].skill must be one of ${LETTER_SKILLS.join(', ')}` }
+    }
+    if (typeof attempt.correct !== 'boolean') {
+      return { error: `attempts[${i}].correct must be a boolean` }
+    }
+    attempts.push({ letter: attempt.letter, skill: attempt.skill as LetterSkill, correct: attempt.correct })
+  }
+
+  return { attempts }
+}
+
+/**
+ * Sum answers per letter, so each letter's row is updated once
+ */
+export function tallyLetterAttempts(attempts: LetterAttemptInput[]): LetterTally[] {
+  const tallies = new Map<string, LetterTally>()
+  for (const { letter, skill, correct } of attempts) {
+    const tally = tallies.get(letter)
+      ?? { letter, nameCorrect: 0, nameAttempts: 0, soundCorrect: 0, soundAttempts: 0 }
+    if (skill === 'name') {
+      tally.nameAttempts++
+      if (correct) tally.nameCorrect++
+    } else {
+      tally.soundAttempts++
+      if (correct) tally.soundCorrect++
+    }
+    tallies.set(letter, tally)
+  }
+  return [...tallies.values()]
+}
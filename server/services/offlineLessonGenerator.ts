@@ -0,0 +1,162 @@
+/**
+ * Offline lesson generator
+ *
+ * Builds a lesson in the same JSON shape the AI providers are asked for,
+ * from templates and the bundled word-family and sight-word lists. The same
+ * request always gives the same lesson, so `/api/lessons/generate` can be
+ * exercised in development and tests without network access or API keys.
+ */
+
+import type { LessonGenerationRequest } from './ai.js'
+import { wordFamilies, type WordFamily, type WordFamilyWord } from '../../src/game-data/word-families.js'
+import { prePrimerWords } from '../../src/game-data/sight-words.js'
+
+/** Words that say how a topic is phrased rather than what it is about */
+const FILLER_WORDS = new Set(['a', 'about', 'and', 'family', 'lesson', 'make', 'me', 'of', 'on', 'the', 'with', 'word', 'words'])
+
+/** Real words, the ones with a picture first */
+function pictureWords(family: WordFamily): WordFamilyWord[] {
+  return family.words
+    .filter(word => word.isReal)
+    .sort((a, b) => Number(!!b.emoji) - Number(!!a.emoji))
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+/**
+ * Word family named in the topic (`-ig words`, `ig family`), else the first
+ * beginner family
+ */
+function pickFamily(topic: string): WordFamily {
+  const families = wordFamilies.families
+  const named = topic.toLowerCase().match(/-([a-z]{2,3})\b|\b([a-z]{2,3}) (?:words|family)\b/)
+  const rime = named?.[1] ?? named?.[2]
+  return families.find(family => family.rime === rime) ?? families.find(family => family.difficulty === 1) ?? families[0]
+}
+
+/** What the lesson is themed around: the rest of the topic, or an interest */
+function pickTheme(request: LessonGenerationRequest, rime: string): string | null {
+  const fromTopic = (request.topic ?? '')
+    .toLowerCase()
+    .replace(new RegExp(`-?\\b${rime}\\b`, 'g'), ' ')
+    .split(/[^a-z]+/)
+    .filter(word => word && !FILLER_WORDS.has(word))
+    .join(' ')
+  return fromTopic || request.childProfile.interests?.[0]?.toLowerCase() || null
+}
+
+function sightWordsLesson(request: LessonGenerationRequest) {
+  const words = prePrimerWords.slice(0, 5)
+  const [first, second] = words
+
+  return {
+    title: 'My First Sight Words',
+    subject: request.subject,
+    gradeLevel: request.childProfile.gradeLevel || 'kindergarten',
+    difficulty: 'easy',
+    durationMinutes: request.preferredDuration || 10,
+    objectives: [`Read ${words.join(', ')} on sight`],
+    tags: ['sight-words'],
+    activities: [
+      { id: 'see', type: 'sight-words', order: 0, instructions: "Let's learn some words we see everywhere!", words },
+      { id: 'say', type: 'listen-repeat', order: 1, instructions: 'Listen and say it back!', phrase: `${first} ${second}` },
+      {
+        id: 'find',
+        type: 'quiz',
+        order: 2,
+        instructions: 'Find the word!',
+        question: `Which word is "${second}"?`,
+        options: [words[2], second, words[3]],
+        correctIndex: 1,
+      },
+      { id: 'fill', type: 'fill-in-blank', order: 3, instructions: 'Fill in the missing word!', sentence: `I can see ___ dog.`, answer: 'a', wordBank: ['a', 'and'] },
+    ],
+    materials: [],
+    assessmentCriteria: [`Child reads ${words.join(', ')} without sounding them out`],
+  }
+}
+
+function wordFamilyLesson(request: LessonGenerationRequest) {
+  const family = pickFamily(request.topic ?? '')
+  const { rime } = family
+  const theme = pickTheme(request, rime)
+  const words = pictureWords(family).slice(0, 4)
+  const [first, second, third] = words
+  const distractors = wordFamilies.families
+    .filter(other => other.rime !== rime)
+    .slice(0, 2)
+    .map(other => pictureWords(other)[0].word)
+
+  // Keep the right answer from always sitting in the same place
+  const correctIndex = rime.charCodeAt(0) % 3
+  const options = [...distractors]
+  options.splice(correctIndex, 0, second.word)
+
+  return {
+    title: theme ? `${capitalize(theme)} and -${rime.toUpperCase()} Words` : `The -${rime.toUpperCase()} Word Family`,
+    subject: request.subject,
+    gradeLevel: request.childProfile.gradeLevel || 'kindergarten',
+    difficulty: family.difficulty === 1 ? 'easy' : family.difficulty === 2 ? 'medium' : 'hard',
+    durationMinutes: request.preferredDuration || 15,
+    objectives: [`Read words in the -${rime} family`, `Build -${rime} words from beginning sounds`],
+    tags: ['word-families'],
+    activities: [
+      {
+        id: 'listen',
+        type: 'phonics',
+        order: 0,
+        instructions: `Let's listen to the -${rime.toUpperCase()} sound!`,
+        sound: rime,
+        exampleWords: words.map(word => word.word),
+        soundPosition: 'end',
+      },
+      {
+        id: 'build',
+        type: 'word-building',
+        order: 1,
+        instructions: `Let's build -${rime.toUpperCase()} words!`,
+        pattern: rime,
+        onsets: words.map(word => word.onset),
+        words: words.map(word => word.word),
+      },
+      {
+        id: 'read',
+        type: 'reading',
+        order: 2,
+        instructions: theme ? `Let's read about ${theme}!` : "Let's read together!",
+        content: `Look at the ${first.word}. The ${first.word} is by the ${third?.word ?? second.word}.`,
+        readAloud: true,
+      },
+      { id: 'spell', type: 'spelling', order: 3, instructions: 'Spell the word!', word: first.word, ...(first.emoji && { hint: first.emoji }) },
+      {
+        id: 'rhyme',
+        type: 'quiz',
+        order: 4,
+        instructions: 'Choose the right word!',
+        question: `Which word rhymes with ${first.word}?`,
+        options,
+        correctIndex,
+      },
+      {
+        id: 'fill',
+        type: 'fill-in-blank',
+        order: 5,
+        instructions: 'Fill in the missing word!',
+        sentence: `I see a ___.`,
+        answer: second.word,
+        wordBank: [second.word, distractors[0]],
+      },
+    ],
+    materials: [],
+    assessmentCriteria: [`Child reads ${words.map(word => word.word).join(', ')}`],
+  }
+}
+
+/**
+ * Lesson JSON for a generation request, in the shape the AI prompt asks for
+ */
+export function generateOfflineLesson(request: LessonGenerationRequest) {
+  return request.subject === 'sight-words' ? sightWordsLesson(request) : wordFamilyLesson(request)
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseIdempotencyKey,
+  parseOccurredAt,
+  mergeLessonProgress,
+  mergeActivityProgress,
+  LessonProgressState,
+} from './progressSync.js'
+
+const NOW = new Date('2026-01-01T12:00:00.000Z')
+
+describe('Progress Sync', () => {
+  describe('parseIdempotencyKey', () => {
+    it('should accept a missing key', () => {
+      expect(parseIdempotencyKey(undefined)).toEqual({ key: null })
+    })
+
+    it('should accept a UUID', () => {
+      const key = '3f2b8c1e-7a4d-4e2b-9c1a-2d3e4f5a6b7c'
+      expect(parseIdempotencyKey(key)).toEqual({ key })
+    })
+
+    it('should reject short or malformed keys', () => {
+      expect(parseIdempotencyKey('abc')).toHaveProperty('error')
+      expect(parseIdempotencyKey('has spaces in it')).toHaveProperty('error')
+    })
+  })
+
+  describe('parseOccurredAt', () => {
+    it('should normalize valid dates', () => {
+      expect(parseOccurredAt('2026-01-01T12:00:00Z')).toEqual({ occurredAt: NOW.toISOString() })
+    })
+
+    it('should reject invalid dates', () => {
+      expect(parseOccurredAt('yesterday')).toEqual({ error: 'occurredAt must be a valid date' })
+    })
+  })
+
+  describe('mergeLessonProgress', () => {
+    const completed: LessonProgressState = {
+      status: 'completed',
+      score: 90,
+      timeSpent: 300,
+      currentActivityIndex: 4,
+      clientUpdatedAt: '2026-01-01T11:00:00.000Z',
+    }
+
+    it('should apply a newer update', () => {
+      const merged = mergeLessonProgress(completed, {
+        status: 'in_progress',
+        currentActivityIndex: 0,
+        occurredAt: '2026-01-01T11:30:00.000Z',
+      })
+
+      expect(merged).toEqual({
+        ...completed,
+        status: 'in_progress',
+        currentActivityIndex: 0,
+        clientUpdatedAt: '2026-01-01T11:30:00.000Z',
+      })
+    })
+
+    it('should ignore an update made before the stored one', () => {
+      const merged = mergeLessonProgress(completed, {
+        status: 'in_progress',
+        occurredAt: '2026-01-01T10:00:00.000Z',
+      })
+
+      expect(merged).toBe(completed)
+    })
+
+    it('should apply updates without a client timestamp', () => {
+      const merged = mergeLessonProgress(completed, { score: 95, occurredAt: null })
+
+      expect(merged.score).toBe(95)
+      expect(merged.clientUpdatedAt).toBe(completed.clientUpdatedAt)
+    })
+
+    it('should start from an empty record', () => {
+      const merged = mergeLessonProgress(null, { status: 'in_progress', occurredAt: null })
+
+      expect(merged).toEqual({
+        status: 'in_progress',
+        score: null,
+        timeSpent: 0,
+        currentActivityIndex: 0,
+        clientUpdatedAt: null,
+      })
+    })
+  })
+
+  describe('mergeActivityProgress', () => {
+    it('should accumulate attempts and time', () => {
+      const first = mergeActivityProgress(null, {
+        completed: false,
+        score: 40,
+        timeSpentSeconds: 30,
+        occurredAt: null,
+      }, NOW)
+      const second = mergeActivityProgress(first, {
+        completed: true,
+        score: 80,
+        attempts: 2,
+        timeSpentSeconds: 45,
+        occurredAt: '2026-01-01T11:59:00.000Z',
+      }, NOW)
+
+      expect(second).toEqual({
+        completed: true,
+        score: 80,
+        attempts: 3,
+        timeSpentSeconds: 75,
+        completedAt: '2026-01-01T11:59:00.000Z',
+      })
+    })
+
+    it('should keep completion and the best score', () => {
+      const done = mergeActivityProgress(null, { completed: true, score: 100, occurredAt: null }, NOW)
+      const retry = mergeActivityProgress(done, { completed: false, score: 20, occurredAt: null }, NOW)
+
+      expect(retry.completed).toBe(true)
+      expect(retry.score).toBe(100)
+      expect(retry.completedAt).toBe(NOW.toISOString())
+    })
+
+    it('should not count a skipped activity as an attempt', () => {
+      const skipped = mergeActivityProgress(null, { completed: false, attempts: 0, occurredAt: null }, NOW)
+
+      expect(skipped.attempts).toBe(0)
+    })
+  })
+})
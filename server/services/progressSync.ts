@@ -0,0 +1,150 @@
+/**
+ * Merge rules for progress writes that may be replayed from an offline outbox.
+ *
+ * Lesson progress is last-writer-wins by the client's `occurredAt` timestamp,
+ * so a stale replay never overwrites newer state. Activity progress counters
+ * (attempts, time spent) are additive; the idempotency key on the request is
+ * what stops a replay of the same write from being counted twice.
+ *
+ * Pure helpers shared by the Express routes and the Cloudflare handlers.
+ */
+
+/** Request header carrying the client-generated mutation id */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key'
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/
+
+export type IdempotencyKeyResult =
+  | { key: string | null }
+  | { error: string }
+
+/**
+ * Validate an Idempotency-Key header value. A missing header is allowed and
+ * yields a null key (the write is applied without replay protection).
+ */
+export function parseIdempotencyKey(value: unknown): IdempotencyKeyResult {
+  if (value === undefined || value === null || value === '') {
+    return { key: null }
+  }
+  if (typeof value !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(value)) {
+    return { error: `${IDEMPOTENCY_KEY_HEADER} must be 8-128 letters, digits or . _ : -` }
+  }
+  return { key: value }
+}
+
+/**
+ * Read the optional `occurredAt` timestamp from a request body
+ */
+export function parseOccurredAt(value: unknown): { occurredAt: string | null } | { error: string } {
+  if (value === undefined || value === null) {
+    return { occurredAt: null }
+  }
+  if (typeof value !== 'string' || Number.isNaN(new Date(value).getTime())) {
+    return { error: 'occurredAt must be a valid date' }
+  }
+  return { occurredAt: new Date(value).toISOString() }
+}
+
+export interface LessonProgressState {
+  status: string
+  score: number | null
+  timeSpent: number
+  currentActivityIndex: number
+  clientUpdatedAt: string | null
+}
+
+export interface LessonProgressUpdate {
+  status?: string
+  score?: number | null
+  timeSpent?: number
+  currentActivityIndex?: number
+  occurredAt: string | null
+}
+
+/**
+ * True when an update was made on the client before the stored state was
+ */
+export function isStaleUpdate(clientUpdatedAt: string | null, occurredAt: string | null): boolean {
+  if (!clientUpdatedAt || !occurredAt) return false
+  return new Date(occurredAt).getTime() < new Date(clientUpdatedAt).getTime()
+}
+
+/**
+ * Apply a lesson progress update; fields left undefined keep their stored value
+ */
+export function mergeLessonProgress(
+  existing: LessonProgressState | null,
+  update: LessonProgressUpdate
+): LessonProgressState {
+  const base: LessonProgressState = existing ?? {
+    status: 'not_started',
+    score: null,
+    timeSpent: 0,
+    currentActivityIndex: 0,
+    clientUpdatedAt: null,
+  }
+
+  if (existing && isStaleUpdate(existing.clientUpdatedAt, update.occurredAt)) {
+    return existing
+  }
+
+  return {
+    status: update.status ?? base.status,
+    score: update.score !== undefined ? update.score : base.score,
+    timeSpent: update.timeSpent ?? base.timeSpent,
+    currentActivityIndex: update.currentActivityIndex ?? base.currentActivityIndex,
+    clientUpdatedAt: update.occurredAt ?? base.clientUpdatedAt,
+  }
+}
+
+export interface ActivityProgressState {
+  completed: boolean
+  score: number | null
+  attempts: number
+  timeSpentSeconds: number
+  completedAt: string | null
+}
+
+export interface ActivityProgressUpdate {
+  completed: boolean
+  score?: number | null
+  /** Attempts made in this submission (defaults to 1) */
+  attempts?: number
+  /** Seconds spent in this submission */
+  timeSpentSeconds?: number
+  occurredAt: string | null
+}
+
+function toCount(value: number | undefined, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : fallback
+}
+
+/**
+ * Fold one submission into an activity's progress. Completion is sticky,
+ * the best score is kept and attempts/time accumulate.
+ */
+export function mergeActivityProgress(
+  existing: ActivityProgressState | null,
+  update: ActivityProgressUpdate,
+  now: Date = new Date()
+): ActivityProgressState {
+  const base: ActivityProgressState = existing ?? {
+    completed: false,
+    score: null,
+    attempts: 0,
+    timeSpentSeconds: 0,
+    completedAt: null,
+  }
+
+  const score = update.score ?? null
+  const completedAt = base.completedAt
+    ?? (update.completed ? update.occurredAt ?? now.toISOString() : null)
+
+  return {
+    completed: base.completed || update.completed,
+    score: base.score === null ? score : score === null ? base.score : Math.max(base.score, score),
+    attempts: base.attempts + toCount(update.attempts, 1),
+    timeSpentSeconds: base.timeSpentSeconds + toCount(update.timeSpentSeconds, 0),
+    completedAt,
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeTranscript,
+  wordToPhonemes,
+  alignPhonemes,
+  scorePronunciation,
+  getPhonemeHint,
+  parsePhonemes,
+} from './pronunciationScoring.js'
+
+describe('Pronunciation Scoring', () => {
+  describe('normalizeTranscript', () => {
+    it('should lowercase and drop punctuation', () => {
+      expect(normalizeTranscript('Bat.')).toEqual(['bat'])
+      expect(normalizeTranscript('Um, the CAT!')).toEqual(['um', 'the', 'cat'])
+    })
+  })
+
+  describe('wordToPhonemes', () => {
+    it('should match the phonemes used by the read-aloud words', () => {
+      expect(wordToPhonemes('cat')).toEqual(['k', 'æ', 't'])
+      expect(wordToPhonemes('fox')).toEqual(['f', 'ɔ', 'ks'])
+      expect(wordToPhonemes('ship')).toEqual(['ʃ', 'ɪ', 'p'])
+      expect(wordToPhonemes('chop')).toEqual(['tʃ', 'ɔ', 'p'])
+      expect(wordToPhonemes('rabbit')).toEqual(['r', 'æ', 'b', 'ɪ', 't'])
+      expect(wordToPhonemes('happy')).toEqual(['h', 'æ', 'p', 'i'])
+    })
+
+    it('should handle long vowels and sight words', () => {
+      expect(wordToPhonemes('make')).toEqual(['m', 'eɪ', 'k'])
+      expect(wordToPhonemes('go')).toEqual(['g', 'oʊ'])
+      expect(wordToPhonemes('the')).toEqual(['ð', 'ə'])
+    })
+  })
+
+  describe('alignPhonemes', () => {
+    it('should report substitutions, omissions and insertions', () => {
+      expect(alignPhonemes(['b', 'æ', 't'], ['p', 'æ', 't']).phonemes).toEqual([
+        { phoneme: 'b', status: 'substituted', heard: 'p' },
+        { phoneme: 'æ', status: 'correct' },
+        { phoneme: 't', status: 'correct' },
+      ])
+
+      const omitted = alignPhonemes(['s', 't', 'ɔ', 'p'], ['s', 'ɔ', 'p'])
+      expect(omitted.phonemes[1]).toEqual({ phoneme: 't', status: 'omitted' })
+      expect(omitted.distance).toBe(1)
+
+      expect(alignPhonemes(['k', 'æ', 't'], ['k', 'æ', 't', 's']).inserted).toEqual(['s'])
+    })
+  })
+
+  describe('scorePronunciation', () => {
+    it('should accept the word with trailing punctuation', () => {
+      const score = scorePronunciation('Bat.', 'bat')
+
+      expect(score.isCorrect).toBe(true)
+      expect(score.accuracy).toBe(1)
+    })
+
+    it('should not accept a plural for the singular', () => {
+      const score = scorePronunciation('cats', 'cat')
+
+      expect(score.isCorrect).toBe(false)
+      expect(score.insertedPhonemes).toEqual(['s'])
+      expect(score.phonemes.every(p => p.status === 'correct')).toBe(true)
+    })
+
+    it('should score the closest word in a longer transcript', () => {
+      const score = scorePronunciation('I think it is pat', 'bat', { phonemes: ['b', 'æ', 't'] })
+
+      expect(score.heardWord).toBe('pat')
+      expect(score.phonemes[0]).toEqual({ phoneme: 'b', status: 'substituted', heard: 'p' })
+      expect(score.accuracy).toBeCloseTo(2 / 3)
+    })
+
+    it('should use the supplied phonemes for the expected word', () => {
+      const score = scorePronunciation('kitten', 'kitten', { phonemes: ['k', 'ɪ', 't', 'ə', 'n'] })
+
+      expect(score.isCorrect).toBe(true)
+      expect(score.phonemes.map(p => p.phoneme)).toEqual(['k', 'ɪ', 't', 'ə', 'n'])
+    })
+
+    it('should accept listed variations', () => {
+      expect(scorePronunciation('kitty', 'kitten', { acceptedVariations: ['kitty'] }).isCorrect).toBe(true)
+    })
+
+    it('should mark every sound omitted when nothing was heard', () => {
+      const score = scorePronunciation('', 'dog')
+
+      expect(score.isCorrect).toBe(false)
+      expect(score.phonemes.map(p => p.status)).toEqual(['omitted', 'omitted', 'omitted'])
+    })
+  })
+
+  describe('getPhonemeHint', () => {
+    it('should point at the first sound that went wrong', () => {
+      const score = scorePronunciation('pat', 'bat')
+
+      expect(getPhonemeHint('bat', score)).toBe('Listen to the first sound in "bat": /b/')
+    })
+
+    it('should mention extra sounds', () => {
+      const score = scorePronunciation('cats', 'cat')
+
+      expect(getPhonemeHint('cat', score)).toBe('Close! Just say "cat" - no /s/ sound')
+    })
+
+    it('should have nothing to say for a correct or silent attempt', () => {
+      expect(getPhonemeHint('cat', scorePronunciation('cat', 'cat'))).toBeNull()
+      expect(getPhonemeHint('cat', scorePronunciation('', 'cat'))).toBeNull()
+    })
+  })
+
+  describe('parsePhonemes', () => {
+    it('should read arrays and JSON-encoded form fields', () => {
+      expect(parsePhonemes(['k', 'æ', 't'])).toEqual(['k', 'æ', 't'])
+      expect(parsePhonemes('["k","æ","t"]')).toEqual(['k', 'æ', 't'])
+    })
+
+    it('should ignore missing or malformed values', () => {
+      expect(parsePhonemes(undefined)).toBeUndefined()
+      expect(parsePhonemes('k,æ,t')).toBeUndefined()
+      expect(parsePhonemes([1, 2])).toBeUndefined()
+    })
+  })
+})
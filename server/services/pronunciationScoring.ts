@@ -0,0 +1,353 @@
+/**
+ * Phoneme-level pronunciation scoring for read-aloud checks.
+ *
+ * The speech-to-text transcript is converted to phonemes with a small
+ * rule-based grapheme-to-phoneme pass, then aligned against the expected
+ * word's phonemes by edit distance. Each expected phoneme comes back as
+ * correct, substituted or omitted, so the games can point a child at the
+ * exact sound they missed instead of a generic "Try again!".
+ *
+ * Symbols follow the IPA used by `ReadAloudWord.phonemes` (e.g. ['k', 'æ', 't'],
+ * 'ks' for x). Pure and dependency-free so the Express routes, the Cloudflare
+ * handlers and the browser fallback all score the same way.
+ */
+
+export type PhonemeStatus = 'correct' | 'substituted' | 'omitted'
+
+export interface PhonemeResult {
+  /** Expected phoneme */
+  phoneme: string
+  status: PhonemeStatus
+  /** What was heard in its place, for substitutions */
+  heard?: string
+}
+
+export interface PronunciationScore {
+  isCorrect: boolean
+  /** The transcript word that lined up best with the expected word */
+  heardWord: string
+  phonemes: PhonemeResult[]
+  /** Sounds heard that are not part of the word (e.g. the "s" in "cats") */
+  insertedPhonemes: string[]
+  /** Fraction of expected phonemes said correctly (0-1) */
+  accuracy: number
+}
+
+export interface ScoreOptions {
+  /** Known phonemes for the expected word; derived from its spelling when omitted */
+  phonemes?: string[]
+  /** Alternative transcriptions that count as correct */
+  acceptedVariations?: string[]
+}
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u'])
+
+const VOWEL_PHONEMES = new Set(['æ', 'ɛ', 'ɪ', 'ɔ', 'ʌ', 'ə', 'ʊ', 'i', 'u', 'eɪ', 'aɪ', 'oʊ', 'aʊ', 'ɔɪ', 'ɑ'])
+
+// Long vowel for a vowel-consonant-e ending ("make", "bike", "hope")
+const LONG_VOWELS: Record<string, string> = { a: 'eɪ', e: 'i', i: 'aɪ', o: 'oʊ', u: 'u' }
+
+const SHORT_VOWELS: Record<string, string> = { a: 'æ', e: 'ɛ', i: 'ɪ', o: 'ɔ', u: 'ʌ' }
+
+// Letter groups tried longest first
+const GRAPHEMES: Array<[string, string[]]> = [
+  ['tch', ['tʃ']],
+  ['igh', ['aɪ']],
+  ['sh', ['ʃ']],
+  ['ch', ['tʃ']],
+  ['th', ['θ']],
+  ['ph', ['f']],
+  ['wh', ['w']],
+  ['ck', ['k']],
+  ['ng', ['ŋ']],
+  ['qu', ['k', 'w']],
+  ['ee', ['i']],
+  ['ea', ['i']],
+  ['oo', ['u']],
+  ['ai', ['eɪ']],
+  ['ay', ['eɪ']],
+  ['oa', ['oʊ']],
+  ['oi', ['ɔɪ']],
+  ['oy', ['ɔɪ']],
+  ['ou', ['aʊ']],
+  ['ow', ['aʊ']],
+  ['ar', ['ɑ', 'r']],
+  ['or', ['ɔ', 'r']],
+  ['er', ['ə', 'r']],
+  ['ir', ['ə', 'r']],
+  ['ur', ['ə', 'r']],
+]
+
+// Common sight words the spelling rules get wrong
+const IRREGULAR_WORDS: Record<string, string[]> = {
+  a: ['ə'],
+  the: ['ð', 'ə'],
+  this: ['ð', 'ɪ', 's'],
+  that: ['ð', 'æ', 't'],
+  they: ['ð', 'eɪ'],
+  them: ['ð', 'ɛ', 'm'],
+  then: ['ð', 'ɛ', 'n'],
+  there: ['ð', 'ɛ', 'r'],
+  with: ['w', 'ɪ', 'θ'],
+  of: ['ʌ', 'v'],
+  to: ['t', 'u'],
+  do: ['d', 'u'],
+  two: ['t', 'u'],
+  you: ['j', 'u'],
+  said: ['s', 'ɛ', 'd'],
+  says: ['s', 'ɛ', 'z'],
+  was: ['w', 'ʌ', 'z'],
+  is: ['ɪ', 'z'],
+  his: ['h', 'ɪ', 'z'],
+  has: ['h', 'æ', 'z'],
+  are: ['ɑ', 'r'],
+  one: ['w', 'ʌ', 'n'],
+  come: ['k', 'ʌ', 'm'],
+  some: ['s', 'ʌ', 'm'],
+  what: ['w', 'ʌ', 't'],
+  where: ['w', 'ɛ', 'r'],
+  here: ['h', 'ɪ', 'r'],
+  have: ['h', 'æ', 'v'],
+  give: ['g', 'ɪ', 'v'],
+  live: ['l', 'ɪ', 'v'],
+  put: ['p', 'ʊ', 't'],
+  look: ['l', 'ʊ', 'k'],
+  good: ['g', 'ʊ', 'd'],
+}
+
+/**
+ * Read expected phonemes sent alongside a pronunciation check, either as an
+ * array or as a JSON-encoded array in a multipart form field
+ */
+export function parsePhonemes(value: unknown): string[] | undefined {
+  let parsed = value
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value)
+    } catch {
+      return undefined
+    }
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0 || !parsed.every(p => typeof p === 'string' && p !== '')) {
+    return undefined
+  }
+  return parsed
+}
+
+/**
+ * Lowercase a transcript and split it into words, dropping punctuation
+ * ("Bat." -> ["bat"])
+ */
+export function normalizeTranscript(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z'\s-]/g, ' ')
+    .replace(/'/g, '')
+    .split(/[\s-]+/)
+    .filter(Boolean)
+}
+
+/**
+ * Rule-based grapheme-to-phoneme conversion for simple English words
+ */
+export function wordToPhonemes(word: string): string[] {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '')
+  if (IRREGULAR_WORDS[letters]) {
+    return [...IRREGULAR_WORDS[letters]]
+  }
+
+  const vowelCount = [...letters].filter(letter => VOWELS.has(letter)).length
+  const magicE = /[aeiou][^aeiouwxy]e$/.test(letters) && vowelCount >= 2
+  const phonemes: string[] = []
+  let i = 0
+
+  while (i < letters.length) {
+    const rest = letters.slice(i)
+    const group = GRAPHEMES.find(([graphemes]) => rest.startsWith(graphemes))
+    if (group) {
+      phonemes.push(...group[1])
+      i += group[0].length
+      continue
+    }
+
+    const letter = letters[i]
+    const next = letters[i + 1]
+    const isLast = i === letters.length - 1
+
+    if (VOWELS.has(letter)) {
+      if (magicE && i === letters.length - 3) {
+        phonemes.push(LONG_VOWELS[letter])
+      } else if (isLast && letter === 'e' && vowelCount > 1) {
+        // Silent final e
+      } else if (isLast && vowelCount === 1) {
+        // Open syllable: "he", "go", "hi"
+        phonemes.push(LONG_VOWELS[letter])
+      } else {
+        phonemes.push(SHORT_VOWELS[letter])
+      }
+    } else if (letter === 'y') {
+      if (i === 0 || (next !== undefined && VOWELS.has(next))) {
+        phonemes.push('j')
+      } else if (isLast) {
+        phonemes.push(vowelCount > 0 ? 'i' : 'aɪ')
+      } else {
+        phonemes.push('ɪ')
+      }
+    } else if (letter === next) {
+      // Doubled consonants make one sound ("rabbit", "kitten")
+      i += 1
+      continue
+    } else if (letter === 'c') {
+      phonemes.push(next === 'e' || next === 'i' || next === 'y' ? 's' : 'k')
+    } else if (letter === 'x') {
+      phonemes.push('ks')
+    } else if (letter === 'j') {
+      phonemes.push('dʒ')
+    } else if (letter === 'q') {
+      phonemes.push('k')
+    } else {
+      phonemes.push(letter)
+    }
+    i += 1
+  }
+
+  return phonemes
+}
+
+// Unstressed vowels are often transcribed as any short vowel
+function phonemesMatch(expected: string, heard: string): boolean {
+  if (expected === heard) return true
+  return (expected === 'ə' && VOWEL_PHONEMES.has(heard)) || (heard === 'ə' && VOWEL_PHONEMES.has(expected))
+}
+
+interface Alignment {
+  phonemes: PhonemeResult[]
+  inserted: string[]
+  distance: number
+}
+
+/**
+ * Align heard phonemes against expected ones with Levenshtein edit distance
+ */
+export function alignPhonemes(expected: string[], heard: string[]): Alignment {
+  const rows = expected.length + 1
+  const cols = heard.length + 1
+  const cost: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const substitution = phonemesMatch(expected[i - 1], heard[j - 1]) ? 0 : 1
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitution,
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      )
+    }
+  }
+
+  // Walk back from the end, preferring matches/substitutions over gaps
+  const phonemes: PhonemeResult[] = []
+  const inserted: string[] = []
+  let i = expected.length
+  let j = heard.length
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const matched = phonemesMatch(expected[i - 1], heard[j - 1])
+      if (cost[i][j] === cost[i - 1][j - 1] + (matched ? 0 : 1)) {
+        phonemes.unshift(matched
+          ? { phoneme: expected[i - 1], status: 'correct' }
+          : { phoneme: expected[i - 1], status: 'substituted', heard: heard[j - 1] })
+        i -= 1
+        j -= 1
+        continue
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      phonemes.unshift({ phoneme: expected[i - 1], status: 'omitted' })
+      i -= 1
+    } else {
+      inserted.unshift(heard[j - 1])
+      j -= 1
+    }
+  }
+
+  return { phonemes, inserted, distance: cost[expected.length][heard.length] }
+}
+
+/**
+ * Score a transcript against the word the child was asked to read. Every word
+ * in the transcript is tried and the closest one is kept, so "um, bat" still
+ * counts for "bat" while "cats" does not count for "cat".
+ */
+export function scorePronunciation(
+  transcript: string,
+  expectedWord: string,
+  options: ScoreOptions = {}
+): PronunciationScore {
+  const [target = ''] = normalizeTranscript(expectedWord)
+  const expectedPhonemes = options.phonemes?.length ? options.phonemes : wordToPhonemes(target)
+  const accepted = new Set([target, ...(options.acceptedVariations ?? []).flatMap(normalizeTranscript)])
+  const heardWords = normalizeTranscript(transcript)
+
+  const exact = heardWords.find(word => accepted.has(word))
+  if (exact !== undefined) {
+    return {
+      isCorrect: true,
+      heardWord: exact,
+      phonemes: expectedPhonemes.map(phoneme => ({ phoneme, status: 'correct' })),
+      insertedPhonemes: [],
+      accuracy: 1,
+    }
+  }
+
+  let best: (Alignment & { word: string }) | null = null
+  for (const word of heardWords) {
+    const alignment = alignPhonemes(expectedPhonemes, wordToPhonemes(word))
+    if (!best || alignment.distance < best.distance) {
+      best = { ...alignment, word }
+    }
+  }
+
+  const alignment = best ?? { ...alignPhonemes(expectedPhonemes, []), word: '' }
+  const correctCount = alignment.phonemes.filter(p => p.status === 'correct').length
+
+  return {
+    // Homophones ("see" for "sea") line up with no edits
+    isCorrect: alignment.word !== '' && expectedPhonemes.length > 0 && alignment.distance === 0,
+    heardWord: alignment.word,
+    phonemes: alignment.phonemes,
+    insertedPhonemes: alignment.inserted,
+    accuracy: expectedPhonemes.length > 0 ? correctCount / expectedPhonemes.length : 0,
+  }
+}
+
+function describePosition(index: number, length: number): string {
+  if (index === 0) return 'first'
+  if (index === length - 1) return 'last'
+  return 'middle'
+}
+
+/**
+ * A child-friendly hint pointing at the first sound that went wrong, or null
+ * when there is nothing specific to say
+ */
+export function getPhonemeHint(expectedWord: string, score: PronunciationScore): string | null {
+  if (score.isCorrect || !score.heardWord) {
+    return null
+  }
+
+  const missedIndex = score.phonemes.findIndex(p => p.status !== 'correct')
+  if (missedIndex >= 0) {
+    const position = describePosition(missedIndex, score.phonemes.length)
+    return `Listen to the ${position} sound in "${expectedWord}": /${score.phonemes[missedIndex].phoneme}/`
+  }
+
+  if (score.insertedPhonemes.length > 0) {
+    return `Close! Just say "${expectedWord}" - no /${score.insertedPhonemes.join('')}/ sound`
+  }
+
+  return null
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import {
+  scheduleReview,
+  getReviewQuality,
+  isReviewRecalled,
+  isReviewDue,
+  isReviewMastered,
+  normalizeReviewWord,
+  DEFAULT_EASE_FACTOR,
+  MIN_EASE_FACTOR,
+  MASTERY_INTERVAL_DAYS,
+  type ReviewState,
+} from './reviewScheduler.js'
+
+const NOW = new Date('2026-01-01T12:00:00.000Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Review Scheduler', () => {
+  describe('getReviewQuality', () => {
+    it('should derive quality from correctness', () => {
+      expect(getReviewQuality({ correct: true })).toBe(4)
+      expect(getReviewQuality({ correct: false })).toBe(1)
+    })
+
+    it('should clamp explicit quality to 0-5', () => {
+      expect(getReviewQuality({ correct: true, quality: 9 })).toBe(5)
+      expect(getReviewQuality({ correct: false, quality: -2 })).toBe(0)
+      expect(getReviewQuality({ correct: true, quality: 3.4 })).toBe(3)
+    })
+  })
+
+  describe('isReviewRecalled', () => {
+    it('should follow quality over correctness', () => {
+      expect(isReviewRecalled({ correct: true })).toBe(true)
+      expect(isReviewRecalled({ correct: false })).toBe(false)
+      expect(isReviewRecalled({ correct: true, quality: 2 })).toBe(false)
+      expect(isReviewRecalled({ correct: false, quality: 3 })).toBe(true)
+    })
+  })
+
+  describe('scheduleReview', () => {
+    it('should schedule a new correct word for tomorrow', () => {
+      const state = scheduleReview(null, { correct: true }, NOW)
+
+      expect(state.repetitions).toBe(1)
+      expect(state.intervalDays).toBe(1)
+      expect(state.lapses).toBe(0)
+      expect(new Date(state.dueAt).getTime()).toBe(NOW.getTime() + DAY_MS)
+    })
+
+    it('should follow the 1, 6, interval * ease progression', () => {
+      const first = scheduleReview(null, { correct: true }, NOW)
+      const second = scheduleReview(first, { correct: true }, NOW)
+      const third = scheduleReview(second, { correct: true }, NOW)
+
+      expect(second.intervalDays).toBe(6)
+      expect(third.intervalDays).toBe(Math.round(6 * third.easeFactor))
+    })
+
+    it('should reset and count a lapse on an incorrect answer', () => {
+      const learned: ReviewState = {
+        easeFactor: DEFAULT_EASE_FACTOR,
+        intervalDays: 15,
+        repetitions: 3,
+        lapses: 0,
+        dueAt: NOW.toISOString(),
+      }
+
+      const state = scheduleReview(learned, { correct: false }, NOW)
+
+      expect(state.repetitions).toBe(0)
+      expect(state.intervalDays).toBe(0)
+      expect(state.lapses).toBe(1)
+      expect(state.easeFactor).toBeLessThan(DEFAULT_EASE_FACTOR)
+      expect(new Date(state.dueAt).getTime() - NOW.getTime()).toBeLessThan(DAY_MS)
+    })
+
+    it('should never drop the ease factor below the minimum', () => {
+      let state: ReviewState | null = null
+      for (let i = 0; i < 10; i++) {
+        state = scheduleReview(state, { correct: false, quality: 0 }, NOW)
+      }
+
+      expect(state!.easeFactor).toBe(MIN_EASE_FACTOR)
+    })
+  })
+
+  describe('isReviewDue', () => {
+    it('should compare due date with now', () => {
+      expect(isReviewDue({ dueAt: '2025-12-31T00:00:00.000Z' }, NOW)).toBe(true)
+      expect(isReviewDue({ dueAt: '2026-01-02T00:00:00.000Z' }, NOW)).toBe(false)
+    })
+  })
+
+  describe('isReviewMastered', () => {
+    it('should require the mastery interval', () => {
+      expect(isReviewMastered({ intervalDays: MASTERY_INTERVAL_DAYS })).toBe(true)
+      expect(isReviewMastered({ intervalDays: 6 })).toBe(false)
+    })
+  })
+
+  describe('normalizeReviewWord', () => {
+    it('should trim and lowercase', () => {
+      expect(normalizeReviewWord('  Cat ')).toBe('cat')
+    })
+  })
+})
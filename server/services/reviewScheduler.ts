@@ -0,0 +1,122 @@
+/**
+ * Spaced-repetition scheduler for word mastery.
+ *
+ * A small SM-2 variant shared by every game: each correct/incorrect event for a
+ * (child, word) pair moves the word's next due date. Kept free of database and
+ * runtime imports so both the Express server and the Cloudflare handlers can use it.
+ */
+
+export interface ReviewState {
+  easeFactor: number
+  intervalDays: number
+  repetitions: number
+  lapses: number
+  dueAt: string
+}
+
+export interface ReviewOutcome {
+  correct: boolean
+  /** Optional SM-2 quality (0-5); derived from `correct` when omitted */
+  quality?: number
+}
+
+export const DEFAULT_EASE_FACTOR = 2.5
+export const MIN_EASE_FACTOR = 1.3
+
+/** Interval (in days) after which a word counts as mastered */
+export const MASTERY_INTERVAL_DAYS = 21
+
+/** Lowest SM-2 quality that counts as recalling the word */
+export const PASSING_QUALITY = 3
+
+/** Missed words come back within the same play session */
+const RELEARN_DELAY_MINUTES = 10
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Resolve the SM-2 quality grade for an outcome
+ */
+export function getReviewQuality(outcome: ReviewOutcome): number {
+  if (typeof outcome.quality === 'number' && Number.isFinite(outcome.quality)) {
+    return Math.min(5, Math.max(0, Math.round(outcome.quality)))
+  }
+  return outcome.correct ? 4 : 1
+}
+
+/**
+ * Whether an outcome counts as a correct recall. Follows the quality grade,
+ * so an explicit quality wins over `correct` when the two disagree.
+ */
+export function isReviewRecalled(outcome: ReviewOutcome): boolean {
+  return getReviewQuality(outcome) >= PASSING_QUALITY
+}
+
+/**
+ * Compute the next review state for a word after an outcome.
+ * `previous` is null for a word the child has never been graded on.
+ */
+export function scheduleReview(
+  previous: ReviewState | null,
+  outcome: ReviewOutcome,
+  now: Date = new Date()
+): ReviewState {
+  const quality = getReviewQuality(outcome)
+  const easeFactor = previous?.easeFactor ?? DEFAULT_EASE_FACTOR
+  const repetitions = previous?.repetitions ?? 0
+  const intervalDays = previous?.intervalDays ?? 0
+  const lapses = previous?.lapses ?? 0
+
+  const nextEase = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  )
+
+  if (quality < PASSING_QUALITY) {
+    return {
+      easeFactor: nextEase,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: lapses + 1,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MINUTES * 60 * 1000).toISOString(),
+    }
+  }
+
+  let nextInterval: number
+  if (repetitions === 0) {
+    nextInterval = 1
+  } else if (repetitions === 1) {
+    nextInterval = 6
+  } else {
+    nextInterval = Math.round(intervalDays * nextEase)
+  }
+
+  return {
+    easeFactor: nextEase,
+    intervalDays: nextInterval,
+    repetitions: repetitions + 1,
+    lapses,
+    dueAt: new Date(now.getTime() + nextInterval * DAY_MS).toISOString(),
+  }
+}
+
+/**
+ * Check whether a word's review is due
+ */
+export function isReviewDue(state: Pick<ReviewState, 'dueAt'>, now: Date = new Date()): boolean {
+  return new Date(state.dueAt).getTime() <= now.getTime()
+}
+
+/**
+ * Check whether a word has reached the mastery interval
+ */
+export function isReviewMastered(state: Pick<ReviewState, 'intervalDays'>): boolean {
+  return state.intervalDays >= MASTERY_INTERVAL_DAYS
+}
+
+/**
+ * Normalize a word so the same word from different games shares one schedule
+ */
+export function normalizeReviewWord(word: string): string {
+  return word.trim().toLowerCase()
+}
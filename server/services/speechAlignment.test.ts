@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import {
+  wordRanges,
+  toSpokenWords,
+  evenAlignment,
+  wordIndexAtTime,
+  wordIndexAtCharacter,
+  type SpeechAlignment,
+} from './speechAlignment.js'
+
+describe('Speech Alignment', () => {
+  it('should find words between any whitespace', () => {
+    expect(wordRanges('  The cat\nsat.')).toEqual([
+      { start: 2, end: 5 },
+      { start: 6, end: 9 },
+      { start: 10, end: 14 },
+    ])
+  })
+
+  it('should time each word from its first and last characters', () => {
+    const alignment: SpeechAlignment = {
+      characters: ['H', 'i', ' ', 'y', 'o', 'u'],
+      characterStartTimesSeconds: [0, 0.1, 0.2, 0.35, 0.4, 0.5],
+      characterEndTimesSeconds: [0.1, 0.2, 0.35, 0.4, 0.5, 0.7],
+    }
+
+    expect(toSpokenWords(alignment)).toEqual([
+      { text: 'Hi', start: 0, end: 0.2 },
+      { text: 'you', start: 0.35, end: 0.7 },
+    ])
+  })
+
+  it('should handle characters outside the basic plane', () => {
+    const words = toSpokenWords(evenAlignment('I 🐶 you', 7))
+
+    expect(words.map((w) => w.text)).toEqual(['I', '🐶', 'you'])
+    expect(words[2]).toEqual({ text: 'you', start: 4, end: 7 })
+  })
+
+  it('should spread characters evenly over the duration', () => {
+    const alignment = evenAlignment('abcd', 2)
+
+    expect(alignment.characterStartTimesSeconds).toEqual([0, 0.5, 1, 1.5])
+    expect(alignment.characterEndTimesSeconds).toEqual([0.5, 1, 1.5, 2])
+  })
+
+  it('should keep the last word current until the next one starts', () => {
+    const words = toSpokenWords(evenAlignment('a bb c', 6))
+
+    expect(wordIndexAtTime(words, 0)).toBe(0)
+    expect(wordIndexAtTime(words, 1.5)).toBe(0)
+    expect(wordIndexAtTime(words, 2)).toBe(1)
+    expect(wordIndexAtTime(words, 10)).toBe(2)
+    expect(wordIndexAtTime([], 1)).toBeNull()
+  })
+
+  it('should map character offsets to words', () => {
+    expect(wordIndexAtCharacter('The cat sat', 0)).toBe(0)
+    expect(wordIndexAtCharacter('The cat sat', 4)).toBe(1)
+    expect(wordIndexAtCharacter('The cat sat', 3)).toBe(1)
+    expect(wordIndexAtCharacter('The cat sat', 11)).toBeNull()
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Timing of synthesized speech, used to highlight each word as it is read.
+ *
+ * Providers report when every character of the input is spoken. Words are
+ * the runs of non-space characters, so the server and the browser number
+ * them the same way whatever whitespace the text had. Shared by the Express
+ * server, the Cloudflare handlers and the client.
+ */
+
+/** Start and end, in seconds, of each character of the spoken text */
+export interface SpeechAlignment {
+  characters: string[]
+  characterStartTimesSeconds: number[]
+  characterEndTimesSeconds: number[]
+}
+
+export interface SpokenWord {
+  text: string
+  /** Seconds from the start of the audio */
+  start: number
+  end: number
+}
+
+/**
+ * Character ranges of the words in a text, in reading order
+ */
+export function wordRanges(text: string): Array<{ start: number; end: number }> {
+  return [...text.matchAll(/\S+/g)].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }))
+}
+
+/**
+ * Group character timings into word timings
+ */
+export function toSpokenWords(alignment: SpeechAlignment): SpokenWord[] {
+  const text = alignment.characters.join('')
+  // Characters can be more than one UTF-16 unit, so map offsets back to indexes
+  const characterAt: number[] = []
+  alignment.characters.forEach((character, i) => {
+    for (let j = 0; j < character.length; j++) characterAt.push(i)
+  })
+
+  return wordRanges(text).map(({ start, end }) => ({
+    text: text.slice(start, end),
+    start: alignment.characterStartTimesSeconds[characterAt[start]] ?? 0,
+    end: alignment.characterEndTimesSeconds[characterAt[end - 1]] ?? 0,
+  }))
+}
+
+/**
+ * Spread the characters of a text evenly over a duration. Used where the
+ * provider gives no timings of its own.
+ */
+export function evenAlignment(text: string, seconds: number): SpeechAlignment {
+  const characters = [...text]
+  const step = characters.length > 0 ? seconds / characters.length : 0
+  return {
+    characters,
+    characterStartTimesSeconds: characters.map((_, i) => i * step),
+    characterEndTimesSeconds: characters.map((_, i) => (i + 1) * step),
+  }
+}
+
+/**
+ * Index of the word being spoken at a point in the audio. Between words the
+ * previous word stays current; before the first word there is none.
+ */
+export function wordIndexAtTime(words: SpokenWord[], seconds: number): number | null {
+  let current: number | null = null
+  for (let i = 0; i < words.length && words[i].start <= seconds; i++) {
+    current = i
+  }
+  return current
+}
+
+/**
+ * Index of the word containing a character offset, as reported by browser
+ * speech synthesis boundary events
+ */
+export function wordIndexAtCharacter(text: string, charIndex: number): number | null {
+  const index = wordRanges(text).findIndex(({ end }) => charIndex < end)
+  return index === -1 ? null : index
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createSpeechProvider,
+  createLocalSpeechProvider,
+  synthesizeLocalWav,
+  readLocalWavText,
+  readStream,
+  localSpeechSeconds,
+  encodeBase64,
+  decodeBase64,
+  LOCAL_VOICES,
+  type SpeechSynthesisRequest,
+} from './speechProvider.js'
+
+const request: SpeechSynthesisRequest = {
+  voiceId: 'local-narrator',
+  text: 'The cat sat',
+  voiceSettings: { stability: 0.5, similarityBoost: 0.75, style: 0, speed: 1, useSpeakerBoost: true },
+}
+
+describe('Speech Provider', () => {
+  describe('createSpeechProvider', () => {
+    it('should default to ElevenLabs and need an API key', () => {
+      expect(createSpeechProvider({})).toBeNull()
+      expect(createSpeechProvider({ elevenLabsApiKey: 'test-key' })?.name).toBe('elevenlabs')
+    })
+
+    it('should create the local provider without a key', () => {
+      expect(createSpeechProvider({ provider: 'local' })?.name).toBe('local')
+      expect(createSpeechProvider({ provider: ' LOCAL ' })?.name).toBe('local')
+    })
+
+    it('should reject unknown providers', () => {
+      expect(() => createSpeechProvider({ provider: 'acme' })).toThrow('Unknown speech provider "acme"')
+    })
+  })
+
+  describe('local WAV', () => {
+    it('should produce the same audio for the same request', () => {
+      expect(synthesizeLocalWav('cat', 'local-narrator')).toEqual(synthesizeLocalWav('cat', 'local-narrator'))
+      expect(synthesizeLocalWav('cat', 'local-narrator')).not.toEqual(synthesizeLocalWav('cat', 'local-helper'))
+    })
+
+    it('should write a valid RIFF header', () => {
+      const wav = synthesizeLocalWav('cat', 'local-narrator')
+      const header = new TextDecoder().decode(wav.subarray(0, 16))
+
+      expect(header.startsWith('RIFF')).toBe(true)
+      expect(header.slice(8, 16)).toBe('WAVEfmt ')
+      expect(new DataView(wav.buffer).getUint32(4, true)).toBe(wav.length - 8)
+    })
+
+    it('should round-trip the embedded text', () => {
+      expect(readLocalWavText(synthesizeLocalWav('Hello, world!', 'local-narrator'))).toBe('Hello, world!')
+      expect(readLocalWavText(new TextEncoder().encode('not audio'))).toBeNull()
+    })
+
+    it('should speak faster at higher speeds', () => {
+      const normal = synthesizeLocalWav('a longer sentence to read', 'v', 1)
+      const fast = synthesizeLocalWav('a longer sentence to read', 'v', 2)
+
+      expect(fast.length).toBeLessThan(normal.length)
+    })
+  })
+
+  describe('createLocalSpeechProvider', () => {
+    it('should transcribe its own speech', async () => {
+      const provider = createLocalSpeechProvider()
+      const audio = await provider.textToSpeech(request)
+      const result = await provider.speechToText({ file: audio })
+
+      expect(result.text).toBe('The cat sat')
+      expect(result.words.filter(w => w.type === 'word').map(w => w.text)).toEqual(['The', 'cat', 'sat'])
+      expect(result.words.every(w => w.confidence === 1)).toBe(true)
+    })
+
+    it('should transcribe plain-text uploads as their contents', async () => {
+      const provider = createLocalSpeechProvider()
+      const result = await provider.speechToText({ file: new TextEncoder().encode('bat.\n') })
+
+      expect(result.text).toBe('bat.')
+    })
+
+    it('should fall back to the configured transcript for other audio', async () => {
+      const provider = createLocalSpeechProvider({ fallbackTranscript: 'dog' })
+      const result = await provider.speechToText({ file: new Uint8Array([0, 1, 2, 255, 254]) })
+
+      expect(result.text).toBe('dog')
+    })
+
+    it('should stream the same bytes it synthesizes', async () => {
+      const provider = createLocalSpeechProvider()
+      const streamed = await readStream(await provider.textToSpeechStream(request))
+
+      expect(streamed).toEqual(await provider.textToSpeech(request))
+    })
+
+    it('should time each character across the length of its tone', async () => {
+      const provider = createLocalSpeechProvider()
+      const { audio, alignment } = await provider.textToSpeechWithTimestamps(request)
+      const ends = alignment.characterEndTimesSeconds
+
+      expect(audio).toEqual(await provider.textToSpeech(request))
+      expect(alignment.characters.join('')).toBe('The cat sat')
+      expect(alignment.characterStartTimesSeconds[0]).toBe(0)
+      expect(ends[ends.length - 1]).toBeCloseTo(localSpeechSeconds('The cat sat'))
+    })
+
+    it('should manage cloned voices in memory', async () => {
+      const provider = createLocalSpeechProvider()
+      const { voiceId } = await provider.cloneVoice({ name: 'Grandma', files: [new Uint8Array([1])] })
+
+      expect(await provider.getVoice(voiceId)).toMatchObject({ name: 'Grandma', category: 'cloned' })
+      expect(await provider.listVoices()).toHaveLength(LOCAL_VOICES.length + 1)
+      expect(await provider.deleteVoice(voiceId)).toBe(true)
+      expect(await provider.deleteVoice(LOCAL_VOICES[0].voiceId)).toBe(false)
+      expect(await provider.getVoice(voiceId)).toBeNull()
+    })
+  })
+
+  describe('base64', () => {
+    it('should round-trip bytes', () => {
+      const bytes = synthesizeLocalWav('The cat sat', 'local-narrator')
+
+      expect(decodeBase64(encodeBase64(bytes))).toEqual(bytes)
+      expect(encodeBase64(new Uint8Array([104, 105]))).toBe('aGk=')
+    })
+  })
+})
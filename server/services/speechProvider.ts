@@ -0,0 +1,539 @@
+/**
+ * Speech providers behind the voice routes.
+ *
+ * `elevenlabs` calls the ElevenLabs API. `local` is a deterministic offline
+ * stand-in for development and CI: it synthesizes a short WAV tone per request
+ * and embeds the spoken text in the file, so its own speech-to-text can read
+ * the words back. Uploads that are plain text are transcribed as that text,
+ * which lets tests drive the pronunciation routes without real audio.
+ *
+ * Select one with `SPEECH_PROVIDER` (defaults to `elevenlabs`). Free of Node
+ * and Workers specifics so the Express server and the Cloudflare handlers
+ * share it.
+ */
+
+import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js'
+import { evenAlignment, type SpeechAlignment } from './speechAlignment.js'
+
+export type SpeechProviderName = 'elevenlabs' | 'local'
+
+export const SPEECH_PROVIDER_NAMES: SpeechProviderName[] = ['elevenlabs', 'local']
+
+export interface SpeechVoiceSettings {
+  stability: number
+  similarityBoost: number
+  style: number
+  speed: number
+  useSpeakerBoost: boolean
+}
+
+export interface SpeechSynthesisRequest {
+  voiceId: string
+  text: string
+  modelId?: string
+  outputFormat?: string
+  voiceSettings: SpeechVoiceSettings
+}
+
+export interface SpeechWithTimestamps {
+  audio: Uint8Array
+  alignment: SpeechAlignment
+}
+
+export interface SpeechRecognitionRequest {
+  file: Blob | Uint8Array
+  modelId?: 'scribe_v1' | 'scribe_v2'
+  languageCode?: string
+  diarize?: boolean
+  numSpeakers?: number
+  timestampsGranularity?: 'none' | 'word' | 'character'
+  tagAudioEvents?: boolean
+}
+
+export interface TranscriptionWord {
+  text: string
+  start?: number
+  end?: number
+  type: 'word' | 'spacing' | 'audio_event'
+  speakerId?: string
+  confidence: number
+}
+
+export interface TranscriptionResult {
+  text: string
+  languageCode: string
+  languageConfidence: number
+  words: TranscriptionWord[]
+  transcriptionId?: string
+}
+
+export interface Voice {
+  voiceId: string
+  name: string
+  category?: string
+  description?: string
+  previewUrl?: string
+  labels?: Record<string, string>
+}
+
+export interface VoiceCloneRequest {
+  name: string
+  files: Array<Blob | Uint8Array>
+  description?: string
+  labels?: Record<string, string>
+}
+
+export interface SpeechProvider {
+  readonly name: SpeechProviderName
+  /** MIME type of the audio returned by textToSpeech */
+  readonly audioContentType: string
+  textToSpeech(request: SpeechSynthesisRequest): Promise<Uint8Array>
+  textToSpeechStream(request: SpeechSynthesisRequest): Promise<ReadableStream<Uint8Array>>
+  /** The same audio as textToSpeech, with when each character is spoken */
+  textToSpeechWithTimestamps(request: SpeechSynthesisRequest): Promise<SpeechWithTimestamps>
+  speechToText(request: SpeechRecognitionRequest): Promise<TranscriptionResult>
+  listVoices(): Promise<Voice[]>
+  /** Resolves null when the voice does not exist */
+  getVoice(voiceId: string): Promise<Voice | null>
+  cloneVoice(request: VoiceCloneRequest): Promise<{ voiceId: string }>
+  /** Resolves false when the voice does not exist or cannot be deleted */
+  deleteVoice(voiceId: string): Promise<boolean>
+}
+
+export interface SpeechProviderConfig {
+  /** Provider name, usually from SPEECH_PROVIDER */
+  provider?: string
+  elevenLabsApiKey?: string
+}
+
+/**
+ * Create the configured provider. Returns null when ElevenLabs is selected
+ * without an API key, so callers can answer 503 as before.
+ */
+export function createSpeechProvider(config: SpeechProviderConfig): SpeechProvider | null {
+  const name = (config.provider || 'elevenlabs').trim().toLowerCase()
+
+  if (name === 'local') {
+    return createLocalSpeechProvider()
+  }
+  if (name === 'elevenlabs') {
+    return config.elevenLabsApiKey ? createElevenLabsProvider(config.elevenLabsApiKey) : null
+  }
+  throw new Error(`Unknown speech provider "${config.provider}". Expected one of: ${SPEECH_PROVIDER_NAMES.join(', ')}`)
+}
+
+/**
+ * Collect a stream into a single byte array
+ */
+export async function readStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let length = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    if (value) {
+      chunks.push(value)
+      length += value.length
+    }
+  }
+
+  const bytes = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes
+}
+
+/**
+ * Base64 helpers that work on Node and in Workers
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function decodeBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0))
+}
+
+async function toBytes(file: Blob | Uint8Array): Promise<Uint8Array> {
+  if (ArrayBuffer.isView(file)) {
+    return new Uint8Array(file.buffer, file.byteOffset, file.byteLength)
+  }
+  return new Uint8Array(await file.arrayBuffer())
+}
+
+// --- ElevenLabs ---
+
+interface ElevenLabsWord {
+  text: string
+  start?: number
+  end?: number
+  type: string
+  speakerId?: string
+  logprob: number
+}
+
+interface ElevenLabsTranscript {
+  text: string
+  words: ElevenLabsWord[]
+  languageCode: string
+  languageProbability: number
+  transcriptionId?: string
+}
+
+interface ElevenLabsVoice {
+  voiceId: string
+  name?: string
+  category?: string
+  description?: string | null
+  previewUrl?: string | null
+  labels?: unknown
+}
+
+function toVoice(voice: ElevenLabsVoice): Voice {
+  return {
+    voiceId: voice.voiceId,
+    name: voice.name ?? 'Unknown',
+    category: voice.category,
+    description: voice.description ?? undefined,
+    previewUrl: voice.previewUrl ?? undefined,
+    labels: voice.labels as Record<string, string> | undefined,
+  }
+}
+
+function toTranscriptionResult(transcript: ElevenLabsTranscript): TranscriptionResult {
+  return {
+    text: transcript.text,
+    languageCode: transcript.languageCode,
+    languageConfidence: transcript.languageProbability,
+    words: transcript.words.map((word) => ({
+      text: word.text,
+      start: word.start,
+      end: word.end,
+      type: word.type as TranscriptionWord['type'],
+      speakerId: word.speakerId,
+      confidence: Math.exp(word.logprob), // Convert log probability to probability
+    })),
+    transcriptionId: transcript.transcriptionId,
+  }
+}
+
+export function createElevenLabsProvider(apiKey: string): SpeechProvider {
+  const client = new ElevenLabsClient({ apiKey })
+
+  const toElevenLabsRequest = (request: SpeechSynthesisRequest) => ({
+    text: request.text,
+    modelId: request.modelId || 'eleven_multilingual_v2',
+    outputFormat: (request.outputFormat || 'mp3_44100_128') as 'mp3_44100_128',
+    voiceSettings: {
+      stability: request.voiceSettings.stability,
+      similarityBoost: request.voiceSettings.similarityBoost,
+      style: request.voiceSettings.style,
+      useSpeakerBoost: request.voiceSettings.useSpeakerBoost,
+    },
+  })
+
+  return {
+    name: 'elevenlabs',
+    audioContentType: 'audio/mpeg',
+
+    async textToSpeech(request) {
+      const stream = await client.textToSpeech.convert(request.voiceId, toElevenLabsRequest(request))
+      return await readStream(stream)
+    },
+
+    async textToSpeechStream(request) {
+      return await client.textToSpeech.stream(request.voiceId, toElevenLabsRequest(request))
+    },
+
+    async textToSpeechWithTimestamps(request) {
+      const response = await client.textToSpeech.convertWithTimestamps(request.voiceId, toElevenLabsRequest(request))
+      return {
+        audio: decodeBase64(response.audioBase64),
+        // Both alignments are optional in the API; with neither, nothing is highlighted
+        alignment: response.alignment ?? response.normalizedAlignment ?? {
+          characters: [],
+          characterStartTimesSeconds: [],
+          characterEndTimesSeconds: [],
+        },
+      }
+    },
+
+    async speechToText(request) {
+      const response = await client.speechToText.convert({
+        file: request.file as File,
+        modelId: request.modelId ?? 'scribe_v2',
+        languageCode: request.languageCode,
+        diarize: request.diarize,
+        numSpeakers: request.numSpeakers,
+        timestampsGranularity: request.timestampsGranularity ?? 'word',
+        tagAudioEvents: request.tagAudioEvents ?? true,
+      })
+
+      // The API returns a union type; multi-channel responses carry one transcript per channel
+      const resp = response as ElevenLabsTranscript | { transcripts: ElevenLabsTranscript[] }
+      return toTranscriptionResult('transcripts' in resp ? resp.transcripts[0] : resp)
+    },
+
+    async listVoices() {
+      const response = await client.voices.getAll()
+      return response.voices.map(toVoice)
+    },
+
+    async getVoice(voiceId) {
+      try {
+        return toVoice(await client.voices.get(voiceId))
+      } catch {
+        return null
+      }
+    },
+
+    async cloneVoice(request) {
+      const result = await client.voices.ivc.create({
+        name: request.name,
+        files: request.files as File[],
+        description: request.description,
+        labels: request.labels ? JSON.stringify(request.labels) : undefined,
+      })
+      return { voiceId: result.voiceId }
+    },
+
+    async deleteVoice(voiceId) {
+      try {
+        await client.voices.delete(voiceId)
+        return true
+      } catch {
+        return false
+      }
+    },
+  }
+}
+
+// --- Local ---
+
+export const LOCAL_VOICES: Voice[] = [
+  {
+    voiceId: 'local-narrator',
+    name: 'Local Narrator',
+    category: 'premade',
+    description: 'Offline test voice',
+    labels: { provider: 'local' },
+  },
+  {
+    voiceId: 'local-helper',
+    name: 'Local Helper',
+    category: 'premade',
+    description: 'Offline test voice with a higher tone',
+    labels: { provider: 'local' },
+  },
+]
+
+const SAMPLE_RATE = 16000
+const SECONDS_PER_CHARACTER = 0.06
+const MAX_SECONDS = 10
+const STREAM_CHUNK_BYTES = 4096
+// Custom RIFF chunk carrying the synthesized text
+const TEXT_CHUNK_ID = 'l2rt'
+
+// FNV-1a, so the same voice and text always produce the same tone
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function writeAscii(view: DataView, offset: number, value: string) {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i))
+  }
+}
+
+/**
+ * Length of the tone synthesizeLocalWav makes for a text
+ */
+export function localSpeechSeconds(text: string, speed = 1): number {
+  return Math.min(MAX_SECONDS, Math.max(0.2, (text.length * SECONDS_PER_CHARACTER) / speed))
+}
+
+/**
+ * Build a 16-bit mono WAV file: a sine tone sized to the text, followed by
+ * the text itself in a custom chunk that audio players ignore
+ */
+export function synthesizeLocalWav(text: string, voiceId: string, speed = 1): Uint8Array {
+  const seconds = localSpeechSeconds(text, speed)
+  const sampleCount = Math.round(seconds * SAMPLE_RATE)
+  const frequency = 180 + (hashString(`${voiceId}:${text}`) % 220)
+  const textBytes = new TextEncoder().encode(text)
+  const textChunkSize = textBytes.length + (textBytes.length % 2) // chunks are word aligned
+  const dataSize = sampleCount * 2
+  const bytes = new Uint8Array(44 + dataSize + 8 + textChunkSize)
+  const view = new DataView(bytes.buffer)
+
+  writeAscii(view, 0, 'RIFF')
+  view.setUint32(4, bytes.length - 8, true)
+  writeAscii(view, 8, 'WAVE')
+  writeAscii(view, 12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, 1, true) // mono
+  view.setUint32(24, SAMPLE_RATE, true)
+  view.setUint32(28, SAMPLE_RATE * 2, true)
+  view.setUint16(32, 2, true)
+  view.setUint16(34, 16, true)
+  writeAscii(view, 36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  for (let i = 0; i < sampleCount; i++) {
+    // Short fade in/out avoids clicks
+    const envelope = Math.min(1, i / 400, (sampleCount - i) / 400)
+    const sample = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 0.3
+    view.setInt16(44 + i * 2, Math.round(sample * 32767), true)
+  }
+
+  const textOffset = 44 + dataSize
+  writeAscii(view, textOffset, TEXT_CHUNK_ID)
+  view.setUint32(textOffset + 4, textBytes.length, true)
+  bytes.set(textBytes, textOffset + 8)
+
+  return bytes
+}
+
+/**
+ * Read back the text embedded by synthesizeLocalWav, or null for other audio
+ */
+export function readLocalWavText(bytes: Uint8Array): string | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const ascii = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4))
+  if (bytes.length < 12 || ascii(0) !== 'RIFF' || ascii(8) !== 'WAVE') {
+    return null
+  }
+
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true)
+    if (ascii(offset) === TEXT_CHUNK_ID) {
+      return new TextDecoder().decode(bytes.subarray(offset + 8, offset + 8 + size))
+    }
+    offset += 8 + size + (size % 2)
+  }
+  return null
+}
+
+function decodePlainText(bytes: Uint8Array): string | null {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(bytes)
+    // eslint-disable-next-line no-control-regex
+    return /[\u0000-\u0008\u000e-\u001f]/.test(text) ? null : text.trim()
+  } catch {
+    return null
+  }
+}
+
+const LOCAL_WORD_SECONDS = 0.4
+
+function toLocalTranscription(text: string): TranscriptionResult {
+  const words: TranscriptionWord[] = []
+  text.split(/\s+/).filter(Boolean).forEach((word, i) => {
+    const start = i * (LOCAL_WORD_SECONDS + 0.1)
+    if (i > 0) {
+      words.push({ text: ' ', start: start - 0.1, end: start, type: 'spacing', confidence: 1 })
+    }
+    words.push({ text: word, start, end: start + LOCAL_WORD_SECONDS, type: 'word', confidence: 1 })
+  })
+
+  return {
+    text,
+    languageCode: 'eng',
+    languageConfidence: text ? 1 : 0,
+    words,
+  }
+}
+
+export interface LocalSpeechProviderOptions {
+  /** Transcript returned for audio the provider did not synthesize (default: silence) */
+  fallbackTranscript?: string
+}
+
+/**
+ * Deterministic provider that needs no network. Cloned voices live in memory
+ * for the lifetime of the provider.
+ */
+export function createLocalSpeechProvider(options: LocalSpeechProviderOptions = {}): SpeechProvider {
+  const clones = new Map<string, Voice>()
+  let cloneCount = 0
+
+  const synthesize = (request: SpeechSynthesisRequest) =>
+    synthesizeLocalWav(request.text, request.voiceId, request.voiceSettings.speed)
+
+  return {
+    name: 'local',
+    audioContentType: 'audio/wav',
+
+    async textToSpeech(request) {
+      return synthesize(request)
+    },
+
+    async textToSpeechStream(request) {
+      const bytes = synthesize(request)
+      let offset = 0
+      return new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (offset >= bytes.length) {
+            controller.close()
+            return
+          }
+          controller.enqueue(bytes.slice(offset, offset + STREAM_CHUNK_BYTES))
+          offset += STREAM_CHUNK_BYTES
+        },
+      })
+    },
+
+    async textToSpeechWithTimestamps(request) {
+      // The tone says nothing, so pretend every character takes the same time
+      const seconds = localSpeechSeconds(request.text, request.voiceSettings.speed)
+      return { audio: synthesize(request), alignment: evenAlignment(request.text, seconds) }
+    },
+
+    async speechToText(request) {
+      const bytes = await toBytes(request.file)
+      const text = readLocalWavText(bytes) ?? decodePlainText(bytes) ?? options.fallbackTranscript ?? ''
+      return toLocalTranscription(text)
+    },
+
+    async listVoices() {
+      return [...LOCAL_VOICES, ...clones.values()]
+    },
+
+    async getVoice(voiceId) {
+      return LOCAL_VOICES.find((voice) => voice.voiceId === voiceId) ?? clones.get(voiceId) ?? null
+    },
+
+    async cloneVoice(request) {
+      cloneCount += 1
+      const voiceId = `local-clone-${cloneCount}`
+      clones.set(voiceId, {
+        voiceId,
+        name: request.name,
+        category: 'cloned',
+        description: request.description,
+        labels: request.labels,
+      })
+      return { voiceId }
+    },
+
+    async deleteVoice(voiceId) {
+      return clones.delete(voiceId)
+    },
+  }
+}
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  computeTtsCacheKey,
+  selectEvictions,
+  createTtsCache,
+  createMemoryTtsCacheBackend,
+  createKvTtsCacheBackend,
+  synthesizeWithCache,
+  synthesizeWithTimestampsCache,
+  type TtsCacheKeyInput,
+  type TtsKvNamespace,
+} from './ttsCache.js'
+import { createLocalSpeechProvider, type SpeechSynthesisRequest } from './speechProvider.js'
+
+const keyInput: TtsCacheKeyInput = {
+  provider: 'elevenlabs',
+  voiceId: 'voice-1',
+  text: 'The cat sat',
+  stability: 0.5,
+  similarityBoost: 0.75,
+  style: 0,
+  speed: 1,
+}
+
+const request: SpeechSynthesisRequest = {
+  voiceId: 'local-narrator',
+  text: 'cat',
+  voiceSettings: { stability: 0.5, similarityBoost: 0.75, style: 0, speed: 1, useSpeakerBoost: true },
+}
+
+function bytes(size: number): Uint8Array {
+  return new Uint8Array(size)
+}
+
+function createFakeKv(): TtsKvNamespace {
+  const store = new Map<string, { value: ArrayBuffer | string; metadata: unknown }>()
+  return {
+    async get(key) {
+      const value = store.get(key)?.value
+      return typeof value === 'string' ? value : null
+    },
+    async getWithMetadata<M>(key: string) {
+      const entry = store.get(key)
+      const value = entry?.value instanceof ArrayBuffer ? entry.value : null
+      return { value, metadata: (entry?.metadata ?? null) as M | null }
+    },
+    async put(key, value, options) {
+      const copy = value instanceof Uint8Array ? value.slice().buffer : value
+      store.set(key, { value: copy, metadata: options?.metadata })
+    },
+    async delete(key) {
+      store.delete(key)
+    },
+    async list<M>(options?: { prefix?: string; cursor?: string }) {
+      // One key per page to exercise the cursor loop
+      const names = [...store.keys()].filter((name) => name.startsWith(options?.prefix ?? '')).sort()
+      const start = Number(options?.cursor ?? 0)
+      const name = names[start]
+      return {
+        keys: name ? [{ name, metadata: store.get(name)!.metadata as M }] : [],
+        list_complete: start + 1 >= names.length,
+        cursor: String(start + 1),
+      }
+    },
+  }
+}
+
+describe('TTS Cache', () => {
+  describe('computeTtsCacheKey', () => {
+    it('should produce a stable hex digest', async () => {
+      const key = await computeTtsCacheKey(keyInput)
+
+      expect(key).toMatch(/^[0-9a-f]{64}$/)
+      expect(await computeTtsCacheKey({ ...keyInput })).toBe(key)
+    })
+
+    it('should ignore whitespace differences in the text', async () => {
+      expect(await computeTtsCacheKey({ ...keyInput, text: '  The  cat\nsat ' }))
+        .toBe(await computeTtsCacheKey(keyInput))
+    })
+
+    it('should change with the voice, settings or text', async () => {
+      const key = await computeTtsCacheKey(keyInput)
+
+      expect(await computeTtsCacheKey({ ...keyInput, voiceId: 'voice-2' })).not.toBe(key)
+      expect(await computeTtsCacheKey({ ...keyInput, speed: 0.8 })).not.toBe(key)
+      expect(await computeTtsCacheKey({ ...keyInput, provider: 'local' })).not.toBe(key)
+      expect(await computeTtsCacheKey({ ...keyInput, text: 'The cat sat.' })).not.toBe(key)
+    })
+  })
+
+  describe('selectEvictions', () => {
+    it('should evict least recently used entries until under budget', () => {
+      const entries = [
+        { key: 'new', size: 40, lastAccessedAt: 3 },
+        { key: 'old', size: 40, lastAccessedAt: 1 },
+        { key: 'mid', size: 40, lastAccessedAt: 2 },
+      ]
+
+      expect(selectEvictions(entries, 100)).toEqual(['old'])
+      expect(selectEvictions(entries, 40)).toEqual(['old', 'mid'])
+      expect(selectEvictions(entries, 120)).toEqual([])
+    })
+  })
+
+  describe('createTtsCache', () => {
+    it('should keep recently read entries when evicting', async () => {
+      let clock = 0
+      const backend = createMemoryTtsCacheBackend(() => ++clock)
+      const cache = createTtsCache(backend, { maxBytes: 100 })
+
+      await cache.put('a', { audio: bytes(40), contentType: 'audio/mpeg' })
+      await cache.put('b', { audio: bytes(40), contentType: 'audio/mpeg' })
+      await cache.get('a')
+      await cache.put('c', { audio: bytes(40), contentType: 'audio/mpeg' })
+
+      expect((await backend.list()).map((e) => e.key).sort()).toEqual(['a', 'c'])
+    })
+
+    it('should not store entries larger than the budget', async () => {
+      const backend = createMemoryTtsCacheBackend()
+      const cache = createTtsCache(backend, { maxBytes: 10 })
+
+      await cache.put('big', { audio: bytes(11), contentType: 'audio/mpeg' })
+
+      expect(await backend.list()).toEqual([])
+    })
+  })
+
+  describe('synthesizeWithCache', () => {
+    it('should synthesize on a miss and serve the stored copy on a hit', async () => {
+      const provider = createLocalSpeechProvider()
+      const spy = vi.spyOn(provider, 'textToSpeech')
+      const cache = createTtsCache(createMemoryTtsCacheBackend())
+
+      const first = await synthesizeWithCache(provider, request, cache)
+      const second = await synthesizeWithCache(provider, request, cache)
+
+      expect(first.cacheHit).toBe(false)
+      expect(second.cacheHit).toBe(true)
+      expect(second.cacheKey).toBe(first.cacheKey)
+      expect(second.audio).toEqual(first.audio)
+      expect(second.contentType).toBe('audio/wav')
+      expect(spy).toHaveBeenCalledTimes(1)
+    })
+
+    it('should still synthesize when the cache fails', async () => {
+      const provider = createLocalSpeechProvider()
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const broken = {
+        get: () => Promise.reject(new Error('disk full')),
+        put: () => Promise.reject(new Error('disk full')),
+      }
+
+      const result = await synthesizeWithCache(provider, request, broken)
+
+      expect(result.cacheHit).toBe(false)
+      expect(result.audio.length).toBeGreaterThan(0)
+      expect(errorSpy).toHaveBeenCalledTimes(2)
+      errorSpy.mockRestore()
+    })
+  })
+
+  describe('synthesizeWithTimestampsCache', () => {
+    it('should cache the alignment next to audio shared with plain synthesis', async () => {
+      const provider = createLocalSpeechProvider()
+      const spy = vi.spyOn(provider, 'textToSpeechWithTimestamps')
+      const cache = createTtsCache(createMemoryTtsCacheBackend())
+
+      const first = await synthesizeWithTimestampsCache(provider, request, cache)
+      const second = await synthesizeWithTimestampsCache(provider, request, cache)
+      const plain = await synthesizeWithCache(provider, request, cache)
+
+      expect(first.cacheHit).toBe(false)
+      expect(second.cacheHit).toBe(true)
+      expect(second.alignment).toEqual(first.alignment)
+      expect(second.alignment.characters.join('')).toBe('cat')
+      expect(plain.cacheHit).toBe(true)
+      expect(plain.audio).toEqual(first.audio)
+      expect(spy).toHaveBeenCalledTimes(1)
+    })
+
+    it('should synthesize again when only the audio is cached', async () => {
+      const provider = createLocalSpeechProvider()
+      const cache = createTtsCache(createMemoryTtsCacheBackend())
+
+      await synthesizeWithCache(provider, request, cache)
+      const timed = await synthesizeWithTimestampsCache(provider, request, cache)
+
+      expect(timed.cacheHit).toBe(false)
+      expect(timed.alignment.characters).toHaveLength(3)
+    })
+  })
+
+  describe('createKvTtsCacheBackend', () => {
+    it('should round-trip audio with its content type', async () => {
+      const backend = createKvTtsCacheBackend(createFakeKv())
+
+      await backend.put('abc', { audio: new Uint8Array([1, 2, 3]), contentType: 'audio/wav' })
+
+      expect(await backend.get('abc')).toEqual({ audio: new Uint8Array([1, 2, 3]), contentType: 'audio/wav' })
+      expect(await backend.get('missing')).toBeNull()
+    })
+
+    it('should list every page and evict oldest writes first', async () => {
+      let clock = 0
+      const backend = createKvTtsCacheBackend(createFakeKv(), () => ++clock)
+      const cache = createTtsCache(backend, { maxBytes: 5 })
+
+      await cache.put('first', { audio: bytes(2), contentType: 'audio/mpeg' })
+      await cache.put('second', { audio: bytes(2), contentType: 'audio/mpeg' })
+      await cache.get('first')
+      await cache.put('third', { audio: bytes(2), contentType: 'audio/mpeg' })
+
+      expect((await backend.list()).map((e) => e.key).sort()).toEqual(['second', 'third'])
+    })
+
+    it('should keep the running size in its own key, so a new cache does not list', async () => {
+      const kv = createFakeKv()
+      await createTtsCache(createKvTtsCacheBackend(kv), { maxBytes: 5 })
+        .put('first', { audio: bytes(2), contentType: 'audio/mpeg' })
+
+      // Each Pages request builds its own cache over the same namespace
+      const list = vi.spyOn(kv, 'list')
+      const backend = createKvTtsCacheBackend(kv)
+      await createTtsCache(backend, { maxBytes: 5 })
+        .put('second', { audio: bytes(2), contentType: 'audio/mpeg' })
+
+      expect(list).not.toHaveBeenCalled()
+      expect(await backend.totalBytes!()).toBe(4)
+      expect((await backend.list()).map((e) => e.key).sort()).toEqual(['first', 'second'])
+    })
+  })
+})
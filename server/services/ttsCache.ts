@@ -0,0 +1,386 @@
+/**
+ * Content-addressed cache for synthesized speech.
+ *
+ * Audio is keyed by a SHA-256 of everything that changes the output (provider,
+ * voice, model, format, settings and the text), so the same phrase is only
+ * synthesized once per voice. Storage is pluggable: the Express server keeps
+ * files on disk, Cloudflare uses a KV namespace. Entries are evicted
+ * least-recently-used first once the cache grows past its byte budget.
+ *
+ * Uses Web Crypto only, so it runs on Node and in Workers.
+ */
+
+import type { SpeechProvider, SpeechSynthesisRequest } from './speechProvider.js'
+import type { SpeechAlignment } from './speechAlignment.js'
+
+/** Response header reporting HIT or MISS */
+export const TTS_CACHE_STATUS_HEADER = 'X-TTS-Cache'
+/** Response header carrying the cache key, handy when debugging */
+export const TTS_CACHE_KEY_HEADER = 'X-TTS-Cache-Key'
+
+export const DEFAULT_TTS_CACHE_MAX_BYTES = 200 * 1024 * 1024
+
+// Bumping this invalidates every cached entry
+const KEY_VERSION = 1
+
+export interface TtsCacheKeyInput {
+  provider: string
+  voiceId: string
+  text: string
+  modelId?: string
+  outputFormat?: string
+  stability: number
+  similarityBoost: number
+  style: number
+  speed: number
+}
+
+export interface TtsCacheEntry {
+  audio: Uint8Array
+  contentType: string
+}
+
+export interface TtsCacheEntryInfo {
+  key: string
+  size: number
+  /** Epoch milliseconds */
+  lastAccessedAt: number
+}
+
+/**
+ * Where cached audio lives. `touch` is optional; stores that cannot cheaply
+ * record reads fall back to evicting the oldest writes first.
+ */
+export interface TtsCacheBackend {
+  get(key: string): Promise<TtsCacheEntry | null>
+  put(key: string, entry: TtsCacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+  list(): Promise<TtsCacheEntryInfo[]>
+  touch?(key: string): Promise<void>
+  /**
+   * The running total of stored bytes, for stores where list() is costly.
+   * Resolves null until a total has been saved.
+   */
+  totalBytes?(): Promise<number | null>
+  saveTotalBytes?(bytes: number): Promise<void>
+}
+
+export interface TtsCache {
+  get(key: string): Promise<TtsCacheEntry | null>
+  put(key: string, entry: TtsCacheEntry): Promise<void>
+}
+
+export interface SynthesizedSpeech extends TtsCacheEntry {
+  cacheKey: string
+  cacheHit: boolean
+}
+
+export interface TimestampedSpeech extends SynthesizedSpeech {
+  alignment: SpeechAlignment
+}
+
+/** Content type of the alignment entries stored next to the audio */
+export const ALIGNMENT_CONTENT_TYPE = 'application/json'
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+function roundSetting(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * Hash the synthesis parameters into a hex cache key. Whitespace in the text
+ * is collapsed since it does not change the spoken audio.
+ */
+export async function computeTtsCacheKey(input: TtsCacheKeyInput): Promise<string> {
+  const canonical = JSON.stringify([
+    KEY_VERSION,
+    input.provider,
+    input.voiceId,
+    input.modelId ?? '',
+    input.outputFormat ?? '',
+    roundSetting(input.stability),
+    roundSetting(input.similarityBoost),
+    roundSetting(input.style),
+    roundSetting(input.speed),
+    input.text.trim().replace(/\s+/g, ' '),
+  ])
+  return sha256Hex(canonical)
+}
+
+/**
+ * Pick entries to delete so the total fits in maxBytes, least recently used first
+ */
+export function selectEvictions(entries: TtsCacheEntryInfo[], maxBytes: number): string[] {
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+  const evicted: string[] = []
+
+  for (const entry of [...entries].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)) {
+    if (total <= maxBytes) break
+    evicted.push(entry.key)
+    total -= entry.size
+  }
+  return evicted
+}
+
+/**
+ * Wrap a backend with LRU eviction. The running size comes from the backend's
+ * saved total when it keeps one, otherwise from listing it on first write,
+ * and is re-checked whenever it goes over budget.
+ */
+export function createTtsCache(
+  backend: TtsCacheBackend,
+  options: { maxBytes?: number } = {}
+): TtsCache {
+  const maxBytes = options.maxBytes ?? DEFAULT_TTS_CACHE_MAX_BYTES
+  let knownBytes: number | null = null
+
+  const evict = async () => {
+    const entries = await backend.list()
+    const evictions = selectEvictions(entries, maxBytes)
+    await Promise.all(evictions.map((key) => backend.delete(key)))
+    const evicted = new Set(evictions)
+    knownBytes = entries.filter((e) => !evicted.has(e.key)).reduce((sum, e) => sum + e.size, 0)
+    await backend.saveTotalBytes?.(knownBytes)
+  }
+
+  return {
+    async get(key) {
+      const entry = await backend.get(key)
+      if (entry && backend.touch) {
+        await backend.touch(key)
+      }
+      return entry
+    },
+
+    async put(key, entry) {
+      if (entry.audio.length > maxBytes) return
+
+      // A saved total may be shared with other processes, so it is read on every write
+      const savedBytes = (await backend.totalBytes?.()) ?? null
+      if (savedBytes !== null) {
+        knownBytes = savedBytes
+      } else if (knownBytes === null) {
+        knownBytes = (await backend.list()).reduce((sum, e) => sum + e.size, 0)
+      }
+      await backend.put(key, entry)
+      knownBytes += entry.audio.length
+      if (knownBytes > maxBytes) {
+        await evict()
+      } else {
+        await backend.saveTotalBytes?.(knownBytes)
+      }
+    },
+  }
+}
+
+/**
+ * Cache key for a request to a given provider
+ */
+export function ttsCacheKeyFor(provider: SpeechProvider, request: SpeechSynthesisRequest): Promise<string> {
+  return computeTtsCacheKey({
+    provider: provider.name,
+    voiceId: request.voiceId,
+    text: request.text,
+    modelId: request.modelId,
+    outputFormat: request.outputFormat,
+    ...request.voiceSettings,
+  })
+}
+
+/**
+ * Key of the alignment stored alongside the audio under cacheKey
+ */
+export function alignmentCacheKey(cacheKey: string): Promise<string> {
+  return sha256Hex(`${cacheKey}:alignment`)
+}
+
+/**
+ * Synthesize through the cache: serve a stored copy when there is one,
+ * otherwise call the provider and store the result. Cache failures never
+ * block speech; they are logged and the provider result is returned.
+ */
+export async function synthesizeWithCache(
+  provider: SpeechProvider,
+  request: SpeechSynthesisRequest,
+  cache: TtsCache | null
+): Promise<SynthesizedSpeech> {
+  const cacheKey = await ttsCacheKeyFor(provider, request)
+
+  if (cache) {
+    try {
+      const cached = await cache.get(cacheKey)
+      if (cached) {
+        return { ...cached, cacheKey, cacheHit: true }
+      }
+    } catch (error) {
+      console.error('TTS cache read failed:', error)
+    }
+  }
+
+  const entry: TtsCacheEntry = {
+    audio: await provider.textToSpeech(request),
+    contentType: provider.audioContentType,
+  }
+
+  if (cache) {
+    try {
+      await cache.put(cacheKey, entry)
+    } catch (error) {
+      console.error('TTS cache write failed:', error)
+    }
+  }
+
+  return { ...entry, cacheKey, cacheHit: false }
+}
+
+/**
+ * Like synthesizeWithCache, but also returns when each character is spoken.
+ * The audio shares its cache entry with plain synthesis; the alignment is
+ * kept as a JSON entry of its own, and both must be present for a hit.
+ */
+export async function synthesizeWithTimestampsCache(
+  provider: SpeechProvider,
+  request: SpeechSynthesisRequest,
+  cache: TtsCache | null
+): Promise<TimestampedSpeech> {
+  const cacheKey = await ttsCacheKeyFor(provider, request)
+  const alignmentKey = await alignmentCacheKey(cacheKey)
+
+  if (cache) {
+    try {
+      const [cached, cachedAlignment] = await Promise.all([cache.get(cacheKey), cache.get(alignmentKey)])
+      if (cached && cachedAlignment) {
+        const alignment = JSON.parse(new TextDecoder().decode(cachedAlignment.audio)) as SpeechAlignment
+        return { ...cached, alignment, cacheKey, cacheHit: true }
+      }
+    } catch (error) {
+      console.error('TTS cache read failed:', error)
+    }
+  }
+
+  const { audio, alignment } = await provider.textToSpeechWithTimestamps(request)
+  const entry: TtsCacheEntry = { audio, contentType: provider.audioContentType }
+
+  if (cache) {
+    try {
+      await cache.put(cacheKey, entry)
+      await cache.put(alignmentKey, {
+        audio: new TextEncoder().encode(JSON.stringify(alignment)),
+        contentType: ALIGNMENT_CONTENT_TYPE,
+      })
+    } catch (error) {
+      console.error('TTS cache write failed:', error)
+    }
+  }
+
+  return { ...entry, alignment, cacheKey, cacheHit: false }
+}
+
+export function createMemoryTtsCacheBackend(now: () => number = Date.now): TtsCacheBackend {
+  const entries = new Map<string, TtsCacheEntry & { lastAccessedAt: number }>()
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      return entry ? { audio: entry.audio, contentType: entry.contentType } : null
+    },
+    async put(key, entry) {
+      entries.set(key, { ...entry, lastAccessedAt: now() })
+    },
+    async delete(key) {
+      entries.delete(key)
+    },
+    async list() {
+      return [...entries].map(([key, entry]) => ({
+        key,
+        size: entry.audio.length,
+        lastAccessedAt: entry.lastAccessedAt,
+      }))
+    },
+    async touch(key) {
+      const entry = entries.get(key)
+      if (entry) entry.lastAccessedAt = now()
+    },
+  }
+}
+
+/**
+ * The subset of a Cloudflare KV namespace the cache needs
+ */
+export interface TtsKvNamespace {
+  get(key: string, type: 'text'): Promise<string | null>
+  getWithMetadata<M>(key: string, type: 'arrayBuffer'): Promise<{ value: ArrayBuffer | null; metadata: M | null }>
+  put(key: string, value: ArrayBuffer | Uint8Array | string, options?: { metadata?: unknown }): Promise<void>
+  delete(key: string): Promise<void>
+  list<M>(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: Array<{ name: string; metadata?: M }>
+    list_complete: boolean
+    cursor?: string
+  }>
+}
+
+interface KvEntryMetadata {
+  contentType: string
+  size: number
+  createdAt: number
+}
+
+const KV_PREFIX = 'tts:'
+// Outside KV_PREFIX, so listing the entries skips it
+const KV_TOTAL_BYTES_KEY = 'tts-total-bytes'
+
+/**
+ * KV-backed store. Reads are not recorded (a KV write per hit would cost more
+ * than it saves), so eviction on Cloudflare is oldest-written first.
+ *
+ * Every request builds a fresh cache, so the running size is saved in its own
+ * key rather than recounted with a paid list of every entry. Concurrent
+ * writers can leave it slightly off until the next eviction lists the
+ * entries and saves the true total.
+ */
+export function createKvTtsCacheBackend(kv: TtsKvNamespace, now: () => number = Date.now): TtsCacheBackend {
+  return {
+    async get(key) {
+      const { value, metadata } = await kv.getWithMetadata<KvEntryMetadata>(KV_PREFIX + key, 'arrayBuffer')
+      if (!value) return null
+      return { audio: new Uint8Array(value), contentType: metadata?.contentType ?? 'audio/mpeg' }
+    },
+    async put(key, entry) {
+      const metadata: KvEntryMetadata = {
+        contentType: entry.contentType,
+        size: entry.audio.length,
+        createdAt: now(),
+      }
+      await kv.put(KV_PREFIX + key, entry.audio, { metadata })
+    },
+    async delete(key) {
+      await kv.delete(KV_PREFIX + key)
+    },
+    async list() {
+      const entries: TtsCacheEntryInfo[] = []
+      let cursor: string | undefined
+      do {
+        const page = await kv.list<KvEntryMetadata>({ prefix: KV_PREFIX, cursor })
+        for (const { name, metadata } of page.keys) {
+          entries.push({
+            key: name.slice(KV_PREFIX.length),
+            size: metadata?.size ?? 0,
+            lastAccessedAt: metadata?.createdAt ?? 0,
+          })
+        }
+        cursor = page.list_complete ? undefined : page.cursor
+      } while (cursor)
+      return entries
+    },
+    async totalBytes() {
+      const saved = await kv.get(KV_TOTAL_BYTES_KEY, 'text')
+      return saved === null ? null : Number(saved) || 0
+    },
+    async saveTotalBytes(bytes) {
+      await kv.put(KV_TOTAL_BYTES_KEY, String(bytes))
+    },
+  }
+}
@@ -0,0 +1,132 @@
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile, rename } from 'fs/promises'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import {
+  createTtsCache,
+  createMemoryTtsCacheBackend,
+  DEFAULT_TTS_CACHE_MAX_BYTES,
+  ALIGNMENT_CONTENT_TYPE,
+  type TtsCache,
+  type TtsCacheBackend,
+  type TtsCacheEntryInfo,
+} from './ttsCache.js'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+export const DEFAULT_TTS_CACHE_DIR = join(__dirname, '../../data/tts-cache')
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  // Word timings kept next to the audio
+  [ALIGNMENT_CONTENT_TYPE]: 'json',
+}
+
+const CONTENT_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([contentType, ext]) => [ext, contentType])
+)
+
+const KEY_PATTERN = /^[0-9a-f]{64}$/
+
+function parseFileName(name: string): { key: string; ext: string } | null {
+  const [key, ext] = name.split('.')
+  return KEY_PATTERN.test(key) && CONTENT_TYPES[ext] ? { key, ext } : null
+}
+
+/**
+ * Stores each entry as `<key>.<ext>` in one directory. The file's mtime is
+ * bumped on every read and doubles as the LRU timestamp.
+ */
+export function createDiskTtsCacheBackend(dir: string): TtsCacheBackend {
+  let ready: Promise<unknown> | null = null
+  const ensureDir = () => (ready ??= mkdir(dir, { recursive: true }))
+
+  const findFile = async (key: string): Promise<string | null> => {
+    if (!KEY_PATTERN.test(key)) return null
+    for (const ext of Object.values(EXTENSIONS)) {
+      const name = `${key}.${ext}`
+      try {
+        await stat(join(dir, name))
+        return name
+      } catch {
+        // Not stored in this format
+      }
+    }
+    return null
+  }
+
+  return {
+    async get(key) {
+      const name = await findFile(key)
+      if (!name) return null
+      try {
+        const audio = await readFile(join(dir, name))
+        return { audio: new Uint8Array(audio), contentType: CONTENT_TYPES[parseFileName(name)!.ext] }
+      } catch {
+        // Evicted between readdir and read
+        return null
+      }
+    },
+
+    async put(key, entry) {
+      await ensureDir()
+      const path = join(dir, `${key}.${EXTENSIONS[entry.contentType] ?? 'mp3'}`)
+      // Write then rename so a concurrent read never sees a partial file
+      const tmpPath = `${path}.${process.pid}.tmp`
+      await writeFile(tmpPath, entry.audio)
+      await rename(tmpPath, path)
+    },
+
+    async delete(key) {
+      const name = await findFile(key)
+      if (name) {
+        await rm(join(dir, name), { force: true })
+      }
+    },
+
+    async list() {
+      await ensureDir()
+      const entries: TtsCacheEntryInfo[] = []
+      for (const name of await readdir(dir)) {
+        const parsed = parseFileName(name)
+        if (!parsed) continue
+        try {
+          const info = await stat(join(dir, name))
+          entries.push({ key: parsed.key, size: info.size, lastAccessedAt: info.mtimeMs })
+        } catch {
+          // Deleted while listing
+        }
+      }
+      return entries
+    },
+
+    async touch(key) {
+      const name = await findFile(key)
+      if (name) {
+        const now = new Date()
+        await utimes(join(dir, name), now, now).catch(() => {})
+      }
+    },
+  }
+}
+
+/**
+ * Build the server's TTS cache from the environment:
+ * - TTS_CACHE_DIR: cache directory (default data/tts-cache), or "off" to disable
+ * - TTS_CACHE_MAX_MB: size budget in megabytes (default 200)
+ *
+ * Tests get an in-memory cache so they never touch the disk.
+ */
+export function createTtsCacheFromEnv(env: NodeJS.ProcessEnv = process.env): TtsCache | null {
+  if (env.TTS_CACHE_DIR === 'off') {
+    return null
+  }
+
+  const maxMb = Number(env.TTS_CACHE_MAX_MB)
+  const maxBytes = Number.isFinite(maxMb) && maxMb > 0 ? maxMb * 1024 * 1024 : DEFAULT_TTS_CACHE_MAX_BYTES
+  const backend = env.NODE_ENV === 'test' && !env.TTS_CACHE_DIR
+    ? createMemoryTtsCacheBackend()
+    : createDiskTtsCacheBackend(env.TTS_CACHE_DIR || DEFAULT_TTS_CACHE_DIR)
+
+  return createTtsCache(backend, { maxBytes })
+}
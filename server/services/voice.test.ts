@@ -215,37 +215,26 @@ describe('VoiceService', () => {
     })
 
     it('returns false when no API key is provided', () => {
-      const originalEnv = process.env.ELEVENLABS_API_KEY
-      delete process.env.ELEVENLABS_API_KEY
       const service = new VoiceService()
       expect(service.isAvailable()).toBe(false)
-      process.env.ELEVENLABS_API_KEY = originalEnv
     })
   })
 
   describe('service unavailability', () => {
     it('throws VoiceServiceUnavailableError when API key is missing', async () => {
-      const originalEnv = process.env.ELEVENLABS_API_KEY
-      delete process.env.ELEVENLABS_API_KEY
       const service = new VoiceService()
 
       await expect(
         service.textToSpeech({ voiceId: 'test', text: 'hello' })
       ).rejects.toThrow(VoiceServiceUnavailableError)
-
-      process.env.ELEVENLABS_API_KEY = originalEnv
     })
 
     it('throws VoiceServiceUnavailableError for speechToText when API key is missing', async () => {
-      const originalEnv = process.env.ELEVENLABS_API_KEY
-      delete process.env.ELEVENLABS_API_KEY
       const service = new VoiceService()
 
       await expect(
         service.speechToText({ file: Buffer.from([1, 2, 3]) as unknown as File })
       ).rejects.toThrow(VoiceServiceUnavailableError)
-
-      process.env.ELEVENLABS_API_KEY = originalEnv
     })
   })
 
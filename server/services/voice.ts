@@ -1,4 +1,19 @@
-import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js'
+import {
+  createSpeechProvider,
+  type SpeechProvider,
+  type SpeechProviderName,
+  type TranscriptionResult,
+  type Voice,
+  type SpeechSynthesisRequest,
+} from './speechProvider.js'
+import {
+  synthesizeWithCache,
+  synthesizeWithTimestampsCache,
+  ttsCacheKeyFor,
+  type SynthesizedSpeech,
+  type TimestampedSpeech,
+  type TtsCache,
+} from './ttsCache.js'
 
 // Child-friendly default voice (Rachel - clear, warm, and age-appropriate)
 export const DEFAULT_VOICE_ID = 'EXAVITQu4vr4xnSDxMaL'
@@ -106,60 +121,51 @@ export interface SpeechToTextOptions {
   tagAudioEvents?: boolean
 }
 
-export interface TranscriptionWord {
-  text: string
-  start?: number
-  end?: number
-  type: 'word' | 'spacing' | 'audio_event'
-  speakerId?: string
-  confidence: number
-}
-
-export interface TranscriptionResult {
-  text: string
-  languageCode: string
-  languageConfidence: number
-  words: TranscriptionWord[]
-  transcriptionId?: string
-}
-
-export interface Voice {
-  voiceId: string
-  name: string
-  category?: string
-  description?: string
-  previewUrl?: string
-  labels?: Record<string, string>
-}
+export type { TranscriptionWord, TranscriptionResult, Voice } from './speechProvider.js'
 
 export class VoiceServiceUnavailableError extends Error {
-  constructor(message = 'Voice service is unavailable. ELEVENLABS_API_KEY is not configured.') {
+  constructor(message = 'Voice service is unavailable. Set ELEVENLABS_API_KEY or SPEECH_PROVIDER=local.') {
     super(message)
     this.name = 'VoiceServiceUnavailableError'
   }
 }
 
 export class VoiceSettingsValidationFailedError extends Error {
-  constructor(public errors: VoiceSettingsValidationError[]) {
+  errors: VoiceSettingsValidationError[]
+
+  constructor(errors: VoiceSettingsValidationError[]) {
     super(`Invalid voice settings: ${errors.map((e) => e.message).join('; ')}`)
     this.name = 'VoiceSettingsValidationFailedError'
+    this.errors = errors
   }
 }
 
+export interface SpeechStream {
+  stream: ReadableStream<Uint8Array>
+  contentType: string
+  cacheKey: string
+  cacheHit: boolean
+}
+
 export class VoiceService {
-  private client: ElevenLabsClient | null = null
-  private readonly isConfigured: boolean
-
-  constructor(apiKey?: string) {
-    const key = apiKey || process.env.ELEVENLABS_API_KEY
-    if (key) {
-      this.client = new ElevenLabsClient({ apiKey: key })
-      this.isConfigured = true
-    } else {
+  private readonly provider: SpeechProvider | null
+  private readonly ttsCache: TtsCache | null
+
+  /**
+   * @param apiKey ElevenLabs API key
+   * @param providerName Speech provider (defaults to elevenlabs)
+   * @param ttsCache Cache for synthesized audio; none by default
+   */
+  constructor(apiKey?: string, providerName?: string, ttsCache: TtsCache | null = null) {
+    this.ttsCache = ttsCache
+    this.provider = createSpeechProvider({
+      provider: providerName,
+      elevenLabsApiKey: apiKey,
+    })
+    if (!this.provider) {
       console.warn(
         'VoiceService: ELEVENLABS_API_KEY not configured. Voice features will be unavailable.'
       )
-      this.isConfigured = false
     }
   }
 
@@ -167,16 +173,24 @@ export class VoiceService {
    * Check if the voice service is available
    */
   isAvailable(): boolean {
-    return this.isConfigured
+    return this.provider !== null
+  }
+
+  /**
+   * Name of the active speech provider, or null when unavailable
+   */
+  get providerName(): SpeechProviderName | null {
+    return this.provider?.name ?? null
   }
 
   /**
    * Ensure the service is available, throw if not
    */
-  private ensureAvailable(): asserts this is { client: ElevenLabsClient } {
-    if (!this.isConfigured || !this.client) {
+  private ensureAvailable(): SpeechProvider {
+    if (!this.provider) {
       throw new VoiceServiceUnavailableError()
     }
+    return this.provider
   }
 
   /**
@@ -192,203 +206,138 @@ export class VoiceService {
     return applyVoiceSettingsDefaults(settings)
   }
 
+  private prepareSynthesisRequest(options: TextToSpeechOptions): SpeechSynthesisRequest {
+    const { voiceId, text, modelId, voiceSettings, outputFormat } = options
+    return {
+      voiceId: voiceId || DEFAULT_VOICE_ID,
+      text,
+      modelId,
+      outputFormat,
+      voiceSettings: this.prepareVoiceSettings(voiceSettings),
+    }
+  }
+
   /**
    * Convert text to speech audio
    */
   async textToSpeech(options: TextToSpeechOptions): Promise<Buffer> {
-    this.ensureAvailable()
-    const { voiceId, text, modelId, voiceSettings, outputFormat } = options
-    const settings = this.prepareVoiceSettings(voiceSettings)
+    const { audio } = await this.synthesizeSpeech(options)
+    return Buffer.from(audio)
+  }
 
-    const response = await this.client.textToSpeech.convert(voiceId || DEFAULT_VOICE_ID, {
-      text,
-      modelId: modelId || 'eleven_multilingual_v2',
-      outputFormat: outputFormat || 'mp3_44100_128',
-      voiceSettings: {
-        stability: settings.stability,
-        similarityBoost: settings.similarityBoost,
-        style: settings.style,
-        useSpeakerBoost: settings.useSpeakerBoost,
-      },
-    })
+  /**
+   * Convert text to speech, serving repeated requests from the TTS cache
+   */
+  async synthesizeSpeech(options: TextToSpeechOptions): Promise<SynthesizedSpeech> {
+    const provider = this.ensureAvailable()
+    return await synthesizeWithCache(provider, this.prepareSynthesisRequest(options), this.ttsCache)
+  }
 
-    return await streamToBuffer(response)
+  /**
+   * Convert text to speech along with when each character is spoken
+   */
+  async synthesizeSpeechWithTimestamps(options: TextToSpeechOptions): Promise<TimestampedSpeech> {
+    const provider = this.ensureAvailable()
+    return await synthesizeWithTimestampsCache(provider, this.prepareSynthesisRequest(options), this.ttsCache)
   }
 
   /**
    * Convert text to speech with streaming
    */
   async textToSpeechStream(options: TextToSpeechOptions): Promise<ReadableStream<Uint8Array>> {
-    this.ensureAvailable()
-    const { voiceId, text, modelId, voiceSettings, outputFormat } = options
-    const settings = this.prepareVoiceSettings(voiceSettings)
+    const { stream } = await this.streamSpeech(options)
+    return stream
+  }
 
-    return await this.client.textToSpeech.stream(voiceId || DEFAULT_VOICE_ID, {
-      text,
-      modelId: modelId || 'eleven_multilingual_v2',
-      outputFormat: outputFormat || 'mp3_44100_128',
-      voiceSettings: {
-        stability: settings.stability,
-        similarityBoost: settings.similarityBoost,
-        style: settings.style,
-        useSpeakerBoost: settings.useSpeakerBoost,
+  /**
+   * Stream speech, replaying cached audio when available. A fresh stream is
+   * copied into the cache once it has been read to the end.
+   */
+  async streamSpeech(options: TextToSpeechOptions): Promise<SpeechStream> {
+    const provider = this.ensureAvailable()
+    const request = this.prepareSynthesisRequest(options)
+    const cache = this.ttsCache
+    const cacheKey = await ttsCacheKeyFor(provider, request)
+
+    const cached = cache ? await cache.get(cacheKey).catch(() => null) : null
+    if (cached) {
+      return {
+        stream: new Blob([cached.audio]).stream(),
+        contentType: cached.contentType,
+        cacheKey,
+        cacheHit: true,
+      }
+    }
+
+    const stream = await provider.textToSpeechStream(request)
+    if (!cache) {
+      return { stream, contentType: provider.audioContentType, cacheKey, cacheHit: false }
+    }
+
+    const chunks: Uint8Array[] = []
+    const recorder = new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        chunks.push(chunk)
+        controller.enqueue(chunk)
+      },
+      flush() {
+        cache.put(cacheKey, { audio: Buffer.concat(chunks), contentType: provider.audioContentType })
+          .catch((error) => console.error('TTS cache write failed:', error))
       },
     })
+
+    return {
+      stream: stream.pipeThrough(recorder),
+      contentType: provider.audioContentType,
+      cacheKey,
+      cacheHit: false,
+    }
   }
 
   /**
    * Clone a voice from audio samples
    */
   async cloneVoice(options: VoiceCloneOptions): Promise<{ voiceId: string }> {
-    this.ensureAvailable()
+    const provider = this.ensureAvailable()
     const { name, files, description, labels } = options
 
-    const result = await this.client.voices.ivc.create({
+    return await provider.cloneVoice({
       name,
-      files: files as File[],
+      files: files as Array<Blob | Uint8Array>,
       description,
-      labels: labels ? JSON.stringify(labels) : undefined,
+      labels,
     })
-
-    return { voiceId: result.voiceId }
   }
 
   /**
    * List all available voices
    */
   async listVoices(): Promise<Voice[]> {
-    this.ensureAvailable()
-    const response = await this.client.voices.getAll()
-
-    return response.voices.map((voice) => ({
-      voiceId: voice.voiceId,
-      name: voice.name ?? 'Unknown',
-      category: voice.category,
-      description: voice.description ?? undefined,
-      previewUrl: voice.previewUrl ?? undefined,
-      labels: voice.labels as Record<string, string> | undefined,
-    }))
+    return await this.ensureAvailable().listVoices()
   }
 
   /**
    * Get a specific voice by ID
    */
   async getVoice(voiceId: string): Promise<Voice | null> {
-    this.ensureAvailable()
-    try {
-      const voice = await this.client.voices.get(voiceId)
-
-      return {
-        voiceId: voice.voiceId,
-        name: voice.name ?? 'Unknown',
-        category: voice.category,
-        description: voice.description ?? undefined,
-        previewUrl: voice.previewUrl ?? undefined,
-        labels: voice.labels as Record<string, string> | undefined,
-      }
-    } catch {
-      return null
-    }
+    return await this.ensureAvailable().getVoice(voiceId)
   }
 
   /**
    * Delete a cloned voice
    */
   async deleteVoice(voiceId: string): Promise<boolean> {
-    this.ensureAvailable()
-    try {
-      await this.client.voices.delete(voiceId)
-      return true
-    } catch {
-      return false
-    }
+    return await this.ensureAvailable().deleteVoice(voiceId)
   }
 
   /**
    * Convert speech to text
    */
   async speechToText(options: SpeechToTextOptions): Promise<TranscriptionResult> {
-    this.ensureAvailable()
-    const {
-      file,
-      modelId = 'scribe_v2',
-      languageCode,
-      diarize,
-      numSpeakers,
-      timestampsGranularity = 'word',
-      tagAudioEvents = true,
-    } = options
-
-    const response = await this.client.speechToText.convert({
-      file: file as File,
-      modelId,
-      languageCode,
-      diarize,
-      numSpeakers,
-      timestampsGranularity,
-      tagAudioEvents,
+    const provider = this.ensureAvailable()
+    return await provider.speechToText({
+      ...options,
+      file: options.file as Blob | Uint8Array,
     })
-
-    // Handle the response - the API returns a union type, extract the single-channel result
-    if ('transcripts' in response) {
-      // Multi-channel response - take the first transcript
-      const firstTranscript = response.transcripts[0]
-      return {
-        text: firstTranscript.text,
-        languageCode: firstTranscript.languageCode,
-        languageConfidence: firstTranscript.languageProbability,
-        words: firstTranscript.words.map((word) => ({
-          text: word.text,
-          start: word.start,
-          end: word.end,
-          type: word.type as 'word' | 'spacing' | 'audio_event',
-          speakerId: word.speakerId,
-          confidence: Math.exp(word.logprob), // Convert log probability to probability
-        })),
-        transcriptionId: firstTranscript.transcriptionId,
-      }
-    }
-
-    // Single-channel response
-    return {
-      text: response.text,
-      languageCode: response.languageCode,
-      languageConfidence: response.languageProbability,
-      words: response.words.map((word) => ({
-        text: word.text,
-        start: word.start,
-        end: word.end,
-        type: word.type as 'word' | 'spacing' | 'audio_event',
-        speakerId: word.speakerId,
-        confidence: Math.exp(word.logprob), // Convert log probability to probability
-      })),
-      transcriptionId: response.transcriptionId,
-    }
-  }
-}
-
-/**
- * Convert a ReadableStream to a Buffer
- */
-async function streamToBuffer(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
-  const reader = stream.getReader()
-  const chunks: Uint8Array[] = []
-
-  while (true) {
-    const { done, value } = await reader.read()
-    if (done) break
-    if (value) chunks.push(value)
-  }
-
-  return Buffer.concat(chunks)
-}
-
-// Singleton instance
-let voiceServiceInstance: VoiceService | null = null
-
-export function getVoiceService(): VoiceService {
-  if (!voiceServiceInstance) {
-    voiceServiceInstance = new VoiceService()
   }
-  return voiceServiceInstance
 }
@@ -0,0 +1,50 @@
+/**
+ * Parent voice cloning
+ *
+ * A parent records a few scripted sentences and the speech provider builds a
+ * voice from them, so lessons can be read aloud in a familiar voice. Cloned
+ * voices belong to the parent account that recorded them. The checks here
+ * run before any audio reaches the provider and are shared by the Express
+ * routes and the Cloudflare handler; the limits themselves live with the
+ * client types so the Settings wizard can use them too.
+ */
+
+import {
+  MIN_CLONE_SAMPLES,
+  MAX_CLONE_SAMPLES,
+  MAX_CLONE_NAME_LENGTH,
+} from '../../src/types/voiceCloning.js'
+
+export interface VoiceCloneValidationError {
+  field: string
+  message: string
+}
+
+export interface VoiceCloneInput {
+  name: unknown
+  /** Multipart fields arrive as strings, so `'true'` counts as consent */
+  consent: unknown
+  sampleCount: number
+}
+
+export function validateVoiceClone(input: VoiceCloneInput): VoiceCloneValidationError[] {
+  const errors: VoiceCloneValidationError[] = []
+
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    errors.push({ field: 'name', message: 'name is required' })
+  } else if (input.name.trim().length > MAX_CLONE_NAME_LENGTH) {
+    errors.push({ field: 'name', message: `name must be at most ${MAX_CLONE_NAME_LENGTH} characters` })
+  }
+
+  if (input.consent !== true && input.consent !== 'true') {
+    errors.push({ field: 'consent', message: 'consent to clone this voice is required' })
+  }
+
+  if (input.sampleCount < MIN_CLONE_SAMPLES) {
+    errors.push({ field: 'samples', message: `at least ${MIN_CLONE_SAMPLES} recordings are required` })
+  } else if (input.sampleCount > MAX_CLONE_SAMPLES) {
+    errors.push({ field: 'samples', message: `at most ${MAX_CLONE_SAMPLES} recordings are allowed` })
+  }
+
+  return errors
+}
@@ -0,0 +1,20 @@
+/**
+ * The server's VoiceService, configured from the environment with the
+ * on-disk TTS cache
+ */
+
+import { VoiceService } from './voice.js'
+import { createTtsCacheFromEnv } from './ttsDiskCache.js'
+
+let voiceServiceInstance: VoiceService | null = null
+
+export function getVoiceService(): VoiceService {
+  if (!voiceServiceInstance) {
+    voiceServiceInstance = new VoiceService(
+      process.env.ELEVENLABS_API_KEY,
+      process.env.SPEECH_PROVIDER,
+      createTtsCacheFromEnv()
+    )
+  }
+  return voiceServiceInstance
+}
@@ -1,6 +1,11 @@
+import type { LessonActivity, LessonBranching } from '../../src/types/lesson.js'
+import type { SafetyFlag, LessonReviewStatus } from '../services/contentSafety.js'
+
 export type LessonDifficulty = 'beginner' | 'easy' | 'medium' | 'hard' | 'advanced'
 export type LessonSource = 'ai_generated' | 'curated'
 export type LearningStyle = 'visual' | 'auditory' | 'kinesthetic'
+/** Private lessons are only visible to the family that wrote them */
+export type LessonVisibility = 'private' | 'public'
 
 export interface ActivityStep {
   order: number
@@ -36,11 +41,22 @@ export interface Lesson {
   interests: string[]
   objectives: LessonObjective[]
   activities: ActivityStep[]
+  branching: LessonBranching | null
+  /** Ids of lessons to complete first */
+  prerequisites: string[]
   materials: string[]
   assessment_criteria: AssessmentCriteria[]
   source: LessonSource
   tags: string[]
   is_published: boolean
+  owner_id: string | null
+  visibility: LessonVisibility
+  /** Why the safety checks held the lesson back; empty when it passed */
+  safety_flags: SafetyFlag[]
+  review_status: LessonReviewStatus | null
+  review_note: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
   created_at: string
   updated_at: string
 }
@@ -59,11 +75,20 @@ export interface LessonRow {
   interests: string | null
   objectives: string | null
   activities: string | null
+  branching: string | null
+  prerequisites: string | null
   materials: string | null
   assessment_criteria: string | null
   source: string
   tags: string | null
   is_published: number
+  owner_id: string | null
+  visibility: string
+  safety_flags: string | null
+  review_status: string | null
+  review_note: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
   created_at: string
   updated_at: string
 }
@@ -115,14 +140,19 @@ export function parseLesson(row: LessonRow): Lesson {
     ...row,
     difficulty: row.difficulty as LessonDifficulty | null,
     source: row.source as LessonSource,
+    visibility: row.visibility as LessonVisibility,
     learning_styles: row.learning_styles ? JSON.parse(row.learning_styles) : [],
     interests: row.interests ? JSON.parse(row.interests) : [],
     objectives: row.objectives ? JSON.parse(row.objectives) : [],
     activities: row.activities ? JSON.parse(row.activities) : [],
+    branching: row.branching ? JSON.parse(row.branching) : null,
+    prerequisites: row.prerequisites ? JSON.parse(row.prerequisites) : [],
     materials: row.materials ? JSON.parse(row.materials) : [],
     assessment_criteria: row.assessment_criteria ? JSON.parse(row.assessment_criteria) : [],
     tags: row.tags ? JSON.parse(row.tags) : [],
-    is_published: row.is_published === 1
+    is_published: row.is_published === 1,
+    safety_flags: row.safety_flags ? JSON.parse(row.safety_flags) : [],
+    review_status: row.review_status as LessonReviewStatus | null
   }
 }
 
@@ -138,10 +168,17 @@ export interface CreateLessonInput {
   learningStyles?: LearningStyle[]
   interests?: string[]
   objectives?: LessonObjective[]
-  activities?: ActivityStep[]
+  /** Interactive activities, validated against the LessonActivity union */
+  activities?: LessonActivity[]
+  /** Adaptive rules referring to the lesson's activity ids; null clears them */
+  branching?: LessonBranching | null
+  /** Lessons to complete first; saving fails if they would form a cycle */
+  prerequisites?: string[]
   materials?: string[]
   assessmentCriteria?: AssessmentCriteria[]
   source?: LessonSource
   tags?: string[]
   isPublished?: boolean
+  /** Defaults to private for lessons created by a signed-in parent */
+  visibility?: LessonVisibility
 }
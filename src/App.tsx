@@ -9,19 +9,26 @@ import RhymeGame from './components/RhymeGame'
 import WordBuilder from './components/WordBuilder'
 import PhonicsGame from './components/PhonicsGame'
 import ReadAloudGame from './components/ReadAloudGame'
+import ReadingChallenge from './components/ReadingChallenge'
+import LetterHunt from './components/LetterHunt'
+import SuperpowerDiscovery from './components/SuperpowerDiscovery'
 import Settings from './components/Settings'
+import AuthScreen from './components/AuthScreen'
+import ChildSwitcher from './components/ChildSwitcher'
+import ProgressDashboard from './components/ProgressDashboard'
+import LessonBuilder from './components/LessonBuilder'
 import { VoiceProvider } from './hooks/useVoice'
+import { DisplayProfileProvider } from './hooks/useDisplayProfile'
+import { useAuth, getAuthHeaders } from './hooks/useAuth'
+import { useChildren } from './hooks/useChildren'
+import { useProgressSync } from './hooks/useProgressSync'
+import { clearLessonCache } from './lessons/cache'
 import type { Lesson as LegacyLesson } from './components/LessonCard'
 import type { Lesson, ActivityProgress } from './types/lesson'
+import { DEFAULT_ACCESSIBILITY_SETTINGS, DEFAULT_DISPLAY_PROFILE } from './types/accessibility'
 import { version } from '../package.json'
 
-type Screen = 'home' | 'onboarding' | 'lessons' | 'lesson-player' | 'spelling' | 'memory' | 'rhyme' | 'builder' | 'phonics' | 'readaloud' | 'settings'
-
-// Temporary child ID for development (would come from auth in production)
-const DEV_CHILD_ID = 'dev-child-1'
-
-// LocalStorage key for child profile data
-const CHILD_DATA_STORAGE_KEY = `l2rr2l_child_data_${DEV_CHILD_ID}`
+type Screen = 'home' | 'login' | 'who-is-playing' | 'onboarding' | 'lessons' | 'lesson-player' | 'progress' | 'spelling' | 'memory' | 'rhyme' | 'builder' | 'phonics' | 'readaloud' | 'reading-challenge' | 'letter-hunt' | 'discovery' | 'settings' | 'lesson-builder'
 
 interface ChildData {
   name: string
@@ -30,63 +37,90 @@ interface ChildData {
   avatar: string | null
 }
 
-// Load child data from localStorage
-function loadChildData(): ChildData | null {
-  try {
-    const cached = localStorage.getItem(CHILD_DATA_STORAGE_KEY)
-    if (cached) {
-      return JSON.parse(cached) as ChildData
-    }
-  } catch {
-    // Ignore localStorage errors
-  }
-  return null
-}
-
-// Save child data to localStorage
-function saveChildData(data: ChildData): void {
-  try {
-    localStorage.setItem(CHILD_DATA_STORAGE_KEY, JSON.stringify(data))
-  } catch {
-    // Ignore localStorage errors
-  }
-}
-
 function App() {
-  // Initialize childData from localStorage
   const [screen, setScreen] = useState<Screen>('home')
-  const [childData, setChildData] = useState<ChildData | null>(loadChildData)
   const [selectedLesson, setSelectedLesson] = useState<Lesson | null>(null)
+  const { user, token, login, register, logout } = useAuth()
+  const { children, activeChild, isLoading: childrenLoading, error: childrenError, selectChild, addChild, saveReadingLevel, saveLearningProfile, saveAccessibilitySettings, saveDisplayProfile } = useChildren(token, logout)
+  const { queueMutation, pendingCount } = useProgressSync(token)
+  const accessibility = activeChild?.accessibility_settings ?? DEFAULT_ACCESSIBILITY_SETTINGS
+  const displayProfile = activeChild?.display_profile ?? DEFAULT_DISPLAY_PROFILE
 
   const handleGetStarted = () => {
-    // If user already has profile data, go directly to lessons
-    if (childData) {
-      setScreen('lessons')
+    // Parents sign in first, then pick who is playing
+    if (!user) {
+      setScreen('login')
+    } else if (!activeChild) {
+      setScreen('who-is-playing')
     } else {
-      setScreen('onboarding')
+      setScreen('lessons')
     }
   }
 
-  const handleOnboardingComplete = (data: ChildData) => {
-    setChildData(data)
-    saveChildData(data) // Persist to localStorage
-    console.log('Onboarding complete:', data)
-    setScreen('lessons')
+  const handleLogin = async (email: string, password: string) => {
+    await login(email, password)
+    setScreen('who-is-playing')
   }
 
-  const handleOnboardingBack = () => {
+  const handleRegister = async (name: string, email: string, password: string) => {
+    await register(name, email, password)
+    setScreen('who-is-playing')
+  }
+
+  const handleLogout = () => {
+    selectChild(null)
+    logout()
+    // Cached lesson lists may include this family's private lessons
+    clearLessonCache()
+    setScreen('home')
+  }
+
+  const handleSwitchChild = () => {
+    setScreen(user ? 'who-is-playing' : 'login')
+  }
+
+  const handleSelectChild = (childId: string) => {
+    selectChild(childId)
     setScreen('home')
   }
 
+  const handleAddChild = () => {
+    setScreen('onboarding')
+  }
+
+  const handleOnboardingComplete = async (data: ChildData) => {
+    try {
+      await addChild(data)
+      // Parents get the Superpower Discovery quiz next; it can be paused from the first question
+      setScreen('discovery')
+    } catch (err) {
+      console.error('Failed to add child:', err)
+      setScreen('who-is-playing')
+      throw err
+    }
+  }
+
+  const handleOnboardingBack = () => {
+    setScreen(user ? 'who-is-playing' : 'home')
+  }
+
   const handleSelectLesson = async (legacyLesson: LegacyLesson) => {
     // Fetch full lesson data from API
     try {
-      const response = await fetch(`/api/lessons/${legacyLesson.id}`)
+      const response = await fetch(`/api/lessons/${legacyLesson.id}`, { headers: getAuthHeaders() })
       if (response.ok) {
         const data = await response.json()
         if (data.lesson) {
-          setSelectedLesson(data.lesson as Lesson)
+          const lesson = data.lesson as Lesson
+          setSelectedLesson(lesson)
           setScreen('lesson-player')
+          if (activeChild) {
+            queueMutation(`/api/progress/child/${activeChild.id}/lesson/${lesson.id}/start`, 'POST')
+            queueMutation(`/api/lessons/${lesson.id}/engagement`, 'POST', {
+              childId: activeChild.id,
+              action: 'start',
+            })
+          }
           return
         }
       }
@@ -96,21 +130,31 @@ function App() {
     console.log('Failed to load lesson:', legacyLesson)
   }
 
-  const handleLessonComplete = async (progress: { overallScore: number; activityProgress: ActivityProgress[] }) => {
-    if (selectedLesson) {
-      // Save progress to API
-      try {
-        await fetch(`/api/progress/child/${DEV_CHILD_ID}/lesson/${selectedLesson.id}/complete`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            score: progress.overallScore,
-            timeSpent: progress.activityProgress.reduce((t, a) => t + a.timeSpentSeconds, 0),
-          }),
-        })
-      } catch {
-        // Silently fail - progress saving is non-critical
-      }
+  const handleActivityProgress = (activity: ActivityProgress, nextActivityIndex: number) => {
+    if (!selectedLesson || !activeChild) return
+    queueMutation(`/api/progress/child/${activeChild.id}/lesson/${selectedLesson.id}/activity`, 'POST', {
+      activityId: activity.activityId,
+      completed: activity.completed,
+      score: activity.score,
+      attempts: activity.attempts,
+      timeSpentSeconds: activity.timeSpentSeconds,
+      currentActivityIndex: nextActivityIndex,
+    })
+  }
+
+  const handleLessonComplete = (progress: { overallScore: number; activityProgress: ActivityProgress[] }) => {
+    if (selectedLesson && activeChild) {
+      // Queued so a lesson finished offline is saved once back online
+      const timeSpent = progress.activityProgress.reduce((t, a) => t + a.timeSpentSeconds, 0)
+      queueMutation(`/api/progress/child/${activeChild.id}/lesson/${selectedLesson.id}/complete`, 'POST', {
+        score: progress.overallScore,
+        timeSpent,
+      })
+      queueMutation(`/api/lessons/${selectedLesson.id}/engagement`, 'POST', {
+        childId: activeChild.id,
+        action: 'complete',
+        timeSeconds: timeSpent,
+      })
     }
     setSelectedLesson(null)
     setScreen('lessons')
@@ -173,30 +217,118 @@ function App() {
     setScreen('home')
   }
 
+  const handleReadingChallenge = () => {
+    setScreen('reading-challenge')
+  }
+
+  const handleReadingChallengeBack = () => {
+    setScreen('home')
+  }
+
+  const handleLetterHunt = () => {
+    setScreen('letter-hunt')
+  }
+
+  const handleLetterHuntBack = () => {
+    setScreen('home')
+  }
+
+  const handleDiscovery = () => {
+    setScreen('discovery')
+  }
+
+  const handleDiscoveryBack = () => {
+    setScreen('home')
+  }
+
   const handleSettings = () => {
-    setScreen('settings')
+    // Settings are saved per child
+    if (activeChild) {
+      setScreen('settings')
+    } else {
+      handleGetStarted()
+    }
   }
 
   const handleSettingsBack = () => {
     setScreen('home')
   }
 
+  const handleProgress = () => {
+    setScreen('progress')
+  }
+
+  const handleProgressBack = () => {
+    setScreen('home')
+  }
+
   const renderContent = () => {
-    if (screen === 'settings') {
+    if (screen === 'login') {
+      return (
+        <AuthScreen
+          onLogin={handleLogin}
+          onRegister={handleRegister}
+          onBack={() => setScreen('home')}
+        />
+      )
+    }
+
+    if (screen === 'who-is-playing') {
+      return (
+        <ChildSwitcher
+          profiles={children}
+          activeChildId={activeChild?.id ?? null}
+          isLoading={childrenLoading}
+          error={childrenError}
+          parentName={user?.name}
+          onSelect={handleSelectChild}
+          onAddChild={handleAddChild}
+          onLogout={handleLogout}
+          onBack={() => setScreen('home')}
+          onManageLessons={() => setScreen('lesson-builder')}
+        />
+      )
+    }
+
+    if (screen === 'lesson-builder' && user) {
+      return (
+        <VoiceProvider>
+          <LessonBuilder token={token} onBack={() => setScreen('who-is-playing')} />
+        </VoiceProvider>
+      )
+    }
+
+    if (screen === 'settings' && activeChild) {
       return (
         <Settings
-          childId={DEV_CHILD_ID}
+          childId={activeChild.id}
+          token={token}
           onBack={handleSettingsBack}
+          accessibility={accessibility}
+          onAccessibilityChange={settings => saveAccessibilitySettings(activeChild.id, settings)}
+          displayProfile={displayProfile}
+          onDisplayProfileChange={profile => saveDisplayProfile(activeChild.id, profile)}
+        />
+      )
+    }
+
+    if (screen === 'progress' && activeChild) {
+      return (
+        <ProgressDashboard
+          childId={activeChild.id}
+          childName={activeChild.name}
+          onBack={handleProgressBack}
         />
       )
     }
 
     if (screen === 'lesson-player' && selectedLesson) {
       return (
-        <VoiceProvider>
+        <VoiceProvider childId={activeChild?.id}>
           <LessonPlayer
             lesson={selectedLesson}
             onComplete={handleLessonComplete}
+            onActivityProgress={handleActivityProgress}
             onExit={handleLessonExit}
           />
         </VoiceProvider>
@@ -205,52 +337,84 @@ function App() {
 
     if (screen === 'spelling') {
       return (
-        <VoiceProvider>
-          <SpellingGame onBack={handleSpellingBack} />
+        <VoiceProvider childId={activeChild?.id}>
+          <SpellingGame childId={activeChild?.id} accessibility={accessibility} onBack={handleSpellingBack} />
         </VoiceProvider>
       )
     }
 
     if (screen === 'memory') {
       return (
-        <VoiceProvider>
-          <MemoryGame onBack={handleMemoryBack} />
+        <VoiceProvider childId={activeChild?.id}>
+          <MemoryGame childId={activeChild?.id} onBack={handleMemoryBack} />
         </VoiceProvider>
       )
     }
 
     if (screen === 'rhyme') {
       return (
-        <VoiceProvider>
-          <RhymeGame onBack={handleRhymeBack} />
+        <VoiceProvider childId={activeChild?.id}>
+          <RhymeGame childId={activeChild?.id} onBack={handleRhymeBack} />
         </VoiceProvider>
       )
     }
 
     if (screen === 'builder') {
       return (
-        <VoiceProvider>
-          <WordBuilder onBack={handleBuilderBack} />
+        <VoiceProvider childId={activeChild?.id}>
+          <WordBuilder childId={activeChild?.id} accessibility={accessibility} onBack={handleBuilderBack} />
         </VoiceProvider>
       )
     }
 
     if (screen === 'phonics') {
       return (
-        <VoiceProvider>
-          <PhonicsGame onBack={handlePhonicsBack} />
+        <VoiceProvider childId={activeChild?.id}>
+          <PhonicsGame childId={activeChild?.id} onBack={handlePhonicsBack} />
         </VoiceProvider>
       )
     }
 
     if (screen === 'readaloud') {
       return (
-        <VoiceProvider>
-          <ReadAloudGame onBack={handleReadAloudBack} />
+        <VoiceProvider childId={activeChild?.id}>
+          <ReadAloudGame childId={activeChild?.id} onBack={handleReadAloudBack} />
+        </VoiceProvider>
+      )
+    }
+
+    if (screen === 'reading-challenge' && activeChild) {
+      return (
+        <VoiceProvider childId={activeChild.id}>
+          <ReadingChallenge
+            childName={activeChild.name}
+            previousLevel={activeChild.reading_level}
+            onComplete={(level, results) => saveReadingLevel(activeChild.id, level, results)}
+            onBack={handleReadingChallengeBack}
+          />
         </VoiceProvider>
       )
     }
 
+    if (screen === 'letter-hunt' && activeChild) {
+      return (
+        <VoiceProvider childId={activeChild.id}>
+          <LetterHunt childId={activeChild.id} childName={activeChild.name} onBack={handleLetterHuntBack} />
+        </VoiceProvider>
+      )
+    }
+
+    if (screen === 'discovery' && activeChild) {
+      return (
+        <SuperpowerDiscovery
+          childId={activeChild.id}
+          childName={activeChild.name}
+          onComplete={answers => saveLearningProfile(activeChild.id, answers)}
+          onBack={handleDiscoveryBack}
+        />
+      )
+    }
+
     if (screen === 'onboarding') {
       return (
         <Onboarding
@@ -260,11 +424,11 @@ function App() {
       )
     }
 
-    if (screen === 'lessons' && childData) {
+    if (screen === 'lessons' && activeChild) {
       return (
         <LessonSelection
-          childData={childData}
-          childId={DEV_CHILD_ID}
+          childData={activeChild}
+          childId={activeChild.id}
           onSelectLesson={handleSelectLesson}
           onBack={handleLessonsBack}
         />
@@ -311,14 +475,37 @@ function App() {
 
           <p className="tagline">Learn to Read, Read to Learn!</p>
 
-          {childData ? (
+          {pendingCount > 0 && (
+            <p className="sync-status" role="status">
+              Progress saved on this device - it will sync when you're back online
+            </p>
+          )}
+
+          {activeChild ? (
             <div className="welcome-back">
               <p className="welcome-message">
-                Welcome back, {childData.name}!
+                Welcome back, {activeChild.name}!
               </p>
               <button className="cta-button" type="button" onClick={handleGetStarted}>
                 Continue Learning!
               </button>
+              <div className="welcome-actions">
+                <button className="welcome-link" type="button" onClick={handleProgress}>
+                  My Progress
+                </button>
+                <button className="welcome-link" type="button" onClick={handleReadingChallenge}>
+                  Reading Challenge
+                </button>
+                <button className="welcome-link" type="button" onClick={handleLetterHunt}>
+                  Letter Hunt
+                </button>
+                <button className="welcome-link" type="button" onClick={handleDiscovery}>
+                  Learning Superpowers
+                </button>
+                <button className="welcome-link" type="button" onClick={handleSwitchChild}>
+                  Not {activeChild.name}? Switch reader
+                </button>
+              </div>
             </div>
           ) : (
             <button className="cta-button" type="button" onClick={handleGetStarted}>
@@ -365,7 +552,9 @@ function App() {
 
   return (
     <>
-      {renderContent()}
+      <DisplayProfileProvider profile={displayProfile}>
+        {renderContent()}
+      </DisplayProfileProvider>
       <footer className="version-footer">v{version}</footer>
     </>
   )
@@ -0,0 +1,105 @@
+import {
+  InputMode,
+  MIN_SCAN_INTERVAL_MS,
+  MAX_SCAN_INTERVAL_MS,
+  type AccessibilitySettings,
+} from '../types/accessibility'
+import './AccessibilityOptions.css'
+
+interface InputModeOption {
+  mode: InputMode
+  label: string
+  icon: string
+  description: string
+}
+
+const INPUT_MODE_OPTIONS: InputModeOption[] = [
+  {
+    mode: InputMode.DRAG,
+    label: 'Drag',
+    icon: '👆',
+    description: 'Drag letters into place with a finger or mouse.',
+  },
+  {
+    mode: InputMode.TAP,
+    label: 'Tap or keyboard',
+    icon: '⌨️',
+    description: 'Tap a letter, then tap where it goes. Arrow keys and Tab move between them.',
+  },
+  {
+    mode: InputMode.SCAN,
+    label: 'Switch scanning',
+    icon: '🔘',
+    description: 'Letters and spaces light up in turn. Press a switch, Space or Enter to choose.',
+  },
+]
+
+const SCAN_STEP_MS = 250
+
+interface AccessibilityOptionsProps {
+  settings: AccessibilitySettings
+  onChange: (settings: AccessibilitySettings) => void
+}
+
+/**
+ * Per-child choices for how the spelling and word builder tiles are moved
+ */
+export default function AccessibilityOptions({ settings, onChange }: AccessibilityOptionsProps) {
+  const update = (changes: Partial<AccessibilitySettings>) => {
+    onChange({ ...settings, ...changes })
+  }
+
+  return (
+    <div className="accessibility-options">
+      <fieldset className="input-mode-options">
+        <legend className="accessibility-legend">Moving letters</legend>
+        {INPUT_MODE_OPTIONS.map(option => (
+          <label
+            key={option.mode}
+            className={`input-mode-option ${settings.inputMode === option.mode ? 'selected' : ''}`}
+          >
+            <input
+              type="radio"
+              name="input-mode"
+              value={option.mode}
+              checked={settings.inputMode === option.mode}
+              onChange={() => update({ inputMode: option.mode })}
+            />
+            <span className="input-mode-icon" aria-hidden="true">{option.icon}</span>
+            <span className="input-mode-text">
+              <span className="input-mode-label">{option.label}</span>
+              <span className="input-mode-description">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </fieldset>
+
+      {settings.inputMode === InputMode.SCAN && (
+        <div className="scan-speed">
+          <label className="scan-speed-label" htmlFor="scan-speed">
+            Time on each choice
+            <span className="scan-speed-value">{(settings.scanIntervalMs / 1000).toFixed(2)}s</span>
+          </label>
+          <input
+            id="scan-speed"
+            type="range"
+            min={MIN_SCAN_INTERVAL_MS}
+            max={MAX_SCAN_INTERVAL_MS}
+            step={SCAN_STEP_MS}
+            value={settings.scanIntervalMs}
+            onChange={e => update({ scanIntervalMs: Number(e.target.value) })}
+          />
+        </div>
+      )}
+
+      <label className="announce-option">
+        <input
+          type="checkbox"
+          checked={settings.announcePlacements}
+          onChange={e => update({ announcePlacements: e.target.checked })}
+        />
+        Read out each letter as it is picked and placed (for screen readers)
+      </label>
+    </div>
+  )
+}
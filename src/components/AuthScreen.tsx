@@ -0,0 +1,136 @@
+import { useState, type FormEvent } from 'react'
+import './AuthScreen.css'
+
+type AuthMode = 'login' | 'register'
+
+interface AuthScreenProps {
+  onLogin: (email: string, password: string) => Promise<unknown>
+  onRegister: (name: string, email: string, password: string) => Promise<unknown>
+  onBack: () => void
+}
+
+const MIN_PASSWORD_LENGTH = 8
+
+export default function AuthScreen({ onLogin, onRegister, onBack }: AuthScreenProps) {
+  const [mode, setMode] = useState<AuthMode>('login')
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next)
+    setError(null)
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (isSubmitting) return
+
+    if (mode === 'register' && password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      if (mode === 'login') {
+        await onLogin(email.trim(), password)
+      } else {
+        await onRegister(name.trim(), email.trim(), password)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="auth-screen">
+      <button className="auth-back-button" type="button" onClick={onBack}>
+        &larr; Back
+      </button>
+
+      <div className="auth-card">
+        <h2 className="auth-title">
+          {mode === 'login' ? 'Grown-ups, sign in' : 'Create a family account'}
+        </h2>
+        <p className="auth-subtitle">
+          {mode === 'login'
+            ? 'Sign in to pick up where your readers left off.'
+            : 'One account for all of your readers.'}
+        </p>
+
+        <div className="auth-tabs" role="tablist">
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'login'}
+            className={`auth-tab ${mode === 'login' ? 'active' : ''}`}
+            onClick={() => switchMode('login')}
+          >
+            Sign In
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'register'}
+            className={`auth-tab ${mode === 'register' ? 'active' : ''}`}
+            onClick={() => switchMode('register')}
+          >
+            Create Account
+          </button>
+        </div>
+
+        <form className="auth-form" onSubmit={handleSubmit}>
+          {mode === 'register' && (
+            <label className="auth-field">
+              <span className="auth-label">Your name</span>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoComplete="name"
+                required
+              />
+            </label>
+          )}
+
+          <label className="auth-field">
+            <span className="auth-label">Email</span>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              required
+            />
+          </label>
+
+          <label className="auth-field">
+            <span className="auth-label">Password</span>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              required
+            />
+          </label>
+
+          {error && (
+            <p className="auth-error" role="alert">{error}</p>
+          )}
+
+          <button className="auth-submit" type="submit" disabled={isSubmitting}>
+            {isSubmitting
+              ? 'Please wait...'
+              : mode === 'login' ? 'Sign In' : 'Create Account'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import ChildSwitcher from './ChildSwitcher'
+import type { ChildProfile } from '../hooks/useChildren'
+
+const profiles: ChildProfile[] = [
+  { id: 'child-1', name: 'Ava', age: 5, sex: null, avatar: 'fox', grade_level: null, learning_style: null, interests: [], reading_level: null, reading_assessment: null, reading_assessed_at: null, learning_style_profile: null, personality_profile: null, accessibility_settings: null, display_profile: null },
+  { id: 'child-2', name: 'Ben', age: 6, sex: null, avatar: null, grade_level: null, learning_style: null, interests: [], reading_level: null, reading_assessment: null, reading_assessed_at: null, learning_style_profile: null, personality_profile: null, accessibility_settings: null, display_profile: null },
+]
+
+function renderSwitcher(overrides: Partial<Parameters<typeof ChildSwitcher>[0]> = {}) {
+  const props = {
+    profiles,
+    activeChildId: 'child-1',
+    isLoading: false,
+    error: null,
+    onSelect: vi.fn(),
+    onAddChild: vi.fn(),
+    onLogout: vi.fn(),
+    onBack: vi.fn(),
+    ...overrides,
+  }
+  render(<ChildSwitcher {...props} />)
+  return props
+}
+
+describe('ChildSwitcher', () => {
+  it('lists every child with the active one pressed', () => {
+    renderSwitcher()
+
+    expect(screen.getByRole('heading', { name: "Who's playing?" })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /Ava/ })).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByRole('button', { name: /Ben/ })).toHaveAttribute('aria-pressed', 'false')
+  })
+
+  it('selects a child', async () => {
+    const props = renderSwitcher()
+
+    await userEvent.click(screen.getByRole('button', { name: /Ben/ }))
+
+    expect(props.onSelect).toHaveBeenCalledWith('child-2')
+  })
+
+  it('offers to add a reader', async () => {
+    const props = renderSwitcher({ profiles: [] })
+
+    await userEvent.click(screen.getByRole('button', { name: /Add a reader/ }))
+
+    expect(props.onAddChild).toHaveBeenCalled()
+  })
+
+  it('shows a loading message before the list arrives', () => {
+    renderSwitcher({ profiles: null, isLoading: true })
+
+    expect(screen.getByText('Loading readers...')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Add a reader/ })).not.toBeInTheDocument()
+  })
+
+  it('links to the lesson builder when it is available', async () => {
+    const onManageLessons = vi.fn()
+    renderSwitcher({ onManageLessons })
+
+    await userEvent.click(screen.getByRole('button', { name: 'Lesson builder' }))
+
+    expect(onManageLessons).toHaveBeenCalled()
+  })
+
+  it('hides the lesson builder link without a handler', () => {
+    renderSwitcher()
+
+    expect(screen.queryByRole('button', { name: 'Lesson builder' })).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,96 @@
+import type { ChildProfile } from '../hooks/useChildren'
+import './ChildSwitcher.css'
+
+interface ChildSwitcherProps {
+  profiles: ChildProfile[] | null
+  activeChildId: string | null
+  isLoading: boolean
+  error: string | null
+  parentName?: string
+  onSelect: (childId: string) => void
+  onAddChild: () => void
+  onLogout: () => void
+  onBack: () => void
+  /** Shown as a header button when set */
+  onManageLessons?: () => void
+}
+
+const AVATAR_EMOJIS: Record<string, string> = {
+  bear: '🐻',
+  bunny: '🐰',
+  fox: '🦊',
+  owl: '🦉',
+  cat: '🐱',
+  dog: '🐶',
+  panda: '🐼',
+  lion: '🦁',
+}
+
+export default function ChildSwitcher({
+  profiles,
+  activeChildId,
+  isLoading,
+  error,
+  parentName,
+  onSelect,
+  onAddChild,
+  onLogout,
+  onBack,
+  onManageLessons,
+}: ChildSwitcherProps) {
+  return (
+    <div className="child-switcher">
+      <header className="child-switcher-header">
+        <button className="child-switcher-back" type="button" onClick={onBack}>
+          &larr; Back
+        </button>
+        <div className="child-switcher-header-actions">
+          {onManageLessons && (
+            <button className="child-switcher-lessons" type="button" onClick={onManageLessons}>
+              Lesson builder
+            </button>
+          )}
+          <button className="child-switcher-logout" type="button" onClick={onLogout}>
+            Sign out{parentName ? ` ${parentName}` : ''}
+          </button>
+        </div>
+      </header>
+
+      <h2 className="child-switcher-title">Who's playing?</h2>
+
+      {isLoading && (
+        <p className="child-switcher-status">Loading readers...</p>
+      )}
+
+      {error && (
+        <p className="child-switcher-status error" role="alert">{error}</p>
+      )}
+
+      {profiles && (
+        <ul className="child-switcher-list">
+          {profiles.map((child) => (
+            <li key={child.id}>
+              <button
+                type="button"
+                className={`child-card ${child.id === activeChildId ? 'active' : ''}`}
+                aria-pressed={child.id === activeChildId}
+                onClick={() => onSelect(child.id)}
+              >
+                <span className="child-card-avatar" aria-hidden="true">
+                  {child.avatar ? AVATAR_EMOJIS[child.avatar] || '⭐' : '⭐'}
+                </span>
+                <span className="child-card-name">{child.name}</span>
+              </button>
+            </li>
+          ))}
+          <li>
+            <button type="button" className="child-card add-child" onClick={onAddChild}>
+              <span className="child-card-avatar" aria-hidden="true">+</span>
+              <span className="child-card-name">Add a reader</span>
+            </button>
+          </li>
+        </ul>
+      )}
+    </div>
+  )
+}
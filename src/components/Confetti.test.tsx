@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { render, screen, act } from '@testing-library/react'
 import Confetti from './Confetti'
+import { DisplayProfileProvider } from '../hooks/useDisplayProfile'
+import { DEFAULT_DISPLAY_PROFILE } from '../types/accessibility'
 
 describe('Confetti', () => {
   beforeEach(() => {
@@ -70,4 +72,21 @@ describe('Confetti', () => {
       expect(style.backgroundColor).toBeTruthy()
     })
   })
+
+  it('shows no pieces with reduced motion but still completes', () => {
+    const onComplete = vi.fn()
+    const { container } = render(
+      <DisplayProfileProvider profile={{ ...DEFAULT_DISPLAY_PROFILE, reducedMotion: true }}>
+        <Confetti active={true} duration={1000} onComplete={onComplete} />
+      </DisplayProfileProvider>
+    )
+
+    expect(container.querySelector('.confetti-container')).toBeNull()
+
+    act(() => {
+      vi.advanceTimersByTime(1000)
+    })
+
+    expect(onComplete).toHaveBeenCalled()
+  })
 })
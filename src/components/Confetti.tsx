@@ -1,4 +1,5 @@
 import { useEffect, useState, useCallback } from 'react'
+import { useDisplayProfile } from '../hooks/useDisplayProfile'
 import './Confetti.css'
 
 interface ConfettiPiece {
@@ -36,6 +37,7 @@ export default function Confetti({
   onComplete,
 }: ConfettiProps) {
   const [pieces, setPieces] = useState<ConfettiPiece[]>([])
+  const { reducedMotion } = useDisplayProfile()
 
   const generatePieces = useCallback(() => {
     const newPieces: ConfettiPiece[] = []
@@ -68,7 +70,8 @@ export default function Confetti({
     }
   }, [active, duration, generatePieces, onComplete])
 
-  if (!active || pieces.length === 0) {
+  // With reduced motion the timer still runs so onComplete fires on time
+  if (!active || pieces.length === 0 || reducedMotion) {
     return null
   }
 
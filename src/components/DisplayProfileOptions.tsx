@@ -0,0 +1,81 @@
+import { DisplayProfileProvider } from '../hooks/useDisplayProfile'
+import ReadableText from './ReadableText'
+import {
+  TextSpacing,
+  isTextSpacing,
+  type DisplayProfile,
+} from '../types/accessibility'
+import './DisplayProfileOptions.css'
+
+const SPACING_LABELS: Record<TextSpacing, string> = {
+  [TextSpacing.NORMAL]: 'Normal',
+  [TextSpacing.WIDE]: 'Wide',
+  [TextSpacing.WIDER]: 'Extra wide',
+}
+
+// Has every mirror letter so the color coding shows in the preview
+const PREVIEW_TEXT = 'A big dog dug up a quiet pond.'
+
+type ToggleKey = 'dyslexiaFont' | 'lineRuler' | 'colorCodeLetters' | 'reducedMotion'
+
+const TOGGLES: { key: ToggleKey; label: string }[] = [
+  { key: 'dyslexiaFont', label: 'Easy-to-read font' },
+  { key: 'lineRuler', label: 'Reading ruler that shades all but one line of a passage' },
+  { key: 'colorCodeLetters', label: 'Give b, d, p and q their own colors' },
+  { key: 'reducedMotion', label: 'Calmer celebrations with less movement' },
+]
+
+interface DisplayProfileOptionsProps {
+  profile: DisplayProfile
+  onChange: (profile: DisplayProfile) => void
+}
+
+/**
+ * Per-child choices for how reading text looks, with a live preview
+ */
+export default function DisplayProfileOptions({ profile, onChange }: DisplayProfileOptionsProps) {
+  const update = (changes: Partial<DisplayProfile>) => {
+    onChange({ ...profile, ...changes })
+  }
+
+  const spacingSelect = (id: string, label: string, key: 'letterSpacing' | 'wordSpacing') => (
+    <div className="spacing-option">
+      <label htmlFor={id}>{label}</label>
+      <select
+        id={id}
+        value={profile[key]}
+        onChange={e => {
+          if (isTextSpacing(e.target.value)) update({ [key]: e.target.value })
+        }}
+      >
+        {Object.values(TextSpacing).map(spacing => (
+          <option key={spacing} value={spacing}>{SPACING_LABELS[spacing]}</option>
+        ))}
+      </select>
+    </div>
+  )
+
+  return (
+    <div className="display-profile-options">
+      <div className="display-profile-preview" aria-label="Preview">
+        <DisplayProfileProvider profile={profile}>
+          <ReadableText text={PREVIEW_TEXT} />
+        </DisplayProfileProvider>
+      </div>
+
+      {TOGGLES.map(toggle => (
+        <label key={toggle.key} className="display-toggle">
+          <input
+            type="checkbox"
+            checked={profile[toggle.key]}
+            onChange={e => update({ [toggle.key]: e.target.checked })}
+          />
+          {toggle.label}
+        </label>
+      ))}
+
+      {spacingSelect('letter-spacing', 'Space between letters', 'letterSpacing')}
+      {spacingSelect('word-spacing', 'Space between words', 'wordSpacing')}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react'
+import { render, screen, fireEvent } from '@testing-library/react'
 import DropZone from './DropZone'
 
 describe('DropZone', () => {
@@ -88,4 +88,36 @@ describe('DropZone', () => {
     expect(zone).toHaveAttribute('data-index', '2')
     expect(zone).toHaveAttribute('data-expected', 'c')
   })
+
+  describe('tap and keyboard play', () => {
+    it('names the space and whether it is empty', () => {
+      render(<DropZone {...defaultProps} index={1} onSelect={vi.fn()} />)
+      expect(screen.getByRole('button', { name: 'Space 2, empty' })).toHaveAttribute('tabindex', '0')
+    })
+
+    it('calls onSelect with its index on click, Enter or Space', () => {
+      const onSelect = vi.fn()
+      render(<DropZone {...defaultProps} index={1} onSelect={onSelect} />)
+      const zone = screen.getByRole('button', { name: 'Space 2, empty' })
+      fireEvent.click(zone)
+      fireEvent.keyDown(zone, { key: 'Enter' })
+      fireEvent.keyDown(zone, { key: ' ' })
+      expect(onSelect).toHaveBeenCalledTimes(3)
+      expect(onSelect).toHaveBeenCalledWith(1)
+    })
+
+    it('cannot be chosen once filled', () => {
+      const onSelect = vi.fn()
+      render(<DropZone {...defaultProps} currentLetter="a" onSelect={onSelect} />)
+      const zone = screen.getByRole('button', { name: 'Space 1, A' })
+      fireEvent.click(zone)
+      expect(onSelect).not.toHaveBeenCalled()
+      expect(zone).toHaveAttribute('aria-disabled', 'true')
+    })
+
+    it('is not a button while dragging is used', () => {
+      render(<DropZone {...defaultProps} />)
+      expect(screen.queryByRole('button')).not.toBeInTheDocument()
+    })
+  })
 })
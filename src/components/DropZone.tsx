@@ -9,6 +9,12 @@ export interface DropZoneProps {
   onGetBounds: (index: number, bounds: DOMRect) => void
   showWrongAnimation?: boolean
   showCorrectAnimation?: boolean
+  /** Tap or keyboard play: the picked tile is placed with a tap, Enter or Space */
+  onSelect?: (index: number) => void
+  /** Highlighted by switch scanning */
+  scanHighlighted?: boolean
+  /** Row name for arrow key navigation */
+  navRow?: string
 }
 
 // Generate sparkle positions for particle burst effect
@@ -35,6 +41,9 @@ export default function DropZone({
   onGetBounds,
   showWrongAnimation = false,
   showCorrectAnimation = false,
+  onSelect,
+  scanHighlighted = false,
+  navRow,
 }: DropZoneProps) {
   const zoneRef = useRef<HTMLDivElement>(null)
 
@@ -55,10 +64,36 @@ export default function DropZone({
   const isFilled = currentLetter !== null
   const isCorrect = currentLetter === expectedLetter
 
+  const handleSelect = () => {
+    if (!isFilled) onSelect?.(index)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault()
+      handleSelect()
+    }
+  }
+
+  const selectProps = onSelect
+    ? {
+        role: 'button',
+        tabIndex: isFilled ? -1 : 0,
+        'aria-disabled': isFilled,
+        'aria-label': `Space ${index + 1}, ${currentLetter ? currentLetter.toUpperCase() : 'empty'}`,
+        onClick: handleSelect,
+        onKeyDown: handleKeyDown,
+        'data-nav-row': navRow,
+      }
+    : {}
+
   return (
     <div
       ref={zoneRef}
+      {...selectProps}
       className={`drop-zone
+        ${onSelect ? 'selectable' : ''}
+        ${scanHighlighted ? 'scan-highlight' : ''}
         ${isActive ? 'active' : ''}
         ${isFilled ? 'filled' : ''}
         ${isCorrect ? 'correct' : ''}
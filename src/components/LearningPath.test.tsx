@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import LearningPath from './LearningPath'
+import type { Lesson } from './LessonCard'
+import '@testing-library/jest-dom'
+
+function lesson(id: string, title: string, overrides: Partial<Lesson> = {}): Lesson {
+  return {
+    id,
+    title,
+    subject: 'phonics',
+    grade_level: null,
+    difficulty: null,
+    duration_minutes: null,
+    content: null,
+    objectives: null,
+    ...overrides,
+  }
+}
+
+const lessons = [
+  lesson('families', 'Word Family -at', { tags: ['word-families'], prerequisites: ['cvc'], availability: 'locked' }),
+  lesson('sight', 'Sight Words', { tags: ['sight-words'], availability: 'unlocked' }),
+  lesson('cvc', 'CVC Words', { tags: ['cvc'], prerequisites: ['letters'], availability: 'unlocked' }),
+  lesson('letters', 'Letter Sounds', { tags: ['letter-sounds'], availability: 'completed' }),
+  lesson('ours', 'Our Cat Lesson'),
+]
+
+describe('LearningPath', () => {
+  it('lays lessons out in scope-and-sequence order', () => {
+    render(<LearningPath lessons={lessons} onSelect={vi.fn()} />)
+
+    const stops = screen.getAllByRole('heading', { level: 3 }).map(h => h.textContent)
+    expect(stops).toEqual(['1Letter sounds', '3CVC words', '4Word families', 'Sight words', 'More lessons'])
+  })
+
+  it('shows each lesson\'s state and what a locked lesson is waiting on', () => {
+    render(<LearningPath lessons={lessons} onSelect={vi.fn()} />)
+
+    expect(screen.getByRole('button', { name: 'Letter Sounds, done' })).toBeEnabled()
+    expect(screen.getByRole('button', { name: 'CVC Words, ready' })).toBeEnabled()
+    const locked = screen.getByRole('button', { name: 'Word Family -at, locked' })
+    expect(locked).toBeDisabled()
+    expect(within(locked).getByText('Finish CVC Words first')).toBeInTheDocument()
+  })
+
+  it('starts unlocked lessons', async () => {
+    const user = userEvent.setup()
+    const onSelect = vi.fn()
+    render(<LearningPath lessons={lessons} onSelect={onSelect} />)
+
+    await user.click(screen.getByRole('button', { name: 'CVC Words, ready' }))
+
+    expect(onSelect).toHaveBeenCalledWith(lessons[2])
+  })
+})
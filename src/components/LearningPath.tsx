@@ -0,0 +1,72 @@
+import type { Lesson } from './LessonCard'
+import type { LessonAvailability } from '../types/lesson'
+import { buildLearningPath } from '../lessons/curriculum'
+import './LearningPath.css'
+
+interface LearningPathProps {
+  lessons: Lesson[]
+  onSelect: (lesson: Lesson) => void
+}
+
+const AVAILABILITY_ICONS: Record<LessonAvailability, string> = {
+  completed: '✅',
+  unlocked: '⭐',
+  locked: '🔒',
+}
+
+const AVAILABILITY_LABELS: Record<LessonAvailability, string> = {
+  completed: 'done',
+  unlocked: 'ready',
+  locked: 'locked',
+}
+
+export default function LearningPath({ lessons, onSelect }: LearningPathProps) {
+  const byId = new Map(lessons.map(lesson => [lesson.id, lesson]))
+  const groups = buildLearningPath(lessons)
+
+  // Titles of the unfinished lessons holding a locked lesson back
+  const blockers = (lesson: Lesson) => (lesson.prerequisites ?? [])
+    .map(id => byId.get(id))
+    .filter((prerequisite): prerequisite is Lesson => !!prerequisite && prerequisite.availability !== 'completed')
+    .map(prerequisite => prerequisite.title)
+
+  return (
+    <ol className="learning-path">
+      {groups.map(group => (
+        <li key={group.key} className="learning-path-stop">
+          <h3 className="learning-path-stop-title">
+            {group.stage !== undefined && (
+              <span className="learning-path-stage-number">{group.stage}</span>
+            )}
+            {group.title}
+          </h3>
+          <ul className="learning-path-lessons">
+            {group.lessons.map(lesson => {
+              const availability = lesson.availability ?? 'unlocked'
+              const waitingOn = availability === 'locked' ? blockers(lesson) : []
+              return (
+                <li key={lesson.id}>
+                  <button
+                    type="button"
+                    className={`learning-path-node learning-path-node-${availability}`}
+                    onClick={() => onSelect(lesson)}
+                    disabled={availability === 'locked'}
+                    aria-label={`${lesson.title}, ${AVAILABILITY_LABELS[availability]}`}
+                  >
+                    <span className="learning-path-node-icon" aria-hidden="true">
+                      {AVAILABILITY_ICONS[availability]}
+                    </span>
+                    <span className="learning-path-node-title">{lesson.title}</span>
+                    {waitingOn.length > 0 && (
+                      <span className="learning-path-node-hint">Finish {waitingOn.join(' and ')} first</span>
+                    )}
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react'
-import { useVoice } from '../hooks/useVoice'
+import { useVoice, type SpeakOptions } from '../hooks/useVoice'
+import ReadableText from './ReadableText'
+import SpokenPassage from './SpokenPassage'
+import LineRuler from './LineRuler'
 import type {
   LessonActivity as ActivityType,
   ReadingActivity,
@@ -16,10 +19,13 @@ import './LessonActivity.css'
 
 interface LessonActivityProps {
   activity: ActivityType
-  onComplete: (score?: number) => void
+  /** Called with the score and, where the view allows retries, the tries used */
+  onComplete: (score?: number, attempts?: number) => void
+  /** Tries a spelling activity allows before reporting a score of 0 */
+  maxAttempts?: number
 }
 
-export default function LessonActivity({ activity, onComplete }: LessonActivityProps) {
+export default function LessonActivity({ activity, onComplete, maxAttempts }: LessonActivityProps) {
   const { speak, isSpeaking } = useVoice()
 
   useEffect(() => {
@@ -35,7 +41,7 @@ export default function LessonActivity({ activity, onComplete }: LessonActivityP
       case 'reading':
         return <ReadingActivityView activity={activity} onComplete={onComplete} speak={speak} isSpeaking={isSpeaking} />
       case 'spelling':
-        return <SpellingActivityView activity={activity} onComplete={onComplete} speak={speak} />
+        return <SpellingActivityView activity={activity} onComplete={onComplete} speak={speak} maxAttempts={maxAttempts} />
       case 'phonics':
         return <PhonicsActivityView activity={activity} onComplete={onComplete} speak={speak} />
       case 'sight-words':
@@ -72,11 +78,11 @@ function ReadingActivityView({
 }: {
   activity: ReadingActivity
   onComplete: (score?: number) => void
-  speak: (text: string) => Promise<void>
+  speak: (text: string, options?: SpeakOptions) => Promise<void>
   isSpeaking: boolean
 }) {
   const handleReadAloud = () => {
-    speak(activity.content)
+    speak(activity.content, { trackWords: true })
   }
 
   return (
@@ -88,7 +94,9 @@ function ReadingActivityView({
           className="activity-image"
         />
       )}
-      <div className="reading-content">{activity.content}</div>
+      <LineRuler className="reading-content">
+        <SpokenPassage text={activity.content} />
+      </LineRuler>
       <div className="activity-buttons">
         {activity.readAloud && (
           <button
@@ -117,19 +125,27 @@ function SpellingActivityView({
   activity,
   onComplete,
   speak,
+  maxAttempts,
 }: {
   activity: SpellingActivity
-  onComplete: (score?: number) => void
+  onComplete: (score?: number, attempts?: number) => void
   speak: (text: string) => Promise<void>
+  maxAttempts?: number
 }) {
   const [userInput, setUserInput] = useState('')
   const [showHint, setShowHint] = useState(false)
+  const [attempts, setAttempts] = useState(0)
 
   const handleSubmit = () => {
+    const attempt = attempts + 1
+    setAttempts(attempt)
     const isCorrect = userInput.toLowerCase().trim() === activity.word.toLowerCase()
     if (isCorrect) {
       speak('Great job!')
-      onComplete(100)
+      onComplete(100, attempt)
+    } else if (maxAttempts && attempt >= maxAttempts) {
+      speak('Let\'s practice that one together.')
+      onComplete(0, attempt)
     } else {
       speak('Try again!')
       setUserInput('')
@@ -220,7 +236,7 @@ function PhonicsActivityView({
         </button>
       </div>
       <div className="phonics-word">
-        <span className="word-display">{activity.exampleWords[currentWordIndex]}</span>
+        <ReadableText className="word-display" text={activity.exampleWords[currentWordIndex]} />
         <button
           type="button"
           className="activity-button secondary"
@@ -267,7 +283,7 @@ function SightWordsActivityView({
   return (
     <div className="activity-sight-words">
       <div className="sight-word-display">
-        {activity.words[currentIndex]}
+        <ReadableText text={activity.words[currentIndex]} />
       </div>
       <div className="activity-buttons">
         <button
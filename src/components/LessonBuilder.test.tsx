@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import LessonBuilder from './LessonBuilder'
+import type { SavedLesson } from '../hooks/useLessonLibrary'
+import '@testing-library/jest-dom'
+
+vi.mock('../hooks/useVoice', () => ({
+  useVoice: () => ({
+    speak: vi.fn().mockResolvedValue(undefined),
+    isSpeaking: false,
+    settings: { enabled: true, encouragementEnabled: true },
+  }),
+}))
+
+const familyLesson: SavedLesson = {
+  id: 'lesson-1',
+  title: 'Our sight words',
+  subject: 'sight-words',
+  description: null,
+  difficulty: 'easy',
+  visibility: 'private',
+  duration_minutes: 5,
+  objectives: [],
+  activities: [
+    { id: 'a1', type: 'sight-words', order: 0, instructions: 'Read each word.', words: ['the', 'and'] },
+    { id: 'a2', type: 'listen-repeat', order: 1, instructions: 'Say it with me.', phrase: 'the cat' },
+  ],
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status < 400, status, json: () => Promise.resolve(body) } as Response
+}
+
+function requestBody(callIndex: number) {
+  return JSON.parse(vi.mocked(global.fetch).mock.calls[callIndex][1]?.body as string)
+}
+
+describe('LessonBuilder', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn().mockResolvedValue(jsonResponse({ lessons: [familyLesson] }))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('lists the family\'s lessons', async () => {
+    render(<LessonBuilder token="jwt-token" onBack={vi.fn()} />)
+
+    expect(await screen.findByText('Our sight words')).toBeInTheDocument()
+    expect(screen.getByText(/2 activities/)).toHaveTextContent('Just our family')
+  })
+
+  it('explains why a lesson is held for review', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce(jsonResponse({
+      lessons: [{
+        ...familyLesson,
+        review_status: 'rejected',
+        review_note: 'Please take out the phone number',
+        safety_flags: [{ field: 'activities[0].content', rule: 'pii', message: 'Looks like a phone number' }],
+      }],
+    }))
+    render(<LessonBuilder token="jwt-token" onBack={vi.fn()} />)
+
+    expect(await screen.findByText('Not approved')).toBeInTheDocument()
+    expect(screen.getByText('Looks like a phone number')).toBeInTheDocument()
+    expect(screen.getByText('Reviewer: Please take out the phone number')).toBeInTheDocument()
+  })
+
+  it('offers every activity type', async () => {
+    const user = userEvent.setup()
+    render(<LessonBuilder token="jwt-token" onBack={vi.fn()} />)
+
+    await user.click(screen.getByRole('button', { name: '+ New lesson' }))
+
+    const typeSelect = screen.getByLabelText('New activity')
+    expect(within(typeSelect).getAllByRole('option')).toHaveLength(9)
+  })
+
+  it('reorders activities and saves them in the new order', async () => {
+    const user = userEvent.setup()
+    render(<LessonBuilder token="jwt-token" onBack={vi.fn()} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Edit' }))
+    await user.click(screen.getByRole('button', { name: 'Move activity 2 up' }))
+
+    expect(screen.getByText('1. Listen and repeat')).toBeInTheDocument()
+    expect(screen.getByText('2. Sight words')).toBeInTheDocument()
+
+    vi.mocked(global.fetch).mockResolvedValueOnce(jsonResponse({ lesson: familyLesson }))
+    await user.click(screen.getByRole('button', { name: 'Save lesson' }))
+
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('Saved "Our sight words"'))
+    const saveCall = vi.mocked(global.fetch).mock.calls[1]
+    expect(saveCall[0]).toBe('/api/lessons/lesson-1')
+    expect(saveCall[1]?.method).toBe('PUT')
+    expect(requestBody(1).activities.map((a: { id: string }) => a.id)).toEqual(['a2', 'a1'])
+  })
+
+  it('blocks saving until new activities are filled in', async () => {
+    const user = userEvent.setup()
+    render(<LessonBuilder token="jwt-token" onBack={vi.fn()} />)
+
+    await user.click(screen.getByRole('button', { name: '+ New lesson' }))
+    await user.type(screen.getByLabelText('Title'), 'Quiz time')
+    await user.selectOptions(screen.getByLabelText('New activity'), 'quiz')
+    await user.click(screen.getByRole('button', { name: 'Add activity' }))
+    await user.click(screen.getByRole('button', { name: 'Save lesson' }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Please fix the problems highlighted below')
+    expect(screen.getByRole('list', { name: 'Problems with activity 1' })).toHaveTextContent('question must be a non-empty string')
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+
+    await user.type(screen.getByLabelText('Question'), 'Which one is a pet?')
+    await user.type(screen.getByLabelText('Answer choices'), 'cat, cloud')
+    await user.selectOptions(screen.getByLabelText('Correct answer'), '0')
+
+    expect(screen.queryByRole('list', { name: 'Problems with activity 1' })).not.toBeInTheDocument()
+
+    vi.mocked(global.fetch).mockResolvedValueOnce(jsonResponse({ lesson: { ...familyLesson, title: 'Quiz time' } }, 201))
+    await user.click(screen.getByRole('button', { name: 'Save lesson' }))
+
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('Saved "Quiz time"'))
+    const body = requestBody(1)
+    expect(body.visibility).toBe('private')
+    expect(body.activities[0]).toMatchObject({ type: 'quiz', options: ['cat', 'cloud'], correctIndex: 0 })
+  })
+
+  it('shows validation errors from the server against the activity', async () => {
+    const user = userEvent.setup()
+    render(<LessonBuilder token="jwt-token" onBack={vi.fn()} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Edit' }))
+    vi.mocked(global.fetch).mockResolvedValueOnce(jsonResponse({
+      error: 'Invalid lesson activities',
+      validationErrors: [{ field: 'activities[1].phrase', message: 'phrase is too long' }],
+    }, 400))
+    await user.click(screen.getByRole('button', { name: 'Save lesson' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid lesson activities')
+    expect(screen.getByRole('list', { name: 'Problems with activity 2' })).toHaveTextContent('phrase is too long')
+  })
+
+  it('previews an activity with the lesson player', async () => {
+    const user = userEvent.setup()
+    render(<LessonBuilder token="jwt-token" onBack={vi.fn()} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Edit' }))
+    await user.click(screen.getAllByRole('button', { name: 'Preview' })[0])
+
+    const preview = screen.getByRole('dialog', { name: 'Activity preview' })
+    expect(within(preview).getByText('the')).toBeInTheDocument()
+
+    await user.click(within(preview).getByRole('button', { name: 'Next' }))
+    await user.click(within(preview).getByRole('button', { name: 'Done!' }))
+    expect(within(preview).getByText('Activity complete!')).toBeInTheDocument()
+
+    await user.click(within(preview).getByRole('button', { name: 'Close preview' }))
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+  })
+})
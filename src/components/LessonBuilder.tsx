@@ -0,0 +1,704 @@
+import { useState } from 'react'
+import LessonActivity from './LessonActivity'
+import {
+  useLessonLibrary,
+  lessonToDraft,
+  getLessonHold,
+  LessonSaveError,
+  type LessonDraft,
+  type LessonFieldError,
+  type SavedLesson,
+} from '../hooks/useLessonLibrary'
+import { validateLessonActivities } from '../../server/services/lessonValidation'
+import { ActivityType, LessonSubject, type LessonActivity as Activity } from '../types/lesson'
+import './LessonBuilder.css'
+
+interface LessonBuilderProps {
+  token: string | null
+  onBack: () => void
+}
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  reading: 'Reading',
+  spelling: 'Spelling',
+  phonics: 'Phonics sound',
+  'sight-words': 'Sight words',
+  quiz: 'Quiz question',
+  matching: 'Matching pairs',
+  'fill-in-blank': 'Fill in the blank',
+  'listen-repeat': 'Listen and repeat',
+  'word-building': 'Word building',
+}
+
+const SUBJECT_LABELS: Record<LessonSubject, string> = {
+  phonics: 'Phonics',
+  spelling: 'Spelling',
+  'sight-words': 'Sight words',
+  reading: 'Reading',
+  'word-families': 'Word families',
+  vocabulary: 'Vocabulary',
+  comprehension: 'Comprehension',
+}
+
+const DIFFICULTY_LABELS: Record<LessonDraft['difficulty'], string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Tricky',
+}
+
+function newActivityId(type: ActivityType): string {
+  return `${type}-${crypto.randomUUID().slice(0, 8)}`
+}
+
+/**
+ * A blank activity of the given type for the parent to fill in
+ */
+function createActivity(type: ActivityType, order: number): Activity {
+  const base = { id: newActivityId(type), order, points: 10 }
+  switch (type) {
+    case 'reading':
+      return { ...base, type, instructions: 'Read along with me!', content: '', readAloud: true }
+    case 'spelling':
+      return { ...base, type, instructions: 'Spell the word!', word: '' }
+    case 'phonics':
+      return { ...base, type, instructions: 'Listen to the sound.', sound: '', exampleWords: [], soundPosition: 'beginning' }
+    case 'sight-words':
+      return { ...base, type, instructions: 'Read each word.', words: [] }
+    case 'quiz':
+      return { ...base, type, instructions: 'Pick the right answer.', question: '', options: [], correctIndex: 0 }
+    case 'matching':
+      return { ...base, type, instructions: 'Match the pairs.', pairs: [], matchType: 'word-word' }
+    case 'fill-in-blank':
+      return { ...base, type, instructions: 'Fill in the missing word.', sentence: '', answer: '' }
+    case 'listen-repeat':
+      return { ...base, type, instructions: 'Listen, then say it with me.', phrase: '', checkPronunciation: true }
+    case 'word-building':
+      return { ...base, type, instructions: 'Build new words!', pattern: '', onsets: [], words: [] }
+  }
+}
+
+function emptyDraft(): LessonDraft {
+  return {
+    title: '',
+    description: '',
+    subject: LessonSubject.PHONICS,
+    difficulty: 'easy',
+    durationMinutes: 10,
+    objectives: [],
+    activities: [],
+    visibility: 'private',
+  }
+}
+
+function parseList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item, i) => item === b[i])
+}
+
+/**
+ * Comma-separated text input for a list of words. Keeps the raw text while
+ * typing and only resets it when the list is changed from outside.
+ */
+function ListField({ label, values, onChange, placeholder }: {
+  label: string
+  values: string[]
+  onChange: (values: string[]) => void
+  placeholder?: string
+}) {
+  const [text, setText] = useState(() => values.join(', '))
+  const [syncedValues, setSyncedValues] = useState(values)
+
+  if (values !== syncedValues) {
+    setSyncedValues(values)
+    if (!sameList(parseList(text), values)) {
+      setText(values.join(', '))
+    }
+  }
+
+  return (
+    <label className="builder-field">
+      <span className="builder-label">{label}</span>
+      <input
+        type="text"
+        value={text}
+        placeholder={placeholder}
+        onChange={(e) => {
+          setText(e.target.value)
+          onChange(parseList(e.target.value))
+        }}
+      />
+    </label>
+  )
+}
+
+function parsePairs(text: string): [string, string][] {
+  return text
+    .split('\n')
+    .map(line => line.split('=').map(part => part.trim()))
+    .filter(parts => parts.some(Boolean))
+    .map(([left = '', right = '']) => [left, right])
+}
+
+function formatPairs(pairs: [string, string][]): string {
+  return pairs.map(([left, right]) => `${left} = ${right}`).join('\n')
+}
+
+/**
+ * One "left = right" pair per line
+ */
+function PairsField({ pairs, onChange }: {
+  pairs: [string, string][]
+  onChange: (pairs: [string, string][]) => void
+}) {
+  const [text, setText] = useState(() => formatPairs(pairs))
+
+  return (
+    <label className="builder-field">
+      <span className="builder-label">Pairs (one per line, like cat = hat)</span>
+      <textarea
+        rows={4}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value)
+          onChange(parsePairs(e.target.value))
+        }}
+      />
+    </label>
+  )
+}
+
+function TextField({ label, value, onChange, placeholder, multiline }: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  multiline?: boolean
+}) {
+  return (
+    <label className="builder-field">
+      <span className="builder-label">{label}</span>
+      {multiline ? (
+        <textarea rows={3} value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} />
+      ) : (
+        <input type="text" value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} />
+      )}
+    </label>
+  )
+}
+
+function CheckboxField({ label, checked, onChange }: {
+  label: string
+  checked: boolean
+  onChange: (checked: boolean) => void
+}) {
+  return (
+    <label className="builder-checkbox">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+      {label}
+    </label>
+  )
+}
+
+/**
+ * Inputs for the fields specific to each activity type
+ */
+function ActivityFields({ activity, onChange }: {
+  activity: Activity
+  onChange: (activity: Activity) => void
+}) {
+  const update = (patch: Record<string, unknown>) => onChange({ ...activity, ...patch } as Activity)
+
+  switch (activity.type) {
+    case 'reading':
+      return (
+        <>
+          <TextField label="Text to read" value={activity.content} multiline onChange={(content) => update({ content })} />
+          <CheckboxField label="Read it aloud" checked={activity.readAloud ?? false} onChange={(readAloud) => update({ readAloud })} />
+        </>
+      )
+
+    case 'spelling':
+      return (
+        <>
+          <TextField label="Word to spell" value={activity.word} onChange={(word) => update({ word })} />
+          <TextField label="Hint (emoji or picture)" value={activity.hint ?? ''} onChange={(hint) => update({ hint: hint || undefined })} />
+        </>
+      )
+
+    case 'phonics':
+      return (
+        <>
+          <TextField label="Sound" value={activity.sound} placeholder="sh" onChange={(sound) => update({ sound })} />
+          <ListField label="Example words" values={activity.exampleWords} placeholder="ship, fish, shop" onChange={(exampleWords) => update({ exampleWords })} />
+          <label className="builder-field">
+            <span className="builder-label">Where is the sound?</span>
+            <select value={activity.soundPosition ?? 'any'} onChange={(e) => update({ soundPosition: e.target.value })}>
+              <option value="beginning">Beginning</option>
+              <option value="middle">Middle</option>
+              <option value="end">End</option>
+              <option value="any">Anywhere</option>
+            </select>
+          </label>
+        </>
+      )
+
+    case 'sight-words':
+      return (
+        <>
+          <ListField label="Words" values={activity.words} placeholder="the, and, is" onChange={(words) => update({ words })} />
+          <CheckboxField label="Show words in sentences" checked={activity.showInContext ?? false} onChange={(showInContext) => update({ showInContext })} />
+        </>
+      )
+
+    case 'quiz':
+      return (
+        <>
+          <TextField label="Question" value={activity.question} onChange={(question) => update({ question })} />
+          <ListField label="Answer choices" values={activity.options} placeholder="cat, dog, sun" onChange={(options) => update({ options })} />
+          <label className="builder-field">
+            <span className="builder-label">Correct answer</span>
+            <select
+              value={activity.correctIndex}
+              onChange={(e) => update({ correctIndex: Number(e.target.value) })}
+              disabled={activity.options.length === 0}
+            >
+              {activity.options.map((option, index) => (
+                <option key={index} value={index}>{option}</option>
+              ))}
+            </select>
+          </label>
+          <TextField label="Explanation (optional)" value={activity.explanation ?? ''} onChange={(explanation) => update({ explanation: explanation || undefined })} />
+        </>
+      )
+
+    case 'matching':
+      return (
+        <>
+          <label className="builder-field">
+            <span className="builder-label">Match type</span>
+            <select value={activity.matchType} onChange={(e) => update({ matchType: e.target.value })}>
+              <option value="word-word">Word to word</option>
+              <option value="rhyme">Rhymes</option>
+              <option value="word-picture">Word to picture</option>
+              <option value="word-definition">Word to meaning</option>
+            </select>
+          </label>
+          <PairsField pairs={activity.pairs} onChange={(pairs) => update({ pairs })} />
+        </>
+      )
+
+    case 'fill-in-blank':
+      return (
+        <>
+          <TextField label="Sentence (use ___ for the blank)" value={activity.sentence} placeholder="The ___ sat on the mat." onChange={(sentence) => update({ sentence })} />
+          <TextField label="Answer" value={activity.answer} onChange={(answer) => update({ answer })} />
+          <ListField
+            label="Word bank (optional)"
+            values={activity.wordBank ?? []}
+            onChange={(wordBank) => update({ wordBank: wordBank.length > 0 ? wordBank : undefined })}
+          />
+        </>
+      )
+
+    case 'listen-repeat':
+      return (
+        <>
+          <TextField label="Word or phrase" value={activity.phrase} onChange={(phrase) => update({ phrase })} />
+          <CheckboxField label="Check pronunciation" checked={activity.checkPronunciation ?? false} onChange={(checkPronunciation) => update({ checkPronunciation })} />
+        </>
+      )
+
+    case 'word-building': {
+      const pattern = activity.pattern.replace(/^-/, '')
+      return (
+        <>
+          <TextField label="Word family" value={activity.pattern} placeholder="at" onChange={(value) => update({ pattern: value })} />
+          <ListField label="Beginning sounds" values={activity.onsets} placeholder="c, b, h" onChange={(onsets) => update({ onsets })} />
+          <ListField label="Words made" values={activity.words} placeholder="cat, bat, hat" onChange={(words) => update({ words })} />
+          <button
+            type="button"
+            className="builder-secondary-btn"
+            disabled={!pattern || activity.onsets.length === 0}
+            onClick={() => update({ words: activity.onsets.map(onset => onset + pattern) })}
+          >
+            Fill in words
+          </button>
+        </>
+      )
+    }
+  }
+}
+
+function ActivityEditor({ activity, index, count, errors, onChange, onMove, onRemove, onPreview }: {
+  activity: Activity
+  index: number
+  count: number
+  errors: LessonFieldError[]
+  onChange: (activity: Activity) => void
+  onMove: (direction: -1 | 1) => void
+  onRemove: () => void
+  onPreview: () => void
+}) {
+  const position = index + 1
+
+  return (
+    <li className={`builder-activity ${errors.length > 0 ? 'has-errors' : ''}`}>
+      <div className="builder-activity-header">
+        <span className="builder-activity-title">
+          {position}. {ACTIVITY_LABELS[activity.type]}
+        </span>
+        <div className="builder-activity-actions">
+          <button type="button" onClick={() => onMove(-1)} disabled={index === 0} aria-label={`Move activity ${position} up`}>
+            &uarr;
+          </button>
+          <button type="button" onClick={() => onMove(1)} disabled={index === count - 1} aria-label={`Move activity ${position} down`}>
+            &darr;
+          </button>
+          <button type="button" onClick={onPreview} disabled={errors.length > 0}>
+            Preview
+          </button>
+          <button type="button" className="builder-remove-btn" onClick={onRemove} aria-label={`Remove activity ${position}`}>
+            Remove
+          </button>
+        </div>
+      </div>
+
+      <TextField label="Instructions" value={activity.instructions} onChange={(instructions) => onChange({ ...activity, instructions })} />
+      <ActivityFields activity={activity} onChange={onChange} />
+
+      {errors.length > 0 && (
+        <ul className="builder-errors" aria-label={`Problems with activity ${position}`}>
+          {errors.map((error) => (
+            <li key={`${error.field}:${error.message}`}>{error.message}</li>
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+function LessonEditor({ initialDraft, onSave, onCancel }: {
+  initialDraft: LessonDraft
+  onSave: (draft: LessonDraft) => Promise<void>
+  onCancel: () => void
+}) {
+  const [draft, setDraft] = useState(initialDraft)
+  const [newActivityType, setNewActivityType] = useState<ActivityType>(ActivityType.READING)
+  const [previewId, setPreviewId] = useState<string | null>(null)
+  const [previewDone, setPreviewDone] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [serverErrors, setServerErrors] = useState<LessonFieldError[]>([])
+  const [showErrors, setShowErrors] = useState(false)
+
+  const validationErrors = validateLessonActivities(draft.activities)
+  const titleMissing = !draft.title.trim()
+  const activityErrors = (index: number) => {
+    // Live checks stay quiet until the first save attempt; server errors always show
+    const prefix = `activities[${index}]`
+    const errors = [...validationErrors, ...serverErrors].filter(e => e.field === prefix || e.field.startsWith(`${prefix}.`))
+    return showErrors ? errors : errors.filter(e => serverErrors.includes(e))
+  }
+
+  const previewActivity = draft.activities.find(a => a.id === previewId)
+
+  const update = (patch: Partial<LessonDraft>) => setDraft(prev => ({ ...prev, ...patch }))
+
+  const updateActivity = (index: number, activity: Activity) => {
+    setServerErrors([])
+    update({ activities: draft.activities.map((a, i) => (i === index ? activity : a)) })
+  }
+
+  const moveActivity = (index: number, direction: -1 | 1) => {
+    const activities = [...draft.activities]
+    const [moved] = activities.splice(index, 1)
+    activities.splice(index + direction, 0, moved)
+    setServerErrors([])
+    update({ activities: activities.map((a, order) => ({ ...a, order })) })
+  }
+
+  const removeActivity = (index: number) => {
+    setServerErrors([])
+    update({ activities: draft.activities.filter((_, i) => i !== index).map((a, order) => ({ ...a, order })) })
+  }
+
+  const addActivity = () => {
+    update({ activities: [...draft.activities, createActivity(newActivityType, draft.activities.length)] })
+  }
+
+  const openPreview = (activityId: string) => {
+    setPreviewDone(false)
+    setPreviewId(activityId)
+  }
+
+  const handleSave = async () => {
+    setShowErrors(true)
+    setSaveError(null)
+    if (titleMissing || validationErrors.length > 0) {
+      setSaveError('Please fix the problems highlighted below')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await onSave(draft)
+    } catch (err) {
+      if (err instanceof LessonSaveError) {
+        setServerErrors(err.validationErrors)
+      }
+      setSaveError(err instanceof Error ? err.message : 'Could not save lesson')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="lesson-editor">
+      <section className="builder-section" aria-labelledby="lesson-details-heading">
+        <h3 id="lesson-details-heading">Lesson details</h3>
+        <TextField label="Title" value={draft.title} onChange={(title) => update({ title })} />
+        {showErrors && titleMissing && <p className="builder-field-error">Give your lesson a title</p>}
+        <TextField label="Description" value={draft.description} multiline onChange={(description) => update({ description })} />
+
+        <div className="builder-row">
+          <label className="builder-field">
+            <span className="builder-label">Subject</span>
+            <select value={draft.subject} onChange={(e) => update({ subject: e.target.value as LessonSubject })}>
+              {Object.entries(SUBJECT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="builder-field">
+            <span className="builder-label">Difficulty</span>
+            <select value={draft.difficulty} onChange={(e) => update({ difficulty: e.target.value as LessonDraft['difficulty'] })}>
+              {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="builder-field">
+            <span className="builder-label">Minutes</span>
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={draft.durationMinutes}
+              onChange={(e) => update({ durationMinutes: Math.max(1, Number(e.target.value) || 1) })}
+            />
+          </label>
+        </div>
+
+        <ListField
+          label="Goals (comma separated)"
+          values={draft.objectives}
+          placeholder="Read -at words, Hear the /a/ sound"
+          onChange={(objectives) => update({ objectives })}
+        />
+        <CheckboxField
+          label="Share with other families"
+          checked={draft.visibility === 'public'}
+          onChange={(shared) => update({ visibility: shared ? 'public' : 'private' })}
+        />
+      </section>
+
+      <section className="builder-section" aria-labelledby="lesson-activities-heading">
+        <h3 id="lesson-activities-heading">Activities</h3>
+        {draft.activities.length === 0 && (
+          <p className="builder-empty">No activities yet. Add one below.</p>
+        )}
+        <ol className="builder-activity-list">
+          {draft.activities.map((activity, index) => (
+            <ActivityEditor
+              key={activity.id}
+              activity={activity}
+              index={index}
+              count={draft.activities.length}
+              errors={activityErrors(index)}
+              onChange={(updated) => updateActivity(index, updated)}
+              onMove={(direction) => moveActivity(index, direction)}
+              onRemove={() => removeActivity(index)}
+              onPreview={() => openPreview(activity.id)}
+            />
+          ))}
+        </ol>
+
+        <div className="builder-add-activity">
+          <label className="builder-field">
+            <span className="builder-label">New activity</span>
+            <select value={newActivityType} onChange={(e) => setNewActivityType(e.target.value as ActivityType)}>
+              {Object.entries(ACTIVITY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <button type="button" className="builder-secondary-btn" onClick={addActivity}>
+            Add activity
+          </button>
+        </div>
+      </section>
+
+      {saveError && <p className="builder-save-error" role="alert">{saveError}</p>}
+
+      <div className="builder-footer">
+        <button type="button" className="builder-secondary-btn" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="button" className="builder-primary-btn" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save lesson'}
+        </button>
+      </div>
+
+      {previewActivity && (
+        <div className="builder-preview" role="dialog" aria-modal="true" aria-label="Activity preview">
+          <div className="builder-preview-content">
+            <button type="button" className="builder-preview-close" onClick={() => setPreviewId(null)}>
+              Close preview
+            </button>
+            {previewDone ? (
+              <p className="builder-preview-done">Activity complete!</p>
+            ) : (
+              <LessonActivity activity={previewActivity} onComplete={() => setPreviewDone(true)} />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function LessonList({ lessons, isLoading, error, onEdit, onCreate, onDelete }: {
+  lessons: SavedLesson[] | null
+  isLoading: boolean
+  error: string | null
+  onEdit: (lesson: SavedLesson) => void
+  onCreate: () => void
+  onDelete: (lesson: SavedLesson) => void
+}) {
+  return (
+    <div className="lesson-builder-list">
+      <button type="button" className="builder-primary-btn" onClick={onCreate}>
+        + New lesson
+      </button>
+
+      {isLoading && <p className="builder-status">Loading your lessons...</p>}
+      {error && <p className="builder-status error" role="alert">{error}</p>}
+      {lessons && lessons.length === 0 && (
+        <p className="builder-status">You haven't made any lessons yet.</p>
+      )}
+
+      {lessons && lessons.length > 0 && (
+        <ul className="builder-lessons">
+          {lessons.map((lesson) => (
+            <li key={lesson.id} className="builder-lesson">
+              <div>
+                <span className="builder-lesson-title">{lesson.title}</span>
+                <span className="builder-lesson-meta">
+                  {(lesson.activities ?? []).length} activities &middot; {lesson.visibility === 'public' ? 'Shared' : 'Just our family'}
+                </span>
+                <LessonHoldNotice lesson={lesson} />
+              </div>
+              <div className="builder-lesson-actions">
+                <button type="button" className="builder-secondary-btn" onClick={() => onEdit(lesson)}>
+                  Edit
+                </button>
+                <button type="button" className="builder-remove-btn" onClick={() => onDelete(lesson)} aria-label={`Delete ${lesson.title}`}>
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Why a lesson is hidden from children while it waits for (or failed) review
+ */
+function LessonHoldNotice({ lesson }: { lesson: SavedLesson }) {
+  const hold = getLessonHold(lesson)
+  if (!hold) return null
+
+  return (
+    <div className={`builder-lesson-hold builder-lesson-hold-${hold.status}`}>
+      <span className="builder-lesson-hold-title">
+        {hold.status === 'pending' ? 'Waiting for review' : 'Not approved'}
+      </span>
+      <ul>
+        {hold.reasons.map(reason => <li key={reason}>{reason}</li>)}
+        {hold.note && <li>Reviewer: {hold.note}</li>}
+      </ul>
+    </div>
+  )
+}
+
+/**
+ * Parent-facing editor for the family's own lessons
+ */
+export default function LessonBuilder({ token, onBack }: LessonBuilderProps) {
+  const { lessons, isLoading, error, saveLesson, deleteLesson } = useLessonLibrary(token)
+  const [editing, setEditing] = useState<LessonDraft | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleSave = async (draft: LessonDraft) => {
+    const saved = await saveLesson(draft)
+    setEditing(null)
+    setNotice(getLessonHold(saved)
+      ? `Saved "${saved.title}". It needs a review before children can see it.`
+      : `Saved "${saved.title}"`)
+  }
+
+  const handleDelete = async (lesson: SavedLesson) => {
+    if (!window.confirm(`Delete "${lesson.title}"? This can't be undone.`)) return
+    try {
+      await deleteLesson(lesson.id)
+      setNotice(`Deleted "${lesson.title}"`)
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Could not delete lesson')
+    }
+  }
+
+  return (
+    <div className="lesson-builder">
+      <header className="lesson-builder-header">
+        <button className="lesson-builder-back" type="button" onClick={editing ? () => setEditing(null) : onBack}>
+          &larr; Back
+        </button>
+        <h2 className="lesson-builder-title">
+          {editing ? (editing.id ? 'Edit lesson' : 'New lesson') : 'Our lessons'}
+        </h2>
+      </header>
+
+      {notice && !editing && <p className="builder-notice" role="status">{notice}</p>}
+
+      {editing ? (
+        <LessonEditor
+          key={editing.id ?? 'new'}
+          initialDraft={editing}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <LessonList
+          lessons={lessons}
+          isLoading={isLoading}
+          error={error}
+          onCreate={() => {
+            setNotice(null)
+            setEditing(emptyDraft())
+          }}
+          onEdit={(lesson) => {
+            setNotice(null)
+            setEditing(lessonToDraft(lesson))
+          }}
+          onDelete={handleDelete}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,3 +1,4 @@
+import type { LessonAvailability } from '../types/lesson'
 import './LessonCard.css'
 
 export interface Lesson {
@@ -9,6 +10,10 @@ export interface Lesson {
   duration_minutes: number | null
   content: unknown | null
   objectives: string[] | null
+  tags?: string[] | null
+  prerequisites?: string[] | null
+  /** Only present when lessons are listed for a child */
+  availability?: LessonAvailability
 }
 
 export type LessonProgressStatus = 'not-started' | 'in-progress' | 'completed'
@@ -87,19 +92,22 @@ export default function LessonCard({ lesson, progress, onSelect }: LessonCardPro
   const ageLabel = getGradeLevelLabel(lesson.grade_level)
   const progressStatus = progress?.status || 'not-started'
   const progressConfig = PROGRESS_CONFIG[progressStatus]
+  const locked = lesson.availability === 'locked'
 
   const handleSelect = () => {
     onSelect(lesson)
   }
 
-  const buttonText = progressStatus === 'completed'
+  const buttonText = locked
+    ? '🔒 Locked'
+    : progressStatus === 'completed'
     ? 'Play Again!'
     : progressStatus === 'in-progress'
     ? 'Continue!'
     : "Let's Go!"
 
   return (
-    <article className={`lesson-card ${progressStatus === 'completed' ? 'lesson-card-completed' : ''}`}>
+    <article className={`lesson-card ${progressStatus === 'completed' ? 'lesson-card-completed' : ''} ${locked ? 'lesson-card-locked' : ''}`}>
       {/* Progress indicator */}
       <div
         className="lesson-progress-indicator"
@@ -146,7 +154,8 @@ export default function LessonCard({ lesson, progress, onSelect }: LessonCardPro
         type="button"
         className={`lesson-select-button ${progressStatus === 'in-progress' ? 'lesson-select-button-continue' : ''}`}
         onClick={handleSelect}
-        aria-label={`${buttonText} ${lesson.title}`}
+        disabled={locked}
+        aria-label={locked ? `${lesson.title} is locked` : `${buttonText} ${lesson.title}`}
       >
         {buttonText}
       </button>
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import LessonPlayer from './LessonPlayer'
+import type { Lesson } from '../types/lesson'
+import '@testing-library/jest-dom'
+
+vi.mock('../hooks/useVoice', () => ({
+  useVoice: () => ({
+    speak: vi.fn().mockResolvedValue(undefined),
+    isSpeaking: false,
+  }),
+}))
+
+const lesson: Lesson = {
+  id: 'lesson-1',
+  title: 'Short a',
+  description: 'Words with a',
+  subject: 'phonics',
+  difficulty: 'beginner',
+  objectives: ['Hear the short a sound'],
+  durationMinutes: 5,
+  createdAt: '2026-01-01',
+  updatedAt: '2026-01-01',
+  activities: [
+    { id: 'spell-cat', type: 'spelling', order: 0, instructions: 'Spell the word', word: 'cat' },
+    { id: 'quiz', type: 'quiz', order: 1, instructions: 'Pick one', question: 'Which is a pet?', options: ['cat', 'sun'], correctIndex: 0 },
+    { id: 'wrap-up', type: 'reading', order: 2, instructions: 'Read it', content: 'The cat sat.' },
+  ],
+  branching: {
+    remediation: [{
+      activityId: 'quiz',
+      remedial: { id: 'short-a', type: 'phonics', order: 0, instructions: 'Listen to the a sound', sound: 'a', exampleWords: ['cat'] },
+    }],
+  },
+}
+
+describe('LessonPlayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  async function startLesson(props: Partial<Parameters<typeof LessonPlayer>[0]> = {}) {
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+    const handlers = { onComplete: vi.fn(), onActivityProgress: vi.fn(), onExit: vi.fn() }
+    render(<LessonPlayer lesson={lesson} {...handlers} {...props} />)
+    await user.click(screen.getByRole('button', { name: 'Start Lesson' }))
+    return { user, ...handlers }
+  }
+
+  it('records the real number of spelling attempts', async () => {
+    const { user, onActivityProgress } = await startLesson()
+
+    await user.type(screen.getByPlaceholderText('Type the word...'), 'kat')
+    await user.click(screen.getByRole('button', { name: 'Check Spelling' }))
+    await user.type(screen.getByPlaceholderText('Type the word...'), 'cat')
+    await user.click(screen.getByRole('button', { name: 'Check Spelling' }))
+
+    expect(onActivityProgress).toHaveBeenCalledWith(
+      expect.objectContaining({ activityId: 'spell-cat', completed: true, score: 100, attempts: 2 }),
+      1
+    )
+  })
+
+  it('inserts the remedial activity after a quiz is missed twice', async () => {
+    const { user, onActivityProgress } = await startLesson({ initialActivityIndex: 1 })
+
+    await user.click(screen.getByRole('button', { name: 'sun' }))
+    act(() => {
+      vi.advanceTimersByTime(2000)
+    })
+    expect(screen.getByText('Which is a pet?')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'sun' }))
+    act(() => {
+      vi.advanceTimersByTime(2000)
+    })
+    expect(screen.getByText('Listen to the a sound')).toBeInTheDocument()
+    expect(onActivityProgress).not.toHaveBeenCalled()
+
+    await user.click(screen.getByRole('button', { name: 'Done!' }))
+    act(() => {
+      vi.advanceTimersByTime(500)
+    })
+    await user.click(screen.getByRole('button', { name: 'cat' }))
+    act(() => {
+      vi.advanceTimersByTime(2000)
+    })
+
+    expect(onActivityProgress).toHaveBeenCalledTimes(1)
+    expect(onActivityProgress).toHaveBeenCalledWith(
+      expect.objectContaining({ activityId: 'quiz', score: 100, attempts: 3 }),
+      2
+    )
+    expect(document.querySelector('.spoken-passage')).toHaveTextContent(/^The cat sat\.$/)
+  })
+})
@@ -1,7 +1,8 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { useVoice } from '../hooks/useVoice'
 import LessonProgress from './LessonProgress'
 import LessonActivity from './LessonActivity'
+import { createBranchingState, applyStepResult, getAttempts, getMaxAttempts, getResumeIndex } from '../lessons/branching'
 import type { Lesson, ActivityProgress } from '../types/lesson'
 import './LessonPlayer.css'
 
@@ -9,6 +10,8 @@ interface LessonPlayerProps {
   lesson: Lesson
   initialActivityIndex?: number
   onComplete: (progress: { overallScore: number; activityProgress: ActivityProgress[] }) => void
+  /** Called as each activity is finished or skipped, with the index to resume from */
+  onActivityProgress?: (progress: ActivityProgress, nextActivityIndex: number) => void
   onExit: () => void
 }
 
@@ -16,16 +19,25 @@ export default function LessonPlayer({
   lesson,
   initialActivityIndex = 0,
   onComplete,
+  onActivityProgress,
   onExit,
 }: LessonPlayerProps) {
   const { speak } = useVoice()
-  const [currentIndex, setCurrentIndex] = useState(initialActivityIndex)
+  // Steps can be added or dropped by the lesson's branching rules as the child plays
+  const [branchingState, setBranchingState] = useState(() => createBranchingState(lesson.activities, initialActivityIndex))
+  const [position, setPosition] = useState(0)
   const [activityProgress, setActivityProgress] = useState<ActivityProgress[]>([])
   const [showObjectives, setShowObjectives] = useState(true)
-  const [lessonStartTime] = useState(Date.now())
+  const activityStartRef = useRef(0)
 
-  const currentActivity = lesson.activities[currentIndex]
-  const isLastActivity = currentIndex === lesson.activities.length - 1
+  const { steps } = branchingState
+  const currentStep = steps[position]
+  const currentActivity = currentStep?.activity
+
+  // Time each activity from when it is shown
+  useEffect(() => {
+    activityStartRef.current = Date.now()
+  }, [currentStep?.key, showObjectives])
 
   // Start with objectives screen
   useEffect(() => {
@@ -36,46 +48,56 @@ export default function LessonPlayer({
 
   const handleStartLesson = () => {
     setShowObjectives(false)
-    speak(lesson.activities[0]?.instructions || 'Let\'s begin!')
+    speak(currentActivity?.instructions || 'Let\'s begin!')
   }
 
-  const handleActivityComplete = useCallback((score?: number) => {
-    const progress: ActivityProgress = {
-      activityId: currentActivity.id,
-      completed: true,
-      score: score ?? 100,
-      attempts: 1,
-      timeSpentSeconds: Math.round((Date.now() - lessonStartTime) / 1000),
-      completedAt: new Date().toISOString(),
-    }
-
-    setActivityProgress(prev => [...prev, progress])
-
-    if (isLastActivity) {
-      // Calculate overall score
-      const allProgress = [...activityProgress, progress]
-      const totalScore = allProgress.reduce((sum, p) => sum + (p.score || 0), 0)
-      const overallScore = Math.round(totalScore / allProgress.length)
+  const finishLesson = useCallback((allProgress: ActivityProgress[], delayMs: number) => {
+    const completedActivities = allProgress.filter(p => p.completed)
+    const overallScore = completedActivities.length > 0
+      ? Math.round(completedActivities.reduce((sum, p) => sum + (p.score || 0), 0) / completedActivities.length)
+      : 0
 
+    const complete = () => onComplete({ overallScore, activityProgress: allProgress })
+    if (delayMs > 0) {
       speak('Great job! You finished the lesson!')
+      setTimeout(complete, delayMs)
+    } else {
+      complete()
+    }
+  }, [onComplete, speak])
 
-      setTimeout(() => {
-        onComplete({
-          overallScore,
-          activityProgress: allProgress,
-        })
-      }, 2000)
+  const handleActivityComplete = useCallback((score?: number, attempts?: number) => {
+    const { state, finished } = applyStepResult(branchingState, lesson.branching, position, {
+      score: score ?? 100,
+      attempts: attempts ?? 1,
+      timeSpentSeconds: Math.round((Date.now() - activityStartRef.current) / 1000),
+    })
+    setBranchingState(state)
+
+    let allProgress = activityProgress
+    if (finished) {
+      const progress: ActivityProgress = {
+        ...finished,
+        completed: true,
+        completedAt: new Date().toISOString(),
+      }
+      allProgress = [...activityProgress, progress]
+      setActivityProgress(allProgress)
+      onActivityProgress?.(progress, getResumeIndex(state, position, lesson.activities.length))
+    }
+
+    if (position === state.steps.length - 1) {
+      finishLesson(allProgress, 2000)
     } else {
-      // Move to next activity
       setTimeout(() => {
-        setCurrentIndex(prev => prev + 1)
+        setPosition(prev => prev + 1)
       }, 500)
     }
-  }, [currentActivity, isLastActivity, activityProgress, lessonStartTime, onComplete, speak])
+  }, [branchingState, lesson, position, activityProgress, onActivityProgress, finishLesson])
 
   const handlePrevious = () => {
-    if (currentIndex > 0) {
-      setCurrentIndex(prev => prev - 1)
+    if (position > 0) {
+      setPosition(prev => prev - 1)
     }
   }
 
@@ -84,24 +106,20 @@ export default function LessonPlayer({
       activityId: currentActivity.id,
       completed: false,
       score: 0,
-      attempts: 0,
+      attempts: getAttempts(branchingState, currentActivity.id),
       timeSpentSeconds: 0,
     }
-    setActivityProgress(prev => [...prev, progress])
-
-    if (isLastActivity) {
-      const allProgress = [...activityProgress, progress]
-      const completedActivities = allProgress.filter(p => p.completed)
-      const overallScore = completedActivities.length > 0
-        ? Math.round(completedActivities.reduce((sum, p) => sum + (p.score || 0), 0) / completedActivities.length)
-        : 0
-
-      onComplete({
-        overallScore,
-        activityProgress: allProgress,
-      })
+    // Skipping a remedial step just moves on to the retry
+    const allProgress = currentStep.remedialFor ? activityProgress : [...activityProgress, progress]
+    if (!currentStep.remedialFor) {
+      setActivityProgress(allProgress)
+      onActivityProgress?.(progress, getResumeIndex(branchingState, position, lesson.activities.length))
+    }
+
+    if (position === steps.length - 1) {
+      finishLesson(allProgress, 0)
     } else {
-      setCurrentIndex(prev => prev + 1)
+      setPosition(prev => prev + 1)
     }
   }
 
@@ -124,7 +142,7 @@ export default function LessonPlayer({
           </div>
           <div className="lesson-meta-info">
             <span className="meta-item">
-              {lesson.activities.length} activities
+              {steps.length} activities
             </span>
             <span className="meta-item">
               ~{lesson.durationMinutes} minutes
@@ -154,17 +172,18 @@ export default function LessonPlayer({
   return (
     <div className="lesson-player">
       <LessonProgress
-        currentIndex={currentIndex}
-        totalActivities={lesson.activities.length}
+        currentIndex={position}
+        totalActivities={steps.length}
         lessonTitle={lesson.title}
         onExit={onExit}
       />
 
       <div className="lesson-activity-container">
         <LessonActivity
-          key={currentActivity.id}
+          key={currentStep.key}
           activity={currentActivity}
           onComplete={handleActivityComplete}
+          maxAttempts={getMaxAttempts(lesson.branching, currentActivity.id)}
         />
       </div>
 
@@ -173,7 +192,7 @@ export default function LessonPlayer({
           type="button"
           className="nav-button"
           onClick={handlePrevious}
-          disabled={currentIndex === 0}
+          disabled={position === 0}
           aria-label="Previous activity"
         >
           Back
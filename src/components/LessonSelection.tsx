@@ -2,7 +2,10 @@ import { useState, useEffect, useRef, useCallback } from 'react'
 import LessonCard from './LessonCard'
 import type { Lesson, LessonProgress, LessonProgressStatus } from './LessonCard'
 import LessonFilters from './LessonFilters'
+import LearningPath from './LearningPath'
 import type { FilterState } from './LessonFilters'
+import { getAuthHeaders } from '../hooks/useAuth'
+import { getCached, setCache } from '../lessons/cache'
 import './LessonSelection.css'
 
 interface ChildData {
@@ -28,29 +31,6 @@ interface ProgressRecord {
   current_activity_index: number
 }
 
-// Simple cache for API results
-interface CacheEntry<T> {
-  data: T
-  timestamp: number
-}
-
-const cache = new Map<string, CacheEntry<unknown>>()
-const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
-
-function getCached<T>(key: string): T | null {
-  const entry = cache.get(key)
-  if (!entry) return null
-  if (Date.now() - entry.timestamp > CACHE_TTL) {
-    cache.delete(key)
-    return null
-  }
-  return entry.data as T
-}
-
-function setCache<T>(key: string, data: T): void {
-  cache.set(key, { data, timestamp: Date.now() })
-}
-
 // Build query string from filters
 function buildQueryParams(filters: FilterState): string {
   const params = new URLSearchParams()
@@ -87,6 +67,7 @@ export default function LessonSelection({ childData, childId, onSelectLesson, on
   const [recommendedLessons, setRecommendedLessons] = useState<Lesson[]>([])
   const [subjects, setSubjects] = useState<string[]>([])
   const [progressMap, setProgressMap] = useState<Map<string, LessonProgress>>(new Map())
+  const [pathLessons, setPathLessons] = useState<Lesson[]>([])
   const [loading, setLoading] = useState(true)
   const [filterLoading, setFilterLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -132,7 +113,11 @@ export default function LessonSelection({ childData, childId, onSelectLesson, on
       }
       setError(null)
 
-      const response = await fetch(url, { signal: abortControllerRef.current.signal })
+      // Signed-in families also see their own private lessons
+      const response = await fetch(url, {
+        headers: getAuthHeaders(),
+        signal: abortControllerRef.current.signal,
+      })
       if (!response.ok) {
         throw new Error('Failed to load lessons')
       }
@@ -172,7 +157,7 @@ export default function LessonSelection({ childData, childId, onSelectLesson, on
     }
 
     try {
-      const response = await fetch(url)
+      const response = await fetch(url, { headers: getAuthHeaders() })
       if (response.ok) {
         const data = await response.json()
         const lessonsData = data.lessons || []
@@ -194,7 +179,7 @@ export default function LessonSelection({ childData, childId, onSelectLesson, on
     }
 
     try {
-      const response = await fetch('/api/lessons/subjects')
+      const response = await fetch('/api/lessons/subjects', { headers: getAuthHeaders() })
       if (response.ok) {
         const data = await response.json()
         const subjectsData = data.subjects || []
@@ -226,7 +211,9 @@ export default function LessonSelection({ childData, childId, onSelectLesson, on
     }
 
     try {
-      const response = await fetch(`/api/progress/child/${childId}`)
+      const response = await fetch(`/api/progress/child/${childId}`, {
+        headers: getAuthHeaders(),
+      })
       if (response.ok) {
         const data = await response.json()
         const progressData = data.progress || []
@@ -247,13 +234,33 @@ export default function LessonSelection({ childData, childId, onSelectLesson, on
     }
   }, [childId])
 
+  // Fetch every lesson with this child's locked/unlocked/completed state.
+  // Not cached, so a lesson finished a moment ago unlocks the next one.
+  const fetchLearningPath = useCallback(async () => {
+    if (!childId) return
+
+    try {
+      const params = new URLSearchParams({ childId, limit: '100' })
+      const response = await fetch(`/api/lessons?${params.toString()}`, {
+        headers: getAuthHeaders(),
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setPathLessons(data.lessons || [])
+      }
+    } catch {
+      // Silently fail - without the path every lesson stays available
+    }
+  }, [childId])
+
   // Initial data fetch
   useEffect(() => {
     fetchLessons()
     fetchRecommendedLessons()
     fetchSubjects()
     fetchProgress()
-  }, [fetchLessons, fetchRecommendedLessons, fetchSubjects, fetchProgress])
+    fetchLearningPath()
+  }, [fetchLessons, fetchRecommendedLessons, fetchSubjects, fetchProgress, fetchLearningPath])
 
   // Handle filter changes with debounce for search
   useEffect(() => {
@@ -296,6 +303,13 @@ export default function LessonSelection({ childData, childId, onSelectLesson, on
   const allLessons = filteredLessons
   const hasActiveFilters = filters.search || filters.subject || filters.duration || filters.difficulty
 
+  // Lock cards the same way as the learning path
+  const availabilityMap = new Map(pathLessons.map(lesson => [lesson.id, lesson.availability]))
+  const withAvailability = (lesson: Lesson): Lesson => {
+    const availability = availabilityMap.get(lesson.id)
+    return availability ? { ...lesson, availability } : lesson
+  }
+
   return (
     <div className="lesson-selection">
       {/* Header */}
@@ -357,7 +371,7 @@ export default function LessonSelection({ childData, childId, onSelectLesson, on
                   {displayRecommendedLessons.map(lesson => (
                     <LessonCard
                       key={lesson.id}
-                      lesson={lesson}
+                      lesson={withAvailability(lesson)}
                       progress={progressMap.get(lesson.id)}
                       onSelect={onSelectLesson}
                     />
@@ -366,6 +380,17 @@ export default function LessonSelection({ childData, childId, onSelectLesson, on
               </section>
             )}
 
+            {/* Learning path section */}
+            {pathLessons.length > 0 && !hasActiveFilters && (
+              <section className="lesson-section">
+                <h2 className="section-title">
+                  <span className="section-icon">🗺️</span>
+                  Your learning path
+                </h2>
+                <LearningPath lessons={pathLessons} onSelect={onSelectLesson} />
+              </section>
+            )}
+
             {/* Browse all section */}
             <section className="lesson-section">
               <h2 className="section-title">
@@ -396,7 +421,7 @@ export default function LessonSelection({ childData, childId, onSelectLesson, on
                   {allLessons.map(lesson => (
                     <LessonCard
                       key={lesson.id}
-                      lesson={lesson}
+                      lesson={withAvailability(lesson)}
                       progress={progressMap.get(lesson.id)}
                       onSelect={onSelectLesson}
                     />
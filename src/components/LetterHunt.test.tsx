@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, act, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import LetterHunt, { NEXT_LETTER_DELAY_MS } from './LetterHunt'
+import { HUNT_LENGTH } from '../game-data/letter-hunt'
+import '@testing-library/jest-dom'
+
+const mockSpeak = vi.fn()
+
+vi.mock('../hooks/useVoice', () => ({
+  useVoice: () => ({
+    speak: mockSpeak,
+    settings: { enabled: true, encouragementEnabled: false },
+  }),
+}))
+
+describe('LetterHunt', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ letters: [] }),
+    } as Response)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('hunts every item and saves each letter answer', async () => {
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+    render(<LetterHunt childId="child-1" childName="Mia" onBack={vi.fn()} />)
+
+    await user.click(screen.getByRole('button', { name: /start hunting/i }))
+
+    for (let i = 0; i < HUNT_LENGTH; i++) {
+      expect(screen.getByText(`${i + 1} of ${HUNT_LENGTH}`)).toBeInTheDocument()
+      const options = screen.getAllByRole('button').filter(button => button.className === 'hunt-option')
+      expect(options).toHaveLength(4)
+      await user.click(options[0])
+      expect(screen.getByRole('status')).toBeInTheDocument()
+      await act(async () => {
+        vi.advanceTimersByTime(NEXT_LETTER_DELAY_MS)
+      })
+    }
+
+    expect(screen.getByRole('heading', { name: /hunt complete, mia/i })).toBeInTheDocument()
+    await waitFor(() => expect(global.fetch).toHaveBeenLastCalledWith(
+      '/api/progress/child/child-1/letter-knowledge',
+      expect.objectContaining({ method: 'POST' })
+    ))
+    const body = JSON.parse(vi.mocked(global.fetch).mock.lastCall![1]!.body as string)
+    expect(body.attempts).toHaveLength(HUNT_LENGTH)
+    expect(body.attempts[0]).toEqual({
+      letter: expect.stringMatching(/^[A-Za-z]$/),
+      skill: expect.stringMatching(/^(name|sound)$/),
+      correct: expect.any(Boolean),
+    })
+  })
+
+  it('keeps the answers so far when leaving early', async () => {
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+    const onBack = vi.fn()
+    render(<LetterHunt childId="child-1" onBack={onBack} />)
+
+    await user.click(screen.getByRole('button', { name: /start hunting/i }))
+    const options = screen.getAllByRole('button').filter(button => button.className === 'hunt-option')
+    await user.click(options[0])
+    await act(async () => {
+      vi.advanceTimersByTime(NEXT_LETTER_DELAY_MS)
+    })
+    await user.click(screen.getByRole('button', { name: /back/i }))
+
+    expect(onBack).toHaveBeenCalled()
+    const body = JSON.parse(vi.mocked(global.fetch).mock.lastCall![1]!.body as string)
+    expect(body.attempts).toHaveLength(1)
+  })
+})
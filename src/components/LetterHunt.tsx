@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useVoice } from '../hooks/useVoice'
+import { useLetterKnowledge } from '../hooks/useLetterKnowledge'
+import { buildLetterHunt, type HuntItem, type LetterSkill } from '../game-data/letter-hunt'
+import Confetti from './Confetti'
+import './LetterHunt.css'
+
+interface LetterHuntProps {
+  childId?: string
+  childName?: string
+  onBack: () => void
+}
+
+interface Attempt {
+  letter: string
+  skill: LetterSkill
+  correct: boolean
+}
+
+type SaveState = 'saving' | 'saved' | 'failed'
+
+/** How long the effort message stays up before the next letter */
+export const NEXT_LETTER_DELAY_MS = 1000
+
+// Like the reading challenge, every answer gets a cheer; right and wrong are only recorded
+const EFFORT_MESSAGES = ['Nice hunting!', 'Good looking!', 'Keep going!', 'Great try!', 'Super!']
+
+export default function LetterHunt({ childId, childName, onBack }: LetterHuntProps) {
+  const { speak, settings } = useVoice()
+  const { letters, saveAttempts } = useLetterKnowledge(childId)
+  const [items, setItems] = useState<HuntItem[] | null>(null)
+  const [attempts, setAttempts] = useState<Attempt[]>([])
+  const [effortMessage, setEffortMessage] = useState<string | null>(null)
+  const [saveState, setSaveState] = useState<SaveState | null>(null)
+
+  const item = items?.[attempts.length]
+  const isFinished = items !== null && attempts.length >= items.length
+
+  useEffect(() => {
+    if (item && !effortMessage && settings.enabled) {
+      speak(item.say)
+    }
+  }, [item, effortMessage, settings.enabled, speak])
+
+  const save = useCallback((answered: Attempt[]) => {
+    if (!childId || answered.length === 0) return
+    setSaveState('saving')
+    saveAttempts(answered)
+      .then(() => setSaveState('saved'))
+      .catch(() => setSaveState('failed'))
+  }, [childId, saveAttempts])
+
+  const handleStart = () => {
+    setItems(buildLetterHunt(letters))
+    setAttempts([])
+  }
+
+  const handleAnswer = useCallback((optionId: string) => {
+    if (!item || effortMessage) return
+
+    const message = EFFORT_MESSAGES[Math.floor(Math.random() * EFFORT_MESSAGES.length)]
+    setEffortMessage(message)
+    if (settings.enabled && settings.encouragementEnabled) {
+      speak(message)
+    }
+
+    const answered = [...attempts, { letter: item.letter, skill: item.skill, correct: optionId === item.correctId }]
+    setTimeout(() => {
+      setEffortMessage(null)
+      setAttempts(answered)
+      if (items && answered.length >= items.length) {
+        save(answered)
+        if (settings.enabled) {
+          speak(`What a letter hunter${childName ? `, ${childName}` : ''}!`)
+        }
+      }
+    }, NEXT_LETTER_DELAY_MS)
+  }, [item, items, attempts, effortMessage, settings.enabled, settings.encouragementEnabled, speak, save, childName])
+
+  // Leaving early still keeps the letters already answered
+  const handleBack = () => {
+    if (!isFinished) {
+      save(attempts)
+    }
+    onBack()
+  }
+
+  const handleHear = () => {
+    if (item && settings.enabled) {
+      speak(item.say)
+    }
+  }
+
+  if (isFinished) {
+    return (
+      <div className="letter-hunt">
+        <Confetti active duration={4000} pieceCount={100} />
+        <div className="hunt-complete">
+          <div className="celebration-icon" aria-hidden="true">🔍</div>
+          <h2>Hunt complete{childName ? `, ${childName}` : ''}!</h2>
+          <p className="hunt-effort">You looked for {attempts.length} letters and sounds. Great hunting!</p>
+          {saveState === 'saving' && <p className="hunt-save" role="status">Saving...</p>}
+          {saveState === 'failed' && (
+            <p className="hunt-save" role="status">We couldn't save this hunt, but you did great!</p>
+          )}
+          <div className="hunt-complete-actions">
+            <button className="hunt-again-btn" type="button" onClick={handleStart}>
+              Hunt again
+            </button>
+            <button className="hunt-done-btn" type="button" onClick={onBack}>
+              Back to Home
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="letter-hunt">
+      <header className="game-header">
+        <button className="back-button" onClick={handleBack} type="button">
+          ← Back
+        </button>
+        <h1>Letter Hunt</h1>
+        {items && <span className="hunt-count">{attempts.length + 1} of {items.length}</span>}
+      </header>
+
+      <main className="game-content">
+        {!items && (
+          <div className="hunt-intro">
+            <p className="hunt-intro-text">
+              Let's go on a letter hunt{childName ? `, ${childName}` : ''}! Find the letters you hear,
+              and the pictures that sound like each letter.
+            </p>
+            <button className="hunt-start-btn" type="button" onClick={handleStart}>
+              Start hunting
+            </button>
+          </div>
+        )}
+
+        {item && (
+          <div className={`hunt-item hunt-item-${item.skill}`}>
+            {item.skill === 'sound' && <p className="hunt-letter">{item.letter}</p>}
+            <p className="instruction">
+              {item.skill === 'name' ? item.say : 'Which picture has this letter\'s sound?'}
+            </p>
+            <button className="hunt-hear-btn" type="button" onClick={handleHear}>
+              🔊 Hear it again
+            </button>
+            <div className="hunt-options">
+              {item.options.map(option => (
+                <button
+                  key={option.id}
+                  className="hunt-option"
+                  type="button"
+                  disabled={!!effortMessage}
+                  aria-label={option.emoji ? option.label : undefined}
+                  onClick={() => handleAnswer(option.id)}
+                >
+                  {option.emoji ?? option.label}
+                </button>
+              ))}
+            </div>
+            {effortMessage && <p className="hunt-effort-message" role="status">{effortMessage}</p>}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
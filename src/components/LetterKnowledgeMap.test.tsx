@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import LetterKnowledgeMap from './LetterKnowledgeMap'
+import '@testing-library/jest-dom'
+
+const letters = [
+  { letter: 'B', name_correct: 3, name_attempts: 3, sound_correct: 0, sound_attempts: 0, last_assessed_at: null },
+  { letter: 'b', name_correct: 0, name_attempts: 2, sound_correct: 1, sound_attempts: 2, last_assessed_at: null },
+]
+
+describe('LetterKnowledgeMap', () => {
+  it('colors all 52 letters by name accuracy', () => {
+    render(<LetterKnowledgeMap letters={letters} />)
+
+    expect(screen.getAllByTestId(/^letter-cell-/)).toHaveLength(52)
+    expect(screen.getByTestId('letter-cell-B')).toHaveClass('letter-cell-known')
+    expect(screen.getByTestId('letter-cell-b')).toHaveClass('letter-cell-unknown')
+    expect(screen.getByTestId('letter-cell-z')).toHaveClass('letter-cell-untested')
+  })
+
+  it('switches to sound accuracy', async () => {
+    const user = userEvent.setup()
+    render(<LetterKnowledgeMap letters={letters} />)
+
+    await user.click(screen.getByRole('button', { name: 'Sounds' }))
+
+    expect(screen.getByTestId('letter-cell-B')).toHaveClass('letter-cell-untested')
+    expect(screen.getByTestId('letter-cell-b')).toHaveClass('letter-cell-learning')
+    expect(screen.getByTestId('letter-cell-b')).toHaveAttribute('title', 'b /b/: 1 of 2 right')
+  })
+})
@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import {
+  HUNT_LETTERS,
+  getLetterStatus,
+  getSkillCounts,
+  getLetterSound,
+  type LetterKnowledge,
+  type LetterSkill,
+  type LetterStatus,
+} from '../game-data/letter-hunt'
+import './LetterKnowledgeMap.css'
+
+interface LetterKnowledgeMapProps {
+  letters: LetterKnowledge[]
+}
+
+const STATUS_LABELS: Record<LetterStatus, string> = {
+  known: 'Knows it',
+  learning: 'Learning',
+  unknown: 'Not yet',
+  untested: 'Not tried',
+}
+
+/**
+ * Heatmap of the 52 letters for parents, capitals above small letters,
+ * colored by letter hunt accuracy for either names or sounds
+ */
+export default function LetterKnowledgeMap({ letters }: LetterKnowledgeMapProps) {
+  const [skill, setSkill] = useState<LetterSkill>('name')
+  const byLetter = new Map(letters.map(l => [l.letter, l]))
+
+  const rows = [HUNT_LETTERS.slice(0, 26), HUNT_LETTERS.slice(26)]
+
+  return (
+    <div className="letter-knowledge-map">
+      <div className="letter-map-header">
+        <h2 className="section-title">Letters</h2>
+        <div className="letter-map-toggle" role="group" aria-label="Show letter">
+          <button type="button" aria-pressed={skill === 'name'} onClick={() => setSkill('name')}>
+            Names
+          </button>
+          <button type="button" aria-pressed={skill === 'sound'} onClick={() => setSkill('sound')}>
+            Sounds
+          </button>
+        </div>
+      </div>
+
+      {rows.map((row, i) => (
+        <div key={i} className="letter-map-row">
+          {row.map(letter => {
+            const { correct, attempts } = getSkillCounts(byLetter.get(letter), skill)
+            const status = getLetterStatus(correct, attempts)
+            const detail = attempts > 0 ? `${correct} of ${attempts} right` : STATUS_LABELS.untested
+            const label = skill === 'sound' ? `${letter} ${getLetterSound(letter).sound}` : letter
+            return (
+              <span
+                key={letter}
+                className={`letter-cell letter-cell-${status}`}
+                title={`${label}: ${detail}`}
+                data-testid={`letter-cell-${letter}`}
+              >
+                {letter}
+              </span>
+            )
+          })}
+        </div>
+      ))}
+
+      <ul className="letter-map-legend">
+        {(Object.keys(STATUS_LABELS) as LetterStatus[]).map(status => (
+          <li key={status}>
+            <span className={`letter-cell letter-cell-${status}`} aria-hidden="true" />
+            {STATUS_LABELS[status]}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -137,4 +137,48 @@ describe('LetterTile', () => {
     fireEvent.mouseMove(window, { clientX: 130, clientY: 130 })
     expect(onDrag).toHaveBeenCalledTimes(3)
   })
+
+  describe('tap and keyboard play', () => {
+    it('is picked with a click instead of dragged', () => {
+      const onSelect = vi.fn()
+      render(<LetterTile {...defaultProps} onSelect={onSelect} />)
+      const tile = screen.getByRole('button', { name: 'A' })
+      fireEvent.mouseDown(tile, { clientX: 100, clientY: 100 })
+      fireEvent.click(tile)
+      expect(defaultProps.onDragStart).not.toHaveBeenCalled()
+      expect(onSelect).toHaveBeenCalledWith('tile-1', 'a')
+    })
+
+    it('is picked with Enter or Space', () => {
+      const onSelect = vi.fn()
+      render(<LetterTile {...defaultProps} onSelect={onSelect} />)
+      const tile = screen.getByRole('button', { name: 'A' })
+      fireEvent.keyDown(tile, { key: 'Enter' })
+      fireEvent.keyDown(tile, { key: ' ' })
+      expect(onSelect).toHaveBeenCalledTimes(2)
+    })
+
+    it('shows whether it is picked', () => {
+      render(<LetterTile {...defaultProps} onSelect={vi.fn()} selected />)
+      const tile = screen.getByRole('button', { name: 'A' })
+      expect(tile).toHaveAttribute('aria-pressed', 'true')
+      expect(tile).toHaveClass('selected')
+      expect(tile).toHaveAttribute('tabindex', '0')
+    })
+
+    it('cannot be picked or focused once placed', () => {
+      const onSelect = vi.fn()
+      render(<LetterTile {...defaultProps} onSelect={onSelect} placed />)
+      const tile = screen.getByRole('button', { name: 'A' })
+      fireEvent.click(tile)
+      expect(onSelect).not.toHaveBeenCalled()
+      expect(tile).toHaveAttribute('aria-disabled', 'true')
+      expect(tile).toHaveAttribute('tabindex', '-1')
+    })
+
+    it('shows the switch scanning highlight', () => {
+      render(<LetterTile {...defaultProps} onSelect={vi.fn()} scanHighlighted />)
+      expect(screen.getByRole('button', { name: 'A' })).toHaveClass('scan-highlight')
+    })
+  })
 })
@@ -9,6 +9,13 @@ export interface LetterTileProps {
   onDrag?: (clientX: number, clientY: number) => void
   disabled?: boolean
   placed?: boolean
+  /** Tap or keyboard play: the tile is picked with a tap, Enter or Space instead of dragged */
+  onSelect?: (id: string, letter: string) => void
+  selected?: boolean
+  /** Highlighted by switch scanning */
+  scanHighlighted?: boolean
+  /** Row name for arrow key navigation */
+  navRow?: string
 }
 
 export default function LetterTile({
@@ -19,6 +26,10 @@ export default function LetterTile({
   onDrag,
   disabled = false,
   placed = false,
+  onSelect,
+  selected = false,
+  scanHighlighted = false,
+  navRow,
 }: LetterTileProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [position, setPosition] = useState({ x: 0, y: 0 })
@@ -96,10 +107,44 @@ export default function LetterTile({
     }
   }, [isDragging, handleMove, handleEnd])
 
+  const handleSelect = () => {
+    if (disabled || placed) return
+    onSelect?.(id, letter)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault()
+      handleSelect()
+    }
+  }
+
   // Staggered wiggle delay based on tile id
   const tileIndex = parseInt(id.replace('tile-', ''), 10) || 0
   const wiggleDelay = `${tileIndex * 0.4}s`
 
+  if (onSelect) {
+    const unavailable = disabled || placed
+    return (
+      <div
+        ref={tileRef}
+        role="button"
+        tabIndex={unavailable ? -1 : 0}
+        aria-pressed={selected}
+        aria-disabled={unavailable}
+        className={`letter-tile selectable ${selected ? 'selected' : ''} ${scanHighlighted ? 'scan-highlight' : ''} ${disabled ? 'disabled' : ''} ${placed ? 'placed' : ''}`}
+        style={{ '--wiggle-delay': wiggleDelay } as React.CSSProperties}
+        onClick={handleSelect}
+        onKeyDown={handleKeyDown}
+        data-letter={letter}
+        data-id={id}
+        data-nav-row={navRow}
+      >
+        {letter.toUpperCase()}
+      </div>
+    )
+  }
+
   return (
     <div
       ref={tileRef}
@@ -0,0 +1,76 @@
+import { useState, useRef, type ReactNode } from 'react'
+import { useDisplayProfile } from '../hooks/useDisplayProfile'
+import './LineRuler.css'
+
+interface LineRulerProps {
+  children: ReactNode
+  className?: string
+}
+
+// Height of one line of the passage in pixels, and how many lines it has
+function measureLines(element: HTMLElement): { lineHeight: number; lineCount: number } {
+  const style = getComputedStyle(element)
+  const lineHeight = parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.2 || 1
+  return { lineHeight, lineCount: Math.max(1, Math.round(element.scrollHeight / lineHeight)) }
+}
+
+/**
+ * A reading guide for passages of more than one line. When the display
+ * profile turns it on, every line but one is shaded. The child moves the
+ * clear line with the arrow keys, the buttons or by tapping a line.
+ */
+export default function LineRuler({ children, className = '' }: LineRulerProps) {
+  const { lineRuler } = useDisplayProfile()
+  const [line, setLine] = useState(0)
+  const contentRef = useRef<HTMLDivElement>(null)
+
+  if (!lineRuler) {
+    return <div className={className}>{children}</div>
+  }
+
+  const moveTo = (next: number) => {
+    if (!contentRef.current) return
+    const { lineCount } = measureLines(contentRef.current)
+    setLine(Math.min(Math.max(next, 0), lineCount - 1))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      moveTo(line + (e.key === 'ArrowDown' ? 1 : -1))
+    }
+  }
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (!contentRef.current) return
+    const { lineHeight } = measureLines(contentRef.current)
+    const top = contentRef.current.getBoundingClientRect().top
+    moveTo(Math.floor((e.clientY - top) / lineHeight))
+  }
+
+  return (
+    <div className={`line-ruler ${className}`.trim()}>
+      <div
+        ref={contentRef}
+        className="line-ruler-content"
+        style={{ '--ruler-line': line } as React.CSSProperties}
+        tabIndex={0}
+        role="group"
+        aria-label="Reading guide. Use the up and down arrows to move to the next line."
+        onKeyDown={handleKeyDown}
+        onClick={handleClick}
+      >
+        {children}
+        <div className="line-ruler-band" aria-hidden="true" />
+      </div>
+      <div className="line-ruler-controls">
+        <button type="button" onClick={() => moveTo(line - 1)} aria-label="Previous line">
+          ▲
+        </button>
+        <button type="button" onClick={() => moveTo(line + 1)} aria-label="Next line">
+          ▼
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render } from '@testing-library/react'
+import MemoryGame from './MemoryGame'
+import '@testing-library/jest-dom'
+
+let mockDueWords: string[] = []
+
+vi.mock('../hooks/useVoice', () => ({
+  useVoice: () => ({
+    speak: vi.fn(),
+    isSpeaking: false,
+  }),
+}))
+
+vi.mock('../hooks/useGameSession', () => ({
+  useGameSession: () => ({
+    recordItem: vi.fn(),
+    endSession: vi.fn(),
+  }),
+}))
+
+vi.mock('../hooks/useReviewQueue', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../hooks/useReviewQueue')>(),
+  useReviewQueue: () => ({
+    dueWords: mockDueWords,
+    recordReview: vi.fn(),
+  }),
+}))
+
+function boardWords(container: HTMLElement): string[] {
+  return [...container.querySelectorAll('.card-word')].map(el => el.textContent ?? '')
+}
+
+describe('MemoryGame', () => {
+  beforeEach(() => {
+    mockDueWords = []
+  })
+
+  it('deals the due words once the review queue loads', () => {
+    const { container, rerender } = render(
+      <MemoryGame onBack={vi.fn()} childId="child-1" level="pre-primer" gridSize={8} />
+    )
+    expect(boardWords(container)).toHaveLength(8)
+
+    mockDueWords = ['jump', 'yellow']
+    rerender(<MemoryGame onBack={vi.fn()} childId="child-1" level="pre-primer" gridSize={8} />)
+
+    const words = boardWords(container)
+    expect(words.filter(word => word === 'jump')).toHaveLength(2)
+    expect(words.filter(word => word === 'yellow')).toHaveLength(2)
+  })
+})
@@ -1,12 +1,17 @@
 import { useState, useCallback, useEffect, useRef } from 'react'
 import './MemoryGame.css'
-import { getRandomWordsForGame, type SightWord } from '../game/sightWords'
+import { getWordsByLevel, getAllSightWords, type SightWordLevel } from '../game-data/sight-words'
 import { playCorrectSound, playWrongSound, playWordCompleteSound } from '../game/sounds'
+import { shuffleArray } from '../game/shuffle'
 import { useVoice } from '../hooks/useVoice'
+import { useReviewQueue, prioritizeDueWords } from '../hooks/useReviewQueue'
+import { useGameSession } from '../hooks/useGameSession'
+import ReadableText from './ReadableText'
 
 interface MemoryGameProps {
   onBack: () => void
-  level?: SightWord['level']
+  childId?: string
+  level?: SightWordLevel
   gridSize?: 8 | 12 | 16 // 4x2, 4x3, 4x4
 }
 
@@ -59,9 +64,11 @@ function generateConfettiPositions(count: number = 30) {
 
 const confettiPositions = generateConfettiPositions(30)
 
-// Helper to create initial cards
-function createInitialCards(gridSize: number, level?: SightWord['level']): Card[] {
-  const words = getRandomWordsForGame(gridSize, level)
+// Helper to create initial cards, putting words due for review on the board first
+function createInitialCards(gridSize: number, level?: SightWordLevel, dueWords: readonly string[] = []): Card[] {
+  const pool = level ? getWordsByLevel(level) : getAllSightWords().map(w => w.word)
+  const selected = prioritizeDueWords(pool, dueWords, gridSize / 2, word => word)
+  const words = shuffleArray([...selected, ...selected])
   return words.map((word, index) => ({
     id: index,
     word,
@@ -70,8 +77,10 @@ function createInitialCards(gridSize: number, level?: SightWord['level']): Card[
   }))
 }
 
-export default function MemoryGame({ onBack, level, gridSize = 12 }: MemoryGameProps) {
+export default function MemoryGame({ onBack, childId, level, gridSize = 12 }: MemoryGameProps) {
   const { speak, isSpeaking } = useVoice()
+  const { dueWords, recordReview } = useReviewQueue(childId, 'memory')
+  const { recordItem, endSession } = useGameSession(childId, 'memory')
   // Use lazy initialization to avoid setState in effect
   const [cards, setCards] = useState<Card[]>(() => createInitialCards(gridSize, level))
   const [flippedCards, setFlippedCards] = useState<number[]>([])
@@ -84,12 +93,24 @@ export default function MemoryGame({ onBack, level, gridSize = 12 }: MemoryGameP
   const [matchPopup, setMatchPopup] = useState<{ text: string; visible: boolean }>({ text: '', visible: false })
   const [lastMatchedWord, setLastMatchedWord] = useState<string | null>(null)
   const hasAnnouncedRef = useRef(false)
+  // Flips since the last match, reported as attempts for the next pair found
+  const attemptsSinceMatchRef = useRef(0)
 
   const totalPairs = gridSize / 2
 
+  // The first board is dealt before the review queue loads; deal again with
+  // the due words once they arrive, as long as play hasn't started
+  const [dealtDueWords, setDealtDueWords] = useState(dueWords)
+  if (dealtDueWords !== dueWords) {
+    setDealtDueWords(dueWords)
+    if (moves === 0 && flippedCards.length === 0) {
+      setCards(createInitialCards(gridSize, level, dueWords))
+    }
+  }
+
   // Reset game state
   const resetGame = useCallback(() => {
-    setCards(createInitialCards(gridSize, level))
+    setCards(createInitialCards(gridSize, level, dueWords))
     setFlippedCards([])
     setMoves(0)
     setMatchedPairs(0)
@@ -99,7 +120,8 @@ export default function MemoryGame({ onBack, level, gridSize = 12 }: MemoryGameP
     setMatchPopup({ text: '', visible: false })
     setLastMatchedWord(null)
     hasAnnouncedRef.current = false
-  }, [gridSize, level])
+    attemptsSinceMatchRef.current = 0
+  }, [gridSize, level, dueWords])
 
   // Announce game start
   useEffect(() => {
@@ -144,6 +166,7 @@ export default function MemoryGame({ onBack, level, gridSize = 12 }: MemoryGameP
     if (newFlippedCards.length === 2) {
       setMoves(prev => prev + 1)
       setIsProcessing(true)
+      attemptsSinceMatchRef.current += 1
 
       const [firstId, secondId] = newFlippedCards
       const firstCard = cards.find(c => c.id === firstId)!
@@ -152,6 +175,9 @@ export default function MemoryGame({ onBack, level, gridSize = 12 }: MemoryGameP
       if (firstCard.word === secondCard.word) {
         // Match found!
         playCorrectSound()
+        recordReview(firstCard.word, true)
+        recordItem(firstCard.word, 'correct', { attempts: attemptsSinceMatchRef.current })
+        attemptsSinceMatchRef.current = 0
         const newStreak = streak + 1
         setStreak(newStreak)
 
@@ -182,6 +208,7 @@ export default function MemoryGame({ onBack, level, gridSize = 12 }: MemoryGameP
 
           // Check for game completion
           if (newMatchedPairs === totalPairs) {
+            endSession({ completed: true })
             setTimeout(() => {
               playWordCompleteSound()
               const msg = celebrationMessages[Math.floor(Math.random() * celebrationMessages.length)]
@@ -218,7 +245,7 @@ export default function MemoryGame({ onBack, level, gridSize = 12 }: MemoryGameP
         }, 900)
       }
     }
-  }, [cards, flippedCards, isProcessing, isSpeaking, matchedPairs, showMatchMessage, speak, streak, totalPairs])
+  }, [cards, flippedCards, isProcessing, isSpeaking, matchedPairs, showMatchMessage, speak, streak, totalPairs, recordReview, recordItem, endSession])
 
   // Play again
   const handlePlayAgain = useCallback(() => {
@@ -260,7 +287,7 @@ export default function MemoryGame({ onBack, level, gridSize = 12 }: MemoryGameP
       {/* Last matched word reinforcement */}
       {lastMatchedWord && !showCelebration && (
         <div className="word-reinforcement" key={lastMatchedWord}>
-          <span className="reinforcement-word">{lastMatchedWord}</span>
+          <ReadableText className="reinforcement-word" text={lastMatchedWord} />
         </div>
       )}
 
@@ -317,7 +344,7 @@ export default function MemoryGame({ onBack, level, gridSize = 12 }: MemoryGameP
                 <span className="card-symbol">?</span>
               </div>
               <div className="card-back">
-                <span className="card-word">{card.word}</span>
+                <ReadableText className="card-word" text={card.word} />
                 {card.justMatched && <span className="sparkle-effect"></span>}
               </div>
             </div>
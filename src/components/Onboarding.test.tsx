@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import Onboarding from './Onboarding'
+import type { NewChildProfile } from '../hooks/useChildren'
+import '@testing-library/jest-dom'
+
+function mockOnboarding(step: number, child: NewChildProfile | null) {
+  vi.mocked(global.fetch).mockImplementation((_url, init) => Promise.resolve({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(init?.method === 'PUT' ? {} : { onboarding: { step, completed: false, data: { child } } }),
+  } as Response))
+}
+
+function savedBodies() {
+  return vi.mocked(global.fetch).mock.calls
+    .filter(([, init]) => init?.method === 'PUT')
+    .map(([, init]) => JSON.parse(init!.body as string))
+}
+
+describe('Onboarding', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    global.fetch = vi.fn()
+    localStorage.setItem('auth_token', 'jwt-token')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    localStorage.clear()
+  })
+
+  it('saves each step to the onboarding record', async () => {
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+    mockOnboarding(0, null)
+    render(<Onboarding onComplete={vi.fn()} onBack={vi.fn()} />)
+
+    await user.type(await screen.findByPlaceholderText(/type your name/i), ' Mia ')
+    await user.click(screen.getByRole('button', { name: 'Next' }))
+    expect(savedBodies()).toEqual([
+      { step: 1, data: { child: { name: 'Mia', age: null, sex: null, avatar: null } } },
+    ])
+
+    await user.click(await screen.findByRole('button', { name: /^5/ }))
+    expect(savedBodies()[1]).toEqual({ step: 2, data: { child: { name: 'Mia', age: 5, sex: null, avatar: null } } })
+  })
+
+  it('picks up a saved reader and clears the draft once the reader is added', async () => {
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+    const child = { name: 'Mia', age: 5, sex: 'girl', avatar: 'owl' }
+    mockOnboarding(4, child)
+    const onComplete = vi.fn().mockResolvedValue(undefined)
+    render(<Onboarding onComplete={onComplete} onBack={vi.fn()} />)
+
+    expect(await screen.findByText('Yay, Mia!')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: /let's go/i }))
+
+    expect(onComplete).toHaveBeenCalledWith(child)
+    await waitFor(() => expect(savedBodies()).toEqual([{ step: 0, completed: true, data: { child: null } }]))
+  })
+
+  it('keeps the draft when the reader could not be added', async () => {
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+    mockOnboarding(4, { name: 'Mia', age: 5, sex: 'girl', avatar: 'owl' })
+    const onComplete = vi.fn().mockRejectedValue(new Error('Could not add reader'))
+    render(<Onboarding onComplete={onComplete} onBack={vi.fn()} />)
+
+    await user.click(await screen.findByRole('button', { name: /let's go/i }))
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalled())
+    expect(savedBodies()).toEqual([])
+  })
+})
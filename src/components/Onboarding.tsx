@@ -1,18 +1,21 @@
 import { useState } from 'react'
+import { useOnboardingDraft } from '../hooks/useOnboarding'
+import type { NewChildProfile } from '../hooks/useChildren'
 import './Onboarding.css'
 
-interface OnboardingData {
-  name: string
-  age: number | null
-  sex: string | null
-  avatar: string | null
-}
-
 interface OnboardingProps {
-  onComplete: (data: OnboardingData) => void
+  /** Creates the child; the saved draft is only cleared once this resolves */
+  onComplete: (data: NewChildProfile) => Promise<void>
   onBack: () => void
 }
 
+interface OnboardingStepsProps extends OnboardingProps {
+  initialStep: number
+  initialData: NewChildProfile
+  onStepComplete: (step: number, data: NewChildProfile) => void
+  onFinish: () => void
+}
+
 const AVATARS = [
   { id: 'bear', emoji: '🐻', label: 'Bear' },
   { id: 'bunny', emoji: '🐰', label: 'Bunny' },
@@ -26,6 +29,15 @@ const AVATARS = [
 
 const AGES = [4, 5, 6]
 
+const LAST_STEP = 4
+
+const EMPTY_CHILD: NewChildProfile = {
+  name: '',
+  age: null,
+  sex: null,
+  avatar: null,
+}
+
 const ENCOURAGEMENTS = [
   "Great job!",
   "You're doing amazing!",
@@ -38,14 +50,44 @@ function getRandomEncouragement() {
   return ENCOURAGEMENTS[Math.floor(Math.random() * ENCOURAGEMENTS.length)]
 }
 
+/**
+ * Add-a-reader flow. Each finished step is saved to the parent's onboarding
+ * record, so a half-added reader is picked up again after a reload or on
+ * another device.
+ */
 export default function Onboarding({ onComplete, onBack }: OnboardingProps) {
-  const [step, setStep] = useState(0)
-  const [data, setData] = useState<OnboardingData>({
-    name: '',
-    age: null,
-    sex: null,
-    avatar: null,
-  })
+  const { draft, isLoading, saveDraft, finishDraft } = useOnboardingDraft()
+
+  if (isLoading) {
+    return (
+      <div className="onboarding">
+        <p className="onboarding-loading">Loading...</p>
+      </div>
+    )
+  }
+
+  return (
+    <OnboardingSteps
+      initialStep={Math.min(draft?.step ?? 0, LAST_STEP)}
+      initialData={draft?.child ?? EMPTY_CHILD}
+      onStepComplete={saveDraft}
+      onFinish={finishDraft}
+      onComplete={onComplete}
+      onBack={onBack}
+    />
+  )
+}
+
+function OnboardingSteps({
+  initialStep,
+  initialData,
+  onStepComplete,
+  onFinish,
+  onComplete,
+  onBack,
+}: OnboardingStepsProps) {
+  const [step, setStep] = useState(initialStep)
+  const [data, setData] = useState<NewChildProfile>(initialData)
   const [encouragement, setEncouragement] = useState('')
   const [isAnimating, setIsAnimating] = useState(false)
 
@@ -58,7 +100,8 @@ export default function Onboarding({ onComplete, onBack }: OnboardingProps) {
     }, 1500)
   }
 
-  const nextStep = () => {
+  const nextStep = (updated: NewChildProfile) => {
+    onStepComplete(step + 1, updated)
     showEncouragement()
     setTimeout(() => {
       setStep(s => s + 1)
@@ -73,30 +116,33 @@ export default function Onboarding({ onComplete, onBack }: OnboardingProps) {
     }
   }
 
+  const selectAndContinue = (updated: NewChildProfile) => {
+    setData(updated)
+    nextStep(updated)
+  }
+
   const handleNameSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (data.name.trim()) {
-      nextStep()
+      selectAndContinue({ ...data, name: data.name.trim() })
     }
   }
 
   const handleAgeSelect = (age: number) => {
-    setData(d => ({ ...d, age }))
-    nextStep()
+    selectAndContinue({ ...data, age })
   }
 
   const handleSexSelect = (sex: string) => {
-    setData(d => ({ ...d, sex }))
-    nextStep()
+    selectAndContinue({ ...data, sex })
   }
 
   const handleAvatarSelect = (avatar: string) => {
-    setData(d => ({ ...d, avatar }))
-    nextStep()
+    selectAndContinue({ ...data, avatar })
   }
 
+  // A reader that could not be added stays saved for the next try
   const handleComplete = () => {
-    onComplete(data)
+    onComplete(data).then(onFinish, () => {})
   }
 
   const renderStep = () => {
@@ -253,7 +299,7 @@ export default function Onboarding({ onComplete, onBack }: OnboardingProps) {
       </div>
 
       {/* Back button */}
-      {step < 4 && (
+      {step < LAST_STEP && (
         <button
           type="button"
           className="back-button"
@@ -1,11 +1,17 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useVoice } from '../hooks/useVoice'
-import { getRandomPhonicsWords, getBeginningSounds, type PhonicsWord } from '../game-data/phonics'
+import { useReviewQueue } from '../hooks/useReviewQueue'
+import { useGameSession } from '../hooks/useGameSession'
+import { useLetterKnowledge } from '../hooks/useLetterKnowledge'
+import { getAllPhonicsWords, getBeginningSounds, getRandomPhonicsWords, type PhonicsWord } from '../game-data/phonics'
+import { getLettersToPractice } from '../game-data/letter-hunt'
 import { playCorrectSound, playWordCompleteSound } from '../game/sounds'
+import ReadableText from './ReadableText'
 import './PhonicsGame.css'
 
 interface PhonicsGameProps {
   onBack: () => void
+  childId?: string
 }
 
 interface GameState {
@@ -50,8 +56,11 @@ function generateConfettiPositions(count: number = 30) {
 
 const confettiPositions = generateConfettiPositions(30)
 
-export default function PhonicsGame({ onBack }: PhonicsGameProps) {
+export default function PhonicsGame({ onBack, childId }: PhonicsGameProps) {
   const { speak, settings } = useVoice()
+  const { dueWords, recordReview, pickWords } = useReviewQueue(childId, 'phonics')
+  const { letters } = useLetterKnowledge(childId)
+  const { startItem, recordHint, recordItem, endSession } = useGameSession(childId, 'phonics')
   const [celebrationMessage, setCelebrationMessage] = useState(CELEBRATIONS[0])
   const [gameState, setGameState] = useState<GameState>({
     currentWord: null,
@@ -69,10 +78,19 @@ export default function PhonicsGame({ onBack }: PhonicsGameProps) {
   })
 
   const generateRound = useCallback(() => {
-    const words = getRandomPhonicsWords(1, { difficulty: 1 })
+    // Words due for review come first, then a beginner word - one for a
+    // letter sound the letter hunt found the child still learning, if any
+    const beginnerWords = getAllPhonicsWords().filter(w => w.difficulty === 1)
+    const words = pickWords(beginnerWords, 1, w => w.word)
     if (words.length === 0) return
 
-    const currentWord = words[0]
+    const isDue = dueWords.includes(words[0].word.toLowerCase())
+    const [practiceWord] = getRandomPhonicsWords(1, {
+      difficulty: 1,
+      priorityLetters: getLettersToPractice(letters),
+    })
+    const currentWord = isDue || !practiceWord ? words[0] : practiceWord
+    startItem()
     const allSounds = getBeginningSounds()
 
     // Get 3 wrong options
@@ -104,7 +122,7 @@ export default function PhonicsGame({ onBack }: PhonicsGameProps) {
         })
       }, 500)
     }
-  }, [speak, settings.enabled])
+  }, [speak, settings.enabled, pickWords, dueWords, letters, startItem])
 
   useEffect(() => {
     if (!gameState.gameComplete && !gameState.currentWord) {
@@ -116,6 +134,9 @@ export default function PhonicsGame({ onBack }: PhonicsGameProps) {
     if (gameState.showFeedback || !gameState.currentWord) return
 
     const isCorrect = sound === gameState.currentWord.beginningSound
+    recordReview(gameState.currentWord.word, isCorrect)
+    recordItem(gameState.currentWord.word, isCorrect ? 'correct' : 'incorrect')
+    const finalScore = isCorrect ? gameState.score + (10 * (gameState.streak + 1)) : gameState.score
 
     // Play sound effect immediately
     if (isCorrect) {
@@ -144,6 +165,7 @@ export default function PhonicsGame({ onBack }: PhonicsGameProps) {
     setTimeout(() => {
       const nextRound = gameState.round + 1
       if (nextRound >= gameState.totalRounds) {
+        endSession({ score: finalScore, completed: true })
         playWordCompleteSound()
         const celebration = CELEBRATIONS[Math.floor(Math.random() * CELEBRATIONS.length)]
         setCelebrationMessage(celebration)
@@ -181,6 +203,7 @@ export default function PhonicsGame({ onBack }: PhonicsGameProps) {
 
   const handleRepeatWord = () => {
     if (gameState.currentWord && settings.enabled) {
+      recordHint()
       setGameState(prev => ({ ...prev, isSpeaking: true }))
       speak(gameState.currentWord.word).then(() => {
         setGameState(prev => ({ ...prev, isSpeaking: false }))
@@ -255,10 +278,11 @@ export default function PhonicsGame({ onBack }: PhonicsGameProps) {
             <div className="word-display">
               <span className="word-emoji">{gameState.currentWord.emoji}</span>
               <h2 className="current-word">
-                <span className={`first-letter ${gameState.showFeedback && gameState.isCorrect ? 'highlight' : ''}`}>
-                  {gameState.currentWord.word.charAt(0).toUpperCase()}
-                </span>
-                {gameState.currentWord.word.slice(1)}
+                <ReadableText
+                  className={`first-letter ${gameState.showFeedback && gameState.isCorrect ? 'highlight' : ''}`}
+                  text={gameState.currentWord.word.charAt(0).toUpperCase()}
+                />
+                <ReadableText text={gameState.currentWord.word.slice(1)} />
               </h2>
               <button
                 className={`repeat-btn ${gameState.isSpeaking ? 'speaking' : ''}`}
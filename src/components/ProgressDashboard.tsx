@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react'
 import ProgressBadges, { type Badge } from './ProgressBadges'
+import LetterKnowledgeMap from './LetterKnowledgeMap'
+import { getAuthHeaders } from '../hooks/useAuth'
+import type { LetterKnowledge } from '../game-data/letter-hunt'
 import './ProgressDashboard.css'
 
 interface ProgressStats {
@@ -31,6 +34,7 @@ interface RecentLesson {
 interface ProgressDashboardProps {
   childId: string
   childName?: string
+  onBack?: () => void
 }
 
 const SUBJECT_EMOJIS: Record<string, string> = {
@@ -83,9 +87,10 @@ function formatDate(dateString: string): string {
   return date.toLocaleDateString()
 }
 
-export default function ProgressDashboard({ childId, childName }: ProgressDashboardProps) {
+export default function ProgressDashboard({ childId, childName, onBack }: ProgressDashboardProps) {
   const [stats, setStats] = useState<ProgressStats | null>(null)
   const [recent, setRecent] = useState<RecentLesson[]>([])
+  const [letters, setLetters] = useState<LetterKnowledge[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -93,12 +98,12 @@ export default function ProgressDashboard({ childId, childName }: ProgressDashbo
     async function fetchData() {
       try {
         setLoading(true)
-        const token = localStorage.getItem('auth_token')
-        const headers: HeadersInit = token ? { Authorization: `Bearer ${token}` } : {}
+        const headers = getAuthHeaders()
 
-        const [statsRes, recentRes] = await Promise.all([
+        const [statsRes, recentRes, lettersRes] = await Promise.all([
           fetch(`/api/progress/child/${childId}/stats`, { headers }),
           fetch(`/api/progress/child/${childId}/recent`, { headers }),
+          fetch(`/api/progress/child/${childId}/letter-knowledge`, { headers }),
         ])
 
         if (statsRes.ok) {
@@ -110,6 +115,11 @@ export default function ProgressDashboard({ childId, childName }: ProgressDashbo
           const recentData = await recentRes.json()
           setRecent(recentData.recent || [])
         }
+
+        if (lettersRes.ok) {
+          const lettersData = await lettersRes.json()
+          setLetters(lettersData.letters || [])
+        }
       } catch (err) {
         setError('Failed to load progress data')
         console.error('Progress fetch error:', err)
@@ -130,9 +140,16 @@ export default function ProgressDashboard({ childId, childName }: ProgressDashbo
     )
   }
 
+  const backButton = onBack && (
+    <button className="dashboard-back-button" type="button" onClick={onBack}>
+      &larr; Back
+    </button>
+  )
+
   if (error) {
     return (
       <div className="progress-dashboard error">
+        {backButton}
         <p>{error}</p>
       </div>
     )
@@ -145,6 +162,7 @@ export default function ProgressDashboard({ childId, childName }: ProgressDashbo
   return (
     <div className="progress-dashboard">
       <header className="dashboard-header">
+        {backButton}
         <h1 className="dashboard-title">
           {childName ? `${childName}'s Progress` : 'Your Progress'}
         </h1>
@@ -230,6 +248,11 @@ export default function ProgressDashboard({ childId, childName }: ProgressDashbo
         </section>
       )}
 
+      {/* Letter names and sounds from the letter hunt */}
+      <section className="letter-knowledge">
+        <LetterKnowledgeMap letters={letters} />
+      </section>
+
       {/* Badges */}
       {stats && (
         <section className="badges-section">
@@ -27,6 +27,8 @@ vi.mock('../game-data/sight-words', () => ({
     'primer': { id: 'primer', name: 'Primer' },
     'grade1': { id: 'grade1', name: 'Grade 1' },
   },
+  prePrimerWords: [],
+  primerWords: [],
 }))
 
 describe('ReadAloudGame', () => {
@@ -1,11 +1,16 @@
 import { useState, useCallback, useEffect } from 'react'
 import { useVoice, type PronunciationResult } from '../hooks/useVoice'
+import { useReviewQueue } from '../hooks/useReviewQueue'
+import { useGameSession } from '../hooks/useGameSession'
 import { getRandomWords, type SightWordLevel, sightWordLevels } from '../game-data/sight-words'
+import { getPhonemesForWord } from '../game-data/read-aloud'
 import Confetti from './Confetti'
+import ReadableText from './ReadableText'
 import './ReadAloudGame.css'
 
 interface ReadAloudGameProps {
   onBack: () => void
+  childId?: string
 }
 
 interface GameState {
@@ -39,8 +44,10 @@ const MILESTONE_MESSAGES: { [key: number]: string } = {
   10: 'Perfect 10! Reading superstar!',
 }
 
-export default function ReadAloudGame({ onBack }: ReadAloudGameProps) {
+export default function ReadAloudGame({ onBack, childId }: ReadAloudGameProps) {
   const { speak, settings, isRecording, startRecording, checkPronunciation } = useVoice()
+  const { recordReview, pickWords } = useReviewQueue(childId, 'readaloud')
+  const { startItem, recordHint, recordItem, endSession } = useGameSession(childId, 'readaloud')
   const [gameState, setGameState] = useState<GameState>({
     currentWord: '',
     score: 0,
@@ -57,10 +64,13 @@ export default function ReadAloudGame({ onBack }: ReadAloudGameProps) {
   const [isProcessing, setIsProcessing] = useState(false)
 
   const generateRound = useCallback((level: SightWordLevel) => {
-    const words = getRandomWords(level, 1)
+    // Words due for review come first, then the rest of the level
+    const levelWords = getRandomWords(level, sightWordLevels[level].wordCount)
+    const words = pickWords(levelWords, 1, word => word)
     if (words.length === 0) return
 
     const currentWord = words[0]
+    startItem()
 
     setGameState(prev => ({
       ...prev,
@@ -75,7 +85,7 @@ export default function ReadAloudGame({ onBack }: ReadAloudGameProps) {
         speak(`Can you read the word: ${currentWord}?`)
       }, 500)
     }
-  }, [speak, settings.enabled])
+  }, [speak, settings.enabled, pickWords, startItem])
 
   useEffect(() => {
     if (!gameState.gameComplete && !gameState.currentWord) {
@@ -87,11 +97,14 @@ export default function ReadAloudGame({ onBack }: ReadAloudGameProps) {
     if (isRecording) {
       // Stop recording and check pronunciation
       setIsProcessing(true)
-      const result = await checkPronunciation(gameState.currentWord)
+      const result = await checkPronunciation(gameState.currentWord, getPhonemesForWord(gameState.currentWord))
       setIsProcessing(false)
 
       if (result) {
         const isCorrect = result.isCorrect
+        recordReview(gameState.currentWord, isCorrect)
+        recordItem(gameState.currentWord, isCorrect ? 'correct' : 'incorrect')
+        const finalScore = isCorrect ? gameState.score + (10 * (gameState.streak + 1)) : gameState.score
         const newStreak = isCorrect ? gameState.streak + 1 : 0
         const isMilestone = isCorrect && !!MILESTONE_MESSAGES[newStreak]
         const triggerConfetti = isCorrect && (newStreak >= 3 || isMilestone)
@@ -125,6 +138,7 @@ export default function ReadAloudGame({ onBack }: ReadAloudGameProps) {
         setTimeout(() => {
           const nextRound = gameState.round + 1
           if (nextRound >= gameState.totalRounds) {
+            endSession({ score: finalScore, completed: true })
             setGameState(prev => ({ ...prev, gameComplete: true, showConfetti: true }))
             if (settings.enabled) {
               const celebration = CELEBRATIONS[Math.floor(Math.random() * CELEBRATIONS.length)]
@@ -148,7 +162,7 @@ export default function ReadAloudGame({ onBack }: ReadAloudGameProps) {
         // Error handled by useVoice hook
       }
     }
-  }, [isRecording, checkPronunciation, gameState.currentWord, gameState.round, gameState.totalRounds, settings, speak, startRecording])
+  }, [isRecording, checkPronunciation, gameState.currentWord, gameState.score, gameState.streak, gameState.round, gameState.totalRounds, settings, speak, startRecording, recordReview, recordItem, endSession])
 
   const handlePlayAgain = () => {
     setGameState({
@@ -178,13 +192,16 @@ export default function ReadAloudGame({ onBack }: ReadAloudGameProps) {
 
   const handleRepeatWord = () => {
     if (gameState.currentWord && settings.enabled) {
+      recordHint()
       speak(gameState.currentWord)
     }
   }
 
   const handleSkip = () => {
+    recordItem(gameState.currentWord, 'skipped')
     const nextRound = gameState.round + 1
     if (nextRound >= gameState.totalRounds) {
+      endSession({ score: gameState.score, completed: true })
       setGameState(prev => ({ ...prev, gameComplete: true }))
     } else {
       setGameState(prev => ({
@@ -271,7 +288,9 @@ export default function ReadAloudGame({ onBack }: ReadAloudGameProps) {
         {gameState.currentWord && (
           <>
             <div className="word-display">
-              <h2 className="target-word">{gameState.currentWord}</h2>
+              <h2 className="target-word">
+                <ReadableText text={gameState.currentWord} />
+              </h2>
               <button className="repeat-btn" onClick={handleRepeatWord} type="button">
                 🔊 Hear Word
               </button>
@@ -318,6 +337,15 @@ export default function ReadAloudGame({ onBack }: ReadAloudGameProps) {
                   <>
                     <span className="feedback-icon">✗</span>
                     <span className="feedback-text">{gameState.result.feedback}</span>
+                    {gameState.result.phonemes && gameState.result.phonemes.length > 0 && (
+                      <div className="phoneme-breakdown" aria-label="Sounds in the word">
+                        {gameState.result.phonemes.map((p, i) => (
+                          <span key={i} className={`phoneme-chip ${p.status}`} title={p.status}>
+                            /{p.phoneme}/
+                          </span>
+                        ))}
+                      </div>
+                    )}
                     {gameState.result.transcribed && (
                       <span className="transcribed">You said: "{gameState.result.transcribed}"</span>
                     )}
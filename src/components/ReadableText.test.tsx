@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import ReadableText from './ReadableText'
+import { DisplayProfileProvider } from '../hooks/useDisplayProfile'
+import { DEFAULT_DISPLAY_PROFILE, type DisplayProfile } from '../types/accessibility'
+
+function renderWithProfile(text: string, changes: Partial<DisplayProfile>) {
+  return render(
+    <DisplayProfileProvider profile={{ ...DEFAULT_DISPLAY_PROFILE, ...changes }}>
+      <ReadableText text={text} />
+    </DisplayProfileProvider>
+  )
+}
+
+describe('ReadableText', () => {
+  it('renders plain text outside a display profile', () => {
+    const { container } = render(<ReadableText text="bad dog" className="card-word" />)
+
+    expect(screen.getByText('bad dog')).toHaveClass('readable-text', 'card-word')
+    expect(container.querySelector('.mirror-letter')).toBeNull()
+  })
+
+  it('colors b, d, p and q when the profile asks for it', () => {
+    const { container } = renderWithProfile('bad pq', { colorCodeLetters: true })
+
+    const letters = Array.from(container.querySelectorAll('.mirror-letter'))
+    expect(letters.map(letter => letter.textContent)).toEqual(['b', 'd', 'p', 'q'])
+    expect(letters[1]).toHaveClass('letter-d')
+    expect(container.querySelector('.readable-text')).toHaveTextContent('bad pq')
+  })
+
+  it('puts the font and spacing classes on the profile wrapper', () => {
+    const { container } = renderWithProfile('cat', {
+      dyslexiaFont: true,
+      letterSpacing: 'wide',
+      wordSpacing: 'wider',
+      reducedMotion: true,
+    })
+
+    expect(container.firstChild).toHaveClass(
+      'display-profile',
+      'dyslexia-font',
+      'letter-spacing-wide',
+      'word-spacing-wider',
+      'reduced-motion'
+    )
+  })
+})
@@ -0,0 +1,34 @@
+import { useDisplayProfile } from '../hooks/useDisplayProfile'
+import '@fontsource/opendyslexic/latin-400.css'
+import '@fontsource/opendyslexic/latin-700.css'
+import './ReadableText.css'
+
+// Letters that are mirror images of each other and easily swapped
+const MIRROR_LETTERS = /([bdpq])/
+
+interface ReadableTextProps {
+  text: string
+  className?: string
+}
+
+/**
+ * Text a child reads, shown in their display profile's font and spacing,
+ * with b, d, p and q in their own colors when the profile asks for it
+ */
+export default function ReadableText({ text, className = '' }: ReadableTextProps) {
+  const { colorCodeLetters } = useDisplayProfile()
+
+  return (
+    <span className={`readable-text ${className}`.trim()}>
+      {colorCodeLetters
+        ? text.split(MIRROR_LETTERS).map((part, i) =>
+            i % 2 === 1 ? (
+              <span key={i} className={`mirror-letter letter-${part}`}>{part}</span>
+            ) : (
+              part
+            )
+          )
+        : text}
+    </span>
+  )
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import ReadingChallenge, { NEXT_ITEM_DELAY_MS } from './ReadingChallenge'
+import '@testing-library/jest-dom'
+
+const mockSpeak = vi.fn()
+const mockStartRecording = vi.fn()
+const mockCheckPronunciation = vi.fn()
+
+vi.mock('../hooks/useVoice', () => ({
+  useVoice: () => ({
+    speak: mockSpeak,
+    settings: { enabled: true, encouragementEnabled: false },
+    isRecording: false,
+    startRecording: mockStartRecording,
+    checkPronunciation: mockCheckPronunciation,
+  }),
+}))
+
+describe('ReadingChallenge', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('offers reading aloud or tapping', () => {
+    render(<ReadingChallenge childName="Mia" onComplete={vi.fn()} onBack={vi.fn()} />)
+
+    expect(screen.getByRole('heading', { name: /reading challenge/i })).toBeInTheDocument()
+    expect(screen.getByText(/let's see what you can read, mia/i)).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /read out loud/i })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /tap to choose/i })).toBeInTheDocument()
+  })
+
+  it('places a child who taps wrong answers and saves the placement', async () => {
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+    const onComplete = vi.fn().mockResolvedValue(undefined)
+    render(<ReadingChallenge childName="Mia" onComplete={onComplete} onBack={vi.fn()} />)
+
+    await user.click(screen.getByRole('button', { name: /tap to choose/i }))
+
+    // Four words then a sentence; missing the words is under the ceiling
+    for (let i = 0; i < 5; i++) {
+      const spoken = mockSpeak.mock.lastCall?.[0]
+      const options = screen.getAllByRole('button').filter(button => button.className === 'challenge-option')
+      const wrong = options.find(option => option.textContent !== spoken) ?? options[0]
+      await user.click(wrong)
+      expect(screen.getByRole('status')).toBeInTheDocument()
+      await act(async () => {
+        vi.advanceTimersByTime(NEXT_ITEM_DELAY_MS)
+      })
+    }
+
+    expect(screen.getByRole('heading', { name: /you did it, mia/i })).toBeInTheDocument()
+    expect(screen.getByText('Pre-Reader')).toBeInTheDocument()
+    expect(onComplete).toHaveBeenCalledWith('pre_reader', [expect.objectContaining({ level: 'pre_reader', total: 5 })])
+    expect(onComplete.mock.calls[0][1][0].correct).toBeLessThanOrEqual(1)
+  })
+
+  it('reads aloud through the microphone', async () => {
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+    render(<ReadingChallenge onComplete={vi.fn()} onBack={vi.fn()} />)
+
+    await user.click(screen.getByRole('button', { name: /read out loud/i }))
+    await user.click(screen.getByRole('button', { name: /start recording/i }))
+
+    expect(mockStartRecording).toHaveBeenCalled()
+  })
+
+  it('switches to tapping when the microphone is unavailable', async () => {
+    mockStartRecording.mockRejectedValueOnce(new Error('Permission denied'))
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+    render(<ReadingChallenge onComplete={vi.fn()} onBack={vi.fn()} />)
+
+    await user.click(screen.getByRole('button', { name: /read out loud/i }))
+    await user.click(screen.getByRole('button', { name: /start recording/i }))
+
+    expect(screen.getByText(/let's tap instead/i)).toBeInTheDocument()
+    expect(screen.getByText('Tap the word you hear')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,228 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useVoice } from '../hooks/useVoice'
+import { getPhonemesForWord } from '../game-data/read-aloud'
+import {
+  startPlacementAssessment,
+  answerPlacementItem,
+  getCurrentPlacementItem,
+  getReadingLevelMeta,
+  getStartLevel,
+  type LevelResult,
+  type PlacementAssessment,
+  type ReadingLevel,
+} from '../game-data/reading-assessment'
+import Confetti from './Confetti'
+import './ReadingChallenge.css'
+
+interface ReadingChallengeProps {
+  childName?: string
+  /** Last placement, so a repeat challenge starts just below it */
+  previousLevel?: ReadingLevel | null
+  onComplete: (level: ReadingLevel, results: LevelResult[]) => Promise<unknown> | void
+  onBack: () => void
+}
+
+type AnswerMode = 'read' | 'tap'
+
+type SaveState = 'idle' | 'saving' | 'saved' | 'failed'
+
+/** How long the effort message stays up before the next item */
+export const NEXT_ITEM_DELAY_MS = 1200
+
+// Every answer gets a cheer - this is a placement, not a test to pass
+const EFFORT_MESSAGES = ['Nice try!', 'Good work!', 'Keep going!', 'You are doing great!', 'Super effort!']
+
+export default function ReadingChallenge({ childName, previousLevel, onComplete, onBack }: ReadingChallengeProps) {
+  const { speak, settings, isRecording, startRecording, checkPronunciation } = useVoice()
+  const [mode, setMode] = useState<AnswerMode | null>(null)
+  const [assessment, setAssessment] = useState<PlacementAssessment>(
+    () => startPlacementAssessment({ startLevel: getStartLevel(previousLevel) })
+  )
+  const [effortMessage, setEffortMessage] = useState<string | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [micMessage, setMicMessage] = useState<string | null>(null)
+  const [saveState, setSaveState] = useState<SaveState>('idle')
+
+  const item = getCurrentPlacementItem(assessment)
+  const answeredCount = assessment.results.reduce((sum, result) => sum + result.total, 0) + assessment.asked
+
+  // Tapping, the child hears the word to find or the question to answer
+  useEffect(() => {
+    if (mode === 'tap' && item && !effortMessage && settings.enabled) {
+      speak(item.say)
+    }
+  }, [mode, item, effortMessage, settings.enabled, speak])
+
+  const finishChallenge = useCallback((placement: ReadingLevel, results: LevelResult[]) => {
+    setSaveState('saving')
+    Promise.resolve(onComplete(placement, results))
+      .then(() => setSaveState('saved'))
+      .catch(() => setSaveState('failed'))
+
+    if (settings.enabled) {
+      speak(`You did it${childName ? `, ${childName}` : ''}! What a great reader!`)
+    }
+  }, [onComplete, settings.enabled, speak, childName])
+
+  const recordAnswer = useCallback((isCorrect: boolean) => {
+    const message = EFFORT_MESSAGES[Math.floor(Math.random() * EFFORT_MESSAGES.length)]
+    setEffortMessage(message)
+    if (settings.enabled && settings.encouragementEnabled) {
+      speak(message)
+    }
+    // Answers are disabled while the message shows, so this is still current
+    setTimeout(() => {
+      const next = answerPlacementItem(assessment, isCorrect)
+      setEffortMessage(null)
+      setAssessment(next)
+      if (next.placement) {
+        finishChallenge(next.placement, next.results)
+      }
+    }, NEXT_ITEM_DELAY_MS)
+  }, [assessment, settings.enabled, settings.encouragementEnabled, speak, finishChallenge])
+
+  const handleMicClick = useCallback(async () => {
+    if (!item) return
+
+    if (!isRecording) {
+      try {
+        await startRecording()
+      } catch {
+        setMicMessage("The microphone isn't working, so let's tap instead!")
+        setMode('tap')
+      }
+      return
+    }
+
+    setIsProcessing(true)
+    const phonemes = item.kind === 'word' ? getPhonemesForWord(item.text) : undefined
+    const result = await checkPronunciation(item.text, phonemes)
+    setIsProcessing(false)
+
+    if (!result) {
+      setMicMessage("We couldn't hear that, so let's tap instead!")
+      setMode('tap')
+      return
+    }
+    recordAnswer(result.isCorrect)
+  }, [item, isRecording, startRecording, checkPronunciation, recordAnswer])
+
+  const handleHear = () => {
+    if (item && settings.enabled) {
+      speak(item.say)
+    }
+  }
+
+  if (assessment.finished && assessment.placement) {
+    const level = getReadingLevelMeta(assessment.placement)
+    return (
+      <div className="reading-challenge">
+        <Confetti active duration={4000} pieceCount={100} />
+        <div className="challenge-complete">
+          <div className="celebration-icon" aria-hidden="true">🌟</div>
+          <h2>You did it{childName ? `, ${childName}` : ''}!</h2>
+          <p className="challenge-effort">You tried {answeredCount} words and sentences. Great effort!</p>
+          <div className="challenge-level">
+            <span className="challenge-level-label">Your reading level</span>
+            <span className="challenge-level-name">{level.name}</span>
+            <span className="challenge-level-description">{level.description}</span>
+          </div>
+          {saveState === 'saving' && <p className="challenge-save" role="status">Saving...</p>}
+          {saveState === 'failed' && (
+            <p className="challenge-save" role="status">We couldn't save your level, but you did great!</p>
+          )}
+          <button className="challenge-done-btn" type="button" onClick={onBack}>
+            Back to Home
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="reading-challenge">
+      <header className="game-header">
+        <button className="back-button" onClick={onBack} type="button">
+          ← Back
+        </button>
+        <h1>Reading Challenge</h1>
+        {mode && <span className="challenge-count">Item {answeredCount + 1}</span>}
+      </header>
+
+      <main className="game-content">
+        {!mode && (
+          <div className="challenge-intro">
+            <p className="challenge-intro-text">
+              Let's see what you can read{childName ? `, ${childName}` : ''}! Some words are easy and some are tricky.
+              Just try your best.
+            </p>
+            <div className="challenge-modes">
+              <button className="challenge-mode-btn" type="button" onClick={() => setMode('read')}>
+                <span className="challenge-mode-icon" aria-hidden="true">🎤</span>
+                Read out loud
+              </button>
+              <button className="challenge-mode-btn" type="button" onClick={() => setMode('tap')}>
+                <span className="challenge-mode-icon" aria-hidden="true">👆</span>
+                Tap to choose
+              </button>
+            </div>
+          </div>
+        )}
+
+        {mode && item && (
+          <div className={`challenge-item challenge-item-${item.kind}`}>
+            {micMessage && <p className="challenge-mic-message" role="status">{micMessage}</p>}
+
+            {(mode === 'read' || item.kind === 'sentence') && (
+              <p className="challenge-text">{item.text}</p>
+            )}
+
+            {mode === 'read' ? (
+              <>
+                <p className="instruction">
+                  {isRecording ? "Tap the microphone when you're done" : 'Tap the microphone and read it out loud'}
+                </p>
+                <button
+                  className={`challenge-mic ${isRecording ? 'recording' : ''}`}
+                  type="button"
+                  onClick={handleMicClick}
+                  disabled={isProcessing || !!effortMessage}
+                  aria-label={isRecording ? 'Stop recording' : 'Start recording'}
+                >
+                  <span aria-hidden="true">{isProcessing ? '⏳' : '🎤'}</span>
+                </button>
+                {!isRecording && !effortMessage && (
+                  <button className="challenge-switch-btn" type="button" onClick={() => setMode('tap')}>
+                    Tap to choose instead
+                  </button>
+                )}
+              </>
+            ) : (
+              <>
+                <p className="instruction">{item.question}</p>
+                <button className="challenge-hear-btn" type="button" onClick={handleHear}>
+                  🔊 Hear it again
+                </button>
+                <div className="challenge-options">
+                  {item.options.map((option, index) => (
+                    <button
+                      key={option}
+                      className="challenge-option"
+                      type="button"
+                      disabled={!!effortMessage}
+                      onClick={() => recordAnswer(index === item.correctIndex)}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {effortMessage && <p className="challenge-effort-message" role="status">{effortMessage}</p>}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -8,6 +8,9 @@ import {
 } from '../game-data/rhyme'
 import { playCorrectSound, playWordCompleteSound } from '../game/sounds'
 import { useVoice } from '../hooks/useVoice'
+import { useReviewQueue } from '../hooks/useReviewQueue'
+import { useGameSession } from '../hooks/useGameSession'
+import ReadableText from './ReadableText'
 
 // Extract the rhyming ending from a word (the part that rhymes)
 function getRhymePattern(word: string): { prefix: string; pattern: string } {
@@ -56,6 +59,7 @@ function getRhymePattern(word: string): { prefix: string; pattern: string } {
 
 interface RhymeGameProps {
   onBack: () => void
+  childId?: string
   difficulty?: 1 | 2 | 3
   questionsPerLevel?: number
 }
@@ -122,23 +126,26 @@ function HighlightedWord({
   const { prefix, pattern } = getRhymePattern(word)
 
   if (!highlight) {
-    return <span className={className}>{word}</span>
+    return <ReadableText className={className} text={word} />
   }
 
   return (
     <span className={className}>
-      {prefix}
-      <span className="rhyme-pattern">{pattern}</span>
+      <ReadableText text={prefix} />
+      <ReadableText className="rhyme-pattern" text={pattern} />
     </span>
   )
 }
 
 export default function RhymeGame({
   onBack,
+  childId,
   difficulty = 1,
   questionsPerLevel = 10,
 }: RhymeGameProps) {
   const { speak, isSpeaking } = useVoice()
+  const { recordReview } = useReviewQueue(childId, 'rhyme')
+  const { startItem, recordHint, recordItem, endSession } = useGameSession(childId, 'rhyme')
 
   const [currentQuestion, setCurrentQuestion] = useState<RhymeQuestion | null>(
     () => generateRhymeQuestion(difficulty, 2)
@@ -169,6 +176,7 @@ export default function RhymeGame({
   const nextQuestion = useCallback(() => {
     setIsEntering(true)
     setCurrentQuestion(generateRhymeQuestion(difficulty, 2))
+    startItem()
     setSelectedOption(null)
     setShowResult(false)
     setShowSparkles(false)
@@ -176,12 +184,13 @@ export default function RhymeGame({
 
     // Reset entering state after animation
     setTimeout(() => setIsEntering(false), 600)
-  }, [difficulty])
+  }, [difficulty, startItem])
 
   // Reset game
   const resetGame = useCallback(() => {
     setIsEntering(true)
     setCurrentQuestion(generateRhymeQuestion(difficulty, 2))
+    startItem()
     setScore(0)
     setStreak(0)
     setQuestionsAnswered(0)
@@ -191,7 +200,7 @@ export default function RhymeGame({
     setShowSparkles(false)
     hasAnnouncedRef.current = false
     setTimeout(() => setIsEntering(false), 600)
-  }, [difficulty])
+  }, [difficulty, startItem])
 
   // Announce game start
   useEffect(() => {
@@ -207,9 +216,10 @@ export default function RhymeGame({
   // Speak the target word
   const speakTargetWord = useCallback(() => {
     if (!isSpeaking && currentQuestion) {
+      recordHint()
       speak(currentQuestion.targetWord.word)
     }
-  }, [currentQuestion, isSpeaking, speak])
+  }, [currentQuestion, isSpeaking, speak, recordHint])
 
   // Handle choice selection
   const handleChoiceClick = useCallback(
@@ -220,6 +230,8 @@ export default function RhymeGame({
       setShowResult(true)
 
       const isCorrect = option.id === currentQuestion.correctAnswer.id
+      recordReview(currentQuestion.targetWord.word, isCorrect)
+      recordItem(currentQuestion.targetWord.word, isCorrect ? 'correct' : 'incorrect')
 
       // Play sound effect
       if (isCorrect) {
@@ -251,6 +263,7 @@ export default function RhymeGame({
 
       // Check for level complete
       if (questionsAnswered + 1 >= questionsPerLevel) {
+        endSession({ score: score + (isCorrect ? 1 : 0), completed: true })
         setTimeout(() => {
           playWordCompleteSound()
           const msg =
@@ -265,7 +278,7 @@ export default function RhymeGame({
         }, 1500)
       }
     },
-    [currentQuestion, questionsAnswered, questionsPerLevel, score, showResult, speak, streak]
+    [currentQuestion, questionsAnswered, questionsPerLevel, score, showResult, speak, streak, recordReview, recordItem, endSession]
   )
 
   // Auto-advance after showing result (if not level complete)
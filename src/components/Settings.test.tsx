@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import Settings from './Settings'
+import { DEFAULT_ACCESSIBILITY_SETTINGS, DEFAULT_DISPLAY_PROFILE } from '../types/accessibility'
 
 describe('Settings', () => {
   const mockOnBack = vi.fn()
@@ -112,4 +113,60 @@ describe('Settings', () => {
     // Check that VoiceParameterSliders is rendered (it has "Speed" slider by id)
     expect(document.getElementById('slider-speed')).toBeInTheDocument()
   })
+
+  it('should offer voice recording only to signed-in parents', async () => {
+    const { unmount } = render(<Settings childId="test-child" onBack={mockOnBack} />)
+    await waitFor(() => {
+      expect(screen.getByRole('heading', { level: 1, name: 'Settings' })).toBeInTheDocument()
+    })
+    expect(screen.queryByRole('button', { name: 'Record your voice' })).not.toBeInTheDocument()
+    unmount()
+
+    render(<Settings childId="test-child" token="parent-token" onBack={mockOnBack} />)
+    await userEvent.click(await screen.findByRole('button', { name: 'Record your voice' }))
+
+    expect(screen.getByRole('group', { name: 'Record your voice' })).toBeInTheDocument()
+  })
+
+  it('should save a new way of moving letters for the child', async () => {
+    const onAccessibilityChange = vi.fn().mockResolvedValue(undefined)
+    render(
+      <Settings
+        childId="test-child"
+        onBack={mockOnBack}
+        accessibility={DEFAULT_ACCESSIBILITY_SETTINGS}
+        onAccessibilityChange={onAccessibilityChange}
+      />
+    )
+
+    await userEvent.click(await screen.findByRole('radio', { name: /Switch scanning/ }))
+
+    expect(onAccessibilityChange).toHaveBeenCalledWith({ ...DEFAULT_ACCESSIBILITY_SETTINGS, inputMode: 'scan' })
+    expect(screen.getByRole('radio', { name: /Switch scanning/ })).toBeChecked()
+    expect(screen.getByLabelText(/Time on each choice/)).toBeInTheDocument()
+    expect(await screen.findByText('Saved!')).toBeInTheDocument()
+  })
+
+  it('should save a reading display change for the child', async () => {
+    const onDisplayProfileChange = vi.fn().mockResolvedValue(undefined)
+    render(
+      <Settings
+        childId="test-child"
+        onBack={mockOnBack}
+        displayProfile={DEFAULT_DISPLAY_PROFILE}
+        onDisplayProfileChange={onDisplayProfileChange}
+      />
+    )
+
+    await userEvent.click(await screen.findByRole('checkbox', { name: 'Easy-to-read font' }))
+    expect(onDisplayProfileChange).toHaveBeenCalledWith({ ...DEFAULT_DISPLAY_PROFILE, dyslexiaFont: true })
+
+    await userEvent.selectOptions(screen.getByLabelText('Space between words'), 'wider')
+    expect(onDisplayProfileChange).toHaveBeenLastCalledWith({
+      ...DEFAULT_DISPLAY_PROFILE,
+      dyslexiaFont: true,
+      wordSpacing: 'wider',
+    })
+    expect(await screen.findByText('Saved!')).toBeInTheDocument()
+  })
 })
@@ -1,6 +1,10 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import VoiceSelector, { type Voice } from './VoiceSelector'
 import VoiceParameterSliders, { type VoiceSettings } from './VoiceParameterSliders'
+import VoiceCloneWizard from './VoiceCloneWizard'
+import AccessibilityOptions from './AccessibilityOptions'
+import DisplayProfileOptions from './DisplayProfileOptions'
+import type { AccessibilitySettings, DisplayProfile } from '../types/accessibility'
 import './Settings.css'
 
 export interface FullVoiceSettings extends VoiceSettings {
@@ -22,17 +26,39 @@ const STORAGE_KEY_PREFIX = 'l2rr2l_voice_settings_'
 
 interface SettingsProps {
   childId: string
+  /** Signed-in parents can record their own voice */
+  token?: string | null
   onBack: () => void
   onSettingsChange?: (settings: FullVoiceSettings) => void
+  /** How the child moves tiles; the section is hidden without a save handler */
+  accessibility?: AccessibilitySettings
+  onAccessibilityChange?: (settings: AccessibilitySettings) => Promise<unknown>
+  /** How reading text looks; the section is hidden without a save handler */
+  displayProfile?: DisplayProfile
+  onDisplayProfileChange?: (profile: DisplayProfile) => Promise<unknown>
 }
 
 type SaveStatus = 'idle' | 'saving' | 'saved' | 'error'
 
-export default function Settings({ childId, onBack, onSettingsChange }: SettingsProps) {
+export default function Settings({
+  childId,
+  token,
+  onBack,
+  onSettingsChange,
+  accessibility,
+  onAccessibilityChange,
+  displayProfile,
+  onDisplayProfileChange,
+}: SettingsProps) {
   const [settings, setSettings] = useState<FullVoiceSettings | null>(null)
+  const [accessibilitySettings, setAccessibilitySettings] = useState(accessibility)
+  const [displayProfileSettings, setDisplayProfileSettings] = useState(displayProfile)
   const [isLoading, setIsLoading] = useState(true)
   const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle')
   const [saveError, setSaveError] = useState<string | null>(null)
+  const [showCloneWizard, setShowCloneWizard] = useState(false)
+  // Bumped after a voice is cloned so the selector reloads its list
+  const [voiceListVersion, setVoiceListVersion] = useState(0)
 
   const saveTimeoutRef = useRef<number | null>(null)
   const toastTimeoutRef = useRef<number | null>(null)
@@ -163,6 +189,12 @@ export default function Settings({ childId, onBack, onSettingsChange }: Settings
     saveSettings(newSettings)
   }, [settings, onSettingsChange, saveSettings])
 
+  const handleVoiceCloned = useCallback((voice: Voice) => {
+    setShowCloneWizard(false)
+    setVoiceListVersion(prev => prev + 1)
+    handleVoiceSelect(voice)
+  }, [handleVoiceSelect])
+
   const handleParameterChange = useCallback((paramSettings: VoiceSettings) => {
     if (!settings) return
 
@@ -172,6 +204,39 @@ export default function Settings({ childId, onBack, onSettingsChange }: Settings
     saveSettings(newSettings)
   }, [settings, onSettingsChange, saveSettings])
 
+  // Saves a setting kept on the child's profile, showing the same toast as voice saves
+  const saveChildSetting = useCallback(async (save: () => Promise<unknown>, failure: string) => {
+    setSaveStatus('saving')
+    setSaveError(null)
+    try {
+      await save()
+      setSaveStatus('saved')
+      if (toastTimeoutRef.current) {
+        clearTimeout(toastTimeoutRef.current)
+      }
+      toastTimeoutRef.current = window.setTimeout(() => {
+        setSaveStatus('idle')
+      }, 2000)
+    } catch (err) {
+      setSaveStatus('error')
+      setSaveError(err instanceof Error ? err.message : failure)
+    }
+  }, [])
+
+  const handleAccessibilityChange = useCallback(async (newSettings: AccessibilitySettings) => {
+    if (!onAccessibilityChange) return
+
+    setAccessibilitySettings(newSettings)
+    await saveChildSetting(() => onAccessibilityChange(newSettings), 'Could not save accessibility settings')
+  }, [onAccessibilityChange, saveChildSetting])
+
+  const handleDisplayProfileChange = useCallback(async (newProfile: DisplayProfile) => {
+    if (!onDisplayProfileChange) return
+
+    setDisplayProfileSettings(newProfile)
+    await saveChildSetting(() => onDisplayProfileChange(newProfile), 'Could not save reading display settings')
+  }, [onDisplayProfileChange, saveChildSetting])
+
   if (isLoading) {
     return (
       <div className="settings">
@@ -230,6 +295,7 @@ export default function Settings({ childId, onBack, onSettingsChange }: Settings
 
           <div className="settings-voice-selector">
             <VoiceSelector
+              key={voiceListVersion}
               selectedVoiceId={settings?.voiceId}
               onVoiceSelect={handleVoiceSelect}
               showChildFriendlyOnly={true}
@@ -250,6 +316,68 @@ export default function Settings({ childId, onBack, onSettingsChange }: Settings
             />
           </div>
         </section>
+
+        {accessibilitySettings && onAccessibilityChange && (
+          <section className="settings-section">
+            <h2 className="settings-section-title">
+              <span aria-hidden="true">&#9855;</span>
+              Playing Without Dragging
+            </h2>
+            <p className="settings-section-description">
+              Choose how your child moves letters in Spelling and Word Builder, for example with a keyboard or a switch.
+            </p>
+
+            <AccessibilityOptions
+              settings={accessibilitySettings}
+              onChange={handleAccessibilityChange}
+            />
+          </section>
+        )}
+
+        {displayProfileSettings && onDisplayProfileChange && (
+          <section className="settings-section">
+            <h2 className="settings-section-title">
+              <span aria-hidden="true">&#128214;</span>
+              Reading Display
+            </h2>
+            <p className="settings-section-description">
+              Change how words and stories look to make reading easier, for example for children with dyslexia.
+            </p>
+
+            <DisplayProfileOptions
+              profile={displayProfileSettings}
+              onChange={handleDisplayProfileChange}
+            />
+          </section>
+        )}
+
+        {token && (
+          <section className="settings-section">
+            <h2 className="settings-section-title">
+              <span aria-hidden="true">&#128106;</span>
+              Read It in Your Voice
+            </h2>
+            <p className="settings-section-description">
+              Record a few sentences so lessons can be read aloud in a voice your child knows.
+            </p>
+
+            {showCloneWizard ? (
+              <VoiceCloneWizard
+                token={token}
+                onCreated={handleVoiceCloned}
+                onCancel={() => setShowCloneWizard(false)}
+              />
+            ) : (
+              <button
+                type="button"
+                className="settings-clone-btn"
+                onClick={() => setShowCloneWizard(true)}
+              >
+                Record your voice
+              </button>
+            )}
+          </section>
+        )}
       </main>
 
       {/* Toast notifications */}
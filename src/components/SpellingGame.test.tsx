@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import SpellingGame from './SpellingGame'
+import { getSpellingTier, getSpellingTiles } from '../game/words'
+import { InputMode, DEFAULT_ACCESSIBILITY_SETTINGS } from '../types/accessibility'
+import '@testing-library/jest-dom'
+
+vi.mock('../hooks/useVoice', () => ({
+  useVoice: () => ({
+    speak: vi.fn(),
+    isSpeaking: false,
+    isRecording: false,
+    startRecording: vi.fn(),
+    checkPronunciation: vi.fn(),
+    settings: { enabled: true, encouragementEnabled: false },
+  }),
+}))
+
+vi.mock('../hooks/useGameSession', () => ({
+  useGameSession: () => ({
+    startItem: vi.fn(),
+    recordHint: vi.fn(),
+    recordItem: vi.fn(),
+  }),
+}))
+
+vi.mock('../hooks/useReviewQueue', () => ({
+  useReviewQueue: () => ({
+    dueWords: [],
+    recordReview: vi.fn(),
+  }),
+}))
+
+vi.mock('../game/sounds', () => ({
+  playCorrectSound: vi.fn(),
+  playWordCompleteSound: vi.fn(),
+}))
+
+const tapSettings = { ...DEFAULT_ACCESSIBILITY_SETTINGS, inputMode: InputMode.TAP }
+
+function spell(container: HTMLElement, tiles: string[]) {
+  tiles.forEach((tile, index) => {
+    const tileElement = [...container.querySelectorAll<HTMLElement>('.letter-tile')]
+      .find(el => el.dataset.letter === tile && !el.classList.contains('placed'))
+    fireEvent.click(tileElement!)
+    fireEvent.click(screen.getByRole('button', { name: `Space ${index + 1}, empty` }))
+  })
+}
+
+describe('SpellingGame', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('stays on the new tier when it is picked during a celebration', () => {
+    const firstWord = getSpellingTier(1).words[0]
+    const chunkWord = getSpellingTier(2).words[0]
+    const { container } = render(<SpellingGame onBack={vi.fn()} accessibility={tapSettings} />)
+
+    spell(container, getSpellingTiles(firstWord, 'letters'))
+    expect(container.querySelector('.celebration-overlay')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: /sound chunks/i }))
+    act(() => {
+      vi.advanceTimersByTime(3000)
+    })
+
+    expect(container.querySelector('.celebration-overlay')).not.toBeInTheDocument()
+    expect(container.querySelector('.hint-image')).toHaveTextContent(chunkWord.emoji)
+    expect(container.querySelectorAll('.drop-zone')).toHaveLength(getSpellingTiles(chunkWord, 'chunks').length)
+  })
+})
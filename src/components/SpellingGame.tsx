@@ -1,13 +1,29 @@
-import { useState, useCallback, useRef, useEffect } from 'react'
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import './SpellingGame.css'
 import LetterTile from './LetterTile'
 import DropZone from './DropZone'
-import { words, shuffleLetters } from '../game/words'
+import {
+  spellingTiers,
+  getSpellingTier,
+  getSpellingTiles,
+  shuffleTiles,
+  type SpellingTierLevel,
+  type TileMode,
+} from '../game/words'
+import type { LexiconEntry } from '../game-data/lexicon'
 import { playCorrectSound, playWordCompleteSound } from '../game/sounds'
 import { useVoice, type PronunciationResult } from '../hooks/useVoice'
+import { useReviewQueue } from '../hooks/useReviewQueue'
+import { useGameSession } from '../hooks/useGameSession'
+import { useSwitchScan } from '../hooks/useSwitchScan'
+import { useArrowNavigation } from '../hooks/useArrowNavigation'
+import { useAnnouncer } from '../hooks/useAnnouncer'
+import { InputMode, DEFAULT_ACCESSIBILITY_SETTINGS, type AccessibilitySettings } from '../types/accessibility'
 
 interface SpellingGameProps {
   onBack: () => void
+  childId?: string
+  accessibility?: AccessibilitySettings
 }
 
 interface PlacedLetter {
@@ -15,6 +31,15 @@ interface PlacedLetter {
   tileId: string
 }
 
+interface Tile {
+  id: string
+  letter: string
+}
+
+// What switch scanning steps through: the free tiles, or once one is picked,
+// the empty spaces followed by the picked tile (choosing it puts it back)
+type ScanItem = { kind: 'tile'; index: number } | { kind: 'zone'; index: number }
+
 // Celebration messages that rotate
 const celebrationMessages = [
   { text: 'Great Job!', emoji: '🎉' },
@@ -99,27 +124,28 @@ function generateConfettiPositions(count: number = 40) {
 
 const confettiPositions = generateConfettiPositions(40)
 
-// Helper to get shuffled letters for a word
-function getShuffledLetters(wordIndex: number): string[] {
-  const word = words[wordIndex]
-  const shuffled = shuffleLetters(word.word)
-  // Ensure letters aren't in correct order
-  if (shuffled.join('') === word.word) {
-    shuffled.reverse()
-  }
-  return shuffled
+// Syllable tiles are optional and only make sense for words with more than one
+function getTileMode(level: SpellingTierLevel, word: LexiconEntry, syllableMode: boolean): TileMode {
+  return syllableMode && word.syllables.length > 1 ? 'syllables' : getSpellingTier(level).tileMode
 }
 
-export default function SpellingGame({ onBack }: SpellingGameProps) {
+export default function SpellingGame({ onBack, childId, accessibility = DEFAULT_ACCESSIBILITY_SETTINGS }: SpellingGameProps) {
   // Voice synthesis and recording
   const { speak, isSpeaking, isRecording, startRecording, checkPronunciation, settings } = useVoice()
+  const { dueWords, recordReview } = useReviewQueue(childId, 'spelling')
+  const { startItem, recordHint, recordItem } = useGameSession(childId, 'spelling')
 
   // Use lazy initialization to avoid setState in effect
+  const [tierLevel, setTierLevel] = useState<SpellingTierLevel>(1)
+  const [syllableMode, setSyllableMode] = useState(false)
   const [currentWordIndex, setCurrentWordIndex] = useState(0)
-  const [shuffledLetters, setShuffledLetters] = useState(() => getShuffledLetters(0))
-  const [placedLetters, setPlacedLetters] = useState<(PlacedLetter | null)[]>([null, null, null])
+  const [tiles, setTiles] = useState(() => getSpellingTiles(getSpellingTier(1).words[0], 'letters'))
+  const [shuffledLetters, setShuffledLetters] = useState(() => shuffleTiles(tiles))
+  const [placedLetters, setPlacedLetters] = useState<(PlacedLetter | null)[]>(() => tiles.map(() => null))
   const [usedTileIds, setUsedTileIds] = useState<Set<string>>(new Set())
-  const [draggedTile, setDraggedTile] = useState<{ id: string; letter: string } | null>(null)
+  const [draggedTile, setDraggedTile] = useState<Tile | null>(null)
+  // Tile picked in tap, keyboard or switch play, waiting to be placed
+  const [selectedTile, setSelectedTile] = useState<Tile | null>(null)
   const [activeZoneIndex, setActiveZoneIndex] = useState<number | null>(null)
   const [wrongZoneIndex, setWrongZoneIndex] = useState<number | null>(null)
   const [correctZoneIndex, setCorrectZoneIndex] = useState<number | null>(null)
@@ -135,9 +161,37 @@ export default function SpellingGame({ onBack }: SpellingGameProps) {
   const zoneBoundsRef = useRef<Map<number, DOMRect>>(new Map())
   const hasAnnouncedRef = useRef(false)
   const lastEncouragementRef = useRef<number>(0)
+  const mistakesRef = useRef(0)
+  // Pending move to the next word after a celebration
+  const advanceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
+  const selectMode = accessibility.inputMode !== InputMode.DRAG
+  const { message: announcement, announce } = useAnnouncer(accessibility.announcePlacements)
+  const handleArrowKeys = useArrowNavigation()
+
+  const words = getSpellingTier(tierLevel).words
   const currentWord = words[currentWordIndex]
 
+  // Words due for review jump the queue; otherwise keep going through the list in order
+  const getNextWordIndex = useCallback(() => {
+    const dueIndex = words.findIndex((w, i) => i !== currentWordIndex && dueWords.includes(w.word))
+    return dueIndex >= 0 ? dueIndex : (currentWordIndex + 1) % words.length
+  }, [words, currentWordIndex, dueWords])
+
+  // Lay out a word's tiles and empty drop zones
+  const setUpWord = useCallback((level: SpellingTierLevel, index: number, syllables: boolean) => {
+    const word = getSpellingTier(level).words[index]
+    const wordTiles = getSpellingTiles(word, getTileMode(level, word, syllables))
+    setCurrentWordIndex(index)
+    setTiles(wordTiles)
+    setShuffledLetters(shuffleTiles(wordTiles))
+    setPlacedLetters(wordTiles.map(() => null))
+    setUsedTileIds(new Set())
+    setSelectedTile(null)
+    setWrongZoneIndex(null)
+    setCorrectZoneIndex(null)
+  }, [])
+
   // Announce word on game start with slight delay
   useEffect(() => {
     if (!hasAnnouncedRef.current) {
@@ -158,8 +212,9 @@ export default function SpellingGame({ onBack }: SpellingGameProps) {
 
   // Repeat button handler
   const handleRepeat = useCallback(() => {
+    recordHint()
     announceCurrentWord()
-  }, [announceCurrentWord])
+  }, [announceCurrentWord, recordHint])
 
   // Pronunciation button handler - toggle recording
   const handlePronunciationToggle = useCallback(async () => {
@@ -197,14 +252,11 @@ export default function SpellingGame({ onBack }: SpellingGameProps) {
 
   // Start a new word by advancing to next index
   const goToNextWord = useCallback((resetStreak: boolean = false) => {
-    const nextIndex = (currentWordIndex + 1) % words.length
-    setCurrentWordIndex(nextIndex)
-    setShuffledLetters(getShuffledLetters(nextIndex))
-    setPlacedLetters([null, null, null])
-    setUsedTileIds(new Set())
+    const nextIndex = getNextWordIndex()
+    mistakesRef.current = 0
+    startItem()
+    setUpWord(tierLevel, nextIndex, syllableMode)
     setShowCelebration(false)
-    setWrongZoneIndex(null)
-    setCorrectZoneIndex(null)
     setIsStreakCelebration(false)
     if (resetStreak) {
       setStreak(0)
@@ -213,7 +265,41 @@ export default function SpellingGame({ onBack }: SpellingGameProps) {
     setTimeout(() => {
       speak(`Spell: ${words[nextIndex].word}`)
     }, 300)
-  }, [currentWordIndex, speak])
+  }, [getNextWordIndex, setUpWord, tierLevel, syllableMode, words, speak, startItem])
+
+  // A tier or tile mode change lays out its own word, so drop a celebration's pending advance
+  const cancelAdvance = useCallback(() => {
+    if (advanceTimerRef.current) {
+      clearTimeout(advanceTimerRef.current)
+      advanceTimerRef.current = null
+    }
+    setShowCelebration(false)
+    setIsStreakCelebration(false)
+  }, [])
+
+  useEffect(() => () => {
+    if (advanceTimerRef.current) clearTimeout(advanceTimerRef.current)
+  }, [])
+
+  // Switching tiers starts the new tier's list from the beginning
+  const handleTierChange = useCallback((level: SpellingTierLevel) => {
+    if (level === tierLevel) return
+    cancelAdvance()
+    mistakesRef.current = 0
+    startItem()
+    setTierLevel(level)
+    setUpWord(level, 0, syllableMode)
+    setStreak(0)
+    speak(`Spell: ${getSpellingTier(level).words[0].word}`)
+  }, [tierLevel, syllableMode, cancelAdvance, setUpWord, startItem, speak])
+
+  // Syllable tiles replace the current word's tiles and start it over
+  const handleSyllableToggle = useCallback(() => {
+    const next = !syllableMode
+    cancelAdvance()
+    setSyllableMode(next)
+    setUpWord(tierLevel, currentWordIndex, next)
+  }, [syllableMode, tierLevel, currentWordIndex, cancelAdvance, setUpWord])
 
   const handleDragStart = (id: string, letter: string) => {
     setDraggedTile({ id, letter })
@@ -237,6 +323,104 @@ export default function SpellingGame({ onBack }: SpellingGameProps) {
     setActiveZoneIndex(hoverZoneIndex)
   }, [placedLetters])
 
+  // Put a tile in a space, by drag or by tap. Returns whether it belonged there.
+  const placeTile = useCallback((tile: Tile, zoneIndex: number): boolean => {
+    if (placedLetters[zoneIndex] !== null) return false
+
+    // Check if correct letter for this position
+    const expectedLetter = tiles[zoneIndex]
+    if (tile.letter === expectedLetter) {
+      // Correct placement!
+      const newPlaced = [...placedLetters]
+      newPlaced[zoneIndex] = { letter: tile.letter, tileId: tile.id }
+      setPlacedLetters(newPlaced)
+      setUsedTileIds(prev => new Set([...prev, tile.id]))
+
+      // Trigger correct animation and sound
+      setCorrectZoneIndex(zoneIndex)
+      playCorrectSound()
+      setTimeout(() => setCorrectZoneIndex(null), 800)
+
+      // Check if word is complete
+      const allPlaced = newPlaced.every(p => p !== null)
+      const placedMessage = `${tile.letter.toUpperCase()} placed in space ${zoneIndex + 1}.`
+      announce(allPlaced ? `${placedMessage} You spelled ${currentWord.word}!` : placedMessage)
+      if (allPlaced) {
+        // Play word complete sound after a short delay
+        setTimeout(() => playWordCompleteSound(), 300)
+        recordReview(currentWord.word, mistakesRef.current === 0)
+        recordItem(currentWord.word, 'correct', { attempts: mistakesRef.current + 1 })
+        const newStreak = streak + 1
+        setStreak(newStreak)
+        setWordsCompleted(prev => prev + 1)
+
+        // Check for streak celebration
+        const streakMsg = [...streakMessages].reverse().find(s => newStreak >= s.streak)
+        if (streakMsg) {
+          setCelebrationMessage({ text: streakMsg.text, emoji: streakMsg.emoji })
+          setIsStreakCelebration(true)
+        } else {
+          // Random celebration message
+          const randomMsg = celebrationMessages[Math.floor(Math.random() * celebrationMessages.length)]
+          setCelebrationMessage(randomMsg)
+          setIsStreakCelebration(false)
+        }
+
+        setShowCelebration(true)
+        setShowScreenCelebration(true)
+        setTimeout(() => setShowScreenCelebration(false), 600)
+
+        // Voice celebration - say the phrase after sound effect
+        setTimeout(() => {
+          speak(getVoiceCelebration(currentWord.word))
+        }, 500)
+
+        // Move to next word after celebration (longer for streak celebrations)
+        const celebrationDuration = streakMsg ? 2500 : 2000
+        advanceTimerRef.current = setTimeout(() => {
+          advanceTimerRef.current = null
+          const nextIndex = getNextWordIndex()
+          mistakesRef.current = 0
+          startItem()
+          setUpWord(tierLevel, nextIndex, syllableMode)
+          setShowCelebration(false)
+          setIsStreakCelebration(false)
+          // Announce the new word after a brief delay
+          setTimeout(() => {
+            speak(`Spell: ${words[nextIndex].word}`)
+          }, 300)
+        }, celebrationDuration)
+      } else {
+        // Word not complete yet - maybe speak encouragement (throttled)
+        const now = Date.now()
+        const timeSinceLastEncouragement = now - lastEncouragementRef.current
+        const placedCount = newPlaced.filter(p => p !== null).length
+
+        if (settings.encouragementEnabled && timeSinceLastEncouragement >= ENCOURAGEMENT_THROTTLE_MS) {
+          lastEncouragementRef.current = now
+          // Use progress phrases if 2+ letters placed, otherwise regular encouragement
+          const phrases = placedCount >= 2 ? progressPhrases : letterEncouragementPhrases
+          const phrase = phrases[Math.floor(Math.random() * phrases.length)]
+          // Small delay so it doesn't overlap with the sound effect
+          setTimeout(() => speak(phrase), 200)
+        }
+      }
+      return true
+    } else {
+      // Wrong position - trigger shake animation and encouragement
+      mistakesRef.current += 1
+      setWrongZoneIndex(zoneIndex)
+      setTimeout(() => setWrongZoneIndex(null), 400)
+
+      // Show near-correct encouragement popup
+      const randomNearCorrect = nearCorrectMessages[Math.floor(Math.random() * nearCorrectMessages.length)]
+      setNearCorrectFeedback(randomNearCorrect)
+      setTimeout(() => setNearCorrectFeedback(null), 1200)
+      announce(`${tile.letter.toUpperCase()} does not go in space ${zoneIndex + 1}. Try again.`)
+      return false
+    }
+  }, [placedLetters, tiles, currentWord.word, words, getNextWordIndex, setUpWord, tierLevel, syllableMode, recordReview, recordItem, startItem, speak, streak, settings.encouragementEnabled, announce])
+
   const handleDragEnd = useCallback(() => {
     if (!draggedTile) return
 
@@ -265,107 +449,81 @@ export default function SpellingGame({ onBack }: SpellingGameProps) {
       }
     })
 
-    if (targetZoneIndex !== null && placedLetters[targetZoneIndex] === null) {
-      // Check if correct letter for this position
-      const expectedLetter = currentWord.word[targetZoneIndex]
-      if (draggedTile.letter === expectedLetter) {
-        // Correct placement!
-        const newPlaced = [...placedLetters]
-        newPlaced[targetZoneIndex] = { letter: draggedTile.letter, tileId: draggedTile.id }
-        setPlacedLetters(newPlaced)
-        setUsedTileIds(prev => new Set([...prev, draggedTile.id]))
-
-        // Trigger correct animation and sound
-        setCorrectZoneIndex(targetZoneIndex)
-        playCorrectSound()
-        setTimeout(() => setCorrectZoneIndex(null), 800)
-
-        // Check if word is complete
-        const allPlaced = newPlaced.every(p => p !== null)
-        if (allPlaced) {
-          // Play word complete sound after a short delay
-          setTimeout(() => playWordCompleteSound(), 300)
-          const newStreak = streak + 1
-          setStreak(newStreak)
-          setWordsCompleted(prev => prev + 1)
-
-          // Check for streak celebration
-          const streakMsg = [...streakMessages].reverse().find(s => newStreak >= s.streak)
-          if (streakMsg) {
-            setCelebrationMessage({ text: streakMsg.text, emoji: streakMsg.emoji })
-            setIsStreakCelebration(true)
-          } else {
-            // Random celebration message
-            const randomMsg = celebrationMessages[Math.floor(Math.random() * celebrationMessages.length)]
-            setCelebrationMessage(randomMsg)
-            setIsStreakCelebration(false)
-          }
-
-          setShowCelebration(true)
-          setShowScreenCelebration(true)
-          setTimeout(() => setShowScreenCelebration(false), 600)
-
-          // Voice celebration - say the phrase after sound effect
-          setTimeout(() => {
-            speak(getVoiceCelebration(currentWord.word))
-          }, 500)
-
-          // Move to next word after celebration (longer for streak celebrations)
-          const celebrationDuration = streakMsg ? 2500 : 2000
-          setTimeout(() => {
-            const nextIndex = (currentWordIndex + 1) % words.length
-            setCurrentWordIndex(nextIndex)
-            setShuffledLetters(getShuffledLetters(nextIndex))
-            setPlacedLetters([null, null, null])
-            setUsedTileIds(new Set())
-            setShowCelebration(false)
-            setWrongZoneIndex(null)
-            setCorrectZoneIndex(null)
-            setIsStreakCelebration(false)
-            // Announce the new word after a brief delay
-            setTimeout(() => {
-              speak(`Spell: ${words[nextIndex].word}`)
-            }, 300)
-          }, celebrationDuration)
-        } else {
-          // Word not complete yet - maybe speak encouragement (throttled)
-          const now = Date.now()
-          const timeSinceLastEncouragement = now - lastEncouragementRef.current
-          const placedCount = newPlaced.filter(p => p !== null).length
-
-          if (settings.encouragementEnabled && timeSinceLastEncouragement >= ENCOURAGEMENT_THROTTLE_MS) {
-            lastEncouragementRef.current = now
-            // Use progress phrases if 2+ letters placed, otherwise regular encouragement
-            const phrases = placedCount >= 2 ? progressPhrases : letterEncouragementPhrases
-            const phrase = phrases[Math.floor(Math.random() * phrases.length)]
-            // Small delay so it doesn't overlap with the sound effect
-            setTimeout(() => speak(phrase), 200)
-          }
-        }
-      } else {
-        // Wrong position - trigger shake animation and encouragement
-        setWrongZoneIndex(targetZoneIndex)
-        setTimeout(() => setWrongZoneIndex(null), 400)
-
-        // Show near-correct encouragement popup
-        const randomNearCorrect = nearCorrectMessages[Math.floor(Math.random() * nearCorrectMessages.length)]
-        setNearCorrectFeedback(randomNearCorrect)
-        setTimeout(() => setNearCorrectFeedback(null), 1200)
-      }
+    if (targetZoneIndex !== null) {
+      placeTile(draggedTile, targetZoneIndex)
     }
 
     setDraggedTile(null)
     setActiveZoneIndex(null)
-  }, [draggedTile, placedLetters, currentWord.word, currentWordIndex, speak, streak, settings.encouragementEnabled])
+  }, [draggedTile, placeTile])
+
+  // Tapping a tile picks it up, tapping it again puts it back
+  const handleTileSelect = useCallback((id: string, letter: string) => {
+    if (selectedTile?.id === id) {
+      setSelectedTile(null)
+      announce(`${letter.toUpperCase()} put back.`)
+    } else {
+      setSelectedTile({ id, letter })
+      announce(`${letter.toUpperCase()} picked. Choose a space for it.`)
+    }
+  }, [selectedTile, announce])
+
+  // A wrongly placed tile stays picked so the child can try another space
+  const handleZoneSelect = useCallback((index: number) => {
+    if (!selectedTile) {
+      announce('Pick a letter first.')
+      return
+    }
+    if (placeTile(selectedTile, index)) {
+      setSelectedTile(null)
+    }
+  }, [selectedTile, placeTile, announce])
+
+  const scanItems = useMemo<ScanItem[]>(() => {
+    if (!selectedTile) {
+      return shuffledLetters.flatMap((_, index) => (usedTileIds.has(`tile-${index}`) ? [] : [{ kind: 'tile' as const, index }]))
+    }
+    return [
+      ...placedLetters.flatMap((placed, index) => (placed === null ? [{ kind: 'zone' as const, index }] : [])),
+      { kind: 'tile', index: Number(selectedTile.id.replace('tile-', '')) },
+    ]
+  }, [selectedTile, shuffledLetters, usedTileIds, placedLetters])
+
+  const handleScanChoose = useCallback((index: number) => {
+    const item = scanItems[index]
+    if (!item) return
+    if (item.kind === 'zone') {
+      handleZoneSelect(item.index)
+    } else {
+      handleTileSelect(`tile-${item.index}`, shuffledLetters[item.index])
+    }
+  }, [scanItems, shuffledLetters, handleZoneSelect, handleTileSelect])
+
+  const scanIndex = useSwitchScan({
+    enabled: accessibility.inputMode === InputMode.SCAN && !showCelebration,
+    intervalMs: accessibility.scanIntervalMs,
+    itemCount: scanItems.length,
+    resetKey: `${currentWord.word}:${tiles.length}:${usedTileIds.size}:${selectedTile?.id ?? ''}`,
+    onChoose: handleScanChoose,
+  })
+  const scanItem = scanIndex === null ? null : scanItems[scanIndex]
 
   const handleZoneBounds = useCallback((index: number, bounds: DOMRect) => {
     zoneBoundsRef.current.set(index, bounds)
   }, [])
 
   const handleSkip = () => {
+    recordReview(currentWord.word, false)
+    recordItem(currentWord.word, 'skipped', { attempts: mistakesRef.current })
     goToNextWord(true) // Reset streak when skipping
   }
 
+  // Long words get smaller zones; chunk and syllable tiles grow to fit their letters
+  const tileSizeClass = [
+    tiles.length > 5 ? 'compact' : '',
+    tiles.some(tile => tile.length > 1) ? 'wide' : '',
+  ].join(' ')
+
   return (
     <div className={`spelling-game ${showScreenCelebration ? 'screen-celebration' : ''}`}>
       {/* Header */}
@@ -398,6 +556,32 @@ export default function SpellingGame({ onBack }: SpellingGameProps) {
         </div>
       </header>
 
+      {/* Difficulty tiers */}
+      <div className="spelling-tiers" role="group" aria-label="Word difficulty">
+        {spellingTiers.map(tier => (
+          <button
+            key={tier.level}
+            className={`tier-button ${tier.level === tierLevel ? 'selected' : ''}`}
+            onClick={() => handleTierChange(tier.level)}
+            aria-pressed={tier.level === tierLevel}
+            title={tier.description}
+            type="button"
+          >
+            {'⭐'.repeat(tier.level)} {tier.name}
+          </button>
+        ))}
+        {currentWord.syllables.length > 1 && (
+          <button
+            className={`tier-button syllable-toggle ${syllableMode ? 'selected' : ''}`}
+            onClick={handleSyllableToggle}
+            aria-pressed={syllableMode}
+            type="button"
+          >
+            ✂️ Syllables
+          </button>
+        )}
+      </div>
+
       {/* Celebration overlay */}
       {showCelebration && (
         <div className={`celebration-overlay ${isStreakCelebration ? 'streak-celebration' : ''}`}>
@@ -513,44 +697,64 @@ export default function SpellingGame({ onBack }: SpellingGameProps) {
 
       {/* Word hint */}
       <div className="word-hint">
-        <div className="hint-image">{currentWord.image}</div>
-        <p className="hint-text">Spell the word!</p>
-      </div>
-
-      {/* Drop zones */}
-      <div className="drop-zones">
-        {[0, 1, 2].map(index => (
-          <DropZone
-            key={index}
-            index={index}
-            expectedLetter={currentWord.word[index]}
-            currentLetter={placedLetters[index]?.letter || null}
-            isActive={activeZoneIndex === index}
-            onGetBounds={handleZoneBounds}
-            showWrongAnimation={wrongZoneIndex === index}
-            showCorrectAnimation={correctZoneIndex === index}
-          />
-        ))}
+        <div className="hint-image">{currentWord.emoji}</div>
+        <p className="hint-text">
+          {accessibility.inputMode === InputMode.SCAN
+            ? 'Press your switch to pick a letter, then its space!'
+            : selectMode
+              ? 'Tap a letter, then tap its space!'
+              : 'Spell the word!'}
+        </p>
       </div>
 
-      {/* Letter tiles */}
-      <div className="letter-tiles">
-        {shuffledLetters.map((letter, index) => {
-          const tileId = `tile-${index}`
-          const isUsed = usedTileIds.has(tileId)
-          return (
-            <LetterTile
-              key={tileId}
-              id={tileId}
-              letter={letter}
-              onDragStart={handleDragStart}
-              onDragEnd={handleDragEnd}
-              onDrag={handleDrag}
-              disabled={isUsed}
-              placed={isUsed}
+      {/* Placements read out for screen readers */}
+      <p className="visually-hidden" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </p>
+
+      <div className="spelling-board" onKeyDown={selectMode ? handleArrowKeys : undefined}>
+        {/* Drop zones */}
+        <div className={`drop-zones ${tileSizeClass}`}>
+          {tiles.map((tile, index) => (
+            <DropZone
+              key={index}
+              index={index}
+              expectedLetter={tile}
+              currentLetter={placedLetters[index]?.letter || null}
+              isActive={activeZoneIndex === index}
+              onGetBounds={handleZoneBounds}
+              showWrongAnimation={wrongZoneIndex === index}
+              showCorrectAnimation={correctZoneIndex === index}
+              onSelect={selectMode ? handleZoneSelect : undefined}
+              scanHighlighted={scanItem?.kind === 'zone' && scanItem.index === index}
+              navRow="zones"
             />
-          )
-        })}
+          ))}
+        </div>
+
+        {/* Letter tiles */}
+        <div className={`letter-tiles ${tileSizeClass}`}>
+          {shuffledLetters.map((letter, index) => {
+            const tileId = `tile-${index}`
+            const isUsed = usedTileIds.has(tileId)
+            return (
+              <LetterTile
+                key={tileId}
+                id={tileId}
+                letter={letter}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+                onDrag={handleDrag}
+                disabled={isUsed}
+                placed={isUsed}
+                onSelect={selectMode ? handleTileSelect : undefined}
+                selected={selectedTile?.id === tileId}
+                scanHighlighted={scanItem?.kind === 'tile' && scanItem.index === index}
+                navRow="tiles"
+              />
+            )
+          })}
+        </div>
       </div>
 
       {/* Skip button */}
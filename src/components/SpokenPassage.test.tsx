@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import SpokenPassage from './SpokenPassage'
+import type { SpeechProgress } from '../hooks/useVoice'
+
+const mockSpeak = vi.fn()
+let mockProgress: SpeechProgress | null = null
+
+vi.mock('../hooks/useVoice', () => ({
+  useVoice: () => ({
+    speak: mockSpeak,
+    speechProgress: mockProgress,
+  }),
+}))
+
+describe('SpokenPassage', () => {
+  beforeEach(() => {
+    mockSpeak.mockReset()
+    mockProgress = null
+  })
+
+  it('shows the whole passage with nothing highlighted', () => {
+    const { container } = render(<SpokenPassage text="The cat sat." />)
+
+    expect(container.firstChild).toHaveTextContent(/^The cat sat\.$/)
+    expect(container.querySelector('.speaking')).toBeNull()
+  })
+
+  it('highlights the word being spoken', () => {
+    mockProgress = { text: ' The cat\nsat.', wordIndex: 2 }
+    render(<SpokenPassage text={' The cat\nsat.'} />)
+
+    expect(screen.getByRole('button', { name: 'sat.' })).toHaveClass('speaking')
+    expect(screen.getByRole('button', { name: 'sat.' })).toHaveAttribute('aria-current', 'true')
+    expect(screen.getByRole('button', { name: 'cat' })).not.toHaveClass('speaking')
+  })
+
+  it('ignores progress for other text', () => {
+    mockProgress = { text: 'A dog ran.', wordIndex: 0 }
+    const { container } = render(<SpokenPassage text="The cat sat." />)
+
+    expect(container.querySelector('.speaking')).toBeNull()
+  })
+
+  it('says a word when it is tapped', async () => {
+    render(<SpokenPassage text="The cat sat." />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'cat' }))
+
+    expect(mockSpeak).toHaveBeenCalledWith('cat')
+  })
+})
@@ -0,0 +1,50 @@
+import { useVoice } from '../hooks/useVoice'
+import ReadableText from './ReadableText'
+import './SpokenPassage.css'
+
+interface SpokenPassageProps {
+  text: string
+}
+
+interface PassagePart {
+  text: string
+  /** Position among the words, numbered the way the server numbers word timings; null for spaces */
+  wordIndex: number | null
+}
+
+function splitPassage(text: string): PassagePart[] {
+  let wordIndex = 0
+  return text.split(/(\s+)/).filter(Boolean).map(part => ({
+    text: part,
+    wordIndex: /^\s/.test(part) ? null : wordIndex++,
+  }))
+}
+
+/**
+ * Reading text that follows along when it is read aloud with trackWords,
+ * lighting up each word as it is spoken. Tapping a word says just that word.
+ */
+export default function SpokenPassage({ text }: SpokenPassageProps) {
+  const { speak, speechProgress } = useVoice()
+  const spokenIndex = speechProgress?.text === text ? speechProgress.wordIndex : null
+
+  return (
+    <span className="readable-text spoken-passage">
+      {splitPassage(text).map((part, i) => {
+        if (part.wordIndex === null) return part.text
+        const speaking = part.wordIndex === spokenIndex
+        return (
+          <button
+            key={i}
+            type="button"
+            className={`spoken-word ${speaking ? 'speaking' : ''}`.trim()}
+            aria-current={speaking ? 'true' : undefined}
+            onClick={() => speak(part.text)}
+          >
+            <ReadableText text={part.text} />
+          </button>
+        )
+      })}
+    </span>
+  )
+}
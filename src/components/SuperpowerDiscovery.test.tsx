@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import SuperpowerDiscovery from './SuperpowerDiscovery'
+import { vakQuestions, type DiscoveryProgress } from '../game-data/learning-profile'
+import '@testing-library/jest-dom'
+
+function mockOnboarding(discovery: DiscoveryProgress | null) {
+  vi.mocked(global.fetch).mockImplementation((_url, init) => Promise.resolve({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(init?.method === 'PUT' ? {} : { onboarding: { step: 0, data: { discovery } } }),
+  } as Response))
+}
+
+function lastSavedBody() {
+  const puts = vi.mocked(global.fetch).mock.calls.filter(([, init]) => init?.method === 'PUT')
+  return JSON.parse(puts[puts.length - 1][1]!.body as string)
+}
+
+describe('SuperpowerDiscovery', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn()
+    localStorage.setItem('auth_token', 'jwt-token')
+  })
+
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('asks personality questions, saves progress and pauses', async () => {
+    const user = userEvent.setup()
+    mockOnboarding(null)
+    const onBack = vi.fn()
+    render(<SuperpowerDiscovery childId="child-1" childName="Mia" onComplete={vi.fn()} onBack={onBack} />)
+
+    expect(screen.getByText(/let's discover mia's learning superpowers/i)).toBeInTheDocument()
+    await user.click(await screen.findByRole('button', { name: /let's start/i }))
+
+    expect(screen.getByText('Question 1 of 23')).toBeInTheDocument()
+    expect(screen.getByRole('heading', { level: 2 }).textContent).toMatch(/Mia/)
+    await user.click(screen.getAllByRole('button', { pressed: false })[0])
+
+    expect(screen.getByText('Question 2 of 23')).toBeInTheDocument()
+    const saved = lastSavedBody()
+    expect(saved.step).toBeUndefined()
+    expect(saved.data.discovery.step).toBe(1)
+    expect(saved.data.discovery.childId).toBe('child-1')
+    expect(saved.data.discovery.personalityQuestionIds).toHaveLength(8)
+    expect(Object.keys(saved.data.discovery.answers)).toHaveLength(1)
+
+    await user.click(screen.getByRole('button', { name: /finish later/i }))
+    expect(onBack).toHaveBeenCalled()
+  })
+
+  it('resumes saved progress and shows the superpowers at the end', async () => {
+    const user = userEvent.setup()
+    const learningStyleAnswers = Object.fromEntries(vakQuestions.questions.map(q => [q.id, `${q.id}-k`]))
+    delete learningStyleAnswers['vak-015']
+    const personalityAnswers = { 'pers-001': 'pers-001-b' }
+    mockOnboarding({
+      childId: 'child-1',
+      personalityQuestionIds: ['pers-001'],
+      answers: { ...personalityAnswers, ...learningStyleAnswers },
+      step: 15,
+    })
+    const onComplete = vi.fn().mockResolvedValue(undefined)
+    render(<SuperpowerDiscovery childId="child-1" childName="Mia" onComplete={onComplete} onBack={vi.fn()} />)
+
+    await user.click(await screen.findByRole('button', { name: /pick up at question 16/i }))
+    expect(screen.getByText('Question 16 of 16')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: /high fives/i }))
+
+    expect(screen.getByRole('heading', { name: /mia's learning superpowers/i })).toBeInTheDocument()
+    expect(screen.getByText('Super Mover', { selector: '.discovery-superpower-name' })).toBeInTheDocument()
+    expect(screen.getByText('Kinesthetic Learner')).toBeInTheDocument()
+    expect(onComplete).toHaveBeenCalledWith({
+      learningStyleAnswers: { ...learningStyleAnswers, 'vak-015': 'vak-015-k' },
+      personalityAnswers,
+    })
+    await waitFor(() => expect(lastSavedBody()).toEqual({ data: { discovery: null } }))
+  })
+
+  it('ignores progress saved for another child', async () => {
+    mockOnboarding({ childId: 'child-2', personalityQuestionIds: ['pers-001'], answers: {}, step: 4 })
+    render(<SuperpowerDiscovery childId="child-1" childName="Mia" onComplete={vi.fn()} onBack={vi.fn()} />)
+
+    expect(await screen.findByRole('button', { name: /let's start/i })).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /pick up/i })).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,275 @@
+import { useState, useCallback, useMemo } from 'react'
+import { useDiscoveryProgress } from '../hooks/useDiscoveryProgress'
+import {
+  vakQuestions,
+  personalityQuestions,
+  pickPersonalityQuestions,
+  getPersonalityQuestionsById,
+  scoreLearningStyle,
+  scorePersonality,
+  withChildName,
+  getPersonalityBand,
+  MODALITIES,
+  PERSONALITY_DIMENSIONS,
+  type DiscoveryProgress,
+  type QuizAnswers,
+} from '../game-data/learning-profile'
+import Confetti from './Confetti'
+import './SuperpowerDiscovery.css'
+
+interface SuperpowerDiscoveryProps {
+  childId: string
+  childName: string
+  onComplete: (answers: { learningStyleAnswers: QuizAnswers; personalityAnswers: QuizAnswers }) => Promise<unknown>
+  onBack: () => void
+}
+
+interface QuizQuestion {
+  id: string
+  section: 'personality' | 'learning-style'
+  context: string
+  prompt: string
+  options: { id: string; text: string }[]
+}
+
+type Phase = 'intro' | 'questions' | 'results'
+
+type SaveState = 'saving' | 'saved' | 'failed'
+
+/** Personality scenario cards first, then the fifteen learning style questions */
+function buildQuestions(personalityQuestionIds: string[], childName: string): QuizQuestion[] {
+  return [
+    ...getPersonalityQuestionsById(personalityQuestionIds).map(q => ({
+      id: q.id,
+      section: 'personality' as const,
+      context: q.situation,
+      prompt: withChildName(q.prompt, childName),
+      options: q.options,
+    })),
+    ...vakQuestions.questions.map(q => ({
+      id: q.id,
+      section: 'learning-style' as const,
+      context: q.context,
+      prompt: withChildName(q.question, childName),
+      options: q.options,
+    })),
+  ]
+}
+
+function splitAnswers(answers: QuizAnswers) {
+  const learningStyleAnswers: QuizAnswers = {}
+  const personalityAnswers: QuizAnswers = {}
+  for (const [questionId, optionId] of Object.entries(answers)) {
+    if (vakQuestions.questions.some(q => q.id === questionId)) {
+      learningStyleAnswers[questionId] = optionId
+    } else {
+      personalityAnswers[questionId] = optionId
+    }
+  }
+  return { learningStyleAnswers, personalityAnswers }
+}
+
+export default function SuperpowerDiscovery({ childId, childName, onComplete, onBack }: SuperpowerDiscoveryProps) {
+  const { savedProgress, isLoading, saveProgress, clearProgress } = useDiscoveryProgress(childId)
+  const [phase, setPhase] = useState<Phase>('intro')
+  const [progress, setProgress] = useState<DiscoveryProgress | null>(null)
+  const [saveState, setSaveState] = useState<SaveState | null>(null)
+
+  const questions = useMemo(
+    () => (progress ? buildQuestions(progress.personalityQuestionIds, childName) : []),
+    [progress, childName]
+  )
+  const step = progress?.step ?? 0
+  const question = questions[step]
+
+  const start = (resume: boolean) => {
+    if (resume && savedProgress) {
+      setProgress(savedProgress)
+    } else {
+      setProgress({
+        childId,
+        personalityQuestionIds: pickPersonalityQuestions().map(q => q.id),
+        answers: {},
+        step: 0,
+      })
+    }
+    setPhase('questions')
+  }
+
+  const submit = useCallback((answers: QuizAnswers) => {
+    setSaveState('saving')
+    onComplete(splitAnswers(answers))
+      .then(() => {
+        setSaveState('saved')
+        clearProgress()
+      })
+      .catch(() => setSaveState('failed'))
+  }, [onComplete, clearProgress])
+
+  const handleAnswer = (optionId: string) => {
+    if (!progress || !question) return
+
+    const answers = { ...progress.answers, [question.id]: optionId }
+    const isLast = step + 1 >= questions.length
+    const next = { ...progress, answers, step: isLast ? step : step + 1 }
+    setProgress(next)
+    saveProgress(next)
+    if (isLast) {
+      setPhase('results')
+      submit(answers)
+    }
+  }
+
+  const handlePause = () => {
+    if (progress) {
+      saveProgress(progress)
+    }
+    onBack()
+  }
+
+  if (phase === 'results' && progress) {
+    const learningStyle = scoreLearningStyle(progress.answers)
+    const personality = scorePersonality(progress.answers)
+    const primary = vakQuestions.framing.modalities[learningStyle.primaryStyle]
+
+    return (
+      <div className="superpower-discovery">
+        <Confetti active duration={4000} pieceCount={100} />
+        <div className="discovery-results">
+          <h2>🌟 {childName}'s Learning Superpowers!</h2>
+          <div className="discovery-superpower">
+            <span className="discovery-superpower-emoji" aria-hidden="true">{primary.emoji}</span>
+            <span className="discovery-superpower-name">{primary.superpowerName}</span>
+            <span className="discovery-superpower-description">{primary.description}</span>
+          </div>
+          <p className="discovery-profile-label">{learningStyle.profileLabel}</p>
+
+          <ul className="discovery-modalities">
+            {MODALITIES.map(modality => (
+              <li key={modality} className="discovery-modality">
+                <span className="discovery-modality-name">
+                  {vakQuestions.framing.modalities[modality].emoji} {vakQuestions.framing.modalities[modality].superpowerName}
+                </span>
+                <span className="discovery-modality-bar" aria-hidden="true">
+                  <span style={{ width: `${learningStyle[modality]}%` }} />
+                </span>
+                <span className="discovery-modality-percent">{learningStyle[modality]}%</span>
+              </li>
+            ))}
+          </ul>
+
+          <h3>Ideas to try</h3>
+          <ul className="discovery-recommendations">
+            {vakQuestions.recommendations[learningStyle.primaryStyle].slice(0, 3).map(tip => (
+              <li key={tip}>{tip}</li>
+            ))}
+          </ul>
+
+          <h3>How {childName} learns</h3>
+          <dl className="discovery-personality">
+            {PERSONALITY_DIMENSIONS.map(dimension => {
+              const meta = personalityQuestions.dimensions[dimension]
+              return (
+                <div key={dimension} className="discovery-dimension">
+                  <dt>{meta.name}</dt>
+                  <dd>{meta.scale[getPersonalityBand(personality[dimension])]}</dd>
+                </div>
+              )
+            })}
+          </dl>
+
+          {saveState === 'saving' && <p className="discovery-save" role="status">Saving...</p>}
+          {saveState === 'failed' && (
+            <div className="discovery-save" role="status">
+              <p>We couldn't save these results.</p>
+              <button className="discovery-retry-btn" type="button" onClick={() => submit(progress.answers)}>
+                Try again
+              </button>
+            </div>
+          )}
+          <button className="discovery-done-btn" type="button" onClick={onBack}>
+            Done
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="superpower-discovery">
+      <header className="game-header">
+        <button className="back-button" onClick={phase === 'questions' ? handlePause : onBack} type="button">
+          {phase === 'questions' ? 'Finish later' : '← Back'}
+        </button>
+        <h1>{vakQuestions.framing.title}</h1>
+        {question && (
+          <span className="discovery-count">Question {step + 1} of {questions.length}</span>
+        )}
+      </header>
+
+      <main className="game-content">
+        {phase === 'intro' && (
+          <div className="discovery-intro">
+            <p className="discovery-intro-text">{withChildName(vakQuestions.framing.intro, childName)}</p>
+            <p className="discovery-intro-note">
+              This one is for grown-ups. Answer with what {childName} usually does - you can stop at any
+              time and pick up where you left off.
+            </p>
+            {isLoading ? (
+              <p className="discovery-loading">Loading...</p>
+            ) : savedProgress ? (
+              <div className="discovery-start">
+                <button className="discovery-start-btn" type="button" onClick={() => start(true)}>
+                  Pick up at question {savedProgress.step + 1}
+                </button>
+                <button className="discovery-restart-btn" type="button" onClick={() => start(false)}>
+                  Start over
+                </button>
+              </div>
+            ) : (
+              <div className="discovery-start">
+                <button className="discovery-start-btn" type="button" onClick={() => start(false)}>
+                  Let's start
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {phase === 'questions' && question && progress && (
+          <div className={`discovery-question discovery-question-${question.section}`}>
+            <div
+              className="discovery-progress"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={questions.length}
+              aria-valuenow={step}
+            >
+              <span style={{ width: `${(step / questions.length) * 100}%` }} />
+            </div>
+            <p className="discovery-context">{question.context}</p>
+            <h2 className="discovery-prompt">{question.prompt}</h2>
+            <div className="discovery-options">
+              {question.options.map(option => (
+                <button
+                  key={option.id}
+                  className="discovery-option"
+                  type="button"
+                  aria-pressed={progress.answers[question.id] === option.id}
+                  onClick={() => handleAnswer(option.id)}
+                >
+                  {option.text}
+                </button>
+              ))}
+            </div>
+            {step > 0 && (
+              <button className="discovery-previous-btn" type="button" onClick={() => setProgress({ ...progress, step: step - 1 })}>
+                Previous question
+              </button>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
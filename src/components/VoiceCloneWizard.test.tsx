@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import VoiceCloneWizard from './VoiceCloneWizard'
+import '@testing-library/jest-dom'
+
+// Each click stands in for one finished recording
+vi.mock('./MicrophoneInput', () => ({
+  default: ({ onRecordingComplete }: { onRecordingComplete: (blob: Blob) => void }) => (
+    <button type="button" onClick={() => onRecordingComplete(new Blob(['audio'], { type: 'audio/webm' }))}>
+      Record
+    </button>
+  ),
+}))
+
+describe('VoiceCloneWizard', () => {
+  const onCreated = vi.fn()
+  const onCancel = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    global.fetch = vi.fn()
+  })
+
+  async function recordSentences(user: ReturnType<typeof userEvent.setup>, count: number) {
+    for (let i = 0; i < count; i++) {
+      await user.click(screen.getByRole('button', { name: 'Record' }))
+    }
+  }
+
+  it('asks for consent before recording', async () => {
+    const user = userEvent.setup()
+    render(<VoiceCloneWizard token="parent-token" onCreated={onCreated} onCancel={onCancel} />)
+
+    const start = screen.getByRole('button', { name: 'Start recording' })
+    expect(start).toBeDisabled()
+
+    await user.click(screen.getByRole('checkbox'))
+    await user.click(start)
+
+    expect(screen.getByText('Sentence 1 of 5')).toBeInTheDocument()
+  })
+
+  it('needs three recordings, then uploads them with the voice name', async () => {
+    const user = userEvent.setup()
+    ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ voice: { voiceId: 'clone-1', name: 'Mom', category: 'cloned' } }),
+    })
+    render(<VoiceCloneWizard token="parent-token" onCreated={onCreated} onCancel={onCancel} />)
+
+    await user.click(screen.getByRole('checkbox'))
+    await user.click(screen.getByRole('button', { name: 'Start recording' }))
+    await recordSentences(user, 2)
+    expect(screen.getByRole('button', { name: 'Continue' })).toBeDisabled()
+
+    await recordSentences(user, 1)
+    await user.click(screen.getByRole('button', { name: 'Continue' }))
+    await user.type(screen.getByPlaceholderText('e.g. Mom'), 'Mom')
+    await user.click(screen.getByRole('button', { name: 'Create voice' }))
+
+    await waitFor(() => {
+      expect(onCreated).toHaveBeenCalledWith({ voiceId: 'clone-1', name: 'Mom', category: 'cloned' })
+    })
+    const [url, init] = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0]
+    expect(url).toBe('/api/voice/voices/clone')
+    expect(init.headers).toEqual({ Authorization: 'Bearer parent-token' })
+    const body = init.body as FormData
+    expect(body.get('name')).toBe('Mom')
+    expect(body.get('consent')).toBe('true')
+    expect(body.getAll('samples')).toHaveLength(3)
+  })
+
+  it('shows validation errors from the server', async () => {
+    const user = userEvent.setup()
+    ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: false,
+      json: () => Promise.resolve({
+        error: 'Invalid voice clone request',
+        validationErrors: [{ field: 'samples', message: 'at least 3 recordings are required' }],
+      }),
+    })
+    render(<VoiceCloneWizard token="parent-token" onCreated={onCreated} onCancel={onCancel} />)
+
+    await user.click(screen.getByRole('checkbox'))
+    await user.click(screen.getByRole('button', { name: 'Start recording' }))
+    await recordSentences(user, 3)
+    await user.click(screen.getByRole('button', { name: 'Continue' }))
+    await user.type(screen.getByPlaceholderText('e.g. Mom'), 'Dad')
+    await user.click(screen.getByRole('button', { name: 'Create voice' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('at least 3 recordings are required')
+    expect(onCreated).not.toHaveBeenCalled()
+  })
+})
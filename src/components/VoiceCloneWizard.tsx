@@ -0,0 +1,171 @@
+import { useState, useCallback } from 'react'
+import MicrophoneInput from './MicrophoneInput'
+import type { Voice } from './VoiceSelector'
+import {
+  CLONE_SAMPLE_SENTENCES,
+  MIN_CLONE_SAMPLES,
+  MAX_CLONE_SAMPLES,
+  MAX_CLONE_NAME_LENGTH,
+} from '../types/voiceCloning'
+import './VoiceCloneWizard.css'
+
+interface VoiceCloneWizardProps {
+  token: string
+  onCreated: (voice: Voice) => void
+  onCancel: () => void
+}
+
+type WizardStep = 'consent' | 'record' | 'name'
+
+export default function VoiceCloneWizard({ token, onCreated, onCancel }: VoiceCloneWizardProps) {
+  const [step, setStep] = useState<WizardStep>('consent')
+  const [consent, setConsent] = useState(false)
+  const [recordings, setRecordings] = useState<Blob[]>([])
+  const [name, setName] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleRecordingComplete = useCallback((audioBlob: Blob) => {
+    setRecordings(prev => prev.length < MAX_CLONE_SAMPLES ? [...prev, audioBlob] : prev)
+  }, [])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    const formData = new FormData()
+    formData.append('name', name.trim())
+    formData.append('consent', String(consent))
+    recordings.forEach((recording, index) => {
+      formData.append('samples', recording, `sample-${index + 1}.webm`)
+    })
+
+    try {
+      const response = await fetch('/api/voice/voices/clone', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+        body: formData,
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const details = (data.validationErrors as Array<{ message: string }> | undefined)
+          ?.map(e => e.message)
+          .join(', ')
+        throw new Error(details || data.error || 'Failed to create voice')
+      }
+
+      onCreated(data.voice)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create voice')
+      setIsSubmitting(false)
+    }
+  }
+
+  const nextSentence = CLONE_SAMPLE_SENTENCES[recordings.length]
+
+  return (
+    <div className="voice-clone-wizard" role="group" aria-label="Record your voice">
+      {step === 'consent' && (
+        <div className="voice-clone-step">
+          <p className="voice-clone-text">
+            Record {MIN_CLONE_SAMPLES} to {MAX_CLONE_SAMPLES} short sentences and we will make a voice
+            that reads lessons to your child. Your recordings are sent to our speech provider to build
+            the voice. Only your family can use it, and you can delete it at any time.
+          </p>
+          <label className="voice-clone-consent">
+            <input
+              type="checkbox"
+              checked={consent}
+              onChange={(e) => setConsent(e.target.checked)}
+            />
+            <span>This is my own voice and I agree to it being cloned</span>
+          </label>
+          <div className="voice-clone-actions">
+            <button type="button" className="voice-clone-btn secondary" onClick={onCancel}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="voice-clone-btn primary"
+              disabled={!consent}
+              onClick={() => setStep('record')}
+            >
+              Start recording
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'record' && (
+        <div className="voice-clone-step">
+          {nextSentence ? (
+            <>
+              <p className="voice-clone-progress">
+                Sentence {recordings.length + 1} of {MAX_CLONE_SAMPLES}
+              </p>
+              <p className="voice-clone-sentence">{nextSentence}</p>
+              <MicrophoneInput onRecordingComplete={handleRecordingComplete} />
+            </>
+          ) : (
+            <p className="voice-clone-progress">All sentences recorded!</p>
+          )}
+          <div className="voice-clone-actions">
+            <button
+              type="button"
+              className="voice-clone-btn secondary"
+              disabled={recordings.length === 0}
+              onClick={() => setRecordings(prev => prev.slice(0, -1))}
+            >
+              Redo last sentence
+            </button>
+            <button
+              type="button"
+              className="voice-clone-btn primary"
+              disabled={recordings.length < MIN_CLONE_SAMPLES}
+              onClick={() => setStep('name')}
+            >
+              Continue
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'name' && (
+        <form className="voice-clone-step" onSubmit={handleSubmit}>
+          <label className="voice-clone-name">
+            <span>What should we call this voice?</span>
+            <input
+              type="text"
+              value={name}
+              maxLength={MAX_CLONE_NAME_LENGTH}
+              placeholder="e.g. Mom"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </label>
+          {error && (
+            <p className="voice-clone-error" role="alert">{error}</p>
+          )}
+          <div className="voice-clone-actions">
+            <button
+              type="button"
+              className="voice-clone-btn secondary"
+              disabled={isSubmitting}
+              onClick={() => setStep('record')}
+            >
+              Back
+            </button>
+            <button
+              type="submit"
+              className="voice-clone-btn primary"
+              disabled={isSubmitting || !name.trim()}
+            >
+              {isSubmitting ? 'Creating voice...' : 'Create voice'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
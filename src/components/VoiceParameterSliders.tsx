@@ -1,4 +1,5 @@
 import { useState, useRef, useCallback } from 'react'
+import { getAuthHeaders } from '../hooks/useAuth'
 import './VoiceParameterSliders.css'
 
 export interface VoiceSettings {
@@ -201,7 +202,7 @@ export default function VoiceParameterSliders({
 
       const response = await fetch('/api/voice/tts', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
         body: JSON.stringify({
           voiceId,
           text: phrase,
@@ -1,4 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
+import { getAuthHeaders } from '../hooks/useAuth'
+import { PARENT_CLONE_LABELS } from '../types/voiceCloning'
 import './VoiceSelector.css'
 
 export interface Voice {
@@ -21,6 +23,11 @@ const CHILD_FRIENDLY_CATEGORIES = ['premade', 'professional']
 const CHILD_FRIENDLY_KEYWORDS = ['child', 'kid', 'young', 'friendly', 'warm', 'soft', 'gentle']
 
 function isChildFriendly(voice: Voice): boolean {
+  // A parent's own recorded voice is always suitable for their child
+  if (voice.labels?.recorded_by === PARENT_CLONE_LABELS.recorded_by) {
+    return true
+  }
+
   // Check category
   if (voice.category && CHILD_FRIENDLY_CATEGORIES.includes(voice.category.toLowerCase())) {
     return true
@@ -69,7 +76,8 @@ export default function VoiceSelector({
         setLoading(true)
         setError(null)
 
-        const response = await fetch('/api/voice/voices')
+        // Signed-in parents also see the voices they cloned
+        const response = await fetch('/api/voice/voices', { headers: getAuthHeaders() })
         if (!response.ok) {
           throw new Error('Failed to load voices')
         }
@@ -1,16 +1,30 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { useVoice } from '../hooks/useVoice'
+import { useReviewQueue } from '../hooks/useReviewQueue'
+import { useGameSession } from '../hooks/useGameSession'
+import { useSwitchScan } from '../hooks/useSwitchScan'
+import { useArrowNavigation } from '../hooks/useArrowNavigation'
+import { useAnnouncer } from '../hooks/useAnnouncer'
+import { requireLexiconEntry } from '../game-data/lexicon'
+import { shuffleArray } from '../game/shuffle'
+import { InputMode, DEFAULT_ACCESSIBILITY_SETTINGS, type AccessibilitySettings } from '../types/accessibility'
 import './WordBuilder.css'
 
 interface WordBuilderProps {
   onBack: () => void
+  childId?: string
+  accessibility?: AccessibilitySettings
 }
 
+// What switch scanning steps through: the letters, then Clear and Check Word
+// once something has been built
+type ScanItem = { kind: 'letter'; index: number } | { kind: 'clear' } | { kind: 'submit' }
+
 interface WordPuzzle {
   word: string
   emoji: string
   hint: string
-  phonemes: string[] // Phoneme breakdown for learning
+  graphemes: string[] // Sound-by-sound spelling for learning
 }
 
 // Confetti particle for celebration effect
@@ -24,24 +38,29 @@ interface ConfettiParticle {
   delay: number
 }
 
-const WORD_PUZZLES: WordPuzzle[] = [
-  { word: 'cat', emoji: '🐱', hint: 'A furry pet that meows', phonemes: ['c', 'a', 't'] },
-  { word: 'dog', emoji: '🐕', hint: 'A furry pet that barks', phonemes: ['d', 'o', 'g'] },
-  { word: 'sun', emoji: '☀️', hint: 'It shines in the sky', phonemes: ['s', 'u', 'n'] },
-  { word: 'hat', emoji: '🎩', hint: 'You wear it on your head', phonemes: ['h', 'a', 't'] },
-  { word: 'cup', emoji: '🥤', hint: 'You drink from it', phonemes: ['c', 'u', 'p'] },
-  { word: 'bed', emoji: '🛏️', hint: 'You sleep on it', phonemes: ['b', 'e', 'd'] },
-  { word: 'bus', emoji: '🚌', hint: 'A big vehicle for people', phonemes: ['b', 'u', 's'] },
-  { word: 'car', emoji: '🚗', hint: 'You drive it', phonemes: ['c', 'ar'] },
-  { word: 'pen', emoji: '🖊️', hint: 'You write with it', phonemes: ['p', 'e', 'n'] },
-  { word: 'pig', emoji: '🐷', hint: 'A pink farm animal', phonemes: ['p', 'i', 'g'] },
-  { word: 'box', emoji: '📦', hint: 'You put things inside', phonemes: ['b', 'o', 'x'] },
-  { word: 'fox', emoji: '🦊', hint: 'A clever orange animal', phonemes: ['f', 'o', 'x'] },
-  { word: 'red', emoji: '🔴', hint: 'The color of apples', phonemes: ['r', 'e', 'd'] },
-  { word: 'run', emoji: '🏃', hint: 'Move fast with your legs', phonemes: ['r', 'u', 'n'] },
-  { word: 'hop', emoji: '🐰', hint: 'Jump like a bunny', phonemes: ['h', 'o', 'p'] },
+const PUZZLE_HINTS: Array<Pick<WordPuzzle, 'word' | 'hint'>> = [
+  { word: 'cat', hint: 'A furry pet that meows' },
+  { word: 'dog', hint: 'A furry pet that barks' },
+  { word: 'sun', hint: 'It shines in the sky' },
+  { word: 'hat', hint: 'You wear it on your head' },
+  { word: 'cup', hint: 'You drink from it' },
+  { word: 'bed', hint: 'You sleep on it' },
+  { word: 'bus', hint: 'A big vehicle for people' },
+  { word: 'car', hint: 'You drive it' },
+  { word: 'pen', hint: 'You write with it' },
+  { word: 'pig', hint: 'A pink farm animal' },
+  { word: 'box', hint: 'You put things inside' },
+  { word: 'fox', hint: 'A clever orange animal' },
+  { word: 'red', hint: 'The color of apples' },
+  { word: 'run', hint: 'Move fast with your legs' },
+  { word: 'hop', hint: 'Jump like a bunny' },
 ]
 
+const WORD_PUZZLES: WordPuzzle[] = PUZZLE_HINTS.map(({ word, hint }) => {
+  const entry = requireLexiconEntry(word)
+  return { word, hint, emoji: entry.emoji!, graphemes: entry.graphemes }
+})
+
 const CONFETTI_COLORS = ['#ff6b6b', '#4ecdc4', '#ffe66d', '#95e1d3', '#f38181', '#aa96da', '#fcbad3']
 
 const ENCOURAGEMENTS = [
@@ -70,13 +89,9 @@ interface GameState {
   animatingLetterIndex: number | null
 }
 
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array]
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
-  }
-  return shuffled
+// Letters spaced out so screen readers spell them instead of reading a word
+function spellOut(letters: string[]): string {
+  return letters.map(l => l.toUpperCase()).join(' ')
 }
 
 // Generate confetti particles for celebration
@@ -92,8 +107,10 @@ function generateConfetti(count: number): ConfettiParticle[] {
   }))
 }
 
-export default function WordBuilder({ onBack }: WordBuilderProps) {
+export default function WordBuilder({ onBack, childId, accessibility = DEFAULT_ACCESSIBILITY_SETTINGS }: WordBuilderProps) {
   const { speak, settings } = useVoice()
+  const { recordReview, pickWords } = useReviewQueue(childId, 'builder')
+  const { startItem, recordHint, recordItem, endSession } = useGameSession(childId, 'builder')
   const confettiContainerRef = useRef<HTMLDivElement>(null)
   const [gameState, setGameState] = useState<GameState>({
     currentPuzzle: null,
@@ -110,9 +127,13 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
     confetti: [],
     animatingLetterIndex: null,
   })
+  const { message: announcement, announce } = useAnnouncer(accessibility.announcePlacements)
+  const handleArrowKeys = useArrowNavigation()
 
   const generateRound = useCallback(() => {
-    const puzzle = WORD_PUZZLES[Math.floor(Math.random() * WORD_PUZZLES.length)]
+    // Puzzles for words due for review come first
+    const [puzzle] = pickWords(WORD_PUZZLES, 1, p => p.word)
+    startItem()
 
     // Add 2-3 extra random letters as distractors
     const extraLetters = 'abcdefghijklmnopqrstuvwxyz'
@@ -140,7 +161,7 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
         speak(`Build the word! ${puzzle.hint}`)
       }, 500)
     }
-  }, [speak, settings.enabled])
+  }, [speak, settings.enabled, pickWords, startItem])
 
   useEffect(() => {
     if (!gameState.gameComplete && !gameState.currentPuzzle) {
@@ -166,6 +187,7 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
         animatingLetterIndex: null,
       }))
     }, 150)
+    announce(`${letter.toUpperCase()} added. ${spellOut([...gameState.builtWord, letter])}`)
   }
 
   const handleBuiltLetterClick = (letter: string, index: number) => {
@@ -180,6 +202,7 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
       builtWord: newBuilt,
       availableLetters: [...prev.availableLetters, letter],
     }))
+    announce(`${letter.toUpperCase()} taken out.`)
   }
 
   const handleSubmit = async () => {
@@ -187,6 +210,13 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
 
     const builtWordStr = gameState.builtWord.join('')
     const isCorrect = builtWordStr === gameState.currentPuzzle.word
+    recordReview(gameState.currentPuzzle.word, isCorrect)
+    recordItem(gameState.currentPuzzle.word, isCorrect ? 'correct' : 'incorrect')
+    const finalScore = isCorrect ? gameState.score + (10 * (gameState.streak + 1)) : gameState.score
+
+    announce(isCorrect
+      ? `Correct! The word is ${gameState.currentPuzzle.word}.`
+      : `Not quite. The word is ${gameState.currentPuzzle.word}.`)
 
     // Generate confetti for correct answers
     const newConfetti = isCorrect ? generateConfetti(30) : []
@@ -224,6 +254,7 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
     setTimeout(() => {
       const nextRound = gameState.round + 1
       if (nextRound >= gameState.totalRounds) {
+        endSession({ score: finalScore, completed: true })
         setGameState(prev => ({
           ...prev,
           gameComplete: true,
@@ -253,10 +284,12 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
       availableLetters: shuffleArray(allLetters),
       builtWord: [],
     }))
+    announce('Letters cleared.')
   }
 
   const handleHint = () => {
     if (gameState.currentPuzzle && settings.enabled) {
+      recordHint()
       speak(gameState.currentPuzzle.hint)
     }
   }
@@ -279,6 +312,36 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
     })
   }
 
+  const scanItems = useMemo<ScanItem[]>(() => [
+    ...gameState.availableLetters.map((_, index) => ({ kind: 'letter' as const, index })),
+    ...(gameState.builtWord.length > 0 ? [{ kind: 'clear' as const }, { kind: 'submit' as const }] : []),
+  ], [gameState.availableLetters, gameState.builtWord.length])
+
+  const handleScanChoose = (index: number) => {
+    const item = scanItems[index]
+    if (item?.kind === 'letter') {
+      handleLetterClick(gameState.availableLetters[item.index], item.index)
+    } else if (item?.kind === 'clear') {
+      handleClear()
+    } else if (item?.kind === 'submit') {
+      handleSubmit()
+    }
+  }
+
+  const scanIndex = useSwitchScan({
+    enabled: accessibility.inputMode === InputMode.SCAN &&
+      !!gameState.currentPuzzle &&
+      !gameState.showFeedback &&
+      !gameState.gameComplete &&
+      gameState.animatingLetterIndex === null,
+    intervalMs: accessibility.scanIntervalMs,
+    itemCount: scanItems.length,
+    resetKey: `${gameState.round}:${gameState.availableLetters.join('')}:${gameState.builtWord.length}`,
+    onChoose: handleScanChoose,
+  })
+  const scanItem = scanIndex === null ? null : scanItems[scanIndex]
+  const scanClass = (highlighted: boolean) => (highlighted ? 'scan-highlight' : '')
+
   if (gameState.gameComplete) {
     return (
       <div className="word-builder">
@@ -351,7 +414,12 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
         </div>
       </header>
 
-      <main className="word-builder-content">
+      {/* Letters added and removed, read out for screen readers */}
+      <p className="visually-hidden" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </p>
+
+      <main className="word-builder-content" onKeyDown={handleArrowKeys}>
         {gameState.currentPuzzle && (
           <>
             <div className="puzzle-display fade-in">
@@ -375,6 +443,8 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
                       onClick={() => handleBuiltLetterClick(letter, index)}
                       disabled={gameState.showFeedback}
                       type="button"
+                      aria-label={`${letter.toUpperCase()}, take out`}
+                      data-nav-row="built"
                       style={{ animationDelay: `${index * 0.05}s` }}
                     >
                       {letter.toUpperCase()}
@@ -390,10 +460,11 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
                 {gameState.availableLetters.map((letter, index) => (
                   <button
                     key={`avail-${index}`}
-                    className={`letter-tile available ${gameState.animatingLetterIndex === index ? 'animating-out' : ''}`}
+                    className={`letter-tile available ${gameState.animatingLetterIndex === index ? 'animating-out' : ''} ${scanClass(scanItem?.kind === 'letter' && scanItem.index === index)}`}
                     onClick={() => handleLetterClick(letter, index)}
                     disabled={gameState.showFeedback || gameState.animatingLetterIndex !== null}
                     type="button"
+                    data-nav-row="available"
                   >
                     {letter.toUpperCase()}
                   </button>
@@ -403,18 +474,20 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
 
             <div className="action-buttons">
               <button
-                className="clear-btn"
+                className={`clear-btn ${scanClass(scanItem?.kind === 'clear')}`}
                 onClick={handleClear}
                 disabled={gameState.showFeedback || gameState.builtWord.length === 0}
                 type="button"
+                data-nav-row="actions"
               >
                 Clear
               </button>
               <button
-                className="submit-btn"
+                className={`submit-btn ${scanClass(scanItem?.kind === 'submit')}`}
                 onClick={handleSubmit}
                 disabled={gameState.showFeedback || gameState.builtWord.length === 0}
                 type="button"
+                data-nav-row="actions"
               >
                 Check Word
               </button>
@@ -435,13 +508,13 @@ export default function WordBuilder({ onBack }: WordBuilderProps) {
               <div className="phoneme-breakdown slide-up">
                 <p className="phoneme-label">Sound it out:</p>
                 <div className="phoneme-tiles">
-                  {gameState.currentPuzzle.phonemes.map((phoneme, index) => (
+                  {gameState.currentPuzzle.graphemes.map((grapheme, index) => (
                     <span
                       key={`phoneme-${index}`}
                       className="phoneme-tile pop-in"
                       style={{ animationDelay: `${index * 0.1}s` }}
                     >
-                      {phoneme}
+                      {grapheme}
                     </span>
                   ))}
                 </div>
@@ -1,5 +1,11 @@
 import gameWordsData from '../../docs/content/game-words.json'
-import type { GameWord, GameWordsData } from './types'
+import type { GameWord, GameWordContent, GameWordsData } from './types'
+import { requireLexiconEntry } from './lexicon'
+import { prePrimerWords, primerWords, grade1Words } from './sight-words'
+import { getAllPhonicsWords } from './phonics'
+import { getAllRhymeWords, getDistractors } from './rhyme'
+import { getAllWordFamilies } from './word-families'
+import { readAloudWords } from './read-aloud'
 
 export type { GameWord, GameWordsData, WordCategory, DifficultyLevel } from './types'
 export { getWordsByDifficulty, getWordsByCategory, getWordsByVowelSound } from './types'
@@ -7,7 +13,19 @@ export { getWordsByDifficulty, getWordsByCategory, getWordsByVowelSound } from '
 // Sight word data for memory game
 export * from './sight-words'
 
-export const gameWords: GameWordsData = gameWordsData as GameWordsData
+export const gameWords: GameWordsData = {
+  ...(gameWordsData as Omit<GameWordsData, 'words'>),
+  words: (gameWordsData.words as GameWordContent[]).map((word): GameWord => {
+    const entry = requireLexiconEntry(word.word)
+    return {
+      ...word,
+      phonemes: entry.phonemes,
+      vowelSound: entry.vowelPattern,
+      image: entry.image,
+      sentence: entry.sentence ?? '',
+    }
+  }),
+}
 
 export function getAllWords(): GameWord[] {
   return gameWords.words
@@ -46,3 +64,22 @@ export * from './word-families'
 
 // Read-aloud game data exports
 export * from './read-aloud'
+
+/**
+ * Every distinct word the games can ask a child to hear or say, lowercased.
+ * Used to prewarm the TTS cache.
+ */
+export function getAllSpeakableWords(): string[] {
+  const words = [
+    ...getAllWords().map(w => w.word),
+    ...prePrimerWords,
+    ...primerWords,
+    ...grade1Words,
+    ...getAllPhonicsWords().map(w => w.word),
+    ...getAllRhymeWords().map(w => w.word),
+    ...getDistractors().map(d => d.word),
+    ...getAllWordFamilies().flatMap(f => f.words.filter(w => w.isReal).map(w => w.word)),
+    ...readAloudWords.map(w => w.word),
+  ]
+  return [...new Set(words.map(w => w.trim().toLowerCase()).filter(Boolean))].sort()
+}
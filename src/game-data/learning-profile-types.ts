@@ -0,0 +1,135 @@
+/**
+ * Learning Profile Types
+ *
+ * The parent-guided "Superpower Discovery" quiz from
+ * docs/design/learning-assessment-system.md: personality scenario cards
+ * (personality-questions.json) and the visual-auditory-kinesthetic learning
+ * style questions (vak-questions.json).
+ */
+
+export type Modality = 'visual' | 'auditory' | 'kinesthetic'
+
+export const MODALITIES: Modality[] = ['visual', 'auditory', 'kinesthetic']
+
+export interface VakOption {
+  id: string
+  text: string
+  modality: Modality
+}
+
+export interface VakQuestion {
+  id: string
+  context: string
+  /** May contain {{childName}} */
+  question: string
+  options: VakOption[]
+}
+
+export interface ModalityFraming {
+  icon: string
+  emoji: string
+  superpowerName: string
+  description: string
+}
+
+export interface VakQuestionsData {
+  version: string
+  description: string
+  instructions: string
+  framing: {
+    title: string
+    intro: string
+    modalities: Record<Modality, ModalityFraming>
+  }
+  questions: VakQuestion[]
+  scoring: {
+    method: string
+    description: string
+    interpretation: Record<string, string>
+    profileLabels: Record<string, string>
+  }
+  recommendations: Record<Modality, string[]>
+}
+
+export type PersonalityDimension =
+  | 'learning_approach'
+  | 'persistence'
+  | 'social_preference'
+  | 'attention_capacity'
+  | 'motivation_type'
+
+export const PERSONALITY_DIMENSIONS: PersonalityDimension[] = [
+  'learning_approach',
+  'persistence',
+  'social_preference',
+  'attention_capacity',
+  'motivation_type',
+]
+
+export interface PersonalityOption {
+  id: string
+  text: string
+  /** -1 (low end of the dimension's scale) to 1 (high end) */
+  value: number
+  trait: string
+}
+
+export interface PersonalityQuestion {
+  id: string
+  dimension: PersonalityDimension
+  situation: string
+  situationImage: string
+  /** May contain {{childName}} */
+  prompt: string
+  options: PersonalityOption[]
+}
+
+export interface PersonalityDimensionMeta {
+  name: string
+  description: string
+  scale: { low: string; mid: string; high: string }
+}
+
+export interface PersonalityQuestionsData {
+  version: string
+  description: string
+  instructions: string
+  questions: PersonalityQuestion[]
+  dimensions: Record<PersonalityDimension, PersonalityDimensionMeta>
+}
+
+/** Selected option id by question id */
+export type QuizAnswers = Record<string, string>
+
+export interface LearningStyleProfile {
+  /** Percentages of answers, 0-100 */
+  visual: number
+  auditory: number
+  kinesthetic: number
+  primaryStyle: Modality
+  secondaryStyle: Modality | null
+  /** e.g. "Visual-Kinesthetic Learner" */
+  profileLabel: string
+}
+
+/** Each dimension from -1 (low end of its scale) to 1 (high end) */
+export type PersonalityProfile = Record<PersonalityDimension, number>
+
+/**
+ * Quiz progress saved in the parent's onboarding data so the quiz can be
+ * paused and picked up again
+ */
+export interface DiscoveryProgress {
+  childId: string
+  /** The personality questions drawn for this child, in order */
+  personalityQuestionIds: string[]
+  answers: QuizAnswers
+  /** Index of the question to ask next */
+  step: number
+}
+
+export function getPersonalityBand(value: number): 'low' | 'mid' | 'high' {
+  if (value <= -0.34) return 'low'
+  if (value >= 0.34) return 'high'
+  return 'mid'
+}
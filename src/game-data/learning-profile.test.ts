@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import {
+  vakQuestions,
+  personalityQuestions,
+  pickPersonalityQuestions,
+  getPersonalityQuestionsById,
+  scoreLearningStyle,
+  scorePersonality,
+  parseLearningStyleAnswers,
+  parsePersonalityAnswers,
+  withChildName,
+  getPersonalityBand,
+  PERSONALITY_DIMENSIONS,
+  PERSONALITY_QUESTION_COUNT,
+  type QuizAnswers,
+} from './learning-profile'
+
+/** Learning style answers with this many v, a and k answers, in question order */
+function vakAnswers(visual: number, auditory: number, kinesthetic: number): QuizAnswers {
+  const modalities = [
+    ...Array(visual).fill('v'),
+    ...Array(auditory).fill('a'),
+    ...Array(kinesthetic).fill('k'),
+  ]
+  return Object.fromEntries(vakQuestions.questions.map((q, i) => [q.id, `${q.id}-${modalities[i]}`]))
+}
+
+describe('learning-profile', () => {
+  it('should have fifteen learning style and twelve personality questions', () => {
+    expect(vakQuestions.questions).toHaveLength(15)
+    expect(personalityQuestions.questions).toHaveLength(12)
+  })
+
+  it('should fill in the child\'s name', () => {
+    expect(withChildName(vakQuestions.questions[0].question, 'Mia')).toBe('How does Mia best remember a new word?')
+  })
+
+  describe('pickPersonalityQuestions', () => {
+    it('should draw eight questions covering every dimension', () => {
+      for (let seed = 0; seed < 10; seed++) {
+        let state = seed
+        const random = () => ((state = (state * 9301 + 49297) % 233280) / 233280)
+        const questions = pickPersonalityQuestions(random)
+
+        expect(questions).toHaveLength(PERSONALITY_QUESTION_COUNT)
+        expect(new Set(questions.map(q => q.dimension))).toEqual(new Set(PERSONALITY_DIMENSIONS))
+      }
+    })
+
+    it('should look questions up again by id', () => {
+      const ids = pickPersonalityQuestions().map(q => q.id)
+
+      expect(getPersonalityQuestionsById(ids).map(q => q.id)).toEqual(ids)
+      expect(getPersonalityQuestionsById(['pers-001', 'missing'])).toHaveLength(1)
+    })
+  })
+
+  describe('scoreLearningStyle', () => {
+    it('should report a dominant modality over 50%', () => {
+      expect(scoreLearningStyle(vakAnswers(9, 3, 3))).toEqual({
+        visual: 60,
+        auditory: 20,
+        kinesthetic: 20,
+        primaryStyle: 'visual',
+        secondaryStyle: 'auditory',
+        profileLabel: 'Visual Learner',
+      })
+    })
+
+    it('should report two strong modalities as a dual profile', () => {
+      const profile = scoreLearningStyle(vakAnswers(2, 6, 7))
+
+      expect(profile).toMatchObject({ primaryStyle: 'kinesthetic', secondaryStyle: 'auditory' })
+      expect(profile.profileLabel).toBe('Auditory-Kinesthetic Learner')
+    })
+
+    it('should report an even spread as balanced', () => {
+      expect(scoreLearningStyle(vakAnswers(5, 5, 5)).profileLabel).toBe('Balanced Multi-Modal Learner')
+    })
+
+    it('should fall back to the strongest modality', () => {
+      const profile = scoreLearningStyle(vakAnswers(7, 4, 4))
+
+      expect(profile.visual).toBe(47)
+      expect(profile.profileLabel).toBe('Visual Learner')
+    })
+
+    it('should leave out a secondary style nobody picked', () => {
+      expect(scoreLearningStyle(vakAnswers(0, 15, 0)).secondaryStyle).toBeNull()
+    })
+  })
+
+  describe('scorePersonality', () => {
+    it('should average answers per dimension', () => {
+      const profile = scorePersonality({ 'pers-001': 'pers-001-b', 'pers-006': 'pers-006-a', 'pers-002': 'pers-002-b' })
+
+      expect(profile).toEqual({
+        learning_approach: 0.63,
+        persistence: -0.5,
+        social_preference: 0,
+        attention_capacity: 0,
+        motivation_type: 0,
+      })
+      expect(getPersonalityBand(profile.learning_approach)).toBe('high')
+      expect(getPersonalityBand(profile.persistence)).toBe('low')
+      expect(getPersonalityBand(profile.social_preference)).toBe('mid')
+    })
+  })
+
+  describe('answer validation', () => {
+    it('should require every learning style question', () => {
+      const answers = vakAnswers(5, 5, 5)
+      expect(parseLearningStyleAnswers(answers)).toEqual(answers)
+
+      const missingOne = { ...answers }
+      delete missingOne['vak-001']
+      expect(parseLearningStyleAnswers(missingOne)).toBeNull()
+      expect(parseLearningStyleAnswers({ ...answers, 'vak-001': 'vak-002-v' })).toBeNull()
+    })
+
+    it('should accept any valid personality answers', () => {
+      expect(parsePersonalityAnswers({ 'pers-003': 'pers-003-a' })).toEqual({ 'pers-003': 'pers-003-a' })
+      expect(parsePersonalityAnswers({})).toBeNull()
+      expect(parsePersonalityAnswers({ 'pers-003': 'pers-003-z' })).toBeNull()
+      expect(parsePersonalityAnswers(['pers-003-a'])).toBeNull()
+    })
+  })
+})
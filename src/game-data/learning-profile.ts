@@ -0,0 +1,181 @@
+/**
+ * Superpower Discovery quiz data and scoring
+ *
+ * A parent answers scenario questions about their child. Learning style
+ * answers each count toward one modality and are reported as percentages;
+ * personality answers carry a value on one of five dimensions, averaged per
+ * dimension.
+ */
+
+import vakQuestionsData from '../../docs/content/vak-questions.json'
+import personalityQuestionsData from '../../docs/content/personality-questions.json'
+import {
+  MODALITIES,
+  PERSONALITY_DIMENSIONS,
+  type LearningStyleProfile,
+  type Modality,
+  type PersonalityProfile,
+  type PersonalityQuestion,
+  type PersonalityQuestionsData,
+  type QuizAnswers,
+  type VakQuestion,
+  type VakQuestionsData,
+} from './learning-profile-types'
+
+export type {
+  Modality,
+  ModalityFraming,
+  VakOption,
+  VakQuestion,
+  PersonalityDimension,
+  PersonalityDimensionMeta,
+  PersonalityOption,
+  PersonalityQuestion,
+  QuizAnswers,
+  LearningStyleProfile,
+  PersonalityProfile,
+  DiscoveryProgress,
+} from './learning-profile-types'
+export { MODALITIES, PERSONALITY_DIMENSIONS, getPersonalityBand } from './learning-profile-types'
+
+export const vakQuestions = vakQuestionsData as VakQuestionsData
+
+export const personalityQuestions = personalityQuestionsData as PersonalityQuestionsData
+
+/** Personality questions asked per quiz, drawn from the bank of twelve */
+export const PERSONALITY_QUESTION_COUNT = 8
+
+type Random = () => number
+
+export function withChildName(text: string, childName: string): string {
+  return text.replace(/\{\{childName\}\}/g, childName)
+}
+
+function shuffle<T>(items: T[], random: Random): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+/**
+ * Draw the personality questions for one quiz: one for every dimension, the
+ * rest at random, in bank order
+ */
+export function pickPersonalityQuestions(random: Random = Math.random): PersonalityQuestion[] {
+  const shuffled = shuffle(personalityQuestions.questions, random)
+  const picked = new Set(
+    PERSONALITY_DIMENSIONS.map(dimension => shuffled.find(q => q.dimension === dimension)!)
+  )
+  for (const question of shuffled) {
+    if (picked.size >= PERSONALITY_QUESTION_COUNT) break
+    picked.add(question)
+  }
+  return personalityQuestions.questions.filter(q => picked.has(q))
+}
+
+export function getPersonalityQuestionsById(ids: string[]): PersonalityQuestion[] {
+  return ids
+    .map(id => personalityQuestions.questions.find(q => q.id === id))
+    .filter((q): q is PersonalityQuestion => q !== undefined)
+}
+
+/**
+ * Modality percentages and the profile label, following the interpretation
+ * rules in vak-questions.json: one modality over 50% is dominant, two over
+ * 35% with the third under 30% is dual, all between 25% and 40% is balanced.
+ * Anything else is labelled by the strongest modality.
+ */
+export function scoreLearningStyle(answers: QuizAnswers): LearningStyleProfile {
+  const counts: Record<Modality, number> = { visual: 0, auditory: 0, kinesthetic: 0 }
+  let total = 0
+  for (const question of vakQuestions.questions) {
+    const option = question.options.find(o => o.id === answers[question.id])
+    if (option) {
+      counts[option.modality]++
+      total++
+    }
+  }
+
+  const percent = (modality: Modality) => (total > 0 ? (counts[modality] / total) * 100 : 0)
+  const ranked = [...MODALITIES].sort((a, b) => counts[b] - counts[a])
+  const primaryStyle = ranked[0]
+
+  const strong = MODALITIES.filter(m => percent(m) > 35)
+  const weak = MODALITIES.filter(m => percent(m) < 30)
+  let labelKey = `${primaryStyle}_dominant`
+  if (percent(primaryStyle) <= 50) {
+    if (strong.length === 2 && weak.length === 1) {
+      labelKey = strong.join('_')
+    } else if (MODALITIES.every(m => percent(m) >= 25 && percent(m) <= 40)) {
+      labelKey = 'balanced'
+    }
+  }
+
+  return {
+    visual: Math.round(percent('visual')),
+    auditory: Math.round(percent('auditory')),
+    kinesthetic: Math.round(percent('kinesthetic')),
+    primaryStyle,
+    secondaryStyle: counts[ranked[1]] > 0 ? ranked[1] : null,
+    profileLabel: vakQuestions.scoring.profileLabels[labelKey],
+  }
+}
+
+/**
+ * Average answer value on each dimension; 0 (the middle of the scale) for
+ * dimensions that were not asked about
+ */
+export function scorePersonality(answers: QuizAnswers): PersonalityProfile {
+  const values = new Map<string, number[]>()
+  for (const question of personalityQuestions.questions) {
+    const option = question.options.find(o => o.id === answers[question.id])
+    if (option) {
+      values.set(question.dimension, [...(values.get(question.dimension) ?? []), option.value])
+    }
+  }
+
+  const profile = {} as PersonalityProfile
+  for (const dimension of PERSONALITY_DIMENSIONS) {
+    const dimensionValues = values.get(dimension) ?? []
+    const average = dimensionValues.length > 0
+      ? dimensionValues.reduce((sum, value) => sum + value, 0) / dimensionValues.length
+      : 0
+    profile[dimension] = Math.round(average * 100) / 100
+  }
+  return profile
+}
+
+function parseAnswers(value: unknown, questions: (VakQuestion | PersonalityQuestion)[]): QuizAnswers | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null
+
+  const answers: QuizAnswers = {}
+  for (const [questionId, optionId] of Object.entries(value)) {
+    const question = questions.find(q => q.id === questionId)
+    if (!question || !question.options.some(o => o.id === optionId)) return null
+    answers[questionId] = optionId as string
+  }
+  return answers
+}
+
+/**
+ * Learning style answers sent by a client, or null unless every question has
+ * a valid answer
+ */
+export function parseLearningStyleAnswers(value: unknown): QuizAnswers | null {
+  const answers = parseAnswers(value, vakQuestions.questions)
+  if (!answers || Object.keys(answers).length !== vakQuestions.questions.length) return null
+  return answers
+}
+
+/**
+ * Personality answers sent by a client, or null if any is not a valid answer
+ * or there are none
+ */
+export function parsePersonalityAnswers(value: unknown): QuizAnswers | null {
+  const answers = parseAnswers(value, personalityQuestions.questions)
+  if (!answers || Object.keys(answers).length === 0) return null
+  return answers
+}
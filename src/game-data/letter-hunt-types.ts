@@ -0,0 +1,106 @@
+/**
+ * Letter Hunt Types
+ *
+ * The letter hunt checks which letter names and letter sounds a child knows,
+ * one cell per uppercase and lowercase letter. Letter sounds and keyword
+ * pictures come from docs/content/letter-sounds.json.
+ */
+
+export type LetterSkill = 'name' | 'sound'
+
+export const LETTER_SKILLS: LetterSkill[] = ['name', 'sound']
+
+const LOWERCASE = 'abcdefghijklmnopqrstuvwxyz'.split('')
+
+/** A-Z then a-z; the 52 cells of the letter-knowledge map */
+export const HUNT_LETTERS: string[] = [...LOWERCASE.map(l => l.toUpperCase()), ...LOWERCASE]
+
+export interface LetterSound {
+  /** Lowercase letter */
+  letter: string
+  /** Phonetic spelling for parents, e.g. "/k/" */
+  sound: string
+  /** Word whose picture stands for the sound */
+  keyword: string
+  /** The keyword's picture, from the lexicon */
+  emoji: string
+  /** Lowercase letters that are easily mixed up with this one */
+  lookalikes: string[]
+}
+
+export interface LetterSoundsData {
+  version: string
+  description: string
+  letters: LetterSound[]
+}
+
+export interface HuntOption {
+  id: string
+  /** The letter itself, or the keyword for a sound picture */
+  label: string
+  emoji?: string
+}
+
+export interface HuntItem {
+  id: string
+  letter: string
+  skill: LetterSkill
+  /** Spoken instruction */
+  say: string
+  options: HuntOption[]
+  correctId: string
+}
+
+/**
+ * A child's record for one letter, as returned by
+ * GET /api/progress/child/:childId/letter-knowledge
+ */
+export interface LetterKnowledge {
+  letter: string
+  name_correct: number
+  name_attempts: number
+  sound_correct: number
+  sound_attempts: number
+  last_assessed_at: string | null
+}
+
+export type LetterStatus = 'untested' | 'unknown' | 'learning' | 'known'
+
+export function isHuntLetter(value: unknown): value is string {
+  return typeof value === 'string' && HUNT_LETTERS.includes(value)
+}
+
+/** Known at 80% or better, still learning from 50% */
+export function getLetterStatus(correct: number, attempts: number): LetterStatus {
+  if (attempts <= 0) return 'untested'
+  const accuracy = correct / attempts
+  if (accuracy >= 0.8) return 'known'
+  if (accuracy >= 0.5) return 'learning'
+  return 'unknown'
+}
+
+export function getSkillCounts(knowledge: LetterKnowledge | undefined, skill: LetterSkill) {
+  if (!knowledge) return { correct: 0, attempts: 0 }
+  return skill === 'name'
+    ? { correct: knowledge.name_correct, attempts: knowledge.name_attempts }
+    : { correct: knowledge.sound_correct, attempts: knowledge.sound_attempts }
+}
+
+/**
+ * Lowercase letters whose sound the child has missed or is still learning,
+ * counting answers for both cases of the letter
+ */
+export function getLettersToPractice(knowledge: LetterKnowledge[]): string[] {
+  return LOWERCASE.filter(letter => {
+    let correct = 0
+    let attempts = 0
+    for (const record of knowledge) {
+      if (record.letter.toLowerCase() === letter) {
+        correct += record.sound_correct
+        attempts += record.sound_attempts
+      }
+    }
+    const status = getLetterStatus(correct, attempts)
+    return status === 'unknown' || status === 'learning'
+  })
+}
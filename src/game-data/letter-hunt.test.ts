@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  letterSounds,
+  buildHuntItem,
+  buildLetterHunt,
+  getLetterStatus,
+  getLettersToPractice,
+  HUNT_LENGTH,
+  HUNT_LETTERS,
+  type LetterKnowledge,
+} from './letter-hunt'
+import { getRandomPhonicsWords } from './phonics'
+
+function seeded(seed: number) {
+  let state = seed
+  return () => ((state = (state * 9301 + 49297) % 233280) / 233280)
+}
+
+function record(letter: string, counts: Partial<LetterKnowledge> = {}): LetterKnowledge {
+  return {
+    letter,
+    name_correct: 0,
+    name_attempts: 0,
+    sound_correct: 0,
+    sound_attempts: 0,
+    last_assessed_at: null,
+    ...counts,
+  }
+}
+
+describe('letter-hunt', () => {
+  it('should have a sound for every letter', () => {
+    expect(letterSounds.letters.map(l => l.letter).join('')).toBe('abcdefghijklmnopqrstuvwxyz')
+    expect(HUNT_LETTERS).toHaveLength(52)
+  })
+
+  describe('buildHuntItem', () => {
+    it('should ask for a letter among look-alikes of the same case', () => {
+      const item = buildHuntItem('B', 'name', seeded(1))
+
+      expect(item.say).toBe('Find big B.')
+      expect(item.options).toHaveLength(4)
+      expect(item.options.map(o => o.id)).toContain('B')
+      expect(item.options.map(o => o.id)).toEqual(expect.arrayContaining(['D', 'P', 'Q']))
+      expect(item.correctId).toBe('B')
+    })
+
+    it('should never offer two pictures with the same sound', () => {
+      for (let seed = 0; seed < 20; seed++) {
+        const item = buildHuntItem('c', 'sound', seeded(seed))
+
+        expect(item.options.find(o => o.id === item.correctId)?.label).toBe('cat')
+        expect(item.options.map(o => o.id)).not.toContain('k')
+      }
+    })
+  })
+
+  describe('buildLetterHunt', () => {
+    it('should ask about the letters asked least first', () => {
+      // Every cell but the names of big A and little z has been asked once
+      const knowledge = HUNT_LETTERS.map(letter => record(letter, {
+        name_attempts: letter === 'A' || letter === 'z' ? 0 : 1,
+        sound_attempts: 1,
+      }))
+
+      const hunt = buildLetterHunt(knowledge, seeded(3))
+
+      expect(hunt).toHaveLength(HUNT_LENGTH)
+      expect(hunt.slice(0, 2).map(item => item.id).sort()).toEqual(['name-A', 'name-z'])
+      expect(new Set(hunt.map(item => item.id)).size).toBe(HUNT_LENGTH)
+    })
+  })
+
+  describe('letter status', () => {
+    it('should grade accuracy into known, learning and unknown', () => {
+      expect(getLetterStatus(0, 0)).toBe('untested')
+      expect(getLetterStatus(4, 5)).toBe('known')
+      expect(getLetterStatus(1, 2)).toBe('learning')
+      expect(getLetterStatus(1, 3)).toBe('unknown')
+    })
+
+    it('should pick out letter sounds to practice across both cases', () => {
+      const knowledge = [
+        record('M', { sound_correct: 0, sound_attempts: 1 }),
+        record('m', { sound_correct: 0, sound_attempts: 1 }),
+        record('s', { sound_correct: 3, sound_attempts: 3, name_attempts: 4 }),
+        record('T', { name_correct: 0, name_attempts: 2 }),
+      ]
+
+      expect(getLettersToPractice(knowledge)).toEqual(['m'])
+    })
+  })
+
+  describe('getRandomPhonicsWords', () => {
+    it('should put words for priority letters first', () => {
+      const words = getRandomPhonicsWords(4, { priorityLetters: ['H', 'n'] })
+
+      expect(words.slice(0, 4).every(w => w.beginningSound === 'h' || w.beginningSound === 'n')).toBe(true)
+    })
+  })
+})
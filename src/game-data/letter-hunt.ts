@@ -0,0 +1,137 @@
+/**
+ * Letter hunt data and item building
+ *
+ * Each hunt asks about the letter cells the child has been asked least about,
+ * so repeated hunts cover every letter name and sound.
+ */
+
+import letterSoundsData from '../../docs/content/letter-sounds.json'
+import {
+  HUNT_LETTERS,
+  LETTER_SKILLS,
+  getSkillCounts,
+  type HuntItem,
+  type LetterKnowledge,
+  type LetterSkill,
+  type LetterSound,
+  type LetterSoundsData,
+} from './letter-hunt-types'
+import { requireLexiconEntry } from './lexicon'
+
+export type {
+  LetterSkill,
+  LetterSound,
+  HuntOption,
+  HuntItem,
+  LetterKnowledge,
+  LetterStatus,
+} from './letter-hunt-types'
+export {
+  HUNT_LETTERS,
+  LETTER_SKILLS,
+  isHuntLetter,
+  getLetterStatus,
+  getSkillCounts,
+  getLettersToPractice,
+} from './letter-hunt-types'
+
+export const letterSounds: LetterSoundsData = {
+  ...letterSoundsData,
+  letters: letterSoundsData.letters.map((letter) => ({
+    ...letter,
+    emoji: requireLexiconEntry(letter.keyword).emoji!,
+  })),
+}
+
+/** Items in one hunt */
+export const HUNT_LENGTH = 20
+
+/** Choices shown for each item */
+const OPTION_COUNT = 4
+
+type Random = () => number
+
+function shuffle<T>(items: T[], random: Random): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+export function getLetterSound(letter: string): LetterSound {
+  const lower = letter.toLowerCase()
+  return letterSounds.letters.find(l => l.letter === lower)!
+}
+
+/**
+ * Look-alikes first, then random letters, all in the same case as the target.
+ * Letters sharing the target's sound (c and k) are left out so a sound item
+ * never has two right pictures.
+ */
+function pickDistractors(letter: string, random: Random): string[] {
+  const isUpper = letter === letter.toUpperCase()
+  const target = getLetterSound(letter)
+  const candidates = letterSounds.letters
+    .filter(l => l.sound !== target.sound)
+    .map(l => l.letter)
+  const lookalikes = target.lookalikes.filter(l => candidates.includes(l))
+  const others = shuffle(candidates.filter(l => !lookalikes.includes(l)), random)
+  return [...shuffle(lookalikes, random), ...others]
+    .slice(0, OPTION_COUNT - 1)
+    .map(l => (isUpper ? l.toUpperCase() : l))
+}
+
+function describeLetter(letter: string): string {
+  return letter === letter.toUpperCase() ? `big ${letter}` : `little ${letter}`
+}
+
+export function buildHuntItem(letter: string, skill: LetterSkill, random: Random = Math.random): HuntItem {
+  const id = `${skill}-${letter}`
+
+  if (skill === 'name') {
+    return {
+      id,
+      letter,
+      skill,
+      say: `Find ${describeLetter(letter)}.`,
+      options: shuffle([letter, ...pickDistractors(letter, random)], random).map(l => ({ id: l, label: l })),
+      correctId: letter,
+    }
+  }
+
+  // Sound items: pick the picture that starts with (or, for x, has) the letter's sound
+  const sounds = [getLetterSound(letter), ...pickDistractors(letter, random).map(getLetterSound)]
+  return {
+    id,
+    letter,
+    skill,
+    say: 'What sound does this letter make? Tap the picture with that sound.',
+    options: shuffle(sounds, random).map(s => ({ id: s.letter, label: s.keyword, emoji: s.emoji })),
+    correctId: letter.toLowerCase(),
+  }
+}
+
+/**
+ * Items for one hunt: the least-asked letter cells (name or sound for each of
+ * the 52 letters), ties broken at random
+ */
+export function buildLetterHunt(
+  knowledge: LetterKnowledge[],
+  random: Random = Math.random,
+  length: number = HUNT_LENGTH
+): HuntItem[] {
+  const byLetter = new Map(knowledge.map(k => [k.letter, k]))
+  const cells = shuffle(
+    HUNT_LETTERS.flatMap(letter => LETTER_SKILLS.map(skill => ({ letter, skill }))),
+    random
+  )
+  const attempts = (cell: { letter: string; skill: LetterSkill }) =>
+    getSkillCounts(byLetter.get(cell.letter), cell.skill).attempts
+
+  return cells
+    .sort((a, b) => attempts(a) - attempts(b))
+    .slice(0, length)
+    .map(cell => buildHuntItem(cell.letter, cell.skill, random))
+}
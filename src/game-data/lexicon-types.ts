@@ -0,0 +1,89 @@
+/**
+ * Lexicon Types
+ *
+ * The lexicon is the one place a word's spelling units, sounds, syllables
+ * and picture are recorded. Game word lists only name their words and keep
+ * game-specific fields (difficulty, category, audio), and look everything
+ * else up here. Entries are in docs/content/lexicon.json.
+ */
+
+export type VowelPattern =
+  | 'short-a'
+  | 'short-e'
+  | 'short-i'
+  | 'short-o'
+  | 'short-u'
+  | 'long-a'
+  | 'long-e'
+  | 'long-i'
+  | 'long-o'
+  | 'long-u'
+  | 'r-controlled'
+  | 'diphthong'
+  | 'other'
+
+/**
+ * 1: Dolch pre-primer and primer words, 2: Dolch first and second grade
+ * words, 3: everything else
+ */
+export type FrequencyBand = 1 | 2 | 3
+
+export interface LexiconEntry {
+  word: string
+  /** Spelling units, e.g. ['sh', 'i', 'p']; joined they spell the word */
+  graphemes: string[]
+  /** IPA, as used for pronunciation scoring, e.g. ['ʃ', 'ɪ', 'p'] */
+  phonemes: string[]
+  /** Written syllables, e.g. ['rab', 'bit'] */
+  syllables: string[]
+  /** Sound of the stressed vowel */
+  vowelPattern: VowelPattern
+  /** Rhyme family the word belongs to, e.g. "-ip" */
+  family?: string
+  frequencyBand: FrequencyBand
+  emoji?: string
+  /** Picture under public/ */
+  image?: string
+  /** Short example sentence using the word */
+  sentence?: string
+}
+
+export interface LexiconData {
+  version: string
+  description: string
+  entries: LexiconEntry[]
+}
+
+export interface LexiconQuery {
+  vowelPattern?: VowelPattern
+  family?: string
+  frequencyBand?: FrequencyBand
+  syllableCount?: number
+  minLetters?: number
+  maxLetters?: number
+  /** Only words with an emoji, for games that show a picture clue */
+  withEmoji?: boolean
+}
+
+/** Lookup key for a word: "Cat " and "cat" are the same entry */
+export function normalizeWord(word: string): string {
+  return word.trim().toLowerCase()
+}
+
+/** Letters in the word, not counting apostrophes or hyphens */
+export function getLetterCount(entry: LexiconEntry): number {
+  return entry.graphemes.join('').length
+}
+
+export function matchesLexiconQuery(entry: LexiconEntry, query: LexiconQuery): boolean {
+  const letters = getLetterCount(entry)
+  return (
+    (query.vowelPattern === undefined || entry.vowelPattern === query.vowelPattern) &&
+    (query.family === undefined || entry.family === query.family) &&
+    (query.frequencyBand === undefined || entry.frequencyBand === query.frequencyBand) &&
+    (query.syllableCount === undefined || entry.syllables.length === query.syllableCount) &&
+    (query.minLetters === undefined || letters >= query.minLetters) &&
+    (query.maxLetters === undefined || letters <= query.maxLetters) &&
+    (!query.withEmoji || entry.emoji !== undefined)
+  )
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest'
+import {
+  lexicon,
+  getAllLexiconEntries,
+  getLexiconEntry,
+  requireLexiconEntry,
+  findLexiconEntries,
+  getLetterCount,
+  type LexiconEntry,
+} from './lexicon'
+import { gameWords } from './index'
+import { phonicsWords } from './phonics'
+import { rhymeWords } from './rhyme'
+import { wordFamilies } from './word-families'
+import { prePrimerWords, primerWords, grade1Words } from './sight-words'
+import { readAloudWords } from './read-aloud'
+import { readingWordLists } from './reading-assessment'
+import { letterSounds } from './letter-hunt'
+import { words as spellingWords } from '../game/words'
+import { difficultyLevels as phonicsLevels } from '../game/phonicsData'
+import { getAllFamilies } from '../game/wordFamilies'
+
+function lettersOf(word: string): string {
+  return word.replace(/[^A-Za-z]/g, '')
+}
+
+describe('lexicon', () => {
+  describe('entries', () => {
+    it('has no duplicate words', () => {
+      const words = lexicon.entries.map((e) => e.word.toLowerCase())
+      expect(new Set(words).size).toBe(words.length)
+    })
+
+    it('spells each word with its graphemes and with its syllables', () => {
+      for (const entry of getAllLexiconEntries()) {
+        expect(entry.graphemes.join(''), entry.word).toBe(lettersOf(entry.word))
+        expect(entry.syllables.join(''), entry.word).toBe(lettersOf(entry.word))
+      }
+    })
+
+    it('gives every word at least one phoneme and syllable', () => {
+      for (const entry of getAllLexiconEntries()) {
+        expect(entry.phonemes.length, entry.word).toBeGreaterThan(0)
+        expect(entry.syllables.length, entry.word).toBeGreaterThan(0)
+      }
+    })
+
+    it('puts words in the family their spelling ends with', () => {
+      for (const entry of getAllLexiconEntries().filter((e) => e.family)) {
+        expect(entry.word.toLowerCase().endsWith(entry.family!.slice(1)), entry.word).toBe(true)
+      }
+    })
+
+    it('uses pictures under public/assets', () => {
+      for (const entry of getAllLexiconEntries().filter((e) => e.image)) {
+        expect(entry.image).toMatch(/^\/assets\/.+\.svg$/)
+      }
+    })
+  })
+
+  describe('getLexiconEntry', () => {
+    it('finds a word regardless of case and spacing', () => {
+      expect(getLexiconEntry(' Ship ')?.graphemes).toEqual(['sh', 'i', 'p'])
+    })
+
+    it('returns undefined for unknown words', () => {
+      expect(getLexiconEntry('xyzzy')).toBeUndefined()
+    })
+  })
+
+  describe('requireLexiconEntry', () => {
+    it('throws for unknown words', () => {
+      expect(() => requireLexiconEntry('xyzzy')).toThrow('"xyzzy" is not in the lexicon')
+    })
+  })
+
+  describe('findLexiconEntries', () => {
+    it('filters by vowel pattern and family', () => {
+      const words = findLexiconEntries({ vowelPattern: 'short-a', family: '-at' })
+      expect(words.map((e) => e.word)).toContain('cat')
+      expect(words.every((e) => e.vowelPattern === 'short-a' && e.family === '-at')).toBe(true)
+    })
+
+    it('filters by letter and syllable counts', () => {
+      const words = findLexiconEntries({ minLetters: 5, maxLetters: 6, syllableCount: 2 })
+      expect(words.length).toBeGreaterThan(0)
+      for (const entry of words) {
+        expect(getLetterCount(entry)).toBeGreaterThanOrEqual(5)
+        expect(getLetterCount(entry)).toBeLessThanOrEqual(6)
+        expect(entry.syllables).toHaveLength(2)
+      }
+    })
+
+    it('only returns words with pictures when asked', () => {
+      const words = findLexiconEntries({ withEmoji: true, frequencyBand: 3 })
+      expect(words.length).toBeGreaterThan(0)
+      expect(words.every((e) => e.emoji && e.frequencyBand === 3)).toBe(true)
+    })
+  })
+
+  describe('game word lists', () => {
+    const { cvcWords, highFrequencyWords, blends, digraphs } = readingWordLists
+
+    const lists: Record<string, string[]> = {
+      'game words': gameWords.words.map((w) => w.word),
+      'phonics words': phonicsWords.words.map((w) => w.word),
+      'rhyme words': rhymeWords.words.map((w) => w.word),
+      'rhyme distractors': rhymeWords.distractors.map((d) => d.word),
+      'word families': wordFamilies.families.flatMap((f) =>
+        f.words.filter((w) => w.isReal).map((w) => w.word)
+      ),
+      'sight words': [...prePrimerWords, ...primerWords, ...grade1Words],
+      'read-aloud words': readAloudWords.map((w) => w.word),
+      'reading placement words': [
+        ...Object.values(cvcWords).flatMap((group) =>
+          typeof group === 'string' ? [] : group.map((w) => w.word)
+        ),
+        ...highFrequencyWords.preprimer,
+        ...highFrequencyWords.primer,
+        ...highFrequencyWords.firstGrade,
+        ...highFrequencyWords.secondGrade,
+        ...Object.values(blends.initialBlends).flat(),
+        ...Object.values(blends.finalBlends).flat(),
+        ...Object.values(digraphs.initial).flat(),
+        ...Object.values(digraphs.final).flat(),
+      ],
+      'letter sound keywords': letterSounds.letters.map((l) => l.keyword),
+      'spelling words': spellingWords.map((w) => w.word),
+      'sound matching words': phonicsLevels.flatMap((level) => level.words.map((w) => w.word)),
+      'word builder families': getAllFamilies().flatMap((f) => f.words.map((w) => w.word)),
+    }
+
+    it.each(Object.entries(lists))('every word in the %s resolves to an entry', (_, words) => {
+      const missing = words.filter((word) => !getLexiconEntry(word))
+      expect(missing).toEqual([])
+    })
+
+    it('has a picture for every word in a picture game', () => {
+      const pictured: LexiconEntry[] = [
+        ...phonicsWords.words,
+        ...rhymeWords.words,
+        ...rhymeWords.distractors,
+        ...letterSounds.letters.map((l) => ({ word: l.keyword })),
+        ...spellingWords,
+      ].map((w) => requireLexiconEntry(w.word))
+      expect(pictured.filter((e) => !e.emoji).map((e) => e.word)).toEqual([])
+    })
+
+    it('keeps rhyme families in step with the lexicon', () => {
+      for (const word of rhymeWords.words) {
+        expect(requireLexiconEntry(word.word).family, word.word).toBe(word.wordFamily)
+      }
+    })
+
+    it('fills game word sounds and sentences from the lexicon', () => {
+      const cat = gameWords.words.find((w) => w.word === 'cat')!
+      expect(cat.phonemes).toEqual(['k', 'æ', 't'])
+      expect(cat.vowelSound).toBe('short-a')
+      expect(cat.sentence.length).toBeGreaterThan(0)
+    })
+  })
+})
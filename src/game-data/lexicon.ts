@@ -0,0 +1,49 @@
+/**
+ * Word lexicon shared by every game
+ */
+
+import lexiconData from '../../docs/content/lexicon.json'
+import {
+  matchesLexiconQuery,
+  normalizeWord,
+  type LexiconData,
+  type LexiconEntry,
+  type LexiconQuery,
+} from './lexicon-types'
+
+export type {
+  LexiconEntry,
+  LexiconData,
+  LexiconQuery,
+  VowelPattern,
+  FrequencyBand,
+} from './lexicon-types'
+export { matchesLexiconQuery, normalizeWord, getLetterCount } from './lexicon-types'
+
+export const lexicon: LexiconData = lexiconData as LexiconData
+
+const entriesByWord = new Map(lexicon.entries.map((entry) => [normalizeWord(entry.word), entry]))
+
+export function getAllLexiconEntries(): LexiconEntry[] {
+  return lexicon.entries
+}
+
+export function getLexiconEntry(word: string): LexiconEntry | undefined {
+  return entriesByWord.get(normalizeWord(word))
+}
+
+/**
+ * The entry for a word in a game's word list. Game lists may only use
+ * lexicon words, so a missing entry is a content error.
+ */
+export function requireLexiconEntry(word: string): LexiconEntry {
+  const entry = getLexiconEntry(word)
+  if (!entry) {
+    throw new Error(`"${word}" is not in the lexicon (docs/content/lexicon.json)`)
+  }
+  return entry
+}
+
+export function findLexiconEntries(query: LexiconQuery): LexiconEntry[] {
+  return lexicon.entries.filter((entry) => matchesLexiconQuery(entry, query))
+}
@@ -4,12 +4,15 @@ export interface PhonicsWord {
   beginningSound: string
   phonemes: string[]
   difficulty: 1 | 2 | 3
-  image: string
+  image?: string
   emoji: string
   audio: string
   category: PhonicsCategory
 }
 
+/** A word as listed in phonics-words.json; phonemes and pictures come from the lexicon */
+export type PhonicsWordContent = Omit<PhonicsWord, 'phonemes' | 'image' | 'emoji'>
+
 export type PhonicsCategory =
   | 'animals'
   | 'home'
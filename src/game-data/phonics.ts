@@ -1,5 +1,6 @@
 import phonicsWordsData from '../../docs/content/phonics-words.json'
-import type { PhonicsWord, PhonicsWordsData } from './phonics-types'
+import type { PhonicsWord, PhonicsWordContent, PhonicsWordsData } from './phonics-types'
+import { requireLexiconEntry } from './lexicon'
 
 export type {
   PhonicsWord,
@@ -14,7 +15,13 @@ export {
   getUniqueBeginningSounds,
 } from './phonics-types'
 
-export const phonicsWords: PhonicsWordsData = phonicsWordsData as PhonicsWordsData
+export const phonicsWords: PhonicsWordsData = {
+  ...(phonicsWordsData as Omit<PhonicsWordsData, 'words'>),
+  words: (phonicsWordsData.words as PhonicsWordContent[]).map((word): PhonicsWord => {
+    const entry = requireLexiconEntry(word.word)
+    return { ...word, phonemes: entry.phonemes, image: entry.image, emoji: entry.emoji! }
+  }),
+}
 
 export function getAllPhonicsWords(): PhonicsWord[] {
   return phonicsWords.words
@@ -24,11 +31,17 @@ export function getPhonicsWordById(id: string): PhonicsWord | undefined {
   return phonicsWords.words.find((w) => w.id === id)
 }
 
+/**
+ * Random words, optionally filtered. With `priorityLetters` (such as the
+ * letters a child missed in the letter hunt), words beginning with those
+ * letters come first.
+ */
 export function getRandomPhonicsWords(
   count: number,
   options?: {
     difficulty?: 1 | 2 | 3
     beginningSound?: string
+    priorityLetters?: string[]
   }
 ): PhonicsWord[] {
   let pool = [...phonicsWords.words]
@@ -42,6 +55,13 @@ export function getRandomPhonicsWords(
   }
 
   const shuffled = pool.sort(() => Math.random() - 0.5)
+
+  if (options?.priorityLetters?.length) {
+    const priority = new Set(options.priorityLetters.map((l) => l.toLowerCase()))
+    const isPriority = (w: PhonicsWord) => priority.has(w.beginningSound)
+    return [...shuffled.filter(isPriority), ...shuffled.filter((w) => !isPriority(w))].slice(0, count)
+  }
+
   return shuffled.slice(0, count)
 }
 
@@ -9,6 +9,7 @@ import {
   prePrimerWords,
   primerWords,
 } from './sight-words'
+import { requireLexiconEntry } from './lexicon'
 import type {
   ReadAloudWord,
   ReadAloudTier,
@@ -35,66 +36,62 @@ export {
   PROGRESSION_THRESHOLDS,
 } from './read-aloud-types'
 
+/**
+ * A word to sound out. Its phonemes and syllable count come from the lexicon.
+ */
+function decodableWord(
+  word: string,
+  tier: ReadAloudTier,
+  category: ReadAloudCategory,
+  pronunciationHint?: string
+): ReadAloudWord {
+  const entry = requireLexiconEntry(word)
+  return {
+    id: `ra-${word}`,
+    word,
+    tier,
+    category,
+    phonemes: entry.phonemes,
+    syllables: entry.syllables.length,
+    ...(pronunciationHint && { pronunciationHint }),
+  }
+}
+
+function sightWord(word: string, id: string, tier: ReadAloudTier): ReadAloudWord {
+  return {
+    id,
+    word,
+    tier,
+    category: 'sight',
+    phonemes: [], // Sight words are recognized whole
+    syllables: requireLexiconEntry(word).syllables.length,
+  }
+}
+
 /**
  * Tier 1: Simple CVC words - easiest to read and pronounce
  */
 const tier1Words: ReadAloudWord[] = [
   // CVC words - animals
-  { id: 'ra-cat', word: 'cat', tier: 1, category: 'cvc', phonemes: ['k', 'æ', 't'], syllables: 1 },
-  { id: 'ra-dog', word: 'dog', tier: 1, category: 'cvc', phonemes: ['d', 'ɔ', 'g'], syllables: 1 },
-  { id: 'ra-pig', word: 'pig', tier: 1, category: 'cvc', phonemes: ['p', 'ɪ', 'g'], syllables: 1 },
-  { id: 'ra-bug', word: 'bug', tier: 1, category: 'cvc', phonemes: ['b', 'ʌ', 'g'], syllables: 1 },
-  { id: 'ra-hen', word: 'hen', tier: 1, category: 'cvc', phonemes: ['h', 'ɛ', 'n'], syllables: 1 },
-  { id: 'ra-fox', word: 'fox', tier: 1, category: 'cvc', phonemes: ['f', 'ɔ', 'ks'], syllables: 1 },
+  'cat', 'dog', 'pig', 'bug', 'hen', 'fox',
   // CVC words - actions
-  { id: 'ra-run', word: 'run', tier: 1, category: 'cvc', phonemes: ['r', 'ʌ', 'n'], syllables: 1 },
-  { id: 'ra-hop', word: 'hop', tier: 1, category: 'cvc', phonemes: ['h', 'ɔ', 'p'], syllables: 1 },
-  { id: 'ra-sit', word: 'sit', tier: 1, category: 'cvc', phonemes: ['s', 'ɪ', 't'], syllables: 1 },
-  { id: 'ra-nap', word: 'nap', tier: 1, category: 'cvc', phonemes: ['n', 'æ', 'p'], syllables: 1 },
-  { id: 'ra-cut', word: 'cut', tier: 1, category: 'cvc', phonemes: ['k', 'ʌ', 't'], syllables: 1 },
-  { id: 'ra-hug', word: 'hug', tier: 1, category: 'cvc', phonemes: ['h', 'ʌ', 'g'], syllables: 1 },
+  'run', 'hop', 'sit', 'nap', 'cut', 'hug',
   // CVC words - objects
-  { id: 'ra-cup', word: 'cup', tier: 1, category: 'cvc', phonemes: ['k', 'ʌ', 'p'], syllables: 1 },
-  { id: 'ra-hat', word: 'hat', tier: 1, category: 'cvc', phonemes: ['h', 'æ', 't'], syllables: 1 },
-  { id: 'ra-bed', word: 'bed', tier: 1, category: 'cvc', phonemes: ['b', 'ɛ', 'd'], syllables: 1 },
-  { id: 'ra-sun', word: 'sun', tier: 1, category: 'cvc', phonemes: ['s', 'ʌ', 'n'], syllables: 1 },
-  { id: 'ra-map', word: 'map', tier: 1, category: 'cvc', phonemes: ['m', 'æ', 'p'], syllables: 1 },
-  { id: 'ra-rug', word: 'rug', tier: 1, category: 'cvc', phonemes: ['r', 'ʌ', 'g'], syllables: 1 },
+  'cup', 'hat', 'bed', 'sun', 'map', 'rug',
   // CVC words - more
-  { id: 'ra-box', word: 'box', tier: 1, category: 'cvc', phonemes: ['b', 'ɔ', 'ks'], syllables: 1 },
-  { id: 'ra-pot', word: 'pot', tier: 1, category: 'cvc', phonemes: ['p', 'ɔ', 't'], syllables: 1 },
-  { id: 'ra-wet', word: 'wet', tier: 1, category: 'cvc', phonemes: ['w', 'ɛ', 't'], syllables: 1 },
-  { id: 'ra-big', word: 'big', tier: 1, category: 'cvc', phonemes: ['b', 'ɪ', 'g'], syllables: 1 },
-  { id: 'ra-top', word: 'top', tier: 1, category: 'cvc', phonemes: ['t', 'ɔ', 'p'], syllables: 1 },
-  { id: 'ra-red', word: 'red', tier: 1, category: 'cvc', phonemes: ['r', 'ɛ', 'd'], syllables: 1 },
-]
+  'box', 'pot', 'wet', 'big', 'top', 'red',
+].map((word) => decodableWord(word, 1, 'cvc'))
 
 /**
  * Tier 2: Sight words and common words
  */
 const tier2Words: ReadAloudWord[] = [
   // Core sight words from pre-primer
-  ...prePrimerWords.slice(0, 20).map((word, i): ReadAloudWord => ({
-    id: `ra-sight-${i}`,
-    word,
-    tier: 2,
-    category: 'sight',
-    phonemes: [], // Sight words are recognized whole
-    syllables: 1,
-  })),
+  ...prePrimerWords.slice(0, 20).map((word, i) => sightWord(word, `ra-sight-${i}`, 2)),
   // Word family words
-  { id: 'ra-bat', word: 'bat', tier: 2, category: 'word-family', phonemes: ['b', 'æ', 't'], syllables: 1 },
-  { id: 'ra-mat', word: 'mat', tier: 2, category: 'word-family', phonemes: ['m', 'æ', 't'], syllables: 1 },
-  { id: 'ra-rat', word: 'rat', tier: 2, category: 'word-family', phonemes: ['r', 'æ', 't'], syllables: 1 },
-  { id: 'ra-sat', word: 'sat', tier: 2, category: 'word-family', phonemes: ['s', 'æ', 't'], syllables: 1 },
-  { id: 'ra-pan', word: 'pan', tier: 2, category: 'word-family', phonemes: ['p', 'æ', 'n'], syllables: 1 },
-  { id: 'ra-man', word: 'man', tier: 2, category: 'word-family', phonemes: ['m', 'æ', 'n'], syllables: 1 },
-  { id: 'ra-can', word: 'can', tier: 2, category: 'word-family', phonemes: ['k', 'æ', 'n'], syllables: 1 },
-  { id: 'ra-fan', word: 'fan', tier: 2, category: 'word-family', phonemes: ['f', 'æ', 'n'], syllables: 1 },
-  { id: 'ra-pin', word: 'pin', tier: 2, category: 'word-family', phonemes: ['p', 'ɪ', 'n'], syllables: 1 },
-  { id: 'ra-win', word: 'win', tier: 2, category: 'word-family', phonemes: ['w', 'ɪ', 'n'], syllables: 1 },
-  { id: 'ra-bin', word: 'bin', tier: 2, category: 'word-family', phonemes: ['b', 'ɪ', 'n'], syllables: 1 },
-  { id: 'ra-fin', word: 'fin', tier: 2, category: 'word-family', phonemes: ['f', 'ɪ', 'n'], syllables: 1 },
+  ...['bat', 'mat', 'rat', 'sat', 'pan', 'man', 'can', 'fan', 'pin', 'win', 'bin', 'fin'].map(
+    (word) => decodableWord(word, 2, 'word-family')
+  ),
 ]
 
 /**
@@ -102,37 +99,30 @@ const tier2Words: ReadAloudWord[] = [
  */
 const tier3Words: ReadAloudWord[] = [
   // Phonics patterns - digraphs
-  { id: 'ra-ship', word: 'ship', tier: 3, category: 'phonics', phonemes: ['ʃ', 'ɪ', 'p'], syllables: 1, pronunciationHint: 'sh-ip' },
-  { id: 'ra-shop', word: 'shop', tier: 3, category: 'phonics', phonemes: ['ʃ', 'ɔ', 'p'], syllables: 1, pronunciationHint: 'sh-op' },
-  { id: 'ra-chip', word: 'chip', tier: 3, category: 'phonics', phonemes: ['tʃ', 'ɪ', 'p'], syllables: 1, pronunciationHint: 'ch-ip' },
-  { id: 'ra-chop', word: 'chop', tier: 3, category: 'phonics', phonemes: ['tʃ', 'ɔ', 'p'], syllables: 1, pronunciationHint: 'ch-op' },
-  { id: 'ra-thin', word: 'thin', tier: 3, category: 'phonics', phonemes: ['θ', 'ɪ', 'n'], syllables: 1, pronunciationHint: 'th-in' },
-  { id: 'ra-this', word: 'this', tier: 3, category: 'phonics', phonemes: ['ð', 'ɪ', 's'], syllables: 1, pronunciationHint: 'th-is' },
-  { id: 'ra-when', word: 'when', tier: 3, category: 'phonics', phonemes: ['w', 'ɛ', 'n'], syllables: 1, pronunciationHint: 'wh-en' },
-  { id: 'ra-what', word: 'what', tier: 3, category: 'phonics', phonemes: ['w', 'ʌ', 't'], syllables: 1, pronunciationHint: 'wh-at' },
+  decodableWord('ship', 3, 'phonics', 'sh-ip'),
+  decodableWord('shop', 3, 'phonics', 'sh-op'),
+  decodableWord('chip', 3, 'phonics', 'ch-ip'),
+  decodableWord('chop', 3, 'phonics', 'ch-op'),
+  decodableWord('thin', 3, 'phonics', 'th-in'),
+  decodableWord('this', 3, 'phonics', 'th-is'),
+  decodableWord('when', 3, 'phonics', 'wh-en'),
+  decodableWord('what', 3, 'phonics', 'wh-at'),
   // Phonics patterns - blends
-  { id: 'ra-stop', word: 'stop', tier: 3, category: 'phonics', phonemes: ['s', 't', 'ɔ', 'p'], syllables: 1, pronunciationHint: 'st-op' },
-  { id: 'ra-step', word: 'step', tier: 3, category: 'phonics', phonemes: ['s', 't', 'ɛ', 'p'], syllables: 1, pronunciationHint: 'st-ep' },
-  { id: 'ra-skip', word: 'skip', tier: 3, category: 'phonics', phonemes: ['s', 'k', 'ɪ', 'p'], syllables: 1, pronunciationHint: 'sk-ip' },
-  { id: 'ra-swim', word: 'swim', tier: 3, category: 'phonics', phonemes: ['s', 'w', 'ɪ', 'm'], syllables: 1, pronunciationHint: 'sw-im' },
-  { id: 'ra-snap', word: 'snap', tier: 3, category: 'phonics', phonemes: ['s', 'n', 'æ', 'p'], syllables: 1, pronunciationHint: 'sn-ap' },
-  { id: 'ra-spot', word: 'spot', tier: 3, category: 'phonics', phonemes: ['s', 'p', 'ɔ', 't'], syllables: 1, pronunciationHint: 'sp-ot' },
+  decodableWord('stop', 3, 'phonics', 'st-op'),
+  decodableWord('step', 3, 'phonics', 'st-ep'),
+  decodableWord('skip', 3, 'phonics', 'sk-ip'),
+  decodableWord('swim', 3, 'phonics', 'sw-im'),
+  decodableWord('snap', 3, 'phonics', 'sn-ap'),
+  decodableWord('spot', 3, 'phonics', 'sp-ot'),
   // Multi-syllable words
-  { id: 'ra-rabbit', word: 'rabbit', tier: 3, category: 'multi-syllable', phonemes: ['r', 'æ', 'b', 'ɪ', 't'], syllables: 2, pronunciationHint: 'rab-bit' },
-  { id: 'ra-kitten', word: 'kitten', tier: 3, category: 'multi-syllable', phonemes: ['k', 'ɪ', 't', 'ə', 'n'], syllables: 2, pronunciationHint: 'kit-ten' },
-  { id: 'ra-puppet', word: 'puppet', tier: 3, category: 'multi-syllable', phonemes: ['p', 'ʌ', 'p', 'ə', 't'], syllables: 2, pronunciationHint: 'pup-pet' },
-  { id: 'ra-muffin', word: 'muffin', tier: 3, category: 'multi-syllable', phonemes: ['m', 'ʌ', 'f', 'ɪ', 'n'], syllables: 2, pronunciationHint: 'muf-fin' },
-  { id: 'ra-happy', word: 'happy', tier: 3, category: 'multi-syllable', phonemes: ['h', 'æ', 'p', 'i'], syllables: 2, pronunciationHint: 'hap-py' },
-  { id: 'ra-funny', word: 'funny', tier: 3, category: 'multi-syllable', phonemes: ['f', 'ʌ', 'n', 'i'], syllables: 2, pronunciationHint: 'fun-ny' },
+  decodableWord('rabbit', 3, 'multi-syllable', 'rab-bit'),
+  decodableWord('kitten', 3, 'multi-syllable', 'kit-ten'),
+  decodableWord('puppet', 3, 'multi-syllable', 'pup-pet'),
+  decodableWord('muffin', 3, 'multi-syllable', 'muf-fin'),
+  decodableWord('happy', 3, 'multi-syllable', 'hap-py'),
+  decodableWord('funny', 3, 'multi-syllable', 'fun-ny'),
   // More primer sight words
-  ...primerWords.slice(0, 10).map((word, i): ReadAloudWord => ({
-    id: `ra-primer-${i}`,
-    word,
-    tier: 3,
-    category: 'sight',
-    phonemes: [],
-    syllables: 1,
-  })),
+  ...primerWords.slice(0, 10).map((word, i) => sightWord(word, `ra-primer-${i}`, 3)),
 ]
 
 /**
@@ -231,6 +221,16 @@ export function getReadAloudWordById(id: string): ReadAloudWord | undefined {
   return readAloudWords.find((w) => w.id === id)
 }
 
+/**
+ * Known phonemes for a word, if it is a decodable read-aloud word
+ * (sight words are recognized whole and have none)
+ */
+export function getPhonemesForWord(word: string): string[] | undefined {
+  const normalized = word.toLowerCase().trim()
+  const match = readAloudWords.find((w) => w.word === normalized && w.phonemes.length > 0)
+  return match?.phonemes
+}
+
 /**
  * Check if spoken word matches target (with variation tolerance)
  */
@@ -0,0 +1,156 @@
+/**
+ * Reading Placement Assessment Types
+ *
+ * Types and rules for the adaptive placement assessment described in
+ * reading-word-lists.json. Kept free of the word lists so the servers can
+ * validate and use a stored placement without loading them.
+ */
+
+export type ReadingLevel = 'pre_reader' | 'emerging' | 'early' | 'developing'
+
+/** Easiest first */
+export const READING_LEVELS: ReadingLevel[] = ['pre_reader', 'emerging', 'early', 'developing']
+
+export interface ReadingLevelMeta {
+  name: string
+  description: string
+  /** e.g. "4-5 years" */
+  ageRange: string
+  skills: string[]
+}
+
+export interface AdaptiveLogic {
+  startLevel: ReadingLevel
+  questionsPerLevel: number
+  /** Accuracy at a level needed to move up to the next one */
+  advanceThreshold: number
+  /** Accuracy below this is the child's ceiling and ends the assessment */
+  stayThreshold: number
+  ceilingThreshold: number
+}
+
+export interface ReadingWordListsData {
+  version: string
+  description: string
+  instructions: string
+  levels: Record<ReadingLevel, ReadingLevelMeta>
+  cvcWords: Record<string, string | { word: string; image: string; sentence: string }[]>
+  highFrequencyWords: {
+    description: string
+    preprimer: string[]
+    primer: string[]
+    firstGrade: string[]
+    secondGrade: string[]
+  }
+  blends: {
+    description: string
+    initialBlends: Record<string, string[]>
+    finalBlends: Record<string, string[]>
+  }
+  digraphs: {
+    description: string
+    initial: Record<string, string[]>
+    final: Record<string, string[]>
+  }
+  sentences: {
+    description: string
+    level1_preReader: AssessmentSentence[]
+    level2_emerging: AssessmentSentence[]
+    level3_early: AssessmentSentence[]
+    level4_developing: AssessmentSentence[]
+  }
+  adaptiveLogic: AdaptiveLogic & { description: string; rules: string[] }
+}
+
+export interface AssessmentSentence {
+  sentence: string
+  question: string
+  answer: string
+  image: string
+}
+
+/**
+ * One thing to read. Read aloud, the child says `text`; tapping, they hear
+ * `say` and pick the matching option.
+ */
+export interface PlacementItem {
+  id: string
+  level: ReadingLevel
+  kind: 'word' | 'sentence'
+  /** The word or sentence on screen */
+  text: string
+  /** Instruction or comprehension question for tap-to-choose */
+  question: string
+  /** Spoken for tap-to-choose: the word to find, or the question */
+  say: string
+  options: string[]
+  correctIndex: number
+}
+
+export interface LevelResult {
+  level: ReadingLevel
+  correct: number
+  total: number
+}
+
+export interface PlacementAssessment {
+  level: ReadingLevel
+  /** Items for the current level, asked in order */
+  items: PlacementItem[]
+  /** Items answered at the current level */
+  asked: number
+  /** Correct answers at the current level */
+  correct: number
+  /** Levels finished so far, in the order they were assessed */
+  results: LevelResult[]
+  finished: boolean
+  /** Set once the assessment is finished */
+  placement: ReadingLevel | null
+}
+
+export function isReadingLevel(value: unknown): value is ReadingLevel {
+  return typeof value === 'string' && (READING_LEVELS as string[]).includes(value)
+}
+
+export function getLevelAccuracy(result: LevelResult): number {
+  return result.total > 0 ? result.correct / result.total : 0
+}
+
+/**
+ * The highest level the child read at or above the ceiling. A child who hit
+ * the ceiling on the first level assessed is placed one level below it.
+ */
+export function getPlacementLevel(results: LevelResult[], stayThreshold: number): ReadingLevel {
+  let placement: ReadingLevel | null = null
+  for (const result of results) {
+    if (getLevelAccuracy(result) >= stayThreshold) {
+      placement = result.level
+    }
+  }
+  if (placement) return placement
+
+  const firstIndex = results.length > 0 ? READING_LEVELS.indexOf(results[0].level) : 0
+  return READING_LEVELS[Math.max(0, firstIndex - 1)]
+}
+
+/**
+ * Level results sent by a client, or null if they are malformed
+ */
+export function parseLevelResults(value: unknown): LevelResult[] | null {
+  if (!Array.isArray(value)) return null
+
+  const results: LevelResult[] = []
+  for (const entry of value) {
+    if (typeof entry !== 'object' || entry === null) return null
+    const { level, correct, total } = entry as Record<string, unknown>
+    if (
+      !isReadingLevel(level) ||
+      !Number.isInteger(correct) || !Number.isInteger(total) ||
+      (correct as number) < 0 || (total as number) < (correct as number)
+    ) {
+      return null
+    }
+    results.push({ level, correct: correct as number, total: total as number })
+  }
+  return results
+}
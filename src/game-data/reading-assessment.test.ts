@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest'
+import {
+  adaptiveLogic,
+  buildPlacementItems,
+  startPlacementAssessment,
+  answerPlacementItem,
+  getCurrentPlacementItem,
+  getPlacementLevel,
+  getStartLevel,
+  getReadingLevelAgeRange,
+  parseLevelResults,
+  READING_LEVELS,
+  type PlacementAssessment,
+} from './reading-assessment'
+
+/** Answer the next `count` items, the first `correct` of them correctly */
+function answer(assessment: PlacementAssessment, count: number, correct: number): PlacementAssessment {
+  let next = assessment
+  for (let i = 0; i < count; i++) {
+    next = answerPlacementItem(next, i < correct)
+  }
+  return next
+}
+
+describe('reading-assessment', () => {
+  describe('buildPlacementItems', () => {
+    it('should build a full level of items for every level', () => {
+      for (const level of READING_LEVELS) {
+        const items = buildPlacementItems(level)
+
+        expect(items).toHaveLength(adaptiveLogic.questionsPerLevel)
+        expect(new Set(items.map(item => item.id)).size).toBe(items.length)
+        expect(items.filter(item => item.kind === 'sentence')).toHaveLength(2)
+        for (const item of items) {
+          expect(item.level).toBe(level)
+          expect(item.options).toHaveLength(3)
+          expect(new Set(item.options).size).toBe(3)
+        }
+      }
+    })
+
+    it('should put the answer among the options', () => {
+      for (const item of buildPlacementItems('emerging')) {
+        if (item.kind === 'word') {
+          expect(item.options[item.correctIndex]).toBe(item.text)
+          expect(item.say).toBe(item.text)
+        } else {
+          expect(item.say).toBe(item.question)
+          expect(item.text).toMatch(/[.!?]$/)
+        }
+      }
+    })
+
+    it('should ask a sentence in each half of a level', () => {
+      const items = buildPlacementItems('early')
+      const half = adaptiveLogic.questionsPerLevel / 2
+
+      expect(items.slice(0, half).some(item => item.kind === 'sentence')).toBe(true)
+      expect(items.slice(half).some(item => item.kind === 'sentence')).toBe(true)
+    })
+
+    it('should use the first of several accepted answers', () => {
+      const items = buildPlacementItems('early')
+      const options = items.filter(item => item.kind === 'sentence').flatMap(item => item.options)
+
+      expect(options.some(option => option.includes(' / '))).toBe(false)
+    })
+  })
+
+  describe('adaptive assessment', () => {
+    it('should start at the pre-reader level', () => {
+      const assessment = startPlacementAssessment()
+
+      expect(assessment.level).toBe('pre_reader')
+      expect(getCurrentPlacementItem(assessment)).toBe(assessment.items[0])
+    })
+
+    it('should advance after half a level read at 80% or better', () => {
+      const assessment = answer(startPlacementAssessment(), 5, 4)
+
+      expect(assessment.level).toBe('emerging')
+      expect(assessment.asked).toBe(0)
+      expect(assessment.results).toEqual([{ level: 'pre_reader', correct: 4, total: 5 }])
+    })
+
+    it('should stop at the ceiling below 60%', () => {
+      let assessment = answer(startPlacementAssessment(), 5, 5)
+      assessment = answer(assessment, 5, 2)
+
+      expect(assessment.finished).toBe(true)
+      expect(assessment.placement).toBe('pre_reader')
+      expect(getCurrentPlacementItem(assessment)).toBeNull()
+    })
+
+    it('should ask the rest of the level when the first half is inconclusive', () => {
+      let assessment = answer(startPlacementAssessment(), 5, 5)
+      assessment = answer(assessment, 5, 3)
+
+      expect(assessment.finished).toBe(false)
+      expect(assessment.level).toBe('emerging')
+
+      assessment = answer(assessment, 5, 4)
+      expect(assessment.finished).toBe(true)
+      expect(assessment.results[1]).toEqual({ level: 'emerging', correct: 7, total: 10 })
+      expect(assessment.placement).toBe('emerging')
+    })
+
+    it('should move up after the full level at 80%', () => {
+      let assessment = answer(startPlacementAssessment(), 5, 3)
+      assessment = answer(assessment, 5, 5)
+
+      expect(assessment.level).toBe('emerging')
+      expect(assessment.results).toEqual([{ level: 'pre_reader', correct: 8, total: 10 }])
+    })
+
+    it('should assess at most three levels in a session', () => {
+      let assessment = startPlacementAssessment()
+      for (let i = 0; i < 3; i++) {
+        assessment = answer(assessment, 5, 5)
+      }
+
+      expect(assessment.finished).toBe(true)
+      expect(assessment.results.map(result => result.level)).toEqual(['pre_reader', 'emerging', 'early'])
+      expect(assessment.placement).toBe('early')
+    })
+
+    it('should ignore answers once finished', () => {
+      const finished = answer(startPlacementAssessment(), 5, 0)
+
+      expect(finished.placement).toBe('pre_reader')
+      expect(answerPlacementItem(finished, true)).toBe(finished)
+    })
+
+    it('should start below a previous placement', () => {
+      expect(getStartLevel(null)).toBe('pre_reader')
+      expect(getStartLevel('pre_reader')).toBe('pre_reader')
+      expect(getStartLevel('early')).toBe('emerging')
+
+      const assessment = startPlacementAssessment({ startLevel: 'early' })
+      expect(assessment.items.every(item => item.level === 'early')).toBe(true)
+    })
+  })
+
+  describe('getPlacementLevel', () => {
+    it('should place at the highest level read at or above the ceiling', () => {
+      expect(getPlacementLevel([
+        { level: 'emerging', correct: 5, total: 5 },
+        { level: 'early', correct: 6, total: 10 },
+        { level: 'developing', correct: 1, total: 5 },
+      ], 0.6)).toBe('early')
+    })
+
+    it('should place below a first level that was too hard', () => {
+      expect(getPlacementLevel([{ level: 'early', correct: 1, total: 5 }], 0.6)).toBe('emerging')
+      expect(getPlacementLevel([{ level: 'pre_reader', correct: 0, total: 5 }], 0.6)).toBe('pre_reader')
+    })
+  })
+
+  it('should read age ranges from the level descriptions', () => {
+    expect(getReadingLevelAgeRange('pre_reader')).toEqual({ min: 3, max: 4 })
+    expect(getReadingLevelAgeRange('developing')).toEqual({ min: 6, max: 7 })
+  })
+
+  it('should validate level results', () => {
+    expect(parseLevelResults([{ level: 'early', correct: 4, total: 5 }])).toEqual([{ level: 'early', correct: 4, total: 5 }])
+    expect(parseLevelResults([{ level: 'expert', correct: 4, total: 5 }])).toBeNull()
+    expect(parseLevelResults([{ level: 'early', correct: 6, total: 5 }])).toBeNull()
+    expect(parseLevelResults('early')).toBeNull()
+  })
+})
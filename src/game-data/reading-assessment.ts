@@ -0,0 +1,254 @@
+/**
+ * Reading Placement Assessment
+ *
+ * Adaptive assessment over the graded word lists in reading-word-lists.json.
+ * It starts at the pre-reader level and asks half a level's questions: a child
+ * reading 80% of them moves up a level, one reading under 60% has found their
+ * ceiling, and anyone in between gets the other half before the level is
+ * scored. At most three levels are assessed in one sitting.
+ */
+
+import readingWordListsData from '../../docs/content/reading-word-lists.json'
+import {
+  READING_LEVELS,
+  getLevelAccuracy,
+  getPlacementLevel,
+  type AssessmentSentence,
+  type LevelResult,
+  type PlacementAssessment,
+  type PlacementItem,
+  type ReadingLevel,
+  type ReadingLevelMeta,
+  type ReadingWordListsData,
+} from './reading-assessment-types'
+
+export type {
+  ReadingLevel,
+  ReadingLevelMeta,
+  AdaptiveLogic,
+  AssessmentSentence,
+  PlacementItem,
+  PlacementAssessment,
+  LevelResult,
+} from './reading-assessment-types'
+export {
+  READING_LEVELS,
+  isReadingLevel,
+  getLevelAccuracy,
+  getPlacementLevel,
+  parseLevelResults,
+} from './reading-assessment-types'
+
+export const readingWordLists = readingWordListsData as unknown as ReadingWordListsData
+
+export const adaptiveLogic = readingWordLists.adaptiveLogic
+
+export const MAX_LEVELS_PER_SESSION = 3
+
+/** Options offered for each tap-to-choose item */
+const OPTION_COUNT = 3
+
+/** Sentences asked at each level; the rest of the questions are words */
+const SENTENCES_PER_LEVEL = 2
+
+type Random = () => number
+
+export function getReadingLevelMeta(level: ReadingLevel): ReadingLevelMeta {
+  return readingWordLists.levels[level]
+}
+
+/**
+ * Typical ages for a level, from its "3-4 years" style age range
+ */
+export function getReadingLevelAgeRange(level: ReadingLevel): { min: number; max: number } {
+  const [min, max] = readingWordLists.levels[level].ageRange.match(/\d+/g)!.map(Number)
+  return { min, max: max ?? min }
+}
+
+function unique(words: string[]): string[] {
+  return [...new Set(words)]
+}
+
+/** Words a child at this level should be able to read */
+function getLevelWords(level: ReadingLevel): string[] {
+  const { cvcWords, highFrequencyWords, blends, digraphs } = readingWordLists
+  switch (level) {
+    case 'pre_reader':
+      return unique(highFrequencyWords.preprimer)
+    case 'emerging': {
+      const cvc = Object.values(cvcWords).flatMap(group => typeof group === 'string' ? [] : group.map(w => w.word))
+      return unique([...cvc, ...highFrequencyWords.primer])
+    }
+    case 'early':
+      return unique([
+        ...Object.values(blends.initialBlends).flat(),
+        ...Object.values(blends.finalBlends).flat(),
+        ...Object.values(digraphs.initial).flat(),
+        ...Object.values(digraphs.final).flat(),
+        ...highFrequencyWords.firstGrade,
+      ])
+    case 'developing':
+      return unique(highFrequencyWords.secondGrade)
+  }
+}
+
+function getLevelSentences(level: ReadingLevel): AssessmentSentence[] {
+  const { sentences } = readingWordLists
+  switch (level) {
+    case 'pre_reader':
+      return sentences.level1_preReader
+    case 'emerging':
+      return sentences.level2_emerging
+    case 'early':
+      return sentences.level3_early
+    case 'developing':
+      return sentences.level4_developing
+  }
+}
+
+function shuffle<T>(items: T[], random: Random): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+function withDistractors(answer: string, pool: string[], random: Random): { options: string[]; correctIndex: number } {
+  const distractors = shuffle(pool.filter(option => option.toLowerCase() !== answer.toLowerCase()), random)
+    .slice(0, OPTION_COUNT - 1)
+  const options = shuffle([answer, ...distractors], random)
+  return { options, correctIndex: options.indexOf(answer) }
+}
+
+/** "at the park / on the swings" lists accepted answers; the first is shown */
+function primaryAnswer(answer: string): string {
+  return answer.split(' / ')[0]
+}
+
+/**
+ * A level's questions, words and sentences spread across both halves so a
+ * level scored after the first half has seen a sentence too
+ */
+export function buildPlacementItems(level: ReadingLevel, random: Random = Math.random): PlacementItem[] {
+  const count = adaptiveLogic.questionsPerLevel
+  const levelWords = getLevelWords(level)
+  const levelSentences = getLevelSentences(level)
+
+  const wordItems: PlacementItem[] = shuffle(levelWords, random)
+    .slice(0, count - SENTENCES_PER_LEVEL)
+    .map(word => ({
+      id: `${level}-word-${word}`,
+      level,
+      kind: 'word',
+      text: word,
+      question: 'Tap the word you hear',
+      say: word,
+      ...withDistractors(word, levelWords, random),
+    }))
+
+  const answers = levelSentences.map(s => primaryAnswer(s.answer))
+  const sentenceItems: PlacementItem[] = shuffle(levelSentences, random)
+    .slice(0, SENTENCES_PER_LEVEL)
+    .map(s => ({
+      id: `${level}-sentence-${levelSentences.indexOf(s)}`,
+      level,
+      kind: 'sentence',
+      text: s.sentence,
+      question: s.question,
+      say: s.question,
+      ...withDistractors(primaryAnswer(s.answer), answers, random),
+    }))
+
+  const half = Math.ceil(wordItems.length / 2)
+  return [
+    ...wordItems.slice(0, half), ...sentenceItems.slice(0, 1),
+    ...wordItems.slice(half), ...sentenceItems.slice(1),
+  ]
+}
+
+/**
+ * Where to start: the usual starting level, or one below the child's last
+ * placement so they begin with a win and can climb past three levels over
+ * repeat assessments
+ */
+export function getStartLevel(previous?: ReadingLevel | null): ReadingLevel {
+  if (!previous) return adaptiveLogic.startLevel
+  return READING_LEVELS[Math.max(0, READING_LEVELS.indexOf(previous) - 1)]
+}
+
+export function startPlacementAssessment(
+  options: { startLevel?: ReadingLevel; random?: Random } = {}
+): PlacementAssessment {
+  const level = options.startLevel ?? adaptiveLogic.startLevel
+  return {
+    level,
+    items: buildPlacementItems(level, options.random),
+    asked: 0,
+    correct: 0,
+    results: [],
+    finished: false,
+    placement: null,
+  }
+}
+
+export function getCurrentPlacementItem(assessment: PlacementAssessment): PlacementItem | null {
+  if (assessment.finished) return null
+  return assessment.items[assessment.asked] ?? null
+}
+
+function finish(assessment: PlacementAssessment, results: LevelResult[]): PlacementAssessment {
+  return {
+    ...assessment,
+    results,
+    finished: true,
+    placement: getPlacementLevel(results, adaptiveLogic.stayThreshold),
+  }
+}
+
+/**
+ * Record the answer to the current item and move the assessment on
+ */
+export function answerPlacementItem(
+  assessment: PlacementAssessment,
+  isCorrect: boolean,
+  random: Random = Math.random
+): PlacementAssessment {
+  if (assessment.finished) return assessment
+
+  const asked = assessment.asked + 1
+  const correct = assessment.correct + (isCorrect ? 1 : 0)
+  const total = assessment.items.length
+  const checkpoint = Math.ceil(total / 2)
+
+  if (asked !== checkpoint && asked < total) {
+    return { ...assessment, asked, correct }
+  }
+
+  const result: LevelResult = { level: assessment.level, correct, total: asked }
+  const accuracy = getLevelAccuracy(result)
+
+  if (accuracy >= adaptiveLogic.advanceThreshold) {
+    const results = [...assessment.results, result]
+    const nextLevel = READING_LEVELS[READING_LEVELS.indexOf(assessment.level) + 1]
+    if (!nextLevel || results.length >= MAX_LEVELS_PER_SESSION) {
+      return finish(assessment, results)
+    }
+    return {
+      ...assessment,
+      level: nextLevel,
+      items: buildPlacementItems(nextLevel, random),
+      asked: 0,
+      correct: 0,
+      results,
+    }
+  }
+
+  if (accuracy < adaptiveLogic.stayThreshold || asked >= total) {
+    return finish(assessment, [...assessment.results, result])
+  }
+
+  // Not sure yet - keep going at this level
+  return { ...assessment, asked, correct }
+}
@@ -3,11 +3,14 @@ export interface RhymeWord {
   word: string
   wordFamily: string
   difficulty: 1 | 2 | 3
-  image: string
+  image?: string
   emoji: string
   audio: string
 }
 
+/** A word as listed in rhyme-words.json; pictures come from the lexicon */
+export type RhymeWordContent = Omit<RhymeWord, 'image' | 'emoji'>
+
 export interface RhymeDistractor {
   id: string
   word: string
@@ -16,6 +19,8 @@ export interface RhymeDistractor {
   emoji: string
 }
 
+export type RhymeDistractorContent = Omit<RhymeDistractor, 'emoji'>
+
 export interface DifficultyLevel {
   name: string
   description: string
@@ -1,5 +1,12 @@
 import rhymeWordsData from '../../docs/content/rhyme-words.json'
-import type { RhymeWord, RhymeDistractor, RhymeWordsData } from './rhyme-types'
+import type {
+  RhymeWord,
+  RhymeWordContent,
+  RhymeDistractor,
+  RhymeDistractorContent,
+  RhymeWordsData,
+} from './rhyme-types'
+import { requireLexiconEntry } from './lexicon'
 
 export type {
   RhymeWord,
@@ -15,7 +22,19 @@ export {
   getDistractorsForFamily,
 } from './rhyme-types'
 
-export const rhymeWords: RhymeWordsData = rhymeWordsData as RhymeWordsData
+export const rhymeWords: RhymeWordsData = {
+  ...(rhymeWordsData as Omit<RhymeWordsData, 'words' | 'distractors'>),
+  words: (rhymeWordsData.words as RhymeWordContent[]).map((word): RhymeWord => {
+    const entry = requireLexiconEntry(word.word)
+    return { ...word, image: entry.image, emoji: entry.emoji! }
+  }),
+  distractors: (rhymeWordsData.distractors as RhymeDistractorContent[]).map(
+    (distractor): RhymeDistractor => ({
+      ...distractor,
+      emoji: requireLexiconEntry(distractor.word).emoji!,
+    })
+  ),
+}
 
 export function getAllRhymeWords(): RhymeWord[] {
   return rhymeWords.words
@@ -1,15 +1,23 @@
+import type { VowelPattern } from './lexicon-types'
+
 export interface GameWord {
   id: string
   word: string
   phonemes: string[]
-  vowelSound: 'short-a' | 'short-e' | 'short-i' | 'short-o' | 'short-u'
+  vowelSound: VowelPattern
   difficulty: 1 | 2 | 3
-  image: string
+  image?: string
   audio: string
   sentence: string
   category: WordCategory
 }
 
+/**
+ * A word as listed in game-words.json. Phonemes, vowel sound, picture and
+ * sentence come from the lexicon.
+ */
+export type GameWordContent = Pick<GameWord, 'id' | 'word' | 'difficulty' | 'audio' | 'category'>
+
 export type WordCategory = 'animals' | 'home' | 'nature' | 'clothing' | 'vehicles' | 'objects'
 
 export interface DifficultyLevel {
@@ -7,7 +7,7 @@ export interface WordFamilyWord {
   word: string
   onset: string // Beginning letter(s)
   isReal: boolean // Whether this is a real word
-  emoji?: string
+  emoji?: string // From the lexicon, for real words that have a picture
 }
 
 export interface WordFamily {
@@ -245,8 +245,8 @@ describe('word-families', () => {
       expect(diff3.length).toBeGreaterThan(0)
     })
 
-    it('should have all 15 word families', () => {
-      expect(wordFamilies.families.length).toBe(15)
+    it('should have all 17 word families', () => {
+      expect(wordFamilies.families.length).toBe(17)
     })
 
     it('should have unique IDs', () => {
@@ -5,6 +5,7 @@ import type {
   WordFamilyWord,
   WordFamilyCategory,
 } from './word-families-types'
+import { getLexiconEntry } from './lexicon'
 
 export type {
   WordFamily,
@@ -21,7 +22,18 @@ export {
   getValidWords,
 } from './word-families-types'
 
-export const wordFamilies: WordFamiliesData = wordFamiliesData as WordFamiliesData
+const wordFamiliesContent = wordFamiliesData as WordFamiliesData
+
+export const wordFamilies: WordFamiliesData = {
+  ...wordFamiliesContent,
+  families: wordFamiliesContent.families.map((family) => ({
+    ...family,
+    words: family.words.map((word) => ({
+      ...word,
+      emoji: word.isReal ? getLexiconEntry(word.word)?.emoji : undefined,
+    })),
+  })),
+}
 
 export function getAllWordFamilies(): WordFamily[] {
   return wordFamilies.families
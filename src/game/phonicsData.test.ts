@@ -71,7 +71,7 @@ describe('phonicsData', () => {
       difficultyLevels.forEach((level) => {
         level.words.forEach((word) => {
           expect(word.word).toBeDefined()
-          expect(word.image).toBeDefined()
+          expect(word.emoji).toBeDefined()
           expect(word.beginningSound).toBeDefined()
           expect(word.word.toLowerCase().startsWith(word.beginningSound)).toBe(
             true
@@ -1,12 +1,10 @@
 // Phonics game data - words organized by beginning sounds and difficulty
-// Used for the phonics sound matching game
+// Used for the phonics sound matching game. The words are the phonics word
+// list in game-data, so both phonics games ask about the same words.
 
-export interface PhonicsWord {
-  word: string
-  image: string // emoji placeholder - can be replaced with actual image URLs
-  beginningSound: string // the letter sound to match (e.g., 'c' for 'cat')
-  audio?: string // audio file path (optional)
-}
+import { getAllPhonicsWords, type PhonicsWord } from '../game-data/phonics'
+
+export type { PhonicsWord }
 
 export interface DifficultyLevel {
   name: string
@@ -15,68 +13,10 @@ export interface DifficultyLevel {
   choiceCount: number // how many letter choices to show (3-4)
 }
 
-// Words grouped by beginning sound, then organized into difficulty levels
-const wordsBySound: Record<string, PhonicsWord[]> = {
-  c: [
-    { word: 'cat', image: '🐱', beginningSound: 'c' },
-    { word: 'car', image: '🚗', beginningSound: 'c' },
-    { word: 'cup', image: '🥤', beginningSound: 'c' },
-    { word: 'cow', image: '🐄', beginningSound: 'c' },
-  ],
-  d: [
-    { word: 'dog', image: '🐕', beginningSound: 'd' },
-    { word: 'duck', image: '🦆', beginningSound: 'd' },
-    { word: 'door', image: '🚪', beginningSound: 'd' },
-    { word: 'drum', image: '🥁', beginningSound: 'd' },
-  ],
-  f: [
-    { word: 'fish', image: '🐟', beginningSound: 'f' },
-    { word: 'fox', image: '🦊', beginningSound: 'f' },
-    { word: 'frog', image: '🐸', beginningSound: 'f' },
-    { word: 'fan', image: '🪭', beginningSound: 'f' },
-  ],
-  s: [
-    { word: 'sun', image: '☀️', beginningSound: 's' },
-    { word: 'star', image: '⭐', beginningSound: 's' },
-    { word: 'snake', image: '🐍', beginningSound: 's' },
-    { word: 'sock', image: '🧦', beginningSound: 's' },
-  ],
-  b: [
-    { word: 'ball', image: '⚽', beginningSound: 'b' },
-    { word: 'bear', image: '🐻', beginningSound: 'b' },
-    { word: 'bus', image: '🚌', beginningSound: 'b' },
-    { word: 'bird', image: '🐦', beginningSound: 'b' },
-  ],
-  m: [
-    { word: 'moon', image: '🌙', beginningSound: 'm' },
-    { word: 'mouse', image: '🐭', beginningSound: 'm' },
-    { word: 'map', image: '🗺️', beginningSound: 'm' },
-    { word: 'milk', image: '🥛', beginningSound: 'm' },
-  ],
-  p: [
-    { word: 'pig', image: '🐷', beginningSound: 'p' },
-    { word: 'pizza', image: '🍕', beginningSound: 'p' },
-    { word: 'pen', image: '🖊️', beginningSound: 'p' },
-    { word: 'pear', image: '🍐', beginningSound: 'p' },
-  ],
-  t: [
-    { word: 'tree', image: '🌳', beginningSound: 't' },
-    { word: 'turtle', image: '🐢', beginningSound: 't' },
-    { word: 'train', image: '🚂', beginningSound: 't' },
-    { word: 'tent', image: '⛺', beginningSound: 't' },
-  ],
-  h: [
-    { word: 'hat', image: '🎩', beginningSound: 'h' },
-    { word: 'house', image: '🏠', beginningSound: 'h' },
-    { word: 'heart', image: '❤️', beginningSound: 'h' },
-    { word: 'horse', image: '🐴', beginningSound: 'h' },
-  ],
-  r: [
-    { word: 'rain', image: '🌧️', beginningSound: 'r' },
-    { word: 'ring', image: '💍', beginningSound: 'r' },
-    { word: 'rabbit', image: '🐰', beginningSound: 'r' },
-    { word: 'rose', image: '🌹', beginningSound: 'r' },
-  ],
+// Words grouped by beginning sound
+const wordsBySound: Record<string, PhonicsWord[]> = {}
+for (const word of getAllPhonicsWords()) {
+  ;(wordsBySound[word.beginningSound] ??= []).push(word)
 }
 
 // Get all available letter sounds
@@ -89,42 +29,25 @@ export function getWordsBySound(sound: string): PhonicsWord[] {
   return wordsBySound[sound.toLowerCase()] || []
 }
 
-// Difficulty levels with progressive challenge
+// Difficulty levels with progressive challenge, following the word list's difficulty
 export const difficultyLevels: DifficultyLevel[] = [
   {
     name: 'Easy',
     description: 'Common sounds with 3 choices',
     choiceCount: 3,
-    words: [
-      ...wordsBySound.c.slice(0, 2),
-      ...wordsBySound.d.slice(0, 2),
-      ...wordsBySound.s.slice(0, 2),
-      ...wordsBySound.b.slice(0, 2),
-    ],
+    words: getAllPhonicsWords().filter((w) => w.difficulty === 1),
   },
   {
     name: 'Medium',
     description: 'More sounds with 3 choices',
     choiceCount: 3,
-    words: [
-      ...wordsBySound.f.slice(0, 2),
-      ...wordsBySound.m.slice(0, 2),
-      ...wordsBySound.p.slice(0, 2),
-      ...wordsBySound.t.slice(0, 2),
-    ],
+    words: getAllPhonicsWords().filter((w) => w.difficulty === 2),
   },
   {
     name: 'Hard',
-    description: 'All sounds with 4 choices',
+    description: 'Longer words with 4 choices',
     choiceCount: 4,
-    words: [
-      ...wordsBySound.c.slice(2),
-      ...wordsBySound.d.slice(2),
-      ...wordsBySound.f.slice(2),
-      ...wordsBySound.s.slice(2),
-      ...wordsBySound.h,
-      ...wordsBySound.r,
-    ],
+    words: getAllPhonicsWords().filter((w) => w.difficulty === 3),
   },
 ]
 
@@ -0,0 +1,11 @@
+// Fisher-Yates shuffle shared by the games. Returns a new array and leaves
+// the input untouched.
+
+export function shuffleArray<T>(array: readonly T[]): T[] {
+  const shuffled = [...array]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
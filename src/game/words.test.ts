@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import {
+  spellingTiers,
+  words,
+  getSpellingTier,
+  getSpellingTiles,
+  shuffleTiles,
+} from './words'
+import { getLetterCount, requireLexiconEntry } from '../game-data/lexicon'
+
+describe('words', () => {
+  describe('spellingTiers', () => {
+    it('has three tiers with words', () => {
+      expect(spellingTiers.map((t) => t.level)).toEqual([1, 2, 3])
+      spellingTiers.forEach((tier) => {
+        expect(tier.words.length).toBeGreaterThan(0)
+      })
+    })
+
+    it('starts with the original short words', () => {
+      expect(words.slice(0, 3).map((w) => w.word)).toEqual(['cat', 'dog', 'sun'])
+    })
+
+    it('keeps every word between 2 and 8 letters with a picture', () => {
+      spellingTiers.forEach((tier) => {
+        tier.words.forEach((word) => {
+          expect(getLetterCount(word)).toBeGreaterThanOrEqual(2)
+          expect(getLetterCount(word)).toBeLessThanOrEqual(8)
+          expect(word.emoji).toBeDefined()
+        })
+      })
+    })
+
+    it('includes two letter words in the first tier', () => {
+      expect(getSpellingTier(1).words.some((w) => getLetterCount(w) === 2)).toBe(true)
+    })
+
+    it('uses multi-syllable words in the last tier', () => {
+      expect(getSpellingTier(3).words.every((w) => w.syllables.length >= 2)).toBe(true)
+    })
+
+    it('has no repeated words within a tier', () => {
+      spellingTiers.forEach((tier) => {
+        const unique = new Set(tier.words.map((w) => w.word))
+        expect(unique.size).toBe(tier.words.length)
+      })
+    })
+  })
+
+  describe('getSpellingTiles', () => {
+    it('splits into letters', () => {
+      expect(getSpellingTiles(requireLexiconEntry('ship'), 'letters')).toEqual(['s', 'h', 'i', 'p'])
+    })
+
+    it('keeps digraphs as one chunk', () => {
+      expect(getSpellingTiles(requireLexiconEntry('ship'), 'chunks')).toEqual(['sh', 'i', 'p'])
+      expect(getSpellingTiles(requireLexiconEntry('duck'), 'chunks')).toEqual(['d', 'u', 'ck'])
+    })
+
+    it('joins blends into one chunk', () => {
+      expect(getSpellingTiles(requireLexiconEntry('black'), 'chunks')).toEqual(['bl', 'a', 'ck'])
+      expect(getSpellingTiles(requireLexiconEntry('jump'), 'chunks')).toEqual(['j', 'u', 'mp'])
+    })
+
+    it('splits into syllables', () => {
+      expect(getSpellingTiles(requireLexiconEntry('rabbit'), 'syllables')).toEqual(['rab', 'bit'])
+    })
+
+    it('always spells the word', () => {
+      spellingTiers.forEach((tier) => {
+        tier.words.forEach((word) => {
+          for (const mode of ['letters', 'chunks', 'syllables'] as const) {
+            expect(getSpellingTiles(word, mode).join('')).toBe(word.word)
+          }
+        })
+      })
+    })
+  })
+
+  describe('shuffleTiles', () => {
+    it('keeps the same tiles', () => {
+      const tiles = ['sh', 'i', 'p']
+      expect([...shuffleTiles(tiles)].sort()).toEqual([...tiles].sort())
+    })
+
+    it('never returns tiles in spelling order', () => {
+      for (let i = 0; i < 20; i++) {
+        expect(shuffleTiles(['c', 'a', 't']).join('')).not.toBe('cat')
+      }
+    })
+  })
+})
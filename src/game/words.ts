@@ -1,46 +1,139 @@
-// 3-letter CVC words for spelling game
-// Sorted roughly by difficulty - start with common, phonetically simple words
-
-export interface Word {
-  word: string
-  image: string // emoji placeholder - can be replaced with actual image URLs
-  audio?: string // audio file path (optional for now)
-}
-
-export const words: Word[] = [
-  { word: 'cat', image: '🐱' },
-  { word: 'dog', image: '🐕' },
-  { word: 'sun', image: '☀️' },
-  { word: 'hat', image: '🎩' },
-  { word: 'bug', image: '🐛' },
-  { word: 'cup', image: '🥤' },
-  { word: 'bed', image: '🛏️' },
-  { word: 'pig', image: '🐷' },
-  { word: 'fox', image: '🦊' },
-  { word: 'hen', image: '🐔' },
-  { word: 'bat', image: '🦇' },
-  { word: 'bus', image: '🚌' },
-  { word: 'map', image: '🗺️' },
-  { word: 'web', image: '🕸️' },
-  { word: 'jam', image: '🍓' },
-  { word: 'log', image: '🪵' },
-  { word: 'pot', image: '🍲' },
-  { word: 'rug', image: '🟫' },
-  { word: 'net', image: '🥅' },
-  { word: 'box', image: '📦' },
+// Words for the spelling game, in three tiers drawn from the lexicon.
+// Words are spelled with tiles: single letters for short words, sound
+// chunks ("sh", "bl", "ar") for longer ones, or whole syllables.
+
+import {
+  findLexiconEntries,
+  getLetterCount,
+  requireLexiconEntry,
+  type LexiconEntry,
+} from '../game-data/lexicon'
+import { shuffleArray } from './shuffle'
+
+export type SpellingTierLevel = 1 | 2 | 3
+
+// How a word is split into tiles
+export type TileMode = 'letters' | 'chunks' | 'syllables'
+
+export interface SpellingTier {
+  level: SpellingTierLevel
+  name: string
+  description: string
+  tileMode: TileMode
+  words: LexiconEntry[]
+}
+
+// Consonant pairs that are blended but still heard as two sounds. The lexicon
+// keeps them as separate graphemes, so chunk tiles join them.
+const BLENDS = new Set([
+  'bl', 'br', 'cl', 'cr', 'dr', 'fl', 'fr', 'gl', 'gr', 'pl', 'pr', 'sc', 'sk',
+  'sl', 'sm', 'sn', 'sp', 'st', 'sw', 'tr', 'tw', 'ft', 'lk', 'lp', 'mp', 'nd',
+  'nk', 'nt', 'pt',
+])
+
+// Short words, easiest first. These were the whole game before it had tiers.
+const STARTER_WORDS = [
+  'cat', 'dog', 'sun', 'hat', 'bug', 'cup', 'bed', 'pig', 'fox', 'hen',
+  'bat', 'bus', 'map', 'web', 'jam', 'log', 'pot', 'rug', 'net', 'box',
 ]
 
+// One tile per letter and one letter per sound, so the word spells as it sounds
+function isLetterBySound(entry: LexiconEntry): boolean {
+  return entry.graphemes.length === getLetterCount(entry)
+}
+
+function byLength(a: LexiconEntry, b: LexiconEntry): number {
+  return getLetterCount(a) - getLetterCount(b) || a.word.localeCompare(b.word)
+}
+
+// Starter words first, then the rest shortest first. Words with capitals,
+// apostrophes or hyphens are left out since their tiles can't show them.
+function tierWords(starters: string[], candidates: LexiconEntry[]): LexiconEntry[] {
+  const seen = new Set(starters)
+  return [
+    ...starters.map((word) => requireLexiconEntry(word)),
+    ...candidates
+      .filter((entry) => !seen.has(entry.word) && /^[a-z]+$/.test(entry.word))
+      .sort(byLength),
+  ]
+}
+
+export const spellingTiers: SpellingTier[] = [
+  {
+    level: 1,
+    name: 'Short words',
+    description: 'Two and three letter words, one letter at a time',
+    tileMode: 'letters',
+    words: tierWords(
+      STARTER_WORDS,
+      findLexiconEntries({ minLetters: 2, maxLetters: 3, syllableCount: 1, withEmoji: true }).filter(
+        isLetterBySound
+      )
+    ),
+  },
+  {
+    level: 2,
+    name: 'Sound chunks',
+    description: 'Four and five letter words with tiles like "sh" and "bl"',
+    tileMode: 'chunks',
+    words: tierWords(
+      [],
+      findLexiconEntries({ minLetters: 4, maxLetters: 5, syllableCount: 1, withEmoji: true })
+    ),
+  },
+  {
+    level: 3,
+    name: 'Long words',
+    description: 'Words with two or more syllables, up to eight letters',
+    tileMode: 'chunks',
+    words: tierWords(
+      [],
+      findLexiconEntries({ minLetters: 4, maxLetters: 8, withEmoji: true }).filter(
+        (entry) => entry.syllables.length >= 2
+      )
+    ),
+  },
+]
+
+// All the words in the first tier, the starting list
+export const words: LexiconEntry[] = spellingTiers[0].words
+
+export function getSpellingTier(level: SpellingTierLevel): SpellingTier {
+  return spellingTiers.find((tier) => tier.level === level) ?? spellingTiers[0]
+}
+
+// Splits a word into the tiles the child places, in spelling order
+export function getSpellingTiles(entry: LexiconEntry, mode: TileMode): string[] {
+  switch (mode) {
+    case 'letters':
+      return entry.graphemes.join('').split('')
+    case 'syllables':
+      return [...entry.syllables]
+    case 'chunks': {
+      const tiles: string[] = []
+      for (const grapheme of entry.graphemes) {
+        const previous = tiles[tiles.length - 1]
+        if (previous?.length === 1 && grapheme.length === 1 && BLENDS.has(previous + grapheme)) {
+          tiles[tiles.length - 1] = previous + grapheme
+        } else {
+          tiles.push(grapheme)
+        }
+      }
+      return tiles
+    }
+  }
+}
+
 // Utility to get a random word
-export function getRandomWord(): Word {
+export function getRandomWord(): LexiconEntry {
   return words[Math.floor(Math.random() * words.length)]
 }
 
-// Utility to shuffle letters
-export function shuffleLetters(word: string): string[] {
-  const letters = word.split('')
-  for (let i = letters.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
-    ;[letters[i], letters[j]] = [letters[j], letters[i]]
+// Utility to shuffle tiles, never leaving them already in spelling order
+export function shuffleTiles(tiles: string[]): string[] {
+  const shuffled = shuffleArray(tiles)
+  if (shuffled.length > 1 && shuffled.join('') === tiles.join('')) {
+    shuffled.push(shuffled.shift()!)
   }
-  return letters
+  return shuffled
 }
@@ -0,0 +1,17 @@
+import { useState, useCallback } from 'react'
+
+/**
+ * Messages for an aria-live region. Render the returned message inside an
+ * element with aria-live="polite". Nothing is announced while disabled.
+ */
+export function useAnnouncer(enabled: boolean) {
+  const [message, setMessage] = useState('')
+
+  const announce = useCallback((text: string) => {
+    if (!enabled) return
+    // A trailing non-breaking space makes a repeated message a change, so it is read again
+    setMessage(prev => (prev === text ? `${text}\u00a0` : text))
+  }, [enabled])
+
+  return { message: enabled ? message : '', announce }
+}
@@ -0,0 +1,50 @@
+import { useCallback } from 'react'
+
+const ITEM_SELECTOR = '[data-nav-row]'
+
+function isUsable(element: HTMLElement): boolean {
+  return element.getAttribute('aria-disabled') !== 'true' && !(element as HTMLButtonElement).disabled
+}
+
+/**
+ * Arrow key movement between tiles. Items are marked with a data-nav-row
+ * attribute: left and right move along a row and wrap, up and down move to
+ * the item in the same position in the row above or below. Attach the
+ * returned handler to onKeyDown of an element containing every row.
+ */
+export function useArrowNavigation() {
+  return useCallback((e: React.KeyboardEvent<HTMLElement>) => {
+    const current = e.target as HTMLElement
+    const row = current.dataset?.navRow
+    if (row === undefined) return
+
+    const items = Array.from(e.currentTarget.querySelectorAll<HTMLElement>(ITEM_SELECTOR)).filter(isUsable)
+    const rows = [...new Set(items.map(item => item.dataset.navRow!))]
+    const rowItems = (name: string) => items.filter(item => item.dataset.navRow === name)
+    const inRow = rowItems(row)
+    const position = inRow.indexOf(current)
+
+    let target: HTMLElement | undefined
+    switch (e.key) {
+      case 'ArrowLeft':
+        target = inRow[(position - 1 + inRow.length) % inRow.length]
+        break
+      case 'ArrowRight':
+        target = inRow[(position + 1) % inRow.length]
+        break
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const nextRow = rows[rows.indexOf(row) + (e.key === 'ArrowUp' ? -1 : 1)]
+        if (nextRow === undefined) return
+        const candidates = rowItems(nextRow)
+        target = candidates[Math.min(Math.max(position, 0), candidates.length - 1)]
+        break
+      }
+      default:
+        return
+    }
+
+    e.preventDefault()
+    target?.focus()
+  }, [])
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useAuth, getAuthHeaders } from './useAuth'
+
+const parent = { id: 'user-1', email: 'parent@example.com', name: 'Parent' }
+
+describe('useAuth', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('starts signed out without a saved session', () => {
+    const { result } = renderHook(() => useAuth())
+
+    expect(result.current.user).toBeNull()
+    expect(result.current.token).toBeNull()
+    expect(getAuthHeaders()).toEqual({})
+  })
+
+  it('stores the token after logging in', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ user: parent, token: 'jwt-token' }),
+    } as Response)
+
+    const { result } = renderHook(() => useAuth())
+    await act(async () => {
+      await result.current.login('parent@example.com', 'password123')
+    })
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/auth/login', expect.objectContaining({ method: 'POST' }))
+    expect(result.current.user).toEqual(parent)
+    expect(getAuthHeaders()).toEqual({ Authorization: 'Bearer jwt-token' })
+
+    // A fresh mount restores the session
+    const { result: restored } = renderHook(() => useAuth())
+    expect(restored.current.user).toEqual(parent)
+  })
+
+  it('throws the server error when registration fails', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      json: () => Promise.resolve({ error: 'Email already registered' }),
+    } as Response)
+
+    const { result } = renderHook(() => useAuth())
+
+    await expect(result.current.register('Parent', 'parent@example.com', 'password123'))
+      .rejects.toThrow('Email already registered')
+    expect(result.current.user).toBeNull()
+  })
+
+  it('clears the session on logout', async () => {
+    localStorage.setItem('auth_token', 'jwt-token')
+    localStorage.setItem('l2rr2l_auth_user', JSON.stringify(parent))
+
+    const { result } = renderHook(() => useAuth())
+    expect(result.current.user).toEqual(parent)
+
+    act(() => {
+      result.current.logout()
+    })
+
+    expect(result.current.user).toBeNull()
+    expect(localStorage.getItem('auth_token')).toBeNull()
+  })
+})
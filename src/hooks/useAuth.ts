@@ -0,0 +1,108 @@
+import { useState, useCallback } from 'react'
+
+export interface AuthUser {
+  id: string
+  email: string
+  name: string
+}
+
+interface AuthState {
+  user: AuthUser | null
+  token: string | null
+}
+
+interface AuthResponse {
+  user?: AuthUser
+  token?: string
+  error?: string
+}
+
+// LocalStorage keys for the signed-in parent account
+const AUTH_TOKEN_KEY = 'auth_token'
+const AUTH_USER_KEY = 'l2rr2l_auth_user'
+
+/**
+ * Authorization header for API calls made on behalf of the signed-in parent
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const token = localStorage.getItem(AUTH_TOKEN_KEY)
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+/**
+ * Id of the signed-in parent, or null when signed out
+ */
+export function getAuthUserId(): string | null {
+  return loadAuthState().user?.id ?? null
+}
+
+// Load the saved session from localStorage
+function loadAuthState(): AuthState {
+  try {
+    const token = localStorage.getItem(AUTH_TOKEN_KEY)
+    const cachedUser = localStorage.getItem(AUTH_USER_KEY)
+    if (token && cachedUser) {
+      return { token, user: JSON.parse(cachedUser) as AuthUser }
+    }
+  } catch {
+    // Ignore localStorage errors
+  }
+  return { user: null, token: null }
+}
+
+// Save the session to localStorage (or clear it on logout)
+function saveAuthState(state: AuthState): void {
+  try {
+    if (state.token && state.user) {
+      localStorage.setItem(AUTH_TOKEN_KEY, state.token)
+      localStorage.setItem(AUTH_USER_KEY, JSON.stringify(state.user))
+    } else {
+      localStorage.removeItem(AUTH_TOKEN_KEY)
+      localStorage.removeItem(AUTH_USER_KEY)
+    }
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+/**
+ * Parent account session backed by /api/auth.
+ * login and register throw an Error with the server's message on failure.
+ */
+export function useAuth() {
+  const [state, setState] = useState<AuthState>(loadAuthState)
+
+  const authenticate = useCallback(async (path: 'login' | 'register', body: Record<string, string>) => {
+    const response = await fetch(`/api/auth/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await response.json().catch(() => ({})) as AuthResponse
+
+    if (!response.ok || !data.token || !data.user) {
+      throw new Error(data.error || (path === 'login' ? 'Login failed' : 'Registration failed'))
+    }
+
+    const next = { user: data.user, token: data.token }
+    saveAuthState(next)
+    setState(next)
+    return data.user
+  }, [])
+
+  const login = useCallback((email: string, password: string) => {
+    return authenticate('login', { email, password })
+  }, [authenticate])
+
+  const register = useCallback((name: string, email: string, password: string) => {
+    return authenticate('register', { name, email, password })
+  }, [authenticate])
+
+  const logout = useCallback(() => {
+    const next = { user: null, token: null }
+    saveAuthState(next)
+    setState(next)
+  }, [])
+
+  return { user: state.user, token: state.token, login, register, logout }
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { useChildren, type ChildProfile } from './useChildren'
+
+function makeChild(id: string, name: string): ChildProfile {
+  return {
+    id,
+    name,
+    age: 5,
+    sex: null,
+    avatar: 'fox',
+    grade_level: null,
+    learning_style: null,
+    interests: [],
+    reading_level: null,
+    reading_assessment: null,
+    reading_assessed_at: null,
+    learning_style_profile: null,
+    personality_profile: null,
+    accessibility_settings: null,
+    display_profile: null,
+  }
+}
+
+const siblings = [makeChild('child-1', 'Ava'), makeChild('child-2', 'Ben')]
+
+describe('useChildren', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ children: siblings }),
+    } as Response)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('does nothing while signed out', () => {
+    const { result } = renderHook(() => useChildren(null))
+
+    expect(result.current.children).toBeNull()
+    expect(result.current.isLoading).toBe(false)
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  it('loads the parent\'s children with the token', async () => {
+    const { result } = renderHook(() => useChildren('jwt-token'))
+
+    expect(result.current.isLoading).toBe(true)
+    await waitFor(() => expect(result.current.children).toEqual(siblings))
+    expect(global.fetch).toHaveBeenCalledWith('/api/children', {
+      headers: { Authorization: 'Bearer jwt-token' },
+    })
+  })
+
+  it('remembers the selected child across mounts', async () => {
+    const { result } = renderHook(() => useChildren('jwt-token'))
+    await waitFor(() => expect(result.current.children).not.toBeNull())
+
+    act(() => {
+      result.current.selectChild('child-2')
+    })
+    expect(result.current.activeChild?.name).toBe('Ben')
+
+    const { result: remounted } = renderHook(() => useChildren('jwt-token'))
+    await waitFor(() => expect(remounted.current.activeChild?.name).toBe('Ben'))
+  })
+
+  it('adds a child and makes it active', async () => {
+    const { result } = renderHook(() => useChildren('jwt-token'))
+    await waitFor(() => expect(result.current.children).not.toBeNull())
+
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      status: 201,
+      json: () => Promise.resolve({ child: makeChild('child-3', 'Cleo') }),
+    } as Response)
+
+    await act(async () => {
+      await result.current.addChild({ name: 'Cleo', age: 4, sex: null, avatar: 'owl' })
+    })
+
+    expect(result.current.children).toHaveLength(3)
+    expect(result.current.activeChild?.id).toBe('child-3')
+  })
+
+  it('saves a reading placement onto the child', async () => {
+    const { result } = renderHook(() => useChildren('jwt-token'))
+    await waitFor(() => expect(result.current.children).not.toBeNull())
+
+    const results = [{ level: 'pre_reader' as const, correct: 5, total: 5 }]
+    const placed = { ...siblings[1], reading_level: 'emerging' as const, reading_assessment: results, reading_assessed_at: '2026-10-19 09:00:00' }
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ child: placed }),
+    } as Response)
+
+    await act(async () => {
+      await result.current.saveReadingLevel('child-2', 'emerging', results)
+    })
+
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/children/child-2/reading-level', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ level: 'emerging', results }),
+    }))
+    expect(result.current.children?.[1].reading_level).toBe('emerging')
+  })
+
+  it('passes on the server error when a learning profile is rejected', async () => {
+    const { result } = renderHook(() => useChildren('jwt-token'))
+    await waitFor(() => expect(result.current.children).not.toBeNull())
+
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({ error: 'Every learning style question needs a valid answer' }),
+    } as Response)
+
+    await expect(result.current.saveLearningProfile('child-2', {
+      learningStyleAnswers: {},
+      personalityAnswers: { 'pers-001': 'pers-001-a' },
+    })).rejects.toThrow('Every learning style question needs a valid answer')
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/children/child-2/learning-profile', expect.objectContaining({
+      method: 'PUT',
+    }))
+  })
+
+  it('saves accessibility settings and updates the child', async () => {
+    const { result } = renderHook(() => useChildren('jwt-token'))
+    await waitFor(() => expect(result.current.children).not.toBeNull())
+
+    const settings = { inputMode: 'scan' as const, scanIntervalMs: 2000, announcePlacements: true }
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ child: { ...siblings[0], accessibility_settings: settings } }),
+    } as Response)
+
+    await act(async () => {
+      await result.current.saveAccessibilitySettings('child-1', settings)
+    })
+
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/children/child-1/accessibility', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    }))
+    expect(result.current.children?.[0].accessibility_settings).toEqual(settings)
+  })
+
+  it('saves a display profile and updates the child', async () => {
+    const { result } = renderHook(() => useChildren('jwt-token'))
+    await waitFor(() => expect(result.current.children).not.toBeNull())
+
+    const profile = {
+      dyslexiaFont: true,
+      letterSpacing: 'wide' as const,
+      wordSpacing: 'normal' as const,
+      lineRuler: true,
+      colorCodeLetters: false,
+      reducedMotion: true,
+    }
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ child: { ...siblings[0], display_profile: profile } }),
+    } as Response)
+
+    await act(async () => {
+      await result.current.saveDisplayProfile('child-1', profile)
+    })
+
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/children/child-1/display-profile', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify(profile),
+    }))
+    expect(result.current.children?.[0].display_profile).toEqual(profile)
+  })
+
+  it('imports the child saved on this device before profiles were kept on the account', async () => {
+    localStorage.setItem('l2rr2l_child_data_dev-child-1', JSON.stringify({ name: 'Cleo', age: 4, sex: 'girl', avatar: 'owl' }))
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({ children: [] }) } as Response)
+      .mockResolvedValueOnce({ ok: true, status: 201, json: () => Promise.resolve({ child: makeChild('child-3', 'Cleo') }) } as Response)
+
+    const { result } = renderHook(() => useChildren('jwt-token'))
+
+    await waitFor(() => expect(result.current.children).toHaveLength(1))
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/children', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ name: 'Cleo', age: 4, sex: 'girl', avatar: 'owl' }),
+    }))
+    expect(result.current.activeChild?.id).toBe('child-3')
+    expect(localStorage.getItem('l2rr2l_child_data_dev-child-1')).toBeNull()
+  })
+
+  it('does not import a local child the account already has', async () => {
+    localStorage.setItem('l2rr2l_child_data_dev-child-1', JSON.stringify({ name: 'ava', age: 5, sex: null, avatar: 'fox' }))
+
+    const { result } = renderHook(() => useChildren('jwt-token'))
+
+    await waitFor(() => expect(result.current.children).toEqual(siblings))
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+    expect(localStorage.getItem('l2rr2l_child_data_dev-child-1')).toBeNull()
+  })
+
+  it('reports a rejected token', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false, status: 401 } as Response)
+    const onUnauthorized = vi.fn()
+
+    renderHook(() => useChildren('expired-token', onUnauthorized))
+
+    await waitFor(() => expect(onUnauthorized).toHaveBeenCalled())
+  })
+})
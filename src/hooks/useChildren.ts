@@ -0,0 +1,261 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { LevelResult, ReadingLevel } from '../game-data/reading-assessment'
+import type { LearningStyleProfile, PersonalityProfile, QuizAnswers } from '../game-data/learning-profile'
+import type { AccessibilitySettings, DisplayProfile } from '../types/accessibility'
+
+/**
+ * A child profile, as returned by GET /api/children
+ */
+export interface ChildProfile {
+  id: string
+  name: string
+  age: number | null
+  sex: string | null
+  avatar: string | null
+  grade_level: string | null
+  learning_style: string | null
+  interests: string[]
+  /** Placement from the reading challenge; null until it has been taken */
+  reading_level: ReadingLevel | null
+  reading_assessment: LevelResult[] | null
+  reading_assessed_at: string | null
+  /** Superpower Discovery results; null until the parent has taken the quiz */
+  learning_style_profile: LearningStyleProfile | null
+  personality_profile: PersonalityProfile | null
+  /** How the child plays the tile games; null until a parent changes it */
+  accessibility_settings: AccessibilitySettings | null
+  /** How reading text is shown; null until a parent changes it */
+  display_profile: DisplayProfile | null
+}
+
+export interface NewChildProfile {
+  name: string
+  age: number | null
+  sex: string | null
+  avatar: string | null
+}
+
+// LocalStorage key for the child who is currently playing
+const ACTIVE_CHILD_STORAGE_KEY = 'l2rr2l_active_child_id'
+
+function loadActiveChildId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_CHILD_STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+function saveActiveChildId(childId: string | null): void {
+  try {
+    if (childId) {
+      localStorage.setItem(ACTIVE_CHILD_STORAGE_KEY, childId)
+    } else {
+      localStorage.removeItem(ACTIVE_CHILD_STORAGE_KEY)
+    }
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+// Before profiles were saved to the account, onboarding kept a single child
+// here. It is imported into the account the first time the parent signs in.
+const LEGACY_CHILD_STORAGE_KEY = 'l2rr2l_child_data_dev-child-1'
+
+function loadLegacyChild(): NewChildProfile | null {
+  try {
+    const stored = localStorage.getItem(LEGACY_CHILD_STORAGE_KEY)
+    if (!stored) return null
+    const parsed = JSON.parse(stored) as Partial<NewChildProfile>
+    if (typeof parsed.name !== 'string' || !parsed.name.trim()) return null
+    return {
+      name: parsed.name.trim(),
+      age: typeof parsed.age === 'number' ? parsed.age : null,
+      sex: typeof parsed.sex === 'string' ? parsed.sex : null,
+      avatar: typeof parsed.avatar === 'string' ? parsed.avatar : null,
+    }
+  } catch {
+    return null
+  }
+}
+
+function clearLegacyChild(): void {
+  try {
+    localStorage.removeItem(LEGACY_CHILD_STORAGE_KEY)
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+/**
+ * Add the locally stored child to the account unless a child with the same
+ * name is already there. The local copy is kept if the request fails, so the
+ * import is tried again next time.
+ */
+async function importLegacyChild(token: string, children: ChildProfile[]): Promise<ChildProfile | null> {
+  const legacy = loadLegacyChild()
+  if (!legacy) return null
+  if (children.some(c => c.name.toLowerCase() === legacy.name.toLowerCase())) {
+    clearLegacyChild()
+    return null
+  }
+
+  const response = await fetch('/api/children', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(legacy),
+  })
+  if (!response.ok) return null
+  const data = await response.json() as { child?: ChildProfile }
+  if (!data.child) return null
+  clearLegacyChild()
+  return data.child
+}
+
+interface LoadedChildren {
+  token: string
+  children: ChildProfile[]
+}
+
+/**
+ * The signed-in parent's children and which of them is playing.
+ * Lists are fetched per token, so signing out or switching accounts never
+ * shows another family's children. onUnauthorized is called when the token
+ * is rejected (e.g. it expired).
+ */
+export function useChildren(token: string | null, onUnauthorized?: () => void) {
+  const [loaded, setLoaded] = useState<LoadedChildren | null>(null)
+  const [activeChildId, setActiveChildId] = useState<string | null>(loadActiveChildId)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!token) return
+
+    let cancelled = false
+    async function fetchChildren() {
+      try {
+        const response = await fetch('/api/children', {
+          headers: { Authorization: `Bearer ${token}` },
+        })
+        if (cancelled) return
+        if (response.status === 401) {
+          onUnauthorized?.()
+          return
+        }
+        if (!response.ok) {
+          setError('Could not load your readers')
+          return
+        }
+        const data = await response.json() as { children?: ChildProfile[] }
+        let children = data.children || []
+        const imported = await importLegacyChild(token!, children).catch(() => null)
+        if (imported) {
+          children = [...children, imported]
+          if (!loadActiveChildId()) {
+            saveActiveChildId(imported.id)
+            setActiveChildId(imported.id)
+          }
+        }
+        if (!cancelled) {
+          setLoaded({ token: token!, children })
+          setError(null)
+        }
+      } catch {
+        if (!cancelled) setError('Could not load your readers')
+      }
+    }
+
+    fetchChildren()
+    return () => {
+      cancelled = true
+    }
+  }, [token, onUnauthorized])
+
+  const children = token && loaded?.token === token ? loaded.children : null
+  const activeChild = children?.find(c => c.id === activeChildId) ?? null
+
+  const selectChild = useCallback((childId: string | null) => {
+    saveActiveChildId(childId)
+    setActiveChildId(childId)
+  }, [])
+
+  /** Create a child profile and make it the active child */
+  const addChild = useCallback(async (profile: NewChildProfile) => {
+    if (!token) throw new Error('Please log in first')
+
+    const response = await fetch('/api/children', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(profile),
+    })
+    const data = await response.json().catch(() => ({})) as { child?: ChildProfile; error?: string }
+    if (!response.ok || !data.child) {
+      throw new Error(data.error || 'Could not add reader')
+    }
+
+    const child = data.child
+    setLoaded(prev => ({
+      token,
+      children: [...(prev?.token === token ? prev.children : []), child],
+    }))
+    selectChild(child.id)
+    return child
+  }, [token, selectChild])
+
+  /** PUT to one of a child's endpoints and keep the list in step with the reply */
+  const putChild = useCallback(async (path: string, body: unknown, failure: string) => {
+    if (!token) throw new Error('Please log in first')
+
+    const response = await fetch(path, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+    })
+    const data = await response.json().catch(() => ({})) as { child?: ChildProfile; error?: string }
+    if (!response.ok || !data.child) {
+      throw new Error(data.error || failure)
+    }
+
+    const child = data.child
+    setLoaded(prev => prev?.token === token
+      ? { token, children: prev.children.map(c => (c.id === child.id ? child : c)) }
+      : prev)
+    return child
+  }, [token])
+
+  /** Store the level a child placed at in the reading challenge */
+  const saveReadingLevel = useCallback((childId: string, level: ReadingLevel, results: LevelResult[]) =>
+    putChild(`/api/children/${childId}/reading-level`, { level, results }, 'Could not save reading level'),
+  [putChild])
+
+  /** Score and store a parent's Superpower Discovery answers */
+  const saveLearningProfile = useCallback((
+    childId: string,
+    answers: { learningStyleAnswers: QuizAnswers; personalityAnswers: QuizAnswers }
+  ) =>
+    putChild(`/api/children/${childId}/learning-profile`, answers, 'Could not save learning profile'),
+  [putChild])
+
+  /** Store how a child moves tiles and whether placements are announced */
+  const saveAccessibilitySettings = useCallback((childId: string, settings: AccessibilitySettings) =>
+    putChild(`/api/children/${childId}/accessibility`, settings, 'Could not save accessibility settings'),
+  [putChild])
+
+  /** Store how reading text is shown to a child */
+  const saveDisplayProfile = useCallback((childId: string, profile: DisplayProfile) =>
+    putChild(`/api/children/${childId}/display-profile`, profile, 'Could not save display profile'),
+  [putChild])
+
+  return {
+    children,
+    activeChild,
+    isLoading: !!token && children === null && !error,
+    error,
+    selectChild,
+    addChild,
+    saveReadingLevel,
+    saveLearningProfile,
+    saveAccessibilitySettings,
+    saveDisplayProfile,
+  }
+}
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react'
+import { fetchOnboarding, saveOnboarding } from './useOnboarding'
+import type { DiscoveryProgress } from '../game-data/learning-profile'
+
+/**
+ * Superpower Discovery progress, kept under `data.discovery` in the parent's
+ * onboarding record so a quiz can be paused and resumed on any device. Only
+ * one quiz is in progress per parent; progress saved for a different child is
+ * ignored.
+ */
+export function useDiscoveryProgress(childId: string) {
+  const [saved, setSaved] = useState<DiscoveryProgress | null>(null)
+  const [loadedFor, setLoadedFor] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchOnboarding()
+      .then(onboarding => {
+        if (cancelled) return
+        const discovery = onboarding?.data.discovery
+        setSaved(discovery?.childId === childId ? discovery : null)
+      })
+      .catch(() => {
+        // Silently fail - the quiz starts from the beginning
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedFor(childId)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [childId])
+
+  const saveProgress = useCallback((progress: DiscoveryProgress) => {
+    saveOnboarding({ data: { discovery: progress } })
+  }, [])
+
+  const clearProgress = useCallback(() => {
+    setSaved(null)
+    saveOnboarding({ data: { discovery: null } })
+  }, [])
+
+  return {
+    savedProgress: saved?.childId === childId ? saved : null,
+    isLoading: loadedFor !== childId,
+    saveProgress,
+    clearProgress,
+  }
+}
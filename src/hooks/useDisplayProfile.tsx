@@ -0,0 +1,39 @@
+/* eslint-disable react-refresh/only-export-components */
+import { createContext, useContext, type ReactNode } from 'react'
+import { DEFAULT_DISPLAY_PROFILE, type DisplayProfile } from '../types/accessibility'
+
+const DisplayProfileContext = createContext<DisplayProfile>(DEFAULT_DISPLAY_PROFILE)
+
+interface DisplayProfileProviderProps {
+  profile: DisplayProfile
+  children: ReactNode
+}
+
+// Class names that reading text and celebration styles key off
+function profileClassNames(profile: DisplayProfile): string {
+  return [
+    'display-profile',
+    profile.dyslexiaFont ? 'dyslexia-font' : '',
+    `letter-spacing-${profile.letterSpacing}`,
+    `word-spacing-${profile.wordSpacing}`,
+    profile.reducedMotion ? 'reduced-motion' : '',
+  ].filter(Boolean).join(' ')
+}
+
+/**
+ * Shows everything inside in the child's display profile. Components read the
+ * profile with useDisplayProfile; the font, spacing and motion changes come
+ * from the classes on the wrapper.
+ */
+export function DisplayProfileProvider({ profile, children }: DisplayProfileProviderProps) {
+  return (
+    <DisplayProfileContext.Provider value={profile}>
+      <div className={profileClassNames(profile)}>{children}</div>
+    </DisplayProfileContext.Provider>
+  )
+}
+
+/** The active child's display profile, or the default outside a provider */
+export function useDisplayProfile(): DisplayProfile {
+  return useContext(DisplayProfileContext)
+}
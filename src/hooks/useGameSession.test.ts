@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useGameSession } from './useGameSession'
+
+function lastRequestBody() {
+  const calls = vi.mocked(global.fetch).mock.calls
+  const [, init] = calls[calls.length - 1]
+  return JSON.parse((init as RequestInit).body as string)
+}
+
+describe('useGameSession', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-01T10:00:00.000Z'))
+    global.fetch = vi.fn().mockResolvedValue({ ok: true } as Response)
+    vi.spyOn(Storage.prototype, 'getItem').mockReturnValue('test-token')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('uploads answered items with latency and hints when the session ends', () => {
+    const { result } = renderHook(() => useGameSession('child-1', 'phonics'))
+
+    act(() => {
+      result.current.startItem()
+      vi.advanceTimersByTime(2500)
+      result.current.recordHint()
+      result.current.recordItem('cat', 'correct')
+      vi.advanceTimersByTime(1000)
+      result.current.recordItem('dog', 'incorrect', { attempts: 2 })
+      result.current.endSession({ score: 40, completed: true })
+    })
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/progress/child/child-1/game-session',
+      expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer test-token' },
+      })
+    )
+
+    const body = lastRequestBody()
+    expect(body.game).toBe('phonics')
+    expect(body.score).toBe(40)
+    expect(body.completed).toBe(true)
+    expect(body.maxStreak).toBe(1)
+    expect(body.events).toHaveLength(2)
+    expect(body.events[0]).toMatchObject({ item: 'cat', outcome: 'correct', latencyMs: 2500, hintsUsed: 1, attempts: 1 })
+    expect(body.events[1]).toMatchObject({ item: 'dog', outcome: 'incorrect', latencyMs: 1000, hintsUsed: 0, attempts: 2 })
+  })
+
+  it('starts a fresh session after ending one', () => {
+    const { result } = renderHook(() => useGameSession('child-1', 'memory'))
+
+    act(() => {
+      result.current.recordItem('the', 'correct')
+      result.current.endSession({ completed: true })
+      result.current.recordItem('and', 'correct')
+      result.current.endSession({ completed: true })
+    })
+
+    expect(global.fetch).toHaveBeenCalledTimes(2)
+    expect(lastRequestBody().events.map((e: { item: string }) => e.item)).toEqual(['and'])
+  })
+
+  it('flushes an unfinished session on unmount', () => {
+    const { result, unmount } = renderHook(() => useGameSession('child-1', 'spelling'))
+
+    act(() => {
+      result.current.recordItem('cat', 'skipped')
+    })
+    unmount()
+
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+    expect(lastRequestBody().completed).toBe(false)
+    expect(vi.mocked(global.fetch).mock.calls[0][1]).toMatchObject({ keepalive: true })
+  })
+
+  it('does not upload empty sessions or sessions without a child', () => {
+    const { unmount: unmountEmpty } = renderHook(() => useGameSession('child-1', 'rhyme'))
+    unmountEmpty()
+
+    const { result, unmount } = renderHook(() => useGameSession(undefined, 'rhyme'))
+    act(() => {
+      result.current.recordItem('cat', 'correct')
+    })
+    unmount()
+
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+})
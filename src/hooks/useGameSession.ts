@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { getAuthHeaders } from './useAuth'
+
+export type GameType = 'spelling' | 'memory' | 'rhyme' | 'builder' | 'phonics' | 'readaloud'
+
+export type GameItemOutcome = 'correct' | 'incorrect' | 'skipped'
+
+/**
+ * A single answered item, as sent to POST /api/progress/child/:childId/game-session
+ */
+export interface GameEvent {
+  item: string
+  outcome: GameItemOutcome
+  attempts: number
+  latencyMs: number
+  hintsUsed: number
+  occurredAt: string
+}
+
+export interface GameSessionSummary {
+  score?: number
+  completed: boolean
+}
+
+/**
+ * Records per-item telemetry for a standalone game and uploads it as a session.
+ * The session is sent when the game calls endSession, or as an unfinished
+ * session when the game unmounts (e.g. the child taps Back mid-game).
+ */
+export function useGameSession(childId: string | undefined, game: GameType) {
+  const startedAtRef = useRef('')
+  const eventsRef = useRef<GameEvent[]>([])
+  const itemStartRef = useRef(0)
+  const hintsRef = useRef(0)
+  const streakRef = useRef(0)
+  const maxStreakRef = useRef(0)
+
+  const resetSession = useCallback(() => {
+    startedAtRef.current = new Date().toISOString()
+    eventsRef.current = []
+    itemStartRef.current = Date.now()
+    hintsRef.current = 0
+    streakRef.current = 0
+    maxStreakRef.current = 0
+  }, [])
+
+  const sendSession = useCallback((summary: GameSessionSummary, keepalive: boolean = false) => {
+    if (!childId || eventsRef.current.length === 0) return
+
+    fetch(`/api/progress/child/${childId}/game-session`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+      body: JSON.stringify({
+        game,
+        startedAt: startedAtRef.current,
+        endedAt: new Date().toISOString(),
+        score: summary.score,
+        maxStreak: maxStreakRef.current,
+        completed: summary.completed,
+        events: eventsRef.current,
+      }),
+      keepalive,
+    }).catch(() => {
+      // Silently fail - telemetry is non-critical
+    })
+  }, [childId, game])
+
+  /** Mark the moment a new item is shown, for latency measurement */
+  const startItem = useCallback(() => {
+    itemStartRef.current = Date.now()
+    hintsRef.current = 0
+  }, [])
+
+  /** Count a hint (e.g. "hear the word again") against the current item */
+  const recordHint = useCallback(() => {
+    hintsRef.current += 1
+  }, [])
+
+  const recordItem = useCallback((
+    item: string,
+    outcome: GameItemOutcome,
+    details: { attempts?: number } = {}
+  ) => {
+    const now = Date.now()
+    eventsRef.current.push({
+      item,
+      outcome,
+      attempts: details.attempts ?? (outcome === 'skipped' ? 0 : 1),
+      latencyMs: now - itemStartRef.current,
+      hintsUsed: hintsRef.current,
+      occurredAt: new Date(now).toISOString(),
+    })
+
+    streakRef.current = outcome === 'correct' ? streakRef.current + 1 : 0
+    maxStreakRef.current = Math.max(maxStreakRef.current, streakRef.current)
+
+    itemStartRef.current = now
+    hintsRef.current = 0
+  }, [])
+
+  /** Upload the session and start a fresh one (for "Play Again") */
+  const endSession = useCallback((summary: GameSessionSummary) => {
+    sendSession(summary)
+    resetSession()
+  }, [sendSession, resetSession])
+
+  useEffect(() => {
+    resetSession()
+  }, [resetSession])
+
+  // Flush whatever was played if the game is left before it finishes
+  useEffect(() => {
+    return () => {
+      sendSession({ completed: false }, true)
+      eventsRef.current = []
+    }
+  }, [sendSession])
+
+  return { startItem, recordHint, recordItem, endSession }
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { useLessonLibrary, lessonToDraft, LessonSaveError, type LessonDraft, type SavedLesson } from './useLessonLibrary'
+import { getCached, setCache } from '../lessons/cache'
+
+const savedLesson: SavedLesson = {
+  id: 'lesson-1',
+  title: 'Our -at words',
+  subject: 'phonics',
+  description: 'Cat, hat and bat',
+  difficulty: 'easy',
+  visibility: 'private',
+  duration_minutes: 8,
+  objectives: [{ description: 'Read -at words' }],
+  activities: [
+    { id: 'a1', type: 'sight-words', order: 0, instructions: 'Read each word.', words: ['cat', 'hat'] },
+  ],
+}
+
+function okResponse(body: unknown, status = 200) {
+  return { ok: true, status, json: () => Promise.resolve(body) } as Response
+}
+
+describe('useLessonLibrary', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn().mockResolvedValue(okResponse({ lessons: [savedLesson] }))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('does nothing while signed out', () => {
+    const { result } = renderHook(() => useLessonLibrary(null))
+
+    expect(result.current.lessons).toBeNull()
+    expect(result.current.isLoading).toBe(false)
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  it('loads the family\'s lessons with the token', async () => {
+    const { result } = renderHook(() => useLessonLibrary('jwt-token'))
+
+    expect(result.current.isLoading).toBe(true)
+    await waitFor(() => expect(result.current.lessons).toEqual([savedLesson]))
+    expect(global.fetch).toHaveBeenCalledWith('/api/lessons/mine', {
+      headers: { Authorization: 'Bearer jwt-token' },
+    })
+  })
+
+  it('creates new lessons with activities in list order and clears the lesson cache', async () => {
+    setCache('lessons:{}', { lessons: [] })
+    const { result } = renderHook(() => useLessonLibrary('jwt-token'))
+    await waitFor(() => expect(result.current.lessons).not.toBeNull())
+
+    vi.mocked(global.fetch).mockResolvedValueOnce(okResponse({ lesson: { ...savedLesson, id: 'lesson-2' } }, 201))
+    const draft: LessonDraft = {
+      ...lessonToDraft(savedLesson),
+      id: undefined,
+      activities: [
+        { id: 'b', type: 'listen-repeat', order: 5, instructions: 'Say it', phrase: 'hat' },
+        { id: 'a', type: 'listen-repeat', order: 2, instructions: 'Say it', phrase: 'cat' },
+      ],
+    }
+
+    await act(async () => {
+      await result.current.saveLesson(draft)
+    })
+
+    const [url, init] = vi.mocked(global.fetch).mock.calls[1]
+    expect(url).toBe('/api/lessons')
+    expect(init?.method).toBe('POST')
+    const body = JSON.parse(init?.body as string)
+    expect(body.activities.map((a: { id: string; order: number }) => [a.id, a.order])).toEqual([['b', 0], ['a', 1]])
+    expect(body.objectives).toEqual([{ description: 'Read -at words' }])
+    expect(body.visibility).toBe('private')
+    expect(getCached('lessons:{}')).toBeNull()
+  })
+
+  it('updates saved lessons in place', async () => {
+    const { result } = renderHook(() => useLessonLibrary('jwt-token'))
+    await waitFor(() => expect(result.current.lessons).not.toBeNull())
+
+    vi.mocked(global.fetch).mockResolvedValueOnce(okResponse({ lesson: savedLesson }))
+    await act(async () => {
+      await result.current.saveLesson(lessonToDraft(savedLesson))
+    })
+
+    const [url, init] = vi.mocked(global.fetch).mock.calls[1]
+    expect(url).toBe('/api/lessons/lesson-1')
+    expect(init?.method).toBe('PUT')
+  })
+
+  it('surfaces the server\'s validation errors', async () => {
+    const { result } = renderHook(() => useLessonLibrary('jwt-token'))
+    await waitFor(() => expect(result.current.lessons).not.toBeNull())
+
+    const validationErrors = [{ field: 'activities[0].words', message: 'words must be a non-empty list' }]
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({ error: 'Invalid lesson activities', validationErrors }),
+    } as Response)
+
+    const error = await result.current.saveLesson(lessonToDraft(savedLesson)).catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(LessonSaveError)
+    expect((error as LessonSaveError).message).toBe('Invalid lesson activities')
+    expect((error as LessonSaveError).validationErrors).toEqual(validationErrors)
+  })
+
+  it('removes deleted lessons from the list', async () => {
+    const { result } = renderHook(() => useLessonLibrary('jwt-token'))
+    await waitFor(() => expect(result.current.lessons).toHaveLength(1))
+
+    vi.mocked(global.fetch).mockResolvedValueOnce({ ok: true, status: 204 } as Response)
+    await act(async () => {
+      await result.current.deleteLesson('lesson-1')
+    })
+
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/lessons/lesson-1', {
+      method: 'DELETE',
+      headers: { Authorization: 'Bearer jwt-token' },
+    })
+    expect(result.current.lessons).toEqual([])
+  })
+})
+
+describe('lessonToDraft', () => {
+  it('fills in defaults the saved lesson does not have', () => {
+    const draft = lessonToDraft({ ...savedLesson, duration_minutes: null, difficulty: 'unknown' })
+
+    expect(draft.durationMinutes).toBe(10)
+    expect(draft.difficulty).toBe('easy')
+    expect(draft.objectives).toEqual(['Read -at words'])
+  })
+})
@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback } from 'react'
+import { clearLessonCache } from '../lessons/cache'
+import type { LessonActivity, LessonSubject } from '../types/lesson'
+
+export type LessonVisibility = 'private' | 'public'
+
+/**
+ * A lesson as the lesson builder edits it
+ */
+export interface LessonDraft {
+  /** Set once the lesson has been saved */
+  id?: string
+  title: string
+  description: string
+  subject: LessonSubject
+  difficulty: 'easy' | 'medium' | 'hard'
+  durationMinutes: number
+  objectives: string[]
+  activities: LessonActivity[]
+  visibility: LessonVisibility
+}
+
+/**
+ * A family lesson as returned by GET /api/lessons/mine
+ */
+export interface SavedLesson {
+  id: string
+  title: string
+  subject: string
+  description: string | null
+  difficulty: string | null
+  visibility: LessonVisibility
+  activities: LessonActivity[] | null
+  objectives: { description: string }[] | null
+  duration_minutes?: number | null
+  updated_at?: string
+  safety_flags?: LessonSafetyFlag[]
+  review_status?: LessonReviewStatus | null
+  review_note?: string | null
+}
+
+export interface LessonSafetyFlag {
+  field: string
+  rule: string
+  message: string
+}
+
+export type LessonReviewStatus = 'pending' | 'approved' | 'rejected'
+
+export interface LessonHold {
+  status: 'pending' | 'rejected'
+  reasons: string[]
+  /** What the reviewer said when rejecting it */
+  note: string | null
+}
+
+/**
+ * Why the child-safety checks are keeping a lesson from children, or null
+ * if they are not
+ */
+export function getLessonHold(lesson: SavedLesson): LessonHold | null {
+  const status = lesson.review_status
+  if (status !== 'pending' && status !== 'rejected') return null
+
+  const flags = lesson.safety_flags ?? []
+  return {
+    status,
+    reasons: [...new Set(flags.map(flag => flag.message))],
+    note: lesson.review_note ?? null,
+  }
+}
+
+export interface LessonFieldError {
+  field: string
+  message: string
+}
+
+/**
+ * Thrown by saveLesson; validationErrors holds the server's per-field errors
+ */
+export class LessonSaveError extends Error {
+  readonly validationErrors: LessonFieldError[]
+
+  constructor(message: string, validationErrors: LessonFieldError[] = []) {
+    super(message)
+    this.name = 'LessonSaveError'
+    this.validationErrors = validationErrors
+  }
+}
+
+const DIFFICULTIES: LessonDraft['difficulty'][] = ['easy', 'medium', 'hard']
+
+/**
+ * Turn a saved lesson back into an editable draft
+ */
+export function lessonToDraft(lesson: SavedLesson): LessonDraft {
+  const difficulty = DIFFICULTIES.find(d => d === lesson.difficulty) ?? 'easy'
+  return {
+    id: lesson.id,
+    title: lesson.title,
+    description: lesson.description ?? '',
+    subject: lesson.subject as LessonSubject,
+    difficulty,
+    durationMinutes: lesson.duration_minutes ?? 10,
+    objectives: (lesson.objectives ?? []).map(o => o.description),
+    activities: lesson.activities ?? [],
+    visibility: lesson.visibility,
+  }
+}
+
+function draftToRequestBody(draft: LessonDraft) {
+  return {
+    title: draft.title.trim(),
+    description: draft.description.trim(),
+    subject: draft.subject,
+    difficulty: draft.difficulty,
+    durationMinutes: draft.durationMinutes,
+    objectives: draft.objectives.filter(o => o.trim()).map(description => ({ description })),
+    // Activities are played in list order
+    activities: draft.activities.map((activity, order) => ({ ...activity, order })),
+    visibility: draft.visibility,
+  }
+}
+
+/**
+ * Lessons written by the signed-in family, with save and delete.
+ * Writes clear the lesson picker's cache so changes show up straight away.
+ */
+export function useLessonLibrary(token: string | null) {
+  const [lessons, setLessons] = useState<SavedLesson[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadCount, setReloadCount] = useState(0)
+
+  useEffect(() => {
+    if (!token) return
+
+    let cancelled = false
+    async function fetchLessons() {
+      try {
+        const response = await fetch('/api/lessons/mine', {
+          headers: { Authorization: `Bearer ${token}` },
+        })
+        if (!response.ok) {
+          if (!cancelled) setError('Could not load your lessons')
+          return
+        }
+        const data = await response.json() as { lessons?: SavedLesson[] }
+        if (!cancelled) {
+          setLessons(data.lessons || [])
+          setError(null)
+        }
+      } catch {
+        if (!cancelled) setError('Could not load your lessons')
+      }
+    }
+
+    fetchLessons()
+    return () => {
+      cancelled = true
+    }
+  }, [token, reloadCount])
+
+  const reload = useCallback(() => setReloadCount(n => n + 1), [])
+
+  /** Create or update a lesson; resolves with the saved lesson */
+  const saveLesson = useCallback(async (draft: LessonDraft): Promise<SavedLesson> => {
+    if (!token) throw new LessonSaveError('Please log in first')
+
+    const response = await fetch(draft.id ? `/api/lessons/${draft.id}` : '/api/lessons', {
+      method: draft.id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(draftToRequestBody(draft)),
+    })
+    const data = await response.json().catch(() => ({})) as {
+      lesson?: SavedLesson
+      error?: string
+      validationErrors?: LessonFieldError[]
+    }
+    if (!response.ok || !data.lesson) {
+      throw new LessonSaveError(data.error || 'Could not save lesson', data.validationErrors)
+    }
+
+    clearLessonCache()
+    reload()
+    return data.lesson
+  }, [token, reload])
+
+  const deleteLesson = useCallback(async (lessonId: string) => {
+    if (!token) throw new Error('Please log in first')
+
+    const response = await fetch(`/api/lessons/${lessonId}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    if (!response.ok) {
+      throw new Error('Could not delete lesson')
+    }
+
+    clearLessonCache()
+    setLessons(prev => prev?.filter(l => l.id !== lessonId) ?? null)
+  }, [token])
+
+  return {
+    lessons: token ? lessons : null,
+    isLoading: !!token && lessons === null && !error,
+    error,
+    reload,
+    saveLesson,
+    deleteLesson,
+  }
+}
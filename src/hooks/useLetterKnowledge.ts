@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react'
+import { getAuthHeaders } from './useAuth'
+import type { LetterKnowledge, LetterSkill } from '../game-data/letter-hunt'
+
+interface LoadedKnowledge {
+  childId: string
+  letters: LetterKnowledge[]
+}
+
+/**
+ * A child's letter name and sound counts from the letter hunt.
+ * Without a childId (or when offline) the list is empty and saving is a no-op.
+ */
+export function useLetterKnowledge(childId: string | undefined) {
+  const [loaded, setLoaded] = useState<LoadedKnowledge | null>(null)
+
+  useEffect(() => {
+    if (!childId) return
+
+    let cancelled = false
+    async function fetchKnowledge() {
+      try {
+        const response = await fetch(`/api/progress/child/${childId}/letter-knowledge`, {
+          headers: getAuthHeaders(),
+        })
+        if (!response.ok || cancelled) return
+        const data = await response.json() as { letters?: LetterKnowledge[] }
+        setLoaded({ childId: childId!, letters: data.letters || [] })
+      } catch {
+        // Silently fail - the hunt starts from scratch
+      }
+    }
+    fetchKnowledge()
+
+    return () => {
+      cancelled = true
+    }
+  }, [childId])
+
+  const saveAttempts = useCallback(async (attempts: { letter: string; skill: LetterSkill; correct: boolean }[]) => {
+    if (!childId || attempts.length === 0) return
+
+    const response = await fetch(`/api/progress/child/${childId}/letter-knowledge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+      body: JSON.stringify({ attempts }),
+    })
+    if (!response.ok) {
+      throw new Error('Could not save letter hunt results')
+    }
+    const data = await response.json() as { letters?: LetterKnowledge[] }
+    setLoaded({ childId, letters: data.letters || [] })
+  }, [childId])
+
+  return {
+    letters: loaded && loaded.childId === childId ? loaded.letters : [],
+    saveAttempts,
+  }
+}
@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react'
+import { getAuthHeaders } from './useAuth'
+import type { NewChildProfile } from './useChildren'
+import type { DiscoveryProgress } from '../game-data/learning-profile'
+
+/**
+ * The parent's onboarding record, as returned by GET /api/onboarding.
+ * `step` is the add-a-reader step; other flows keep their own state under a
+ * key in `data`, since the server merges each PUT's data into what is saved.
+ */
+export interface OnboardingState {
+  completed: boolean
+  step: number
+  data: OnboardingData
+}
+
+export interface OnboardingData {
+  /** A reader being added, saved after every onboarding step */
+  child?: NewChildProfile | null
+  /** Superpower Discovery answers so far */
+  discovery?: DiscoveryProgress | null
+}
+
+export interface OnboardingUpdate {
+  step?: number
+  completed?: boolean
+  data?: OnboardingData
+}
+
+/** The signed-in parent's onboarding record; null when signed out or unreachable */
+export async function fetchOnboarding(): Promise<OnboardingState | null> {
+  const headers = getAuthHeaders()
+  if (!headers.Authorization) return null
+
+  const response = await fetch('/api/onboarding', { headers })
+  if (!response.ok) return null
+  const data = await response.json() as { onboarding?: OnboardingState }
+  return data.onboarding ?? null
+}
+
+/** Save onboarding state in the background; progress is a convenience, so failures are ignored */
+export function saveOnboarding(update: OnboardingUpdate): void {
+  const headers = getAuthHeaders()
+  if (!headers.Authorization) return
+
+  fetch('/api/onboarding', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(update),
+  }).catch(() => {
+    // Silently fail - the flow still works from memory
+  })
+}
+
+/**
+ * The reader a parent was part way through adding, so onboarding can pick up
+ * at the same step after a reload or on another device
+ */
+export function useOnboardingDraft() {
+  const [draft, setDraft] = useState<{ step: number; child: NewChildProfile } | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchOnboarding()
+      .then(onboarding => {
+        if (!cancelled && onboarding?.data.child) {
+          setDraft({ step: onboarding.step, child: onboarding.data.child })
+        }
+      })
+      .catch(() => {
+        // Start from the first step
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const saveDraft = useCallback((step: number, child: NewChildProfile) => {
+    saveOnboarding({ step, data: { child } })
+  }, [])
+
+  const finishDraft = useCallback(() => {
+    setDraft(null)
+    saveOnboarding({ step: 0, completed: true, data: { child: null } })
+  }, [])
+
+  return { draft, isLoading, saveDraft, finishDraft }
+}
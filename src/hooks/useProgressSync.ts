@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react'
+import { getProgressOutbox, type Outbox, type OutboxMutation } from '../sync/outbox'
+
+/**
+ * Offline-safe progress writes. Mutations are queued in the outbox and sent
+ * right away when possible; anything left over is replayed when the browser
+ * comes back online, the app is next opened or a parent signs in.
+ */
+export function useProgressSync(token: string | null, outbox: Outbox = getProgressOutbox()) {
+  const [pendingCount, setPendingCount] = useState(0)
+
+  // Runs again on sign-in, replaying writes held for that account
+  useEffect(() => {
+    const unsubscribe = outbox.subscribe(setPendingCount)
+    const sync = () => {
+      outbox.flush().then(setPendingCount).catch(() => {
+        // Silently fail - the queue is retried on the next sync
+      })
+    }
+
+    sync()
+    window.addEventListener('online', sync)
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', sync)
+    }
+  }, [outbox, token])
+
+  const queueMutation = useCallback((url: string, method: OutboxMutation['method'], body?: Record<string, unknown>) => {
+    outbox.enqueue(url, method, body).catch((err) => {
+      console.error('Failed to queue progress update:', err)
+    })
+  }, [outbox])
+
+  return { queueMutation, pendingCount }
+}
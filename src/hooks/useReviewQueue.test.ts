@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { useReviewQueue, prioritizeDueWords } from './useReviewQueue'
+
+describe('prioritizeDueWords', () => {
+  const pool = ['cat', 'dog', 'sun', 'hat', 'pig']
+
+  it('puts due words first in queue order', () => {
+    const picked = prioritizeDueWords(pool, ['pig', 'dog'], 3, w => w)
+    expect(picked.slice(0, 2)).toEqual(['pig', 'dog'])
+    expect(picked).toHaveLength(3)
+  })
+
+  it('ignores due words that are not in the pool', () => {
+    const picked = prioritizeDueWords(pool, ['zebra'], 5, w => w)
+    expect([...picked].sort()).toEqual([...pool].sort())
+  })
+
+  it('matches words case-insensitively', () => {
+    const picked = prioritizeDueWords([{ word: 'Cat' }, { word: 'dog' }], ['cat'], 1, item => item.word)
+    expect(picked).toEqual([{ word: 'Cat' }])
+  })
+
+  it('never returns more items than the pool has', () => {
+    expect(prioritizeDueWords(pool, [], 10, w => w)).toHaveLength(pool.length)
+  })
+})
+
+describe('useReviewQueue', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn()
+    vi.spyOn(Storage.prototype, 'getItem').mockReturnValue('test-token')
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('does nothing without a child', () => {
+    const { result } = renderHook(() => useReviewQueue(undefined, 'phonics'))
+
+    act(() => {
+      result.current.recordReview('cat', true)
+    })
+
+    expect(global.fetch).not.toHaveBeenCalled()
+    expect(result.current.dueWords).toEqual([])
+  })
+
+  it('loads the review queue for the child', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ queue: [{ word: 'dog' }, { word: 'sun' }], dueCount: 2 }),
+    } as Response)
+
+    const { result } = renderHook(() => useReviewQueue('child-1', 'phonics'))
+
+    await waitFor(() => {
+      expect(result.current.dueWords).toEqual(['dog', 'sun'])
+    })
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/progress/child/child-1/review-queue',
+      { headers: { Authorization: 'Bearer test-token' } }
+    )
+    expect(result.current.pickWords(['cat', 'dog', 'sun'], 2, w => w)).toEqual(['dog', 'sun'])
+  })
+
+  it('posts review outcomes and drops the word from the local queue', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ queue: [{ word: 'dog' }], dueCount: 1 }),
+    } as Response)
+
+    const { result } = renderHook(() => useReviewQueue('child-1', 'readaloud'))
+    await waitFor(() => {
+      expect(result.current.dueWords).toEqual(['dog'])
+    })
+
+    act(() => {
+      result.current.recordReview('Dog', false)
+    })
+
+    expect(result.current.dueWords).toEqual([])
+    expect(global.fetch).toHaveBeenLastCalledWith(
+      '/api/progress/child/child-1/review',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ word: 'Dog', correct: false, game: 'readaloud' }),
+      })
+    )
+  })
+})
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { getAuthHeaders } from './useAuth'
+import { shuffleArray } from '../game/shuffle'
+
+/**
+ * A word due for review, as returned by GET /api/progress/child/:childId/review-queue
+ */
+export interface ReviewQueueItem {
+  word: string
+  due_at: string
+  interval_days: number
+  repetitions: number
+  lapses: number
+}
+
+/**
+ * Pick `count` items from a pool, taking words that are due for review first
+ * (in queue order) and filling the rest with randomly chosen items.
+ */
+export function prioritizeDueWords<T>(
+  pool: readonly T[],
+  dueWords: readonly string[],
+  count: number,
+  getWord: (item: T) => string
+): T[] {
+  const dueOrder = new Map(dueWords.map((word, index) => [word.toLowerCase(), index]))
+
+  const due = pool
+    .filter(item => dueOrder.has(getWord(item).toLowerCase()))
+    .sort((a, b) => dueOrder.get(getWord(a).toLowerCase())! - dueOrder.get(getWord(b).toLowerCase())!)
+  const rest = shuffleArray(pool.filter(item => !dueOrder.has(getWord(item).toLowerCase())))
+
+  return [...due, ...rest].slice(0, Math.min(count, pool.length))
+}
+
+/**
+ * Shared spaced-repetition hook for the word games.
+ * Loads the child's due words and reports each correct/incorrect answer back
+ * to the scheduler. Without a childId it does nothing and pickWords is random.
+ */
+export function useReviewQueue(childId: string | undefined, game: string) {
+  const [dueWords, setDueWords] = useState<string[]>([])
+  const dueWordsRef = useRef<string[]>([])
+
+  useEffect(() => {
+    if (!childId) return
+
+    let cancelled = false
+    async function fetchQueue() {
+      try {
+        const response = await fetch(`/api/progress/child/${childId}/review-queue`, {
+          headers: getAuthHeaders(),
+        })
+        if (!response.ok || cancelled) return
+        const data = await response.json() as { queue?: ReviewQueueItem[] }
+        const words = (data.queue || []).map(item => item.word)
+        dueWordsRef.current = words
+        setDueWords(words)
+      } catch {
+        // Silently fail - games fall back to random words
+      }
+    }
+    fetchQueue()
+
+    return () => {
+      cancelled = true
+    }
+  }, [childId])
+
+  const recordReview = useCallback((word: string, correct: boolean) => {
+    if (!childId) return
+
+    // The server reschedules the word; drop it locally so it isn't drawn again right away
+    const normalized = word.toLowerCase()
+    dueWordsRef.current = dueWordsRef.current.filter(w => w !== normalized)
+    setDueWords(dueWordsRef.current)
+
+    fetch(`/api/progress/child/${childId}/review`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+      body: JSON.stringify({ word, correct, game }),
+    }).catch(() => {
+      // Silently fail - review tracking is non-critical
+    })
+  }, [childId, game])
+
+  const pickWords = useCallback(<T>(
+    pool: readonly T[],
+    count: number,
+    getWord: (item: T) => string
+  ): T[] => prioritizeDueWords(pool, dueWordsRef.current, count, getWord), [])
+
+  return { dueWords, recordReview, pickWords }
+}
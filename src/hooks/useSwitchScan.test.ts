@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act, fireEvent } from '@testing-library/react'
+import { useSwitchScan } from './useSwitchScan'
+
+describe('useSwitchScan', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const options = { enabled: true, intervalMs: 1000, itemCount: 3, resetKey: 'tiles', onChoose: vi.fn() }
+
+  it('highlights each item in turn and wraps around', () => {
+    const { result } = renderHook(() => useSwitchScan(options))
+    expect(result.current).toBe(0)
+
+    act(() => vi.advanceTimersByTime(1000))
+    expect(result.current).toBe(1)
+
+    act(() => vi.advanceTimersByTime(2000))
+    expect(result.current).toBe(0)
+  })
+
+  it('chooses the highlighted item when the switch is pressed', () => {
+    const onChoose = vi.fn()
+    renderHook(() => useSwitchScan({ ...options, onChoose }))
+
+    act(() => vi.advanceTimersByTime(1000))
+    fireEvent.keyDown(window, { key: ' ' })
+    fireEvent.keyDown(window, { key: 'Enter', repeat: true })
+
+    expect(onChoose).toHaveBeenCalledTimes(1)
+    expect(onChoose).toHaveBeenCalledWith(1)
+  })
+
+  it('starts again from the first item when the key changes', () => {
+    const { result, rerender } = renderHook(props => useSwitchScan(props), { initialProps: options })
+
+    act(() => vi.advanceTimersByTime(2000))
+    expect(result.current).toBe(2)
+
+    rerender({ ...options, resetKey: 'zones' })
+    expect(result.current).toBe(0)
+  })
+
+  it('does nothing while turned off', () => {
+    const onChoose = vi.fn()
+    const { result } = renderHook(() => useSwitchScan({ ...options, enabled: false, onChoose }))
+
+    act(() => vi.advanceTimersByTime(3000))
+    fireEvent.keyDown(window, { key: ' ' })
+
+    expect(result.current).toBeNull()
+    expect(onChoose).not.toHaveBeenCalled()
+  })
+})
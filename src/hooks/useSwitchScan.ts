@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react'
+
+interface SwitchScanOptions {
+  enabled: boolean
+  /** How long each item stays highlighted */
+  intervalMs: number
+  /** Number of items to step through */
+  itemCount: number
+  /** Changing the key (e.g. after a tile is picked) starts again from the first item */
+  resetKey: string
+  onChoose: (index: number) => void
+}
+
+// Keys a single switch usually sends
+const SWITCH_KEYS = new Set([' ', 'Enter'])
+
+/**
+ * Single-switch scanning. Items are highlighted one after another, and
+ * pressing the switch chooses the highlighted one. Returns the index of the
+ * highlighted item, or null while scanning is off or there is nothing to choose.
+ */
+export function useSwitchScan({ enabled, intervalMs, itemCount, resetKey, onChoose }: SwitchScanOptions): number | null {
+  const [scan, setScan] = useState({ key: resetKey, index: 0 })
+  const index = scan.key === resetKey ? scan.index % Math.max(itemCount, 1) : 0
+  const active = enabled && itemCount > 0
+
+  useEffect(() => {
+    if (!active) return
+    const timer = window.setInterval(() => {
+      setScan(prev => ({
+        key: resetKey,
+        index: prev.key === resetKey ? (prev.index + 1) % itemCount : 1 % itemCount,
+      }))
+    }, intervalMs)
+    return () => clearInterval(timer)
+  }, [active, intervalMs, itemCount, resetKey])
+
+  useEffect(() => {
+    if (!active) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!SWITCH_KEYS.has(e.key)) return
+      // The switch owns these keys, so a focused button must not also fire
+      e.preventDefault()
+      e.stopPropagation()
+      if (!e.repeat) onChoose(index)
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [active, index, onChoose])
+
+  return active ? index : null
+}
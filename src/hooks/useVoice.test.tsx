@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { render, screen, waitFor } from '@testing-library/react'
+import { render, screen, waitFor, act } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { VoiceProvider, useVoice, type VoiceSettings } from './useVoice'
 
@@ -13,7 +13,9 @@ function TestConsumer() {
       <span data-testid="similarityBoost">{ctx.settings.similarityBoost}</span>
       <span data-testid="enabled">{String(ctx.settings.enabled)}</span>
       <span data-testid="isSpeaking">{String(ctx.isSpeaking)}</span>
+      <span data-testid="spokenWord">{ctx.speechProgress?.wordIndex ?? 'none'}</span>
       <button onClick={() => ctx.speak('test phrase')}>Speak</button>
+      <button onClick={() => ctx.speak('The cat sat', { trackWords: true })}>Read Along</button>
       <button onClick={() => ctx.updateSettings({ voiceId: 'new-voice-id' })}>
         Update Voice
       </button>
@@ -30,6 +32,7 @@ class MockSpeechSynthesisUtterance {
   lang = ''
   onend: (() => void) | null = null
   onerror: (() => void) | null = null
+  onboundary: ((event: { name: string; charIndex: number }) => void) | null = null
 
   constructor(text?: string) {
     this.text = text || ''
@@ -37,7 +40,7 @@ class MockSpeechSynthesisUtterance {
 }
 
 describe('useVoice', () => {
-  const STORAGE_KEY = 'l2rr2l_voice_settings_dev-child-1'
+  const STORAGE_KEY = 'l2rr2l_voice_settings_child-1'
   const DEFAULT_VOICE_ID = 'cgSgspJ2msm6clMCkdW9' // Jessica
 
   let localStorageMock: Record<string, string>
@@ -90,7 +93,7 @@ describe('useVoice', () => {
   describe('VoiceProvider initialization', () => {
     it('uses default settings when localStorage is empty', () => {
       render(
-        <VoiceProvider>
+        <VoiceProvider childId="child-1">
           <TestConsumer />
         </VoiceProvider>
       )
@@ -112,7 +115,7 @@ describe('useVoice', () => {
       localStorageMock[STORAGE_KEY] = JSON.stringify(savedSettings)
 
       render(
-        <VoiceProvider>
+        <VoiceProvider childId="child-1">
           <TestConsumer />
         </VoiceProvider>
       )
@@ -130,7 +133,7 @@ describe('useVoice', () => {
       localStorageMock[STORAGE_KEY] = JSON.stringify(partialSettings)
 
       render(
-        <VoiceProvider>
+        <VoiceProvider childId="child-1">
           <TestConsumer />
         </VoiceProvider>
       )
@@ -144,7 +147,19 @@ describe('useVoice', () => {
       localStorageMock[STORAGE_KEY] = 'not valid json'
 
       render(
-        <VoiceProvider>
+        <VoiceProvider childId="child-1">
+          <TestConsumer />
+        </VoiceProvider>
+      )
+
+      expect(screen.getByTestId('voiceId').textContent).toBe(DEFAULT_VOICE_ID)
+    })
+
+    it('only loads the settings saved for its child', () => {
+      localStorageMock[STORAGE_KEY] = JSON.stringify({ voiceId: 'sibling-voice-id' })
+
+      render(
+        <VoiceProvider childId="child-2">
           <TestConsumer />
         </VoiceProvider>
       )
@@ -192,7 +207,7 @@ describe('useVoice', () => {
       localStorageMock[STORAGE_KEY] = JSON.stringify(savedSettings)
 
       render(
-        <VoiceProvider>
+        <VoiceProvider childId="child-1">
           <TestConsumer />
         </VoiceProvider>
       )
@@ -214,12 +229,90 @@ describe('useVoice', () => {
     })
   })
 
+  describe('following along', () => {
+    it('asks for word timings and reports the word being played', async () => {
+      vi.useRealTimers()
+
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          audio: btoa('audio'),
+          contentType: 'audio/mpeg',
+          words: [
+            { text: 'The', start: 0, end: 0.2 },
+            { text: 'cat', start: 0.3, end: 0.5 },
+            { text: 'sat', start: 0.6, end: 0.9 },
+          ],
+        }),
+      })
+      global.fetch = mockFetch
+
+      let playing: { currentTime: number; onended: (() => void) | null } | null = null
+      class MockAudio {
+        currentTime = 0.4
+        onended: (() => void) | null = null
+        onerror: (() => void) | null = null
+
+        play() {
+          // eslint-disable-next-line @typescript-eslint/no-this-alias
+          playing = this
+          return Promise.resolve()
+        }
+        pause() {}
+      }
+      global.Audio = MockAudio as unknown as typeof Audio
+      global.URL.createObjectURL = vi.fn(() => 'blob:test')
+      global.URL.revokeObjectURL = vi.fn()
+
+      render(
+        <VoiceProvider>
+          <TestConsumer />
+        </VoiceProvider>
+      )
+
+      await userEvent.click(screen.getByText('Read Along'))
+
+      await waitFor(() => {
+        expect(screen.getByTestId('spokenWord')).toHaveTextContent('1')
+      })
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).timestamps).toBe(true)
+
+      playing!.currentTime = 0.7
+      await waitFor(() => {
+        expect(screen.getByTestId('spokenWord')).toHaveTextContent('2')
+      })
+
+      act(() => playing!.onended?.())
+      await waitFor(() => {
+        expect(screen.getByTestId('spokenWord')).toHaveTextContent('none')
+      })
+    })
+
+    it('does not ask for word timings for plain speech', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({ ok: false, status: 503 })
+      global.fetch = mockFetch
+
+      render(
+        <VoiceProvider>
+          <TestConsumer />
+        </VoiceProvider>
+      )
+
+      await userEvent.click(screen.getByText('Speak'))
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled()
+      })
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).not.toHaveProperty('timestamps')
+    })
+  })
+
   describe('updateSettings', () => {
     it('updates settings in state', async () => {
       vi.useRealTimers()
 
       render(
-        <VoiceProvider>
+        <VoiceProvider childId="child-1">
           <TestConsumer />
         </VoiceProvider>
       )
@@ -248,7 +341,7 @@ describe('useVoice', () => {
 })
 
 describe('Voice settings persistence flow', () => {
-  const STORAGE_KEY = 'l2rr2l_voice_settings_dev-child-1'
+  const STORAGE_KEY = 'l2rr2l_voice_settings_child-1'
 
   beforeEach(() => {
     vi.clearAllMocks()
@@ -293,7 +386,7 @@ describe('Voice settings persistence flow', () => {
   it('Settings saved in localStorage are loaded by VoiceProvider', () => {
     // This simulates the game loading after user leaves Settings
     render(
-      <VoiceProvider>
+      <VoiceProvider childId="child-1">
         <TestConsumer />
       </VoiceProvider>
     )
@@ -306,7 +399,7 @@ describe('Voice settings persistence flow', () => {
 
   it('localStorage.getItem is called with the correct key on mount', () => {
     render(
-      <VoiceProvider>
+      <VoiceProvider childId="child-1">
         <TestConsumer />
       </VoiceProvider>
     )
@@ -316,7 +409,7 @@ describe('Voice settings persistence flow', () => {
 })
 
 describe('Browser TTS fallback', () => {
-  const STORAGE_KEY = 'l2rr2l_voice_settings_dev-child-1'
+  const STORAGE_KEY = 'l2rr2l_voice_settings_child-1'
 
   beforeEach(() => {
     vi.clearAllMocks()
@@ -367,7 +460,7 @@ describe('Browser TTS fallback', () => {
     global.fetch = mockFetch
 
     render(
-      <VoiceProvider>
+      <VoiceProvider childId="child-1">
         <TestConsumer />
       </VoiceProvider>
     )
@@ -392,7 +485,7 @@ describe('Browser TTS fallback', () => {
     global.fetch = mockFetch
 
     render(
-      <VoiceProvider>
+      <VoiceProvider childId="child-1">
         <TestConsumer />
       </VoiceProvider>
     )
@@ -414,7 +507,7 @@ describe('Browser TTS fallback', () => {
     global.fetch = mockFetch
 
     render(
-      <VoiceProvider>
+      <VoiceProvider childId="child-1">
         <TestConsumer />
       </VoiceProvider>
     )
@@ -430,4 +523,33 @@ describe('Browser TTS fallback', () => {
     const callBody = JSON.parse(mockFetch.mock.calls[0][1].body)
     expect(callBody.voiceId).toBe('elevenlabs-voice-123')
   })
+
+  it('follows browser speech word boundaries when the API is unavailable', async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503 })
+
+    render(
+      <VoiceProvider childId="child-1">
+        <TestConsumer />
+      </VoiceProvider>
+    )
+
+    await userEvent.click(screen.getByText('Read Along'))
+
+    // The first click also speaks a silent utterance to unlock audio on iOS
+    const spokenPassage = () => vi.mocked(window.speechSynthesis.speak).mock.calls
+      .map(([utterance]) => utterance as unknown as MockSpeechSynthesisUtterance)
+      .find(utterance => utterance.text === 'The cat sat')
+    await waitFor(() => {
+      expect(spokenPassage()).toBeDefined()
+    }, { timeout: 500 })
+    const utterance = spokenPassage()!
+
+    act(() => utterance.onboundary?.({ name: 'word', charIndex: 4 }))
+    expect(screen.getByTestId('spokenWord')).toHaveTextContent('1')
+
+    act(() => utterance.onend?.())
+    await waitFor(() => {
+      expect(screen.getByTestId('spokenWord')).toHaveTextContent('none')
+    })
+  })
 })
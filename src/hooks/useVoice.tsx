@@ -1,5 +1,16 @@
 /* eslint-disable react-refresh/only-export-components */
 import { createContext, useContext, useState, useCallback, useRef, useEffect, type ReactNode } from 'react'
+import {
+  scorePronunciation,
+  getPhonemeHint,
+  type PhonemeResult,
+} from '../../server/services/pronunciationScoring'
+import {
+  wordIndexAtTime,
+  wordIndexAtCharacter,
+  type SpokenWord,
+} from '../../server/services/speechAlignment'
+import { getAuthHeaders } from './useAuth'
 
 export interface VoiceSettings {
   voiceId: string
@@ -15,6 +26,24 @@ export interface PronunciationResult {
   expected: string
   confidence: number
   feedback: string
+  /** Per-phoneme result for the expected word */
+  phonemes?: PhonemeResult[]
+  /** Extra sounds heard that are not part of the word */
+  insertedPhonemes?: string[]
+  /** Fraction of the word's phonemes said correctly (0-1) */
+  accuracy?: number
+}
+
+export interface SpeakOptions {
+  /** Follow along word by word through speechProgress */
+  trackWords?: boolean
+}
+
+/** The word being read out of a text spoken with trackWords */
+export interface SpeechProgress {
+  text: string
+  /** Index among the text's whitespace-separated words; null before the first */
+  wordIndex: number | null
 }
 
 interface VoiceContextValue {
@@ -22,11 +51,14 @@ interface VoiceContextValue {
   isLoading: boolean
   isSpeaking: boolean
   isRecording: boolean
-  speak: (text: string) => Promise<void>
+  /** Set while a text spoken with trackWords is playing */
+  speechProgress: SpeechProgress | null
+  speak: (text: string, options?: SpeakOptions) => Promise<void>
   updateSettings: (settings: Partial<VoiceSettings>) => void
   startRecording: () => Promise<void>
   stopRecording: () => Promise<Blob | null>
-  checkPronunciation: (expectedWord: string) => Promise<PronunciationResult | null>
+  /** Pass the word's known phonemes (e.g. from ReadAloudWord) for more accurate feedback */
+  checkPronunciation: (expectedWord: string, phonemes?: string[]) => Promise<PronunciationResult | null>
 }
 
 const DEFAULT_SETTINGS: VoiceSettings = {
@@ -38,13 +70,14 @@ const DEFAULT_SETTINGS: VoiceSettings = {
   encouragementEnabled: true,
 }
 
-// LocalStorage key for voice settings (must match Settings.tsx)
-const STORAGE_KEY = 'l2rr2l_voice_settings_dev-child-1'
+// LocalStorage key prefix for voice settings (must match Settings.tsx)
+const STORAGE_KEY_PREFIX = 'l2rr2l_voice_settings_'
 
-// Load settings from localStorage or use defaults
-function loadSettingsFromStorage(): VoiceSettings {
+// Load the child's settings from localStorage or use defaults
+function loadSettingsFromStorage(childId: string | undefined): VoiceSettings {
+  if (!childId) return DEFAULT_SETTINGS
   try {
-    const cached = localStorage.getItem(STORAGE_KEY)
+    const cached = localStorage.getItem(STORAGE_KEY_PREFIX + childId)
     if (cached) {
       const parsed = JSON.parse(cached)
       return {
@@ -63,6 +96,18 @@ function loadSettingsFromStorage(): VoiceSettings {
 
 const VoiceContext = createContext<VoiceContextValue | null>(null)
 
+interface QueuedSpeech {
+  text: string
+  trackWords: boolean
+}
+
+// Reply from /api/voice/tts when timestamps are requested
+interface TimedSpeechResponse {
+  audio: string
+  contentType: string
+  words: SpokenWord[]
+}
+
 // Web Speech API types
 interface SpeechRecognitionEvent extends Event {
   results: SpeechRecognitionResultList
@@ -113,6 +158,8 @@ declare global {
 
 interface VoiceProviderProps {
   children: ReactNode
+  /** Child whose saved voice settings are used; defaults apply without one */
+  childId?: string
 }
 
 // Feedback message helpers
@@ -131,14 +178,15 @@ function getEncouragingFeedback(word: string): string {
   return messages[Math.floor(Math.random() * messages.length)]
 }
 
-export function VoiceProvider({ children }: VoiceProviderProps) {
+export function VoiceProvider({ children, childId }: VoiceProviderProps) {
   // Load settings from localStorage on mount (lazy initialization)
-  const [settings, setSettings] = useState<VoiceSettings>(loadSettingsFromStorage)
+  const [settings, setSettings] = useState<VoiceSettings>(() => loadSettingsFromStorage(childId))
   const [isLoading] = useState(false)
   const [isSpeaking, setIsSpeaking] = useState(false)
   const [isRecording, setIsRecording] = useState(false)
+  const [speechProgress, setSpeechProgress] = useState<SpeechProgress | null>(null)
   const audioRef = useRef<HTMLAudioElement | null>(null)
-  const queueRef = useRef<string[]>([])
+  const queueRef = useRef<QueuedSpeech[]>([])
   const isProcessingRef = useRef(false)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const audioChunksRef = useRef<Blob[]>([])
@@ -205,7 +253,10 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
   }, [])
 
   // Fallback to browser's Web Speech API when server API is unavailable
-  const speakWithBrowserFallback = useCallback((text: string): Promise<void> => {
+  const speakWithBrowserFallback = useCallback((
+    text: string,
+    onWord?: (wordIndex: number | null) => void
+  ): Promise<void> => {
     return new Promise((resolve) => {
       if (!('speechSynthesis' in window)) {
         console.warn('Web Speech API not available')
@@ -242,6 +293,14 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
           resolve()
         }
 
+        if (onWord) {
+          utterance.onboundary = (event) => {
+            if (event.name === 'word') {
+              onWord(wordIndexAtCharacter(text, event.charIndex))
+            }
+          }
+        }
+
         synth.speak(utterance)
 
         // iOS Safari fix: resume if paused (happens on backgrounding)
@@ -261,17 +320,26 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
     setIsSpeaking(true)
 
     while (queueRef.current.length > 0) {
-      const text = queueRef.current.shift()!
+      const { text, trackWords } = queueRef.current.shift()!
 
       if (!settings.enabled) {
         continue
       }
 
+      // Unchanged progress returns the same object so the frame loop below re-renders nothing
+      const onWord = trackWords
+        ? (wordIndex: number | null) => setSpeechProgress(prev =>
+            prev?.text === text && prev.wordIndex === wordIndex ? prev : { text, wordIndex })
+        : undefined
+      onWord?.(null)
+
       try {
         const response = await fetch('/api/voice/tts', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            // Cloned voices only speak for the family that recorded them
+            ...getAuthHeaders(),
           },
           body: JSON.stringify({
             voiceId: settings.voiceId,
@@ -280,50 +348,78 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
               stability: settings.stability,
               similarityBoost: settings.similarityBoost,
             },
+            ...(trackWords && { timestamps: true }),
           }),
         })
 
         if (!response.ok) {
           // Server API unavailable - fall back to browser speech synthesis
           console.info('Voice API unavailable, using browser speech synthesis')
-          await speakWithBrowserFallback(text)
+          await speakWithBrowserFallback(text, onWord)
           continue
         }
 
-        const audioBlob = await response.blob()
+        let audioBlob: Blob
+        let words: SpokenWord[] = []
+        if (trackWords) {
+          const timed = await response.json() as TimedSpeechResponse
+          const bytes = Uint8Array.from(atob(timed.audio), c => c.charCodeAt(0))
+          audioBlob = new Blob([bytes], { type: timed.contentType })
+          words = timed.words
+        } else {
+          audioBlob = await response.blob()
+        }
         const audioUrl = URL.createObjectURL(audioBlob)
 
         await new Promise<void>((resolve) => {
           const audio = new Audio(audioUrl)
           audioRef.current = audio
 
-          audio.onended = () => {
+          // Follow the playback position frame by frame to move the highlight
+          let frame = 0
+          const followWords = () => {
+            onWord?.(wordIndexAtTime(words, audio.currentTime))
+            frame = requestAnimationFrame(followWords)
+          }
+          const finish = () => {
+            cancelAnimationFrame(frame)
             URL.revokeObjectURL(audioUrl)
             audioRef.current = null
+          }
+
+          audio.onended = () => {
+            finish()
             resolve()
           }
 
           audio.onerror = () => {
-            URL.revokeObjectURL(audioUrl)
-            audioRef.current = null
+            finish()
             console.warn('Audio playback failed, trying browser TTS')
             // Fall back to browser TTS on iOS when audio fails
-            speakWithBrowserFallback(text).then(resolve)
+            speakWithBrowserFallback(text, onWord).then(resolve)
           }
 
-          audio.play().catch(async () => {
-            URL.revokeObjectURL(audioUrl)
-            audioRef.current = null
+          audio.play().then(() => {
+            // Skip when playback already ended or failed
+            if (onWord && words.length > 0 && audioRef.current === audio) {
+              frame = requestAnimationFrame(followWords)
+            }
+          }).catch(async () => {
+            finish()
             console.warn('Audio play rejected (iOS?), using browser TTS')
             // Fall back to browser TTS when play() is rejected (common on iOS)
-            await speakWithBrowserFallback(text)
+            await speakWithBrowserFallback(text, onWord)
             resolve()
           })
         })
       } catch (error) {
         // Network error or other failure - fall back to browser speech synthesis
         console.info('Voice synthesis error, using browser fallback:', error)
-        await speakWithBrowserFallback(text)
+        await speakWithBrowserFallback(text, onWord)
+      } finally {
+        if (trackWords) {
+          setSpeechProgress(null)
+        }
       }
     }
 
@@ -331,8 +427,8 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
     setIsSpeaking(false)
   }, [settings, speakWithBrowserFallback])
 
-  const speak = useCallback(async (text: string) => {
-    queueRef.current.push(text)
+  const speak = useCallback(async (text: string, options: SpeakOptions = {}) => {
+    queueRef.current.push({ text, trackWords: options.trackWords ?? false })
     await processQueue()
   }, [processQueue])
 
@@ -449,7 +545,7 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
     })
   }, [stopBrowserSpeechRecognition])
 
-  const checkPronunciation = useCallback(async (expectedWord: string): Promise<PronunciationResult | null> => {
+  const checkPronunciation = useCallback(async (expectedWord: string, phonemes?: string[]): Promise<PronunciationResult | null> => {
     const audioBlob = await stopRecording()
     if (!audioBlob) {
       return null
@@ -459,6 +555,9 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
       const formData = new FormData()
       formData.append('audio', audioBlob, 'recording.webm')
       formData.append('expectedWord', expectedWord)
+      if (phonemes?.length) {
+        formData.append('phonemes', JSON.stringify(phonemes))
+      }
 
       const response = await fetch('/api/voice/pronunciation-check', {
         method: 'POST',
@@ -503,20 +602,21 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
         }
       }
 
-      // Normalize for comparison
-      const transcribedNormalized = browserResult.transcribed.toLowerCase().trim()
-      const expectedNormalized = expectedWord.toLowerCase().trim()
-
-      const isCorrect =
-        transcribedNormalized === expectedNormalized ||
-        transcribedNormalized.includes(expectedNormalized)
+      // Score the same way the server does
+      const score = scorePronunciation(browserResult.transcribed, expectedWord, { phonemes })
+      const { isCorrect } = score
 
       return {
         isCorrect,
         transcribed: browserResult.transcribed,
         expected: expectedWord,
         confidence: browserResult.confidence,
-        feedback: isCorrect ? getPositiveFeedback() : getEncouragingFeedback(expectedWord),
+        phonemes: score.phonemes,
+        insertedPhonemes: score.insertedPhonemes,
+        accuracy: score.accuracy,
+        feedback: isCorrect
+          ? getPositiveFeedback()
+          : getPhonemeHint(expectedWord, score) ?? getEncouragingFeedback(expectedWord),
       }
     }
   }, [stopRecording])
@@ -526,6 +626,7 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
     isLoading,
     isSpeaking,
     isRecording,
+    speechProgress,
     speak,
     updateSettings,
     startRecording,
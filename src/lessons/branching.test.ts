@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createBranchingState,
+  applyStepResult,
+  getMaxAttempts,
+  getResumeIndex,
+  type BranchingState,
+  type StepResult,
+} from './branching'
+import type { LessonActivity, LessonBranching } from '../types/lesson'
+
+const activities: LessonActivity[] = [
+  { id: 'spell-cat', type: 'spelling', order: 0, instructions: 'Spell it', word: 'cat' },
+  { id: 'quiz', type: 'quiz', order: 1, instructions: 'Pick one', question: 'Which?', options: ['cat', 'dog'], correctIndex: 0 },
+  { id: 'practice-1', type: 'listen-repeat', order: 2, instructions: 'Say it', phrase: 'cat' },
+  { id: 'practice-2', type: 'listen-repeat', order: 3, instructions: 'Say it', phrase: 'hat' },
+  { id: 'wrap-up', type: 'reading', order: 4, instructions: 'Read it', content: 'The cat sat.' },
+]
+
+const remedial: LessonActivity = {
+  id: 'short-a',
+  type: 'phonics',
+  order: 0,
+  instructions: 'Listen to the middle sound',
+  sound: 'a',
+  exampleWords: ['cat', 'hat'],
+}
+
+const branching: LessonBranching = {
+  remediation: [{ activityId: 'quiz', remedial }],
+  fastStreak: { streak: 2, maxSecondsPerActivity: 10, skippableActivityIds: ['practice-1', 'practice-2'] },
+}
+
+const pass: StepResult = { score: 100, attempts: 1, timeSpentSeconds: 5 }
+const fail: StepResult = { score: 0, attempts: 1, timeSpentSeconds: 5 }
+
+function stepIds(state: BranchingState) {
+  return state.steps.map(step => step.activity.id)
+}
+
+describe('lesson branching', () => {
+  it('plays the lesson in order when there are no rules', () => {
+    let state = createBranchingState(activities)
+
+    const result = applyStepResult(state, null, 0, { score: 100, attempts: 3, timeSpentSeconds: 40 })
+    state = result.state
+
+    expect(stepIds(state)).toEqual(activities.map(a => a.id))
+    expect(result.finished).toEqual({ activityId: 'spell-cat', score: 100, attempts: 3, timeSpentSeconds: 40 })
+  })
+
+  it('starts from the resume index', () => {
+    const state = createBranchingState(activities, 3)
+
+    expect(stepIds(state)).toEqual(['practice-2', 'wrap-up'])
+    expect(state.steps[0].sourceIndex).toBe(3)
+  })
+
+  it('retries, then inserts the remedial activity after the second failure', () => {
+    let state = createBranchingState(activities)
+    state = applyStepResult(state, branching, 0, { ...pass, timeSpentSeconds: 30 }).state
+
+    const first = applyStepResult(state, branching, 1, fail)
+    expect(first.finished).toBeNull()
+    expect(stepIds(first.state).slice(1, 3)).toEqual(['quiz', 'quiz'])
+
+    const second = applyStepResult(first.state, branching, 2, fail)
+    expect(second.finished).toBeNull()
+    expect(stepIds(second.state).slice(1, 5)).toEqual(['quiz', 'quiz', 'short-a', 'quiz'])
+    expect(second.state.steps[3].remedialFor).toBe('quiz')
+
+    // Each step gets its own key so the activity remounts
+    const keys = second.state.steps.map(step => step.key)
+    expect(new Set(keys).size).toBe(keys.length)
+
+    const afterRemedial = applyStepResult(second.state, branching, 3, pass)
+    expect(afterRemedial.finished).toBeNull()
+
+    const retried = applyStepResult(afterRemedial.state, branching, 4, pass)
+    expect(retried.finished).toMatchObject({ activityId: 'quiz', score: 100, attempts: 3 })
+  })
+
+  it('moves on after the remedial retry is missed too', () => {
+    let state = createBranchingState(activities)
+    state = applyStepResult(state, branching, 1, fail).state
+    state = applyStepResult(state, branching, 2, fail).state
+    state = applyStepResult(state, branching, 3, pass).state
+
+    const { state: next, finished } = applyStepResult(state, branching, 4, fail)
+
+    expect(finished).toMatchObject({ activityId: 'quiz', score: 0, attempts: 3 })
+    expect(stepIds(next).slice(5)).toEqual(['practice-1', 'practice-2', 'wrap-up'])
+  })
+
+  it('counts the tries a spelling view reports in one go', () => {
+    const spelling: LessonBranching = { remediation: [{ activityId: 'spell-cat', afterFailures: 3, remedial }] }
+    const state = createBranchingState(activities)
+
+    expect(getMaxAttempts(spelling, 'spell-cat')).toBe(3)
+    expect(getMaxAttempts(spelling, 'quiz')).toBeUndefined()
+
+    const { state: next } = applyStepResult(state, spelling, 0, { score: 0, attempts: 3, timeSpentSeconds: 60 })
+    expect(stepIds(next).slice(0, 3)).toEqual(['spell-cat', 'short-a', 'spell-cat'])
+  })
+
+  it('skips practice after a fast streak', () => {
+    let state = createBranchingState(activities)
+    state = applyStepResult(state, branching, 0, pass).state
+    state = applyStepResult(state, branching, 1, pass).state
+
+    expect(stepIds(state)).toEqual(['spell-cat', 'quiz', 'wrap-up'])
+    expect(getResumeIndex(state, 1, activities.length)).toBe(4)
+  })
+
+  it('does not count slow or retried activities towards a streak', () => {
+    let state = createBranchingState(activities)
+    state = applyStepResult(state, branching, 0, pass).state
+    state = applyStepResult(state, branching, 1, { ...pass, timeSpentSeconds: 30 }).state
+
+    expect(state.streak).toBe(0)
+    expect(stepIds(state)).toHaveLength(activities.length)
+
+    state = createBranchingState(activities)
+    state = applyStepResult(state, null, 0, { ...pass, attempts: 2 }).state
+    expect(state.streak).toBe(0)
+  })
+
+  it('resumes from the activity a retry belongs to', () => {
+    let state = createBranchingState(activities)
+    state = applyStepResult(state, branching, 1, fail).state
+
+    expect(getResumeIndex(state, 1, activities.length)).toBe(1)
+    expect(getResumeIndex(state, state.steps.length - 1, activities.length)).toBe(activities.length)
+  })
+})
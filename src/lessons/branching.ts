@@ -0,0 +1,169 @@
+/**
+ * Adaptive activity order for the lesson player.
+ *
+ * A lesson is played as a list of steps that starts as the lesson's own
+ * activities. The lesson's branching rules can then add steps (a retry, or a
+ * scaffolded remedial activity followed by a retry) or drop practice steps
+ * after a fast streak. Everything here is pure so the player only has to keep
+ * the returned state.
+ */
+
+import type { LessonActivity, LessonBranching, RemediationRule } from '../types/lesson'
+
+/** Scores below this count as a failed attempt */
+export const PASSING_SCORE = 60
+
+const DEFAULT_FAILURES_BEFORE_REMEDIATION = 2
+
+export interface PlayStep {
+  /** Unique per step so a retry remounts the activity */
+  key: string
+  activity: LessonActivity
+  /** Index in lesson.activities this step belongs to, used for resuming */
+  sourceIndex: number
+  /** Id of the activity this step scaffolds, for inserted remedial steps */
+  remedialFor?: string
+}
+
+interface ActivityTally {
+  attempts: number
+  failures: number
+  timeSpentSeconds: number
+}
+
+export interface BranchingState {
+  steps: PlayStep[]
+  tallies: Record<string, ActivityTally>
+  /** Activities whose remedial step has already been inserted */
+  remediated: string[]
+  /** Activities passed in a row on the first try and within the time limit */
+  streak: number
+}
+
+export interface StepResult {
+  score: number
+  attempts: number
+  timeSpentSeconds: number
+}
+
+/** What to record for an activity once the child is done with it */
+export interface FinishedActivity {
+  activityId: string
+  score: number
+  attempts: number
+  timeSpentSeconds: number
+}
+
+export function createBranchingState(activities: LessonActivity[], startIndex = 0): BranchingState {
+  return {
+    steps: activities.slice(startIndex).map((activity, offset) => ({
+      key: activity.id,
+      activity,
+      sourceIndex: startIndex + offset,
+    })),
+    tallies: {},
+    remediated: [],
+    streak: 0,
+  }
+}
+
+function findRule(branching: LessonBranching | null | undefined, activityId: string): RemediationRule | undefined {
+  return branching?.remediation?.find(rule => rule.activityId === activityId)
+}
+
+/**
+ * How many tries an activity view should allow before reporting a failure.
+ * Undefined means the view keeps going until the child gets it right.
+ */
+export function getMaxAttempts(branching: LessonBranching | null | undefined, activityId: string): number | undefined {
+  const rule = findRule(branching, activityId)
+  return rule ? rule.afterFailures ?? DEFAULT_FAILURES_BEFORE_REMEDIATION : undefined
+}
+
+/** Tries used so far on an activity, including earlier steps for it */
+export function getAttempts(state: BranchingState, activityId: string): number {
+  return state.tallies[activityId]?.attempts ?? 0
+}
+
+/**
+ * Index in lesson.activities to resume from after the step at `position`
+ */
+export function getResumeIndex(state: BranchingState, position: number, activityCount: number): number {
+  const next = state.steps.slice(position + 1).find(step => !step.remedialFor)
+  return next ? next.sourceIndex : activityCount
+}
+
+function retryStep(step: PlayStep, count: number): PlayStep {
+  return { ...step, key: `${step.activity.id}:retry-${count}` }
+}
+
+/**
+ * Apply the result of the step at `position`. Returns the new state and, when
+ * the child has finished with the activity, what to record for it.
+ */
+export function applyStepResult(
+  state: BranchingState,
+  branching: LessonBranching | null | undefined,
+  position: number,
+  result: StepResult
+): { state: BranchingState; finished: FinishedActivity | null } {
+  const step = state.steps[position]
+  const { activity } = step
+
+  // Remedial steps only support the activity they were added for
+  if (step.remedialFor) {
+    return { state, finished: null }
+  }
+
+  const passed = result.score >= PASSING_SCORE
+  const previous = state.tallies[activity.id] ?? { attempts: 0, failures: 0, timeSpentSeconds: 0 }
+  const tally: ActivityTally = {
+    attempts: previous.attempts + result.attempts,
+    failures: previous.failures + (passed ? result.attempts - 1 : result.attempts),
+    timeSpentSeconds: previous.timeSpentSeconds + result.timeSpentSeconds,
+  }
+  let next: BranchingState = { ...state, tallies: { ...state.tallies, [activity.id]: tally } }
+
+  const rule = findRule(branching, activity.id)
+  if (!passed && rule && !state.remediated.includes(activity.id)) {
+    const afterFailures = rule.afterFailures ?? DEFAULT_FAILURES_BEFORE_REMEDIATION
+    const inserted = tally.failures >= afterFailures
+      ? [{ key: `${rule.remedial.id}:for-${activity.id}`, activity: rule.remedial, sourceIndex: step.sourceIndex, remedialFor: activity.id }, retryStep(step, tally.attempts)]
+      : [retryStep(step, tally.attempts)]
+
+    next = {
+      ...next,
+      steps: [...next.steps.slice(0, position + 1), ...inserted, ...next.steps.slice(position + 1)],
+      remediated: tally.failures >= afterFailures ? [...next.remediated, activity.id] : next.remediated,
+      streak: 0,
+    }
+    return { state: next, finished: null }
+  }
+
+  const fastStreak = branching?.fastStreak
+  const fast = passed && tally.attempts === 1 && (!fastStreak || result.timeSpentSeconds <= fastStreak.maxSecondsPerActivity)
+  next = { ...next, streak: fast ? next.streak + 1 : 0 }
+
+  if (fastStreak && next.streak >= fastStreak.streak) {
+    // Drop practice still to come; earlier steps stay so Back still works
+    next = {
+      ...next,
+      steps: [
+        ...next.steps.slice(0, position + 1),
+        ...next.steps.slice(position + 1).filter(upcoming =>
+          upcoming.remedialFor || !fastStreak.skippableActivityIds.includes(upcoming.activity.id)
+        ),
+      ],
+    }
+  }
+
+  return {
+    state: next,
+    finished: {
+      activityId: activity.id,
+      score: result.score,
+      attempts: tally.attempts,
+      timeSpentSeconds: tally.timeSpentSeconds,
+    },
+  }
+}
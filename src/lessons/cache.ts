@@ -0,0 +1,31 @@
+/**
+ * Short-lived cache for lesson API results shown on the lesson picker.
+ * Cleared when lessons are written or the parent signs out, so a family
+ * never sees stale or another family's private lessons.
+ */
+
+interface CacheEntry<T> {
+  data: T
+  timestamp: number
+}
+
+const cache = new Map<string, CacheEntry<unknown>>()
+const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+
+export function getCached<T>(key: string): T | null {
+  const entry = cache.get(key)
+  if (!entry) return null
+  if (Date.now() - entry.timestamp > CACHE_TTL) {
+    cache.delete(key)
+    return null
+  }
+  return entry.data as T
+}
+
+export function setCache<T>(key: string, data: T): void {
+  cache.set(key, { data, timestamp: Date.now() })
+}
+
+export function clearLessonCache(): void {
+  cache.clear()
+}
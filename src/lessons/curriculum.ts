@@ -0,0 +1,113 @@
+/**
+ * Learning path layout
+ *
+ * Groups lessons into the phonics scope-and-sequence stages from
+ * docs/dynamic-lesson-generation-spec.md (section 2.3), matched by lesson
+ * tags. Sight-word lessons run alongside the phonics stages (section 2.4), and
+ * anything without a matching tag, such as family-written lessons, goes last.
+ */
+
+export interface CurriculumStage {
+  stage: number
+  title: string
+  /** A lesson belongs to the first stage whose tags it carries */
+  tags: string[]
+}
+
+export const SCOPE_AND_SEQUENCE: CurriculumStage[] = [
+  { stage: 1, title: 'Letter sounds', tags: ['letter-sounds', 'alphabet'] },
+  { stage: 2, title: 'VC words', tags: ['vc'] },
+  { stage: 3, title: 'CVC words', tags: ['cvc'] },
+  { stage: 4, title: 'Word families', tags: ['word-families'] },
+  { stage: 5, title: 'Beginning digraphs', tags: ['beginning-digraphs'] },
+  { stage: 6, title: 'Ending digraphs', tags: ['ending-digraphs'] },
+  { stage: 7, title: 'Beginning blends', tags: ['beginning-blends'] },
+  { stage: 8, title: 'Long vowels', tags: ['long-vowels', 'cvce'] },
+  { stage: 9, title: 'Ending blends', tags: ['ending-blends'] },
+  { stage: 10, title: 'CCVC words', tags: ['ccvc'] },
+  { stage: 11, title: 'CVCC words', tags: ['cvcc'] },
+  { stage: 12, title: 'Silent-e patterns', tags: ['silent-e'] },
+  { stage: 13, title: 'Vowel teams', tags: ['vowel-teams'] },
+  { stage: 14, title: 'R-controlled vowels', tags: ['r-controlled'] },
+  { stage: 15, title: 'Diphthongs', tags: ['diphthongs'] },
+  { stage: 16, title: 'Multi-syllable words', tags: ['multi-syllable'] },
+]
+
+const SIGHT_WORD_TAGS = ['sight-words', 'high-frequency']
+
+export interface PathLesson {
+  id: string
+  tags?: string[] | null
+  prerequisites?: string[] | null
+}
+
+export interface LearningPathGroup<T extends PathLesson> {
+  /** Stable key for rendering */
+  key: string
+  title: string
+  /** Scope-and-sequence stage number, for phonics stages */
+  stage?: number
+  lessons: T[]
+}
+
+/**
+ * Order lessons so each comes after its prerequisites, keeping the given
+ * order otherwise
+ */
+function orderByPrerequisites<T extends PathLesson>(lessons: T[]): T[] {
+  const byId = new Map(lessons.map(lesson => [lesson.id, lesson]))
+  const ordered: T[] = []
+  const placed = new Set<string>()
+
+  const place = (lesson: T, visiting: Set<string>) => {
+    if (placed.has(lesson.id) || visiting.has(lesson.id)) return
+    visiting.add(lesson.id)
+    for (const id of lesson.prerequisites ?? []) {
+      const prerequisite = byId.get(id)
+      if (prerequisite) place(prerequisite, visiting)
+    }
+    placed.add(lesson.id)
+    ordered.push(lesson)
+  }
+
+  lessons.forEach(lesson => place(lesson, new Set()))
+  return ordered
+}
+
+export function getCurriculumStage(lesson: PathLesson): CurriculumStage | null {
+  const tags = lesson.tags ?? []
+  return SCOPE_AND_SEQUENCE.find(stage => stage.tags.some(tag => tags.includes(tag))) ?? null
+}
+
+/**
+ * Lay lessons out as the learning path: phonics stages in sequence order,
+ * then sight words, then everything else. Empty groups are left out.
+ */
+export function buildLearningPath<T extends PathLesson>(lessons: T[]): LearningPathGroup<T>[] {
+  const stages = new Map<number, T[]>()
+  const sightWords: T[] = []
+  const other: T[] = []
+
+  for (const lesson of orderByPrerequisites(lessons)) {
+    const stage = getCurriculumStage(lesson)
+    if (stage) {
+      stages.set(stage.stage, [...(stages.get(stage.stage) ?? []), lesson])
+    } else if ((lesson.tags ?? []).some(tag => SIGHT_WORD_TAGS.includes(tag))) {
+      sightWords.push(lesson)
+    } else {
+      other.push(lesson)
+    }
+  }
+
+  const groups: LearningPathGroup<T>[] = SCOPE_AND_SEQUENCE
+    .filter(stage => stages.has(stage.stage))
+    .map(stage => ({ key: `stage-${stage.stage}`, title: stage.title, stage: stage.stage, lessons: stages.get(stage.stage)! }))
+
+  if (sightWords.length > 0) {
+    groups.push({ key: 'sight-words', title: 'Sight words', lessons: sightWords })
+  }
+  if (other.length > 0) {
+    groups.push({ key: 'more', title: 'More lessons', lessons: other })
+  }
+  return groups
+}
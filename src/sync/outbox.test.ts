@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createOutbox, createMemoryOutboxStore, type OutboxStore } from './outbox'
+
+function okResponse(): Response {
+  return { ok: true, status: 200 } as Response
+}
+
+function statusResponse(status: number): Response {
+  return { ok: false, status } as Response
+}
+
+describe('outbox', () => {
+  let store: OutboxStore
+  let fetchFn: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    store = createMemoryOutboxStore()
+    fetchFn = vi.fn().mockResolvedValue(okResponse())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('sends a queued write with its idempotency key and client timestamp', async () => {
+    const outbox = createOutbox(store, {
+      fetchFn: fetchFn as unknown as typeof fetch,
+      getHeaders: () => ({ Authorization: 'Bearer test-token' }),
+    })
+
+    const id = await outbox.enqueue('/api/progress/child/c1/lesson/l1/complete', 'POST', { score: 90 })
+    await outbox.flush()
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/progress/child/c1/lesson/l1/complete', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': id,
+        Authorization: 'Bearer test-token',
+      },
+      body: expect.stringContaining('"score":90'),
+    })
+    const body = JSON.parse(fetchFn.mock.calls[0][1].body)
+    expect(body.occurredAt).toEqual(expect.any(String))
+    expect(await outbox.pendingCount()).toBe(0)
+  })
+
+  it('keeps writes while offline and replays them in order', async () => {
+    fetchFn.mockRejectedValue(new TypeError('Failed to fetch'))
+    const outbox = createOutbox(store, { fetchFn: fetchFn as unknown as typeof fetch })
+
+    await outbox.enqueue('/api/first', 'POST')
+    await outbox.enqueue('/api/second', 'POST')
+    expect(await outbox.flush()).toBe(2)
+
+    fetchFn.mockReset()
+    fetchFn.mockResolvedValue(okResponse())
+    expect(await outbox.flush()).toBe(0)
+    expect(fetchFn.mock.calls.map(call => call[0])).toEqual(['/api/first', '/api/second'])
+  })
+
+  it('reuses the same key when a write is retried', async () => {
+    fetchFn.mockResolvedValueOnce(statusResponse(503))
+    const outbox = createOutbox(store, { fetchFn: fetchFn as unknown as typeof fetch })
+
+    await outbox.enqueue('/api/write', 'PUT')
+    await outbox.flush()
+    await outbox.flush()
+
+    const keys = fetchFn.mock.calls.map(call => call[1].headers['Idempotency-Key'])
+    expect(keys).toHaveLength(2)
+    expect(keys[0]).toBe(keys[1])
+    expect(await outbox.pendingCount()).toBe(0)
+  })
+
+  it('drops writes the server rejects', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    fetchFn.mockResolvedValueOnce(statusResponse(400))
+    const outbox = createOutbox(store, { fetchFn: fetchFn as unknown as typeof fetch })
+
+    await outbox.enqueue('/api/bad', 'POST')
+    await outbox.enqueue('/api/good', 'POST')
+
+    expect(await outbox.flush()).toBe(0)
+    expect(fetchFn).toHaveBeenCalledWith('/api/good', expect.anything())
+  })
+
+  it('only replays writes for the parent who queued them', async () => {
+    let userId = 'parent-1'
+    fetchFn.mockRejectedValue(new TypeError('Failed to fetch'))
+    const outbox = createOutbox(store, {
+      fetchFn: fetchFn as unknown as typeof fetch,
+      getUserId: () => userId,
+    })
+    await outbox.enqueue('/api/parent-1-write', 'POST')
+    expect(await outbox.flush()).toBe(1)
+
+    userId = 'parent-2'
+    fetchFn.mockReset()
+    fetchFn.mockResolvedValue(okResponse())
+    expect(await outbox.flush()).toBe(0)
+    expect(fetchFn).not.toHaveBeenCalled()
+
+    userId = 'parent-1'
+    expect(await outbox.pendingCount()).toBe(1)
+    expect(await outbox.flush()).toBe(0)
+    expect(fetchFn).toHaveBeenCalledWith('/api/parent-1-write', expect.anything())
+  })
+
+  it('holds writes after a 401 until the parent signs in again', async () => {
+    let token = 'expired-token'
+    fetchFn.mockResolvedValueOnce(statusResponse(401))
+    const outbox = createOutbox(store, {
+      fetchFn: fetchFn as unknown as typeof fetch,
+      getHeaders: () => ({ Authorization: `Bearer ${token}` }),
+    })
+
+    await outbox.enqueue('/api/write', 'POST')
+    await outbox.flush()
+    expect(await outbox.flush()).toBe(1)
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+
+    token = 'fresh-token'
+    expect(await outbox.flush()).toBe(0)
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+    expect(fetchFn.mock.lastCall?.[1].headers.Authorization).toBe('Bearer fresh-token')
+  })
+
+  it('notifies subscribers of the pending count', async () => {
+    fetchFn.mockRejectedValue(new TypeError('Failed to fetch'))
+    const outbox = createOutbox(store, { fetchFn: fetchFn as unknown as typeof fetch })
+    const listener = vi.fn()
+    outbox.subscribe(listener)
+
+    await outbox.enqueue('/api/write', 'POST')
+    await outbox.flush()
+
+    expect(listener).toHaveBeenLastCalledWith(1)
+  })
+})
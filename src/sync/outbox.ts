@@ -0,0 +1,222 @@
+import { getAuthHeaders, getAuthUserId } from '../hooks/useAuth'
+
+/**
+ * A queued API write. The id doubles as the request's Idempotency-Key so the
+ * server applies each mutation once no matter how often it is replayed.
+ * Writes belong to the parent who made them and are only replayed for them.
+ */
+export interface OutboxMutation {
+  id: string
+  userId: string | null
+  url: string
+  method: 'POST' | 'PUT'
+  body: Record<string, unknown>
+  createdAt: string
+  sequence: number
+  attempts: number
+}
+
+export interface OutboxStore {
+  put: (mutation: OutboxMutation) => Promise<void>
+  getAll: () => Promise<OutboxMutation[]>
+  delete: (id: string) => Promise<void>
+}
+
+export interface Outbox {
+  /** Persist a write, then try to send it (and anything queued before it) */
+  enqueue: (url: string, method: OutboxMutation['method'], body?: Record<string, unknown>) => Promise<string>
+  /** Replay the signed-in parent's queued writes in order; resolves with the number still pending */
+  flush: () => Promise<number>
+  pendingCount: () => Promise<number>
+  subscribe: (listener: (pending: number) => void) => () => void
+}
+
+interface OutboxOptions {
+  fetchFn?: typeof fetch
+  getHeaders?: () => Record<string, string>
+  getUserId?: () => string | null
+}
+
+const DB_NAME = 'l2rr2l_sync'
+const STORE_NAME = 'outbox'
+
+// Statuses worth retrying later; any other 4xx means the server rejected the write for good
+const RETRYABLE_STATUSES = new Set([408, 429])
+
+function byQueueOrder(a: OutboxMutation, b: OutboxMutation): number {
+  return a.createdAt.localeCompare(b.createdAt) || a.sequence - b.sequence
+}
+
+export function createMemoryOutboxStore(): OutboxStore {
+  const mutations = new Map<string, OutboxMutation>()
+  return {
+    put: async (mutation) => {
+      mutations.set(mutation.id, { ...mutation })
+    },
+    getAll: async () => [...mutations.values()].sort(byQueueOrder),
+    delete: async (id) => {
+      mutations.delete(id)
+    },
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function createIndexedDbOutboxStore(dbName: string = DB_NAME): OutboxStore {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      }
+      dbPromise = requestToPromise(request)
+    }
+    return dbPromise
+  }
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDb()
+    return requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)))
+  }
+
+  return {
+    put: async (mutation) => {
+      await withStore('readwrite', store => store.put(mutation))
+    },
+    getAll: async () => {
+      const mutations = await withStore<OutboxMutation[]>('readonly', store => store.getAll())
+      return mutations.sort(byQueueOrder)
+    },
+    delete: async (id) => {
+      await withStore('readwrite', store => store.delete(id))
+    },
+  }
+}
+
+export function createOutbox(store: OutboxStore, options: OutboxOptions = {}): Outbox {
+  const fetchFn = options.fetchFn ?? ((input, init) => fetch(input, init))
+  const getHeaders = options.getHeaders ?? ((): Record<string, string> => ({}))
+  const getUserId = options.getUserId ?? (() => null)
+  const listeners = new Set<(pending: number) => void>()
+  let sequence = 0
+  let flushing: Promise<number> | null = null
+  // Set when the server answers 401; writes wait until the Authorization header changes
+  let heldFor: { authorization: string | null } | null = null
+
+  // Writes queued by whoever is signed in now; other parents' writes wait for them
+  const pending = async () => {
+    const userId = getUserId()
+    return (await store.getAll()).filter(mutation => (mutation.userId ?? null) === userId)
+  }
+
+  const notify = async () => {
+    if (listeners.size === 0) return
+    const count = (await pending()).length
+    listeners.forEach(listener => listener(count))
+  }
+
+  const sendAll = async (): Promise<number> => {
+    const queued = await pending()
+    const headers = getHeaders()
+    const authorization = headers.Authorization ?? null
+
+    if (heldFor && heldFor.authorization === authorization) {
+      return queued.length
+    }
+    heldFor = null
+
+    for (const mutation of queued) {
+      let response: Response
+      try {
+        response = await fetchFn(mutation.url, {
+          method: mutation.method,
+          headers: {
+            'Content-Type': 'application/json',
+            'Idempotency-Key': mutation.id,
+            ...headers,
+          },
+          body: JSON.stringify(mutation.body),
+        })
+      } catch {
+        // Still offline - keep this and everything after it for the next flush
+        break
+      }
+
+      if (response.ok) {
+        await store.delete(mutation.id)
+      } else if (response.status === 401) {
+        // Signed out or the session expired - hold everything until the next sign-in
+        heldFor = { authorization }
+        break
+      } else if (response.status >= 500 || RETRYABLE_STATUSES.has(response.status)) {
+        await store.put({ ...mutation, attempts: mutation.attempts + 1 })
+        break
+      } else {
+        console.warn(`Dropping rejected ${mutation.method} ${mutation.url} (${response.status})`)
+        await store.delete(mutation.id)
+      }
+    }
+
+    return (await pending()).length
+  }
+
+  const flush = () => {
+    if (!flushing) {
+      flushing = sendAll().finally(() => {
+        flushing = null
+        void notify()
+      })
+    }
+    return flushing
+  }
+
+  return {
+    enqueue: async (url, method, body = {}) => {
+      const now = new Date().toISOString()
+      const mutation: OutboxMutation = {
+        id: crypto.randomUUID(),
+        userId: getUserId(),
+        url,
+        method,
+        body: { occurredAt: now, ...body },
+        createdAt: now,
+        sequence: sequence++,
+        attempts: 0,
+      }
+      await store.put(mutation)
+      void notify()
+      // Wait for any flush in progress so this write is not left behind
+      if (flushing) await flushing
+      void flush()
+      return mutation.id
+    },
+    flush,
+    pendingCount: async () => (await pending()).length,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+let progressOutbox: Outbox | null = null
+
+/**
+ * The app-wide outbox for progress writes, stored in IndexedDB when available
+ */
+export function getProgressOutbox(): Outbox {
+  if (!progressOutbox) {
+    const store = typeof indexedDB !== 'undefined' ? createIndexedDbOutboxStore() : createMemoryOutboxStore()
+    progressOutbox = createOutbox(store, { getHeaders: getAuthHeaders, getUserId: getAuthUserId })
+  }
+  return progressOutbox
+}
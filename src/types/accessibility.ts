@@ -0,0 +1,125 @@
+/**
+ * Accessibility settings for Learn to Read, Read to Learn
+ *
+ * Each child can play the tile games by dragging, by tapping or with the
+ * keyboard, or with a single switch that steps through the choices. A display
+ * profile changes how reading text looks, for example for children with
+ * dyslexia.
+ */
+
+/** How a child moves tiles in the spelling and word builder games */
+export const InputMode = {
+  /** Drag tiles with a mouse or finger */
+  DRAG: 'drag',
+  /** Tap or press a tile, then tap or press where it goes */
+  TAP: 'tap',
+  /** Choices are highlighted in turn and one switch picks the highlighted one */
+  SCAN: 'scan',
+} as const
+
+export type InputMode = typeof InputMode[keyof typeof InputMode]
+
+export interface AccessibilitySettings {
+  inputMode: InputMode
+  /** How long each choice stays highlighted in scan mode */
+  scanIntervalMs: number
+  /** Read out tile selections and placements to screen readers */
+  announcePlacements: boolean
+}
+
+export const MIN_SCAN_INTERVAL_MS = 500
+export const MAX_SCAN_INTERVAL_MS = 5000
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  inputMode: InputMode.DRAG,
+  scanIntervalMs: 1500,
+  announcePlacements: true,
+}
+
+export function isInputMode(value: unknown): value is InputMode {
+  return typeof value === 'string' && (Object.values(InputMode) as string[]).includes(value)
+}
+
+/**
+ * Accessibility settings sent by a client, or null if they are malformed
+ */
+export function parseAccessibilitySettings(value: unknown): AccessibilitySettings | null {
+  if (typeof value !== 'object' || value === null) return null
+
+  const { inputMode, scanIntervalMs, announcePlacements } = value as Record<string, unknown>
+  if (
+    !isInputMode(inputMode) ||
+    !Number.isInteger(scanIntervalMs) ||
+    (scanIntervalMs as number) < MIN_SCAN_INTERVAL_MS ||
+    (scanIntervalMs as number) > MAX_SCAN_INTERVAL_MS ||
+    typeof announcePlacements !== 'boolean'
+  ) {
+    return null
+  }
+  return { inputMode, scanIntervalMs: scanIntervalMs as number, announcePlacements }
+}
+
+// ============================================================================
+// Display profile
+// ============================================================================
+
+/** Extra space between letters or between words in reading text */
+export const TextSpacing = {
+  NORMAL: 'normal',
+  WIDE: 'wide',
+  WIDER: 'wider',
+} as const
+
+export type TextSpacing = typeof TextSpacing[keyof typeof TextSpacing]
+
+export interface DisplayProfile {
+  /** Show reading text in a dyslexia-friendly font */
+  dyslexiaFont: boolean
+  letterSpacing: TextSpacing
+  wordSpacing: TextSpacing
+  /** Shade all but one line of longer reading passages */
+  lineRuler: boolean
+  /** Give b, d, p and q their own colors so they are not mixed up */
+  colorCodeLetters: boolean
+  /** Leave out confetti and tone down celebration animations */
+  reducedMotion: boolean
+}
+
+export const DEFAULT_DISPLAY_PROFILE: DisplayProfile = {
+  dyslexiaFont: false,
+  letterSpacing: TextSpacing.NORMAL,
+  wordSpacing: TextSpacing.NORMAL,
+  lineRuler: false,
+  colorCodeLetters: false,
+  reducedMotion: false,
+}
+
+export function isTextSpacing(value: unknown): value is TextSpacing {
+  return typeof value === 'string' && (Object.values(TextSpacing) as string[]).includes(value)
+}
+
+const DISPLAY_PROFILE_SWITCHES = ['dyslexiaFont', 'lineRuler', 'colorCodeLetters', 'reducedMotion'] as const
+
+/**
+ * A display profile sent by a client, or null if it is malformed
+ */
+export function parseDisplayProfile(value: unknown): DisplayProfile | null {
+  if (typeof value !== 'object' || value === null) return null
+
+  const fields = value as Record<string, unknown>
+  if (
+    !isTextSpacing(fields.letterSpacing) ||
+    !isTextSpacing(fields.wordSpacing) ||
+    DISPLAY_PROFILE_SWITCHES.some(name => typeof fields[name] !== 'boolean')
+  ) {
+    return null
+  }
+  return {
+    dyslexiaFont: fields.dyslexiaFont as boolean,
+    letterSpacing: fields.letterSpacing,
+    wordSpacing: fields.wordSpacing,
+    lineRuler: fields.lineRuler as boolean,
+    colorCodeLetters: fields.colorCodeLetters as boolean,
+    reducedMotion: fields.reducedMotion as boolean,
+  }
+}
@@ -3,3 +3,5 @@
  */
 
 export * from './lesson'
+export * from './accessibility'
+export * from './voiceCloning'
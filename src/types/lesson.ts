@@ -189,6 +189,36 @@ export type LessonActivity =
   | ListenRepeatActivity
   | WordBuildingActivity
 
+// ============================================================================
+// Adaptive Branching
+// ============================================================================
+
+/** Scaffolded activity played when a child keeps missing an activity */
+export interface RemediationRule {
+  /** Activity being watched (a spelling or quiz activity) */
+  activityId: string
+  /** Failed attempts before the remedial activity is inserted (default 2) */
+  afterFailures?: number
+  /** Activity to play before the child tries again, e.g. phonics for the missed sound */
+  remedial: LessonActivity
+}
+
+/** Skip extra practice once a child is clearly comfortable */
+export interface FastStreakRule {
+  /** Activities in a row that must be passed on the first try */
+  streak: number
+  /** Each activity in the streak must be finished within this many seconds */
+  maxSecondsPerActivity: number
+  /** Practice activities that can be skipped after a streak */
+  skippableActivityIds: string[]
+}
+
+/** Per-lesson rules that let the player adapt the activity order */
+export interface LessonBranching {
+  remediation?: RemediationRule[]
+  fastStreak?: FastStreakRule
+}
+
 // ============================================================================
 // Lesson Interface
 // ============================================================================
@@ -209,6 +239,8 @@ export interface Lesson {
   objectives: string[]
   /** Ordered list of activities */
   activities: LessonActivity[]
+  /** Remediation and skip rules applied while playing */
+  branching?: LessonBranching | null
   /** Estimated duration in minutes */
   durationMinutes: number
   /** Prerequisite lesson IDs */
@@ -232,6 +264,9 @@ export interface Lesson {
 // Progress Tracking
 // ============================================================================
 
+/** Where a lesson sits on a child's learning path, from its prerequisites */
+export type LessonAvailability = 'locked' | 'unlocked' | 'completed'
+
 /** Progress on a single activity */
 export interface ActivityProgress {
   activityId: string
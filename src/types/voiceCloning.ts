@@ -0,0 +1,25 @@
+/**
+ * Parent voice cloning for Learn to Read, Read to Learn
+ *
+ * A parent records a few scripted sentences in Settings and the speech
+ * provider builds a voice from them. The server checks uploads against the
+ * same limits (server/services/voiceCloning.ts).
+ */
+
+/** Sentences the wizard asks a parent to read, one recording each */
+export const CLONE_SAMPLE_SENTENCES = [
+  'Once upon a time, a little fox found a big red ball in the garden.',
+  'Can you find the cat that is sitting on the mat?',
+  'The sun is hot, so let us sit in the shade and read a book.',
+  'Wow, you did it! I am so proud of you.',
+  'Let us sound it out together: c, a, t, cat.',
+]
+
+export const MIN_CLONE_SAMPLES = 3
+
+export const MAX_CLONE_SAMPLES = CLONE_SAMPLE_SENTENCES.length
+
+export const MAX_CLONE_NAME_LENGTH = 50
+
+/** Provider labels on every parent clone, so the voice list can tell them apart */
+export const PARENT_CLONE_LABELS: Record<string, string> = { recorded_by: 'parent' }